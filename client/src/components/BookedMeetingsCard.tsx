@@ -0,0 +1,146 @@
+import { useState } from 'react'
+import {
+  useBookedMeetings,
+  useRecordMeetingOutcome,
+} from '../hooks/useSchedulingQuery'
+import type {
+  BookedMeeting,
+  MeetingOutcome,
+} from '../services/scheduling.service'
+
+const STATUS_LABELS: Record<BookedMeeting['status'], string> = {
+  confirmed: 'Booked',
+  canceled: 'Canceled',
+  held: 'Held',
+  no_show: 'No-show',
+}
+
+const STATUS_STYLES: Record<BookedMeeting['status'], string> = {
+  confirmed: 'bg-blue-50 text-blue-700',
+  canceled: 'bg-gray-100 text-gray-600',
+  held: 'bg-green-50 text-green-700',
+  no_show: 'bg-amber-50 text-amber-700',
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+
+export default function BookedMeetingsCard() {
+  const { data: meetings = [], isLoading, error } = useBookedMeetings()
+  const recordOutcome = useRecordMeetingOutcome()
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleOutcome = async (
+    meeting: BookedMeeting,
+    outcome: MeetingOutcome,
+  ) => {
+    try {
+      setNotice(null)
+      const result = await recordOutcome.mutateAsync({
+        meetingId: meeting.id,
+        outcome,
+      })
+      if (result.followUpStarted) {
+        setNotice(
+          `No-show follow-up started for ${meeting.contactName || meeting.contactEmail || 'this prospect'}.`,
+        )
+      }
+    } catch (error) {
+      console.error('Error updating meeting:', error)
+    }
+  }
+
+  const now = Date.now()
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200/60 p-6">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-gray-900">Meetings</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Meetings booked through your links in the last and next 30 days. Mark
+          past meetings as held or no-show.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md border border-red-200 bg-red-50 text-red-700 text-sm">
+          {(error as Error).message}
+        </div>
+      )}
+      {recordOutcome.error && (
+        <div className="mb-4 p-3 rounded-md border border-red-200 bg-red-50 text-red-700 text-sm">
+          {recordOutcome.error.message}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 p-3 rounded-md border border-green-200 bg-green-50 text-green-700 text-sm">
+          {notice}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading meetings...</p>
+      ) : meetings.length === 0 ? (
+        <p className="text-sm text-gray-500">No booked meetings yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {meetings.map((meeting) => {
+            const canMark =
+              meeting.status === 'confirmed' &&
+              new Date(meeting.startTime).getTime() <= now
+
+            return (
+              <li
+                key={meeting.id}
+                className="flex items-center justify-between gap-4 py-3 text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {meeting.contactName || meeting.contactEmail || 'Prospect'}
+                  </p>
+                  <p className="text-gray-500">
+                    {formatWhen(meeting.startTime)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canMark ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleOutcome(meeting, 'held')}
+                        disabled={recordOutcome.isPending}
+                        className="px-3 py-1.5 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Held
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleOutcome(meeting, 'no_show')}
+                        disabled={recordOutcome.isPending}
+                        className="px-3 py-1.5 rounded-md border border-amber-300 text-amber-700 hover:bg-amber-50 disabled:opacity-50"
+                      >
+                        No-show
+                      </button>
+                    </>
+                  ) : (
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[meeting.status]}`}
+                    >
+                      {STATUS_LABELS[meeting.status]}
+                    </span>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
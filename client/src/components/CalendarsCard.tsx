@@ -0,0 +1,239 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import {
+  useAccountCalendars,
+  useAddCalendar,
+  useCalendarConnections,
+  useRemoveCalendar,
+  useUpdateCalendar,
+} from '../hooks/useSchedulingQuery'
+import type { CalendarConnection } from '../services/scheduling.service'
+
+const PROVIDER_LABELS: Record<string, string> = {
+  google: 'Google',
+  microsoft: 'Outlook',
+}
+
+const calendarName = (connection: CalendarConnection) =>
+  connection.providerCalendarId === 'primary'
+    ? 'Main calendar'
+    : connection.displayName || connection.providerCalendarId
+
+export default function CalendarsCard() {
+  const { data: calendars = [], isLoading, error } = useCalendarConnections()
+  const updateCalendar = useUpdateCalendar()
+  const removeCalendar = useRemoveCalendar()
+  const addCalendar = useAddCalendar()
+  const [accountConnectionId, setAccountConnectionId] = useState<string>('')
+
+  // One entry per connected account, keyed by any of its attached calendars
+  const accounts = calendars.filter(
+    (connection, index) =>
+      calendars.findIndex(
+        (other) =>
+          other.provider === connection.provider &&
+          other.primaryEmail === connection.primaryEmail,
+      ) === index,
+  )
+  const selectedAccount =
+    accounts.find((account) => account.id === accountConnectionId)?.id ??
+    accounts[0]?.id ??
+    null
+  const accountCalendars = useAccountCalendars(selectedAccount)
+  const unattached = (accountCalendars.data ?? []).filter(
+    (calendar) => !calendar.connectionId,
+  )
+
+  const mutationError =
+    updateCalendar.error || removeCalendar.error || addCalendar.error
+
+  const handleRemove = async (connection: CalendarConnection) => {
+    if (
+      !confirm(
+        `Stop using "${calendarName(connection)}" (${connection.primaryEmail}) for scheduling?`,
+      )
+    )
+      return
+    try {
+      await removeCalendar.mutateAsync(connection.id)
+    } catch (error) {
+      console.error('Error removing calendar:', error)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200/60 p-6">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-gray-900">Calendars</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Busy time on any checked calendar blocks booking slots. Booked
+          meetings are added to the calendar you pick for new meetings.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md border border-red-200 bg-red-50 text-red-700 text-sm">
+          {(error as Error).message}
+        </div>
+      )}
+      {mutationError && (
+        <div className="mb-4 p-3 rounded-md border border-red-200 bg-red-50 text-red-700 text-sm">
+          {mutationError.message}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading calendars...</p>
+      ) : calendars.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No calendars connected. Connect a Google or Outlook account with
+          calendar access under Email &amp; Calendar Integration.
+        </p>
+      ) : (
+        <>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 font-medium">Calendar</th>
+                <th className="pb-2 font-medium text-center">
+                  Check for conflicts
+                </th>
+                <th className="pb-2 font-medium text-center">New meetings</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {calendars.map((connection) => (
+                <tr key={connection.id}>
+                  <td className="py-3">
+                    <p className="font-medium text-gray-900">
+                      {calendarName(connection)}
+                    </p>
+                    <p className="text-gray-500">
+                      {PROVIDER_LABELS[connection.provider] ??
+                        connection.provider}{' '}
+                      · {connection.primaryEmail}
+                      {connection.reauthRequired && (
+                        <span className="ml-2 text-red-600">
+                          Reconnect required
+                        </span>
+                      )}
+                    </p>
+                  </td>
+                  <td className="py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={connection.checkForConflicts}
+                      disabled={updateCalendar.isPending}
+                      onChange={(event) =>
+                        updateCalendar.mutate({
+                          connectionId: connection.id,
+                          update: { checkForConflicts: event.target.checked },
+                        })
+                      }
+                      className="rounded border-gray-300"
+                    />
+                  </td>
+                  <td className="py-3 text-center">
+                    <input
+                      type="radio"
+                      name="booking-calendar"
+                      checked={connection.isBookingCalendar}
+                      disabled={updateCalendar.isPending}
+                      onChange={() =>
+                        updateCalendar.mutate({
+                          connectionId: connection.id,
+                          update: { isBookingCalendar: true },
+                        })
+                      }
+                    />
+                  </td>
+                  <td className="py-3 text-right">
+                    <button
+                      onClick={() => handleRemove(connection)}
+                      disabled={removeCalendar.isPending}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50"
+                      title="Remove calendar"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="mt-6 border-t border-gray-100 pt-4">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm font-medium text-gray-700">
+                Add another calendar
+              </span>
+              {accounts.length > 1 && (
+                <select
+                  value={selectedAccount ?? ''}
+                  onChange={(event) =>
+                    setAccountConnectionId(event.target.value)
+                  }
+                  className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm"
+                >
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {PROVIDER_LABELS[account.provider] ?? account.provider} ·{' '}
+                      {account.primaryEmail}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {accountCalendars.isLoading ? (
+              <p className="mt-2 text-sm text-gray-600">
+                Loading account calendars...
+              </p>
+            ) : accountCalendars.error ? (
+              <p className="mt-2 text-sm text-red-600">
+                {accountCalendars.error.message}
+              </p>
+            ) : unattached.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">
+                Every calendar of this account is already added.
+              </p>
+            ) : (
+              <ul className="mt-2 divide-y divide-gray-100">
+                {unattached.map((calendar) => (
+                  <li
+                    key={calendar.id}
+                    className="flex items-center justify-between py-2 text-sm"
+                  >
+                    <span className="text-gray-800">
+                      {calendar.name}
+                      {!calendar.canWrite && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          (read only)
+                        </span>
+                      )}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        selectedAccount &&
+                        addCalendar.mutate({
+                          connectionId: selectedAccount,
+                          providerCalendarId: calendar.id,
+                        })
+                      }
+                      disabled={addCalendar.isPending}
+                      className="inline-flex items-center text-[var(--color-primary-700)] hover:underline disabled:opacity-50"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
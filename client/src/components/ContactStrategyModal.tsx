@@ -8,9 +8,12 @@ import {
   Edit,
   Save,
   RotateCcw,
+  Workflow,
 } from 'lucide-react'
 import { useMutation } from '@tanstack/react-query'
 import { leadsService } from '../services/leads.service'
+import CampaignPlanEditor from './campaignPlan/CampaignPlanEditor'
+import type { CampaignPlanOutput } from '../utils/campaignPlanSchema'
 
 interface ContactStrategyModalProps {
   isOpen: boolean
@@ -280,6 +283,7 @@ const ContactStrategyModal: React.FC<ContactStrategyModalProps> = ({
 }) => {
   const [copiedItem, setCopiedItem] = useState<string | null>(null)
   const [isEditMode, setIsEditMode] = useState(false)
+  const [isFlowchartMode, setIsFlowchartMode] = useState(false)
   const [editedData, setEditedData] = useState<any>(null)
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
 
@@ -288,22 +292,24 @@ const ContactStrategyModal: React.FC<ContactStrategyModalProps> = ({
     if (data) {
       setEditedData(JSON.parse(JSON.stringify(data)))
       setIsEditMode(false)
+      setIsFlowchartMode(false)
       setHasUnsavedChanges(false)
     }
   }, [data])
 
   // Update strategy mutation
   const updateStrategyMutation = useMutation({
-    mutationFn: () => {
-      if (!leadId || !contactId || !editedData) {
+    mutationFn: (plan: CampaignPlanOutput) => {
+      if (!leadId || !contactId || !plan) {
         throw new Error('Missing required data for update')
       }
-      return leadsService.updateContactStrategy(leadId, contactId, editedData)
+      return leadsService.updateContactStrategy(leadId, contactId, plan)
     },
     onSuccess: (result) => {
       setEditedData(result)
       onDataUpdate?.(result)
       setIsEditMode(false)
+      setIsFlowchartMode(false)
       setHasUnsavedChanges(false)
     },
     onError: (error) => {
@@ -338,7 +344,7 @@ const ContactStrategyModal: React.FC<ContactStrategyModalProps> = ({
 
   // Handle save
   const handleSave = () => {
-    updateStrategyMutation.mutate()
+    updateStrategyMutation.mutate(editedData)
   }
 
   // Handle cancel
@@ -582,6 +588,18 @@ const ContactStrategyModal: React.FC<ContactStrategyModalProps> = ({
               ) : (
                 <>
                   {leadId && contactId && (
+                    <button
+                      onClick={() => {
+                        updateStrategyMutation.reset()
+                        setIsFlowchartMode(!isFlowchartMode)
+                      }}
+                      className="bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-400)] text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2"
+                    >
+                      <Workflow className="h-4 w-4" />
+                      <span>{isFlowchartMode ? 'List view' : 'Flowchart'}</span>
+                    </button>
+                  )}
+                  {leadId && contactId && !isFlowchartMode && (
                     <button
                       onClick={() => setIsEditMode(true)}
                       className="bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-400)] text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2"
@@ -622,74 +640,38 @@ const ContactStrategyModal: React.FC<ContactStrategyModalProps> = ({
 
         {/* Content */}
         <div className="overflow-y-auto max-h-[calc(95vh-140px)]">
-          <div className="p-6 space-y-6">
-            {/* Plan Overview */}
-            <CollapsibleSection title="Plan Overview" defaultExpanded={true}>
-              <div className="space-y-3">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {currentData.timezone && (
-                    <EditableInput
-                      value={currentData.timezone}
-                      onChange={() => {}} // Read-only
-                      label="Timezone"
-                      isEditing={false}
-                      className="bg-white"
-                      copiedItem={copiedItem}
-                      onCopy={copyToClipboard}
-                    />
-                  )}
-                  {currentData.startNodeId && (
-                    <EditableInput
-                      value={currentData.startNodeId}
-                      onChange={() => {}} // Read-only
-                      label="Start Node"
-                      isEditing={false}
-                      className="bg-white"
-                      copiedItem={copiedItem}
-                      onCopy={copyToClipboard}
-                    />
-                  )}
-                </div>
-                {currentData.quietHours && (
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <EditableInput
-                      value={currentData.quietHours.start}
-                      onChange={() => {}} // Read-only
-                      label="Quiet Hours Start"
-                      isEditing={false}
-                      className="bg-white"
-                      copiedItem={copiedItem}
-                      onCopy={copyToClipboard}
-                    />
-                    <EditableInput
-                      value={currentData.quietHours.end}
-                      onChange={() => {}} // Read-only
-                      label="Quiet Hours End"
-                      isEditing={false}
-                      className="bg-white"
-                      copiedItem={copiedItem}
-                      onCopy={copyToClipboard}
-                    />
-                  </div>
-                )}
-                {currentData.defaults?.timers && (
+          {isFlowchartMode ? (
+            <div className="p-6">
+              <CampaignPlanEditor
+                plan={data}
+                isSaving={updateStrategyMutation.isPending}
+                saveError={updateStrategyMutation.error?.message}
+                onSave={(plan) => updateStrategyMutation.mutate(plan)}
+                onCancel={() => setIsFlowchartMode(false)}
+              />
+            </div>
+          ) : (
+            <div className="p-6 space-y-6">
+              {/* Plan Overview */}
+              <CollapsibleSection title="Plan Overview" defaultExpanded={true}>
+                <div className="space-y-3">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {currentData.defaults.timers.no_open_after && (
+                    {currentData.timezone && (
                       <EditableInput
-                        value={currentData.defaults.timers.no_open_after}
+                        value={currentData.timezone}
                         onChange={() => {}} // Read-only
-                        label="Default No Open After"
+                        label="Timezone"
                         isEditing={false}
                         className="bg-white"
                         copiedItem={copiedItem}
                         onCopy={copyToClipboard}
                       />
                     )}
-                    {currentData.defaults.timers.no_click_after && (
+                    {currentData.startNodeId && (
                       <EditableInput
-                        value={currentData.defaults.timers.no_click_after}
+                        value={currentData.startNodeId}
                         onChange={() => {}} // Read-only
-                        label="Default No Click After"
+                        label="Start Node"
                         isEditing={false}
                         className="bg-white"
                         copiedItem={copiedItem}
@@ -697,34 +679,82 @@ const ContactStrategyModal: React.FC<ContactStrategyModalProps> = ({
                       />
                     )}
                   </div>
-                )}
-              </div>
-            </CollapsibleSection>
-
-            {/* Nodes */}
-            {Array.isArray(currentData.nodes) &&
-            currentData.nodes.length > 0 ? (
-              <CollapsibleSection
-                title={`Nodes (${currentData.nodes.length})`}
-                defaultExpanded={true}
-              >
-                <div className="space-y-4">
-                  {currentData.nodes.map((node: any, index: number) =>
-                    renderNode(node, index),
+                  {currentData.quietHours && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <EditableInput
+                        value={currentData.quietHours.start}
+                        onChange={() => {}} // Read-only
+                        label="Quiet Hours Start"
+                        isEditing={false}
+                        className="bg-white"
+                        copiedItem={copiedItem}
+                        onCopy={copyToClipboard}
+                      />
+                      <EditableInput
+                        value={currentData.quietHours.end}
+                        onChange={() => {}} // Read-only
+                        label="Quiet Hours End"
+                        isEditing={false}
+                        className="bg-white"
+                        copiedItem={copiedItem}
+                        onCopy={copyToClipboard}
+                      />
+                    </div>
+                  )}
+                  {currentData.defaults?.timers && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {currentData.defaults.timers.no_open_after && (
+                        <EditableInput
+                          value={currentData.defaults.timers.no_open_after}
+                          onChange={() => {}} // Read-only
+                          label="Default No Open After"
+                          isEditing={false}
+                          className="bg-white"
+                          copiedItem={copiedItem}
+                          onCopy={copyToClipboard}
+                        />
+                      )}
+                      {currentData.defaults.timers.no_click_after && (
+                        <EditableInput
+                          value={currentData.defaults.timers.no_click_after}
+                          onChange={() => {}} // Read-only
+                          label="Default No Click After"
+                          isEditing={false}
+                          className="bg-white"
+                          copiedItem={copiedItem}
+                          onCopy={copyToClipboard}
+                        />
+                      )}
+                    </div>
                   )}
                 </div>
               </CollapsibleSection>
-            ) : (
-              <div className="text-center py-12">
-                <div className="text-gray-500">
-                  <p className="text-lg font-medium">No nodes found</p>
-                  <p className="text-sm mt-2">
-                    The campaign plan appears to be empty or invalid.
-                  </p>
+
+              {/* Nodes */}
+              {Array.isArray(currentData.nodes) &&
+              currentData.nodes.length > 0 ? (
+                <CollapsibleSection
+                  title={`Nodes (${currentData.nodes.length})`}
+                  defaultExpanded={true}
+                >
+                  <div className="space-y-4">
+                    {currentData.nodes.map((node: any, index: number) =>
+                      renderNode(node, index),
+                    )}
+                  </div>
+                </CollapsibleSection>
+              ) : (
+                <div className="text-center py-12">
+                  <div className="text-gray-500">
+                    <p className="text-lg font-medium">No nodes found</p>
+                    <p className="text-sm mt-2">
+                      The campaign plan appears to be empty or invalid.
+                    </p>
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
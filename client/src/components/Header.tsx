@@ -3,7 +3,13 @@ import { useAuth } from '../contexts/AuthContext'
 import Logo from './Logo'
 import { useState, useRef, useEffect } from 'react'
 import { Settings, User } from 'lucide-react'
-import { HOME_URL, LEADS_URL } from '../constants/navigation'
+import {
+  HOME_URL,
+  LEADS_URL,
+  REPORTS_URL,
+  REVIEW_URL,
+  TASKS_URL,
+} from '../constants/navigation'
 
 export default function Header() {
   const { user, logout } = useAuth()
@@ -87,6 +93,24 @@ export default function Header() {
                 >
                   Leads
                 </button>
+                <button
+                  onClick={() => navigate({ to: TASKS_URL })}
+                  className="text-[var(--color-surface-950)] hover:text-[var(--color-primary-600)] px-3 py-2 text-sm font-medium bg-transparent border-none cursor-pointer transition-all duration-200 rounded-lg hover:bg-[var(--color-primary-50)] hover:shadow-sm transform hover:-translate-y-0.5"
+                >
+                  My tasks
+                </button>
+                <button
+                  onClick={() => navigate({ to: REVIEW_URL })}
+                  className="text-[var(--color-surface-950)] hover:text-[var(--color-primary-600)] px-3 py-2 text-sm font-medium bg-transparent border-none cursor-pointer transition-all duration-200 rounded-lg hover:bg-[var(--color-primary-50)] hover:shadow-sm transform hover:-translate-y-0.5"
+                >
+                  Review
+                </button>
+                <button
+                  onClick={() => navigate({ to: REPORTS_URL })}
+                  className="text-[var(--color-surface-950)] hover:text-[var(--color-primary-600)] px-3 py-2 text-sm font-medium bg-transparent border-none cursor-pointer transition-all duration-200 rounded-lg hover:bg-[var(--color-primary-50)] hover:shadow-sm transform hover:-translate-y-0.5"
+                >
+                  Reports
+                </button>
               </nav>
             </div>
 
@@ -212,6 +236,24 @@ export default function Header() {
               >
                 Leads
               </button>
+              <button
+                onClick={() => navigateAndClose(TASKS_URL)}
+                className="text-[var(--color-surface-950)] hover:text-[var(--color-primary-600)] px-4 py-3 text-base font-medium bg-transparent border-none cursor-pointer transition-all duration-200 rounded-lg hover:bg-[var(--color-primary-50)] text-left hover:shadow-sm transform hover:translate-x-2"
+              >
+                My tasks
+              </button>
+              <button
+                onClick={() => navigateAndClose(REVIEW_URL)}
+                className="text-[var(--color-surface-950)] hover:text-[var(--color-primary-600)] px-4 py-3 text-base font-medium bg-transparent border-none cursor-pointer transition-all duration-200 rounded-lg hover:bg-[var(--color-primary-50)] text-left hover:shadow-sm transform hover:translate-x-2"
+              >
+                Review
+              </button>
+              <button
+                onClick={() => navigateAndClose(REPORTS_URL)}
+                className="text-[var(--color-surface-950)] hover:text-[var(--color-primary-600)] px-4 py-3 text-base font-medium bg-transparent border-none cursor-pointer transition-all duration-200 rounded-lg hover:bg-[var(--color-primary-50)] text-left hover:shadow-sm transform hover:translate-x-2"
+              >
+                Reports
+              </button>
               <button
                 onClick={() => navigateAndClose('/profile')}
                 className="text-[var(--color-surface-950)] hover:text-[var(--color-primary-600)] px-4 py-3 text-base font-medium bg-transparent border-none cursor-pointer transition-all duration-200 rounded-lg hover:bg-[var(--color-primary-50)] text-left flex items-center hover:shadow-sm transform hover:translate-x-2"
@@ -0,0 +1,476 @@
+import { useState } from 'react'
+import { Edit, Plus, Trash2 } from 'lucide-react'
+import {
+  useDeleteMeetingType,
+  useMeetingTypes,
+  useSaveMeetingType,
+} from '../hooks/useSchedulingQuery'
+import type {
+  MeetingLocationType,
+  MeetingType,
+  MeetingTypeInput,
+  MeetingTypeQuestion,
+} from '../services/scheduling.service'
+
+const inputClass =
+  'block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 shadow-sm focus:border-[var(--color-primary-500)] focus:ring-2 focus:ring-[var(--color-primary-200)]'
+
+const LOCATION_OPTIONS: Array<{
+  value: MeetingLocationType
+  label: string
+  placeholder: string
+}> = [
+  {
+    value: 'video',
+    label: 'Video call',
+    placeholder: 'Meeting URL (blank adds Google Meet or Teams)',
+  },
+  { value: 'phone', label: 'Phone call', placeholder: '+1 555 123 4567' },
+  { value: 'in_person', label: 'In person', placeholder: 'Office address' },
+  { value: 'custom', label: 'Custom', placeholder: 'Where to meet' },
+]
+
+const emptyMeetingType: MeetingTypeInput = {
+  name: '',
+  slug: '',
+  description: null,
+  durationMinutes: 30,
+  bufferBeforeMinutes: null,
+  bufferAfterMinutes: null,
+  locationType: 'video',
+  location: null,
+  questions: [],
+  isActive: true,
+}
+
+const toSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+
+const toInput = ({ id: _id, ...meetingType }: MeetingType) => meetingType
+
+function MeetingTypeForm({
+  meetingType,
+  onClose,
+}: {
+  meetingType: MeetingType | null
+  onClose: () => void
+}) {
+  const saveMeetingType = useSaveMeetingType()
+  const [form, setForm] = useState<MeetingTypeInput>(
+    meetingType ? toInput(meetingType) : emptyMeetingType,
+  )
+  const location = LOCATION_OPTIONS.find(
+    (option) => option.value === form.locationType,
+  )
+
+  const setQuestion = (index: number, changes: Partial<MeetingTypeQuestion>) =>
+    setForm((current) => ({
+      ...current,
+      questions: current.questions.map((question, i) =>
+        i === index ? { ...question, ...changes } : question,
+      ),
+    }))
+
+  const addQuestion = () =>
+    setForm((current) => ({
+      ...current,
+      questions: [
+        ...current.questions,
+        {
+          id: `q${current.questions.length + 1}`,
+          label: '',
+          type: 'text',
+          required: false,
+        },
+      ],
+    }))
+
+  const removeQuestion = (index: number) =>
+    setForm((current) => ({
+      ...current,
+      questions: current.questions.filter((_, i) => i !== index),
+    }))
+
+  const handleSave = async () => {
+    try {
+      await saveMeetingType.mutateAsync({
+        input: form,
+        meetingTypeId: meetingType?.id,
+      })
+      onClose()
+    } catch (error) {
+      console.error('Error saving meeting type:', error)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            Name
+          </span>
+          <input
+            value={form.name}
+            onChange={(event) =>
+              setForm((current) => ({
+                ...current,
+                name: event.target.value,
+                slug:
+                  meetingType || current.slug !== toSlug(current.name)
+                    ? current.slug
+                    : toSlug(event.target.value),
+              }))
+            }
+            placeholder="Technical deep dive"
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            Slug
+          </span>
+          <input
+            value={form.slug}
+            onChange={(event) =>
+              setForm((current) => ({
+                ...current,
+                slug: event.target.value.toLowerCase(),
+              }))
+            }
+            placeholder="deep-dive"
+            className={`${inputClass} font-mono text-sm`}
+          />
+          <span className="mt-1 block text-xs text-gray-500">
+            Campaign emails link to this type by its slug.
+          </span>
+        </label>
+
+        <label className="block sm:col-span-2">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            Description
+          </span>
+          <textarea
+            value={form.description ?? ''}
+            onChange={(event) =>
+              setForm((current) => ({
+                ...current,
+                description: event.target.value || null,
+              }))
+            }
+            rows={2}
+            placeholder="Shown on the booking page and in the invite"
+            className={inputClass}
+          />
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            Duration
+          </span>
+          <select
+            value={form.durationMinutes}
+            onChange={(event) =>
+              setForm((current) => ({
+                ...current,
+                durationMinutes: Number(event.target.value),
+              }))
+            }
+            className={inputClass}
+          >
+            {[15, 30, 45, 60, 90, 120].map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} minutes
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(['bufferBeforeMinutes', 'bufferAfterMinutes'] as const).map(
+            (field) => (
+              <label key={field} className="block">
+                <span className="block text-sm font-medium text-gray-700 mb-1">
+                  {field === 'bufferBeforeMinutes'
+                    ? 'Buffer before'
+                    : 'Buffer after'}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={240}
+                  value={form[field] ?? ''}
+                  onChange={(event) =>
+                    setForm((current) => ({
+                      ...current,
+                      [field]:
+                        event.target.value === ''
+                          ? null
+                          : Number(event.target.value),
+                    }))
+                  }
+                  placeholder="Default"
+                  className={inputClass}
+                />
+              </label>
+            ),
+          )}
+        </div>
+
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            Location
+          </span>
+          <select
+            value={form.locationType}
+            onChange={(event) =>
+              setForm((current) => ({
+                ...current,
+                locationType: event.target.value as MeetingLocationType,
+              }))
+            }
+            className={inputClass}
+          >
+            {LOCATION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            Location details
+          </span>
+          <input
+            value={form.location ?? ''}
+            onChange={(event) =>
+              setForm((current) => ({
+                ...current,
+                location: event.target.value || null,
+              }))
+            }
+            placeholder={location?.placeholder}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">
+            Intake questions
+          </span>
+          <button
+            type="button"
+            onClick={addQuestion}
+            disabled={form.questions.length >= 10}
+            className="inline-flex items-center text-sm text-[var(--color-primary-700)] hover:underline disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add question
+          </button>
+        </div>
+        {form.questions.map((question, index) => (
+          <div key={index} className="mt-2 flex items-center gap-2">
+            <input
+              value={question.label}
+              onChange={(event) =>
+                setQuestion(index, { label: event.target.value })
+              }
+              placeholder="What should we prepare?"
+              className={inputClass}
+            />
+            <select
+              value={question.type}
+              onChange={(event) =>
+                setQuestion(index, {
+                  type: event.target.value as MeetingTypeQuestion['type'],
+                })
+              }
+              className="rounded-lg border border-gray-300 bg-white px-2 py-2 text-sm"
+            >
+              <option value="text">Short</option>
+              <option value="long_text">Long</option>
+            </select>
+            <label className="flex items-center gap-1 text-sm text-gray-700 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={question.required}
+                onChange={(event) =>
+                  setQuestion(index, { required: event.target.checked })
+                }
+                className="rounded border-gray-300"
+              />
+              Required
+            </label>
+            <button
+              type="button"
+              onClick={() => removeQuestion(index)}
+              className="p-2 text-gray-400 hover:text-red-600"
+              title="Remove question"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={form.isActive}
+          onChange={(event) =>
+            setForm((current) => ({
+              ...current,
+              isActive: event.target.checked,
+            }))
+          }
+          className="rounded border-gray-300"
+        />
+        Available for new booking links
+      </label>
+
+      {saveMeetingType.error && (
+        <p className="text-sm text-red-600">{saveMeetingType.error.message}</p>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={
+            saveMeetingType.isPending || !form.name.trim() || !form.slug.trim()
+          }
+          className="px-4 py-2 text-sm font-medium text-white bg-[var(--color-primary-600)] rounded-md hover:bg-[var(--color-primary-700)] disabled:opacity-50"
+        >
+          {saveMeetingType.isPending ? 'Saving...' : 'Save meeting type'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default function MeetingTypesCard() {
+  const { data: meetingTypes = [], isLoading, error } = useMeetingTypes()
+  const deleteMeetingType = useDeleteMeetingType()
+  // undefined = closed, null = creating
+  const [editing, setEditing] = useState<MeetingType | null | undefined>(
+    undefined,
+  )
+
+  const handleDelete = async (meetingType: MeetingType) => {
+    if (
+      !confirm(
+        `Delete "${meetingType.name}"? Links already sent for it will book your default meeting.`,
+      )
+    )
+      return
+    try {
+      await deleteMeetingType.mutateAsync(meetingType.id)
+    } catch (error) {
+      console.error('Error deleting meeting type:', error)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200/60 p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Meeting types</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Events prospects can book with you, each with its own length,
+            location and questions.
+          </p>
+        </div>
+        {editing === undefined && (
+          <button
+            type="button"
+            onClick={() => setEditing(null)}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-[var(--color-primary-600)] rounded-md hover:bg-[var(--color-primary-700)]"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add type
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md border border-red-200 bg-red-50 text-red-700 text-sm">
+          {(error as Error).message}
+        </div>
+      )}
+
+      {editing !== undefined && (
+        <div className="mb-4">
+          <MeetingTypeForm
+            key={editing?.id ?? 'new'}
+            meetingType={editing}
+            onClose={() => setEditing(undefined)}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading meeting types...</p>
+      ) : meetingTypes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No meeting types yet. Booking links use your default meeting length.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {meetingTypes.map((meetingType) => (
+            <div
+              key={meetingType.id}
+              className="flex items-center justify-between py-3"
+            >
+              <div>
+                <p className="font-medium text-gray-900">
+                  {meetingType.name}
+                  {!meetingType.isActive && (
+                    <span className="ml-2 text-xs text-gray-500">
+                      (inactive)
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {meetingType.durationMinutes} minutes ·{' '}
+                  <code>{meetingType.slug}</code>
+                  {meetingType.questions.length > 0 &&
+                    ` · ${meetingType.questions.length} questions`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setEditing(meetingType)}
+                  className="p-2 text-gray-400 hover:text-[var(--color-primary-600)] hover:bg-[var(--color-primary-50)] rounded-md"
+                  title="Edit meeting type"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(meetingType)}
+                  disabled={deleteMeetingType.isPending}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50"
+                  title="Delete meeting type"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,12 @@
 import { useEffect, useMemo, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
 import {
+  useSchedulingPools,
   useSchedulingSettings,
   useUpdateSchedulingSettings,
 } from '../hooks/useSchedulingQuery'
 import type {
+  NoShowFollowUpStep,
   SchedulingSettingsUpdate,
   WorkingHours,
 } from '../services/scheduling.service'
@@ -30,6 +33,8 @@ const DAY_LABELS: Record<keyof WorkingHours, string> = {
 
 const DEFAULT_TIMEZONE = 'America/Chicago'
 
+const MAX_NO_SHOW_STEPS = 5
+
 const US_TIMEZONES = [
   { value: 'America/New_York', label: 'Eastern Time (America/New_York)' },
   { value: 'America/Chicago', label: 'Central Time (America/Chicago)' },
@@ -54,6 +59,7 @@ function getSupportedTimezone(timezone: string) {
 export default function SchedulingSettingsCard() {
   const { data, isLoading, error } = useSchedulingSettings()
   const updateSettings = useUpdateSchedulingSettings()
+  const { data: pools = [] } = useSchedulingPools()
   const [form, setForm] = useState<SchedulingSettingsUpdate | null>(null)
   const [localError, setLocalError] = useState<string | null>(null)
 
@@ -68,6 +74,9 @@ export default function SchedulingSettingsCard() {
         minNoticeMinutes: data.minNoticeMinutes,
         bookingHorizonDays: data.bookingHorizonDays,
         respectFreeBusy: data.respectFreeBusy,
+        bookingPoolId: data.bookingPoolId,
+        remindersEnabled: data.remindersEnabled,
+        noShowFollowUp: data.noShowFollowUp,
       })
     }
   }, [data])
@@ -114,6 +123,48 @@ export default function SchedulingSettingsCard() {
     })
   }
 
+  const setNoShowStep = (
+    index: number,
+    field: keyof NoShowFollowUpStep,
+    value: string,
+  ) => {
+    setForm((current) => {
+      const followUp = current!.noShowFollowUp!
+      const steps = followUp.steps.map((step, i) =>
+        i === index
+          ? { ...step, [field]: field === 'delayHours' ? Number(value) : value }
+          : step,
+      )
+      return { ...current!, noShowFollowUp: { ...followUp, steps } }
+    })
+  }
+
+  const addNoShowStep = () => {
+    setForm((current) => {
+      const followUp = current!.noShowFollowUp!
+      return {
+        ...current!,
+        noShowFollowUp: {
+          ...followUp,
+          steps: [...followUp.steps, { delayHours: 72, subject: '', body: '' }],
+        },
+      }
+    })
+  }
+
+  const removeNoShowStep = (index: number) => {
+    setForm((current) => {
+      const followUp = current!.noShowFollowUp!
+      return {
+        ...current!,
+        noShowFollowUp: {
+          ...followUp,
+          steps: followUp.steps.filter((_, i) => i !== index),
+        },
+      }
+    })
+  }
+
   const handleSave = async () => {
     try {
       setLocalError(null)
@@ -195,6 +246,35 @@ export default function SchedulingSettingsCard() {
           </span>
         </label>
 
+        {pools.length > 0 && (
+          <label className="block sm:col-span-2">
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Booking links book
+            </span>
+            <select
+              value={form.bookingPoolId ?? ''}
+              onChange={(event) =>
+                setForm((current) => ({
+                  ...current!,
+                  bookingPoolId: event.target.value || null,
+                }))
+              }
+              className="block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 shadow-sm focus:border-[var(--color-primary-500)] focus:ring-2 focus:ring-[var(--color-primary-200)]"
+            >
+              <option value="">My calendar</option>
+              {pools.map((pool) => (
+                <option key={pool.id} value={pool.id}>
+                  Team: {pool.name}
+                </option>
+              ))}
+            </select>
+            <span className="mt-1 block text-xs text-gray-500">
+              Team links offer the pool's combined availability and use its
+              meeting length.
+            </span>
+          </label>
+        )}
+
         <label className="block">
           <span className="block text-sm font-medium text-gray-700 mb-1">
             Buffer before meeting
@@ -358,6 +438,119 @@ export default function SchedulingSettingsCard() {
         </span>
       </label>
 
+      <label className="mt-3 flex items-start gap-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={form.remindersEnabled ?? true}
+          onChange={(event) =>
+            setForm((current) => ({
+              ...current!,
+              remindersEnabled: event.target.checked,
+            }))
+          }
+          className="mt-1 rounded border-gray-300 text-[var(--color-primary-600)]"
+        />
+        <span>
+          Send meeting reminders. Prospects get an email 24 hours and 1 hour
+          before each booked meeting.
+        </span>
+      </label>
+
+      {form.noShowFollowUp && (
+        <div className="mt-6">
+          <label className="flex items-start gap-3 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.noShowFollowUp.enabled}
+              onChange={(event) =>
+                setForm((current) => ({
+                  ...current!,
+                  noShowFollowUp: {
+                    ...current!.noShowFollowUp!,
+                    enabled: event.target.checked,
+                  },
+                }))
+              }
+              className="mt-1 rounded border-gray-300 text-[var(--color-primary-600)]"
+            />
+            <span>
+              <span className="block font-medium text-gray-900">
+                No-show follow-up
+              </span>
+              When you mark a meeting as a no-show, these emails go out with a
+              new booking link until the prospect replies.
+            </span>
+          </label>
+
+          {form.noShowFollowUp.enabled && (
+            <div className="mt-3 space-y-4">
+              {form.noShowFollowUp.steps.map((step, index) => (
+                <div
+                  key={index}
+                  className="rounded-lg border border-gray-200 p-4 space-y-3"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      Send
+                      <input
+                        type="number"
+                        min={1}
+                        max={720}
+                        value={step.delayHours}
+                        onChange={(event) =>
+                          setNoShowStep(index, 'delayHours', event.target.value)
+                        }
+                        className="w-20 rounded-lg border border-gray-300 bg-white px-2 py-1"
+                      />
+                      hours after{' '}
+                      {index === 0
+                        ? 'the missed meeting'
+                        : 'the previous email'}
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => removeNoShowStep(index)}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md"
+                      title="Remove email"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={step.subject}
+                    placeholder="Subject"
+                    onChange={(event) =>
+                      setNoShowStep(index, 'subject', event.target.value)
+                    }
+                    className="block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm"
+                  />
+                  <textarea
+                    rows={4}
+                    value={step.body}
+                    placeholder="Hi {{contact.firstName}}, ..."
+                    onChange={(event) =>
+                      setNoShowStep(index, 'body', event.target.value)
+                    }
+                    className="block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm"
+                  />
+                </div>
+              ))}
+              {form.noShowFollowUp.steps.length < MAX_NO_SHOW_STEPS && (
+                <button
+                  type="button"
+                  onClick={addNoShowStep}
+                  className="inline-flex items-center text-sm text-[var(--color-primary-700)] hover:underline"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add email
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="mt-6">
         <button
           onClick={handleSave}
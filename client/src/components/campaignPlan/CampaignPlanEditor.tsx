@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react'
+import {
+  AlertCircle,
+  ClipboardList,
+  Clock,
+  Mail,
+  MessageSquare,
+  OctagonX,
+  RotateCcw,
+  Save,
+} from 'lucide-react'
+import PlanFlowchart from './PlanFlowchart'
+import PlanNodeInspector from './PlanNodeInspector'
+import { validateCampaignPlan } from '../../utils/campaignPlanSchema'
+import type {
+  CampaignPlanNode,
+  CampaignPlanOutput,
+} from '../../utils/campaignPlanSchema'
+
+interface CampaignPlanEditorProps {
+  plan: CampaignPlanOutput
+  isSaving: boolean
+  saveError?: string | null
+  onSave: (plan: CampaignPlanOutput) => void
+  onCancel: () => void
+}
+
+type NewNodeKind = 'email' | 'sms' | 'wait' | 'task' | 'stop'
+
+const NEW_NODE_BUTTONS: Array<{
+  kind: NewNodeKind
+  label: string
+  icon: typeof Mail
+}> = [
+  { kind: 'email', label: 'Email', icon: Mail },
+  { kind: 'sms', label: 'SMS', icon: MessageSquare },
+  { kind: 'wait', label: 'Wait', icon: Clock },
+  { kind: 'task', label: 'Task', icon: ClipboardList },
+  { kind: 'stop', label: 'Stop', icon: OctagonX },
+]
+
+const nextNodeId = (plan: CampaignPlanOutput, prefix: string): string => {
+  const ids = new Set(plan.nodes.map((node) => node.id))
+  let index = 1
+  while (ids.has(`${prefix}_${index}`)) index++
+  return `${prefix}_${index}`
+}
+
+const createNode = (kind: NewNodeKind, id: string): CampaignPlanNode => {
+  switch (kind) {
+    case 'email':
+      return {
+        id,
+        action: 'send',
+        channel: 'email',
+        subject: '',
+        body: '',
+        schedule: { delay: 'PT0S' },
+        transitions: [],
+      }
+    case 'sms':
+      return {
+        id,
+        action: 'send',
+        channel: 'sms',
+        body: '',
+        schedule: { delay: 'PT0S' },
+        transitions: [],
+      }
+    case 'wait':
+      return { id, action: 'wait', channel: 'email', transitions: [] }
+    case 'task':
+      return {
+        id,
+        action: 'task',
+        channel: 'manual',
+        taskType: 'call',
+        title: 'Call contact',
+        dueIn: 'P1D',
+        transitions: [],
+      }
+    case 'stop':
+      return { id, action: 'stop', channel: 'email', transitions: [] }
+  }
+}
+
+/**
+ * Flowchart editor for a contact's campaign plan. Reps add, remove and re-wire nodes
+ * and edit message content in the side panel. The plan is checked against the same
+ * schema the API uses, and Save stays disabled until it passes.
+ */
+const CampaignPlanEditor: React.FC<CampaignPlanEditorProps> = ({
+  plan,
+  isSaving,
+  saveError,
+  onSave,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState<CampaignPlanOutput>(() =>
+    JSON.parse(JSON.stringify(plan)),
+  )
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(
+    plan.startNodeId,
+  )
+  const [isDirty, setIsDirty] = useState(false)
+
+  const validation = useMemo(() => validateCampaignPlan(draft), [draft])
+  const invalidNodeIds = useMemo(
+    () =>
+      new Set(
+        validation.success
+          ? []
+          : validation.errors.flatMap((e) => (e.nodeId ? [e.nodeId] : [])),
+      ),
+    [validation],
+  )
+
+  const selectedNode = draft.nodes.find((node) => node.id === selectedNodeId)
+
+  const updateDraft = (next: CampaignPlanOutput) => {
+    setDraft(next)
+    setIsDirty(true)
+  }
+
+  const addNode = (kind: NewNodeKind) => {
+    const id = nextNodeId(draft, kind)
+    updateDraft({ ...draft, nodes: [...draft.nodes, createNode(kind, id)] })
+    setSelectedNodeId(id)
+  }
+
+  const updateNode = (updated: CampaignPlanNode) =>
+    updateDraft({
+      ...draft,
+      nodes: draft.nodes.map((node) =>
+        node.id === updated.id ? updated : node,
+      ),
+    })
+
+  // Removing a node also drops every transition that pointed at it
+  const removeNode = (nodeId: string) => {
+    if (draft.nodes.length === 1) return
+    if (!window.confirm(`Remove node "${nodeId}" and its incoming links?`)) {
+      return
+    }
+
+    const nodes = draft.nodes
+      .filter((node) => node.id !== nodeId)
+      .map(
+        (node) =>
+          ({
+            ...node,
+            transitions: node.transitions.filter((t) => t.to !== nodeId),
+          }) as CampaignPlanNode,
+      )
+
+    updateDraft({
+      ...draft,
+      nodes,
+      startNodeId:
+        draft.startNodeId === nodeId ? nodes[0].id : draft.startNodeId,
+    })
+    setSelectedNodeId(null)
+  }
+
+  const handleReset = () => {
+    setDraft(JSON.parse(JSON.stringify(plan)))
+    setIsDirty(false)
+  }
+
+  const handleSave = () => {
+    if (validation.success) {
+      onSave(validation.plan)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">Add node:</span>
+          {NEW_NODE_BUTTONS.map(({ kind, label, icon: Icon }) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => addNode(kind)}
+              className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 cursor-pointer"
+            >
+              <Icon className="mr-1.5 h-4 w-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={isDirty ? handleReset : onCancel}
+            disabled={isSaving}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+          >
+            <RotateCcw className="mr-1.5 h-4 w-4" />
+            {isDirty ? 'Reset' : 'Back'}
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || !isDirty || !validation.success}
+            className="inline-flex items-center rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+          >
+            <Save className="mr-1.5 h-4 w-4" />
+            {isSaving ? 'Saving...' : 'Save plan'}
+          </button>
+        </div>
+      </div>
+
+      {!validation.success && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3">
+          <div className="flex items-center text-sm font-medium text-red-800">
+            <AlertCircle className="mr-1.5 h-4 w-4" />
+            Fix these before saving
+          </div>
+          <ul className="mt-2 list-disc pl-6 text-sm text-red-700">
+            {validation.errors.map((error, index) => (
+              <li key={index}>{error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {saveError && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {saveError}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        <div className={selectedNode ? 'lg:col-span-2' : 'lg:col-span-3'}>
+          <PlanFlowchart
+            plan={draft}
+            selectedNodeId={selectedNodeId}
+            invalidNodeIds={invalidNodeIds}
+            onSelectNode={setSelectedNodeId}
+          />
+        </div>
+
+        {selectedNode && (
+          <PlanNodeInspector
+            key={selectedNode.id}
+            node={selectedNode}
+            nodeIds={draft.nodes.map((node) => node.id)}
+            isStartNode={selectedNode.id === draft.startNodeId}
+            onChange={updateNode}
+            onRemove={() => removeNode(selectedNode.id)}
+            onSetStart={() =>
+              updateDraft({ ...draft, startNodeId: selectedNode.id })
+            }
+            onClose={() => setSelectedNodeId(null)}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CampaignPlanEditor
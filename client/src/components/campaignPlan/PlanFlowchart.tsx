@@ -0,0 +1,266 @@
+import React, { useMemo } from 'react'
+import {
+  ClipboardList,
+  Clock,
+  Mail,
+  MessageSquare,
+  Phone,
+  Linkedin,
+  OctagonX,
+} from 'lucide-react'
+import type {
+  CampaignPlanNode,
+  CampaignPlanOutput,
+} from '../../utils/campaignPlanSchema'
+
+const NODE_WIDTH = 208
+const NODE_HEIGHT = 76
+const COLUMN_GAP = 96
+const ROW_GAP = 36
+const PADDING = 24
+
+interface PlanFlowchartProps {
+  plan: CampaignPlanOutput
+  selectedNodeId: string | null
+  invalidNodeIds: Set<string>
+  onSelectNode: (nodeId: string) => void
+}
+
+interface NodePosition {
+  x: number
+  y: number
+}
+
+/**
+ * Lays nodes out left to right by their distance from the start node. Nodes that
+ * cannot be reached from the start go in a final column so they stay visible.
+ */
+function layoutPlan(plan: CampaignPlanOutput): Map<string, NodePosition> {
+  const nodesById = new Map(plan.nodes.map((node) => [node.id, node]))
+  const depths = new Map<string, number>()
+  const queue: string[] = []
+
+  if (nodesById.has(plan.startNodeId)) {
+    depths.set(plan.startNodeId, 0)
+    queue.push(plan.startNodeId)
+  }
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!
+    const depth = depths.get(nodeId)!
+    for (const transition of nodesById.get(nodeId)?.transitions ?? []) {
+      if (nodesById.has(transition.to) && !depths.has(transition.to)) {
+        depths.set(transition.to, depth + 1)
+        queue.push(transition.to)
+      }
+    }
+  }
+
+  const unreachableDepth =
+    depths.size > 0 ? Math.max(...depths.values()) + 1 : 0
+  const columns: string[][] = []
+
+  for (const node of plan.nodes) {
+    const depth = depths.get(node.id) ?? unreachableDepth
+    columns[depth] = [...(columns[depth] ?? []), node.id]
+  }
+
+  const positions = new Map<string, NodePosition>()
+  columns.forEach((column, columnIndex) => {
+    column.forEach((nodeId, rowIndex) => {
+      positions.set(nodeId, {
+        x: PADDING + columnIndex * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + rowIndex * (NODE_HEIGHT + ROW_GAP),
+      })
+    })
+  })
+
+  return positions
+}
+
+const getNodeIcon = (node: CampaignPlanNode) => {
+  switch (node.action) {
+    case 'send':
+      return node.channel === 'sms' ? MessageSquare : Mail
+    case 'wait':
+      return Clock
+    case 'stop':
+      return OctagonX
+    case 'task':
+      return node.taskType === 'call'
+        ? Phone
+        : node.taskType === 'linkedin'
+          ? Linkedin
+          : ClipboardList
+  }
+}
+
+const getNodeColor = (node: CampaignPlanNode) => {
+  switch (node.action) {
+    case 'send':
+      return 'bg-blue-50 text-blue-700'
+    case 'wait':
+      return 'bg-yellow-50 text-yellow-700'
+    case 'task':
+      return 'bg-purple-50 text-purple-700'
+    default:
+      return 'bg-gray-100 text-gray-700'
+  }
+}
+
+const getNodeSummary = (node: CampaignPlanNode): string => {
+  switch (node.action) {
+    case 'send':
+      return node.channel === 'sms'
+        ? node.body || 'Empty text message'
+        : node.subject || 'No subject'
+    case 'task':
+      return node.title
+    case 'wait':
+      return `Waits for ${node.transitions.map((t) => t.on).join(', ') || 'nothing'}`
+    default:
+      return 'Ends the campaign'
+  }
+}
+
+/**
+ * Read-only flowchart of a campaign plan. Nodes are clickable cards; transitions are
+ * drawn as labelled arrows between them.
+ */
+const PlanFlowchart: React.FC<PlanFlowchartProps> = ({
+  plan,
+  selectedNodeId,
+  invalidNodeIds,
+  onSelectNode,
+}) => {
+  const positions = useMemo(() => layoutPlan(plan), [plan])
+
+  const width =
+    Math.max(0, ...[...positions.values()].map((p) => p.x)) +
+    NODE_WIDTH +
+    PADDING
+  const height =
+    Math.max(0, ...[...positions.values()].map((p) => p.y)) +
+    NODE_HEIGHT +
+    PADDING
+
+  const edges = plan.nodes.flatMap((node) =>
+    node.transitions.flatMap((transition, index) => {
+      const from = positions.get(node.id)
+      const to = positions.get(transition.to)
+      if (!from || !to) return []
+
+      const startX = from.x + NODE_WIDTH
+      const startY = from.y + NODE_HEIGHT / 2
+      const endX = to.x
+      const endY = to.y + NODE_HEIGHT / 2
+      const bend = Math.max(48, Math.abs(endX - startX) / 2)
+
+      return [
+        {
+          key: `${node.id}-${index}`,
+          path: `M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`,
+          labelX: (startX + endX) / 2,
+          labelY: (startY + endY) / 2 - 6 + index * 12,
+          label: transition.on,
+        },
+      ]
+    }),
+  )
+
+  return (
+    <div className="relative overflow-auto rounded-lg border border-gray-200 bg-gray-50">
+      <div className="relative" style={{ width, height }}>
+        <svg
+          className="absolute inset-0 pointer-events-none"
+          width={width}
+          height={height}
+        >
+          <defs>
+            <marker
+              id="plan-arrow"
+              viewBox="0 0 10 10"
+              refX="10"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+            </marker>
+          </defs>
+          {edges.map((edge) => (
+            <g key={edge.key}>
+              <path
+                d={edge.path}
+                fill="none"
+                stroke="#9ca3af"
+                strokeWidth={1.5}
+                markerEnd="url(#plan-arrow)"
+              />
+              <text
+                x={edge.labelX}
+                y={edge.labelY}
+                textAnchor="middle"
+                className="fill-gray-600 text-[10px]"
+              >
+                {edge.label}
+              </text>
+            </g>
+          ))}
+        </svg>
+
+        {plan.nodes.map((node) => {
+          const position = positions.get(node.id)
+          if (!position) return null
+
+          const Icon = getNodeIcon(node)
+          const isSelected = node.id === selectedNodeId
+          const isInvalid = invalidNodeIds.has(node.id)
+
+          return (
+            <button
+              key={node.id}
+              type="button"
+              onClick={() => onSelectNode(node.id)}
+              className={`absolute flex flex-col rounded-lg border bg-white px-3 py-2 text-left shadow-sm transition-shadow hover:shadow-md cursor-pointer ${
+                isSelected
+                  ? 'border-[var(--color-primary-500)] ring-2 ring-[var(--color-primary-200)]'
+                  : isInvalid
+                    ? 'border-red-400'
+                    : 'border-gray-200'
+              }`}
+              style={{
+                left: position.x,
+                top: position.y,
+                width: NODE_WIDTH,
+                height: NODE_HEIGHT,
+              }}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex min-w-0 items-center gap-1.5">
+                  <span className={`rounded p-1 ${getNodeColor(node)}`}>
+                    <Icon className="h-3.5 w-3.5" />
+                  </span>
+                  <span className="truncate text-sm font-medium text-gray-900">
+                    {node.id}
+                  </span>
+                </span>
+                {node.id === plan.startNodeId && (
+                  <span className="rounded bg-green-100 px-1.5 py-0.5 text-[10px] font-medium text-green-800">
+                    start
+                  </span>
+                )}
+              </div>
+              <p className="mt-1 line-clamp-2 text-xs text-gray-500">
+                {getNodeSummary(node)}
+              </p>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default PlanFlowchart
@@ -0,0 +1,684 @@
+import React from 'react'
+import { Flag, Plus, Trash2, X } from 'lucide-react'
+import {
+  AB_TEST_METRICS,
+  CHANNEL_EVENT_TYPES,
+  TASK_TYPES,
+} from '../../utils/campaignPlanSchema'
+import type {
+  AbTestMetric,
+  CampaignPlanNode,
+  CampaignPlanTransition,
+  PlanEventType,
+} from '../../utils/campaignPlanSchema'
+import {
+  useEmailSnippets,
+  useEmailTemplates,
+  useTemplateVariables,
+} from '../../hooks/useTemplatesQuery'
+import { useMeetingTypes } from '../../hooks/useSchedulingQuery'
+
+const DURATION_PRESETS = [
+  'PT0S',
+  'PT1H',
+  'PT4H',
+  'PT12H',
+  'PT24H',
+  'PT72H',
+  'P2D',
+  'P3D',
+  'P5D',
+  'P7D',
+  'P14D',
+]
+
+interface PlanNodeInspectorProps {
+  node: CampaignPlanNode
+  nodeIds: string[]
+  isStartNode: boolean
+  onChange: (node: CampaignPlanNode) => void
+  onRemove: () => void
+  onSetStart: () => void
+  onClose: () => void
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <label className="block">
+    <span className="block text-sm font-medium text-gray-700 mb-1">
+      {label}
+    </span>
+    {children}
+  </label>
+)
+
+const DurationInput: React.FC<{
+  value: string
+  onChange: (value: string) => void
+}> = ({ value, onChange }) => (
+  <input
+    type="text"
+    value={value}
+    onChange={(e) => onChange(e.target.value.trim().toUpperCase())}
+    list="plan-duration-presets"
+    placeholder="PT24H"
+    className={inputClassName}
+  />
+)
+
+type SendPlanNode = Extract<CampaignPlanNode, { action: 'send' }>
+type SendVariant = NonNullable<SendPlanNode['variants']>[number]
+
+const MAX_VARIANTS = 5
+
+const nextVariantId = (variants: SendVariant[]) =>
+  'ABCDEFGHIJ'.split('').find((id) => !variants.some((v) => v.id === id)) ??
+  `V${variants.length + 1}`
+
+/**
+ * Pickers for the tenant's template library. A template replaces the node's copy;
+ * snippets and variables are appended to the body and filled in at send time.
+ */
+const TemplateInsertControls: React.FC<{
+  node: SendPlanNode
+  onChange: (changes: Partial<SendPlanNode>) => void
+}> = ({ node, onChange }) => {
+  const { data: templates = [] } = useEmailTemplates()
+  const { data: snippets = [] } = useEmailSnippets()
+  const { data: variables = [] } = useTemplateVariables()
+
+  const appendToBody = (text: string) =>
+    onChange({ body: node.body ? `${node.body}${text}` : text })
+
+  const insertTemplate = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId)
+    if (!template) return
+    if (
+      node.body?.trim() &&
+      !confirm(`Replace this message with the "${template.name}" template?`)
+    )
+      return
+
+    onChange(
+      node.channel === 'email' && template.subject
+        ? { subject: template.subject, body: template.body }
+        : { body: template.body },
+    )
+  }
+
+  const selectClassName =
+    'px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 bg-white cursor-pointer'
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {templates.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => insertTemplate(e.target.value)}
+          className={selectClassName}
+        >
+          <option value="">Insert template…</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+      )}
+      {snippets.length > 0 && (
+        <select
+          value=""
+          onChange={(e) =>
+            e.target.value && appendToBody(`\n\n{{snippet.${e.target.value}}}`)
+          }
+          className={selectClassName}
+        >
+          <option value="">Insert snippet…</option>
+          {snippets.map((snippet) => (
+            <option key={snippet.id} value={snippet.key}>
+              {snippet.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <select
+        value=""
+        onChange={(e) =>
+          e.target.value && appendToBody(`{{${e.target.value}}}`)
+        }
+        className={selectClassName}
+      >
+        <option value="">Insert variable…</option>
+        {variables.map((variable) => (
+          <option key={variable.name} value={variable.name}>
+            {variable.description}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+/**
+ * A/B variants of a send node. Blank fields fall back to the node's own subject and
+ * body; each contact is assigned one variant by weight.
+ */
+const SendVariantsEditor: React.FC<{
+  node: SendPlanNode
+  onChange: (changes: Partial<SendPlanNode>) => void
+}> = ({ node, onChange }) => {
+  const variants = node.variants ?? []
+  const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0)
+
+  const updateVariant = (index: number, changes: Partial<SendVariant>) =>
+    onChange({
+      variants: variants.map((v, i) =>
+        i === index ? { ...v, ...changes } : v,
+      ),
+    })
+
+  const addVariant = () =>
+    onChange({
+      variants: [...variants, { id: nextVariantId(variants), weight: 1 }],
+      abTest: node.abTest ?? { metric: 'replied' },
+    })
+
+  const removeVariant = (index: number) => {
+    const remaining = variants.filter((_, i) => i !== index)
+    onChange(
+      remaining.length > 0
+        ? { variants: remaining }
+        : { variants: undefined, abTest: undefined },
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">A/B variants</span>
+        <button
+          type="button"
+          onClick={addVariant}
+          disabled={variants.length >= MAX_VARIANTS}
+          className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed cursor-pointer"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add variant
+        </button>
+      </div>
+
+      {variants.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Every contact gets the subject and body above.
+        </p>
+      )}
+
+      {variants.map((variant, index) => (
+        <div
+          key={index}
+          className="border border-gray-200 rounded-md p-3 space-y-2"
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-semibold text-gray-900">
+              {variant.id}
+            </span>
+            <span className="text-xs text-gray-500">
+              {totalWeight > 0
+                ? `${Math.round((variant.weight / totalWeight) * 100)}% of contacts`
+                : ''}
+            </span>
+            <input
+              type="number"
+              min={1}
+              value={variant.weight}
+              onChange={(e) =>
+                updateVariant(index, {
+                  weight: Math.max(1, Number(e.target.value) || 1),
+                })
+              }
+              title="Weight"
+              className="ml-auto w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => removeVariant(index)}
+              className="text-gray-400 hover:text-red-600 cursor-pointer"
+              title="Remove variant"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          {node.channel === 'email' && (
+            <input
+              type="text"
+              value={variant.subject ?? ''}
+              onChange={(e) =>
+                updateVariant(index, { subject: e.target.value || undefined })
+              }
+              placeholder={node.subject || 'Subject'}
+              className={inputClassName}
+            />
+          )}
+          <textarea
+            value={variant.body ?? ''}
+            onChange={(e) =>
+              updateVariant(index, { body: e.target.value || undefined })
+            }
+            rows={node.channel === 'sms' ? 2 : 4}
+            placeholder="Leave blank to use the body above"
+            className={inputClassName}
+          />
+        </div>
+      ))}
+
+      {variants.length > 1 && (
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="Winner metric">
+            <select
+              value={node.abTest?.metric ?? 'replied'}
+              onChange={(e) =>
+                onChange({
+                  abTest: {
+                    ...node.abTest,
+                    metric: e.target.value as AbTestMetric,
+                  },
+                })
+              }
+              className={inputClassName}
+            >
+              {AB_TEST_METRICS.map((metric) => (
+                <option key={metric} value={metric}>
+                  {metric}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Auto-promote after">
+            <input
+              type="number"
+              min={1}
+              value={node.abTest?.autoPromoteAfter ?? ''}
+              onChange={(e) =>
+                onChange({
+                  abTest: {
+                    ...node.abTest,
+                    metric: node.abTest?.metric ?? 'replied',
+                    autoPromoteAfter: Number(e.target.value) || undefined,
+                  },
+                })
+              }
+              placeholder="Sends (off)"
+              className={inputClassName}
+            />
+          </Field>
+          <div className="col-span-2">
+            <Field label="Test id">
+              <input
+                type="text"
+                value={node.abTest?.testId ?? ''}
+                onChange={(e) =>
+                  onChange({
+                    abTest: {
+                      ...node.abTest,
+                      metric: node.abTest?.metric ?? 'replied',
+                      testId: e.target.value.trim() || undefined,
+                    },
+                  })
+                }
+                placeholder="Optional; pools results across plans"
+                className={inputClassName}
+              />
+            </Field>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Which of the sender's meeting types the email's booking link offers. Types belong to
+ * each rep, so the slug is free text; the user's own types are suggested.
+ */
+const MeetingTypeInput: React.FC<{
+  node: SendPlanNode
+  onChange: (changes: Partial<SendPlanNode>) => void
+}> = ({ node, onChange }) => {
+  const { data: meetingTypes = [] } = useMeetingTypes()
+
+  return (
+    <Field label="Booking link meeting type">
+      <input
+        type="text"
+        value={node.meetingType ?? ''}
+        onChange={(e) =>
+          onChange({ meetingType: e.target.value.trim() || undefined })
+        }
+        list="plan-meeting-types"
+        placeholder="Default booking page"
+        className={inputClassName}
+      />
+      <datalist id="plan-meeting-types">
+        {meetingTypes
+          .filter((meetingType) => meetingType.isActive)
+          .map((meetingType) => (
+            <option key={meetingType.id} value={meetingType.slug}>
+              {meetingType.name}
+            </option>
+          ))}
+      </datalist>
+    </Field>
+  )
+}
+
+const getTiming = (transition: CampaignPlanTransition) =>
+  'within' in transition
+    ? { mode: 'within' as const, duration: transition.within }
+    : { mode: 'after' as const, duration: transition.after }
+
+const withTiming = (
+  transition: CampaignPlanTransition,
+  mode: 'within' | 'after',
+  duration: string,
+): CampaignPlanTransition =>
+  mode === 'within'
+    ? { on: transition.on, to: transition.to, within: duration }
+    : { on: transition.on, to: transition.to, after: duration }
+
+/**
+ * Side panel for editing the selected plan node: its content, schedule and outgoing
+ * transitions.
+ */
+const PlanNodeInspector: React.FC<PlanNodeInspectorProps> = ({
+  node,
+  nodeIds,
+  isStartNode,
+  onChange,
+  onRemove,
+  onSetStart,
+  onClose,
+}) => {
+  const allowedEvents = CHANNEL_EVENT_TYPES[node.channel]
+  const targets = nodeIds.filter((id) => id !== node.id)
+
+  const update = (changes: Partial<CampaignPlanNode>) =>
+    onChange({ ...node, ...changes } as CampaignPlanNode)
+
+  const updateTransition = (
+    index: number,
+    transition: CampaignPlanTransition,
+  ) =>
+    update({
+      transitions: node.transitions.map((t, i) =>
+        i === index ? transition : t,
+      ),
+    })
+
+  const addTransition = () =>
+    update({
+      transitions: [
+        ...node.transitions,
+        { on: allowedEvents[0], to: targets[0] ?? '', after: 'PT24H' },
+      ],
+    })
+
+  const removeTransition = (index: number) =>
+    update({ transitions: node.transitions.filter((_, i) => i !== index) })
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <datalist id="plan-duration-presets">
+        {DURATION_PRESETS.map((preset) => (
+          <option key={preset} value={preset} />
+        ))}
+      </datalist>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-semibold text-gray-900">{node.id}</h4>
+          <p className="text-xs text-gray-500">
+            {node.action} · {node.channel}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 cursor-pointer"
+          title="Close"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {node.action === 'send' && (
+        <>
+          <TemplateInsertControls node={node} onChange={update} />
+          {node.channel === 'email' && (
+            <Field label="Subject">
+              <input
+                type="text"
+                value={node.subject ?? ''}
+                onChange={(e) => update({ subject: e.target.value })}
+                placeholder="Email subject line"
+                className={inputClassName}
+              />
+            </Field>
+          )}
+          <Field label={node.channel === 'sms' ? 'Text message' : 'Body'}>
+            <textarea
+              value={node.body ?? ''}
+              onChange={(e) => update({ body: e.target.value })}
+              rows={node.channel === 'sms' ? 3 : 8}
+              placeholder={
+                node.channel === 'sms' ? 'SMS text' : 'Email message body'
+              }
+              className={inputClassName}
+            />
+          </Field>
+          <SendVariantsEditor node={node} onChange={update} />
+          {node.channel === 'email' && (
+            <MeetingTypeInput node={node} onChange={update} />
+          )}
+          <Field label="Send after">
+            <DurationInput
+              value={node.schedule.delay ?? 'PT0S'}
+              onChange={(delay) =>
+                update({ schedule: { ...node.schedule, delay } })
+              }
+            />
+          </Field>
+        </>
+      )}
+
+      {node.action === 'task' && (
+        <>
+          <Field label="Task type">
+            <select
+              value={node.taskType}
+              onChange={(e) =>
+                update({
+                  taskType: e.target.value as (typeof TASK_TYPES)[number],
+                })
+              }
+              className={inputClassName}
+            >
+              {TASK_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Title">
+            <input
+              type="text"
+              value={node.title}
+              onChange={(e) => update({ title: e.target.value })}
+              placeholder="Call Jane about the pilot"
+              className={inputClassName}
+            />
+          </Field>
+          <Field label="Instructions">
+            <textarea
+              value={node.instructions ?? ''}
+              onChange={(e) =>
+                update({ instructions: e.target.value || undefined })
+              }
+              rows={4}
+              className={inputClassName}
+            />
+          </Field>
+          <Field label="Due after">
+            <DurationInput
+              value={node.dueIn}
+              onChange={(dueIn) => update({ dueIn })}
+            />
+          </Field>
+        </>
+      )}
+
+      {node.action !== 'stop' && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h5 className="text-sm font-medium text-gray-700">Transitions</h5>
+            <button
+              type="button"
+              onClick={addTransition}
+              disabled={targets.length === 0}
+              className="inline-flex items-center text-xs font-medium text-[var(--color-primary-600)] hover:text-[var(--color-primary-700)] disabled:opacity-50 cursor-pointer"
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Add
+            </button>
+          </div>
+
+          {node.transitions.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              No transitions. The campaign waits here until a reply stops it.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {node.transitions.map((transition, index) => {
+                const timing = getTiming(transition)
+                const events: readonly PlanEventType[] = allowedEvents.includes(
+                  transition.on,
+                )
+                  ? allowedEvents
+                  : [transition.on, ...allowedEvents]
+                const options = targets.includes(transition.to)
+                  ? targets
+                  : [transition.to, ...targets]
+
+                return (
+                  <div
+                    key={index}
+                    className="grid grid-cols-2 gap-2 rounded border border-gray-200 bg-gray-50 p-2"
+                  >
+                    <select
+                      value={transition.on}
+                      onChange={(e) =>
+                        updateTransition(index, {
+                          ...transition,
+                          on: e.target.value as PlanEventType,
+                        })
+                      }
+                      className={inputClassName}
+                      title="Event"
+                    >
+                      {events.map((event) => (
+                        <option key={event} value={event}>
+                          on {event}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={transition.to}
+                      onChange={(e) =>
+                        updateTransition(index, {
+                          ...transition,
+                          to: e.target.value,
+                        })
+                      }
+                      className={inputClassName}
+                      title="Next node"
+                    >
+                      {options.map((id) => (
+                        <option key={id} value={id}>
+                          to {id || '(none)'}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={timing.mode}
+                      onChange={(e) =>
+                        updateTransition(
+                          index,
+                          withTiming(
+                            transition,
+                            e.target.value as 'within' | 'after',
+                            timing.duration,
+                          ),
+                        )
+                      }
+                      className={inputClassName}
+                      title="Timing"
+                    >
+                      <option value="within">within</option>
+                      <option value="after">after</option>
+                    </select>
+                    <div className="flex items-center gap-1">
+                      <DurationInput
+                        value={timing.duration}
+                        onChange={(duration) =>
+                          updateTransition(
+                            index,
+                            withTiming(transition, timing.mode, duration),
+                          )
+                        }
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeTransition(index)}
+                        className="p-1 text-gray-400 hover:text-red-600 cursor-pointer"
+                        title="Remove transition"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between border-t border-gray-200 pt-3">
+        <button
+          type="button"
+          onClick={onSetStart}
+          disabled={isStartNode}
+          className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50 disabled:cursor-default cursor-pointer"
+        >
+          <Flag className="h-4 w-4 mr-1.5" />
+          {isStartNode ? 'Start node' : 'Make start node'}
+        </button>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="inline-flex items-center text-sm font-medium text-red-600 hover:text-red-700 cursor-pointer"
+        >
+          <Trash2 className="h-4 w-4 mr-1.5" />
+          Remove node
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default PlanNodeInspector
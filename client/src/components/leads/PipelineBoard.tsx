@@ -0,0 +1,284 @@
+import React from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { AlertCircle, Calendar, Pencil } from 'lucide-react'
+import {
+  usePipelineBoard,
+  useUpdateLeadDeal,
+} from '../../hooks/usePipelineQuery'
+import type {
+  PipelineBoardColumn,
+  PipelineLead,
+} from '../../services/pipeline.service'
+
+interface PipelineBoardProps {
+  searchQuery: string
+  selectedUserId: string
+}
+
+const currencyFormatter = new Intl.NumberFormat(undefined, {
+  style: 'currency',
+  currency: 'USD',
+  maximumFractionDigits: 0,
+})
+
+const stageAccent: Record<PipelineBoardColumn['stage']['kind'], string> = {
+  open: 'border-t-[var(--color-primary-500)]',
+  won: 'border-t-green-500',
+  lost: 'border-t-gray-400',
+}
+
+function formatCloseDate(date: string): string {
+  // Close dates are calendar dates, so format them without a timezone shift
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+export function PipelineBoard({
+  searchQuery,
+  selectedUserId,
+}: PipelineBoardProps) {
+  const { data: columns = [], isLoading, error } = usePipelineBoard()
+  const updateDeal = useUpdateLeadDeal()
+  const [dragOverStageId, setDragOverStageId] = React.useState<string | null>(
+    null,
+  )
+
+  const filteredColumns = React.useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+
+    return columns.map((column) => {
+      const leads = column.leads.filter((lead) => {
+        if (selectedUserId === 'unassigned' && lead.ownerId) return false
+        if (
+          selectedUserId &&
+          selectedUserId !== 'unassigned' &&
+          lead.ownerId !== selectedUserId
+        ) {
+          return false
+        }
+        if (!query) return true
+        return (
+          lead.name.toLowerCase().includes(query) ||
+          lead.url.toLowerCase().includes(query)
+        )
+      })
+
+      return {
+        ...column,
+        leads,
+        totalValue: leads.reduce((sum, lead) => sum + (lead.dealValue ?? 0), 0),
+      }
+    })
+  }, [columns, searchQuery, selectedUserId])
+
+  const handleDrop = (event: React.DragEvent, stageId: string) => {
+    event.preventDefault()
+    setDragOverStageId(null)
+
+    const leadId = event.dataTransfer.getData('text/plain')
+    const lead = columns
+      .flatMap((column) => column.leads)
+      .find((candidate) => candidate.id === leadId)
+    const currentColumn = columns.find((column) =>
+      column.leads.some((candidate) => candidate.id === leadId),
+    )
+    if (!lead || currentColumn?.stage.id === stageId) return
+
+    updateDeal.mutate({ leadId, update: { stageId } })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[var(--color-primary-600)] mx-auto"></div>
+        <p className="mt-4 text-gray-500">Loading pipeline...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <AlertCircle className="w-12 h-12 mx-auto mb-4 text-red-500" />
+        <p className="text-gray-900 font-medium mb-2">Error loading pipeline</p>
+        <p className="text-gray-500">{error.message}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {filteredColumns.map((column) => (
+        <div
+          key={column.stage.id}
+          onDragOver={(event) => {
+            event.preventDefault()
+            setDragOverStageId(column.stage.id)
+          }}
+          onDragLeave={() => setDragOverStageId(null)}
+          onDrop={(event) => handleDrop(event, column.stage.id)}
+          className={`flex-shrink-0 w-72 rounded-lg border border-gray-200 border-t-4 ${stageAccent[column.stage.kind]} ${
+            dragOverStageId === column.stage.id
+              ? 'bg-[var(--color-primary-50)]'
+              : 'bg-gray-100'
+          }`}
+        >
+          <div className="px-3 py-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">
+                {column.stage.name}
+              </h3>
+              <span className="text-xs text-gray-500">
+                {column.leads.length}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">
+              {currencyFormatter.format(column.totalValue)}
+            </p>
+          </div>
+
+          <div className="px-2 pb-2 space-y-2 min-h-[6rem]">
+            {column.leads.map((lead) => (
+              <PipelineCard
+                key={lead.id}
+                lead={lead}
+                isSaving={
+                  updateDeal.isPending &&
+                  updateDeal.variables?.leadId === lead.id
+                }
+                onSaveDeal={(dealValue, expectedCloseDate) =>
+                  updateDeal.mutate({
+                    leadId: lead.id,
+                    update: { dealValue, expectedCloseDate },
+                  })
+                }
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface PipelineCardProps {
+  lead: PipelineLead
+  isSaving: boolean
+  onSaveDeal: (
+    dealValue: number | null,
+    expectedCloseDate: string | null,
+  ) => void
+}
+
+function PipelineCard({ lead, isSaving, onSaveDeal }: PipelineCardProps) {
+  const navigate = useNavigate()
+  const [isEditing, setIsEditing] = React.useState(false)
+  const [dealValue, setDealValue] = React.useState('')
+  const [closeDate, setCloseDate] = React.useState('')
+
+  const startEditing = (event: React.MouseEvent) => {
+    event.stopPropagation()
+    setDealValue(lead.dealValue?.toString() ?? '')
+    setCloseDate(lead.expectedCloseDate ?? '')
+    setIsEditing(true)
+  }
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault()
+    onSaveDeal(dealValue === '' ? null : Number(dealValue), closeDate || null)
+    setIsEditing(false)
+  }
+
+  return (
+    <div
+      draggable={!isEditing}
+      onDragStart={(event) => {
+        event.dataTransfer.setData('text/plain', lead.id)
+        event.dataTransfer.effectAllowed = 'move'
+      }}
+      onClick={() => !isEditing && navigate({ to: `/leads/${lead.id}` })}
+      className={`bg-white rounded-md border border-gray-200 p-3 shadow-sm hover:shadow-md transition-shadow cursor-pointer ${
+        isSaving ? 'opacity-60' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900 truncate">
+            {lead.name}
+          </p>
+          <p className="text-xs text-gray-500 truncate">
+            {lead.ownerName || 'Unassigned'}
+          </p>
+        </div>
+        {!isEditing && (
+          <button
+            onClick={startEditing}
+            className="text-gray-400 hover:text-gray-600"
+            title="Edit deal"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <form
+          onSubmit={handleSave}
+          onClick={(event) => event.stopPropagation()}
+          className="mt-2 space-y-2"
+        >
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={dealValue}
+            onChange={(event) => setDealValue(event.target.value)}
+            placeholder="Deal value"
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <input
+            type="date"
+            value={closeDate}
+            onChange={(event) => setCloseDate(event.target.value)}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-2 py-1 text-xs font-medium text-white bg-[var(--color-primary-600)] hover:bg-[var(--color-primary-700)] rounded"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        (lead.dealValue !== null || lead.expectedCloseDate) && (
+          <div className="mt-2 flex items-center justify-between text-xs text-gray-600">
+            <span className="font-medium">
+              {lead.dealValue !== null
+                ? currencyFormatter.format(lead.dealValue)
+                : ''}
+            </span>
+            {lead.expectedCloseDate && (
+              <span className="inline-flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                {formatCloseDate(lead.expectedCloseDate)}
+              </span>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+import { useState } from 'react'
+import { AlertCircle, Pause, Play, Send, Square } from 'lucide-react'
+import {
+  useCampaignControl,
+  useLeadCampaignTransitions,
+  useLeadCampaigns,
+} from '../../hooks/useCampaignsQuery'
+import type {
+  CampaignControlAction,
+  CampaignControlRequest,
+  LeadCampaign,
+} from '../../services/campaigns.service'
+
+interface CampaignsTabProps {
+  leadId: string
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  stopped: 'bg-red-100 text-red-800',
+  completed: 'bg-gray-100 text-gray-800',
+  draft: 'bg-blue-100 text-blue-800',
+}
+
+const ACTION_LABELS: Record<CampaignControlAction, string> = {
+  pause: 'Pause',
+  resume: 'Resume',
+  stop: 'Stop',
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span
+      className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
+        STATUS_STYLES[status] ?? 'bg-gray-100 text-gray-800'
+      }`}
+    >
+      {status}
+    </span>
+  )
+}
+
+export default function CampaignsTab({ leadId }: CampaignsTabProps) {
+  const { data: campaigns = [], isLoading, error } = useLeadCampaigns(leadId)
+  const { data: transitions = [], isLoading: isLoadingHistory } =
+    useLeadCampaignTransitions(leadId)
+  const control = useCampaignControl()
+  const [reason, setReason] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+
+  const runAction = (
+    action: CampaignControlAction,
+    target: CampaignControlRequest,
+  ) => {
+    if (
+      action === 'stop' &&
+      !window.confirm('Stopped campaigns cannot be restarted. Stop anyway?')
+    ) {
+      return
+    }
+
+    setMessage(null)
+    control.mutate(
+      { action, target: { ...target, reason: reason.trim() || undefined } },
+      {
+        onSuccess: (result) => {
+          setReason('')
+          setMessage(
+            result.updated.length > 0
+              ? `${ACTION_LABELS[action]}: ${result.updated.length} campaign(s) updated`
+              : `No campaigns could be ${action === 'stop' ? 'stopped' : `${action}d`}`,
+          )
+        },
+        onError: (err) => setMessage(err.message),
+      },
+    )
+  }
+
+  const hasActive = campaigns.some((c) => c.status === 'active')
+  const hasPaused = campaigns.some((c) => c.status === 'paused')
+
+  const renderCampaignActions = (campaign: LeadCampaign) => {
+    const target: CampaignControlRequest = {
+      scope: 'campaign',
+      id: campaign.id,
+    }
+    const isOpen = campaign.status === 'active' || campaign.status === 'paused'
+    return (
+      <div className="flex items-center gap-2">
+        {campaign.status === 'active' && (
+          <button
+            onClick={() => runAction('pause', target)}
+            disabled={control.isPending}
+            className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Pause className="h-3 w-3 mr-1" />
+            Pause
+          </button>
+        )}
+        {campaign.status === 'paused' && (
+          <button
+            onClick={() => runAction('resume', target)}
+            disabled={control.isPending}
+            className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Play className="h-3 w-3 mr-1" />
+            Resume
+          </button>
+        )}
+        {isOpen && (
+          <button
+            onClick={() => runAction('stop', target)}
+            disabled={control.isPending}
+            className="inline-flex items-center px-2 py-1 text-xs font-medium text-red-700 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+          >
+            <Square className="h-3 w-3 mr-1" />
+            Stop
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[var(--color-primary-600)]"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-center">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+          <span className="text-red-700">Error loading campaigns</span>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Campaigns</h3>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              maxLength={500}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] focus:border-transparent"
+            />
+            <button
+              onClick={() => runAction('pause', { scope: 'lead', id: leadId })}
+              disabled={!hasActive || control.isPending}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Pause all
+            </button>
+            <button
+              onClick={() => runAction('resume', { scope: 'lead', id: leadId })}
+              disabled={!hasPaused || control.isPending}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-[var(--color-primary-600)] border border-transparent rounded-md hover:bg-[var(--color-primary-700)] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Resume all
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div className="mb-4 p-3 rounded-lg border bg-gray-50 border-gray-200 text-sm text-gray-700">
+            {message}
+          </div>
+        )}
+
+        {campaigns.length === 0 ? (
+          <div className="text-center py-8">
+            <Send className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No campaigns yet
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Campaigns appear here once contacts start receiving outreach.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {campaigns.map((campaign) => (
+              <div
+                key={campaign.id}
+                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-4"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">
+                      {campaign.contactName}
+                    </span>
+                    <StatusBadge status={campaign.status} />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {campaign.currentNodeId
+                      ? `At step ${campaign.currentNodeId}`
+                      : 'Not started'}
+                    {campaign.pausedAt &&
+                      ` · paused ${formatDateTime(campaign.pausedAt)}`}
+                  </p>
+                </div>
+                {renderCampaignActions(campaign)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">History</h3>
+        {isLoadingHistory ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : transitions.length === 0 ? (
+          <p className="text-sm text-gray-500">No campaign activity yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {transitions.map((transition) => (
+              <li
+                key={transition.id}
+                className="flex items-start justify-between gap-4 text-sm"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">
+                      {transition.contactName}
+                    </span>
+                    {transition.fromStatus && (
+                      <>
+                        <StatusBadge status={transition.fromStatus} />
+                        <span className="text-gray-400">→</span>
+                      </>
+                    )}
+                    <StatusBadge status={transition.toStatus} />
+                  </div>
+                  {transition.reason && (
+                    <p className="text-gray-600 mt-1">{transition.reason}</p>
+                  )}
+                </div>
+                <div className="text-right text-xs text-gray-500 whitespace-nowrap">
+                  <div>{formatDateTime(transition.occurredAt)}</div>
+                  <div>{transition.createdByName ?? 'System'}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,3 +3,4 @@ export { default as AIDetailsTab } from './AIDetailsTab'
 export { default as BrandingTab } from './BrandingTab'
 export { default as LeadDetailsTab } from './LeadDetailsTab'
 export { default as ProductsTab } from './ProductsTab'
+export { default as CampaignsTab } from './CampaignsTab'
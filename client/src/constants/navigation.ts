@@ -1,2 +1,5 @@
 export const HOME_URL = '/'
 export const LEADS_URL = '/leads'
+export const TASKS_URL = '/tasks'
+export const REPORTS_URL = '/reports'
+export const REVIEW_URL = '/review'
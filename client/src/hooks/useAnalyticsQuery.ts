@@ -0,0 +1,74 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
+import {
+  analyticsQueryKeys,
+  analyticsService,
+} from '../services/analytics.service'
+import type {
+  AnalyticsBreakdown,
+  AnalyticsParams,
+} from '../services/analytics.service'
+import type { AbTestMetric } from '../utils/campaignPlanSchema'
+
+export function useAnalyticsSummary(params: AnalyticsParams) {
+  return useQuery({
+    queryKey: analyticsQueryKeys.summary(params),
+    queryFn: () => analyticsService.getSummary(params),
+    staleTime: 1000 * 60 * 2,
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useAnalyticsBreakdown(
+  breakdown: AnalyticsBreakdown,
+  params: AnalyticsParams,
+) {
+  return useQuery({
+    queryKey: analyticsQueryKeys.breakdown(breakdown, params),
+    queryFn: () => analyticsService.getBreakdown(breakdown, params),
+    staleTime: 1000 * 60 * 2,
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useAbTests(params: AnalyticsParams, metric: AbTestMetric) {
+  return useQuery({
+    queryKey: analyticsQueryKeys.abTests(params, metric),
+    queryFn: () => analyticsService.getAbTests(params, metric),
+    staleTime: 1000 * 60 * 2,
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useAbTestWinner() {
+  const queryClient = useQueryClient()
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: [...analyticsQueryKeys.all, 'ab-tests'],
+    })
+
+  const promote = useMutation({
+    mutationFn: (input: {
+      testKey: string
+      variantId: string
+      metric: AbTestMetric
+    }) =>
+      analyticsService.promoteWinner(
+        input.testKey,
+        input.variantId,
+        input.metric,
+      ),
+    onSuccess: invalidate,
+  })
+
+  const clear = useMutation({
+    mutationFn: (testKey: string) => analyticsService.clearWinner(testKey),
+    onSuccess: invalidate,
+  })
+
+  return { promote, clear }
+}
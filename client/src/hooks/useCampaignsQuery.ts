@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  campaignsQueryKeys,
+  campaignsService,
+} from '../services/campaigns.service'
+import type {
+  CampaignControlAction,
+  CampaignControlRequest,
+} from '../services/campaigns.service'
+
+export function useLeadCampaigns(leadId: string) {
+  return useQuery({
+    queryKey: campaignsQueryKeys.lead(leadId),
+    queryFn: () => campaignsService.getLeadCampaigns(leadId),
+    enabled: !!leadId,
+    staleTime: 1000 * 30,
+  })
+}
+
+export function useLeadCampaignTransitions(leadId: string) {
+  return useQuery({
+    queryKey: campaignsQueryKeys.transitions(leadId),
+    queryFn: () => campaignsService.getLeadTransitions(leadId),
+    enabled: !!leadId,
+    staleTime: 1000 * 30,
+  })
+}
+
+export function useCampaignControl() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      action,
+      target,
+    }: {
+      action: CampaignControlAction
+      target: CampaignControlRequest
+    }) => campaignsService.control(action, target),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: campaignsQueryKeys.all })
+    },
+  })
+}
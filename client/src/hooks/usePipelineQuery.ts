@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  pipelineQueryKeys,
+  pipelineService,
+} from '../services/pipeline.service'
+import type {
+  LeadDealUpdate,
+  PipelineBoardColumn,
+} from '../services/pipeline.service'
+
+export function usePipelineBoard(ownerId?: string) {
+  return useQuery({
+    queryKey: pipelineQueryKeys.board(ownerId),
+    queryFn: () => pipelineService.getBoard(ownerId),
+    staleTime: 1000 * 30,
+  })
+}
+
+export function useLeadStageHistory(leadId: string) {
+  return useQuery({
+    queryKey: pipelineQueryKeys.history(leadId),
+    queryFn: () => pipelineService.getStageHistory(leadId),
+    enabled: !!leadId,
+  })
+}
+
+export function useUpdateLeadDeal(ownerId?: string) {
+  const queryClient = useQueryClient()
+  const boardKey = pipelineQueryKeys.board(ownerId)
+
+  return useMutation({
+    mutationFn: (input: { leadId: string; update: LeadDealUpdate }) =>
+      pipelineService.updateLeadDeal(input.leadId, input.update),
+    // Move the card right away so drag-and-drop doesn't snap back while saving
+    onMutate: async ({ leadId, update }) => {
+      await queryClient.cancelQueries({ queryKey: boardKey })
+      const previous = queryClient.getQueryData<PipelineBoardColumn[]>(boardKey)
+
+      if (previous && update.stageId) {
+        const lead = previous
+          .flatMap((column) => column.leads)
+          .find((candidate) => candidate.id === leadId)
+
+        if (lead) {
+          queryClient.setQueryData<PipelineBoardColumn[]>(
+            boardKey,
+            previous.map((column) => {
+              const leads = column.leads.filter((l) => l.id !== leadId)
+              if (column.stage.id === update.stageId) {
+                leads.unshift({ ...lead, pipelineStageId: update.stageId })
+              }
+              return {
+                ...column,
+                leads,
+                totalValue: leads.reduce(
+                  (sum, l) => sum + (l.dealValue ?? 0),
+                  0,
+                ),
+              }
+            }),
+          )
+        }
+      }
+
+      return { previous }
+    },
+    onError: (_error, _input, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(boardKey, context.previous)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: pipelineQueryKeys.all })
+    },
+  })
+}
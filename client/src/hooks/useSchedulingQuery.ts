@@ -3,7 +3,13 @@ import {
   schedulingQueryKeys,
   schedulingService,
 } from '../services/scheduling.service'
-import type { SchedulingSettingsUpdate } from '../services/scheduling.service'
+import type {
+  CalendarConnectionUpdate,
+  MeetingOutcome,
+  MeetingTypeInput,
+  SchedulingPoolInput,
+  SchedulingSettingsUpdate,
+} from '../services/scheduling.service'
 
 export function useSchedulingSettings(enabled = true) {
   return useQuery({
@@ -29,6 +35,180 @@ export function useUpdateSchedulingSettings() {
   })
 }
 
+export function useBookedMeetings() {
+  return useQuery({
+    queryKey: schedulingQueryKeys.bookedMeetings(),
+    queryFn: () => schedulingService.getBookedMeetings(),
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useRecordMeetingOutcome() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      meetingId,
+      outcome,
+    }: {
+      meetingId: string
+      outcome: MeetingOutcome
+    }) => schedulingService.recordMeetingOutcome(meetingId, outcome),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: schedulingQueryKeys.bookedMeetings(),
+      })
+    },
+  })
+}
+
+export function useMeetingTypes(enabled = true) {
+  return useQuery({
+    queryKey: schedulingQueryKeys.meetingTypes(),
+    queryFn: () => schedulingService.getMeetingTypes(),
+    enabled,
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useSaveMeetingType() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      input,
+      meetingTypeId,
+    }: {
+      input: MeetingTypeInput
+      meetingTypeId?: string
+    }) => schedulingService.saveMeetingType(input, meetingTypeId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: schedulingQueryKeys.meetingTypes(),
+      })
+    },
+  })
+}
+
+export function useDeleteMeetingType() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (meetingTypeId: string) =>
+      schedulingService.deleteMeetingType(meetingTypeId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: schedulingQueryKeys.meetingTypes(),
+      })
+    },
+  })
+}
+
+export function useCalendarConnections(enabled = true) {
+  return useQuery({
+    queryKey: schedulingQueryKeys.calendars(),
+    queryFn: () => schedulingService.getCalendars(),
+    enabled,
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useAccountCalendars(connectionId: string | null) {
+  return useQuery({
+    queryKey: schedulingQueryKeys.accountCalendars(connectionId ?? ''),
+    queryFn: () => schedulingService.getAccountCalendars(connectionId!),
+    enabled: !!connectionId,
+  })
+}
+
+export function useAddCalendar() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      connectionId,
+      providerCalendarId,
+    }: {
+      connectionId: string
+      providerCalendarId: string
+    }) => schedulingService.addCalendar(connectionId, providerCalendarId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: schedulingQueryKeys.all })
+    },
+  })
+}
+
+export function useUpdateCalendar() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      connectionId,
+      update,
+    }: {
+      connectionId: string
+      update: CalendarConnectionUpdate
+    }) => schedulingService.updateCalendar(connectionId, update),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: schedulingQueryKeys.calendars(),
+      })
+    },
+  })
+}
+
+export function useRemoveCalendar() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (connectionId: string) =>
+      schedulingService.removeCalendar(connectionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: schedulingQueryKeys.all })
+    },
+  })
+}
+
+export function useSchedulingPools(enabled = true) {
+  return useQuery({
+    queryKey: schedulingQueryKeys.pools(),
+    queryFn: () => schedulingService.getPools(),
+    enabled,
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useSaveSchedulingPool() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      input,
+      poolId,
+    }: {
+      input: SchedulingPoolInput
+      poolId?: string
+    }) => schedulingService.savePool(input, poolId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: schedulingQueryKeys.pools() })
+    },
+  })
+}
+
+export function useDeleteSchedulingPool() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (poolId: string) => schedulingService.deletePool(poolId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: schedulingQueryKeys.pools() })
+      queryClient.invalidateQueries({
+        queryKey: schedulingQueryKeys.settings(),
+      })
+    },
+  })
+}
+
 export function usePublicBookingContext(token: string) {
   return useQuery({
     queryKey: schedulingQueryKeys.publicContext(token),
@@ -64,7 +244,64 @@ export function useConfirmBooking() {
       token: string
       holdId: string
       slot: string
-      contactDetails: { name: string; email: string; phone?: string }
+      contactDetails: {
+        name: string
+        email: string
+        phone?: string
+        answers?: Record<string, string>
+      }
     }) => schedulingService.confirmBooking(input),
   })
 }
+
+export function useManagedMeeting(token: string) {
+  return useQuery({
+    queryKey: schedulingQueryKeys.meeting(token),
+    queryFn: () => schedulingService.getManagedMeeting(token),
+    enabled: !!token,
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useRescheduleAvailability(
+  token: string,
+  startDate: string,
+  endDate: string,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: schedulingQueryKeys.meetingAvailability(
+      token,
+      startDate,
+      endDate,
+    ),
+    queryFn: () =>
+      schedulingService.getRescheduleAvailability(token, startDate, endDate),
+    enabled: enabled && !!token && !!startDate && !!endDate,
+    staleTime: 1000 * 15,
+  })
+}
+
+export function useRescheduleMeeting() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ token, slot }: { token: string; slot: string }) =>
+      schedulingService.rescheduleMeeting(token, slot),
+    onSuccess: (meeting, { token }) => {
+      queryClient.setQueryData(schedulingQueryKeys.meeting(token), meeting)
+    },
+  })
+}
+
+export function useCancelMeeting() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ token, reason }: { token: string; reason?: string }) =>
+      schedulingService.cancelMeeting(token, reason),
+    onSuccess: (meeting, { token }) => {
+      queryClient.setQueryData(schedulingQueryKeys.meeting(token), meeting)
+    },
+  })
+}
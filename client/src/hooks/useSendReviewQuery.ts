@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  sendReviewQueryKeys,
+  sendReviewService,
+} from '../services/sendReview.service'
+import type { SendReviewPolicy } from '../services/sendReview.service'
+
+export function useSendReviewPolicy() {
+  return useQuery({
+    queryKey: sendReviewQueryKeys.policy(),
+    queryFn: () => sendReviewService.getPolicy(),
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useSetSendReviewPolicy() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (policy: SendReviewPolicy) =>
+      sendReviewService.setPolicy(policy),
+    onSuccess: (policy) => {
+      queryClient.setQueryData(sendReviewQueryKeys.policy(), policy)
+    },
+  })
+}
+
+export function useReviewMessages(ownerId?: string) {
+  return useQuery({
+    queryKey: sendReviewQueryKeys.messages(ownerId),
+    queryFn: () => sendReviewService.getMessages(ownerId),
+    staleTime: 1000 * 30,
+  })
+}
+
+export function useUpdateReviewMessage() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      messageId,
+      content,
+    }: {
+      messageId: string
+      content: { subject?: string; body: string }
+    }) => sendReviewService.updateMessage(messageId, content),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sendReviewQueryKeys.all })
+    },
+  })
+}
+
+export function useApproveReviewMessages() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (messageIds: string[]) => sendReviewService.approve(messageIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sendReviewQueryKeys.all })
+    },
+  })
+}
+
+export function useRejectReviewMessages() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      messageIds,
+      reason,
+    }: {
+      messageIds: string[]
+      reason?: string
+    }) => sendReviewService.reject(messageIds, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sendReviewQueryKeys.all })
+    },
+  })
+}
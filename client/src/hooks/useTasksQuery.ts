@@ -0,0 +1,27 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { tasksQueryKeys, tasksService } from '../services/tasks.service'
+import type { TaskListParams, TaskOutcome } from '../services/tasks.service'
+
+export function useTasks(params: TaskListParams = {}) {
+  return useQuery({
+    queryKey: tasksQueryKeys.list(params),
+    queryFn: () => tasksService.getTasks(params),
+    staleTime: 1000 * 30,
+    refetchOnWindowFocus: true,
+  })
+}
+
+export function useCompleteTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: {
+      taskId: string
+      outcome: TaskOutcome
+      note?: string
+    }) => tasksService.completeTask(input.taskId, input.outcome, input.note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tasksQueryKeys.all })
+    },
+  })
+}
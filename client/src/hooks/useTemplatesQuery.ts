@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  templateQueryKeys,
+  templatesService,
+} from '../services/templates.service'
+import type {
+  EmailSnippetInput,
+  EmailTemplateInput,
+} from '../services/templates.service'
+
+export function useEmailTemplates() {
+  return useQuery({
+    queryKey: templateQueryKeys.templates(),
+    queryFn: () => templatesService.getTemplates(),
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useEmailSnippets() {
+  return useQuery({
+    queryKey: templateQueryKeys.snippets(),
+    queryFn: () => templatesService.getSnippets(),
+    staleTime: 1000 * 60,
+  })
+}
+
+export function useTemplateVariables() {
+  return useQuery({
+    queryKey: templateQueryKeys.variables(),
+    queryFn: () => templatesService.getVariables(),
+    staleTime: Infinity,
+  })
+}
+
+export function useSaveEmailTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: EmailTemplateInput }) =>
+      id
+        ? templatesService.updateTemplate(id, input)
+        : templatesService.createTemplate(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateQueryKeys.templates() })
+    },
+  })
+}
+
+export function useDeleteEmailTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => templatesService.deleteTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateQueryKeys.templates() })
+    },
+  })
+}
+
+export function useSaveEmailSnippet() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: EmailSnippetInput }) =>
+      id
+        ? templatesService.updateSnippet(id, input)
+        : templatesService.createSnippet(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateQueryKeys.snippets() })
+    },
+  })
+}
+
+export function useDeleteEmailSnippet() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => templatesService.deleteSnippet(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateQueryKeys.snippets() })
+    },
+  })
+}
@@ -9,6 +9,7 @@ import {
   Brain,
   Package,
   AlertCircle,
+  Send,
 } from 'lucide-react'
 import Tabs from '../components/Tabs'
 import ContactsTab from '../components/tabs/ContactsTab'
@@ -16,6 +17,7 @@ import AIDetailsTab from '../components/tabs/AIDetailsTab'
 import BrandingTab from '../components/tabs/BrandingTab'
 import LeadDetailsTab from '../components/tabs/LeadDetailsTab'
 import ProductsTab from '../components/tabs/ProductsTab'
+import CampaignsTab from '../components/tabs/CampaignsTab'
 import LeadProcessingBanner from '../components/LeadProcessingBanner'
 import LeadViewHeader from '../components/LeadViewHeader'
 import LeadEditForm from '../components/LeadEditForm'
@@ -194,6 +196,11 @@ const LeadDetailPage: React.FC = () => {
       label: 'Products',
       icon: <Package />,
     },
+    {
+      id: 'campaigns',
+      label: 'Campaigns',
+      icon: <Send />,
+    },
     {
       id: 'ai-details',
       label: 'AI Details',
@@ -287,6 +294,8 @@ const LeadDetailPage: React.FC = () => {
         )
       case 'products':
         return <ProductsTab leadId={leadId} />
+      case 'campaigns':
+        return <CampaignsTab leadId={leadId} />
       case 'ai-details':
         return (
           <AIDetailsTab
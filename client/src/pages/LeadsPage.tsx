@@ -30,10 +30,22 @@ import { TablePagination } from '../components/table/TablePagination'
 import { BulkActions } from '../components/leads/BulkActions'
 import { EmptyState } from '../components/leads/EmptyState'
 import { useLeadsColumns } from '../components/leads/LeadsTableColumns'
+import { PipelineBoard } from '../components/leads/PipelineBoard'
+import { UserFilter } from '../components/leads/UserFilter'
 import { BatchCreateLeadModal } from '../components/BatchCreateLeadModal'
 import { fuzzyFilter } from '../utils/tableFilters'
 import { formatDate } from '../utils/dateUtils'
-import { Plus, RefreshCw, AlertCircle, Search, X } from 'lucide-react'
+import {
+  Plus,
+  RefreshCw,
+  AlertCircle,
+  Search,
+  X,
+  List,
+  Columns3,
+} from 'lucide-react'
+
+type LeadsView = 'table' | 'board'
 
 const LeadsPage: React.FC = () => {
   const navigate = useNavigate()
@@ -52,6 +64,7 @@ const LeadsPage: React.FC = () => {
   const [selectedUserId, setSelectedUserId] = React.useState<string>('')
   const [isBatchCreateModalOpen, setIsBatchCreateModalOpen] =
     React.useState(false)
+  const [view, setView] = React.useState<LeadsView>('table')
 
   const { data, isLoading, error, refetch } = useLeads(
     searchQuery,
@@ -253,6 +266,32 @@ const LeadsPage: React.FC = () => {
               </p>
             </div>
             <div className="flex items-center gap-3">
+              <div className="inline-flex rounded-lg border border-gray-300 bg-white p-0.5 shadow-sm">
+                <button
+                  onClick={() => setView('table')}
+                  className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    view === 'table'
+                      ? 'bg-[var(--color-primary-50)] text-[var(--color-primary-700)]'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                  title="Table view"
+                >
+                  <List className="h-4 w-4 mr-1.5" />
+                  Table
+                </button>
+                <button
+                  onClick={() => setView('board')}
+                  className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    view === 'board'
+                      ? 'bg-[var(--color-primary-50)] text-[var(--color-primary-700)]'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                  title="Pipeline board"
+                >
+                  <Columns3 className="h-4 w-4 mr-1.5" />
+                  Board
+                </button>
+              </div>
               <button
                 onClick={() => navigate({ to: '/leads/new' })}
                 className="inline-flex items-center px-4 py-2 bg-[var(--color-primary-600)] hover:bg-[var(--color-primary-700)] text-white text-sm font-medium rounded-lg shadow-sm transition-all duration-200 hover:shadow-md transform hover:-translate-y-0.5"
@@ -305,96 +344,116 @@ const LeadsPage: React.FC = () => {
             </div>
           </div>
 
-          {/* Table Controls */}
-          <TableControls
-            table={table}
-            users={users}
-            usersLoading={usersLoading}
-            usersError={usersError}
-            selectedUserId={selectedUserId}
-            onUserChange={setSelectedUserId}
-            showUserFilter={true}
-          />
-
-          {/* Bulk Actions */}
-          <BulkActions
-            selectedRowCount={selectedRowCount}
-            onClearSelection={() => setRowSelection({})}
-            onBulkDelete={handleBulkDelete}
-            isDeleting={bulkDeleteMutation.isPending}
-          />
+          {view === 'board' ? (
+            <>
+              <div className="mb-4">
+                <UserFilter
+                  users={users}
+                  usersLoading={usersLoading}
+                  usersError={usersError}
+                  selectedUserId={selectedUserId}
+                  onUserChange={setSelectedUserId}
+                />
+              </div>
+              <PipelineBoard
+                searchQuery={searchQuery}
+                selectedUserId={selectedUserId}
+              />
+            </>
+          ) : (
+            <>
+              {/* Table Controls */}
+              <TableControls
+                table={table}
+                users={users}
+                usersLoading={usersLoading}
+                usersError={usersError}
+                selectedUserId={selectedUserId}
+                onUserChange={setSelectedUserId}
+                showUserFilter={true}
+              />
 
-          {/* Table */}
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-            {table.getFilteredRowModel().rows.length === 0 ? (
-              <EmptyState
-                hasSearchOrFilters={hasSearchOrFilters}
-                onClearSearch={
-                  searchQuery ? () => setSearchQuery('') : undefined
-                }
-                onClearFilters={
-                  selectedUserId ? () => setSelectedUserId('') : undefined
-                }
+              {/* Bulk Actions */}
+              <BulkActions
+                selectedRowCount={selectedRowCount}
+                onClearSelection={() => setRowSelection({})}
+                onBulkDelete={handleBulkDelete}
+                isDeleting={bulkDeleteMutation.isPending}
               />
-            ) : (
-              <>
-                <div className="overflow-x-auto">
-                  <table className="min-w-full divide-y divide-gray-200">
-                    <thead className="bg-gray-50">
-                      {table.getHeaderGroups().map((headerGroup) => (
-                        <tr key={headerGroup.id}>
-                          {headerGroup.headers.map((header) => (
-                            <th
-                              key={header.id}
-                              scope="col"
-                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 tracking-wider"
-                            >
-                              {header.isPlaceholder
-                                ? null
-                                : flexRender(
-                                    header.column.columnDef.header,
-                                    header.getContext(),
-                                  )}
-                            </th>
+
+              {/* Table */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                {table.getFilteredRowModel().rows.length === 0 ? (
+                  <EmptyState
+                    hasSearchOrFilters={hasSearchOrFilters}
+                    onClearSearch={
+                      searchQuery ? () => setSearchQuery('') : undefined
+                    }
+                    onClearFilters={
+                      selectedUserId ? () => setSelectedUserId('') : undefined
+                    }
+                  />
+                ) : (
+                  <>
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          {table.getHeaderGroups().map((headerGroup) => (
+                            <tr key={headerGroup.id}>
+                              {headerGroup.headers.map((header) => (
+                                <th
+                                  key={header.id}
+                                  scope="col"
+                                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 tracking-wider"
+                                >
+                                  {header.isPlaceholder
+                                    ? null
+                                    : flexRender(
+                                        header.column.columnDef.header,
+                                        header.getContext(),
+                                      )}
+                                </th>
+                              ))}
+                            </tr>
                           ))}
-                        </tr>
-                      ))}
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      {table.getRowModel().rows.map((row) => (
-                        <tr
-                          key={row.id}
-                          className={`hover:bg-gray-50 transition-colors cursor-pointer ${
-                            row.getIsSelected()
-                              ? 'bg-[var(--color-primary-50)]'
-                              : ''
-                          }`}
-                          onClick={() =>
-                            navigate({ to: `/leads/${row.original.id}` })
-                          }
-                        >
-                          {row.getVisibleCells().map((cell) => (
-                            <td
-                              key={cell.id}
-                              className="px-6 py-4 whitespace-nowrap"
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {table.getRowModel().rows.map((row) => (
+                            <tr
+                              key={row.id}
+                              className={`hover:bg-gray-50 transition-colors cursor-pointer ${
+                                row.getIsSelected()
+                                  ? 'bg-[var(--color-primary-50)]'
+                                  : ''
+                              }`}
+                              onClick={() =>
+                                navigate({ to: `/leads/${row.original.id}` })
+                              }
                             >
-                              {flexRender(
-                                cell.column.columnDef.cell,
-                                cell.getContext(),
-                              )}
-                            </td>
+                              {row.getVisibleCells().map((cell) => (
+                                <td
+                                  key={cell.id}
+                                  className="px-6 py-4 whitespace-nowrap"
+                                >
+                                  {flexRender(
+                                    cell.column.columnDef.cell,
+                                    cell.getContext(),
+                                  )}
+                                </td>
+                              ))}
+                            </tr>
                           ))}
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
+                        </tbody>
+                      </table>
+                    </div>
 
-                {/* Pagination */}
-                <TablePagination table={table} />
-              </>
-            )}
-          </div>
+                    {/* Pagination */}
+                    <TablePagination table={table} />
+                  </>
+                )}
+              </div>
+            </>
+          )}
         </div>
       </div>
 
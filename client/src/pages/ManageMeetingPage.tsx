@@ -0,0 +1,315 @@
+import { useMemo, useState } from 'react'
+import { useParams, useSearch } from '@tanstack/react-router'
+import {
+  useCancelMeeting,
+  useManagedMeeting,
+  useRescheduleAvailability,
+  useRescheduleMeeting,
+} from '../hooks/useSchedulingQuery'
+
+type ManageAction = 'reschedule' | 'cancel'
+
+function toDateString(date: Date) {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+
+  return `${year}-${month}-${day}`
+}
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+function formatTime(date: Date, timezone?: string) {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(date)
+}
+
+function formatWhen(value: string, timezone?: string) {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    dateStyle: 'full',
+    timeStyle: 'short',
+  }).format(new Date(value))
+}
+
+export default function ManageMeetingPage() {
+  const { token } = useParams({ strict: false }) as { token: string }
+  const search = useSearch({ strict: false }) as { action?: ManageAction }
+  const [action, setAction] = useState<ManageAction>(
+    search.action === 'cancel' ? 'cancel' : 'reschedule',
+  )
+  const [selectedDate, setSelectedDate] = useState(toDateString(new Date()))
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null)
+  const [reason, setReason] = useState('')
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [done, setDone] = useState<ManageAction | null>(null)
+
+  const meetingQuery = useManagedMeeting(token)
+  const isOpen =
+    meetingQuery.data?.status !== 'canceled' &&
+    !!meetingQuery.data &&
+    new Date(meetingQuery.data.startTime).getTime() > Date.now()
+  const availabilityQuery = useRescheduleAvailability(
+    token,
+    selectedDate,
+    selectedDate,
+    isOpen && action === 'reschedule' && !done,
+  )
+  const rescheduleMeeting = useRescheduleMeeting()
+  const cancelMeeting = useCancelMeeting()
+
+  const dateOptions = useMemo(
+    () =>
+      Array.from({ length: 14 }, (_, index) => {
+        const date = addDays(new Date(), index)
+        return {
+          value: toDateString(date),
+          label: new Intl.DateTimeFormat('en-US', {
+            weekday: 'short',
+            month: 'short',
+            day: 'numeric',
+          }).format(date),
+        }
+      }),
+    [],
+  )
+
+  if (meetingQuery.isLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+        <p className="text-sm text-gray-600">Loading your meeting...</p>
+      </main>
+    )
+  }
+
+  if (meetingQuery.error || !meetingQuery.data) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+        <div className="max-w-md rounded-xl bg-white p-6 shadow-sm ring-1 ring-gray-200">
+          <h1 className="text-xl font-semibold text-gray-900">
+            Meeting link unavailable
+          </h1>
+          <p className="mt-2 text-sm text-gray-600">
+            This link is invalid or the meeting no longer exists.
+          </p>
+        </div>
+      </main>
+    )
+  }
+
+  const meeting = meetingQuery.data
+
+  if (done || !isOpen) {
+    const title =
+      done === 'reschedule'
+        ? 'Meeting moved'
+        : meeting.status === 'canceled'
+          ? 'Meeting canceled'
+          : 'Meeting already started'
+    const message =
+      done === 'reschedule'
+        ? `Your meeting is now on ${formatWhen(meeting.startTime, meeting.timezone)}. An updated invitation and email are on the way.`
+        : meeting.status === 'canceled'
+          ? 'This meeting has been canceled and removed from the calendar.'
+          : 'This meeting can no longer be changed online.'
+
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+        <div className="max-w-md rounded-xl bg-white p-6 shadow-sm ring-1 ring-gray-200">
+          <h1 className="text-xl font-semibold text-gray-900">{title}</h1>
+          <p className="mt-2 text-sm text-gray-600">{message}</p>
+        </div>
+      </main>
+    )
+  }
+
+  const handleReschedule = async () => {
+    if (!selectedSlot) return
+    try {
+      setSubmitError(null)
+      await rescheduleMeeting.mutateAsync({ token, slot: selectedSlot })
+      setDone('reschedule')
+    } catch (error: any) {
+      setSubmitError(
+        error?.message ||
+          'Unable to move the meeting. Please try another time.',
+      )
+      availabilityQuery.refetch()
+    }
+  }
+
+  const handleCancel = async () => {
+    try {
+      setSubmitError(null)
+      await cancelMeeting.mutateAsync({
+        token,
+        reason: reason.trim() || undefined,
+      })
+      setDone('cancel')
+    } catch (error: any) {
+      setSubmitError(error?.message || 'Unable to cancel the meeting.')
+    }
+  }
+
+  const slots = availabilityQuery.data?.availableSlots ?? []
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-6">
+      <div className="mx-auto grid max-w-5xl gap-6 lg:grid-cols-[320px_1fr]">
+        <aside className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-gray-200">
+          <p className="text-sm font-medium text-[var(--color-primary-700)]">
+            DripIQ Smart Scheduling
+          </p>
+          <h1 className="mt-3 text-2xl font-semibold text-gray-900">
+            Your sales demo
+          </h1>
+          <div className="mt-6 rounded-xl bg-gray-50 p-4 text-sm text-gray-700">
+            {meeting.contactName && (
+              <p className="font-medium text-gray-900">{meeting.contactName}</p>
+            )}
+            <p>{formatWhen(meeting.startTime, meeting.timezone)}</p>
+          </div>
+          <p className="mt-4 text-xs text-gray-500">
+            Timezone: {meeting.timezone}
+          </p>
+
+          <div className="mt-6 grid grid-cols-2 gap-2">
+            {(['reschedule', 'cancel'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => {
+                  setAction(option)
+                  setSubmitError(null)
+                }}
+                className={`rounded-lg border px-3 py-2 text-sm font-medium ${
+                  action === option
+                    ? 'border-[var(--color-primary-600)] bg-[var(--color-primary-50)] text-[var(--color-primary-800)]'
+                    : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'reschedule' ? 'Reschedule' : 'Cancel'}
+              </button>
+            ))}
+          </div>
+        </aside>
+
+        <section className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-gray-200">
+          {action === 'reschedule' ? (
+            <>
+              <h2 className="text-lg font-semibold text-gray-900">
+                Choose a new date
+              </h2>
+              <div className="mt-4 grid gap-2 sm:grid-cols-4 lg:grid-cols-7">
+                {dateOptions.map((date) => (
+                  <button
+                    key={date.value}
+                    onClick={() => {
+                      setSelectedDate(date.value)
+                      setSelectedSlot(null)
+                    }}
+                    className={`rounded-lg border px-3 py-2 text-sm ${
+                      selectedDate === date.value
+                        ? 'border-[var(--color-primary-600)] bg-[var(--color-primary-50)] text-[var(--color-primary-800)]'
+                        : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {date.label}
+                  </button>
+                ))}
+              </div>
+
+              <h2 className="mt-8 text-lg font-semibold text-gray-900">
+                Times
+              </h2>
+              {availabilityQuery.isLoading ? (
+                <p className="mt-4 text-sm text-gray-600">
+                  Checking availability...
+                </p>
+              ) : availabilityQuery.error ? (
+                <p className="mt-4 text-sm text-red-600">
+                  Unable to load availability. Please try again.
+                </p>
+              ) : slots.length === 0 ? (
+                <p className="mt-4 text-sm text-gray-600">
+                  No slots are available for this date.
+                </p>
+              ) : (
+                <div className="mt-4 grid gap-2 sm:grid-cols-3 lg:grid-cols-4">
+                  {slots.map((slot) => (
+                    <button
+                      key={slot}
+                      onClick={() => setSelectedSlot(slot)}
+                      className={`rounded-lg border px-4 py-3 text-sm font-medium ${
+                        selectedSlot === slot
+                          ? 'border-[var(--color-primary-600)] bg-[var(--color-primary-600)] text-white'
+                          : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {formatTime(
+                        new Date(slot),
+                        availabilityQuery.data?.timezone,
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <h2 className="text-lg font-semibold text-gray-900">
+                Cancel this meeting
+              </h2>
+              <p className="mt-2 text-sm text-gray-600">
+                The meeting will be removed from the calendar and everyone
+                invited will be notified.
+              </p>
+              <label className="mt-4 block">
+                <span className="mb-1 block text-sm font-medium text-gray-700">
+                  Reason (optional)
+                </span>
+                <textarea
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value)}
+                  maxLength={500}
+                  rows={3}
+                  className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700"
+                />
+              </label>
+            </>
+          )}
+
+          {submitError && (
+            <p className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              {submitError}
+            </p>
+          )}
+
+          {action === 'reschedule' ? (
+            <button
+              onClick={handleReschedule}
+              disabled={!selectedSlot || rescheduleMeeting.isPending}
+              className="mt-6 inline-flex w-full items-center justify-center rounded-lg bg-[var(--color-primary-600)] px-5 py-3 text-sm font-semibold text-white shadow-sm hover:bg-[var(--color-primary-700)] disabled:opacity-50"
+            >
+              {rescheduleMeeting.isPending ? 'Moving...' : 'Move meeting'}
+            </button>
+          ) : (
+            <button
+              onClick={handleCancel}
+              disabled={cancelMeeting.isPending}
+              className="mt-6 inline-flex w-full items-center justify-center rounded-lg bg-red-600 px-5 py-3 text-sm font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-50"
+            >
+              {cancelMeeting.isPending ? 'Canceling...' : 'Cancel meeting'}
+            </button>
+          )}
+        </section>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,514 @@
+import { useMemo, useState } from 'react'
+import { AlertCircle, BarChart3, Trophy } from 'lucide-react'
+import {
+  useAbTests,
+  useAbTestWinner,
+  useAnalyticsBreakdown,
+  useAnalyticsSummary,
+} from '../hooks/useAnalyticsQuery'
+import type {
+  AbTest,
+  AnalyticsBreakdown,
+  AnalyticsParams,
+  AnalyticsRow,
+  AnalyticsSummary,
+  FunnelMetrics,
+} from '../services/analytics.service'
+import { AB_TEST_METRICS } from '../utils/campaignPlanSchema'
+import type { AbTestMetric } from '../utils/campaignPlanSchema'
+
+const RANGE_OPTIONS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+]
+
+const BREAKDOWN_TABS: Array<{ value: AnalyticsBreakdown; label: string }> = [
+  { value: 'steps', label: 'By step' },
+  { value: 'campaigns', label: 'By campaign' },
+  { value: 'products', label: 'By product' },
+  { value: 'senders', label: 'By sender' },
+  { value: 'plan-types', label: 'Template vs custom' },
+]
+
+const FUNNEL_STAGES: Array<{
+  count: keyof FunnelMetrics
+  rate?: keyof FunnelMetrics
+  label: string
+}> = [
+  { count: 'sent', label: 'Sent' },
+  { count: 'delivered', rate: 'deliveryRate', label: 'Delivered' },
+  { count: 'opened', rate: 'openRate', label: 'Opened' },
+  { count: 'clicked', rate: 'clickRate', label: 'Clicked' },
+  { count: 'replied', rate: 'replyRate', label: 'Replied' },
+  { count: 'meetings', rate: 'meetingRate', label: 'Meetings' },
+]
+
+const RATE_COLUMNS: Array<{ key: keyof FunnelMetrics; label: string }> = [
+  { key: 'deliveryRate', label: 'Delivered' },
+  { key: 'openRate', label: 'Open' },
+  { key: 'clickRate', label: 'Click' },
+  { key: 'replyRate', label: 'Reply' },
+  { key: 'meetingRate', label: 'Meeting' },
+]
+
+// Delivery barely differs between copies of the same step, so A/B tables leave it out
+const AB_TEST_RATE_COLUMNS = RATE_COLUMNS.filter(
+  (column) => column.key !== 'deliveryRate',
+)
+
+function buildParams(
+  days: number,
+  channel: AnalyticsParams['channel'],
+): AnalyticsParams {
+  const to = new Date()
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000)
+  from.setHours(0, 0, 0, 0) // Round to midnight so the query key stays stable
+  to.setHours(23, 59, 59, 999)
+  return { from: from.toISOString(), to: to.toISOString(), channel }
+}
+
+function formatPercent(value: number): string {
+  return `${value.toFixed(1)}%`
+}
+
+function FunnelChart({ totals }: { totals: FunnelMetrics }) {
+  const max = Math.max(totals.sent, 1)
+
+  return (
+    <div className="space-y-3">
+      {FUNNEL_STAGES.map((stage) => {
+        const value = totals[stage.count]
+        return (
+          <div key={stage.count} className="flex items-center gap-3">
+            <span className="w-20 text-sm text-gray-600">{stage.label}</span>
+            <div className="flex-1 h-6 bg-gray-100 rounded">
+              <div
+                className="h-6 rounded bg-[var(--color-primary-500)]"
+                style={{ width: `${Math.min((value / max) * 100, 100)}%` }}
+              />
+            </div>
+            <span className="w-28 text-right text-sm text-gray-900">
+              {value.toLocaleString()}
+              {stage.rate && (
+                <span className="ml-1 text-gray-500">
+                  ({formatPercent(totals[stage.rate])})
+                </span>
+              )}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function DailyChart({ daily }: { daily: AnalyticsSummary['daily'] }) {
+  if (daily.length === 0) {
+    return <p className="text-sm text-gray-500">No messages sent yet.</p>
+  }
+
+  const max = Math.max(...daily.map((day) => day.sent), 1)
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-40">
+        {daily.map((day) => (
+          <div
+            key={day.date}
+            className="flex-1 flex flex-col justify-end h-full"
+            title={`${day.date}: ${day.sent} sent, ${day.opened} opened, ${day.clicked} clicked, ${day.replied} replied`}
+          >
+            <div
+              className="bg-[var(--color-primary-200)] rounded-t relative"
+              style={{ height: `${(day.sent / max) * 100}%` }}
+            >
+              <div
+                className="absolute bottom-0 inset-x-0 bg-[var(--color-primary-600)] rounded-t"
+                style={{
+                  height: `${day.sent > 0 ? (day.replied / day.sent) * 100 : 0}%`,
+                }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-gray-500">
+        <span>{daily[0]?.date}</span>
+        <span>{daily[daily.length - 1]?.date}</span>
+      </div>
+      <div className="flex gap-4 mt-2 text-xs text-gray-600">
+        <span className="inline-flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-[var(--color-primary-200)]" />
+          Sent
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-[var(--color-primary-600)]" />
+          Replied
+        </span>
+      </div>
+    </div>
+  )
+}
+
+function BreakdownTable({ rows }: { rows: AnalyticsRow[] }) {
+  if (rows.length === 0) {
+    return (
+      <p className="p-6 text-sm text-gray-500 text-center">
+        No activity in this range.
+      </p>
+    )
+  }
+
+  const maxReplyRate = Math.max(...rows.map((row) => row.replyRate), 1)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">
+              Name
+            </th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+              Sent
+            </th>
+            {RATE_COLUMNS.map((column) => (
+              <th
+                key={column.key}
+                className="px-4 py-3 text-right text-xs font-medium text-gray-500"
+              >
+                {column.label}
+              </th>
+            ))}
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 w-40">
+              Reply rate
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                {row.label}
+              </td>
+              <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                {row.sent.toLocaleString()}
+              </td>
+              {RATE_COLUMNS.map((column) => (
+                <td
+                  key={column.key}
+                  className="px-4 py-3 text-sm text-gray-700 text-right"
+                >
+                  {formatPercent(row[column.key])}
+                </td>
+              ))}
+              <td className="px-4 py-3">
+                <div className="h-2 bg-gray-100 rounded">
+                  <div
+                    className="h-2 rounded bg-[var(--color-primary-500)]"
+                    style={{
+                      width: `${(row.replyRate / maxReplyRate) * 100}%`,
+                    }}
+                  />
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function humanizeStepKey(stepKey: string): string {
+  const label = stepKey.replace(/[_-]+/g, ' ').trim()
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+function AbTestCard({ test }: { test: AbTest }) {
+  const { promote, clear } = useAbTestWinner()
+  const error = promote.error ?? clear.error
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gray-200">
+        <h3 className="font-medium text-gray-900">
+          {humanizeStepKey(test.stepKey)}
+        </h3>
+        <span className="text-xs text-gray-400 font-mono">{test.testKey}</span>
+        <span className="text-xs text-gray-500">
+          {test.totalSent.toLocaleString()} sent
+        </span>
+        {test.winner ? (
+          <span className="inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+            <Trophy className="h-3 w-3" />
+            Variant {test.winner.variantId}{' '}
+            {test.winner.promotedBy ? 'promoted' : 'auto-promoted'}
+          </span>
+        ) : test.significant ? (
+          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+            Variant {test.leaderVariantId} is significantly ahead
+          </span>
+        ) : (
+          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+            Not yet significant
+          </span>
+        )}
+        {test.winner && (
+          <button
+            onClick={() => clear.mutate(test.testKey)}
+            disabled={clear.isPending}
+            className="ml-auto text-xs text-gray-600 hover:text-gray-900 disabled:opacity-50"
+          >
+            Resume split
+          </button>
+        )}
+      </div>
+      {error && (
+        <p className="px-4 pt-3 text-sm text-red-600">{error.message}</p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                Variant
+              </th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">
+                Sent
+              </th>
+              {AB_TEST_RATE_COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  className="px-4 py-2 text-right text-xs font-medium text-gray-500"
+                >
+                  {column.label}
+                </th>
+              ))}
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">
+                p-value
+              </th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {test.variants.map((variant) => (
+              <tr key={variant.variantId}>
+                <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">
+                  {variant.variantId}
+                  {variant.isLeader && (
+                    <span className="ml-2 text-xs text-[var(--color-primary-700)]">
+                      Leader
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-900 text-right">
+                  {variant.sent.toLocaleString()}
+                </td>
+                {AB_TEST_RATE_COLUMNS.map((column) => (
+                  <td
+                    key={column.key}
+                    className="px-4 py-2 text-sm text-gray-700 text-right"
+                  >
+                    {formatPercent(variant[column.key])}
+                  </td>
+                ))}
+                <td
+                  className={`px-4 py-2 text-sm text-right ${
+                    variant.significant
+                      ? 'text-green-700 font-medium'
+                      : 'text-gray-500'
+                  }`}
+                  title={
+                    variant.significant
+                      ? 'Differs from the leader at 95% confidence'
+                      : undefined
+                  }
+                >
+                  {variant.pValue === null ? '—' : variant.pValue.toFixed(3)}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {test.winner?.variantId !== variant.variantId && (
+                    <button
+                      onClick={() =>
+                        promote.mutate({
+                          testKey: test.testKey,
+                          variantId: variant.variantId,
+                          metric: test.metric,
+                        })
+                      }
+                      disabled={promote.isPending}
+                      className="text-xs text-[var(--color-primary-600)] hover:text-[var(--color-primary-800)] disabled:opacity-50"
+                    >
+                      Promote
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default function ReportsPage() {
+  const [days, setDays] = useState(30)
+  const [channel, setChannel] = useState<AnalyticsParams['channel']>()
+  const [breakdown, setBreakdown] = useState<AnalyticsBreakdown>('steps')
+
+  const params = useMemo(() => buildParams(days, channel), [days, channel])
+  const summary = useAnalyticsSummary(params)
+  const rows = useAnalyticsBreakdown(breakdown, params)
+  const [abTestMetric, setAbTestMetric] = useState<AbTestMetric>('replied')
+  const abTests = useAbTests(params, abTestMetric)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+              <BarChart3 className="h-7 w-7 text-[var(--color-primary-600)]" />
+              Reports
+            </h1>
+            <p className="mt-2 text-gray-600">
+              How each campaign step turns sends into replies and meetings
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={channel ?? ''}
+              onChange={(e) =>
+                setChannel(
+                  (e.target.value || undefined) as AnalyticsParams['channel'],
+                )
+              }
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white"
+            >
+              <option value="">All channels</option>
+              <option value="email">Email</option>
+              <option value="sms">SMS</option>
+            </select>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {summary.error ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+            <AlertCircle className="w-12 h-12 mx-auto mb-4 text-red-500" />
+            <p className="text-gray-900 font-medium mb-2">
+              Error loading reports
+            </p>
+            <p className="text-gray-500">{summary.error.message}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Funnel
+              </h2>
+              {summary.data ? (
+                <FunnelChart totals={summary.data.totals} />
+              ) : (
+                <div className="animate-pulse h-48 bg-gray-100 rounded" />
+              )}
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Daily sends
+              </h2>
+              {summary.data ? (
+                <DailyChart daily={summary.data.daily} />
+              ) : (
+                <div className="animate-pulse h-48 bg-gray-100 rounded" />
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="flex flex-wrap gap-2 border-b border-gray-200 px-4 pt-4">
+            {BREAKDOWN_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setBreakdown(tab.value)}
+                className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                  breakdown === tab.value
+                    ? 'border-[var(--color-primary-600)] text-[var(--color-primary-700)]'
+                    : 'border-transparent text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          {rows.error ? (
+            <p className="p-6 text-sm text-red-600 text-center">
+              {rows.error.message}
+            </p>
+          ) : rows.data ? (
+            <BreakdownTable rows={rows.data.rows} />
+          ) : (
+            <div className="p-6">
+              <div className="animate-pulse h-32 bg-gray-100 rounded" />
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">A/B tests</h2>
+              <p className="text-sm text-gray-500">
+                Each variant is compared with the leader; green p-values are
+                significant at 95% confidence
+              </p>
+            </div>
+            <select
+              value={abTestMetric}
+              onChange={(e) => setAbTestMetric(e.target.value as AbTestMetric)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white"
+            >
+              {AB_TEST_METRICS.map((metric) => (
+                <option key={metric} value={metric}>
+                  Compare by {metric}
+                </option>
+              ))}
+            </select>
+          </div>
+          {abTests.error ? (
+            <p className="text-sm text-red-600">{abTests.error.message}</p>
+          ) : abTests.data ? (
+            abTests.data.tests.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No steps with A/B variants were sent in this range.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {abTests.data.tests.map((test) => (
+                  <AbTestCard key={test.testKey} test={test} />
+                ))}
+              </div>
+            )
+          ) : (
+            <div className="animate-pulse h-32 bg-gray-100 rounded" />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,432 @@
+import { useState } from 'react'
+import { Link } from '@tanstack/react-router'
+import { CheckCircle2, Inbox, Mail, MessageSquare, XCircle } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  useApproveReviewMessages,
+  useRejectReviewMessages,
+  useReviewMessages,
+  useSendReviewPolicy,
+  useSetSendReviewPolicy,
+  useUpdateReviewMessage,
+} from '../hooks/useSendReviewQuery'
+import type {
+  ReviewActionResult,
+  ReviewMessage,
+  SendReviewPolicy,
+} from '../services/sendReview.service'
+
+const POLICY_OPTIONS: Array<{ value: SendReviewPolicy; label: string }> = [
+  { value: 'off', label: 'Send without review' },
+  { value: 'first_step', label: 'Review the first message of each sequence' },
+  { value: 'all', label: 'Review every message' },
+]
+
+const SKIP_REASONS: Record<string, string> = {
+  not_pending: 'already handled',
+  campaign_paused: 'campaign is paused',
+  campaign_inactive: 'campaign has ended',
+}
+
+function describeResult(action: string, result: ReviewActionResult): string {
+  const summary = `${result.updated.length} ${action}`
+  if (result.skipped.length === 0) return summary
+
+  const reasons = [
+    ...new Set(result.skipped.map((s) => SKIP_REASONS[s.reason] ?? s.reason)),
+  ]
+  return `${summary}, ${result.skipped.length} skipped (${reasons.join(', ')})`
+}
+
+function ReviewRow({
+  message,
+  selected,
+  onToggle,
+  onResult,
+}: {
+  message: ReviewMessage
+  selected: boolean
+  onToggle: () => void
+  onResult: (text: string) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [subject, setSubject] = useState(message.content.subject ?? '')
+  const [body, setBody] = useState(message.content.body ?? '')
+  const updateMessage = useUpdateReviewMessage()
+  const approve = useApproveReviewMessages()
+  const reject = useRejectReviewMessages()
+  const isEmail = message.channel === 'email'
+  const Icon = isEmail ? Mail : MessageSquare
+  const busy = updateMessage.isPending || approve.isPending || reject.isPending
+  const error = updateMessage.error || approve.error || reject.error
+
+  const save = () =>
+    updateMessage.mutate(
+      {
+        messageId: message.id,
+        content: { subject: isEmail ? subject : undefined, body },
+      },
+      { onSuccess: () => setEditing(false) },
+    )
+
+  const startEdit = () => {
+    setSubject(message.content.subject ?? '')
+    setBody(message.content.body ?? '')
+    setEditing(true)
+  }
+
+  return (
+    <li className="px-4 py-5 sm:px-6">
+      <div className="flex items-start gap-4">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={onToggle}
+          aria-label={`Select message to ${message.contactName}`}
+          className="mt-2 h-4 w-4 rounded border-gray-300 text-[var(--color-primary-600)] cursor-pointer"
+        />
+        <div className="flex-shrink-0 rounded-full bg-[var(--color-primary-50)] p-2">
+          <Icon className="h-5 w-5 text-[var(--color-primary-600)]" />
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-gray-600">
+              <span className="font-medium text-gray-900">
+                {message.contactName}
+              </span>
+              {message.contactTitle ? `, ${message.contactTitle}` : ''} ·{' '}
+              <Link
+                to="/leads/$leadId"
+                params={{ leadId: message.leadId }}
+                className="text-[var(--color-primary-600)] hover:underline"
+              >
+                {message.leadName}
+              </Link>
+            </p>
+            <span className="text-xs text-gray-500">
+              {message.content.to}
+              {message.nodeId ? ` · ${message.nodeId}` : ''}
+            </span>
+          </div>
+
+          {editing ? (
+            <div className="mt-3 space-y-2">
+              {isEmail && (
+                <input
+                  type="text"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  placeholder="Subject"
+                  className="w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-[var(--color-primary-500)] focus:outline-none"
+                />
+              )}
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={8}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-[var(--color-primary-500)] focus:outline-none"
+              />
+              <p className="text-xs text-gray-500">
+                Template variables such as {'{{contact.firstName}}'} are filled
+                in when you save.
+              </p>
+            </div>
+          ) : (
+            <div className="mt-3 rounded-md border border-gray-200 bg-gray-50 px-4 py-3">
+              {isEmail && (
+                <p className="text-sm font-medium text-gray-900">
+                  {message.content.subject}
+                </p>
+              )}
+              <p className="mt-1 whitespace-pre-line text-sm text-gray-700">
+                {message.content.body}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            {editing ? (
+              <>
+                <button
+                  type="button"
+                  disabled={
+                    busy || !body.trim() || (isEmail && !subject.trim())
+                  }
+                  onClick={save}
+                  className="inline-flex items-center rounded-md bg-[var(--color-primary-600)] px-3 py-1.5 text-sm font-medium text-white hover:bg-[var(--color-primary-700)] disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => setEditing(false)}
+                  className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 cursor-pointer"
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() =>
+                    approve.mutate([message.id], {
+                      onSuccess: (result) =>
+                        onResult(describeResult('approved', result)),
+                    })
+                  }
+                  className="inline-flex items-center rounded-md bg-[var(--color-primary-600)] px-3 py-1.5 text-sm font-medium text-white hover:bg-[var(--color-primary-700)] disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+                >
+                  <CheckCircle2 className="mr-1.5 h-4 w-4" />
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={startEdit}
+                  className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() =>
+                    reject.mutate(
+                      { messageIds: [message.id] },
+                      {
+                        onSuccess: (result) =>
+                          onResult(describeResult('rejected', result)),
+                      },
+                    )
+                  }
+                  className="inline-flex items-center rounded-md border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+                >
+                  <XCircle className="mr-1.5 h-4 w-4" />
+                  Reject
+                </button>
+              </>
+            )}
+          </div>
+
+          {error && (
+            <p className="mt-2 text-sm text-red-600">{error.message}</p>
+          )}
+        </div>
+      </div>
+    </li>
+  )
+}
+
+function PolicySelect() {
+  const { data: policy } = useSendReviewPolicy()
+  const setPolicy = useSetSendReviewPolicy()
+
+  return (
+    <div>
+      <label
+        htmlFor="send-review-policy"
+        className="block text-xs font-medium text-gray-500"
+      >
+        Review policy
+      </label>
+      <select
+        id="send-review-policy"
+        value={policy ?? 'off'}
+        disabled={setPolicy.isPending}
+        onChange={(e) => setPolicy.mutate(e.target.value as SendReviewPolicy)}
+        className="mt-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:border-[var(--color-primary-500)] focus:outline-none"
+      >
+        {POLICY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {setPolicy.error && (
+        <p className="mt-1 text-xs text-red-600">{setPolicy.error.message}</p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Review inbox - campaign messages held for approval under the tenant's review policy.
+ * Approved messages go out in the contact's next send window; rejecting one stops that
+ * contact's sequence.
+ */
+export default function ReviewQueuePage() {
+  const { user } = useAuth()
+  const isAdmin = user?.tenants?.[0]?.role?.name === 'Admin'
+  const [scope, setScope] = useState<'mine' | 'all'>('mine')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [rejectReason, setRejectReason] = useState('')
+  const [notice, setNotice] = useState<string | null>(null)
+  const { data, isLoading, error } = useReviewMessages(
+    scope === 'mine' ? user?.user.id : undefined,
+  )
+  const approve = useApproveReviewMessages()
+  const reject = useRejectReviewMessages()
+  const messages = data ?? []
+  const selected = messages.filter((m) => selectedIds.has(m.id))
+  const allSelected = messages.length > 0 && selected.length === messages.length
+  const bulkBusy = approve.isPending || reject.isPending
+
+  const toggle = (id: string) =>
+    setSelectedIds((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+
+  const toggleAll = () =>
+    setSelectedIds(allSelected ? new Set() : new Set(messages.map((m) => m.id)))
+
+  const onBulkDone = (action: string) => (result: ReviewActionResult) => {
+    setSelectedIds(new Set())
+    setRejectReason('')
+    setNotice(describeResult(action, result))
+  }
+
+  return (
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: 'var(--color-bg-secondary)' }}
+    >
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Review queue</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Campaign messages waiting for approval, oldest first. Each
+              sequence waits here until its message is approved or rejected.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            {isAdmin && <PolicySelect />}
+            <div className="inline-flex rounded-md shadow-sm">
+              {(['mine', 'all'] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => {
+                    setScope(value)
+                    setSelectedIds(new Set())
+                  }}
+                  className={`px-4 py-2 text-sm font-medium border cursor-pointer first:rounded-l-md last:rounded-r-md ${
+                    scope === value
+                      ? 'bg-[var(--color-primary-600)] text-white border-[var(--color-primary-600)]'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {value === 'mine' ? 'My leads' : 'Everyone'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {notice && (
+          <div className="rounded-md border border-[var(--color-primary-200)] bg-[var(--color-primary-50)] px-4 py-3 text-sm text-gray-700">
+            {notice}
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg">
+          {messages.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 border-b border-gray-200 px-4 py-3 sm:px-6">
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleAll}
+                  className="h-4 w-4 rounded border-gray-300 text-[var(--color-primary-600)]"
+                />
+                {selected.length > 0
+                  ? `${selected.length} selected`
+                  : 'Select all'}
+              </label>
+              <input
+                type="text"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="Reason for rejecting (optional)"
+                className="min-w-[200px] flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-[var(--color-primary-500)] focus:outline-none"
+              />
+              <button
+                type="button"
+                disabled={bulkBusy || selected.length === 0}
+                onClick={() =>
+                  approve.mutate(
+                    selected.map((m) => m.id),
+                    { onSuccess: onBulkDone('approved') },
+                  )
+                }
+                className="inline-flex items-center rounded-md bg-[var(--color-primary-600)] px-3 py-1.5 text-sm font-medium text-white hover:bg-[var(--color-primary-700)] disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+              >
+                <CheckCircle2 className="mr-1.5 h-4 w-4" />
+                Approve selected
+              </button>
+              <button
+                type="button"
+                disabled={bulkBusy || selected.length === 0}
+                onClick={() =>
+                  reject.mutate(
+                    {
+                      messageIds: selected.map((m) => m.id),
+                      reason: rejectReason.trim() || undefined,
+                    },
+                    { onSuccess: onBulkDone('rejected') },
+                  )
+                }
+                className="inline-flex items-center rounded-md border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+              >
+                <XCircle className="mr-1.5 h-4 w-4" />
+                Reject selected
+              </button>
+              {(approve.error || reject.error) && (
+                <p className="w-full text-sm text-red-600">
+                  {(approve.error || reject.error)?.message}
+                </p>
+              )}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="px-6 py-12 text-center text-sm text-gray-500">
+              Loading messages...
+            </div>
+          ) : error ? (
+            <div className="px-6 py-12 text-center text-sm text-red-600">
+              {error.message}
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="px-6 py-12 text-center">
+              <Inbox className="mx-auto h-10 w-10 text-gray-300" />
+              <p className="mt-2 text-sm text-gray-500">
+                Nothing waiting for review.
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {messages.map((message) => (
+                <ReviewRow
+                  key={message.id}
+                  message={message}
+                  selected={selectedIds.has(message.id)}
+                  onToggle={() => toggle(message.id)}
+                  onResult={setNotice}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
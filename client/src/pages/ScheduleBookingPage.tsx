@@ -6,6 +6,7 @@ import {
   useHoldSlot,
   usePublicBookingContext,
 } from '../hooks/useSchedulingQuery'
+import type { MeetingLocationType } from '../services/scheduling.service'
 
 function toDateString(date: Date) {
   const year = date.getFullYear()
@@ -29,6 +30,13 @@ function formatTime(date: Date, timezone?: string) {
   }).format(date)
 }
 
+const LOCATION_LABELS: Record<MeetingLocationType, string> = {
+  video: 'Video call',
+  phone: 'Phone call',
+  in_person: 'In person',
+  custom: 'Details in the invite',
+}
+
 export default function ScheduleBookingPage() {
   const { token } = useParams({ strict: false }) as { token: string }
   const [selectedDate, setSelectedDate] = useState(toDateString(new Date()))
@@ -36,6 +44,7 @@ export default function ScheduleBookingPage() {
   const [contactName, setContactName] = useState('')
   const [contactEmail, setContactEmail] = useState('')
   const [contactPhone, setContactPhone] = useState('')
+  const [answers, setAnswers] = useState<Record<string, string>>({})
   const [submitError, setSubmitError] = useState<string | null>(null)
   const [bookingComplete, setBookingComplete] = useState(false)
 
@@ -137,6 +146,10 @@ export default function ScheduleBookingPage() {
   }
 
   const context = contextQuery.data
+  const meetingType = context.meetingType
+  const missingAnswer = meetingType?.questions.some(
+    (question) => question.required && !answers[question.id]?.trim(),
+  )
 
   const handleConfirm = async () => {
     if (!selectedSlot) return
@@ -151,6 +164,7 @@ export default function ScheduleBookingPage() {
           name: contactName,
           email: contactEmail,
           phone: contactPhone || undefined,
+          answers,
         },
       })
       setBookingComplete(true)
@@ -170,11 +184,25 @@ export default function ScheduleBookingPage() {
             DripIQ Smart Scheduling
           </p>
           <h1 className="mt-3 text-2xl font-semibold text-gray-900">
-            Book a sales demo
+            {meetingType ? `Book a ${meetingType.name}` : 'Book a sales demo'}
           </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {context.meetingDurationMinutes} minutes
+            {meetingType && ` · ${LOCATION_LABELS[meetingType.locationType]}`}
+          </p>
+          {meetingType?.location && (
+            <p className="mt-1 text-sm text-gray-500">{meetingType.location}</p>
+          )}
+          {meetingType?.description && (
+            <p className="mt-3 whitespace-pre-line text-sm text-gray-700">
+              {meetingType.description}
+            </p>
+          )}
           <p className="mt-3 text-sm text-gray-600">
             Select a time that works for you. Availability is checked against
-            the rep&apos;s live calendar before booking.
+            {context.teamName
+              ? ` the ${context.teamName} team's live calendars before booking.`
+              : " the rep's live calendar before booking."}
           </p>
 
           <div className="mt-6 rounded-xl bg-gray-50 p-4 text-sm text-gray-700">
@@ -297,6 +325,46 @@ export default function ScheduleBookingPage() {
             </div>
           </div>
 
+          {meetingType && meetingType.questions.length > 0 && (
+            <div className="mt-4 rounded-xl border border-gray-200 bg-gray-50 p-4">
+              <h3 className="text-sm font-medium text-gray-900">
+                A few questions
+              </h3>
+              <div className="mt-3 space-y-3">
+                {meetingType.questions.map((question) => {
+                  const inputProps = {
+                    value: answers[question.id] ?? '',
+                    onChange: (
+                      event: React.ChangeEvent<
+                        HTMLInputElement | HTMLTextAreaElement
+                      >,
+                    ) =>
+                      setAnswers((current) => ({
+                        ...current,
+                        [question.id]: event.target.value,
+                      })),
+                    className:
+                      'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700',
+                  }
+
+                  return (
+                    <label key={question.id} className="block">
+                      <span className="mb-1 block text-sm font-medium text-gray-700">
+                        {question.label}
+                        {question.required && ' *'}
+                      </span>
+                      {question.type === 'long_text' ? (
+                        <textarea rows={3} {...inputProps} />
+                      ) : (
+                        <input {...inputProps} />
+                      )}
+                    </label>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
           {submitError && (
             <p className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
               {submitError}
@@ -309,6 +377,7 @@ export default function ScheduleBookingPage() {
               !selectedSlot ||
               !contactName ||
               !contactEmail ||
+              missingAnswer ||
               holdSlot.isPending ||
               confirmBooking.isPending
             }
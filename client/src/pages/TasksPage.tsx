@@ -0,0 +1,225 @@
+import { useState } from 'react'
+import { Link } from '@tanstack/react-router'
+import {
+  CheckCircle2,
+  ClipboardList,
+  Linkedin,
+  Phone,
+  SkipForward,
+  XCircle,
+} from 'lucide-react'
+import { useCompleteTask, useTasks } from '../hooks/useTasksQuery'
+import type {
+  CampaignTask,
+  TaskOutcome,
+  TaskType,
+} from '../services/tasks.service'
+
+const TASK_ICONS: Record<TaskType, typeof Phone> = {
+  call: Phone,
+  linkedin: Linkedin,
+  other: ClipboardList,
+}
+
+const OUTCOME_BUTTONS: Array<{
+  outcome: TaskOutcome
+  label: string
+  icon: typeof Phone
+  className: string
+}> = [
+  {
+    outcome: 'done',
+    label: 'Done',
+    icon: CheckCircle2,
+    className:
+      'bg-[var(--color-primary-600)] hover:bg-[var(--color-primary-700)] text-white',
+  },
+  {
+    outcome: 'skipped',
+    label: 'Skip',
+    icon: SkipForward,
+    className: 'bg-white hover:bg-gray-50 text-gray-700 border border-gray-300',
+  },
+  {
+    outcome: 'failed',
+    label: 'Failed',
+    icon: XCircle,
+    className: 'bg-white hover:bg-red-50 text-red-700 border border-red-300',
+  },
+]
+
+function formatDue(dueAt: string): { label: string; overdue: boolean } {
+  const due = new Date(dueAt)
+  const overdue = due.getTime() < Date.now()
+  const label = due.toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+  return { label: overdue ? `Overdue · ${label}` : `Due ${label}`, overdue }
+}
+
+function TaskRow({ task }: { task: CampaignTask }) {
+  const [note, setNote] = useState('')
+  const completeTask = useCompleteTask()
+  const Icon = TASK_ICONS[task.type] ?? ClipboardList
+  const due = formatDue(task.dueAt)
+
+  return (
+    <li className="px-4 py-5 sm:px-6">
+      <div className="flex items-start gap-4">
+        <div className="flex-shrink-0 rounded-full bg-[var(--color-primary-50)] p-2">
+          <Icon className="h-5 w-5 text-[var(--color-primary-600)]" />
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-medium text-gray-900">{task.title}</p>
+            <span
+              className={`text-xs font-medium ${
+                due.overdue ? 'text-red-600' : 'text-gray-500'
+              }`}
+            >
+              {due.label}
+            </span>
+          </div>
+
+          <p className="mt-1 text-sm text-gray-600">
+            {task.contactName}
+            {task.contactTitle ? `, ${task.contactTitle}` : ''} ·{' '}
+            <Link
+              to="/leads/$leadId"
+              params={{ leadId: task.leadId }}
+              className="text-[var(--color-primary-600)] hover:underline"
+            >
+              {task.leadName}
+            </Link>
+          </p>
+
+          {(task.contactPhone || task.contactEmail) && (
+            <p className="mt-1 text-xs text-gray-500">
+              {[task.contactPhone, task.contactEmail]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          )}
+
+          {task.instructions && (
+            <p className="mt-2 whitespace-pre-line text-sm text-gray-700">
+              {task.instructions}
+            </p>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note (optional)"
+              className="min-w-[200px] flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-[var(--color-primary-500)] focus:outline-none"
+            />
+            {OUTCOME_BUTTONS.map(
+              ({ outcome, label, icon: ButtonIcon, className }) => (
+                <button
+                  key={outcome}
+                  type="button"
+                  disabled={completeTask.isPending}
+                  onClick={() =>
+                    completeTask.mutate({
+                      taskId: task.id,
+                      outcome,
+                      note: note.trim() || undefined,
+                    })
+                  }
+                  className={`inline-flex items-center rounded-md px-3 py-1.5 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer ${className}`}
+                >
+                  <ButtonIcon className="mr-1.5 h-4 w-4" />
+                  {label}
+                </button>
+              ),
+            )}
+          </div>
+
+          {completeTask.error && (
+            <p className="mt-2 text-sm text-red-600">
+              {completeTask.error.message}
+            </p>
+          )}
+        </div>
+      </div>
+    </li>
+  )
+}
+
+/**
+ * My tasks - manual campaign steps (calls, LinkedIn touches) assigned to the rep.
+ * Recording an outcome moves the contact's campaign on to its next step.
+ */
+export default function TasksPage() {
+  const [scope, setScope] = useState<'mine' | 'all'>('mine')
+  const { data, isLoading, error } = useTasks({ scope, status: 'open' })
+  const tasks = data?.tasks ?? []
+
+  return (
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: 'var(--color-bg-secondary)' }}
+    >
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">My tasks</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Calls and other manual steps from your campaigns, soonest due
+              first.
+            </p>
+          </div>
+
+          <div className="inline-flex rounded-md shadow-sm">
+            {(['mine', 'all'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setScope(value)}
+                className={`px-4 py-2 text-sm font-medium border cursor-pointer first:rounded-l-md last:rounded-r-md ${
+                  scope === value
+                    ? 'bg-[var(--color-primary-600)] text-white border-[var(--color-primary-600)]'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {value === 'mine' ? 'Assigned to me' : 'Everyone'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg">
+          {isLoading ? (
+            <div className="px-6 py-12 text-center text-sm text-gray-500">
+              Loading tasks...
+            </div>
+          ) : error ? (
+            <div className="px-6 py-12 text-center text-sm text-red-600">
+              {error.message}
+            </div>
+          ) : tasks.length === 0 ? (
+            <div className="px-6 py-12 text-center">
+              <CheckCircle2 className="mx-auto h-10 w-10 text-gray-300" />
+              <p className="mt-2 text-sm text-gray-500">
+                No open tasks. You're all caught up.
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {tasks.map((task) => (
+                <TaskRow key={task.id} task={task} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
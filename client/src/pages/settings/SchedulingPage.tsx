@@ -0,0 +1,404 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, CalendarClock, Edit, Plus, Trash2 } from 'lucide-react'
+import {
+  useDeleteSchedulingPool,
+  useSaveSchedulingPool,
+  useSchedulingPools,
+} from '../../hooks/useSchedulingQuery'
+import { useUsers } from '../../hooks/useLeadsQuery'
+import { useAuth } from '../../contexts/AuthContext'
+import type {
+  PoolAssignmentStrategy,
+  SchedulingPool,
+  SchedulingPoolInput,
+  SchedulingPoolMode,
+} from '../../services/scheduling.service'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] focus:border-transparent'
+
+const MODE_LABELS: Record<SchedulingPoolMode, string> = {
+  round_robin: 'Round robin',
+  collective: 'Collective',
+}
+
+const STRATEGY_LABELS: Record<PoolAssignmentStrategy, string> = {
+  round_robin: 'Take turns',
+  least_recently_booked: 'Least recently booked',
+  owner_first: 'Lead owner first',
+}
+
+const emptyPool: SchedulingPoolInput = {
+  name: '',
+  mode: 'round_robin',
+  assignmentStrategy: 'round_robin',
+  meetingDurationMinutes: 30,
+  memberIds: [],
+}
+
+interface PoolModalProps {
+  pool: SchedulingPool | null
+  onClose: () => void
+}
+
+function PoolModal({ pool, onClose }: PoolModalProps) {
+  const saveMutation = useSaveSchedulingPool()
+  const { data: usersResponse } = useUsers(1, 100)
+  const [formData, setFormData] = useState<SchedulingPoolInput>(emptyPool)
+
+  const users = (usersResponse?.data ?? []).filter(
+    (user) => user.status === 'active',
+  )
+
+  useEffect(() => {
+    setFormData(
+      pool
+        ? {
+            name: pool.name,
+            mode: pool.mode,
+            assignmentStrategy: pool.assignmentStrategy,
+            meetingDurationMinutes: pool.meetingDurationMinutes,
+            memberIds: pool.members.map((member) => member.userId),
+          }
+        : emptyPool,
+    )
+  }, [pool])
+
+  const toggleMember = (userId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      memberIds: prev.memberIds.includes(userId)
+        ? prev.memberIds.filter((id) => id !== userId)
+        : [...prev.memberIds, userId],
+    }))
+  }
+
+  const minMembers = formData.mode === 'collective' ? 2 : 1
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await saveMutation.mutateAsync({ poolId: pool?.id, input: formData })
+      onClose()
+    } catch (error) {
+      console.error('Error saving scheduling pool:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 backdrop-blur bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">
+          {pool ? 'Edit Pool' : 'Create Pool'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="pool-name"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Name *
+            </label>
+            <input
+              id="pool-name"
+              type="text"
+              value={formData.name}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, name: e.target.value }))
+              }
+              className={inputClass}
+              placeholder="West Coast AEs"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="pool-mode"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Type
+              </label>
+              <select
+                id="pool-mode"
+                value={formData.mode}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    mode: e.target.value as SchedulingPoolMode,
+                  }))
+                }
+                className={inputClass}
+              >
+                {Object.entries(MODE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {formData.mode === 'collective'
+                  ? 'Offers times when every member is free and invites them all.'
+                  : 'Offers any member’s free time and books one host.'}
+              </p>
+            </div>
+            <div>
+              <label
+                htmlFor="pool-duration"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Meeting duration
+              </label>
+              <select
+                id="pool-duration"
+                value={formData.meetingDurationMinutes}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    meetingDurationMinutes: Number(e.target.value),
+                  }))
+                }
+                className={inputClass}
+              >
+                {[15, 30, 45, 60, 90].map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes} minutes
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {formData.mode === 'round_robin' && (
+            <div>
+              <label
+                htmlFor="pool-strategy"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Assign meetings by
+              </label>
+              <select
+                id="pool-strategy"
+                value={formData.assignmentStrategy}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    assignmentStrategy: e.target
+                      .value as PoolAssignmentStrategy,
+                  }))
+                }
+                className={inputClass}
+              >
+                {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Members *
+            </span>
+            <div className="border border-gray-200 rounded-md divide-y divide-gray-100 max-h-64 overflow-y-auto">
+              {users.map((user) => (
+                <label
+                  key={user.id}
+                  className="flex items-center px-3 py-2 text-sm text-gray-800"
+                >
+                  <input
+                    type="checkbox"
+                    checked={formData.memberIds.includes(user.id)}
+                    onChange={() => toggleMember(user.id)}
+                    className="mr-3 rounded border-gray-300"
+                  />
+                  {[user.firstName, user.lastName].filter(Boolean).join(' ') ||
+                    user.email}
+                  <span className="ml-2 text-gray-500">{user.email}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Members need a connected calendar. Round robin takes turns in the
+              order members were added.
+            </p>
+          </div>
+
+          {saveMutation.error && (
+            <p className="text-sm text-red-600">{saveMutation.error.message}</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={
+                saveMutation.isPending ||
+                !formData.name.trim() ||
+                formData.memberIds.length < minMembers
+              }
+              className="px-4 py-2 text-sm font-medium text-white bg-[var(--color-primary-600)] border border-transparent rounded-md hover:bg-[var(--color-primary-700)] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveMutation.isPending
+                ? 'Saving...'
+                : pool
+                  ? 'Update'
+                  : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default function SchedulingPage() {
+  const { user } = useAuth()
+  const isAdmin = user?.tenants?.[0]?.role?.name === 'Admin'
+
+  const pools = useSchedulingPools()
+  const deleteMutation = useDeleteSchedulingPool()
+
+  // undefined = closed, null = creating
+  const [editingPool, setEditingPool] = useState<
+    SchedulingPool | null | undefined
+  >(undefined)
+
+  const handleDelete = async (pool: SchedulingPool) => {
+    if (
+      !confirm(
+        `Delete the pool "${pool.name}"? Booking links already sent for it will book the sender instead.`,
+      )
+    )
+      return
+    try {
+      await deleteMutation.mutateAsync(pool.id)
+    } catch (error) {
+      console.error('Error deleting scheduling pool:', error)
+    }
+  }
+
+  if (pools.error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-center">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+          <span className="text-red-700">Error loading scheduling pools</span>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <div className="flex items-center space-x-3 mb-2">
+          <div className="w-8 h-8 bg-gradient-to-br from-[var(--color-primary-400)] to-[var(--color-primary-600)] rounded-lg flex items-center justify-center shadow-md">
+            <CalendarClock className="h-4 w-4 text-white" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Team Scheduling</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Pools let a booking link offer a whole team's availability. Reps
+          choose a pool for their links in their profile's scheduling settings.
+        </p>
+      </div>
+
+      {pools.isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--color-primary-600)]"></div>
+        </div>
+      ) : (
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Pools</h3>
+            {isAdmin && (
+              <button
+                onClick={() => setEditingPool(null)}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-[var(--color-primary-600)] rounded-md hover:bg-[var(--color-primary-700)]"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Pool
+              </button>
+            )}
+          </div>
+
+          {pools.data?.length === 0 ? (
+            <p className="text-sm text-gray-500 bg-white border border-gray-200 rounded-lg p-6 text-center">
+              No pools yet.
+            </p>
+          ) : (
+            <div className="grid gap-3">
+              {pools.data?.map((pool) => (
+                <div
+                  key={pool.id}
+                  className="bg-white border border-gray-200 rounded-lg p-4"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <h4 className="font-semibold text-gray-900">
+                          {pool.name}
+                        </h4>
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          {MODE_LABELS[pool.mode]}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {pool.meetingDurationMinutes} minutes
+                        {pool.mode === 'round_robin' &&
+                          ` · ${STRATEGY_LABELS[pool.assignmentStrategy]}`}
+                      </p>
+                      <p className="text-sm text-gray-800 mt-2">
+                        {pool.members
+                          .map((member) => member.userName || member.userEmail)
+                          .join(', ')}
+                      </p>
+                    </div>
+                    {isAdmin && (
+                      <div className="flex items-center space-x-2 ml-4">
+                        <button
+                          onClick={() => setEditingPool(pool)}
+                          className="p-2 text-gray-400 hover:text-[var(--color-primary-600)] hover:bg-[var(--color-primary-50)] rounded-md"
+                          title="Edit pool"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(pool)}
+                          disabled={deleteMutation.isPending}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50"
+                          title="Delete pool"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
+      {editingPool !== undefined && (
+        <PoolModal
+          pool={editingPool}
+          onClose={() => setEditingPool(undefined)}
+        />
+      )}
+    </div>
+  )
+}
@@ -5,7 +5,9 @@ import {
   CreditCard,
   Building,
   Package,
+  FileText,
   Plug,
+  CalendarClock,
 } from 'lucide-react'
 import { useAuth } from '../../contexts/AuthContext'
 
@@ -30,6 +32,18 @@ const allNavigation: NavItem[] = [
     icon: Package,
     description: 'Manage products and sales messaging',
   },
+  {
+    name: 'Templates',
+    path: '/settings/templates',
+    icon: FileText,
+    description: 'Reusable emails, snippets and variables',
+  },
+  {
+    name: 'Team Scheduling',
+    path: '/settings/scheduling',
+    icon: CalendarClock,
+    description: 'Round-robin and collective booking pools',
+  },
   {
     name: 'Users',
     path: '/settings/users',
@@ -0,0 +1,613 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, Edit, FileText, Plus, Puzzle, Trash2 } from 'lucide-react'
+import {
+  useDeleteEmailSnippet,
+  useDeleteEmailTemplate,
+  useEmailSnippets,
+  useEmailTemplates,
+  useSaveEmailSnippet,
+  useSaveEmailTemplate,
+  useTemplateVariables,
+} from '../../hooks/useTemplatesQuery'
+import { useAuth } from '../../contexts/AuthContext'
+import AnimatedCheckbox from '../../components/AnimatedCheckbox'
+import type {
+  EmailSnippet,
+  EmailTemplate,
+} from '../../services/templates.service'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] focus:border-transparent'
+
+const emptyTemplate = {
+  name: '',
+  description: '',
+  subject: '',
+  body: '',
+  useAsExample: false,
+}
+
+const emptySnippet = { key: '', name: '', body: '' }
+
+interface TemplateModalProps {
+  template: EmailTemplate | null
+  onClose: () => void
+}
+
+function TemplateModal({ template, onClose }: TemplateModalProps) {
+  const saveMutation = useSaveEmailTemplate()
+  const [formData, setFormData] = useState(emptyTemplate)
+
+  useEffect(() => {
+    setFormData(
+      template
+        ? {
+            name: template.name,
+            description: template.description ?? '',
+            subject: template.subject ?? '',
+            body: template.body,
+            useAsExample: template.useAsExample,
+          }
+        : emptyTemplate,
+    )
+  }, [template])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await saveMutation.mutateAsync({ id: template?.id, input: formData })
+      onClose()
+    } catch (error) {
+      console.error('Error saving template:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 backdrop-blur bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-4/5 mx-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">
+          {template ? 'Edit Template' : 'Create Template'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="template-name"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Name *
+            </label>
+            <input
+              id="template-name"
+              type="text"
+              value={formData.name}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, name: e.target.value }))
+              }
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="template-description"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Description
+            </label>
+            <input
+              id="template-description"
+              type="text"
+              value={formData.description}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  description: e.target.value,
+                }))
+              }
+              className={inputClass}
+              placeholder="When to use this template"
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="template-subject"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Subject
+            </label>
+            <input
+              id="template-subject"
+              type="text"
+              value={formData.subject}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, subject: e.target.value }))
+              }
+              className={inputClass}
+              placeholder="Quick question about {{lead.name}}"
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="template-body"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Body *
+            </label>
+            <textarea
+              id="template-body"
+              value={formData.body}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, body: e.target.value }))
+              }
+              rows={10}
+              className={`${inputClass} font-mono text-sm`}
+              placeholder={
+                'Hi {{contact.firstName}},\n\n...\n\n{{snippet.signature}}'
+              }
+              required
+            />
+          </div>
+
+          <div>
+            <AnimatedCheckbox
+              checked={formData.useAsExample}
+              onChange={() =>
+                setFormData((prev) => ({
+                  ...prev,
+                  useAsExample: !prev.useAsExample,
+                }))
+              }
+              disabled={saveMutation.isPending}
+              label="Use as an AI example"
+              title="Show this template to the AI when it writes campaigns"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              The AI matches the tone and structure of up to three example
+              templates when writing new campaigns
+            </p>
+          </div>
+
+          {saveMutation.error && (
+            <p className="text-sm text-red-600">{saveMutation.error.message}</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={
+                saveMutation.isPending ||
+                !formData.name.trim() ||
+                !formData.body.trim()
+              }
+              className="px-4 py-2 text-sm font-medium text-white bg-[var(--color-primary-600)] border border-transparent rounded-md hover:bg-[var(--color-primary-700)] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveMutation.isPending
+                ? 'Saving...'
+                : template
+                  ? 'Update'
+                  : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+interface SnippetModalProps {
+  snippet: EmailSnippet | null
+  onClose: () => void
+}
+
+function SnippetModal({ snippet, onClose }: SnippetModalProps) {
+  const saveMutation = useSaveEmailSnippet()
+  const [formData, setFormData] = useState(emptySnippet)
+
+  useEffect(() => {
+    setFormData(
+      snippet
+        ? { key: snippet.key, name: snippet.name, body: snippet.body }
+        : emptySnippet,
+    )
+  }, [snippet])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await saveMutation.mutateAsync({ id: snippet?.id, input: formData })
+      onClose()
+    } catch (error) {
+      console.error('Error saving snippet:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 backdrop-blur bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">
+          {snippet ? 'Edit Snippet' : 'Create Snippet'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="snippet-name"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Name *
+              </label>
+              <input
+                id="snippet-name"
+                type="text"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, name: e.target.value }))
+                }
+                className={inputClass}
+                placeholder="Email signature"
+                required
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="snippet-key"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Key *
+              </label>
+              <input
+                id="snippet-key"
+                type="text"
+                value={formData.key}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    key: e.target.value.toLowerCase(),
+                  }))
+                }
+                className={`${inputClass} font-mono text-sm disabled:bg-gray-100`}
+                placeholder="signature"
+                disabled={!!snippet}
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Insert as <code>{`{{snippet.${formData.key || 'key'}}}`}</code>.
+                Keys can't be changed later.
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="snippet-body"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Body *
+            </label>
+            <textarea
+              id="snippet-body"
+              value={formData.body}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, body: e.target.value }))
+              }
+              rows={6}
+              className={`${inputClass} font-mono text-sm`}
+              placeholder={'Best,\n{{sender.name}}'}
+              required
+            />
+          </div>
+
+          {saveMutation.error && (
+            <p className="text-sm text-red-600">{saveMutation.error.message}</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={
+                saveMutation.isPending ||
+                !formData.key.trim() ||
+                !formData.name.trim() ||
+                !formData.body.trim()
+              }
+              className="px-4 py-2 text-sm font-medium text-white bg-[var(--color-primary-600)] border border-transparent rounded-md hover:bg-[var(--color-primary-700)] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveMutation.isPending
+                ? 'Saving...'
+                : snippet
+                  ? 'Update'
+                  : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default function TemplatesPage() {
+  const { user } = useAuth()
+  const isAdmin = user?.tenants?.[0]?.role?.name === 'Admin'
+
+  const templates = useEmailTemplates()
+  const snippets = useEmailSnippets()
+  const { data: variables } = useTemplateVariables()
+  const deleteTemplateMutation = useDeleteEmailTemplate()
+  const deleteSnippetMutation = useDeleteEmailSnippet()
+
+  // undefined = closed, null = creating
+  const [editingTemplate, setEditingTemplate] = useState<
+    EmailTemplate | null | undefined
+  >(undefined)
+  const [editingSnippet, setEditingSnippet] = useState<
+    EmailSnippet | null | undefined
+  >(undefined)
+
+  const handleDeleteTemplate = async (template: EmailTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return
+    try {
+      await deleteTemplateMutation.mutateAsync(template.id)
+    } catch (error) {
+      console.error('Error deleting template:', error)
+    }
+  }
+
+  const handleDeleteSnippet = async (snippet: EmailSnippet) => {
+    if (
+      !confirm(
+        `Delete the snippet "${snippet.name}"? Scheduled messages that use it will not send.`,
+      )
+    )
+      return
+    try {
+      await deleteSnippetMutation.mutateAsync(snippet.id)
+    } catch (error) {
+      console.error('Error deleting snippet:', error)
+    }
+  }
+
+  if (templates.error || snippets.error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-center">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+          <span className="text-red-700">Error loading templates</span>
+        </div>
+      </div>
+    )
+  }
+
+  const isLoading = templates.isLoading || snippets.isLoading
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <div className="flex items-center space-x-3 mb-2">
+          <div className="w-8 h-8 bg-gradient-to-br from-[var(--color-primary-400)] to-[var(--color-primary-600)] rounded-lg flex items-center justify-center shadow-md">
+            <FileText className="h-4 w-4 text-white" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Templates</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Reusable emails and snippets your team can insert into campaigns.
+          Variables are filled in for each contact when the message is sent.
+        </p>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--color-primary-600)]"></div>
+        </div>
+      )}
+
+      {!isLoading && (
+        <>
+          {/* Templates */}
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Email templates
+              </h3>
+              {isAdmin && (
+                <button
+                  onClick={() => setEditingTemplate(null)}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-[var(--color-primary-600)] rounded-md hover:bg-[var(--color-primary-700)]"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Template
+                </button>
+              )}
+            </div>
+
+            {templates.data?.length === 0 ? (
+              <p className="text-sm text-gray-500 bg-white border border-gray-200 rounded-lg p-6 text-center">
+                No templates yet.
+              </p>
+            ) : (
+              <div className="grid gap-3">
+                {templates.data?.map((template) => (
+                  <div
+                    key={template.id}
+                    className="bg-white border border-gray-200 rounded-lg p-4"
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <h4 className="font-semibold text-gray-900">
+                            {template.name}
+                          </h4>
+                          {template.useAsExample && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                              AI example
+                            </span>
+                          )}
+                        </div>
+                        {template.description && (
+                          <p className="text-sm text-gray-600 mt-1">
+                            {template.description}
+                          </p>
+                        )}
+                        {template.subject && (
+                          <p className="text-sm text-gray-800 mt-2">
+                            <span className="text-gray-500">Subject:</span>{' '}
+                            {template.subject}
+                          </p>
+                        )}
+                        <p className="text-sm text-gray-600 mt-1 whitespace-pre-line line-clamp-3">
+                          {template.body}
+                        </p>
+                      </div>
+                      {isAdmin && (
+                        <div className="flex items-center space-x-2 ml-4">
+                          <button
+                            onClick={() => setEditingTemplate(template)}
+                            className="p-2 text-gray-400 hover:text-[var(--color-primary-600)] hover:bg-[var(--color-primary-50)] rounded-md"
+                            title="Edit template"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteTemplate(template)}
+                            disabled={deleteTemplateMutation.isPending}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50"
+                            title="Delete template"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Snippets */}
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Snippets</h3>
+              {isAdmin && (
+                <button
+                  onClick={() => setEditingSnippet(null)}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-[var(--color-primary-600)] rounded-md hover:bg-[var(--color-primary-700)]"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Snippet
+                </button>
+              )}
+            </div>
+
+            {snippets.data?.length === 0 ? (
+              <p className="text-sm text-gray-500 bg-white border border-gray-200 rounded-lg p-6 text-center">
+                No snippets yet. Add a signature, case study blurb or call to
+                action to reuse across emails.
+              </p>
+            ) : (
+              <div className="grid gap-3 md:grid-cols-2">
+                {snippets.data?.map((snippet) => (
+                  <div
+                    key={snippet.id}
+                    className="bg-white border border-gray-200 rounded-lg p-4"
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <Puzzle className="h-4 w-4 text-gray-400" />
+                          <h4 className="font-semibold text-gray-900">
+                            {snippet.name}
+                          </h4>
+                        </div>
+                        <code className="text-xs text-[var(--color-primary-700)]">
+                          {`{{snippet.${snippet.key}}}`}
+                        </code>
+                        <p className="text-sm text-gray-600 mt-2 whitespace-pre-line line-clamp-4">
+                          {snippet.body}
+                        </p>
+                      </div>
+                      {isAdmin && (
+                        <div className="flex items-center space-x-2 ml-4">
+                          <button
+                            onClick={() => setEditingSnippet(snippet)}
+                            className="p-2 text-gray-400 hover:text-[var(--color-primary-600)] hover:bg-[var(--color-primary-50)] rounded-md"
+                            title="Edit snippet"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteSnippet(snippet)}
+                            disabled={deleteSnippetMutation.isPending}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50"
+                            title="Delete snippet"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Variables reference */}
+          {variables && (
+            <section className="bg-white border border-gray-200 rounded-lg p-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                Available variables
+              </h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Messages that use any other variable, or whose variables have no
+                value for a contact, are held back instead of sent.
+              </p>
+              <dl className="grid gap-x-6 gap-y-1 md:grid-cols-2 text-sm">
+                {variables.map((variable) => (
+                  <div key={variable.name} className="flex space-x-2">
+                    <dt>
+                      <code className="text-[var(--color-primary-700)]">{`{{${variable.name}}}`}</code>
+                    </dt>
+                    <dd className="text-gray-600">{variable.description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          )}
+        </>
+      )}
+
+      {editingTemplate !== undefined && (
+        <TemplateModal
+          template={editingTemplate}
+          onClose={() => setEditingTemplate(undefined)}
+        />
+      )}
+      {editingSnippet !== undefined && (
+        <SnippetModal
+          snippet={editingSnippet}
+          onClose={() => setEditingSnippet(undefined)}
+        />
+      )}
+    </div>
+  )
+}
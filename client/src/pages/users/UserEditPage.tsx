@@ -8,6 +8,9 @@ import { DEFAULT_CALENDAR_TIE_IN } from '../../constants/user.constants'
 import TestEmailComponent from '../../components/TestEmailComponent'
 import EmailProvider from '../../components/EmailProvider'
 import SchedulingSettingsCard from '../../components/SchedulingSettingsCard'
+import MeetingTypesCard from '../../components/MeetingTypesCard'
+import CalendarsCard from '../../components/CalendarsCard'
+import BookedMeetingsCard from '../../components/BookedMeetingsCard'
 
 export default function UserEditPage() {
   const params = useParams({ strict: false }) as { userId?: string }
@@ -247,6 +250,12 @@ export default function UserEditPage() {
 
         {!isAdminMode && <SchedulingSettingsCard />}
 
+        {!isAdminMode && <CalendarsCard />}
+
+        {!isAdminMode && <MeetingTypesCard />}
+
+        {!isAdminMode && <BookedMeetingsCard />}
+
         {/* Test Email Card - only show for non-admin mode */}
         {!isAdminMode && (
           <TestEmailComponent
@@ -9,6 +9,9 @@ import { TanStackRouterDevtools } from '@tanstack/react-router-devtools'
 
 // Import components and pages
 import Dashboard from './pages/Dashboard'
+import TasksPage from './pages/TasksPage'
+import ReportsPage from './pages/ReportsPage'
+import ReviewQueuePage from './pages/ReviewQueuePage'
 import Header from './components/Header'
 import { AuthGuard, PublicOnlyGuard } from './components/AuthGuard'
 import Login from './pages/auth/Login'
@@ -26,6 +29,8 @@ import SecurityPage from './pages/settings/SecurityPage'
 import BillingPage from './pages/settings/BillingPage'
 import OrganizationPage from './pages/settings/OrganizationPage'
 import ProductsPage from './pages/settings/ProductsPage'
+import TemplatesPage from './pages/settings/TemplatesPage'
+import SchedulingPage from './pages/settings/SchedulingPage'
 import IntegrationsPage from './pages/settings/IntegrationsPage'
 import PrivacyPolicyPage from './pages/legal/PrivacyPolicyPage'
 import TermsOfServicePage from './pages/legal/TermsOfServicePage'
@@ -33,12 +38,18 @@ import NotFoundPage from './pages/NotFoundPage'
 import UserEditPage from './pages/users/UserEditPage'
 import UnsubscribePage from './pages/UnsubscribePage'
 import ScheduleBookingPage from './pages/ScheduleBookingPage'
+import ManageMeetingPage from './pages/ManageMeetingPage'
 
 // Import layout components
 import TanStackQueryLayout from './integrations/tanstack-query/layout'
 import * as TanStackQueryProvider from './integrations/tanstack-query/root-provider'
 import { AuthDebugMenu } from './components/AuthDebugMenu'
-import { LEADS_URL } from './constants/navigation'
+import {
+  LEADS_URL,
+  REPORTS_URL,
+  REVIEW_URL,
+  TASKS_URL,
+} from './constants/navigation'
 
 // Root route with header
 const rootRoute = createRootRoute({
@@ -123,6 +134,15 @@ const scheduleBookingRoute = createRoute({
   component: () => <ScheduleBookingPage />,
 })
 
+const manageMeetingRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/schedule/manage/$token',
+  component: () => <ManageMeetingPage />,
+  validateSearch: (search: Record<string, unknown>) => ({
+    action: search.action as 'reschedule' | 'cancel' | undefined,
+  }),
+})
+
 // Protected index route - redirect to dashboard
 const protectedIndexRoute = createRoute({
   getParentRoute: () => protectedRoute,
@@ -137,6 +157,24 @@ const dashboardRoute = createRoute({
   component: () => <Dashboard />,
 })
 
+const tasksRoute = createRoute({
+  getParentRoute: () => protectedRoute,
+  path: TASKS_URL,
+  component: () => <TasksPage />,
+})
+
+const reportsRoute = createRoute({
+  getParentRoute: () => protectedRoute,
+  path: REPORTS_URL,
+  component: () => <ReportsPage />,
+})
+
+const reviewRoute = createRoute({
+  getParentRoute: () => protectedRoute,
+  path: REVIEW_URL,
+  component: () => <ReviewQueuePage />,
+})
+
 const profileRoute = createRoute({
   getParentRoute: () => protectedRoute,
   path: '/profile',
@@ -235,6 +273,18 @@ const settingsProductsRoute = createRoute({
   component: () => <ProductsPage />,
 })
 
+const settingsTemplatesRoute = createRoute({
+  getParentRoute: () => settingsRoute,
+  path: '/templates',
+  component: () => <TemplatesPage />,
+})
+
+const settingsSchedulingRoute = createRoute({
+  getParentRoute: () => settingsRoute,
+  path: '/scheduling',
+  component: () => <SchedulingPage />,
+})
+
 const settingsIntegrationsRoute = createRoute({
   getParentRoute: () => settingsRoute,
   path: '/integrations',
@@ -257,12 +307,17 @@ const settingsRouteTree = settingsRoute.addChildren([
   settingsBillingRoute,
   settingsOrganizationRoute,
   settingsProductsRoute,
+  settingsTemplatesRoute,
+  settingsSchedulingRoute,
   settingsIntegrationsRoute,
 ])
 
 const protectedRouteTree = protectedRoute.addChildren([
   protectedIndexRoute,
   dashboardRoute,
+  tasksRoute,
+  reportsRoute,
+  reviewRoute,
   profileRoute,
   leadsRoute,
   newLeadRoute,
@@ -284,6 +339,7 @@ const routeTree = rootRoute.addChildren([
   termsOfServiceRoute,
   unsubscribeSuccessRoute,
   scheduleBookingRoute,
+  manageMeetingRoute,
   protectedRouteTree,
   authRouteTree,
   notFoundRoute,
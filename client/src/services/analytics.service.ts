@@ -0,0 +1,196 @@
+import { authService } from './auth.service'
+import type { AbTestMetric } from '../utils/campaignPlanSchema'
+
+export type AnalyticsBreakdown =
+  | 'campaigns'
+  | 'steps'
+  | 'products'
+  | 'senders'
+  | 'plan-types'
+
+export interface AnalyticsParams {
+  from?: string
+  to?: string
+  channel?: 'email' | 'sms'
+  campaignId?: string
+}
+
+export interface FunnelMetrics {
+  sent: number
+  delivered: number
+  opened: number
+  clicked: number
+  replied: number
+  bounced: number
+  calendarClicks: number
+  meetings: number
+  deliveryRate: number
+  openRate: number
+  clickRate: number
+  replyRate: number
+  meetingRate: number
+}
+
+export interface AnalyticsRow extends FunnelMetrics {
+  key: string
+  label: string
+}
+
+export interface AnalyticsRange {
+  from: string
+  to: string
+}
+
+export interface AnalyticsSummary {
+  range: AnalyticsRange
+  totals: FunnelMetrics
+  daily: Array<{
+    date: string
+    sent: number
+    opened: number
+    clicked: number
+    replied: number
+  }>
+}
+
+export interface AnalyticsBreakdownResponse {
+  range: AnalyticsRange
+  rows: AnalyticsRow[]
+}
+
+export interface AbTestVariant extends FunnelMetrics {
+  variantId: string
+  metricRate: number
+  pValue: number | null
+  significant: boolean
+  isLeader: boolean
+}
+
+export interface AbTestWinner {
+  variantId: string
+  metric: string
+  promotedBy: string | null
+  promotedAt: string
+}
+
+export interface AbTest {
+  testKey: string
+  stepKey: string
+  metric: AbTestMetric
+  totalSent: number
+  leaderVariantId: string | null
+  significant: boolean
+  winner: AbTestWinner | null
+  variants: AbTestVariant[]
+}
+
+export interface AbTestsResponse {
+  range: AnalyticsRange
+  tests: AbTest[]
+}
+
+export const analyticsQueryKeys = {
+  all: ['analytics'] as const,
+  summary: (params: AnalyticsParams) =>
+    [...analyticsQueryKeys.all, 'summary', params] as const,
+  breakdown: (breakdown: AnalyticsBreakdown, params: AnalyticsParams) =>
+    [...analyticsQueryKeys.all, breakdown, params] as const,
+  abTests: (params: AnalyticsParams, metric: AbTestMetric) =>
+    [...analyticsQueryKeys.all, 'ab-tests', params, metric] as const,
+}
+
+class AnalyticsService {
+  private baseUrl = import.meta.env.VITE_API_BASE_URL + '/api'
+
+  async getSummary(params: AnalyticsParams): Promise<AnalyticsSummary> {
+    return this.get('summary', params, 'Failed to fetch campaign analytics')
+  }
+
+  async getBreakdown(
+    breakdown: AnalyticsBreakdown,
+    params: AnalyticsParams,
+  ): Promise<AnalyticsBreakdownResponse> {
+    return this.get(breakdown, params, 'Failed to fetch campaign analytics')
+  }
+
+  async getAbTests(
+    params: AnalyticsParams,
+    metric: AbTestMetric,
+  ): Promise<AbTestsResponse> {
+    return this.get(
+      'ab-tests',
+      { ...params, metric },
+      'Failed to fetch A/B test results',
+    )
+  }
+
+  async promoteWinner(
+    testKey: string,
+    variantId: string,
+    metric: AbTestMetric,
+  ): Promise<AbTestWinner> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/analytics/ab-tests/${encodeURIComponent(testKey)}/winner`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+        body: JSON.stringify({ variantId, metric }),
+      },
+    )
+    return this.parseResponse(response, 'Failed to promote variant')
+  }
+
+  async clearWinner(testKey: string): Promise<void> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/analytics/ab-tests/${encodeURIComponent(testKey)}/winner`,
+      { method: 'DELETE', headers: authHeaders },
+    )
+    await this.parseResponse(response, 'Failed to clear winner')
+  }
+
+  private async get<T>(
+    path: string,
+    params: AnalyticsParams & { metric?: AbTestMetric },
+    fallbackMessage: string,
+  ): Promise<T> {
+    const authHeaders = await authService.getAuthHeaders()
+    const url = new URL(`${this.baseUrl}/analytics/${path}`)
+    for (const [key, value] of Object.entries(params)) {
+      if (value) url.searchParams.set(key, value)
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+    })
+    return this.parseResponse(response, fallbackMessage)
+  }
+
+  private async parseResponse<T>(
+    response: Response,
+    fallbackMessage: string,
+  ): Promise<T> {
+    if (!response.ok) {
+      let message = fallbackMessage
+      try {
+        const body = await response.json()
+        message = body.message || body.error || message
+      } catch {
+        message = `${fallbackMessage}: ${response.statusText}`
+      }
+      throw new Error(message)
+    }
+
+    if (response.status === 204) return undefined as T
+    return response.json()
+  }
+}
+
+export const analyticsService = new AnalyticsService()
@@ -0,0 +1,111 @@
+import { authService } from './auth.service'
+
+export type CampaignControlScope = 'campaign' | 'lead' | 'owner' | 'tenant'
+export type CampaignControlAction = 'pause' | 'resume' | 'stop'
+
+export interface LeadCampaign {
+  id: string
+  contactId: string
+  contactName: string
+  contactEmail: string | null
+  status: string
+  currentNodeId: string | null
+  startedAt: string | null
+  pausedAt: string | null
+  completedAt: string | null
+  updatedAt: string
+}
+
+export interface CampaignTransition {
+  id: string
+  campaignId: string
+  contactId: string
+  contactName: string
+  fromStatus: string | null
+  toStatus: string
+  reason: string | null
+  createdBy: string | null
+  createdByName: string | null
+  occurredAt: string
+}
+
+export interface CampaignControlRequest {
+  scope: CampaignControlScope
+  id?: string
+  reason?: string
+}
+
+export interface CampaignControlResult {
+  updated: string[]
+  skipped: Array<{ id: string; reason: string }>
+}
+
+export const campaignsQueryKeys = {
+  all: ['campaigns'] as const,
+  lead: (leadId: string) =>
+    [...campaignsQueryKeys.all, 'lead', leadId] as const,
+  transitions: (leadId: string) =>
+    [...campaignsQueryKeys.all, 'transitions', leadId] as const,
+}
+
+class CampaignsService {
+  private baseUrl = import.meta.env.VITE_API_BASE_URL + '/api'
+
+  getLeadCampaigns(leadId: string): Promise<LeadCampaign[]> {
+    return this.request(
+      `/campaigns?leadId=${encodeURIComponent(leadId)}`,
+      'Failed to fetch campaigns',
+    )
+  }
+
+  getLeadTransitions(leadId: string): Promise<CampaignTransition[]> {
+    return this.request(
+      `/campaigns/transitions?leadId=${encodeURIComponent(leadId)}`,
+      'Failed to fetch campaign history',
+    )
+  }
+
+  control(
+    action: CampaignControlAction,
+    target: CampaignControlRequest,
+  ): Promise<CampaignControlResult> {
+    return this.request(
+      `/campaigns/${action}`,
+      `Failed to ${action} campaigns`,
+      {
+        method: 'POST',
+        body: JSON.stringify(target),
+      },
+    )
+  }
+
+  private async request<T>(
+    path: string,
+    fallbackMessage: string,
+    init: RequestInit = {},
+  ): Promise<T> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...authHeaders,
+      },
+    })
+
+    if (!response.ok) {
+      let message = fallbackMessage
+      try {
+        const body = await response.json()
+        message = body.message || body.error || message
+      } catch {
+        message = `${fallbackMessage}: ${response.statusText}`
+      }
+      throw new Error(message)
+    }
+
+    return response.json()
+  }
+}
+
+export const campaignsService = new CampaignsService()
@@ -0,0 +1,143 @@
+import { authService } from './auth.service'
+
+export type PipelineStageKind = 'open' | 'won' | 'lost'
+export type PipelineEvent = 'message_sent' | 'reply_received' | 'meeting_booked'
+
+export interface PipelineStage {
+  id: string
+  name: string
+  position: number
+  kind: PipelineStageKind
+  autoAdvanceOn: PipelineEvent[]
+}
+
+export interface PipelineLead {
+  id: string
+  name: string
+  url: string
+  ownerId: string | null
+  ownerName: string | null
+  pipelineStageId: string | null
+  dealValue: number | null
+  expectedCloseDate: string | null
+  stageChangedAt: string | null
+  createdAt: string
+}
+
+export interface PipelineBoardColumn {
+  stage: PipelineStage
+  leads: PipelineLead[]
+  totalValue: number
+}
+
+export interface LeadDealUpdate {
+  stageId?: string
+  dealValue?: number | null
+  expectedCloseDate?: string | null
+}
+
+export interface LeadStageChange {
+  id: string
+  fromStageId: string | null
+  toStageId: string | null
+  fromStageName: string | null
+  toStageName: string
+  source: 'manual' | PipelineEvent
+  changedBy: string | null
+  createdAt: string
+}
+
+export const pipelineQueryKeys = {
+  all: ['pipeline'] as const,
+  stages: () => [...pipelineQueryKeys.all, 'stages'] as const,
+  board: (ownerId?: string) =>
+    [...pipelineQueryKeys.all, 'board', ownerId ?? 'all'] as const,
+  history: (leadId: string) =>
+    [...pipelineQueryKeys.all, 'history', leadId] as const,
+}
+
+class PipelineService {
+  private baseUrl = import.meta.env.VITE_API_BASE_URL + '/api'
+
+  async getStages(): Promise<PipelineStage[]> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}/pipeline/stages`, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+    })
+
+    return this.parseResponse(response, 'Failed to fetch pipeline stages')
+  }
+
+  async getBoard(ownerId?: string): Promise<PipelineBoardColumn[]> {
+    const authHeaders = await authService.getAuthHeaders()
+    const url = new URL(`${this.baseUrl}/pipeline/board`)
+    if (ownerId) url.searchParams.set('ownerId', ownerId)
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+    })
+
+    return this.parseResponse(response, 'Failed to fetch pipeline')
+  }
+
+  async updateLeadDeal(
+    leadId: string,
+    update: LeadDealUpdate,
+  ): Promise<PipelineLead> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/pipeline/leads/${encodeURIComponent(leadId)}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+        body: JSON.stringify(update),
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to update deal')
+  }
+
+  async getStageHistory(leadId: string): Promise<LeadStageChange[]> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/pipeline/leads/${encodeURIComponent(leadId)}/history`,
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to fetch stage history')
+  }
+
+  private async parseResponse<T>(
+    response: Response,
+    fallbackMessage: string,
+  ): Promise<T> {
+    if (!response.ok) {
+      let message = fallbackMessage
+      try {
+        const body = await response.json()
+        message = body.message || body.error || message
+      } catch {
+        message = `${fallbackMessage}: ${response.statusText}`
+      }
+      throw new Error(message)
+    }
+
+    return response.json()
+  }
+}
+
+export const pipelineService = new PipelineService()
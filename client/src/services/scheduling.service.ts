@@ -29,16 +29,134 @@ export interface SchedulingSettings {
   minNoticeMinutes: number
   bookingHorizonDays: number
   respectFreeBusy: boolean
+  bookingPoolId: string | null
+  remindersEnabled: boolean
+  noShowFollowUp: NoShowFollowUp
+}
+
+export interface NoShowFollowUpStep {
+  delayHours: number // After the missed meeting, or after the previous email
+  subject: string
+  body: string
+}
+
+export interface NoShowFollowUp {
+  enabled: boolean
+  steps: NoShowFollowUpStep[]
 }
 
 export type SchedulingSettingsUpdate = Partial<
   Omit<SchedulingSettings, 'id' | 'tenantId' | 'userId'>
 >
 
+export type SchedulingPoolMode = 'round_robin' | 'collective'
+
+export type PoolAssignmentStrategy =
+  | 'round_robin'
+  | 'least_recently_booked'
+  | 'owner_first'
+
+export interface SchedulingPool {
+  id: string
+  name: string
+  mode: SchedulingPoolMode
+  assignmentStrategy: PoolAssignmentStrategy
+  meetingDurationMinutes: number
+  members: Array<{
+    userId: string
+    userName: string | null
+    userEmail: string
+    position: number
+  }>
+}
+
+export interface SchedulingPoolInput {
+  name: string
+  mode: SchedulingPoolMode
+  assignmentStrategy: PoolAssignmentStrategy
+  meetingDurationMinutes: number
+  memberIds: string[]
+}
+
+export type MeetingLocationType = 'video' | 'phone' | 'in_person' | 'custom'
+
+export interface MeetingTypeQuestion {
+  id: string
+  label: string
+  type: 'text' | 'long_text'
+  required: boolean
+}
+
+export interface MeetingType {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  durationMinutes: number
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
+  locationType: MeetingLocationType
+  location: string | null
+  questions: MeetingTypeQuestion[]
+  isActive: boolean
+}
+
+export type MeetingTypeInput = Omit<MeetingType, 'id'>
+
+export interface CalendarConnection {
+  id: string
+  provider: string
+  providerCalendarId: string
+  displayName: string | null
+  primaryEmail: string | null
+  checkForConflicts: boolean
+  isBookingCalendar: boolean
+  reauthRequired: boolean
+}
+
+export interface AccountCalendar {
+  id: string
+  name: string
+  isPrimary: boolean
+  canWrite: boolean
+  connectionId: string | null
+}
+
+export interface CalendarConnectionUpdate {
+  checkForConflicts?: boolean
+  isBookingCalendar?: boolean
+}
+
+export type MeetingOutcome = 'held' | 'no_show'
+
+export interface BookedMeeting {
+  id: string
+  status: 'confirmed' | 'canceled' | MeetingOutcome
+  startTime: string
+  endTime: string
+  leadId: string | null
+  contactId: string | null
+  contactName?: string
+  contactEmail?: string
+}
+
+export interface MeetingOutcomeResult {
+  meeting: BookedMeeting
+  followUpStarted: boolean
+}
+
 export interface PublicBookingContext {
   tokenId: string
   timezone: string
   meetingDurationMinutes: number
+  teamName?: string
+  meetingType?: {
+    name: string
+    description?: string
+    locationType: MeetingLocationType
+    location?: string
+    questions: MeetingTypeQuestion[]
+  }
   lead: {
     id: string
     name: string
@@ -69,13 +187,39 @@ export interface ScheduleConfirmResponse {
   calendarEventLink?: string
 }
 
+export interface ManagedMeeting {
+  meetingId: string
+  status: string
+  startTime: string
+  endTime: string
+  timezone: string
+  contactName?: string
+}
+
 export const schedulingQueryKeys = {
   all: ['scheduling'] as const,
   settings: () => [...schedulingQueryKeys.all, 'settings'] as const,
+  pools: () => [...schedulingQueryKeys.all, 'pools'] as const,
+  meetingTypes: () => [...schedulingQueryKeys.all, 'meeting-types'] as const,
+  calendars: () => [...schedulingQueryKeys.all, 'calendars'] as const,
+  bookedMeetings: () =>
+    [...schedulingQueryKeys.all, 'booked-meetings'] as const,
+  accountCalendars: (connectionId: string) =>
+    [...schedulingQueryKeys.all, 'account-calendars', connectionId] as const,
   publicContext: (token: string) =>
     [...schedulingQueryKeys.all, 'public-context', token] as const,
   availability: (token: string, start: string, end: string) =>
     [...schedulingQueryKeys.all, 'availability', token, start, end] as const,
+  meeting: (token: string) =>
+    [...schedulingQueryKeys.all, 'meeting', token] as const,
+  meetingAvailability: (token: string, start: string, end: string) =>
+    [
+      ...schedulingQueryKeys.all,
+      'meeting-availability',
+      token,
+      start,
+      end,
+    ] as const,
 }
 
 class SchedulingService {
@@ -121,6 +265,212 @@ class SchedulingService {
     return settings
   }
 
+  async getMeetingTypes(): Promise<MeetingType[]> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}/schedule/meeting-types`, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+    })
+
+    return this.parseResponse(response, 'Failed to fetch meeting types')
+  }
+
+  async saveMeetingType(
+    input: MeetingTypeInput,
+    meetingTypeId?: string,
+  ): Promise<MeetingType> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      meetingTypeId
+        ? `${this.baseUrl}/schedule/meeting-types/${meetingTypeId}`
+        : `${this.baseUrl}/schedule/meeting-types`,
+      {
+        method: meetingTypeId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+        body: JSON.stringify(input),
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to save meeting type')
+  }
+
+  async deleteMeetingType(meetingTypeId: string): Promise<void> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/schedule/meeting-types/${meetingTypeId}`,
+      {
+        method: 'DELETE',
+        headers: authHeaders,
+      },
+    )
+
+    if (!response.ok) {
+      await this.parseResponse(response, 'Failed to delete meeting type')
+    }
+  }
+
+  async getCalendars(): Promise<CalendarConnection[]> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}/schedule/calendars`, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+    })
+
+    return this.parseResponse(response, 'Failed to fetch calendars')
+  }
+
+  async getAccountCalendars(connectionId: string): Promise<AccountCalendar[]> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/schedule/calendars/${connectionId}/account-calendars`,
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to fetch account calendars')
+  }
+
+  async addCalendar(
+    connectionId: string,
+    providerCalendarId: string,
+  ): Promise<CalendarConnection> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}/schedule/calendars`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+      body: JSON.stringify({ connectionId, providerCalendarId }),
+    })
+
+    return this.parseResponse(response, 'Failed to add calendar')
+  }
+
+  async updateCalendar(
+    connectionId: string,
+    update: CalendarConnectionUpdate,
+  ): Promise<CalendarConnection> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/schedule/calendars/${connectionId}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+        body: JSON.stringify(update),
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to update calendar')
+  }
+
+  async removeCalendar(connectionId: string): Promise<void> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/schedule/calendars/${connectionId}`,
+      {
+        method: 'DELETE',
+        headers: authHeaders,
+      },
+    )
+
+    if (!response.ok) {
+      await this.parseResponse(response, 'Failed to remove calendar')
+    }
+  }
+
+  async getBookedMeetings(): Promise<BookedMeeting[]> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}/schedule/booked-meetings`, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+    })
+
+    return this.parseResponse(response, 'Failed to fetch meetings')
+  }
+
+  async recordMeetingOutcome(
+    meetingId: string,
+    outcome: MeetingOutcome,
+  ): Promise<MeetingOutcomeResult> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/schedule/booked-meetings/${meetingId}/outcome`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+        body: JSON.stringify({ outcome }),
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to update meeting')
+  }
+
+  async getPools(): Promise<SchedulingPool[]> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}/schedule/pools`, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+    })
+
+    return this.parseResponse(response, 'Failed to fetch scheduling pools')
+  }
+
+  async savePool(
+    input: SchedulingPoolInput,
+    poolId?: string,
+  ): Promise<SchedulingPool> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      poolId
+        ? `${this.baseUrl}/schedule/pools/${poolId}`
+        : `${this.baseUrl}/schedule/pools`,
+      {
+        method: poolId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+        body: JSON.stringify(input),
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to save scheduling pool')
+  }
+
+  async deletePool(poolId: string): Promise<void> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}/schedule/pools/${poolId}`, {
+      method: 'DELETE',
+      headers: authHeaders,
+    })
+
+    if (!response.ok) {
+      await this.parseResponse(response, 'Failed to delete scheduling pool')
+    }
+  }
+
   async getPublicBookingContext(token: string): Promise<PublicBookingContext> {
     const response = await fetch(
       `${this.baseUrl}/schedule/public/${encodeURIComponent(token)}`,
@@ -169,7 +519,12 @@ class SchedulingService {
     token: string
     holdId: string
     slot: string
-    contactDetails: { name: string; email: string; phone?: string }
+    contactDetails: {
+      name: string
+      email: string
+      phone?: string
+      answers?: Record<string, string>
+    }
   }): Promise<ScheduleConfirmResponse> {
     const response = await fetch(`${this.baseUrl}/schedule/confirm`, {
       method: 'POST',
@@ -182,6 +537,72 @@ class SchedulingService {
     return this.parseResponse(response, 'Failed to confirm booking')
   }
 
+  async getManagedMeeting(token: string): Promise<ManagedMeeting> {
+    const response = await fetch(
+      `${this.baseUrl}/schedule/meetings/${encodeURIComponent(token)}`,
+      {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to load meeting')
+  }
+
+  async getRescheduleAvailability(
+    token: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<AvailabilityResponse> {
+    const url = new URL(
+      `${this.baseUrl}/schedule/meetings/${encodeURIComponent(token)}/availability`,
+    )
+    url.searchParams.set('startDate', startDate)
+    url.searchParams.set('endDate', endDate)
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+
+    return this.parseResponse(response, 'Failed to load availability')
+  }
+
+  async rescheduleMeeting(
+    token: string,
+    slot: string,
+  ): Promise<ManagedMeeting> {
+    const response = await fetch(
+      `${this.baseUrl}/schedule/meetings/${encodeURIComponent(token)}/reschedule`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ slot }),
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to reschedule meeting')
+  }
+
+  async cancelMeeting(token: string, reason?: string): Promise<ManagedMeeting> {
+    const response = await fetch(
+      `${this.baseUrl}/schedule/meetings/${encodeURIComponent(token)}/cancel`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason }),
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to cancel meeting')
+  }
+
   private async parseResponse<T>(
     response: Response,
     fallbackMessage: string,
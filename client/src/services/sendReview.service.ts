@@ -0,0 +1,125 @@
+import { authService } from './auth.service'
+
+export type SendReviewPolicy = 'off' | 'all' | 'first_step'
+
+export interface ReviewMessage {
+  id: string
+  campaignId: string
+  contactId: string
+  channel: string
+  nodeId: string | null
+  variantId: string | null
+  state: string
+  content: {
+    subject?: string
+    body?: string
+    to?: string
+    toName?: string
+  }
+  contactName: string
+  contactEmail: string | null
+  contactTitle: string | null
+  leadId: string
+  leadName: string
+  ownerId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ReviewActionResult {
+  updated: string[]
+  skipped: Array<{ id: string; reason: string }>
+}
+
+export const sendReviewQueryKeys = {
+  all: ['sendReview'] as const,
+  policy: () => [...sendReviewQueryKeys.all, 'policy'] as const,
+  messages: (ownerId?: string) =>
+    [...sendReviewQueryKeys.all, 'messages', ownerId ?? 'all'] as const,
+}
+
+class SendReviewService {
+  private baseUrl = import.meta.env.VITE_API_BASE_URL + '/api'
+
+  async getPolicy(): Promise<SendReviewPolicy> {
+    const { policy } = await this.request<{ policy: SendReviewPolicy }>(
+      '/send-review/policy',
+      'Failed to fetch review policy',
+    )
+    return policy
+  }
+
+  async setPolicy(policy: SendReviewPolicy): Promise<SendReviewPolicy> {
+    const result = await this.request<{ policy: SendReviewPolicy }>(
+      '/send-review/policy',
+      'Failed to update review policy',
+      { method: 'PUT', body: JSON.stringify({ policy }) },
+    )
+    return result.policy
+  }
+
+  getMessages(ownerId?: string): Promise<ReviewMessage[]> {
+    const query = ownerId ? `?ownerId=${encodeURIComponent(ownerId)}` : ''
+    return this.request(
+      `/send-review/messages${query}`,
+      'Failed to fetch messages for review',
+    )
+  }
+
+  updateMessage(
+    messageId: string,
+    content: { subject?: string; body: string },
+  ): Promise<ReviewMessage> {
+    return this.request(
+      `/send-review/messages/${encodeURIComponent(messageId)}`,
+      'Failed to save message',
+      { method: 'PUT', body: JSON.stringify(content) },
+    )
+  }
+
+  approve(messageIds: string[]): Promise<ReviewActionResult> {
+    return this.request(
+      '/send-review/messages/approve',
+      'Failed to approve messages',
+      { method: 'POST', body: JSON.stringify({ messageIds }) },
+    )
+  }
+
+  reject(messageIds: string[], reason?: string): Promise<ReviewActionResult> {
+    return this.request(
+      '/send-review/messages/reject',
+      'Failed to reject messages',
+      { method: 'POST', body: JSON.stringify({ messageIds, reason }) },
+    )
+  }
+
+  private async request<T>(
+    path: string,
+    fallbackMessage: string,
+    init: RequestInit = {},
+  ): Promise<T> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...authHeaders,
+      },
+    })
+
+    if (!response.ok) {
+      let message = fallbackMessage
+      try {
+        const body = await response.json()
+        message = body.message || body.error || message
+      } catch {
+        message = `${fallbackMessage}: ${response.statusText}`
+      }
+      throw new Error(message)
+    }
+
+    return response.json()
+  }
+}
+
+export const sendReviewService = new SendReviewService()
@@ -0,0 +1,110 @@
+import { authService } from './auth.service'
+
+export type TaskStatus = 'open' | 'done' | 'skipped' | 'failed' | 'canceled'
+export type TaskOutcome = 'done' | 'skipped' | 'failed'
+export type TaskType = 'call' | 'linkedin' | 'other'
+
+export interface CampaignTask {
+  id: string
+  campaignId: string
+  leadId: string
+  contactId: string
+  nodeId: string
+  assigneeId: string | null
+  type: TaskType
+  title: string
+  instructions: string | null
+  status: TaskStatus
+  dueAt: string
+  outcomeNote: string | null
+  completedAt: string | null
+  completedBy: string | null
+  contactName: string
+  contactEmail: string | null
+  contactPhone: string | null
+  contactTitle: string | null
+  leadName: string
+}
+
+export interface TaskListParams {
+  scope?: 'mine' | 'all'
+  status?: TaskStatus
+}
+
+export interface TaskListResponse {
+  tasks: CampaignTask[]
+  total: number
+}
+
+export interface CompleteTaskResponse {
+  task: CampaignTask
+  transitioned: boolean
+  toNodeId?: string
+}
+
+export const tasksQueryKeys = {
+  all: ['tasks'] as const,
+  list: (params: TaskListParams) =>
+    [...tasksQueryKeys.all, 'list', params] as const,
+}
+
+class TasksService {
+  private baseUrl = import.meta.env.VITE_API_BASE_URL + '/api'
+
+  async getTasks(params: TaskListParams = {}): Promise<TaskListResponse> {
+    const authHeaders = await authService.getAuthHeaders()
+    const url = new URL(`${this.baseUrl}/tasks`)
+    if (params.scope) url.searchParams.set('scope', params.scope)
+    if (params.status) url.searchParams.set('status', params.status)
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+      },
+    })
+
+    return this.parseResponse(response, 'Failed to fetch tasks')
+  }
+
+  async completeTask(
+    taskId: string,
+    outcome: TaskOutcome,
+    note?: string,
+  ): Promise<CompleteTaskResponse> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(
+      `${this.baseUrl}/tasks/${encodeURIComponent(taskId)}/complete`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
+        body: JSON.stringify({ outcome, note }),
+      },
+    )
+
+    return this.parseResponse(response, 'Failed to update task')
+  }
+
+  private async parseResponse<T>(
+    response: Response,
+    fallbackMessage: string,
+  ): Promise<T> {
+    if (!response.ok) {
+      let message = fallbackMessage
+      try {
+        const body = await response.json()
+        message = body.message || body.error || message
+      } catch {
+        message = `${fallbackMessage}: ${response.statusText}`
+      }
+      throw new Error(message)
+    }
+
+    return response.json()
+  }
+}
+
+export const tasksService = new TasksService()
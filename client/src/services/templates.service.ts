@@ -0,0 +1,158 @@
+import { authService } from './auth.service'
+
+export interface EmailTemplate {
+  id: string
+  name: string
+  description: string | null
+  subject: string | null
+  body: string
+  useAsExample: boolean
+  createdBy: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface EmailTemplateInput {
+  name: string
+  description?: string | null
+  subject?: string | null
+  body: string
+  useAsExample?: boolean
+}
+
+export interface EmailSnippet {
+  id: string
+  key: string
+  name: string
+  body: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface EmailSnippetInput {
+  key: string
+  name: string
+  body: string
+}
+
+export interface TemplateVariable {
+  name: string
+  description: string
+}
+
+export interface MessageContent {
+  subject?: string
+  body: string
+}
+
+export const templateQueryKeys = {
+  all: ['templates'] as const,
+  templates: () => [...templateQueryKeys.all, 'list'] as const,
+  snippets: () => [...templateQueryKeys.all, 'snippets'] as const,
+  variables: () => [...templateQueryKeys.all, 'variables'] as const,
+}
+
+class TemplatesService {
+  private baseUrl = import.meta.env.VITE_API_BASE_URL + '/api'
+
+  getTemplates(): Promise<EmailTemplate[]> {
+    return this.request('/templates', 'Failed to fetch templates')
+  }
+
+  createTemplate(input: EmailTemplateInput): Promise<EmailTemplate> {
+    return this.request('/templates', 'Failed to create template', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    })
+  }
+
+  updateTemplate(
+    templateId: string,
+    input: EmailTemplateInput,
+  ): Promise<EmailTemplate> {
+    return this.request(
+      `/templates/${encodeURIComponent(templateId)}`,
+      'Failed to update template',
+      { method: 'PUT', body: JSON.stringify(input) },
+    )
+  }
+
+  deleteTemplate(templateId: string): Promise<void> {
+    return this.request(
+      `/templates/${encodeURIComponent(templateId)}`,
+      'Failed to delete template',
+      { method: 'DELETE' },
+    )
+  }
+
+  getSnippets(): Promise<EmailSnippet[]> {
+    return this.request('/templates/snippets', 'Failed to fetch snippets')
+  }
+
+  createSnippet(input: EmailSnippetInput): Promise<EmailSnippet> {
+    return this.request('/templates/snippets', 'Failed to create snippet', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    })
+  }
+
+  updateSnippet(
+    snippetId: string,
+    input: EmailSnippetInput,
+  ): Promise<EmailSnippet> {
+    return this.request(
+      `/templates/snippets/${encodeURIComponent(snippetId)}`,
+      'Failed to update snippet',
+      { method: 'PUT', body: JSON.stringify(input) },
+    )
+  }
+
+  deleteSnippet(snippetId: string): Promise<void> {
+    return this.request(
+      `/templates/snippets/${encodeURIComponent(snippetId)}`,
+      'Failed to delete snippet',
+      { method: 'DELETE' },
+    )
+  }
+
+  getVariables(): Promise<TemplateVariable[]> {
+    return this.request('/templates/variables', 'Failed to fetch variables')
+  }
+
+  preview(contactId: string, content: MessageContent): Promise<MessageContent> {
+    return this.request('/templates/preview', 'Failed to render preview', {
+      method: 'POST',
+      body: JSON.stringify({ contactId, ...content }),
+    })
+  }
+
+  private async request<T>(
+    path: string,
+    fallbackMessage: string,
+    init: RequestInit = {},
+  ): Promise<T> {
+    const authHeaders = await authService.getAuthHeaders()
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...authHeaders,
+      },
+    })
+
+    if (!response.ok) {
+      let message = fallbackMessage
+      try {
+        const body = await response.json()
+        message = body.message || body.error || message
+      } catch {
+        message = `${fallbackMessage}: ${response.statusText}`
+      }
+      throw new Error(message)
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json()
+  }
+}
+
+export const templatesService = new TemplatesService()
@@ -0,0 +1,133 @@
+import { z } from 'zod'
+import {
+  campaignPlanOutputSchema,
+  validateCampaignPlan,
+} from './campaignPlanSchema'
+import serverSchema from './campaignPlanSchema.server.json'
+
+// JSON Schema without descriptions, keys sorted, so only the accepted shape is compared
+const toComparableJsonSchema = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(toComparableJsonSchema)
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => key !== 'description')
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, nested]) => [key, toComparableJsonSchema(nested)]),
+  )
+}
+
+const basePlan = (): any => ({
+  version: '1.0',
+  timezone: 'America/Los_Angeles',
+  startNodeId: 'email_1',
+  nodes: [
+    {
+      id: 'email_1',
+      channel: 'email',
+      action: 'send',
+      subject: 'Hello',
+      body: 'Hi there',
+      schedule: { delay: 'PT0S' },
+      transitions: [
+        { on: 'no_open', to: 'call_1', after: 'PT72H' },
+        { on: 'replied', to: 'stop', within: 'P30D' },
+      ],
+    },
+    {
+      id: 'call_1',
+      channel: 'manual',
+      action: 'task',
+      title: 'Call Jane',
+      transitions: [{ on: 'task_done', to: 'stop', after: 'PT0S' }],
+    },
+    { id: 'stop', channel: 'email', action: 'stop' },
+  ],
+})
+
+describe('validateCampaignPlan', () => {
+  it('accepts a valid plan and applies schema defaults', () => {
+    const result = validateCampaignPlan(basePlan())
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const task = result.plan.nodes.find((node) => node.id === 'call_1')
+      expect(task).toMatchObject({ taskType: 'other', dueIn: 'P1D' })
+      expect(result.plan.defaults.timers.no_reply_after).toBe('P5D')
+    }
+  })
+
+  it('keeps the booking link and meeting type of send nodes', () => {
+    const plan = basePlan()
+    plan.nodes[0].meetingType = 'intro-call'
+    plan.nodes[0].bookingLink = true
+
+    const result = validateCampaignPlan(plan)
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.plan.nodes[0]).toMatchObject({
+        meetingType: 'intro-call',
+        bookingLink: true,
+      })
+      expect(validateCampaignPlan(result.plan)).toEqual(result)
+    }
+  })
+
+  it('reports schema errors against the node they belong to', () => {
+    const plan = basePlan()
+    plan.nodes[0].transitions[0].after = '72 hours'
+
+    const result = validateCampaignPlan(plan)
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.errors[0].nodeId).toBe('email_1')
+    }
+  })
+
+  it('rejects transitions to missing nodes and a missing start node', () => {
+    const plan = basePlan()
+    plan.startNodeId = 'email_0'
+    plan.nodes[1].transitions[0].to = 'gone'
+
+    const result = validateCampaignPlan(plan)
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.errors.map((e) => e.message)).toEqual([
+        'Start node "email_0" does not exist',
+        'call_1: transition "task_done" points to missing node "gone"',
+      ])
+    }
+  })
+
+  it('rejects events the node channel cannot produce', () => {
+    const plan = basePlan()
+    plan.nodes[1].transitions[0].on = 'opened'
+
+    const result = validateCampaignPlan(plan)
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          nodeId: 'call_1',
+          message: 'call_1: manual nodes cannot transition on "opened"',
+        },
+      ])
+    }
+  })
+})
+
+describe('campaignPlanOutputSchema', () => {
+  // campaignPlanSchema.server.json is generated from the server schema by its parity
+  // test (UPDATE_PLAN_SCHEMA_FIXTURE=1); a mismatch means this copy has drifted.
+  it('accepts the same plans as the server schema', () => {
+    expect(
+      toComparableJsonSchema(
+        z.toJSONSchema(campaignPlanOutputSchema, { io: 'input' }),
+      ),
+    ).toEqual(serverSchema)
+  })
+})
@@ -0,0 +1,266 @@
+import { z } from 'zod'
+
+// Client copy of the server's campaignPlanOutputSchema
+// (server/src/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema.ts).
+// Keep the two in sync so the editor rejects plans before the API does; both sides'
+// tests compare against campaignPlanSchema.server.json to catch drift.
+
+const IsoDuration = z
+  .string()
+  .regex(
+    /^P(?!$)(\d+Y)?(\d+M)?(\d+D)?(T(\d+H)?(\d+M)?(\d+S)?)?$/,
+    'ISO-8601 duration required, e.g. PT24H',
+  )
+
+const TimeHHMM = z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'HH:MM 24h')
+
+export const PLAN_CHANNELS = ['email', 'sms', 'manual'] as const
+export type PlanChannel = (typeof PLAN_CHANNELS)[number]
+
+export const PLAN_EVENT_TYPES = [
+  'delivered',
+  'opened',
+  'clicked',
+  'replied',
+  'no_open',
+  'no_click',
+  'no_reply',
+  'task_done',
+  'task_skipped',
+  'task_failed',
+] as const
+export type PlanEventType = (typeof PLAN_EVENT_TYPES)[number]
+
+export const AB_TEST_METRICS = [
+  'opened',
+  'clicked',
+  'replied',
+  'meeting',
+] as const
+export type AbTestMetric = (typeof AB_TEST_METRICS)[number]
+
+// Events each channel can produce, mirroring CHANNEL_EVENT_TYPES on the server
+export const CHANNEL_EVENT_TYPES: Record<
+  PlanChannel,
+  readonly PlanEventType[]
+> = {
+  email: [
+    'delivered',
+    'opened',
+    'clicked',
+    'replied',
+    'no_open',
+    'no_click',
+    'no_reply',
+  ],
+  sms: ['delivered', 'replied', 'no_reply'],
+  manual: ['task_done', 'task_skipped', 'task_failed', 'replied'],
+}
+
+export const TASK_TYPES = ['call', 'linkedin', 'other'] as const
+
+const EventType = z.enum(PLAN_EVENT_TYPES)
+
+const TransitionWithin = z
+  .object({
+    on: EventType,
+    to: z.string().min(1),
+    within: IsoDuration,
+  })
+  .strict()
+
+const TransitionAfter = z
+  .object({
+    on: EventType,
+    to: z.string().min(1),
+    after: IsoDuration.default('PT24H'),
+  })
+  .strict()
+
+const Transition = z.union([TransitionWithin, TransitionAfter])
+
+const BaseNode = z.object({
+  id: z.string().min(1),
+  stepKey: z.string().min(1).optional(),
+  channel: z.enum(PLAN_CHANNELS),
+  transitions: z.array(Transition).default([]),
+})
+
+const SendNode = BaseNode.extend({
+  action: z.literal('send'),
+  channel: z.enum(['email', 'sms']),
+  subject: z.string().optional(),
+  body: z.string().optional(),
+  variants: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        subject: z.string().optional(),
+        body: z.string().optional(),
+        weight: z.number().positive().default(1),
+      }),
+    )
+    .max(5)
+    .optional(),
+  abTest: z
+    .object({
+      testId: z.string().min(1).optional(), // Pools results across plans sharing the id
+      metric: z.enum(AB_TEST_METRICS).default('replied'),
+      autoPromoteAfter: z.number().int().positive().optional(),
+    })
+    .optional(),
+  meetingType: z.string().optional(), // Slug of the sender's meeting type to link
+  bookingLink: z.boolean().optional(), // Link even when the sender has no calendar tie-in
+  schedule: z
+    .object({
+      delay: IsoDuration.default('PT0S'),
+      at: z.string().datetime().optional(),
+    })
+    .partial()
+    .default({ delay: 'PT0S' }),
+})
+
+const WaitNode = BaseNode.extend({
+  action: z.literal('wait'),
+})
+
+const TaskNode = BaseNode.extend({
+  action: z.literal('task'),
+  channel: z.literal('manual').default('manual'),
+  taskType: z.enum(TASK_TYPES).default('other'),
+  title: z.string().min(1, 'Task title is required'),
+  instructions: z.string().optional(),
+  dueIn: IsoDuration.default('P1D'),
+})
+
+const StopNode = BaseNode.extend({
+  action: z.literal('stop'),
+  transitions: z.array(Transition).max(0).default([]),
+})
+
+const Node = z.discriminatedUnion('action', [
+  SendNode,
+  WaitNode,
+  StopNode,
+  TaskNode,
+])
+
+export const campaignPlanOutputSchema = z.object({
+  version: z.string().default('1.0'),
+  timezone: z.string().min(1),
+  quietHours: z
+    .object({
+      start: TimeHHMM,
+      end: TimeHHMM,
+    })
+    .optional(),
+  defaults: z
+    .object({
+      timers: z
+        .object({
+          no_open_after: IsoDuration.default('PT72H'),
+          no_click_after: IsoDuration.default('PT24H'),
+          no_reply_after: IsoDuration.default('P5D'),
+        })
+        .partial()
+        .default({
+          no_open_after: 'PT72H',
+          no_click_after: 'PT24H',
+          no_reply_after: 'P5D',
+        }),
+    })
+    .default({
+      timers: {
+        no_open_after: 'PT72H',
+        no_click_after: 'PT24H',
+        no_reply_after: 'P5D',
+      },
+    }),
+  startNodeId: z.string().min(1),
+  nodes: z.array(Node).min(1),
+})
+
+export type CampaignPlanOutput = z.infer<typeof campaignPlanOutputSchema>
+export type CampaignPlanNode = CampaignPlanOutput['nodes'][number]
+export type CampaignPlanTransition = CampaignPlanNode['transitions'][number]
+export type PlanNodeAction = CampaignPlanNode['action']
+
+export interface PlanValidationError {
+  nodeId?: string
+  message: string
+}
+
+export type PlanValidationResult =
+  | { success: true; plan: CampaignPlanOutput }
+  | { success: false; errors: PlanValidationError[] }
+
+/**
+ * Validates an edited plan against the schema, then checks the graph itself: unique
+ * node ids, a start node and transition targets that exist, and transition events the
+ * node's channel can actually produce.
+ */
+export function validateCampaignPlan(plan: unknown): PlanValidationResult {
+  const parsed = campaignPlanOutputSchema.safeParse(plan)
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map((issue) => {
+        const nodeIndex =
+          issue.path[0] === 'nodes' && typeof issue.path[1] === 'number'
+            ? issue.path[1]
+            : undefined
+        const nodeId =
+          nodeIndex !== undefined
+            ? (plan as { nodes?: Array<{ id?: string }> }).nodes?.[nodeIndex]
+                ?.id
+            : undefined
+        return {
+          nodeId,
+          message: `${issue.path.join('.') || 'plan'}: ${issue.message}`,
+        }
+      }),
+    }
+  }
+
+  const errors: PlanValidationError[] = []
+  const ids = new Set<string>()
+
+  for (const node of parsed.data.nodes) {
+    if (ids.has(node.id)) {
+      errors.push({
+        nodeId: node.id,
+        message: `Duplicate node id "${node.id}"`,
+      })
+    }
+    ids.add(node.id)
+  }
+
+  if (!ids.has(parsed.data.startNodeId)) {
+    errors.push({
+      message: `Start node "${parsed.data.startNodeId}" does not exist`,
+    })
+  }
+
+  for (const node of parsed.data.nodes) {
+    const allowed = CHANNEL_EVENT_TYPES[node.channel]
+    for (const transition of node.transitions) {
+      if (!ids.has(transition.to)) {
+        errors.push({
+          nodeId: node.id,
+          message: `${node.id}: transition "${transition.on}" points to missing node "${transition.to}"`,
+        })
+      }
+      if (!allowed.includes(transition.on)) {
+        errors.push({
+          nodeId: node.id,
+          message: `${node.id}: ${node.channel} nodes cannot transition on "${transition.on}"`,
+        })
+      }
+    }
+  }
+
+  return errors.length > 0
+    ? { success: false, errors }
+    : { success: true, plan: parsed.data }
+}
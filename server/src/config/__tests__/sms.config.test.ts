@@ -0,0 +1,34 @@
+describe('SMS_CONFIG.PROVIDER', () => {
+  const originalEnv = process.env;
+
+  const loadProvider = (env: Record<string, string | undefined>) => {
+    process.env = { ...originalEnv, ...env };
+    let provider: string | undefined;
+    jest.isolateModules(() => {
+      provider = require('../sms.config').SMS_CONFIG.PROVIDER;
+    });
+    return provider;
+  };
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('defaults to the fake client in tests and dev', () => {
+    expect(loadProvider({ NODE_ENV: 'test', SMS_PROVIDER: undefined })).toBe('fake');
+    expect(loadProvider({ NODE_ENV: 'local', SMS_PROVIDER: '' })).toBe('fake');
+  });
+
+  it('refuses to start in production without a real provider', () => {
+    expect(() => loadProvider({ NODE_ENV: 'production', SMS_PROVIDER: undefined })).toThrow(
+      'SMS_PROVIDER is required'
+    );
+    expect(() => loadProvider({ NODE_ENV: 'production', SMS_PROVIDER: 'fake' })).toThrow(
+      'not supported'
+    );
+    expect(() => loadProvider({ NODE_ENV: 'production', SMS_PROVIDER: 'twillio' })).toThrow(
+      'not supported'
+    );
+    expect(loadProvider({ NODE_ENV: 'production', SMS_PROVIDER: 'twilio' })).toBe('twilio');
+  });
+});
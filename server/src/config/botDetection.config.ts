@@ -0,0 +1,32 @@
+/**
+ * Configuration for tagging machine-generated opens and clicks (mail gateways, link
+ * scanners, image prefetch) so they don't drive campaign transitions or metrics
+ */
+export const BOT_DETECTION_CONFIG = {
+  ENABLED: process.env.BOT_DETECTION_ENABLED !== 'false', // Default enabled
+
+  // Events scoring at or above this are tagged as machine-generated
+  MACHINE_SCORE_THRESHOLD: 1,
+
+  // Opens/clicks this soon after delivery are too fast for a person
+  INSTANT_AFTER_DELIVERY_SECONDS: 5,
+  // ...and this soon are suspicious, but not conclusive on their own
+  FAST_AFTER_DELIVERY_SECONDS: 60,
+
+  // Clicking this many different links in one message within the window is a scanner
+  CLICK_BURST_MIN_LINKS: 3,
+  CLICK_BURST_WINDOW_SECONDS: 15,
+
+  // Exchange Online Protection ranges, plus any extra comma-separated CIDRs (Proofpoint,
+  // Mimecast, etc. publish per-customer ranges)
+  SCANNER_IP_RANGES: [
+    '40.92.0.0/15',
+    '40.107.0.0/16',
+    '52.100.0.0/14',
+    '104.47.0.0/17',
+    ...(process.env.BOT_DETECTION_SCANNER_IP_RANGES || '')
+      .split(',')
+      .map((cidr) => cidr.trim())
+      .filter(Boolean),
+  ],
+};
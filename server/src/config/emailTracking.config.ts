@@ -0,0 +1,10 @@
+/**
+ * Configuration for first-party open and click tracking on campaign emails
+ */
+export const EMAIL_TRACKING_CONFIG = {
+  // Rewrite links and add an open pixel to campaign emails sent from connected mailboxes
+  ENABLED: process.env.EMAIL_TRACKING_ENABLED !== 'false', // Default enabled
+
+  // HMAC key for tracking URLs; falls back to ENCRYPTION_KEY. Startup fails when neither is set
+  SIGNING_SECRET: process.env.EMAIL_TRACKING_SECRET || process.env.ENCRYPTION_KEY,
+};
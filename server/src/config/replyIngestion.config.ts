@@ -0,0 +1,29 @@
+/**
+ * Configuration for polling connected mailboxes for campaign replies
+ */
+export const REPLY_INGESTION_CONFIG = {
+  // Whether the repeatable poll job is registered when workers start
+  ENABLED: process.env.REPLY_INGESTION_ENABLED !== 'false', // Default enabled
+
+  // How often every connected mailbox is polled (5 minutes default)
+  POLL_INTERVAL_MS: parseInt(process.env.REPLY_INGESTION_POLL_INTERVAL_MS || '300000'),
+
+  // How far back the first poll of a newly connected mailbox looks (24 hours default)
+  INITIAL_LOOKBACK_MS: parseInt(process.env.REPLY_INGESTION_INITIAL_LOOKBACK_MS || '86400000'),
+
+  // Maximum number of inbox messages fetched per mailbox per poll
+  MAX_MESSAGES_PER_POLL: parseInt(process.env.REPLY_INGESTION_MAX_MESSAGES_PER_POLL || '50'),
+
+  // Whether stored replies are classified by the reply classification agent
+  CLASSIFICATION_ENABLED: process.env.REPLY_CLASSIFICATION_ENABLED !== 'false', // Default enabled
+
+  // How long an out-of-office reply pauses the campaign when no return date is given (7 days default)
+  OUT_OF_OFFICE_DEFAULT_PAUSE_MS: parseInt(
+    process.env.REPLY_OUT_OF_OFFICE_DEFAULT_PAUSE_MS || '604800000'
+  ),
+
+  // Upper bound on an out-of-office pause, guarding against bad date extraction (60 days default)
+  OUT_OF_OFFICE_MAX_PAUSE_MS: parseInt(
+    process.env.REPLY_OUT_OF_OFFICE_MAX_PAUSE_MS || '5184000000'
+  ),
+};
@@ -0,0 +1,18 @@
+/**
+ * Configuration for send-time optimization: campaign emails go out in each contact's
+ * local timezone, inside the tenant's best send windows once it configures or learns them
+ */
+export const SEND_TIME_CONFIG = {
+  ENABLED: process.env.SEND_TIME_OPTIMIZATION_ENABLED !== 'false', // Default enabled
+
+  // Learning from historical engagement (non-machine opens, clicks and replies)
+  LEARNING_LOOKBACK_DAYS: parseInt(process.env.SEND_TIME_LEARNING_LOOKBACK_DAYS || '90', 10),
+  LEARNING_MIN_EVENTS: parseInt(process.env.SEND_TIME_LEARNING_MIN_EVENTS || '50', 10),
+  LEARNING_MAX_EVENTS: 5000,
+  LEARNING_REFRESH_HOURS: 24,
+  // Number of two-hour slots kept from the engagement histogram
+  LEARNED_SLOT_COUNT: 3,
+  // Learned slots must start inside the working day, so overnight noise can't win
+  LEARNED_EARLIEST_HOUR: 7,
+  LEARNED_LATEST_HOUR: 18,
+};
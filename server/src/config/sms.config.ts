@@ -0,0 +1,40 @@
+export type SmsProvider = 'twilio' | 'fake';
+
+// Where the fake client may stand in for a real provider, and is the default when unset
+const FAKE_SMS_ENVIRONMENTS = ['test', 'local', 'development'];
+
+/**
+ * Reads SMS_PROVIDER, failing at startup when it is missing or unknown so campaign texts
+ * are never marked sent without going out. The fake client is for tests and dev only.
+ */
+const resolveSmsProvider = (): SmsProvider => {
+  const fakeAllowed = FAKE_SMS_ENVIRONMENTS.includes(process.env.NODE_ENV ?? '');
+  const provider = process.env.SMS_PROVIDER || (fakeAllowed ? 'fake' : '');
+
+  if (provider === 'twilio' || (provider === 'fake' && fakeAllowed)) {
+    return provider;
+  }
+  throw new Error(
+    provider
+      ? `SMS_PROVIDER "${provider}" is not supported in ${process.env.NODE_ENV}; use 'twilio'`
+      : "SMS_PROVIDER is required; set it to 'twilio'"
+  );
+};
+
+/**
+ * Configuration for sending and receiving campaign SMS
+ */
+export const SMS_CONFIG = {
+  // Which ISmsStrategy sends messages: 'twilio', or in tests and dev 'fake' (logs and keeps
+  // messages in memory)
+  PROVIDER: resolveSmsProvider(),
+
+  // Number (E.164) or messaging service SID messages are sent from
+  FROM_NUMBER: process.env.SMS_FROM_NUMBER || '',
+
+  TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID || '',
+  TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN || '',
+
+  // Appended to campaign texts that don't already tell the recipient how to opt out
+  OPT_OUT_FOOTER: process.env.SMS_OPT_OUT_FOOTER ?? 'Reply STOP to opt out.',
+};
@@ -21,6 +21,13 @@ export const SENDGRID_EVENT_TYPES = {
   GROUP_RESUBSCRIBE: 'group_resubscribe',
 } as const;
 
+/**
+ * Message event types recorded by our own pipelines (not SendGrid), e.g. reply ingestion
+ */
+export const INBOUND_EVENT_TYPES = {
+  REPLY: 'reply',
+} as const;
+
 /**
  * Campaign plan event types (used in transitions)
  * These are the normalized event names used in campaign plan transitions
@@ -29,6 +36,7 @@ export const CAMPAIGN_EVENT_TYPES = {
   // Engagement events
   OPENED: 'opened',
   CLICKED: 'clicked',
+  REPLIED: 'replied',
 
   // Delivery events
   DELIVERED: 'delivered',
@@ -39,6 +47,12 @@ export const CAMPAIGN_EVENT_TYPES = {
   // Negative events (timeouts)
   NO_OPEN: 'no_open',
   NO_CLICK: 'no_click',
+  NO_REPLY: 'no_reply',
+
+  // Manual task outcomes (task nodes)
+  TASK_DONE: 'task_done',
+  TASK_SKIPPED: 'task_skipped',
+  TASK_FAILED: 'task_failed',
 
   // Other events
   SPAM: 'spam',
@@ -59,6 +73,7 @@ export const EVENT_TYPE_NORMALIZATION_MAP: Record<string, string> = {
   [SENDGRID_EVENT_TYPES.DEFERRED]: CAMPAIGN_EVENT_TYPES.DEFERRED,
   [SENDGRID_EVENT_TYPES.SPAM_REPORT]: CAMPAIGN_EVENT_TYPES.SPAM,
   [SENDGRID_EVENT_TYPES.UNSUBSCRIBE]: CAMPAIGN_EVENT_TYPES.UNSUBSCRIBE,
+  [INBOUND_EVENT_TYPES.REPLY]: CAMPAIGN_EVENT_TYPES.REPLIED,
 } as const;
 
 /**
@@ -75,6 +90,17 @@ export const IGNORED_TRANSITION_EVENTS = [
 export const TIMEOUT_EVENT_TYPES = [
   CAMPAIGN_EVENT_TYPES.NO_OPEN,
   CAMPAIGN_EVENT_TYPES.NO_CLICK,
+  CAMPAIGN_EVENT_TYPES.NO_REPLY,
+] as const;
+
+/**
+ * Outcomes a rep records on a task node. They fire whenever the rep gets to the task,
+ * so transitions on them have no earliest time.
+ */
+export const TASK_OUTCOME_EVENT_TYPES = [
+  CAMPAIGN_EVENT_TYPES.TASK_DONE,
+  CAMPAIGN_EVENT_TYPES.TASK_SKIPPED,
+  CAMPAIGN_EVENT_TYPES.TASK_FAILED,
 ] as const;
 
 /**
@@ -103,3 +129,12 @@ export function shouldTriggerCampaignTransition(eventType: string): boolean {
 export function isTimeoutEvent(eventType: string): boolean {
   return TIMEOUT_EVENT_TYPES.includes(eventType as any);
 }
+
+/**
+ * Helper function to check if an event type is a task outcome
+ * @param eventType - The event type to check
+ * @returns True if the event is a task outcome
+ */
+export function isTaskOutcomeEvent(eventType: string): boolean {
+  return TASK_OUTCOME_EVENT_TYPES.includes(eventType as any);
+}
@@ -3,6 +3,7 @@ export const QUEUE_NAMES = {
   lead_analysis: 'lead_analysis',
   campaign_creation: 'campaign_creation',
   campaign_execution: 'campaign_execution',
+  reply_ingestion: 'reply_ingestion',
 } as const;
 
 export const JOB_NAMES = {
@@ -18,5 +19,12 @@ export const JOB_NAMES = {
   campaign_execution: {
     initialize: 'campaign_execution.initialize',
     timeout: 'campaign_execution.timeout',
+    resume: 'campaign_execution.resume',
+    meeting_reminder: 'campaign_execution.meeting_reminder',
+  },
+  reply_ingestion: {
+    poll_all: 'reply_ingestion.poll_all',
+    poll_account: 'reply_ingestion.poll_account',
+    classify: 'reply_ingestion.classify',
   },
 } as const;
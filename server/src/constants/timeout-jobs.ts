@@ -21,6 +21,7 @@ export const TIMEOUT_JOB_FAIL_RETENTION_COUNT = 50;
 // Used when campaign plan doesn't specify custom timeout values
 export const DEFAULT_NO_OPEN_TIMEOUT = 'PT72H'; // 72 hours - time to wait for email open
 export const DEFAULT_NO_CLICK_TIMEOUT = 'PT24H'; // 24 hours - time to wait for link click
+export const DEFAULT_NO_REPLY_TIMEOUT = 'P5D'; // 5 days - time to wait for a reply
 
 /**
  * BullMQ job options for timeout jobs
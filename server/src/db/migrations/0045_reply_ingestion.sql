@@ -0,0 +1,13 @@
+ALTER TABLE "dripiq_app"."outbound_messages" ADD COLUMN "provider_thread_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."outbound_messages" ADD COLUMN "message_id_header" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD COLUMN "outbound_message_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD COLUMN "mail_account_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD COLUMN "provider_thread_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD COLUMN "from_address" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."mail_accounts" ADD COLUMN "last_inbox_sync_at" timestamp;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD CONSTRAINT "inbound_messages_outbound_message_id_outbound_messages_id_fk" FOREIGN KEY ("outbound_message_id") REFERENCES "dripiq_app"."outbound_messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD CONSTRAINT "inbound_messages_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "dripiq_app"."mail_accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD CONSTRAINT "inbound_messages_provider_message_unique" UNIQUE("tenant_id","channel","provider_message_id");--> statement-breakpoint
+CREATE INDEX "inbound_messages_campaign_idx" ON "dripiq_app"."inbound_messages" USING btree ("tenant_id","campaign_id");--> statement-breakpoint
+CREATE INDEX "outbound_messages_message_id_header_idx" ON "dripiq_app"."outbound_messages" USING btree ("message_id_header");--> statement-breakpoint
+CREATE INDEX "outbound_messages_thread_idx" ON "dripiq_app"."outbound_messages" USING btree ("tenant_id","provider_thread_id");
@@ -0,0 +1,4 @@
+ALTER TABLE "dripiq_app"."inbound_messages" ADD COLUMN "classification" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD COLUMN "classification_data" jsonb;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."inbound_messages" ADD COLUMN "classified_at" timestamp;--> statement-breakpoint
+CREATE INDEX "inbound_messages_classification_idx" ON "dripiq_app"."inbound_messages" USING btree ("tenant_id","classification");
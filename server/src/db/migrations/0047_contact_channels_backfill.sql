@@ -0,0 +1,16 @@
+CREATE INDEX "contact_channels_contact_idx" ON "dripiq_app"."contact_channels" USING btree ("tenant_id","contact_id","type");--> statement-breakpoint
+INSERT INTO "dripiq_app"."contact_channels" ("id", "tenant_id", "contact_id", "type", "value", "is_primary", "is_verified", "verification_status", "verified_at", "created_at", "updated_at")
+SELECT 'cc_' || substr(md5(random()::text || c."id"), 1, 21), l."tenant_id", c."id", 'email', lower(trim(c."email")), true,
+  c."email_verification_result" IN ('valid', 'ok_for_all'), c."email_verification_result"::text,
+  CASE WHEN c."email_verification_result" IN ('valid', 'ok_for_all', 'invalid') THEN c."updated_at" END,
+  now(), now()
+FROM "dripiq_app"."lead_point_of_contacts" c
+JOIN "dripiq_app"."leads" l ON l."id" = c."lead_id"
+WHERE c."email" IS NOT NULL AND trim(c."email") <> ''
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "dripiq_app"."contact_channels" ("id", "tenant_id", "contact_id", "type", "value", "is_primary", "is_verified", "created_at", "updated_at")
+SELECT 'cc_' || substr(md5(random()::text || c."id"), 1, 21), l."tenant_id", c."id", 'sms', c."phone", true, false, now(), now()
+FROM "dripiq_app"."lead_point_of_contacts" c
+JOIN "dripiq_app"."leads" l ON l."id" = c."lead_id"
+WHERE c."phone" IS NOT NULL AND trim(c."phone") <> ''
+ON CONFLICT DO NOTHING;
@@ -0,0 +1 @@
+CREATE INDEX "outbound_messages_sms_recipient_idx" ON "dripiq_app"."outbound_messages" USING btree (("content"->>'to')) WHERE "dripiq_app"."outbound_messages"."channel" = 'sms';
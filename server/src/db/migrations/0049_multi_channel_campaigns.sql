@@ -0,0 +1,2 @@
+ALTER TABLE "dripiq_app"."contact_campaigns" DROP CONSTRAINT "contact_channel_unique";--> statement-breakpoint
+ALTER TABLE "dripiq_app"."contact_campaigns" ADD CONSTRAINT "contact_campaigns_contact_unique" UNIQUE("tenant_id","contact_id");
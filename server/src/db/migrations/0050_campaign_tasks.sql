@@ -0,0 +1,29 @@
+CREATE TYPE "dripiq_app"."campaign_task_status" AS ENUM('open', 'done', 'skipped', 'failed', 'canceled');--> statement-breakpoint
+CREATE TABLE "dripiq_app"."campaign_tasks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"campaign_id" text NOT NULL,
+	"lead_id" text NOT NULL,
+	"contact_id" text NOT NULL,
+	"node_id" text NOT NULL,
+	"assignee_id" text,
+	"type" text NOT NULL,
+	"title" text NOT NULL,
+	"instructions" text,
+	"status" "dripiq_app"."campaign_task_status" DEFAULT 'open' NOT NULL,
+	"due_at" timestamp NOT NULL,
+	"outcome_note" text,
+	"completed_at" timestamp,
+	"completed_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "campaign_tasks_campaign_node_unique" UNIQUE("tenant_id","campaign_id","node_id")
+);
+--> statement-breakpoint
+ALTER TABLE "dripiq_app"."campaign_tasks" ADD CONSTRAINT "campaign_tasks_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."campaign_tasks" ADD CONSTRAINT "campaign_tasks_campaign_id_contact_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "dripiq_app"."contact_campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."campaign_tasks" ADD CONSTRAINT "campaign_tasks_lead_id_leads_id_fk" FOREIGN KEY ("lead_id") REFERENCES "dripiq_app"."leads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."campaign_tasks" ADD CONSTRAINT "campaign_tasks_contact_id_lead_point_of_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "dripiq_app"."lead_point_of_contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."campaign_tasks" ADD CONSTRAINT "campaign_tasks_assignee_id_users_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "dripiq_app"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."campaign_tasks" ADD CONSTRAINT "campaign_tasks_completed_by_users_id_fk" FOREIGN KEY ("completed_by") REFERENCES "dripiq_app"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "campaign_tasks_assignee_status_idx" ON "dripiq_app"."campaign_tasks" USING btree ("tenant_id","assignee_id","status","due_at");
@@ -0,0 +1,5 @@
+ALTER TABLE "dripiq_app"."message_events" ADD COLUMN "is_machine" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."message_events" ADD COLUMN "machine_reasons" text[];--> statement-breakpoint
+ALTER TABLE "dripiq_app"."calendar_link_clicks" ADD COLUMN "is_machine" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."calendar_link_clicks" ADD COLUMN "machine_reasons" text[];--> statement-breakpoint
+CREATE INDEX "message_events_message_id_idx" ON "dripiq_app"."message_events" USING btree ("message_id");
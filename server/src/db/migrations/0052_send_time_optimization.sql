@@ -0,0 +1,18 @@
+ALTER TABLE "dripiq_app"."leads" ADD COLUMN "address" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."lead_point_of_contacts" ADD COLUMN "location" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."lead_point_of_contacts" ADD COLUMN "timezone" text;--> statement-breakpoint
+CREATE TABLE "dripiq_app"."send_time_settings" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"windows" jsonb,
+	"learn_from_engagement" boolean DEFAULT true NOT NULL,
+	"learned_windows" jsonb,
+	"learned_sample_size" integer DEFAULT 0 NOT NULL,
+	"learned_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "send_time_settings_tenant_unique" UNIQUE("tenant_id")
+);
+--> statement-breakpoint
+ALTER TABLE "dripiq_app"."send_time_settings" ADD CONSTRAINT "send_time_settings_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,37 @@
+CREATE TABLE "dripiq_app"."pipeline_stages" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"name" text NOT NULL,
+	"position" integer NOT NULL,
+	"kind" text DEFAULT 'open' NOT NULL,
+	"auto_advance_on" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "dripiq_app"."lead_stage_history" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"lead_id" text NOT NULL,
+	"from_stage_id" text,
+	"to_stage_id" text,
+	"from_stage_name" text,
+	"to_stage_name" text NOT NULL,
+	"source" text NOT NULL,
+	"changed_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "dripiq_app"."leads" ADD COLUMN "pipeline_stage_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."leads" ADD COLUMN "deal_value" numeric(14, 2);--> statement-breakpoint
+ALTER TABLE "dripiq_app"."leads" ADD COLUMN "expected_close_date" date;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."leads" ADD COLUMN "stage_changed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."pipeline_stages" ADD CONSTRAINT "pipeline_stages_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."lead_stage_history" ADD CONSTRAINT "lead_stage_history_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."lead_stage_history" ADD CONSTRAINT "lead_stage_history_lead_id_leads_id_fk" FOREIGN KEY ("lead_id") REFERENCES "dripiq_app"."leads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."lead_stage_history" ADD CONSTRAINT "lead_stage_history_from_stage_id_pipeline_stages_id_fk" FOREIGN KEY ("from_stage_id") REFERENCES "dripiq_app"."pipeline_stages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."lead_stage_history" ADD CONSTRAINT "lead_stage_history_to_stage_id_pipeline_stages_id_fk" FOREIGN KEY ("to_stage_id") REFERENCES "dripiq_app"."pipeline_stages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."lead_stage_history" ADD CONSTRAINT "lead_stage_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "dripiq_app"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."leads" ADD CONSTRAINT "leads_pipeline_stage_id_pipeline_stages_id_fk" FOREIGN KEY ("pipeline_stage_id") REFERENCES "dripiq_app"."pipeline_stages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "pipeline_stages_tenant_position_idx" ON "dripiq_app"."pipeline_stages" USING btree ("tenant_id","position");--> statement-breakpoint
+CREATE INDEX "lead_stage_history_lead_idx" ON "dripiq_app"."lead_stage_history" USING btree ("lead_id","created_at");
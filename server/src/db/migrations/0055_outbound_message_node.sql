@@ -0,0 +1,3 @@
+ALTER TABLE "dripiq_app"."outbound_messages" ADD COLUMN "node_id" text;--> statement-breakpoint
+UPDATE "dripiq_app"."outbound_messages" SET "node_id" = split_part("dedupe_key", ':', 4) WHERE "node_id" IS NULL AND "dedupe_key" LIKE '%:%:%:%:%';--> statement-breakpoint
+CREATE INDEX "outbound_messages_tenant_sent_at_idx" ON "dripiq_app"."outbound_messages" USING btree ("tenant_id","sent_at");
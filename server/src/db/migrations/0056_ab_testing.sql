@@ -0,0 +1,18 @@
+CREATE TABLE "dripiq_app"."ab_test_winners" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"step_key" text NOT NULL,
+	"variant_id" text NOT NULL,
+	"metric" text NOT NULL,
+	"promoted_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ab_test_winners_step_unique" UNIQUE("tenant_id","step_key")
+);
+--> statement-breakpoint
+ALTER TABLE "dripiq_app"."outbound_messages" ADD COLUMN "step_key" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."outbound_messages" ADD COLUMN "variant_id" text;--> statement-breakpoint
+UPDATE "dripiq_app"."outbound_messages" SET "step_key" = "node_id" WHERE "step_key" IS NULL;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."ab_test_winners" ADD CONSTRAINT "ab_test_winners_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."ab_test_winners" ADD CONSTRAINT "ab_test_winners_promoted_by_users_id_fk" FOREIGN KEY ("promoted_by") REFERENCES "dripiq_app"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "outbound_messages_step_variant_idx" ON "dripiq_app"."outbound_messages" USING btree ("tenant_id","step_key","variant_id");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TYPE "dripiq_app"."outbound_message_state" ADD VALUE 'pending_review';--> statement-breakpoint
+ALTER TYPE "dripiq_app"."outbound_message_state" ADD VALUE 'approved';--> statement-breakpoint
+ALTER TYPE "dripiq_app"."outbound_message_state" ADD VALUE 'rejected';--> statement-breakpoint
+ALTER TABLE "dripiq_app"."tenants" ADD COLUMN "send_review_policy" text DEFAULT 'off' NOT NULL;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."outbound_messages" ADD COLUMN "reviewed_by" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."outbound_messages" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."outbound_messages" ADD CONSTRAINT "outbound_messages_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "dripiq_app"."users"("id") ON DELETE set null ON UPDATE no action;
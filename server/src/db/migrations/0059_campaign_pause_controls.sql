@@ -0,0 +1,2 @@
+ALTER TYPE "dripiq_app"."scheduled_action_status" ADD VALUE 'paused';--> statement-breakpoint
+ALTER TABLE "dripiq_app"."contact_campaigns" ADD COLUMN "paused_at" timestamp;
@@ -0,0 +1,19 @@
+CREATE TABLE "dripiq_app"."scheduled_meeting_history" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"meeting_id" text NOT NULL,
+	"event" text NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"start_time" timestamp NOT NULL,
+	"previous_start_time" timestamp,
+	"actor" text NOT NULL,
+	"reason" text,
+	"occurred_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduled_meeting_history" ADD CONSTRAINT "scheduled_meeting_history_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduled_meeting_history" ADD CONSTRAINT "scheduled_meeting_history_meeting_id_scheduled_meetings_id_fk" FOREIGN KEY ("meeting_id") REFERENCES "dripiq_app"."scheduled_meetings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scheduled_meeting_history_meeting_idx" ON "dripiq_app"."scheduled_meeting_history" USING btree ("meeting_id","occurred_at");
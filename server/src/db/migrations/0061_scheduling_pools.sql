@@ -0,0 +1,36 @@
+CREATE TABLE "dripiq_app"."scheduling_pools" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"name" text NOT NULL,
+	"mode" text DEFAULT 'round_robin' NOT NULL,
+	"assignment_strategy" text DEFAULT 'round_robin' NOT NULL,
+	"meeting_duration_minutes" integer DEFAULT 30 NOT NULL,
+	"last_assigned_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scheduling_pools_tenant_name_uq" UNIQUE("tenant_id","name")
+);
+--> statement-breakpoint
+CREATE TABLE "dripiq_app"."scheduling_pool_members" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"pool_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scheduling_pool_members_pool_user_uq" UNIQUE("pool_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "dripiq_app"."user_schedule_settings" ADD COLUMN "booking_pool_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."schedule_booking_tokens" ADD COLUMN "pool_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduled_meetings" ADD COLUMN "pool_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduling_pools" ADD CONSTRAINT "scheduling_pools_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduling_pools" ADD CONSTRAINT "scheduling_pools_last_assigned_user_id_users_id_fk" FOREIGN KEY ("last_assigned_user_id") REFERENCES "dripiq_app"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduling_pool_members" ADD CONSTRAINT "scheduling_pool_members_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduling_pool_members" ADD CONSTRAINT "scheduling_pool_members_pool_id_scheduling_pools_id_fk" FOREIGN KEY ("pool_id") REFERENCES "dripiq_app"."scheduling_pools"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduling_pool_members" ADD CONSTRAINT "scheduling_pool_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "dripiq_app"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."user_schedule_settings" ADD CONSTRAINT "user_schedule_settings_booking_pool_id_scheduling_pools_id_fk" FOREIGN KEY ("booking_pool_id") REFERENCES "dripiq_app"."scheduling_pools"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."schedule_booking_tokens" ADD CONSTRAINT "schedule_booking_tokens_pool_id_scheduling_pools_id_fk" FOREIGN KEY ("pool_id") REFERENCES "dripiq_app"."scheduling_pools"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduled_meetings" ADD CONSTRAINT "scheduled_meetings_pool_id_scheduling_pools_id_fk" FOREIGN KEY ("pool_id") REFERENCES "dripiq_app"."scheduling_pools"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scheduling_pool_members_user_idx" ON "dripiq_app"."scheduling_pool_members" USING btree ("tenant_id","user_id");
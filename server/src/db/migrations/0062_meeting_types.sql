@@ -0,0 +1,25 @@
+CREATE TABLE "dripiq_app"."meeting_types" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"slug" text NOT NULL,
+	"description" text,
+	"duration_minutes" integer DEFAULT 30 NOT NULL,
+	"buffer_before_minutes" integer,
+	"buffer_after_minutes" integer,
+	"location_type" text DEFAULT 'video' NOT NULL,
+	"location" text,
+	"questions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "meeting_types_user_slug_uq" UNIQUE("tenant_id","user_id","slug")
+);
+--> statement-breakpoint
+ALTER TABLE "dripiq_app"."schedule_booking_tokens" ADD COLUMN "meeting_type_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduled_meetings" ADD COLUMN "meeting_type_id" text;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."meeting_types" ADD CONSTRAINT "meeting_types_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "dripiq_app"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."meeting_types" ADD CONSTRAINT "meeting_types_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "dripiq_app"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."schedule_booking_tokens" ADD CONSTRAINT "schedule_booking_tokens_meeting_type_id_meeting_types_id_fk" FOREIGN KEY ("meeting_type_id") REFERENCES "dripiq_app"."meeting_types"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."scheduled_meetings" ADD CONSTRAINT "scheduled_meetings_meeting_type_id_meeting_types_id_fk" FOREIGN KEY ("meeting_type_id") REFERENCES "dripiq_app"."meeting_types"("id") ON DELETE set null ON UPDATE no action;
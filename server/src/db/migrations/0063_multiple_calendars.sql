@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS "dripiq_app"."calendar_connections_active_user_uq";--> statement-breakpoint
+ALTER TABLE "dripiq_app"."calendar_connections" ADD COLUMN "check_for_conflicts" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."calendar_connections" ADD COLUMN "is_booking_calendar" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "dripiq_app"."calendar_connections" SET "is_booking_calendar" = true WHERE "is_active" = true;--> statement-breakpoint
+CREATE UNIQUE INDEX "calendar_connections_active_calendar_uq" ON "dripiq_app"."calendar_connections" USING btree ("tenant_id","user_id","mail_account_id","provider_calendar_id") WHERE "dripiq_app"."calendar_connections"."is_active" = true;--> statement-breakpoint
+CREATE UNIQUE INDEX "calendar_connections_booking_user_uq" ON "dripiq_app"."calendar_connections" USING btree ("tenant_id","user_id") WHERE "dripiq_app"."calendar_connections"."is_active" = true AND "dripiq_app"."calendar_connections"."is_booking_calendar" = true;
@@ -0,0 +1,2 @@
+ALTER TABLE "dripiq_app"."user_schedule_settings" ADD COLUMN "reminders_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "dripiq_app"."user_schedule_settings" ADD COLUMN "no_show_follow_up" jsonb;
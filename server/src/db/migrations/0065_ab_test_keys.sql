@@ -0,0 +1,7 @@
+ALTER TABLE "dripiq_app"."outbound_messages" ADD COLUMN "ab_test_key" text;--> statement-breakpoint
+-- Earlier sends were pooled tenant-wide by step; they stay together under that key
+UPDATE "dripiq_app"."outbound_messages" SET "ab_test_key" = "step_key" WHERE "variant_id" IS NOT NULL;--> statement-breakpoint
+DROP INDEX IF EXISTS "dripiq_app"."outbound_messages_step_variant_idx";--> statement-breakpoint
+CREATE INDEX "outbound_messages_ab_test_variant_idx" ON "dripiq_app"."outbound_messages" USING btree ("tenant_id","ab_test_key","variant_id");--> statement-breakpoint
+ALTER TABLE "dripiq_app"."ab_test_winners" RENAME COLUMN "step_key" TO "test_key";--> statement-breakpoint
+ALTER TABLE "dripiq_app"."ab_test_winners" RENAME CONSTRAINT "ab_test_winners_step_unique" TO "ab_test_winners_test_unique";
@@ -0,0 +1,2 @@
+ALTER TABLE "dripiq_app"."campaign_tasks" DROP CONSTRAINT "campaign_tasks_campaign_node_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX "campaign_tasks_open_campaign_node_uq" ON "dripiq_app"."campaign_tasks" USING btree ("tenant_id","campaign_id","node_id") WHERE "dripiq_app"."campaign_tasks"."status" = 'open';
@@ -2,11 +2,13 @@ import { relations, sql } from 'drizzle-orm';
 import {
   text,
   timestamp,
+  date,
   boolean,
   unique,
   pgSchema,
   vector,
   integer,
+  numeric,
   jsonb,
   index,
   uniqueIndex,
@@ -42,6 +44,7 @@ export const scheduledActionStatusEnum = appSchema.enum('scheduled_action_status
   'completed',
   'failed',
   'canceled',
+  'paused', // Campaign paused by a rep; its BullMQ job is removed and re-added on resume
 ]);
 export const outboundMessageStateEnum = appSchema.enum('outbound_message_state', [
   'queued',
@@ -49,6 +52,16 @@ export const outboundMessageStateEnum = appSchema.enum('outbound_message_state',
   'sent',
   'failed',
   'canceled',
+  'pending_review',
+  'approved',
+  'rejected',
+]);
+export const campaignTaskStatusEnum = appSchema.enum('campaign_task_status', [
+  'open',
+  'done',
+  'skipped',
+  'failed',
+  'canceled',
 ]);
 
 // Users table
@@ -83,6 +96,7 @@ export const tenants = appSchema.table('tenants', {
     () => siteEmbeddingDomains.id,
     { onDelete: 'set null' }
   ),
+  sendReviewPolicy: text('send_review_policy').notNull().default('off'), // 'off' | 'all' | 'first_step'
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -298,8 +312,15 @@ export const leads = appSchema.table('leads', {
   targetMarket: text('target_market'), // The target market the company is trying to serve
   tone: text('tone'), // The tone of the company
   brandColors: jsonb('brand_colors'), // Array of hex color codes representing the brand color palette
+  address: text('address'), // Company (headquarters) address, used to infer contact timezones
   primaryContactId: text('primary_contact_id'), // Reference to primary contact (nullable)
   ownerId: text('owner_id').references(() => users.id, { onDelete: 'set null' }), // Reference to lead owner (nullable)
+  pipelineStageId: text('pipeline_stage_id').references(() => pipelineStages.id, {
+    onDelete: 'set null',
+  }), // Sales pipeline stage; null = the tenant's first open stage
+  dealValue: numeric('deal_value', { precision: 14, scale: 2, mode: 'number' }),
+  expectedCloseDate: date('expected_close_date', { mode: 'string' }),
+  stageChangedAt: timestamp('stage_changed_at'),
   tenantId: text('tenant_id')
     .notNull()
     .references(() => tenants.id, { onDelete: 'cascade' }),
@@ -328,6 +349,8 @@ export const leadPointOfContacts = appSchema.table('lead_point_of_contacts', {
   title: text('title'), // Job title
   company: text('company'),
   sourceUrl: text('source_url'), // URL where the contact information was found
+  location: text('location'), // Free-text location, e.g. "Austin, TX, United States"
+  timezone: text('timezone'), // IANA timezone set by a rep; inferred from location/email when null
   manuallyReviewed: boolean('manually_reviewed').notNull().default(false), // Whether the contact has been manually reviewed
   strategyStatus: text('strategy_status').notNull().default('none'), // 'none' | 'generating' | 'completed' | 'failed'
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -354,6 +377,52 @@ export const leadStatuses = appSchema.table(
   (table) => [unique('lead_status_unique').on(table.leadId, table.status)]
 );
 
+// Pipeline Stages - per-tenant sales pipeline (Prospecting -> ... -> Won/Lost)
+export const pipelineStages = appSchema.table(
+  'pipeline_stages',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    position: integer('position').notNull(),
+    kind: text('kind').notNull().default('open'), // 'open' | 'won' | 'lost'
+    autoAdvanceOn: jsonb('auto_advance_on').notNull().default([]), // PipelineEvent[] that move leads here
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [index('pipeline_stages_tenant_position_idx').on(table.tenantId, table.position)]
+);
+
+// Lead Stage History - every pipeline stage change, manual or automatic
+export const leadStageHistory = appSchema.table(
+  'lead_stage_history',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    leadId: text('lead_id')
+      .notNull()
+      .references(() => leads.id, { onDelete: 'cascade' }),
+    fromStageId: text('from_stage_id').references(() => pipelineStages.id, {
+      onDelete: 'set null',
+    }),
+    toStageId: text('to_stage_id').references(() => pipelineStages.id, { onDelete: 'set null' }),
+    fromStageName: text('from_stage_name'), // Names are kept so history survives stage renames/deletes
+    toStageName: text('to_stage_name').notNull(),
+    source: text('source').notNull(), // 'manual' | 'message_sent' | 'reply_received' | 'meeting_booked'
+    changedBy: text('changed_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('lead_stage_history_lead_idx').on(table.leadId, table.createdAt)]
+);
+
 export const leadsRelations = relations(leads, ({ one, many }) => ({
   tenant: one(tenants, {
     fields: [leads.tenantId],
@@ -374,6 +443,30 @@ export const leadsRelations = relations(leads, ({ one, many }) => ({
     references: [leadPointOfContacts.id],
   }),
   leadProducts: many(leadProducts),
+  pipelineStage: one(pipelineStages, {
+    fields: [leads.pipelineStageId],
+    references: [pipelineStages.id],
+  }),
+  stageHistory: many(leadStageHistory),
+}));
+
+export const pipelineStagesRelations = relations(pipelineStages, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [pipelineStages.tenantId],
+    references: [tenants.id],
+  }),
+  leads: many(leads),
+}));
+
+export const leadStageHistoryRelations = relations(leadStageHistory, ({ one }) => ({
+  lead: one(leads, {
+    fields: [leadStageHistory.leadId],
+    references: [leads.id],
+  }),
+  changedByUser: one(users, {
+    fields: [leadStageHistory.changedBy],
+    references: [users.id],
+  }),
 }));
 
 export const leadPointOfContactsRelations = relations(leadPointOfContacts, ({ one }) => ({
@@ -509,19 +602,20 @@ export const contactCampaigns = appSchema.table(
     contactId: text('contact_id')
       .notNull()
       .references(() => leadPointOfContacts.id, { onDelete: 'cascade' }),
-    channel: channelEnum('channel').notNull(),
+    channel: channelEnum('channel').notNull(), // Entry channel; nodes may use any channel
     status: campaignStatusEnum('status').notNull().default('draft'),
     currentNodeId: text('current_node_id'),
     planJson: jsonb('plan_json').notNull(),
     planVersion: text('plan_version').notNull().default('1.0'),
     planHash: text('plan_hash').notNull(), // for idempotency
     startedAt: timestamp('started_at'),
+    pausedAt: timestamp('paused_at'), // Set while paused by a rep; resume shifts timers by the gap
     completedAt: timestamp('completed_at'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
   (table) => [
-    unique('contact_channel_unique').on(table.tenantId, table.contactId, table.channel),
+    unique('contact_campaigns_contact_unique').on(table.tenantId, table.contactId),
     index('contact_campaigns_status_idx').on(table.tenantId, table.status),
     index('contact_campaigns_plan_hash_idx').on(table.planHash),
     index('contact_campaigns_plan_json_gin_idx').using('gin', table.planJson),
@@ -599,7 +693,13 @@ export const outboundMessages = appSchema.table(
       .notNull()
       .references(() => leadPointOfContacts.id, { onDelete: 'cascade' }),
     channel: channelEnum('channel').notNull(),
+    nodeId: text('node_id'), // Plan node that sent it; lets analytics report per step
+    stepKey: text('step_key'), // Plan step shared across contacts; node ids are per contact
+    variantId: text('variant_id'), // A/B variant of the step that was sent
+    abTestKey: text('ab_test_key'), // Experiment the variant belongs to; see getAbTestKey
     providerMessageId: text('provider_message_id'),
+    providerThreadId: text('provider_thread_id'), // Gmail threadId / Outlook conversationId
+    messageIdHeader: text('message_id_header'), // RFC 5322 Message-ID we stamp on the email
     dedupeKey: text('dedupe_key').notNull(),
     content: jsonb('content'),
     state: outboundMessageStateEnum('state').notNull().default('queued'),
@@ -608,6 +708,8 @@ export const outboundMessages = appSchema.table(
     errorAt: timestamp('error_at'),
     lastError: text('last_error'),
     retryCount: integer('retry_count').notNull().default(0),
+    reviewedBy: text('reviewed_by').references(() => users.id, { onDelete: 'set null' }),
+    reviewedAt: timestamp('reviewed_at'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
@@ -615,9 +717,82 @@ export const outboundMessages = appSchema.table(
     unique('outbound_messages_dedupe_unique').on(table.tenantId, table.dedupeKey),
     index('outbound_messages_state_idx').on(table.tenantId, table.state),
     index('outbound_messages_provider_id_idx').on(table.providerMessageId),
+    index('outbound_messages_message_id_header_idx').on(table.messageIdHeader),
+    index('outbound_messages_thread_idx').on(table.tenantId, table.providerThreadId),
+    index('outbound_messages_tenant_sent_at_idx').on(table.tenantId, table.sentAt),
+    index('outbound_messages_ab_test_variant_idx').on(
+      table.tenantId,
+      table.abTestKey,
+      table.variantId
+    ),
+    // Inbound texts are matched to the last SMS sent to the sender's number
+    index('outbound_messages_sms_recipient_idx')
+      .on(sql`(${table.content}->>'to')`)
+      .where(sql`${table.channel} = 'sms'`),
   ]
 );
 
+// A/B Test Winners - variant every contact gets once an experiment is decided
+export const abTestWinners = appSchema.table(
+  'ab_test_winners',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    testKey: text('test_key').notNull(), // outbound_messages.ab_test_key of the experiment
+    variantId: text('variant_id').notNull(),
+    metric: text('metric').notNull(), // 'opened' | 'clicked' | 'replied' | 'meeting'
+    promotedBy: text('promoted_by').references(() => users.id, { onDelete: 'set null' }), // Null when auto-promoted
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [unique('ab_test_winners_test_unique').on(table.tenantId, table.testKey)]
+);
+
+// Email Templates - tenant-wide reusable copy with {{variables}}, rendered per contact at send time
+export const emailTemplates = appSchema.table(
+  'email_templates',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    description: text('description'),
+    subject: text('subject'),
+    body: text('body').notNull(),
+    useAsExample: boolean('use_as_example').notNull().default(false), // Shown to the AI as a few-shot example
+    createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [unique('email_templates_name_unique').on(table.tenantId, table.name)]
+);
+
+// Email Snippets - reusable blocks (signature, case study, CTA) inserted as {{snippet.key}}
+export const emailSnippets = appSchema.table(
+  'email_snippets',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    key: text('key').notNull(),
+    name: text('name').notNull(),
+    body: text('body').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [unique('email_snippets_key_unique').on(table.tenantId, table.key)]
+);
+
 // Message Events - normalized engagement events
 export const messageEvents = appSchema.table(
   'message_events',
@@ -635,6 +810,8 @@ export const messageEvents = appSchema.table(
     eventAt: timestamp('event_at').notNull(),
     sgEventId: text('sg_event_id'), // SendGrid's unique event identifier for efficient duplicate detection
     data: jsonb('data'),
+    isMachine: boolean('is_machine').notNull().default(false), // Scanner/prefetch open or click; ignored by transitions and metrics
+    machineReasons: text('machine_reasons').array(),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
@@ -642,6 +819,7 @@ export const messageEvents = appSchema.table(
     index('message_events_tenant_type_idx').on(table.tenantId, table.type),
     index('message_events_event_at_idx').on(table.eventAt),
     index('message_events_sg_event_id_idx').on(table.sgEventId),
+    index('message_events_message_id_idx').on(table.messageId),
   ]
 );
 
@@ -685,19 +863,37 @@ export const inboundMessages = appSchema.table(
     contactId: text('contact_id').references(() => leadPointOfContacts.id, {
       onDelete: 'set null',
     }),
+    outboundMessageId: text('outbound_message_id').references(() => outboundMessages.id, {
+      onDelete: 'set null',
+    }),
+    mailAccountId: text('mail_account_id').references(() => mailAccounts.id, {
+      onDelete: 'set null',
+    }),
     channel: channelEnum('channel').notNull(),
     providerMessageId: text('provider_message_id'),
+    providerThreadId: text('provider_thread_id'),
+    fromAddress: text('from_address'),
     receivedAt: timestamp('received_at').notNull().defaultNow(),
     subject: text('subject'),
     bodyText: text('body_text'),
     bodyHtml: text('body_html'),
     raw: jsonb('raw'),
+    classification: text('classification'), // 'interested' | 'not_now' | 'out_of_office' | 'wrong_person' | 'unsubscribe'
+    classificationData: jsonb('classification_data'), // Extracted return date, referral, summary
+    classifiedAt: timestamp('classified_at'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
   (table) => [
     index('inbound_messages_received_at_idx').on(table.receivedAt),
+    index('inbound_messages_classification_idx').on(table.tenantId, table.classification),
     index('inbound_messages_provider_id_idx').on(table.providerMessageId),
+    index('inbound_messages_campaign_idx').on(table.tenantId, table.campaignId),
+    unique('inbound_messages_provider_message_unique').on(
+      table.tenantId,
+      table.channel,
+      table.providerMessageId
+    ),
   ]
 );
 
@@ -748,6 +944,67 @@ export const sendRateLimits = appSchema.table(
   ]
 );
 
+// Send Time Settings - per-tenant best send windows for campaign emails
+export const sendTimeSettings = appSchema.table(
+  'send_time_settings',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    enabled: boolean('enabled').notNull().default(true),
+    windows: jsonb('windows'), // SendWindow[] in contact-local time; null = built-in defaults
+    learnFromEngagement: boolean('learn_from_engagement').notNull().default(true),
+    learnedWindows: jsonb('learned_windows'), // SendWindow[] derived from historical opens/replies
+    learnedSampleSize: integer('learned_sample_size').notNull().default(0),
+    learnedAt: timestamp('learned_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [unique('send_time_settings_tenant_unique').on(table.tenantId)]
+);
+
+// Blackout Periods - tenant-wide dates when campaign actions are held (shutdowns, ad-hoc pauses)
+export const blackoutPeriods = appSchema.table(
+  'blackout_periods',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    kind: text('kind').notNull(), // 'shutdown' | 'pause'
+    startDate: date('start_date', { mode: 'string' }).notNull(), // Inclusive, contact-local date
+    endDate: date('end_date', { mode: 'string' }).notNull(), // Inclusive
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [index('blackout_periods_tenant_end_date_idx').on(table.tenantId, table.endDate)]
+);
+
+// Holiday Calendars - national holiday calendars a tenant observes when scheduling
+export const holidayCalendars = appSchema.table(
+  'holiday_calendars',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    countryCode: text('country_code').notNull(), // ISO 3166-1 alpha-2, see modules/blackout/holidays
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [
+    unique('holiday_calendars_tenant_country_unique').on(table.tenantId, table.countryCode),
+  ]
+);
+
 // Email Validation Results - SendGrid validation cache
 export const emailValidationResults = appSchema.table(
   'email_validation_results',
@@ -791,7 +1048,7 @@ export const contactChannels = appSchema.table(
     value: text('value').notNull(),
     isPrimary: boolean('is_primary').notNull().default(false),
     isVerified: boolean('is_verified').notNull().default(false),
-    verificationStatus: text('verification_status'),
+    verificationStatus: text('verification_status'), // valid|invalid|unknown|ok_for_all|inferred|bounced
     verifiedAt: timestamp('verified_at'),
     validationResultId: text('validation_result_id').references(() => emailValidationResults.id, {
       onDelete: 'set null',
@@ -802,6 +1059,7 @@ export const contactChannels = appSchema.table(
   (table) => [
     unique('contact_channels_unique').on(table.tenantId, table.contactId, table.type, table.value),
     index('contact_channels_primary_idx').on(table.isPrimary),
+    index('contact_channels_contact_idx').on(table.tenantId, table.contactId, table.type),
   ]
 );
 
@@ -829,6 +1087,52 @@ export const campaignTransitions = appSchema.table(
   (table) => [index('campaign_transitions_campaign_idx').on(table.campaignId, table.occurredAt)]
 );
 
+// Campaign Tasks - manual steps (call, LinkedIn touch) created by task nodes for the lead owner
+export const campaignTasks = appSchema.table(
+  'campaign_tasks',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    campaignId: text('campaign_id')
+      .notNull()
+      .references(() => contactCampaigns.id, { onDelete: 'cascade' }),
+    leadId: text('lead_id')
+      .notNull()
+      .references(() => leads.id, { onDelete: 'cascade' }),
+    contactId: text('contact_id')
+      .notNull()
+      .references(() => leadPointOfContacts.id, { onDelete: 'cascade' }),
+    nodeId: text('node_id').notNull(),
+    assigneeId: text('assignee_id').references(() => users.id, { onDelete: 'set null' }),
+    type: text('type').notNull(), // call|linkedin|other
+    title: text('title').notNull(),
+    instructions: text('instructions'),
+    status: campaignTaskStatusEnum('status').notNull().default('open'),
+    dueAt: timestamp('due_at').notNull(),
+    outcomeNote: text('outcome_note'),
+    completedAt: timestamp('completed_at'),
+    completedBy: text('completed_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [
+    // One open task per node; a campaign that loops back to the node gets a fresh task
+    uniqueIndex('campaign_tasks_open_campaign_node_uq')
+      .on(table.tenantId, table.campaignId, table.nodeId)
+      .where(sql`${table.status} = 'open'`),
+    index('campaign_tasks_assignee_status_idx').on(
+      table.tenantId,
+      table.assigneeId,
+      table.status,
+      table.dueAt
+    ),
+  ]
+);
+
 // Contact Unsubscribes - channel-based unsubscribe tracking
 export const contactUnsubscribes = appSchema.table(
   'contact_unsubscribes',
@@ -842,7 +1146,7 @@ export const contactUnsubscribes = appSchema.table(
     channel: text('channel').notNull(), // 'email', 'sms', etc.
     channelValue: text('channel_value').notNull(), // email address, phone number, etc. (normalized/lowercase)
     unsubscribedAt: timestamp('unsubscribed_at').notNull().defaultNow(),
-    unsubscribeSource: text('unsubscribe_source').notNull(), // 'link_click', 'sendgrid_webhook', 'manual'
+    unsubscribeSource: text('unsubscribe_source').notNull(), // 'link_click', 'sendgrid_webhook', 'manual', 'reply'
     campaignId: text('campaign_id').references(() => contactCampaigns.id, { onDelete: 'set null' }),
     contactId: text('contact_id').references(() => leadPointOfContacts.id, {
       onDelete: 'set null',
@@ -899,6 +1203,8 @@ export const calendarLinkClicks = appSchema.table(
     ipAddress: text('ip_address'),
     userAgent: text('user_agent'),
     referrer: text('referrer'),
+    isMachine: boolean('is_machine').notNull().default(false), // Link scanner rather than the contact
+    machineReasons: text('machine_reasons').array(),
     clickedAt: timestamp('clicked_at').notNull().defaultNow(),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -912,6 +1218,83 @@ export const calendarLinkClicks = appSchema.table(
   ]
 );
 
+// Scheduling Pools - teams whose members share one booking link
+export const schedulingPools = appSchema.table(
+  'scheduling_pools',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    mode: text('mode').notNull().default('round_robin'), // round_robin (one host) or collective (everyone)
+    assignmentStrategy: text('assignment_strategy').notNull().default('round_robin'), // round_robin, least_recently_booked, owner_first
+    meetingDurationMinutes: integer('meeting_duration_minutes').notNull().default(30),
+    lastAssignedUserId: text('last_assigned_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [unique('scheduling_pools_tenant_name_uq').on(table.tenantId, table.name)]
+);
+
+export const schedulingPoolMembers = appSchema.table(
+  'scheduling_pool_members',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    poolId: text('pool_id')
+      .notNull()
+      .references(() => schedulingPools.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull().default(0), // Rotation order
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [
+    unique('scheduling_pool_members_pool_user_uq').on(table.poolId, table.userId),
+    index('scheduling_pool_members_user_idx').on(table.tenantId, table.userId),
+  ]
+);
+
+// Meeting Types - bookable events a rep offers (intro call, demo, deep dive)
+export const meetingTypes = appSchema.table(
+  'meeting_types',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    slug: text('slug').notNull(), // Campaign send nodes link to a type by slug
+    description: text('description'),
+    durationMinutes: integer('duration_minutes').notNull().default(30),
+    bufferBeforeMinutes: integer('buffer_before_minutes'), // Null uses the rep's settings
+    bufferAfterMinutes: integer('buffer_after_minutes'),
+    locationType: text('location_type').notNull().default('video'), // video, phone, in_person, custom
+    location: text('location'), // Conferencing URL, dial-in, address or free text
+    questions: jsonb('questions').notNull().default([]), // Intake questions asked on booking
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [unique('meeting_types_user_slug_uq').on(table.tenantId, table.userId, table.slug)]
+);
+
 export const userScheduleSettings = appSchema.table(
   'user_schedule_settings',
   {
@@ -936,6 +1319,11 @@ export const userScheduleSettings = appSchema.table(
     minNoticeMinutes: integer('min_notice_minutes').notNull().default(120),
     bookingHorizonDays: integer('booking_horizon_days').notNull().default(14),
     respectFreeBusy: boolean('respect_free_busy').notNull().default(true),
+    bookingPoolId: text('booking_pool_id').references(() => schedulingPools.id, {
+      onDelete: 'set null',
+    }), // Booking links this user sends go to the pool instead of their own calendar
+    remindersEnabled: boolean('reminders_enabled').notNull().default(true), // 24h and 1h before
+    noShowFollowUp: jsonb('no_show_follow_up'), // Re-engagement sequence; null uses the default
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
@@ -958,6 +1346,10 @@ export const scheduleBookingTokens = appSchema.table(
     userId: text('user_id')
       .notNull()
       .references(() => users.id, { onDelete: 'cascade' }),
+    poolId: text('pool_id').references(() => schedulingPools.id, { onDelete: 'set null' }),
+    meetingTypeId: text('meeting_type_id').references(() => meetingTypes.id, {
+      onDelete: 'set null',
+    }),
     leadId: text('lead_id')
       .notNull()
       .references(() => leads.id, { onDelete: 'cascade' }),
@@ -1006,6 +1398,8 @@ export const calendarConnections = appSchema.table(
     primaryEmail: text('primary_email'),
     scopes: text('scopes').array().notNull().default([]),
     isActive: boolean('is_active').notNull().default(true),
+    checkForConflicts: boolean('check_for_conflicts').notNull().default(true),
+    isBookingCalendar: boolean('is_booking_calendar').notNull().default(false),
     reauthRequired: boolean('reauth_required').notNull().default(false),
     connectedAt: timestamp('connected_at').notNull().defaultNow(),
     disconnectedAt: timestamp('disconnected_at'),
@@ -1015,9 +1409,12 @@ export const calendarConnections = appSchema.table(
   },
   (table) => [
     index('calendar_connections_tenant_user_idx').on(table.tenantId, table.userId),
-    uniqueIndex('calendar_connections_active_user_uq')
-      .on(table.tenantId, table.userId)
+    uniqueIndex('calendar_connections_active_calendar_uq')
+      .on(table.tenantId, table.userId, table.mailAccountId, table.providerCalendarId)
       .where(sql`${table.isActive} = true`),
+    uniqueIndex('calendar_connections_booking_user_uq')
+      .on(table.tenantId, table.userId)
+      .where(sql`${table.isActive} = true AND ${table.isBookingCalendar} = true`),
   ]
 );
 
@@ -1033,6 +1430,10 @@ export const scheduledMeetings = appSchema.table(
     userId: text('user_id')
       .notNull()
       .references(() => users.id, { onDelete: 'cascade' }),
+    poolId: text('pool_id').references(() => schedulingPools.id, { onDelete: 'set null' }),
+    meetingTypeId: text('meeting_type_id').references(() => meetingTypes.id, {
+      onDelete: 'set null',
+    }),
     leadId: text('lead_id').references(() => leads.id, { onDelete: 'set null' }),
     contactId: text('contact_id').references(() => leadPointOfContacts.id, {
       onDelete: 'set null',
@@ -1048,7 +1449,7 @@ export const scheduledMeetings = appSchema.table(
     endTime: timestamp('end_time').notNull(),
     calendarEventId: text('calendar_event_id'),
     provider: text('provider').notNull(),
-    status: text('status').notNull().default('confirmed'),
+    status: text('status').notNull().default('confirmed'), // confirmed, canceled, held or no_show
     contactDetails: jsonb('contact_details').notNull().default({}),
     metadata: jsonb('metadata').notNull().default({}),
     createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -1066,6 +1467,33 @@ export const scheduledMeetings = appSchema.table(
   ]
 );
 
+// Scheduled Meeting History - every booking, reschedule and cancellation of a meeting
+export const scheduledMeetingHistory = appSchema.table(
+  'scheduled_meeting_history',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    meetingId: text('meeting_id')
+      .notNull()
+      .references(() => scheduledMeetings.id, { onDelete: 'cascade' }),
+    event: text('event').notNull(), // booked, rescheduled, canceled, held, no_show
+    fromStatus: text('from_status'),
+    toStatus: text('to_status').notNull(),
+    startTime: timestamp('start_time').notNull(), // Meeting time after the change
+    previousStartTime: timestamp('previous_start_time'),
+    actor: text('actor').notNull(), // prospect, user or system
+    reason: text('reason'),
+    occurredAt: timestamp('occurred_at').notNull().defaultNow(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [index('scheduled_meeting_history_meeting_idx').on(table.meetingId, table.occurredAt)]
+);
+
 // ---- Email Provider Connection Enums
 export const providerEnum = appSchema.enum('provider', ['google', 'microsoft']);
 export const tokenStatusEnum = appSchema.enum('token_status', ['active', 'revoked']);
@@ -1098,6 +1526,8 @@ export const mailAccounts = appSchema.table(
     connectedAt: timestamp('connected_at').notNull().defaultNow(),
     disconnectedAt: timestamp('disconnected_at'),
     reauthRequired: boolean('reauth_required').notNull().default(false),
+    // high-water mark for reply ingestion polling
+    lastInboxSyncAt: timestamp('last_inbox_sync_at'),
 
     // free-form per-provider details (e.g., alias policy, CAE flags)
     metadata: jsonb('metadata').notNull().default({}),
@@ -1170,6 +1600,7 @@ export const contactCampaignsRelations = relations(contactCampaigns, ({ one, man
   transitions: many(campaignTransitions),
   inboundMessages: many(inboundMessages),
   planVersions: many(campaignPlanVersions),
+  tasks: many(campaignTasks),
 }));
 
 export const campaignPlanVersionsRelations = relations(campaignPlanVersions, ({ one }) => ({
@@ -1211,9 +1642,42 @@ export const outboundMessagesRelations = relations(outboundMessages, ({ one, man
     fields: [outboundMessages.contactId],
     references: [leadPointOfContacts.id],
   }),
+  reviewer: one(users, {
+    fields: [outboundMessages.reviewedBy],
+    references: [users.id],
+  }),
   events: many(messageEvents),
 }));
 
+export const abTestWinnersRelations = relations(abTestWinners, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [abTestWinners.tenantId],
+    references: [tenants.id],
+  }),
+  promoter: one(users, {
+    fields: [abTestWinners.promotedBy],
+    references: [users.id],
+  }),
+}));
+
+export const emailTemplatesRelations = relations(emailTemplates, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [emailTemplates.tenantId],
+    references: [tenants.id],
+  }),
+  creator: one(users, {
+    fields: [emailTemplates.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const emailSnippetsRelations = relations(emailSnippets, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [emailSnippets.tenantId],
+    references: [tenants.id],
+  }),
+}));
+
 export const messageEventsRelations = relations(messageEvents, ({ one }) => ({
   tenant: one(tenants, {
     fields: [messageEvents.tenantId],
@@ -1249,6 +1713,14 @@ export const inboundMessagesRelations = relations(inboundMessages, ({ one }) =>
     fields: [inboundMessages.contactId],
     references: [leadPointOfContacts.id],
   }),
+  outboundMessage: one(outboundMessages, {
+    fields: [inboundMessages.outboundMessageId],
+    references: [outboundMessages.id],
+  }),
+  mailAccount: one(mailAccounts, {
+    fields: [inboundMessages.mailAccountId],
+    references: [mailAccounts.id],
+  }),
 }));
 
 export const communicationSuppressionsRelations = relations(
@@ -1268,6 +1740,27 @@ export const sendRateLimitsRelations = relations(sendRateLimits, ({ one }) => ({
   }),
 }));
 
+export const sendTimeSettingsRelations = relations(sendTimeSettings, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [sendTimeSettings.tenantId],
+    references: [tenants.id],
+  }),
+}));
+
+export const blackoutPeriodsRelations = relations(blackoutPeriods, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [blackoutPeriods.tenantId],
+    references: [tenants.id],
+  }),
+}));
+
+export const holidayCalendarsRelations = relations(holidayCalendars, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [holidayCalendars.tenantId],
+    references: [tenants.id],
+  }),
+}));
+
 export const emailValidationResultsRelations = relations(emailValidationResults, ({ one }) => ({
   tenant: one(tenants, {
     fields: [emailValidationResults.tenantId],
@@ -1305,6 +1798,33 @@ export const campaignTransitionsRelations = relations(campaignTransitions, ({ on
   }),
 }));
 
+export const campaignTasksRelations = relations(campaignTasks, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [campaignTasks.tenantId],
+    references: [tenants.id],
+  }),
+  campaign: one(contactCampaigns, {
+    fields: [campaignTasks.campaignId],
+    references: [contactCampaigns.id],
+  }),
+  lead: one(leads, {
+    fields: [campaignTasks.leadId],
+    references: [leads.id],
+  }),
+  contact: one(leadPointOfContacts, {
+    fields: [campaignTasks.contactId],
+    references: [leadPointOfContacts.id],
+  }),
+  assignee: one(users, {
+    fields: [campaignTasks.assigneeId],
+    references: [users.id],
+  }),
+  completedBy: one(users, {
+    fields: [campaignTasks.completedBy],
+    references: [users.id],
+  }),
+}));
+
 export const contactUnsubscribesRelations = relations(contactUnsubscribes, ({ one }) => ({
   tenant: one(tenants, {
     fields: [contactUnsubscribes.tenantId],
@@ -1352,6 +1872,38 @@ export const userScheduleSettingsRelations = relations(userScheduleSettings, ({
   }),
 }));
 
+export const schedulingPoolsRelations = relations(schedulingPools, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [schedulingPools.tenantId],
+    references: [tenants.id],
+  }),
+  members: many(schedulingPoolMembers),
+  scheduledMeetings: many(scheduledMeetings),
+}));
+
+export const schedulingPoolMembersRelations = relations(schedulingPoolMembers, ({ one }) => ({
+  pool: one(schedulingPools, {
+    fields: [schedulingPoolMembers.poolId],
+    references: [schedulingPools.id],
+  }),
+  user: one(users, {
+    fields: [schedulingPoolMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const meetingTypesRelations = relations(meetingTypes, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [meetingTypes.tenantId],
+    references: [tenants.id],
+  }),
+  user: one(users, {
+    fields: [meetingTypes.userId],
+    references: [users.id],
+  }),
+  scheduledMeetings: many(scheduledMeetings),
+}));
+
 export const scheduleBookingTokensRelations = relations(scheduleBookingTokens, ({ one, many }) => ({
   tenant: one(tenants, {
     fields: [scheduleBookingTokens.tenantId],
@@ -1396,7 +1948,7 @@ export const calendarConnectionsRelations = relations(calendarConnections, ({ on
   scheduledMeetings: many(scheduledMeetings),
 }));
 
-export const scheduledMeetingsRelations = relations(scheduledMeetings, ({ one }) => ({
+export const scheduledMeetingsRelations = relations(scheduledMeetings, ({ one, many }) => ({
   tenant: one(tenants, {
     fields: [scheduledMeetings.tenantId],
     references: [tenants.id],
@@ -1425,6 +1977,26 @@ export const scheduledMeetingsRelations = relations(scheduledMeetings, ({ one })
     fields: [scheduledMeetings.calendarConnectionId],
     references: [calendarConnections.id],
   }),
+  pool: one(schedulingPools, {
+    fields: [scheduledMeetings.poolId],
+    references: [schedulingPools.id],
+  }),
+  meetingType: one(meetingTypes, {
+    fields: [scheduledMeetings.meetingTypeId],
+    references: [meetingTypes.id],
+  }),
+  history: many(scheduledMeetingHistory),
+}));
+
+export const scheduledMeetingHistoryRelations = relations(scheduledMeetingHistory, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [scheduledMeetingHistory.tenantId],
+    references: [tenants.id],
+  }),
+  meeting: one(scheduledMeetings, {
+    fields: [scheduledMeetingHistory.meetingId],
+    references: [scheduledMeetings.id],
+  }),
 }));
 
 // Email Provider Connection Relations
@@ -1470,6 +2042,10 @@ export type LeadPointOfContact = typeof leadPointOfContacts.$inferSelect;
 export type NewLeadPointOfContact = typeof leadPointOfContacts.$inferInsert;
 export type LeadStatus = typeof leadStatuses.$inferSelect;
 export type NewLeadStatus = typeof leadStatuses.$inferInsert;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type NewPipelineStage = typeof pipelineStages.$inferInsert;
+export type LeadStageHistory = typeof leadStageHistory.$inferSelect;
+export type NewLeadStageHistory = typeof leadStageHistory.$inferInsert;
 export type SiteEmbedding = typeof siteEmbeddings.$inferSelect;
 export type NewSiteEmbedding = typeof siteEmbeddings.$inferInsert;
 export type SiteEmbeddingDomain = typeof siteEmbeddingDomains.$inferSelect;
@@ -1484,6 +2060,12 @@ export type ScheduledAction = typeof scheduledActions.$inferSelect;
 export type NewScheduledAction = typeof scheduledActions.$inferInsert;
 export type OutboundMessage = typeof outboundMessages.$inferSelect;
 export type NewOutboundMessage = typeof outboundMessages.$inferInsert;
+export type AbTestWinner = typeof abTestWinners.$inferSelect;
+export type NewAbTestWinner = typeof abTestWinners.$inferInsert;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type NewEmailTemplate = typeof emailTemplates.$inferInsert;
+export type EmailSnippet = typeof emailSnippets.$inferSelect;
+export type NewEmailSnippet = typeof emailSnippets.$inferInsert;
 export type MessageEvent = typeof messageEvents.$inferSelect;
 export type NewMessageEvent = typeof messageEvents.$inferInsert;
 export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
@@ -1494,12 +2076,20 @@ export type CommunicationSuppression = typeof communicationSuppressions.$inferSe
 export type NewCommunicationSuppression = typeof communicationSuppressions.$inferInsert;
 export type SendRateLimit = typeof sendRateLimits.$inferSelect;
 export type NewSendRateLimit = typeof sendRateLimits.$inferInsert;
+export type SendTimeSetting = typeof sendTimeSettings.$inferSelect;
+export type NewSendTimeSetting = typeof sendTimeSettings.$inferInsert;
+export type BlackoutPeriod = typeof blackoutPeriods.$inferSelect;
+export type NewBlackoutPeriod = typeof blackoutPeriods.$inferInsert;
+export type HolidayCalendar = typeof holidayCalendars.$inferSelect;
+export type NewHolidayCalendar = typeof holidayCalendars.$inferInsert;
 export type EmailValidationResult = typeof emailValidationResults.$inferSelect;
 export type NewEmailValidationResult = typeof emailValidationResults.$inferInsert;
 export type ContactChannel = typeof contactChannels.$inferSelect;
 export type NewContactChannel = typeof contactChannels.$inferInsert;
 export type CampaignTransition = typeof campaignTransitions.$inferSelect;
 export type NewCampaignTransition = typeof campaignTransitions.$inferInsert;
+export type CampaignTask = typeof campaignTasks.$inferSelect;
+export type NewCampaignTask = typeof campaignTasks.$inferInsert;
 export type ContactUnsubscribe = typeof contactUnsubscribes.$inferSelect;
 export type NewContactUnsubscribe = typeof contactUnsubscribes.$inferInsert;
 export type DomainValidation = typeof domainValidation.$inferSelect;
@@ -1512,8 +2102,16 @@ export type ScheduleBookingToken = typeof scheduleBookingTokens.$inferSelect;
 export type NewScheduleBookingToken = typeof scheduleBookingTokens.$inferInsert;
 export type CalendarConnection = typeof calendarConnections.$inferSelect;
 export type NewCalendarConnection = typeof calendarConnections.$inferInsert;
+export type SchedulingPool = typeof schedulingPools.$inferSelect;
+export type NewSchedulingPool = typeof schedulingPools.$inferInsert;
+export type SchedulingPoolMember = typeof schedulingPoolMembers.$inferSelect;
+export type NewSchedulingPoolMember = typeof schedulingPoolMembers.$inferInsert;
+export type MeetingType = typeof meetingTypes.$inferSelect;
+export type NewMeetingType = typeof meetingTypes.$inferInsert;
 export type ScheduledMeeting = typeof scheduledMeetings.$inferSelect;
 export type NewScheduledMeeting = typeof scheduledMeetings.$inferInsert;
+export type ScheduledMeetingHistory = typeof scheduledMeetingHistory.$inferSelect;
+export type NewScheduledMeetingHistory = typeof scheduledMeetingHistory.$inferInsert;
 export type MailAccount = typeof mailAccounts.$inferSelect;
 export type NewMailAccount = typeof mailAccounts.$inferInsert;
 export type OauthToken = typeof oauthTokens.$inferSelect;
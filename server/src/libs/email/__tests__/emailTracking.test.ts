@@ -0,0 +1,75 @@
+import { EmailTrackingLinks } from '../emailTracking';
+
+describe('EmailTrackingLinks', () => {
+  const links = new EmailTrackingLinks('https://api.example.com/', 'test-secret');
+  const context = { tenantId: 'tenant-1', outboundMessageId: 'msg-1' };
+
+  const hrefs = (html: string) =>
+    [...html.matchAll(/href="([^"]+)"/g)].map((m) => m[1]!.replace(/&amp;/g, '&'));
+
+  it('rewrites web links to signed redirects and leaves other links alone', () => {
+    const html =
+      '<p>See <a href="https://acme.com/pricing?a=1&amp;b=2">pricing</a> or ' +
+      '<a href="mailto:jane@acme.com">email me</a></p>';
+
+    const result = links.instrumentHtml(html, context);
+    const [tracked, mailto] = hrefs(result);
+
+    const url = new URL(tracked!);
+    expect(url.origin + url.pathname).toBe(
+      'https://api.example.com/api/track/click/tenant-1/msg-1'
+    );
+    expect(url.searchParams.get('u')).toBe('https://acme.com/pricing?a=1&b=2');
+    expect(
+      links.verify(
+        'click',
+        'tenant-1',
+        'msg-1',
+        url.searchParams.get('sig')!,
+        'https://acme.com/pricing?a=1&b=2'
+      )
+    ).toBe(true);
+    expect(mailto).toBe('mailto:jane@acme.com');
+  });
+
+  it('links plain-text URLs and appends the open pixel', () => {
+    const result = links.instrumentHtml('<p>Docs: https://acme.com/docs.</p>', context);
+
+    expect(result).toContain('>https://acme.com/docs</a>.</p>');
+    expect(new URL(hrefs(result)[0]!).searchParams.get('u')).toBe('https://acme.com/docs');
+    expect(result).toContain(
+      '<img src="https://api.example.com/api/track/open/tenant-1/msg-1?sig='
+    );
+  });
+
+  it('leaves URLs in the head, titles and stylesheets unlinked', () => {
+    const html =
+      '<html><head><title>See https://acme.com/title</title>' +
+      '<style>body { background: url(https://acme.com/bg.png); }</style></head>' +
+      '<body><p>Docs: https://acme.com/docs</p></body></html>';
+
+    const result = links.instrumentHtml(html, context);
+
+    expect(result).toContain('<title>See https://acme.com/title</title>');
+    expect(result).toContain('url(https://acme.com/bg.png)');
+    expect(hrefs(result).map((href) => new URL(href).searchParams.get('u'))).toEqual([
+      'https://acme.com/docs',
+    ]);
+  });
+
+  it('rejects signatures for another message or target URL', () => {
+    const clickUrl = new URL(links.buildClickUrl(context, 'https://acme.com'));
+    const sig = clickUrl.searchParams.get('sig')!;
+
+    expect(links.verify('click', 'tenant-1', 'msg-1', sig, 'https://acme.com')).toBe(true);
+    expect(links.verify('click', 'tenant-1', 'msg-2', sig, 'https://acme.com')).toBe(false);
+    expect(links.verify('click', 'tenant-1', 'msg-1', sig, 'https://evil.example')).toBe(false);
+    expect(links.verify('open', 'tenant-1', 'msg-1', undefined)).toBe(false);
+  });
+
+  it('refuses to sign links without a secret', () => {
+    expect(() => new EmailTrackingLinks('https://api.example.com', '')).toThrow(
+      'EMAIL_TRACKING_SECRET or ENCRYPTION_KEY is required'
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  buildMessageIdHeader,
+  extractEmailAddress,
+  parseReferencedMessageIds,
+} from '../messageHeaders';
+
+describe('messageHeaders', () => {
+  describe('buildMessageIdHeader', () => {
+    it('wraps the outbound message id in angle brackets with a domain', () => {
+      expect(buildMessageIdHeader('abc123')).toMatch(/^<abc123@[^<>\s]+>$/);
+    });
+  });
+
+  describe('parseReferencedMessageIds', () => {
+    it('returns In-Reply-To first, then References newest to oldest', () => {
+      expect(parseReferencedMessageIds('<c@x>', '<a@x> <b@x> <c@x>')).toEqual([
+        '<c@x>',
+        '<b@x>',
+        '<a@x>',
+      ]);
+    });
+
+    it('handles folded headers and missing values', () => {
+      expect(parseReferencedMessageIds(undefined, '<a@x>\r\n <b@x>')).toEqual(['<b@x>', '<a@x>']);
+      expect(parseReferencedMessageIds(null, null)).toEqual([]);
+    });
+  });
+
+  describe('extractEmailAddress', () => {
+    it('extracts and lowercases the address from a display-name header', () => {
+      expect(extractEmailAddress('"Jane Doe" <Jane@Acme.com>')).toBe('jane@acme.com');
+    });
+
+    it('accepts bare addresses', () => {
+      expect(extractEmailAddress(' jane@acme.com ')).toBe('jane@acme.com');
+      expect(extractEmailAddress(undefined)).toBe('');
+    });
+  });
+});
@@ -1,8 +1,10 @@
 import { mailAccountRepository, oauthTokenRepository } from '@/repositories';
+import type { MailAccount } from '@/db/schema';
 import { EmailSendBase, ProviderIds } from './email.types';
 import { GmailMailClient } from './strategies/gmail.mail.client';
 import { OutlookMailClient } from './strategies/outlook.mail.client';
 import { IEmailStrategy } from './strategies/IEmailStrategy';
+import { IInboxReader } from './strategies/IInboxReader';
 
 class EmailOrchestrator {
   async sendEmail(userId: string, email: Partial<EmailSendBase>): Promise<ProviderIds> {
@@ -10,6 +12,15 @@ class EmailOrchestrator {
     return userEmailProvider.sendEmail(email);
   }
 
+  async getInboxReader(mailAccount: MailAccount): Promise<IInboxReader> {
+    switch (mailAccount.provider) {
+      case 'google':
+        return await this.getGmailMailClient(mailAccount.id);
+      case 'microsoft':
+        return await this.getOutlookMailClient(mailAccount.id);
+    }
+  }
+
   private async getUserEmailProvider(userId: string): Promise<IEmailStrategy> {
     const primaryMailAccount = await mailAccountRepository.findPrimaryByUserId(userId);
 
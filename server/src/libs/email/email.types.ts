@@ -2,6 +2,7 @@ export type SenderValidationVerdict = 'Valid' | 'Risky' | 'Invalid';
 
 export type ProviderIds = {
   providerMessageId?: string; // X-Message-Id
+  providerThreadId?: string; // Gmail threadId / Outlook conversationId when available
   smtpIdHeader?: string; // X-SES-??? not used; keep for parity
   responseStatus: number;
   responseHeaders: Record<string, string | string[] | undefined>;
@@ -22,3 +23,17 @@ export type EmailSendBase = {
   categories?: string[]; // e.g. ["outreach","tenant:<id>"]
   asmGroupId?: number; // per-tenant unsubscribe group
 };
+
+export type InboundEmail = {
+  providerMessageId: string; // Gmail message id / Graph message id
+  providerThreadId?: string;
+  messageIdHeader?: string; // RFC 5322 Message-ID of the reply itself
+  inReplyTo?: string;
+  references?: string;
+  from: string; // bare email address
+  subject?: string;
+  text?: string;
+  html?: string;
+  receivedAt: Date;
+  headers: Record<string, string>;
+};
@@ -0,0 +1,148 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { EMAIL_TRACKING_CONFIG } from '@/config/emailTracking.config';
+
+export interface EmailTrackingContext {
+  tenantId: string;
+  outboundMessageId: string;
+}
+
+export type EmailTrackingKind = 'open' | 'click';
+
+const ANCHOR_HREF = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi;
+const BARE_URL = /\bhttps?:\/\/[^\s<>"']+[^\s<>"'.,;:!?)]/gi;
+const UNLINKED_TEXT_ELEMENTS = new Set(['a', 'head', 'title', 'style', 'script']);
+
+/**
+ * Builds the signed open pixel and click redirect URLs for a campaign email and rewrites
+ * its HTML to use them. Each URL carries an HMAC over the tenant, message and (for clicks)
+ * target URL, so the redirect cannot be reused to send people to arbitrary sites.
+ */
+export class EmailTrackingLinks {
+  private baseUrl: string;
+  private secret: string;
+
+  constructor(baseUrl: string, secret: string | undefined) {
+    // An empty key would let anyone forge tracking links, so refuse to start without one
+    if (!secret) {
+      throw new Error('EMAIL_TRACKING_SECRET or ENCRYPTION_KEY is required to sign tracking links');
+    }
+    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.secret = secret;
+  }
+
+  buildOpenUrl(context: EmailTrackingContext): string {
+    const { tenantId, outboundMessageId } = context;
+    const sig = this.sign('open', tenantId, outboundMessageId);
+    return `${this.baseUrl}/api/track/open/${tenantId}/${outboundMessageId}?sig=${sig}`;
+  }
+
+  buildClickUrl(context: EmailTrackingContext, url: string): string {
+    const { tenantId, outboundMessageId } = context;
+    const query = new URLSearchParams({
+      u: url,
+      sig: this.sign('click', tenantId, outboundMessageId, url),
+    });
+    return `${this.baseUrl}/api/track/click/${tenantId}/${outboundMessageId}?${query.toString()}`;
+  }
+
+  /**
+   * Rewrites every http(s) link in the HTML body to the click redirect and appends the
+   * open pixel. URLs written as plain text become tracked links too, since mail clients
+   * would otherwise auto-link them untracked. Links that already point at the tracking
+   * endpoints are left as they are.
+   */
+  instrumentHtml(html: string, context: EmailTrackingContext): string {
+    const trackingPrefix = `${this.baseUrl}/api/track/`;
+
+    const withTrackedLinks = this.linkBareUrls(html, context).replace(
+      ANCHOR_HREF,
+      (match, prefix: string, quote: string, href: string) => {
+        const url = decodeHtmlAttribute(href.trim());
+        // mailto:, tel: and in-page anchors are not web links and stay as they are
+        if (!/^https?:\/\//i.test(url) || url.startsWith(trackingPrefix)) {
+          return match;
+        }
+
+        const trackedUrl = this.buildClickUrl(context, url).replace(/&/g, '&amp;');
+        return `${prefix}${quote}${trackedUrl}${quote}`;
+      }
+    );
+
+    const pixel =
+      `<img src="${this.buildOpenUrl(context).replace(/&/g, '&amp;')}" width="1" height="1" ` +
+      'alt="" style="display:block;width:1px;height:1px;border:0;" />';
+
+    return /<\/body>/i.test(withTrackedLinks)
+      ? withTrackedLinks.replace(/<\/body>/i, `${pixel}</body>`)
+      : `${withTrackedLinks}${pixel}`;
+  }
+
+  verify(
+    kind: EmailTrackingKind,
+    tenantId: string,
+    outboundMessageId: string,
+    signature: string | undefined,
+    url?: string
+  ): boolean {
+    if (!signature) return false;
+
+    const expected = Buffer.from(this.sign(kind, tenantId, outboundMessageId, url));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Links URLs written out as text. Text that isn't rendered as body copy (the head,
+   * titles, stylesheets, scripts) or is already inside a link is left alone.
+   */
+  private linkBareUrls(html: string, context: EmailTrackingContext): string {
+    let skippedElement: string | null = null; // Outermost element whose text is left alone
+
+    return html
+      .split(/(<[^>]+>)/)
+      .map((part) => {
+        if (part.startsWith('<')) {
+          const [, closing, name] = /^<(\/?)([a-z][a-z0-9]*)/i.exec(part) ?? [];
+          const tag = name?.toLowerCase();
+          if (!skippedElement && !closing && tag && UNLINKED_TEXT_ELEMENTS.has(tag)) {
+            skippedElement = tag;
+          } else if (closing && tag === skippedElement) {
+            skippedElement = null;
+          }
+          return part;
+        }
+
+        if (skippedElement) return part;
+
+        return part.replace(BARE_URL, (url) => {
+          const href = this.buildClickUrl(context, decodeHtmlAttribute(url)).replace(/&/g, '&amp;');
+          return `<a href="${href}">${url}</a>`;
+        });
+      })
+      .join('');
+  }
+
+  private sign(
+    kind: EmailTrackingKind,
+    tenantId: string,
+    outboundMessageId: string,
+    url?: string
+  ): string {
+    return createHmac('sha256', this.secret)
+      .update([kind, tenantId, outboundMessageId, url ?? ''].join('\n'))
+      .digest('base64url');
+  }
+}
+
+const decodeHtmlAttribute = (value: string): string =>
+  value
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+
+export const emailTrackingLinks = new EmailTrackingLinks(
+  process.env.API_URL || '',
+  EMAIL_TRACKING_CONFIG.SIGNING_SECRET
+);
@@ -0,0 +1,42 @@
+import { API_URL } from '@/config';
+
+const FALLBACK_MESSAGE_ID_DOMAIN = 'dripiq.ai';
+
+const getMessageIdDomain = (): string => {
+  if (!API_URL) return FALLBACK_MESSAGE_ID_DOMAIN;
+  try {
+    return new URL(API_URL).hostname || FALLBACK_MESSAGE_ID_DOMAIN;
+  } catch {
+    return FALLBACK_MESSAGE_ID_DOMAIN;
+  }
+};
+
+/**
+ * Builds the RFC 5322 Message-ID we stamp on outbound campaign emails.
+ * Replies echo it back in In-Reply-To / References, which is how we correlate them.
+ */
+export const buildMessageIdHeader = (outboundMessageId: string): string =>
+  `<${outboundMessageId}@${getMessageIdDomain()}>`;
+
+/**
+ * Returns every `<id@host>` referenced by a reply, closest ancestor first.
+ * In-Reply-To points at the direct parent; References is ordered oldest to newest.
+ */
+export const parseReferencedMessageIds = (
+  inReplyTo?: string | null,
+  references?: string | null
+): string[] => {
+  const extract = (value?: string | null) => value?.match(/<[^<>\s]+>/g) ?? [];
+
+  const ordered = [...extract(inReplyTo), ...extract(references).reverse()];
+  return Array.from(new Set(ordered));
+};
+
+/**
+ * Extracts the bare address from a header value such as `"Jane Doe" <jane@acme.com>`.
+ */
+export const extractEmailAddress = (value?: string | null): string => {
+  if (!value) return '';
+  const match = value.match(/<([^<>\s]+@[^<>\s]+)>/);
+  return (match?.[1] ?? value).trim().toLowerCase();
+};
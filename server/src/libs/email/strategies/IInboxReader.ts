@@ -0,0 +1,6 @@
+import { InboundEmail } from '../email.types';
+
+export interface IInboxReader {
+  /** Inbox messages received after `since`, oldest first, capped at `limit`. */
+  listInboundEmails(since: Date, limit: number): Promise<InboundEmail[]>;
+}
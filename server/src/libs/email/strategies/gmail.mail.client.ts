@@ -1,7 +1,9 @@
 import { gmail_v1, google } from 'googleapis';
 import { logger } from '@/libs/logger';
-import { EmailSendBase, ProviderIds } from '../email.types';
+import { EmailSendBase, InboundEmail, ProviderIds } from '../email.types';
+import { extractEmailAddress } from '../messageHeaders';
 import { IEmailStrategy } from './IEmailStrategy';
+import { IInboxReader } from './IInboxReader';
 
 const CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
 const CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
@@ -16,7 +18,7 @@ if (!CLIENT_SECRET) {
   throw new Error('Missing Google Client Secret');
 }
 
-export class GmailMailClient implements IEmailStrategy {
+export class GmailMailClient implements IEmailStrategy, IInboxReader {
   private gmail: gmail_v1.Gmail;
   constructor(refreshToken: string) {
     const googleAuth = new google.auth.OAuth2({
@@ -43,17 +45,90 @@ export class GmailMailClient implements IEmailStrategy {
 
     return {
       providerMessageId: response.data.id || undefined,
+      providerThreadId: response.data.threadId || undefined,
       responseStatus: response.status || 200,
       responseHeaders: response.headers || {},
     };
   }
 
+  async listInboundEmails(since: Date, limit: number): Promise<InboundEmail[]> {
+    const afterSeconds = Math.floor(since.getTime() / 1000);
+    const messageRefs: gmail_v1.Schema$Message[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const listResponse = await this.gmail.users.messages.list({
+        userId: 'me',
+        q: `in:inbox after:${afterSeconds}`,
+        pageToken,
+      });
+      messageRefs.push(...(listResponse.data.messages ?? []));
+      pageToken = listResponse.data.nextPageToken ?? undefined;
+    } while (pageToken);
+
+    // Gmail lists newest first; process the oldest messages so the sync cursor moves forward
+    const oldestRefs = messageRefs.reverse().slice(0, limit);
+    const inboundEmails: InboundEmail[] = [];
+
+    for (const ref of oldestRefs) {
+      if (!ref.id) continue;
+
+      const { data: message } = await this.gmail.users.messages.get({
+        userId: 'me',
+        id: ref.id,
+        format: 'full',
+      });
+
+      const headers = Object.fromEntries(
+        (message.payload?.headers ?? [])
+          .filter((header) => header.name && header.value)
+          .map((header) => [header.name!.toLowerCase(), header.value!])
+      );
+      const receivedAt = message.internalDate ? new Date(Number(message.internalDate)) : new Date();
+
+      // `after:` is second-granular, so drop anything at or before the sync cursor
+      if (receivedAt <= since) continue;
+
+      inboundEmails.push({
+        providerMessageId: message.id ?? ref.id,
+        providerThreadId: message.threadId ?? undefined,
+        messageIdHeader: headers['message-id'],
+        inReplyTo: headers['in-reply-to'],
+        references: headers['references'],
+        from: extractEmailAddress(headers['from']),
+        subject: headers['subject'],
+        text: findBodyPart(message.payload, 'text/plain'),
+        html: findBodyPart(message.payload, 'text/html'),
+        receivedAt,
+        headers,
+      });
+    }
+
+    return inboundEmails.sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+
+    function findBodyPart(
+      part: gmail_v1.Schema$MessagePart | undefined,
+      mimeType: string
+    ): string | undefined {
+      if (!part) return undefined;
+      if (part.mimeType === mimeType && part.body?.data) {
+        return Buffer.from(part.body.data, 'base64url').toString('utf8');
+      }
+      for (const child of part.parts ?? []) {
+        const found = findBodyPart(child, mimeType);
+        if (found) return found;
+      }
+      return undefined;
+    }
+  }
+
   private buildBase64Email(email: Partial<EmailSendBase>): { raw: string } {
-    const { to, from, subject, html, text } = email;
+    const { to, from, subject, html, text, headers } = email;
 
     const CRLF = '\r\n';
     const date = new Date().toUTCString();
-    const messageId = `<${Date.now()}.${Math.random().toString(36).slice(2)}@example>`;
+    const messageId =
+      headers?.['Message-ID'] || `<${Date.now()}.${Math.random().toString(36).slice(2)}@example>`;
     const hasBoth = !!html && !!text;
 
     let rfc822: string;
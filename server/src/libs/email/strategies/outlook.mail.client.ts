@@ -1,10 +1,23 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { getMicrosoftOAuth2Client } from '@/libs/thirdPartyAuth/MicrosoftAuth';
 import { logger } from '@/libs/logger';
-import { EmailSendBase, ProviderIds } from '../email.types';
+import { EmailSendBase, InboundEmail, ProviderIds } from '../email.types';
+import { extractEmailAddress } from '../messageHeaders';
 import { IEmailStrategy } from './IEmailStrategy';
+import { IInboxReader } from './IInboxReader';
 
-export class OutlookMailClient implements IEmailStrategy {
+type GraphInboxMessage = {
+  id: string;
+  conversationId?: string;
+  internetMessageId?: string;
+  internetMessageHeaders?: { name: string; value: string }[];
+  from?: { emailAddress?: { address?: string } };
+  subject?: string;
+  body?: { contentType?: string; content?: string };
+  receivedDateTime: string;
+};
+
+export class OutlookMailClient implements IEmailStrategy, IInboxReader {
   private graphClient: Client;
   private refreshToken: string;
 
@@ -32,7 +45,7 @@ export class OutlookMailClient implements IEmailStrategy {
 
   async sendEmail(email: Partial<EmailSendBase>): Promise<ProviderIds> {
     try {
-      const { to, from, subject, html, text } = email;
+      const { to, from, subject, html, text, headers } = email;
 
       if (!to || !subject) {
         throw new Error('Missing required email fields: to, subject');
@@ -52,6 +65,9 @@ export class OutlookMailClient implements IEmailStrategy {
             },
           },
         ],
+        ...(headers?.['Message-ID'] && {
+          internetMessageId: headers['Message-ID'],
+        }),
         ...(from && {
           from: {
             emailAddress: {
@@ -84,6 +100,44 @@ export class OutlookMailClient implements IEmailStrategy {
     }
   }
 
+  async listInboundEmails(since: Date, limit: number): Promise<InboundEmail[]> {
+    const response = await this.graphClient
+      .api('/me/mailFolders/inbox/messages')
+      .filter(`receivedDateTime gt ${since.toISOString()}`)
+      .select(
+        'id,conversationId,internetMessageId,internetMessageHeaders,from,subject,body,receivedDateTime'
+      )
+      .orderby('receivedDateTime asc')
+      .top(limit)
+      .get();
+
+    const messages: GraphInboxMessage[] = response?.value ?? [];
+
+    return messages.map((message) => {
+      const headers = Object.fromEntries(
+        (message.internetMessageHeaders ?? []).map((header) => [
+          header.name.toLowerCase(),
+          header.value,
+        ])
+      );
+      const isHtml = message.body?.contentType?.toLowerCase() === 'html';
+
+      return {
+        providerMessageId: message.id,
+        providerThreadId: message.conversationId,
+        messageIdHeader: message.internetMessageId ?? headers['message-id'],
+        inReplyTo: headers['in-reply-to'],
+        references: headers['references'],
+        from: extractEmailAddress(message.from?.emailAddress?.address),
+        subject: message.subject,
+        text: isHtml ? undefined : message.body?.content,
+        html: isHtml ? message.body?.content : undefined,
+        receivedAt: new Date(message.receivedDateTime),
+        headers,
+      };
+    });
+  }
+
   // Helper method to test the connection
   async testConnection(): Promise<boolean> {
     try {
@@ -0,0 +1,39 @@
+import { SMS_CONFIG } from '@/config/sms.config';
+import { SmsProviderIds, SmsSendBase } from './sms.types';
+import { FakeSmsClient } from './strategies/fake.sms.client';
+import { ISmsStrategy } from './strategies/ISmsStrategy';
+import { TwilioSmsClient } from './strategies/twilio.sms.client';
+
+class SmsOrchestrator {
+  private provider: ISmsStrategy | null = null;
+
+  async sendSms(sms: SmsSendBase): Promise<SmsProviderIds> {
+    return this.getProvider().sendSms(sms);
+  }
+
+  getFromNumber(): string {
+    if (!SMS_CONFIG.FROM_NUMBER && SMS_CONFIG.PROVIDER !== 'fake') {
+      throw new Error('SMS_FROM_NUMBER is not configured');
+    }
+    return SMS_CONFIG.FROM_NUMBER || '+15550000000';
+  }
+
+  private getProvider(): ISmsStrategy {
+    if (!this.provider) {
+      switch (SMS_CONFIG.PROVIDER) {
+        case 'twilio':
+          this.provider = new TwilioSmsClient(
+            SMS_CONFIG.TWILIO_ACCOUNT_SID,
+            SMS_CONFIG.TWILIO_AUTH_TOKEN
+          );
+          break;
+        case 'fake':
+          this.provider = new FakeSmsClient();
+          break;
+      }
+    }
+    return this.provider;
+  }
+}
+
+export const smsOrchestrator = new SmsOrchestrator();
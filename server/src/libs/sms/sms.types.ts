@@ -0,0 +1,29 @@
+export type SmsSendBase = {
+  tenantId: string;
+  campaignId: string;
+  nodeId: string;
+  outboundMessageId: string; // your DB id for outbound_messages
+  from: string; // E.164 number or provider sender id
+  to: string; // E.164 number
+  body: string;
+  statusCallbackUrl?: string;
+};
+
+export type SmsProviderIds = {
+  providerMessageId: string; // Twilio MessageSid
+  status?: string; // provider delivery status at submit time (queued, sent, ...)
+};
+
+export type InboundSms = {
+  providerMessageId: string; // Twilio MessageSid
+  from: string; // E.164 number of the sender
+  to: string; // our number
+  body: string;
+  receivedAt: Date;
+  raw: Record<string, string>;
+};
+
+export type SmsStatusUpdate = {
+  providerMessageId: string; // Twilio MessageSid
+  status: string; // queued, sent, delivered, undelivered, failed, ...
+};
@@ -0,0 +1,5 @@
+import { SmsProviderIds, SmsSendBase } from '../sms.types';
+
+export interface ISmsStrategy {
+  sendSms(sms: SmsSendBase): Promise<SmsProviderIds>;
+}
@@ -0,0 +1,30 @@
+import { randomUUID } from 'crypto';
+import { logger } from '@/libs/logger';
+import { SmsProviderIds, SmsSendBase } from '../sms.types';
+import { ISmsStrategy } from './ISmsStrategy';
+
+/**
+ * Local provider for development and tests. Nothing leaves the process; sent messages
+ * are logged and kept in memory so tests can assert on them.
+ */
+export class FakeSmsClient implements ISmsStrategy {
+  static readonly sentMessages: (SmsSendBase & SmsProviderIds)[] = [];
+
+  async sendSms(sms: SmsSendBase): Promise<SmsProviderIds> {
+    const ids = { providerMessageId: `SMfake${randomUUID().replace(/-/g, '')}`, status: 'sent' };
+    FakeSmsClient.sentMessages.push({ ...sms, ...ids });
+
+    logger.info('[FakeSmsClient] SMS captured (not sent)', {
+      tenantId: sms.tenantId,
+      outboundMessageId: sms.outboundMessageId,
+      to: sms.to,
+      providerMessageId: ids.providerMessageId,
+    });
+
+    return ids;
+  }
+
+  static reset(): void {
+    FakeSmsClient.sentMessages.length = 0;
+  }
+}
@@ -0,0 +1,115 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import axios from 'axios';
+import { logger } from '@/libs/logger';
+import { InboundSms, SmsProviderIds, SmsSendBase, SmsStatusUpdate } from '../sms.types';
+import { ISmsStrategy } from './ISmsStrategy';
+
+const TWILIO_API_BASE = 'https://api.twilio.com/2010-04-01';
+
+type TwilioMessageResponse = {
+  sid: string;
+  status: string;
+};
+
+type TwilioErrorResponse = {
+  code?: number;
+  message?: string;
+};
+
+export class TwilioSmsClient implements ISmsStrategy {
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string
+  ) {
+    if (!accountSid || !authToken) {
+      throw new Error('TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN are required for SMS');
+    }
+  }
+
+  async sendSms(sms: SmsSendBase): Promise<SmsProviderIds> {
+    const form = new URLSearchParams({ To: sms.to, Body: sms.body });
+    // Messaging service SIDs let Twilio pick the sender from a pool
+    if (sms.from.startsWith('MG')) {
+      form.set('MessagingServiceSid', sms.from);
+    } else {
+      form.set('From', sms.from);
+    }
+    if (sms.statusCallbackUrl) {
+      form.set('StatusCallback', sms.statusCallbackUrl);
+    }
+
+    const res = await axios.post<TwilioMessageResponse | TwilioErrorResponse>(
+      `${TWILIO_API_BASE}/Accounts/${this.accountSid}/Messages.json`,
+      form.toString(),
+      {
+        auth: { username: this.accountSid, password: this.authToken },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        validateStatus: () => true,
+      }
+    );
+
+    if (res.status < 200 || res.status >= 300) {
+      const error = res.data as TwilioErrorResponse;
+      logger.error('[TwilioSmsClient] Send failed', {
+        outboundMessageId: sms.outboundMessageId,
+        status: res.status,
+        code: error?.code,
+      });
+      throw new Error(`Twilio send failed: ${error?.message || `HTTP ${res.status}`}`);
+    }
+
+    const message = res.data as TwilioMessageResponse;
+    return { providerMessageId: message.sid, status: message.status };
+  }
+
+  /**
+   * Checks an X-Twilio-Signature: base64 HMAC-SHA1 of the full webhook URL followed by
+   * every POST parameter name and value, sorted by name.
+   */
+  static validateSignature(
+    authToken: string,
+    url: string,
+    params: Record<string, string>,
+    signature: string | undefined
+  ): boolean {
+    if (!signature) return false;
+
+    const data = Object.keys(params)
+      .sort()
+      .reduce((acc, key) => acc + key + params[key], url);
+    const expected = createHmac('sha1', authToken).update(data, 'utf8').digest('base64');
+
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  /**
+   * Maps an inbound message webhook payload to an InboundSms
+   */
+  static parseInbound(params: Record<string, string>): InboundSms {
+    if (!params.MessageSid || !params.From) {
+      throw new Error('Inbound SMS payload is missing MessageSid or From');
+    }
+
+    return {
+      providerMessageId: params.MessageSid,
+      from: params.From,
+      to: params.To ?? '',
+      body: params.Body ?? '',
+      receivedAt: new Date(),
+      raw: params,
+    };
+  }
+
+  /**
+   * Maps a message status callback payload to an SmsStatusUpdate
+   */
+  static parseStatus(params: Record<string, string>): SmsStatusUpdate {
+    if (!params.MessageSid || !params.MessageStatus) {
+      throw new Error('SMS status payload is missing MessageSid or MessageStatus');
+    }
+
+    return { providerMessageId: params.MessageSid, status: params.MessageStatus };
+  }
+}
@@ -0,0 +1,52 @@
+import { evaluateVariants } from '../abTest.service';
+import { twoProportionZTest } from '../significance';
+
+jest.mock('@/db', () => ({ db: {} }));
+jest.mock('@/repositories', () => ({ abTestWinnerRepository: {} }));
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const counts = (variantId: string, sent: number, replied: number) => ({
+  testKey: 'email_intro:0a1b2c3d',
+  stepKey: 'email_intro',
+  variantId,
+  sent,
+  delivered: sent,
+  opened: 0,
+  clicked: 0,
+  replied,
+  bounced: 0,
+  calendarClicks: 0,
+  meetings: 0,
+});
+
+describe('A/B test evaluation', () => {
+  it('matches a textbook two-proportion z-test', () => {
+    const result = twoProportionZTest(60, 200, 40, 200);
+
+    expect(result.zScore).toBeCloseTo(2.31, 2);
+    expect(result.pValue).toBeCloseTo(0.0209, 3);
+  });
+
+  it('treats empty or identical samples as indistinguishable', () => {
+    expect(twoProportionZTest(0, 0, 5, 10).pValue).toBe(1);
+    expect(twoProportionZTest(0, 50, 0, 50).pValue).toBe(1);
+  });
+
+  it('marks a clear leader as significant', () => {
+    const result = evaluateVariants([counts('a', 200, 40), counts('b', 200, 60)], 'replied');
+
+    expect(result.leaderVariantId).toBe('b');
+    expect(result.significant).toBe(true);
+    expect(result.variants[0]).toMatchObject({ variantId: 'b', isLeader: true, pValue: null });
+    expect(result.variants[1]).toMatchObject({ variantId: 'a', metricRate: 20, significant: true });
+  });
+
+  it('does not call a winner on small samples', () => {
+    const result = evaluateVariants([counts('a', 10, 2), counts('b', 10, 3)], 'replied');
+
+    expect(result.leaderVariantId).toBe('b');
+    expect(result.significant).toBe(false);
+  });
+});
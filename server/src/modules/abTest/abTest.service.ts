@@ -0,0 +1,237 @@
+import { logger } from '@/libs/logger';
+import { NotFoundError } from '@/exceptions/error';
+import { abTestWinnerRepository } from '@/repositories';
+import type { AbTestWinner } from '@/db/schema';
+import type { AbTestMetric } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import {
+  campaignAnalyticsService,
+  toFunnelMetrics,
+  type AnalyticsFilters,
+  type FunnelCounts,
+  type FunnelMetrics,
+  type VariantCounts,
+} from '@/modules/analytics';
+import {
+  getAbTestKey,
+  resolveSendContent,
+  type ResolvedSendContent,
+  type SendPlanNode,
+} from '@/modules/campaign/planVariants';
+import { twoProportionZTest } from './significance';
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+const METRIC_COUNTS: Record<AbTestMetric, keyof FunnelCounts> = {
+  opened: 'opened',
+  clicked: 'clicked',
+  replied: 'replied',
+  meeting: 'meetings',
+};
+
+export interface AbTestVariantResult extends FunnelMetrics {
+  variantId: string;
+  metricRate: number; // Percentage of sends that converted on the test's metric
+  pValue: number | null; // Against the leader; null for the leader itself
+  significant: boolean; // Differs from the leader at the 95% level
+  isLeader: boolean;
+}
+
+export interface AbTestEvaluation {
+  leaderVariantId: string | null;
+  significant: boolean; // Leader beats every other variant at the 95% level
+  variants: AbTestVariantResult[];
+}
+
+export interface AbTestResult extends AbTestEvaluation {
+  testKey: string;
+  stepKey: string; // Plan step the test runs on, for display
+  metric: AbTestMetric;
+  totalSent: number;
+  winner: {
+    variantId: string;
+    metric: string;
+    promotedBy: string | null; // Null when auto-promoted
+    promotedAt: Date;
+  } | null;
+}
+
+/**
+ * Ranks a test's variants on one metric and tests each against the leader
+ * with a two-proportion z-test.
+ */
+export function evaluateVariants(rows: VariantCounts[], metric: AbTestMetric): AbTestEvaluation {
+  const field = METRIC_COUNTS[metric];
+  const rateOf = (row: VariantCounts) => (row.sent > 0 ? row[field] / row.sent : 0);
+
+  const ranked = [...rows].sort((a, b) => rateOf(b) - rateOf(a) || b.sent - a.sent);
+  const leader = ranked[0];
+  if (!leader) return { leaderVariantId: null, significant: false, variants: [] };
+
+  const variants = ranked.map((row) => {
+    const isLeader = row === leader;
+    const pValue = isLeader
+      ? null
+      : twoProportionZTest(leader[field], leader.sent, row[field], row.sent).pValue;
+    const { testKey: _testKey, stepKey: _stepKey, variantId, ...counts } = row;
+    const metrics = toFunnelMetrics(counts);
+
+    return {
+      variantId,
+      ...metrics,
+      metricRate: Math.round(rateOf(row) * 10000) / 100,
+      pValue: pValue === null ? null : Math.round(pValue * 10000) / 10000,
+      significant: pValue !== null && pValue < SIGNIFICANCE_LEVEL,
+      isLeader,
+    };
+  });
+
+  return {
+    leaderVariantId: leader.variantId,
+    significant: variants.length > 1 && variants.every((v) => v.isLeader || v.significant),
+    variants,
+  };
+}
+
+/**
+ * A/B tests on campaign send steps, keyed by getAbTestKey so unrelated plans reusing a
+ * step name stay apart. Each contact is assigned a variant by a stable hash, until a
+ * winner is promoted (by hand, or automatically once enough sends show a significant
+ * leader) and every later send in the test uses it.
+ */
+export class AbTestService {
+  /**
+   * Subject/body a contact gets for a send node, which variant that was and the test
+   * it counts toward
+   */
+  async resolveVariant(
+    tenantId: string,
+    contactId: string,
+    node: SendPlanNode
+  ): Promise<ResolvedSendContent & { abTestKey: string | null }> {
+    if (!node.variants?.length) return { node, variantId: null, abTestKey: null };
+
+    const abTestKey = getAbTestKey(node);
+    const winner = await abTestWinnerRepository.findByTestForTenant(tenantId, abTestKey);
+    return { ...resolveSendContent(node, contactId, winner?.variantId), abTestKey };
+  }
+
+  async getTests(
+    tenantId: string,
+    filters: AnalyticsFilters,
+    metric: AbTestMetric
+  ): Promise<AbTestResult[]> {
+    const [rows, winners] = await Promise.all([
+      campaignAnalyticsService.getVariantCounts(tenantId, filters),
+      abTestWinnerRepository.findAllForTenant(tenantId),
+    ]);
+    const winnersByTest = new Map(winners.map((winner) => [winner.testKey, winner]));
+
+    const tests = new Map<string, VariantCounts[]>();
+    for (const row of rows) {
+      tests.set(row.testKey, [...(tests.get(row.testKey) ?? []), row]);
+    }
+
+    return [...tests.entries()]
+      .map(([testKey, testRows]) => {
+        const winner = winnersByTest.get(testKey);
+        return {
+          testKey,
+          stepKey: testRows[0]?.stepKey ?? testKey,
+          metric,
+          totalSent: testRows.reduce((sum, row) => sum + row.sent, 0),
+          winner: winner
+            ? {
+                variantId: winner.variantId,
+                metric: winner.metric,
+                promotedBy: winner.promotedBy,
+                promotedAt: winner.updatedAt,
+              }
+            : null,
+          ...evaluateVariants(testRows, metric),
+        };
+      })
+      .sort((a, b) => b.totalSent - a.totalSent);
+  }
+
+  async promoteWinner(
+    tenantId: string,
+    testKey: string,
+    variantId: string,
+    metric: AbTestMetric,
+    userId: string
+  ): Promise<AbTestWinner> {
+    const rows = await campaignAnalyticsService.getVariantCounts(tenantId, {
+      abTestKey: testKey,
+    });
+    if (!rows.some((row) => row.variantId === variantId)) {
+      throw new NotFoundError(`Variant ${variantId} has not been sent for test ${testKey}`);
+    }
+
+    const winner = await abTestWinnerRepository.upsertForTenant(tenantId, {
+      testKey,
+      variantId,
+      metric,
+      promotedBy: userId,
+    });
+    logger.info('[AbTestService] Winner promoted', { tenantId, testKey, variantId, userId });
+    return winner;
+  }
+
+  async clearWinner(tenantId: string, testKey: string): Promise<void> {
+    const deleted = await abTestWinnerRepository.deleteByTestForTenant(tenantId, testKey);
+    if (!deleted) {
+      throw new NotFoundError(`No winner has been promoted for test ${testKey}`);
+    }
+    logger.info('[AbTestService] Winner cleared', { tenantId, testKey });
+  }
+
+  /**
+   * Called after each send of a node with `abTest.autoPromoteAfter`, with the test key
+   * resolveVariant returned. Once the test has that many sends and the leader is
+   * significantly ahead, it becomes the winner. Never throws; a failed check just waits
+   * for the next send.
+   */
+  async maybePromoteWinner(
+    tenantId: string,
+    node: SendPlanNode,
+    testKey: string | null
+  ): Promise<void> {
+    const settings = node.abTest;
+    if (!testKey || !settings?.autoPromoteAfter || (node.variants?.length ?? 0) < 2) return;
+
+    try {
+      if (await abTestWinnerRepository.findByTestForTenant(tenantId, testKey)) return;
+
+      const rows = await campaignAnalyticsService.getVariantCounts(tenantId, {
+        abTestKey: testKey,
+      });
+      const totalSent = rows.reduce((sum, row) => sum + row.sent, 0);
+      if (totalSent < settings.autoPromoteAfter) return;
+
+      const evaluation = evaluateVariants(rows, settings.metric);
+      if (!evaluation.significant || !evaluation.leaderVariantId) return;
+
+      await abTestWinnerRepository.upsertForTenant(tenantId, {
+        testKey,
+        variantId: evaluation.leaderVariantId,
+        metric: settings.metric,
+        promotedBy: null,
+      });
+      logger.info('[AbTestService] Winner auto-promoted', {
+        tenantId,
+        testKey,
+        variantId: evaluation.leaderVariantId,
+        metric: settings.metric,
+        totalSent,
+      });
+    } catch (error) {
+      logger.warn('[AbTestService] Failed to check for an A/B test winner', {
+        tenantId,
+        testKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+export const abTestService = new AbTestService();
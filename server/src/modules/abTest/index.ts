@@ -0,0 +1,9 @@
+export {
+  AbTestService,
+  abTestService,
+  evaluateVariants,
+  SIGNIFICANCE_LEVEL,
+} from './abTest.service';
+export { normalCdf, twoProportionZTest } from './significance';
+export type { AbTestEvaluation, AbTestResult, AbTestVariantResult } from './abTest.service';
+export type { ProportionTest } from './significance';
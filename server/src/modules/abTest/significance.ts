@@ -0,0 +1,42 @@
+export interface ProportionTest {
+  zScore: number;
+  pValue: number; // Two-sided
+}
+
+/**
+ * Error function (Abramowitz & Stegun 7.1.26, max error 1.5e-7)
+ */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return sign * y;
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/**
+ * Two-proportion z-test comparing conversion rates of two variants. Returns p = 1 when
+ * either side has no sends or the pooled rate is 0% or 100%, since nothing can be told apart.
+ */
+export function twoProportionZTest(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number
+): ProportionTest {
+  if (totalA === 0 || totalB === 0) return { zScore: 0, pValue: 1 };
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return { zScore: 0, pValue: 1 };
+
+  const zScore = (successesA / totalA - successesB / totalB) / standardError;
+  return { zScore, pValue: 2 * (1 - normalCdf(Math.abs(zScore))) };
+}
@@ -0,0 +1,36 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { campaignPlanOutputSchema } from '../schemas/contactStrategy/contactCampaignStrategySchema';
+
+// The client's plan editor keeps its own copy of this schema and checks it against the
+// same file, so a field added here fails until the client copy has it too.
+const FIXTURE_PATH = path.resolve(
+  __dirname,
+  '../../../../../client/src/utils/campaignPlanSchema.server.json'
+);
+
+// JSON Schema without descriptions, keys sorted, so only the accepted shape is compared
+const toComparableJsonSchema = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(toComparableJsonSchema);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => key !== 'description')
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, nested]) => [key, toComparableJsonSchema(nested)])
+  );
+};
+
+describe('campaignPlanOutputSchema', () => {
+  it('matches the shape the client plan editor validates against', () => {
+    const shape = toComparableJsonSchema(z.toJSONSchema(campaignPlanOutputSchema, { io: 'input' }));
+
+    // UPDATE_PLAN_SCHEMA_FIXTURE=1 regenerates the file after a schema change
+    if (process.env.UPDATE_PLAN_SCHEMA_FIXTURE) {
+      fs.writeFileSync(FIXTURE_PATH, `${JSON.stringify(shape, null, 2)}\n`);
+    }
+
+    expect(shape).toEqual(JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8')));
+  });
+});
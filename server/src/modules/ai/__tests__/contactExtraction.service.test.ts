@@ -77,6 +77,8 @@ const createMockLeadPointOfContact = (
   company: null,
   sourceUrl: null,
   emailVerificationResult: 'unknown',
+  location: null,
+  timezone: null,
   manuallyReviewed: false,
   strategyStatus: 'none',
   createdAt: new Date(),
@@ -657,6 +659,8 @@ describe('ContactExtractionService', () => {
         company: null,
         sourceUrl: null,
         emailVerificationResult: 'unknown',
+        location: null,
+        timezone: null,
         manuallyReviewed: false,
         strategyStatus: 'none',
         createdAt: new Date(),
@@ -806,6 +810,8 @@ describe('ContactExtractionService', () => {
         company: null,
         sourceUrl: null,
         emailVerificationResult: 'unknown',
+        location: null,
+        timezone: null,
         manuallyReviewed: false,
         strategyStatus: 'none',
         createdAt: new Date(),
@@ -822,6 +828,8 @@ describe('ContactExtractionService', () => {
         company: null,
         sourceUrl: null,
         emailVerificationResult: 'unknown',
+        location: null,
+        timezone: null,
         manuallyReviewed: false,
         strategyStatus: 'none',
         createdAt: new Date(),
@@ -1040,6 +1048,8 @@ describe('ContactExtractionService', () => {
           company: null,
           sourceUrl: null,
           emailVerificationResult: 'unknown',
+          location: null,
+          timezone: null,
           manuallyReviewed: false,
           strategyStatus: 'none',
           createdAt: new Date(),
@@ -1188,6 +1198,8 @@ describe('ContactExtractionService', () => {
           company: null,
           sourceUrl: 'https://www.topdoglaw.com/',
           emailVerificationResult: 'ok_for_all',
+          location: null,
+          timezone: null,
           manuallyReviewed: false,
           strategyStatus: 'completed',
           createdAt: new Date('2025-10-02T17:43:23.638Z'),
@@ -1203,6 +1215,8 @@ describe('ContactExtractionService', () => {
           company: 'Helm Law Group, LLC',
           sourceUrl: 'https://www.topdoglaw.com',
           emailVerificationResult: 'unknown',
+          location: null,
+          timezone: null,
           manuallyReviewed: false,
           strategyStatus: 'completed',
           createdAt: new Date('2025-10-02T17:49:38.381Z'),
@@ -5,6 +5,7 @@ import { NewLeadPointOfContact, LeadPointOfContact } from '@/db/schema';
 import { leadPointOfContactRepository, leadRepository } from '@/repositories';
 import { emailListVerifyClient } from '@/libs/email/emailListVerify.client';
 import { createContact } from '../lead.service';
+import { contactChannelService } from '../contactChannel';
 import { ExtractedContact } from './schemas/contactExtraction/contactExtractionSchema';
 import { CONTACT_CONTEXT, CONTACT_CONFIDENCE } from './constants/contactContext';
 import { contactExtractionAgent } from './langchain';
@@ -21,6 +22,29 @@ const isWebDataContact = (contact: ExtractedContact): boolean => {
   );
 };
 
+/**
+ * Adds a dropped duplicate's email to the kept contact's additionalEmails
+ */
+const foldAdditionalEmails = (
+  contacts: ExtractedContact[],
+  keptIndex: number,
+  duplicate: ExtractedContact
+): void => {
+  const kept = contacts[keptIndex];
+  if (!kept) return;
+
+  const emails = [duplicate.email, ...(duplicate.additionalEmails ?? [])].filter(
+    (email): email is string =>
+      !!email && email.toLowerCase().trim() !== kept.email?.toLowerCase().trim()
+  );
+  if (emails.length === 0) return;
+
+  contacts[keptIndex] = {
+    ...kept,
+    additionalEmails: [...new Set([...(kept.additionalEmails ?? []), ...emails])],
+  };
+};
+
 export const ContactExtractionService = {
   /**
    * Extract contacts from a domain and save them to a lead
@@ -79,6 +103,8 @@ export const ContactExtractionService = {
         `Successfully processed ${processedContacts.created} new and ${processedContacts.updated} updated contacts for leadId: ${leadId}`
       );
 
+      await ContactExtractionService.updateLeadAddress(tenantId, leadId, deduplicatedContacts);
+
       return {
         contactsCreated: processedContacts.created,
         contactsUpdated: processedContacts.updated,
@@ -96,7 +122,8 @@ export const ContactExtractionService = {
   },
 
   /**
-   * Deduplicate contacts based on email, phone, and name similarity
+   * Deduplicate contacts based on email, phone, and name similarity. The email of a
+   * dropped phone or name duplicate is kept on the surviving contact's additionalEmails.
    */
   deduplicateContacts: (contacts: ExtractedContact[]): ExtractedContact[] => {
     const deduplicatedContacts: ExtractedContact[] = [];
@@ -124,11 +151,17 @@ export const ContactExtractionService = {
       const normalizedPhone = contact.phone ? normalizePhoneForComparison(contact.phone) : null;
       if (normalizedPhone && seenPhones.has(normalizedPhone)) {
         logger.debug(`Skipping duplicate phone contact: ${contact.name} (${normalizedPhone})`);
+        const keptIndex = deduplicatedContacts.findIndex(
+          (existingContact) =>
+            !!existingContact.phone &&
+            normalizePhoneForComparison(existingContact.phone) === normalizedPhone
+        );
+        foldAdditionalEmails(deduplicatedContacts, keptIndex, contact);
         continue;
       }
 
       // Check for name-based duplicates (similar names with same contact type)
-      const isDuplicateName = deduplicatedContacts.some((existingContact) => {
+      const duplicateNameIndex = deduplicatedContacts.findIndex((existingContact) => {
         if (contact.contactType !== existingContact.contactType) return false;
 
         const nameSimilarity = compareTwoStrings(
@@ -140,8 +173,9 @@ export const ContactExtractionService = {
         return nameSimilarity > 0.8;
       });
 
-      if (isDuplicateName) {
+      if (duplicateNameIndex >= 0) {
         logger.debug(`Skipping duplicate name contact: ${contact.name}`);
+        foldAdditionalEmails(deduplicatedContacts, duplicateNameIndex, contact);
         continue;
       }
 
@@ -156,6 +190,30 @@ export const ContactExtractionService = {
     return deduplicatedContacts;
   },
 
+  /**
+   * Store the first office or department address found as the lead's address, used to
+   * infer contact timezones. An address already on the lead is kept.
+   */
+  updateLeadAddress: async (
+    tenantId: string,
+    leadId: string,
+    contacts: ExtractedContact[]
+  ): Promise<void> => {
+    const address = contacts.find(
+      (contact) => contact.contactType !== 'individual' && contact.address?.trim()
+    )?.address;
+    if (!address) return;
+
+    try {
+      const lead = await leadRepository.findByIdForTenant(leadId, tenantId);
+      if (lead.address) return;
+
+      await leadRepository.updateById(leadId, { address: address.trim() });
+    } catch (error) {
+      logger.warn(`Failed to store address for leadId: ${leadId}:`, error);
+    }
+  },
+
   /**
    * Update the primary contact for a lead
    */
@@ -449,6 +507,12 @@ export const ContactExtractionService = {
       results.updated = batchResults.updated;
       results.contacts = batchResults.contacts;
 
+      await ContactExtractionService.syncContactChannels(
+        tenantId,
+        contactsToProcess,
+        batchResults.contacts
+      );
+
       // Log results
       logger.info(
         `Successfully processed ${results.created} new and ${results.updated} updated contacts for leadId: ${leadId}`
@@ -461,6 +525,43 @@ export const ContactExtractionService = {
     return results;
   },
 
+  /**
+   * Record every address found for the saved contacts as contact channels: additional
+   * emails from extraction and, for merged contacts, the email / phone the merge replaced.
+   * Channel failures are logged and do not fail the extraction.
+   */
+  syncContactChannels: async (
+    tenantId: string,
+    contactsToProcess: Array<{
+      extractedContact: ExtractedContact;
+      leadContact: Omit<NewLeadPointOfContact, 'leadId'>;
+      similarContact: LeadPointOfContact | null;
+    }>,
+    savedContacts: LeadPointOfContact[]
+  ): Promise<void> => {
+    for (const contact of savedContacts) {
+      const processed = contactsToProcess.find((p) =>
+        p.similarContact
+          ? p.similarContact.id === contact.id
+          : p.leadContact.name === contact.name &&
+            (p.leadContact.email ?? null) === (contact.email ?? null)
+      );
+
+      try {
+        await contactChannelService.syncFromContact(tenantId, contact, {
+          emails: [
+            processed?.extractedContact.email,
+            ...(processed?.extractedContact.additionalEmails ?? []),
+            processed?.similarContact?.email,
+          ],
+          phones: [processed?.extractedContact.phone, processed?.similarContact?.phone],
+        });
+      } catch (error) {
+        logger.warn(`Failed to sync channels for contact ${contact.id}:`, error);
+      }
+    }
+  },
+
   /**
    * Find similar contact using string similarity
    */
@@ -575,6 +676,10 @@ export const ContactExtractionService = {
       merged.sourceUrl = newContact.sourceUrl;
     }
 
+    if (newContact.location && newContact.location.trim() !== '') {
+      merged.location = newContact.location;
+    }
+
     // Always update the updatedAt timestamp
     merged.updatedAt = new Date();
 
@@ -718,6 +823,7 @@ export const ContactExtractionService = {
       title: title || null,
       company,
       sourceUrl: extractedContact.sourceUrl || null,
+      location: extractedContact.address || null,
     };
   },
 
@@ -87,7 +87,6 @@ export const generateContactStrategy = async (
           contactId,
           userId,
           plan: campaignPlan,
-          channel: 'email',
         });
       } catch (dbError) {
         // Update status to 'failed' on persistence error
@@ -164,11 +163,10 @@ export const retrieveContactStrategyFromDatabase = async (
       tenantId,
     });
 
-    // Find existing campaign for this contact and channel (email)
-    const existingCampaign = await contactCampaignRepository.findByContactAndChannelForTenant(
+    // Find existing campaign for this contact
+    const existingCampaign = await contactCampaignRepository.findByContactForTenant(
       tenantId,
-      contactId,
-      'email'
+      contactId
     );
 
     if (!existingCampaign) {
@@ -243,11 +241,10 @@ export const updateContactStrategy = async (
     // Validate the updated plan against the schema
     const validatedPlan = campaignPlanOutputSchema.parse(updatedPlan);
 
-    // Find existing campaign for this contact and channel (email)
-    const existingCampaign = await contactCampaignRepository.findByContactAndChannelForTenant(
+    // Find existing campaign for this contact
+    const existingCampaign = await contactCampaignRepository.findByContactForTenant(
       tenantId,
-      contactId,
-      'email'
+      contactId
     );
 
     if (!existingCampaign) {
@@ -261,7 +258,6 @@ export const updateContactStrategy = async (
       contactId,
       userId,
       plan: validatedPlan,
-      channel: 'email',
     });
 
     // Return the updated plan in the expected format
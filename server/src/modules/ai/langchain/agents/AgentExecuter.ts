@@ -18,6 +18,7 @@ interface AgentExecutorParams {
   config: LangChainConfig;
   variables?: Record<string, any>;
   outputSchema: z.ZodSchema;
+  additionalInstructions?: string; // Appended after the output schema, e.g. few-shot examples
   tools?: DynamicStructuredTool[];
   metadata?: Record<string, any>;
   tags?: string[];
@@ -29,6 +30,7 @@ export async function DefaultAgentExecuter<T extends Record<string, any>>({
   variables = {},
   config,
   outputSchema,
+  additionalInstructions,
   tools = [],
   metadata = {},
   tags = [],
@@ -81,7 +83,12 @@ export async function DefaultAgentExecuter<T extends Record<string, any>>({
   });
 
   const effectiveParser = new JsonOutputParser<T>();
-  const formatInstructions = `You must return the output in the following schema: ${JSON.stringify(z.toJSONSchema(outputSchema), null, 2)}`;
+  const formatInstructions = [
+    `You must return the output in the following schema: ${JSON.stringify(z.toJSONSchema(outputSchema), null, 2)}`,
+    additionalInstructions,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
 
   const raw = await agentExecutor.invoke(
     { ...variables, format_instructions: formatInstructions },
@@ -8,6 +8,7 @@ import {
   siteEmbeddingRepository,
 } from '@/repositories';
 import { TenantService } from '@/modules/tenant.service';
+import { templateService } from '@/modules/templates';
 import { LangChainConfig } from '../config/langchain.config';
 import { RetrieveFullPageTool } from '../tools/RetrieveFullPageTool';
 import { GetInformationAboutDomainTool } from '../tools/GetInformationAboutDomainTool';
@@ -60,13 +61,14 @@ export class ContactStrategyAgent {
     const startTime = Date.now();
 
     // Gather metadata for tracing
-    const [leadDetails, contactDetails, partnerDetails, partnerProducts, salesman] =
+    const [leadDetails, contactDetails, partnerDetails, partnerProducts, salesman, examples] =
       await Promise.all([
         this.getLeadDetails(tenantId, leadId),
         this.getContactDetails(contactId),
         this.getPartnerDetails(tenantId),
         this.getPartnerProducts(tenantId, leadId),
         this.getSalesman(tenantId, leadId),
+        templateService.getAiExampleInstructions(tenantId),
       ]);
 
     try {
@@ -125,6 +127,7 @@ export class ContactStrategyAgent {
         variables,
         config: this.config,
         outputSchema: emailContentOutputSchema,
+        additionalInstructions: examples,
         tools: this.tools,
         metadata: {
           tenantId,
@@ -0,0 +1,63 @@
+import { logger } from '@/libs/logger';
+import { LangChainConfig } from '../config/langchain.config';
+import {
+  ReplyClassificationOutput,
+  replyClassificationOutputSchema,
+} from '../../schemas/replyClassification/replyClassificationSchema';
+import { DefaultAgentExecuter } from './AgentExecuter';
+
+export type ReplyClassificationInput = {
+  fromAddress: string | null;
+  subject: string | null;
+  body: string;
+  receivedAt: Date;
+  originalSubject?: string | null;
+};
+
+export class ReplyClassificationAgent {
+  private config: LangChainConfig;
+
+  constructor(config: LangChainConfig) {
+    this.config = config;
+  }
+
+  async execute(
+    tenantId: string,
+    reply: ReplyClassificationInput,
+    metadata: Record<string, any>
+  ): Promise<ReplyClassificationOutput> {
+    const startTime = Date.now();
+    try {
+      const variables = {
+        from_address: reply.fromAddress ?? '',
+        subject: reply.subject ?? '',
+        original_subject: reply.originalSubject ?? '',
+        // The received date anchors relative return dates ("back next Monday")
+        received_at: reply.receivedAt.toISOString(),
+        body: reply.body,
+      };
+
+      const agentResult = await DefaultAgentExecuter<ReplyClassificationOutput>({
+        promptName: 'reply_classification',
+        tenantId,
+        variables,
+        config: this.config,
+        outputSchema: replyClassificationOutputSchema,
+        tools: [],
+        metadata,
+        tags: ['reply_classification'],
+      });
+
+      return replyClassificationOutputSchema.parse(agentResult.output);
+    } catch (error) {
+      const executionTimeMs = Date.now() - startTime;
+      logger.error('Reply classification failed:', {
+        error,
+        tenantId,
+        metadata,
+        executionTimeMs,
+      });
+      throw error;
+    }
+  }
+}
@@ -3,12 +3,14 @@ import { ContactExtractionAgent } from '../agents/ContactExtractionAgent';
 import { ContactStrategyAgent } from '../agents/ContactStrategyAgent';
 import { defaultLangChainConfig } from '../config/langchain.config';
 import { SmartUrlFilterAgent } from '../agents/SmartUrlFilterAgent';
+import { ReplyClassificationAgent } from '../agents/ReplyClassificationAgent';
 
 // Create default agent instances
 export const siteAnalysisAgent = new SiteAnalysisAgent(defaultLangChainConfig);
 export const contactExtractionAgent = new ContactExtractionAgent(defaultLangChainConfig);
 export const contactStrategyAgent = new ContactStrategyAgent(defaultLangChainConfig);
 export const smartUrlFilterAgent = new SmartUrlFilterAgent(defaultLangChainConfig);
+export const replyClassificationAgent = new ReplyClassificationAgent(defaultLangChainConfig);
 
 // Factory functions
 export const createSiteAnalysisAgent = (config = defaultLangChainConfig) => {
@@ -26,3 +28,7 @@ export const createContactStrategyAgent = (config = defaultLangChainConfig) => {
 export const createSmartUrlFilterAgent = (config = defaultLangChainConfig) => {
   return new SmartUrlFilterAgent(config);
 };
+
+export const createReplyClassificationAgent = (config = defaultLangChainConfig) => {
+  return new ReplyClassificationAgent(config);
+};
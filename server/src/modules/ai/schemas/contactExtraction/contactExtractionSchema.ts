@@ -10,6 +10,13 @@ const extractedContactSchema = z.object({
 
   // Contact Methods
   email: z.string().nullable().describe('Email address if available, null if not found'),
+  additionalEmails: z
+    .array(z.string())
+    .nullable()
+    .optional()
+    .describe(
+      'Other email addresses found for the same contact (e.g. a role address like sales@ alongside a personal one), null if none'
+    ),
   phone: z.string().nullable().describe('Phone number if available, null if not found'),
 
   // Professional Information
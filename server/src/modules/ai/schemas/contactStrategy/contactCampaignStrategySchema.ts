@@ -18,20 +18,32 @@ const TimeHHMM = z
   .describe('Time of day in 24-hour HH:MM format (local to plan.timezone).');
 
 const Channel = z
-  .enum(['email'])
-  .describe('Delivery channel for a node. email is the only supported channel for now.');
-const Action = z.enum(['send', 'wait', 'stop']).describe('Node action type: send | wait | stop.');
+  .enum(['email', 'sms', 'manual'])
+  .describe(
+    'Delivery channel for a node; one plan may mix channels. sms sends the body as a text message to the contact phone and only supports delivered, replied and no_reply transitions. manual is used by task nodes.'
+  );
+const Action = z
+  .enum(['send', 'wait', 'stop', 'task'])
+  .describe('Node action type: send | wait | stop | task.');
 
 const EventType = z
   .enum([
     CAMPAIGN_EVENT_TYPES.DELIVERED,
     CAMPAIGN_EVENT_TYPES.OPENED,
     CAMPAIGN_EVENT_TYPES.CLICKED,
+    CAMPAIGN_EVENT_TYPES.REPLIED,
     // synthetic
     CAMPAIGN_EVENT_TYPES.NO_OPEN,
     CAMPAIGN_EVENT_TYPES.NO_CLICK,
+    CAMPAIGN_EVENT_TYPES.NO_REPLY,
+    // manual task outcomes
+    CAMPAIGN_EVENT_TYPES.TASK_DONE,
+    CAMPAIGN_EVENT_TYPES.TASK_SKIPPED,
+    CAMPAIGN_EVENT_TYPES.TASK_FAILED,
   ])
-  .describe('Events that can trigger transitions.');
+  .describe(
+    'Events that can trigger transitions. A reply with no matching "replied" transition stops the campaign. task_done, task_skipped and task_failed are the rep\'s outcome for a task node.'
+  );
 
 /** ========= Transitions ========= */
 /** Transition as a union: within OR after (after defaults to 24h) */
@@ -56,6 +68,13 @@ export const Transition = z.union([TransitionWithin, TransitionAfter]);
 /** ========= Nodes ========= */
 const BaseNode = z.object({
   id: z.string().min(1).describe('Unique node identifier within the plan.'),
+  stepKey: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Stable step name shared by every contact copy of a plan (e.g. "email_1"). Set automatically from the original id when ids are normalized.'
+    ),
   channel: Channel.describe('Channel used for this node.'),
   action: Action.describe('Type of operation this node performs.'),
   transitions: z
@@ -78,10 +97,64 @@ const SendSchedule = z
   // If the entire schedule is missing, default to { delay: "PT0S" }.
   .default({ delay: 'PT0S' });
 
+const SendVariantSchema = z.object({
+  id: z.string().min(1).describe('Variant identifier, unique within the node, e.g. "A".'),
+  subject: z
+    .string()
+    .optional()
+    .describe('Subject for this variant; falls back to the node subject.'),
+  body: z.string().optional().describe('Body for this variant; falls back to the node body.'),
+  weight: z
+    .number()
+    .positive()
+    .default(1)
+    .describe('Relative share of contacts sent this variant.'),
+});
+
+export const AB_TEST_METRICS = ['opened', 'clicked', 'replied', 'meeting'] as const;
+
+const AbTestSettingsSchema = z.object({
+  testId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Experiment this step belongs to. Sends sharing an id pool their results and winner; omit to pool only sends of the same step with identical variants.'
+    ),
+  metric: z.enum(AB_TEST_METRICS).default('replied').describe('Rate that decides the winner.'),
+  autoPromoteAfter: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Once the step has this many sends and the leader is significant, send its variant to everyone.'
+    ),
+});
+
 const SendNode = BaseNode.extend({
   action: z.literal('send'),
+  channel: Channel.exclude(['manual']).describe('Channel the message is sent on.'),
   subject: z.string().optional().describe('Email subject (ignored for SMS).'),
   body: z.string().optional().describe('Message body.'),
+  variants: z
+    .array(SendVariantSchema)
+    .max(5)
+    .optional()
+    .describe('A/B variants. Each contact is assigned one by weight; omit to send subject/body.'),
+  abTest: AbTestSettingsSchema.optional(),
+  meetingType: z
+    .string()
+    .optional()
+    .describe(
+      'Slug of the sender\'s meeting type the booking link offers, e.g. "intro-call"; omit for their default booking page.'
+    ),
+  bookingLink: z
+    .boolean()
+    .optional()
+    .describe(
+      'Always end the message with a booking link, even when the sender has no calendar invitation text set up.'
+    ),
   // Ensure schedule always resolves to a usable value:
   schedule: SendSchedule.catch({ delay: 'PT0S' }),
 });
@@ -91,6 +164,18 @@ const WaitNode = BaseNode.extend({
   // waits rely on transitions’ within/after; no schedule
 });
 
+const TaskNode = BaseNode.extend({
+  action: z.literal('task'),
+  channel: z.literal('manual').default('manual'),
+  taskType: z
+    .enum(['call', 'linkedin', 'other'])
+    .default('other')
+    .describe('Kind of manual step the rep performs.'),
+  title: z.string().min(1).describe('Short to-do shown to the rep, e.g. "Call Jane".'),
+  instructions: z.string().optional().describe('Talking points or notes for the rep.'),
+  dueIn: IsoDuration.default('P1D').describe('Time from node activation until the task is due.'),
+});
+
 const StopNode = BaseNode.extend({
   action: z.literal('stop'),
   // Allow either omitting transitions or explicitly providing [].
@@ -98,10 +183,13 @@ const StopNode = BaseNode.extend({
 });
 
 /** ========= Discriminated Union ========= */
-const Node = z.discriminatedUnion('action', [SendNode, WaitNode, StopNode]);
+const Node = z.discriminatedUnion('action', [SendNode, WaitNode, StopNode, TaskNode]);
 
 // Export the Node type for use in other modules
 export type CampaignPlanNode = z.infer<typeof Node>;
+export type SendVariant = z.infer<typeof SendVariantSchema>;
+export type AbTestSettings = z.infer<typeof AbTestSettingsSchema>;
+export type AbTestMetric = (typeof AB_TEST_METRICS)[number];
 
 /** ========= Plan ========= */
 export const campaignPlanOutputSchema = z.object({
@@ -119,11 +207,14 @@ export const campaignPlanOutputSchema = z.object({
         .object({
           no_open_after: IsoDuration.default('PT72H'),
           no_click_after: IsoDuration.default('PT24H'),
+          no_reply_after: IsoDuration.default('P5D'),
         })
         .partial()
-        .default({ no_open_after: 'PT72H', no_click_after: 'PT24H' }),
+        .default({ no_open_after: 'PT72H', no_click_after: 'PT24H', no_reply_after: 'P5D' }),
     })
-    .default({ timers: { no_open_after: 'PT72H', no_click_after: 'PT24H' } }),
+    .default({
+      timers: { no_open_after: 'PT72H', no_click_after: 'PT24H', no_reply_after: 'P5D' },
+    }),
   startNodeId: z.string().min(1).describe('Entry node id.'),
   nodes: z.array(Node).min(1).describe('All nodes in the campaign graph.'),
 });
@@ -140,7 +231,8 @@ Example CampaignPlan output:
   "defaults": {
     "timers": {
       "no_open_after": "PT72H",
-      "no_click_after": "PT24H"
+      "no_click_after": "PT24H",
+      "no_reply_after": "P5D"
     }
   },
   "startNodeId": "email_1",
@@ -153,6 +245,7 @@ Example CampaignPlan output:
       "body": "{personalized_body}",
       "schedule": { "delay": "PT0S" },
       "transitions": [
+        { "on": "replied", "to": "stop", "within": "P30D" },
         { "on": "opened", "to": "wait_click", "within": "PT72H" },
         { "on": "no_open", "to": "email_bump_1", "after": "PT72H" },
         { "on": "bounced", "to": "stop", "after": "PT0S" },
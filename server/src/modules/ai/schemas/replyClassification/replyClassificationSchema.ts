@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+export const REPLY_INTENTS = [
+  'interested',
+  'not_now',
+  'out_of_office',
+  'wrong_person',
+  'unsubscribe',
+] as const;
+
+export type ReplyIntent = (typeof REPLY_INTENTS)[number];
+
+const referralSchema = z.object({
+  name: z.string().nullable().describe('Full name of the person the prospect referred us to'),
+  email: z.string().nullable().describe('Email address of the referred person, null if not given'),
+  title: z.string().nullable().describe('Job title of the referred person, null if not given'),
+});
+
+export const replyClassificationOutputSchema = z.object({
+  intent: z
+    .enum(REPLY_INTENTS)
+    .describe(
+      'Primary intent of the reply: interested (wants to talk or learn more), not_now (declines or asks to reconnect later), out_of_office (automatic away/vacation reply), wrong_person (points us to someone else), unsubscribe (asks to stop being contacted)'
+    ),
+  confidence: z.number().min(0).max(1).describe('Confidence in the intent, from 0 to 1'),
+  summary: z.string().describe('One sentence summary of the reply'),
+  returnDate: z
+    .string()
+    .nullable()
+    .describe(
+      'For out_of_office: the date the person is back, as an ISO 8601 date (YYYY-MM-DD). Null if not stated or not out_of_office'
+    ),
+  referral: referralSchema
+    .nullable()
+    .describe('For wrong_person: who the prospect pointed us to. Null otherwise'),
+});
+
+export type ReplyClassificationOutput = z.infer<typeof replyClassificationOutputSchema>;
+export type ReplyReferral = z.infer<typeof referralSchema>;
@@ -16,6 +16,7 @@ export interface FormattedWebDataContact {
   priority: 'high' | 'medium' | 'low';
   linkedinUrl?: string;
   department?: string;
+  location?: string;
 }
 
 export interface WebDataContactSummary {
@@ -85,6 +86,9 @@ function formatEmployee(employee: WebDataEmployee): FormattedWebDataContact {
   const phone = employee.phone;
   const linkedinUrl = employee.linkedin_url;
   const department = employee.job_department;
+  const location = [employee.location?.city, employee.location?.region, employee.location?.country]
+    .filter(Boolean)
+    .join(', ');
 
   // Determine priority based on job title
   const priority = determinePriority(title, department);
@@ -97,6 +101,7 @@ function formatEmployee(employee: WebDataEmployee): FormattedWebDataContact {
     priority,
     linkedinUrl,
     department,
+    location: location || undefined,
   };
 }
 
@@ -202,7 +207,7 @@ export function convertWebDataToExtractedContact(
       ? `${webDataContact.department} ${CONTACT_CONTEXT.DEPARTMENT_SUFFIX}`
       : CONTACT_CONTEXT.WEBDATA_EMPLOYEE,
     isPriorityContact: webDataContact.priority === CONTACT_CONFIDENCE.HIGH,
-    address: null,
+    address: webDataContact.location || null,
     linkedinUrl: webDataContact.linkedinUrl || null,
     websiteUrl: null,
     sourceUrl: null,
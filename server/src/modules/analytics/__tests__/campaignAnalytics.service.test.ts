@@ -0,0 +1,64 @@
+import { STATIC_CAMPAIGN_TEMPLATE } from '@/constants/staticCampaignTemplate';
+import { BadRequestError } from '@/exceptions/error';
+import { classifyPlan, resolveDateRange, toFunnelMetrics } from '../campaignAnalytics.service';
+
+jest.mock('@/db', () => ({ db: {} }));
+
+describe('campaign analytics helpers', () => {
+  it('computes rates as a share of messages sent', () => {
+    const metrics = toFunnelMetrics({
+      sent: 3,
+      delivered: 3,
+      opened: 2,
+      clicked: 1,
+      replied: 1,
+      bounced: 0,
+      calendarClicks: 1,
+      meetings: 0,
+    });
+
+    expect(metrics.deliveryRate).toBe(100);
+    expect(metrics.openRate).toBe(66.67);
+    expect(metrics.clickRate).toBe(33.33);
+    expect(metrics.meetingRate).toBe(0);
+  });
+
+  it('reports zero rates when nothing was sent', () => {
+    const metrics = toFunnelMetrics({
+      sent: 0,
+      delivered: 0,
+      opened: 0,
+      clicked: 0,
+      replied: 0,
+      bounced: 0,
+      calendarClicks: 2,
+      meetings: 1,
+    });
+
+    expect(metrics.openRate).toBe(0);
+    expect(metrics.meetingRate).toBe(0);
+  });
+
+  it('tells template-shaped plans from edited ones', () => {
+    const templateIds = STATIC_CAMPAIGN_TEMPLATE.nodes.map((node) => node.id);
+
+    expect(classifyPlan([...templateIds].reverse())).toBe('static_template');
+    expect(classifyPlan([...templateIds, 'sms_followup'])).toBe('custom');
+    expect(classifyPlan(templateIds.slice(1))).toBe('custom');
+  });
+
+  it('defaults to the last 30 days and rejects inverted or oversized ranges', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    expect(resolveDateRange(undefined, undefined, now)).toEqual({
+      from: new Date('2026-09-19T12:00:00Z'),
+      to: now,
+    });
+    expect(() => resolveDateRange('2026-10-19T00:00:00Z', '2026-10-01T00:00:00Z', now)).toThrow(
+      BadRequestError
+    );
+    expect(() => resolveDateRange('2024-01-01T00:00:00Z', '2026-01-01T00:00:00Z', now)).toThrow(
+      BadRequestError
+    );
+  });
+});
@@ -0,0 +1,615 @@
+import {
+  and,
+  count,
+  countDistinct,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  lt,
+  ne,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+import { db } from '@/db';
+import {
+  calendarLinkClicks,
+  contactCampaigns,
+  leadPointOfContacts,
+  leadProducts,
+  leads,
+  messageEvents,
+  outboundMessages,
+  products,
+  scheduledMeetings,
+  users,
+} from '@/db/schema';
+import { STATIC_CAMPAIGN_TEMPLATE } from '@/constants/staticCampaignTemplate';
+import { INBOUND_EVENT_TYPES, SENDGRID_EVENT_TYPES } from '@/constants/campaign-events';
+import { BadRequestError } from '@/exceptions/error';
+
+export const ANALYTICS_DIMENSIONS = ['campaign', 'node', 'product', 'sender', 'plan_type'] as const;
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number];
+
+export type PlanType = 'static_template' | 'custom';
+
+export interface AnalyticsFilters {
+  from?: Date;
+  to?: Date; // Exclusive
+  channel?: 'email' | 'sms';
+  campaignId?: string;
+  stepKey?: string;
+  abTestKey?: string;
+}
+
+export interface FunnelCounts {
+  sent: number;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  bounced: number;
+  calendarClicks: number;
+  meetings: number;
+}
+
+export interface FunnelMetrics extends FunnelCounts {
+  deliveryRate: number;
+  openRate: number;
+  clickRate: number;
+  replyRate: number;
+  meetingRate: number;
+}
+
+export interface AnalyticsRow extends FunnelMetrics {
+  key: string;
+  label: string;
+}
+
+export interface VariantCounts extends FunnelCounts {
+  testKey: string;
+  stepKey: string;
+  variantId: string;
+}
+
+export interface AnalyticsDailyPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+}
+
+export interface AnalyticsSummary {
+  totals: FunnelMetrics;
+  daily: AnalyticsDailyPoint[];
+}
+
+const UNATTRIBUTED_KEY = 'unattributed';
+
+const TEMPLATE_NODE_IDS = STATIC_CAMPAIGN_TEMPLATE.nodes.map((node) => node.id).sort();
+
+export const emptyFunnelCounts = (): FunnelCounts => ({
+  sent: 0,
+  delivered: 0,
+  opened: 0,
+  clicked: 0,
+  replied: 0,
+  bounced: 0,
+  calendarClicks: 0,
+  meetings: 0,
+});
+
+const rate = (value: number, sent: number): number =>
+  sent > 0 ? Math.round((value / sent) * 10000) / 100 : 0; // Percentage, 2 decimal places
+
+/**
+ * Adds rates to raw counts. Every rate is a share of messages sent, so steps and
+ * campaigns of different sizes can be compared side by side.
+ */
+export function toFunnelMetrics(counts: FunnelCounts): FunnelMetrics {
+  return {
+    ...counts,
+    deliveryRate: rate(counts.delivered, counts.sent),
+    openRate: rate(counts.opened, counts.sent),
+    clickRate: rate(counts.clicked, counts.sent),
+    replyRate: rate(counts.replied, counts.sent),
+    meetingRate: rate(counts.meetings, counts.sent),
+  };
+}
+
+export function addFunnelCounts(target: FunnelCounts, source: Partial<FunnelCounts>): void {
+  for (const field of Object.keys(target) as Array<keyof FunnelCounts>) {
+    target[field] += source[field] ?? 0;
+  }
+}
+
+/**
+ * A plan still has the static template's shape when it has exactly the template's
+ * steps (node step keys, since ids are normalized per contact). Only the AI-written copy differs; anything else was edited into a custom plan.
+ */
+export function classifyPlan(stepKeys: string[]): PlanType {
+  const sorted = [...stepKeys].sort();
+  return sorted.length === TEMPLATE_NODE_IDS.length &&
+    sorted.every((id, index) => id === TEMPLATE_NODE_IDS[index])
+    ? 'static_template'
+    : 'custom';
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turns optional ISO bounds into a concrete range, defaulting to the last 30 days
+ */
+export function resolveDateRange(
+  from?: string,
+  to?: string,
+  now: Date = new Date()
+): { from: Date; to: Date } {
+  const end = to ? new Date(to) : now;
+  const start = from ? new Date(from) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new BadRequestError('from and to must be valid dates');
+  }
+  if (start >= end) {
+    throw new BadRequestError('from must be before to');
+  }
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new BadRequestError(`Date ranges are limited to ${MAX_RANGE_DAYS} days`);
+  }
+
+  return { from: start, to: end };
+}
+
+function humanizeNodeId(nodeId: string): string {
+  const label = nodeId.replace(/[_-]+/g, ' ').trim();
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Funnel reporting across campaigns. Message counts follow a cohort of messages sent in
+ * the date range, so a click on an email sent in the range counts even if it came later.
+ * Calendar clicks and meetings count when they happened. Machine opens and clicks from
+ * link scanners are excluded, as they are on the dashboard.
+ */
+export class CampaignAnalyticsService {
+  async getSummary(tenantId: string, filters: AnalyticsFilters): Promise<AnalyticsSummary> {
+    const stats = this.messageStats(tenantId, filters);
+
+    const [totals] = await db.with(stats).select(this.messageCountColumns(stats)).from(stats);
+
+    const dailyRows = await db
+      .with(stats)
+      .select({
+        date: sql<string>`to_char(date_trunc('day', ${stats.sentAt}), 'YYYY-MM-DD')`,
+        sent: count(),
+        opened: sql<number>`coalesce(sum(${stats.opened}), 0)::int`,
+        clicked: sql<number>`coalesce(sum(${stats.clicked}), 0)::int`,
+        replied: sql<number>`coalesce(sum(${stats.replied}), 0)::int`,
+      })
+      .from(stats)
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+
+    const counts = emptyFunnelCounts();
+    addFunnelCounts(counts, totals ?? {});
+
+    // Calendar links only go out by email, so an SMS-only report has no clicks or bookings
+    if (filters.channel !== 'sms') {
+      const [calendar] = await db
+        .select({ count: count() })
+        .from(calendarLinkClicks)
+        .where(this.calendarClickConditions(tenantId, filters));
+      const [meetings] = await db
+        .select({ count: count() })
+        .from(scheduledMeetings)
+        .where(this.meetingConditions(tenantId, filters));
+
+      counts.calendarClicks = calendar?.count ?? 0;
+      counts.meetings = meetings?.count ?? 0;
+    }
+
+    return { totals: toFunnelMetrics(counts), daily: dailyRows };
+  }
+
+  async getBreakdown(
+    tenantId: string,
+    dimension: AnalyticsDimension,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsRow[]> {
+    if (dimension === 'plan_type') {
+      return await this.getPlanTypeBreakdown(tenantId, filters);
+    }
+
+    const rows = new Map<string, FunnelCounts>();
+    const countsFor = (key: string | null): FunnelCounts => {
+      const resolved = key ?? UNATTRIBUTED_KEY;
+      let counts = rows.get(resolved);
+      if (!counts) {
+        counts = emptyFunnelCounts();
+        rows.set(resolved, counts);
+      }
+      return counts;
+    };
+
+    for (const row of await this.messageCountsBy(tenantId, dimension, filters)) {
+      addFunnelCounts(countsFor(row.key), row);
+    }
+    for (const row of await this.calendarClicksBy(tenantId, dimension, filters)) {
+      countsFor(row.key).calendarClicks += row.count;
+    }
+    for (const row of await this.meetingsBy(tenantId, dimension, filters)) {
+      countsFor(row.key).meetings += row.count;
+    }
+
+    const labels = await this.labelsFor(tenantId, dimension, [...rows.keys()]);
+    const result = [...rows.entries()].map(([key, counts]) => ({
+      key,
+      label: labels.get(key) ?? (key === UNATTRIBUTED_KEY ? 'Unattributed' : key),
+      ...toFunnelMetrics(counts),
+    }));
+
+    if (dimension === 'node') {
+      // Keep template steps in sequence order so the funnel reads top to bottom
+      const order = STATIC_CAMPAIGN_TEMPLATE.nodes.map((node) => node.id);
+      const position = (key: string) => {
+        const index = order.indexOf(key);
+        return index === -1 ? order.length : index;
+      };
+      return result.sort((a, b) => position(a.key) - position(b.key) || b.sent - a.sent);
+    }
+
+    return result.sort((a, b) => b.sent - a.sent);
+  }
+
+  /**
+   * Rolls campaign rows up by whether the plan kept the static template's shape
+   */
+  private async getPlanTypeBreakdown(
+    tenantId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsRow[]> {
+    const campaignRows = await this.getBreakdown(tenantId, 'campaign', filters);
+    const campaignIds = campaignRows
+      .map((row) => row.key)
+      .filter((key) => key !== UNATTRIBUTED_KEY);
+
+    const plans =
+      campaignIds.length > 0
+        ? await db
+            .select({
+              id: contactCampaigns.id,
+              stepKeys: sql<string[]>`(
+                select coalesce(jsonb_agg(coalesce(node->>'stepKey', node->>'id')), '[]'::jsonb)
+                from jsonb_array_elements(${contactCampaigns.planJson}->'nodes') as node
+              )`,
+            })
+            .from(contactCampaigns)
+            .where(
+              and(
+                eq(contactCampaigns.tenantId, tenantId),
+                inArray(contactCampaigns.id, campaignIds)
+              )
+            )
+        : [];
+    const planTypes = new Map(plans.map((plan) => [plan.id, classifyPlan(plan.stepKeys ?? [])]));
+
+    const totals: Record<PlanType, FunnelCounts> = {
+      static_template: emptyFunnelCounts(),
+      custom: emptyFunnelCounts(),
+    };
+    for (const row of campaignRows) {
+      const planType = planTypes.get(row.key);
+      if (planType) addFunnelCounts(totals[planType], row);
+    }
+
+    return [
+      {
+        key: 'static_template',
+        label: 'Static template',
+        ...toFunnelMetrics(totals.static_template),
+      },
+      { key: 'custom', label: 'Custom plan', ...toFunnelMetrics(totals.custom) },
+    ];
+  }
+
+  /**
+   * Funnel counts per variant of each A/B test. Meetings are attributed to the message
+   * whose calendar link was booked, so they follow the same cohort as the other counts.
+   */
+  async getVariantCounts(tenantId: string, filters: AnalyticsFilters): Promise<VariantCounts[]> {
+    const stats = this.messageStats(tenantId, filters);
+
+    const messageRows = await db
+      .with(stats)
+      .select({
+        testKey: sql<string>`${stats.abTestKey}`,
+        stepKey: sql<string>`min(${stats.stepKey})`,
+        variantId: sql<string>`${stats.variantId}`,
+        ...this.messageCountColumns(stats),
+      })
+      .from(stats)
+      .where(and(isNotNull(stats.abTestKey), isNotNull(stats.variantId)))
+      .groupBy(stats.abTestKey, stats.variantId);
+
+    const meetingRows = await db
+      .with(stats)
+      .select({
+        testKey: sql<string>`${stats.abTestKey}`,
+        variantId: sql<string>`${stats.variantId}`,
+        count: countDistinct(scheduledMeetings.id),
+      })
+      .from(stats)
+      .innerJoin(
+        scheduledMeetings,
+        and(
+          sql`${scheduledMeetings.metadata}->>'outboundMessageId' = ${stats.messageId}`,
+          ne(scheduledMeetings.status, 'canceled')
+        )
+      )
+      .where(and(isNotNull(stats.abTestKey), isNotNull(stats.variantId)))
+      .groupBy(stats.abTestKey, stats.variantId);
+
+    const meetings = new Map(
+      meetingRows.map((row) => [`${row.testKey}:${row.variantId}`, row.count])
+    );
+
+    return messageRows.map(({ testKey, stepKey, variantId, ...counts }) => ({
+      testKey,
+      stepKey,
+      variantId,
+      ...emptyFunnelCounts(),
+      ...counts,
+      meetings: meetings.get(`${testKey}:${variantId}`) ?? 0,
+    }));
+  }
+
+  /**
+   * One row per sent message with 0/1 flags for each engagement event
+   */
+  private messageStats(tenantId: string, filters: AnalyticsFilters) {
+    const conditions: SQL[] = [
+      eq(outboundMessages.tenantId, tenantId),
+      eq(outboundMessages.state, 'sent'),
+    ];
+    if (filters.from) conditions.push(gte(outboundMessages.sentAt, filters.from));
+    if (filters.to) conditions.push(lt(outboundMessages.sentAt, filters.to));
+    if (filters.channel) conditions.push(eq(outboundMessages.channel, filters.channel));
+    if (filters.campaignId) conditions.push(eq(outboundMessages.campaignId, filters.campaignId));
+    if (filters.stepKey) conditions.push(eq(outboundMessages.stepKey, filters.stepKey));
+    if (filters.abTestKey) conditions.push(eq(outboundMessages.abTestKey, filters.abTestKey));
+
+    const flag = (condition: SQL) => sql<number>`max(case when ${condition} then 1 else 0 end)`;
+    const humanEvent = (type: string) =>
+      sql`${messageEvents.type} = ${type} and ${messageEvents.isMachine} = false`;
+
+    return db.$with('message_stats').as(
+      db
+        .select({
+          messageId: outboundMessages.id,
+          campaignId: outboundMessages.campaignId,
+          // Messages from before step keys existed only carry the node id
+          stepKey: sql<
+            string | null
+          >`coalesce(${outboundMessages.stepKey}, ${outboundMessages.nodeId})`.as('step_key'),
+          variantId: outboundMessages.variantId,
+          abTestKey: outboundMessages.abTestKey,
+          sentAt: outboundMessages.sentAt,
+          leadId: contactCampaigns.leadId,
+          senderId: leads.ownerId,
+          delivered: flag(sql`${messageEvents.type} = ${SENDGRID_EVENT_TYPES.DELIVERED}`).as(
+            'delivered'
+          ),
+          opened: flag(humanEvent(SENDGRID_EVENT_TYPES.OPEN)).as('opened'),
+          clicked: flag(humanEvent(SENDGRID_EVENT_TYPES.CLICK)).as('clicked'),
+          replied: flag(sql`${messageEvents.type} = ${INBOUND_EVENT_TYPES.REPLY}`).as('replied'),
+          bounced: flag(sql`${messageEvents.type} = ${SENDGRID_EVENT_TYPES.BOUNCE}`).as('bounced'),
+        })
+        .from(outboundMessages)
+        .innerJoin(contactCampaigns, eq(outboundMessages.campaignId, contactCampaigns.id))
+        .innerJoin(leads, eq(contactCampaigns.leadId, leads.id))
+        .leftJoin(messageEvents, eq(messageEvents.messageId, outboundMessages.id))
+        .where(and(...conditions))
+        .groupBy(outboundMessages.id, contactCampaigns.leadId, leads.ownerId)
+    );
+  }
+
+  private messageCountColumns(stats: ReturnType<CampaignAnalyticsService['messageStats']>) {
+    const total = (column: SQL.Aliased<number>) => sql<number>`coalesce(sum(${column}), 0)::int`;
+
+    return {
+      sent: count(),
+      delivered: total(stats.delivered),
+      opened: total(stats.opened),
+      clicked: total(stats.clicked),
+      replied: total(stats.replied),
+      bounced: total(stats.bounced),
+    };
+  }
+
+  private async messageCountsBy(
+    tenantId: string,
+    dimension: Exclude<AnalyticsDimension, 'plan_type'>,
+    filters: AnalyticsFilters
+  ) {
+    const stats = this.messageStats(tenantId, filters);
+    const columns = this.messageCountColumns(stats);
+
+    if (dimension === 'product') {
+      // A lead can carry several products, so its messages count toward each of them
+      return await db
+        .with(stats)
+        .select({ key: leadProducts.productId, ...columns })
+        .from(stats)
+        .innerJoin(leadProducts, eq(leadProducts.leadId, stats.leadId))
+        .groupBy(leadProducts.productId);
+    }
+
+    const key = {
+      campaign: stats.campaignId,
+      node: stats.stepKey,
+      sender: stats.senderId,
+    }[dimension];
+
+    return await db
+      .with(stats)
+      .select({ key: sql<string | null>`${key}`, ...columns })
+      .from(stats)
+      .groupBy(key);
+  }
+
+  private calendarClickConditions(tenantId: string, filters: AnalyticsFilters): SQL | undefined {
+    const conditions: SQL[] = [
+      eq(calendarLinkClicks.tenantId, tenantId),
+      eq(calendarLinkClicks.isMachine, false),
+    ];
+    if (filters.from) conditions.push(gte(calendarLinkClicks.clickedAt, filters.from));
+    if (filters.to) conditions.push(lt(calendarLinkClicks.clickedAt, filters.to));
+    if (filters.campaignId) conditions.push(eq(calendarLinkClicks.campaignId, filters.campaignId));
+    return and(...conditions);
+  }
+
+  private async calendarClicksBy(
+    tenantId: string,
+    dimension: Exclude<AnalyticsDimension, 'plan_type'>,
+    filters: AnalyticsFilters
+  ): Promise<Array<{ key: string | null; count: number }>> {
+    if (filters.channel === 'sms') return [];
+
+    const where = this.calendarClickConditions(tenantId, filters);
+
+    if (dimension === 'product') {
+      return await db
+        .select({ key: leadProducts.productId, count: count() })
+        .from(calendarLinkClicks)
+        .innerJoin(leadProducts, eq(leadProducts.leadId, calendarLinkClicks.leadId))
+        .where(where)
+        .groupBy(leadProducts.productId);
+    }
+
+    if (dimension === 'node') {
+      // Click node ids are per contact; the message they came from knows the shared step
+      const key = sql<
+        string | null
+      >`coalesce(${outboundMessages.stepKey}, ${calendarLinkClicks.nodeId})`;
+      return await db
+        .select({ key, count: count() })
+        .from(calendarLinkClicks)
+        .leftJoin(outboundMessages, eq(outboundMessages.id, calendarLinkClicks.outboundMessageId))
+        .where(where)
+        .groupBy(key);
+    }
+
+    const key = {
+      campaign: calendarLinkClicks.campaignId,
+      sender: calendarLinkClicks.userId,
+    }[dimension];
+
+    return await db
+      .select({ key: sql<string | null>`${key}`, count: count() })
+      .from(calendarLinkClicks)
+      .where(where)
+      .groupBy(key);
+  }
+
+  private meetingConditions(tenantId: string, filters: AnalyticsFilters): SQL | undefined {
+    const conditions: SQL[] = [
+      eq(scheduledMeetings.tenantId, tenantId),
+      ne(scheduledMeetings.status, 'canceled'),
+    ];
+    if (filters.from) conditions.push(gte(scheduledMeetings.createdAt, filters.from));
+    if (filters.to) conditions.push(lt(scheduledMeetings.createdAt, filters.to));
+    if (filters.campaignId) conditions.push(eq(scheduledMeetings.campaignId, filters.campaignId));
+    return and(...conditions);
+  }
+
+  private async meetingsBy(
+    tenantId: string,
+    dimension: Exclude<AnalyticsDimension, 'plan_type'>,
+    filters: AnalyticsFilters
+  ): Promise<Array<{ key: string | null; count: number }>> {
+    if (filters.channel === 'sms') return [];
+
+    const where = this.meetingConditions(tenantId, filters);
+
+    if (dimension === 'product') {
+      return await db
+        .select({ key: leadProducts.productId, count: count() })
+        .from(scheduledMeetings)
+        .innerJoin(leadProducts, eq(leadProducts.leadId, scheduledMeetings.leadId))
+        .where(where)
+        .groupBy(leadProducts.productId);
+    }
+
+    if (dimension === 'node') {
+      const key = sql<
+        string | null
+      >`coalesce(${outboundMessages.stepKey}, ${scheduledMeetings.metadata}->>'nodeId')`;
+      return await db
+        .select({ key, count: count() })
+        .from(scheduledMeetings)
+        .leftJoin(
+          outboundMessages,
+          sql`${outboundMessages.id} = ${scheduledMeetings.metadata}->>'outboundMessageId'`
+        )
+        .where(where)
+        .groupBy(key);
+    }
+
+    const key = {
+      campaign: scheduledMeetings.campaignId,
+      sender: scheduledMeetings.userId,
+    }[dimension];
+
+    return await db
+      .select({ key: sql<string | null>`${key}`, count: count() })
+      .from(scheduledMeetings)
+      .where(where)
+      .groupBy(key);
+  }
+
+  private async labelsFor(
+    tenantId: string,
+    dimension: Exclude<AnalyticsDimension, 'plan_type'>,
+    keys: string[]
+  ): Promise<Map<string, string>> {
+    const ids = keys.filter((key) => key !== UNATTRIBUTED_KEY);
+    if (dimension === 'node') {
+      return new Map(ids.map((id) => [id, humanizeNodeId(id)]));
+    }
+    if (ids.length === 0) return new Map();
+
+    if (dimension === 'campaign') {
+      const rows = await db
+        .select({
+          id: contactCampaigns.id,
+          contactName: leadPointOfContacts.name,
+          leadName: leads.name,
+        })
+        .from(contactCampaigns)
+        .innerJoin(leadPointOfContacts, eq(contactCampaigns.contactId, leadPointOfContacts.id))
+        .innerJoin(leads, eq(contactCampaigns.leadId, leads.id))
+        .where(and(eq(contactCampaigns.tenantId, tenantId), inArray(contactCampaigns.id, ids)));
+      return new Map(rows.map((row) => [row.id, `${row.contactName} · ${row.leadName}`]));
+    }
+
+    if (dimension === 'product') {
+      const rows = await db
+        .select({ id: products.id, title: products.title })
+        .from(products)
+        .where(and(eq(products.tenantId, tenantId), inArray(products.id, ids)));
+      return new Map(rows.map((row) => [row.id, row.title]));
+    }
+
+    const rows = await db
+      .select({ id: users.id, name: users.name, email: users.email })
+      .from(users)
+      .where(inArray(users.id, ids));
+    return new Map(rows.map((row) => [row.id, row.name || row.email]));
+  }
+}
+
+export const campaignAnalyticsService = new CampaignAnalyticsService();
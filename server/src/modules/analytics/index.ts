@@ -0,0 +1,19 @@
+export {
+  CampaignAnalyticsService,
+  campaignAnalyticsService,
+  ANALYTICS_DIMENSIONS,
+  classifyPlan,
+  resolveDateRange,
+  toFunnelMetrics,
+} from './campaignAnalytics.service';
+export type {
+  AnalyticsDailyPoint,
+  AnalyticsDimension,
+  AnalyticsFilters,
+  AnalyticsRow,
+  AnalyticsSummary,
+  FunnelCounts,
+  FunnelMetrics,
+  PlanType,
+  VariantCounts,
+} from './campaignAnalytics.service';
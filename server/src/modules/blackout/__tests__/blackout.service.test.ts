@@ -0,0 +1,90 @@
+import { blackoutPeriodRepository, holidayCalendarRepository } from '@/repositories';
+import { BadRequestError } from '@/exceptions/error';
+import { BlackoutService } from '../blackout.service';
+
+jest.mock('@/repositories', () => ({
+  blackoutPeriodRepository: {
+    createForTenant: jest.fn(),
+    findUpcomingForTenant: jest.fn(),
+  },
+  holidayCalendarRepository: {
+    findAllForTenant: jest.fn(),
+    replaceForTenant: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('BlackoutService', () => {
+  const service = new BlackoutService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2026-11-20T12:00:00Z'));
+    (holidayCalendarRepository.findAllForTenant as jest.Mock).mockResolvedValue([
+      { countryCode: 'US' },
+    ]);
+    (blackoutPeriodRepository.findUpcomingForTenant as jest.Mock).mockResolvedValue([
+      {
+        id: 'period-1',
+        name: 'Year-end shutdown',
+        kind: 'shutdown',
+        startDate: '2026-12-24',
+        endDate: '2027-01-02',
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('blocks holidays and shutdown dates but not ordinary days', async () => {
+    const isBlackoutDate = await service.getBlackoutCheck('tenant-1');
+
+    expect(isBlackoutDate('2026-11-26')).toBe(true); // Thanksgiving
+    expect(isBlackoutDate('2026-12-30')).toBe(true); // Shutdown
+    expect(isBlackoutDate('2026-11-25')).toBe(false);
+    expect(isBlackoutDate('2027-01-04')).toBe(false);
+  });
+
+  it('defaults single-day pauses to end on their start date', async () => {
+    (blackoutPeriodRepository.createForTenant as jest.Mock).mockImplementation(
+      async (_tenantId, data) => ({ id: 'period-2', ...data })
+    );
+
+    const period = await service.createPeriod('tenant-1', {
+      name: ' Product launch ',
+      kind: 'pause',
+      startDate: '2026-12-01',
+    });
+
+    expect(blackoutPeriodRepository.createForTenant).toHaveBeenCalledWith('tenant-1', {
+      name: 'Product launch',
+      kind: 'pause',
+      startDate: '2026-12-01',
+      endDate: '2026-12-01',
+    });
+    expect(period.endDate).toBe('2026-12-01');
+  });
+
+  it('rejects invalid dates and unsupported holiday calendars', async () => {
+    await expect(
+      service.createPeriod('tenant-1', { name: 'Bad', kind: 'pause', startDate: '2026-02-30' })
+    ).rejects.toThrow(BadRequestError);
+    await expect(
+      service.createPeriod('tenant-1', {
+        name: 'Backwards',
+        kind: 'shutdown',
+        startDate: '2026-12-10',
+        endDate: '2026-12-01',
+      })
+    ).rejects.toThrow(BadRequestError);
+    await expect(service.setHolidayCalendars('tenant-1', ['us', 'XX'])).rejects.toThrow(
+      'Unsupported holiday calendars: XX'
+    );
+    expect(holidayCalendarRepository.replaceForTenant).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+import { getHolidays } from '../holidayCalendars';
+
+const datesOf = (countryCode: string, year: number) =>
+  getHolidays(countryCode, year).map((holiday) => `${holiday.date} ${holiday.name}`);
+
+describe('holidayCalendars', () => {
+  it('computes floating US holidays and moves weekend ones to the nearest weekday', () => {
+    const dates = datesOf('US', 2026);
+
+    expect(dates).toContain('2026-11-26 Thanksgiving Day');
+    expect(dates).toContain('2026-05-25 Memorial Day');
+    expect(dates).toContain('2026-07-04 Independence Day');
+    expect(dates).toContain('2026-07-03 Independence Day (observed)');
+  });
+
+  it('gives back-to-back weekend holidays separate substitute days', () => {
+    const dates = datesOf('GB', 2027);
+
+    expect(dates).toContain('2027-12-27 Christmas Day (observed)');
+    expect(dates).toContain('2027-12-28 Boxing Day (observed)');
+  });
+
+  it('derives Easter-based holidays', () => {
+    const dates = datesOf('DE', 2026);
+
+    expect(dates).toContain('2026-04-03 Karfreitag');
+    expect(dates).toContain('2026-04-06 Ostermontag');
+    expect(dates).toContain('2026-05-14 Christi Himmelfahrt');
+  });
+
+  it('returns nothing for unsupported countries', () => {
+    expect(getHolidays('XX', 2026)).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+import { logger } from '@/libs/logger';
+import { BadRequestError, NotFoundError } from '@/exceptions/error';
+import { blackoutPeriodRepository, holidayCalendarRepository } from '@/repositories';
+import type { BlackoutPeriod } from '@/db/schema';
+import { toLocalDateString, type BlackoutDateCheck } from '@/modules/campaign/scheduleUtils';
+import { getHolidays, SUPPORTED_HOLIDAY_COUNTRIES } from './holidayCalendars';
+
+export const BLACKOUT_KINDS = ['shutdown', 'pause'] as const;
+export type BlackoutKind = (typeof BLACKOUT_KINDS)[number];
+
+export interface BlackoutPeriodInput {
+  name: string;
+  kind: BlackoutKind;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // Inclusive; defaults to startDate for single-day pauses
+}
+
+export interface BlackoutDate {
+  date: string;
+  name: string;
+  source: 'holiday' | BlackoutKind;
+  countryCode?: string;
+  periodId?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_UPCOMING_DAYS = 366;
+
+/**
+ * Tenant-level blackout calendars: national holidays for the countries a tenant observes,
+ * company shutdowns and ad-hoc send pauses. Dates are calendar days in the contact's local
+ * time; scheduling pushes campaign actions past them.
+ */
+export class BlackoutService {
+  async listPeriods(tenantId: string): Promise<BlackoutPeriod[]> {
+    const periods = await blackoutPeriodRepository.findAllForTenant(tenantId);
+    return periods.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async createPeriod(tenantId: string, input: BlackoutPeriodInput): Promise<BlackoutPeriod> {
+    const name = input.name.trim();
+    const endDate = input.endDate ?? input.startDate;
+
+    if (!name) {
+      throw new BadRequestError('Blackout name is required');
+    }
+    if (!BLACKOUT_KINDS.includes(input.kind)) {
+      throw new BadRequestError(`Blackout kind must be one of: ${BLACKOUT_KINDS.join(', ')}`);
+    }
+    if (!isValidDate(input.startDate) || !isValidDate(endDate)) {
+      throw new BadRequestError('Blackout dates must be valid YYYY-MM-DD dates');
+    }
+    if (endDate < input.startDate) {
+      throw new BadRequestError('Blackout end date must not be before its start date');
+    }
+
+    const period = await blackoutPeriodRepository.createForTenant(tenantId, {
+      name,
+      kind: input.kind,
+      startDate: input.startDate,
+      endDate,
+    });
+
+    logger.info('[BlackoutService] Blackout period created', {
+      tenantId,
+      periodId: period.id,
+      kind: period.kind,
+      startDate: period.startDate,
+      endDate: period.endDate,
+    });
+
+    return period;
+  }
+
+  async deletePeriod(tenantId: string, periodId: string): Promise<void> {
+    const deleted = await blackoutPeriodRepository.deleteByIdForTenant(periodId, tenantId);
+    if (!deleted) {
+      throw new NotFoundError(`Blackout period not found: ${periodId}`);
+    }
+
+    logger.info('[BlackoutService] Blackout period deleted', { tenantId, periodId });
+  }
+
+  async getHolidayCalendars(tenantId: string): Promise<string[]> {
+    const calendars = await holidayCalendarRepository.findAllForTenant(tenantId);
+    return calendars.map((calendar) => calendar.countryCode).sort();
+  }
+
+  async setHolidayCalendars(tenantId: string, countryCodes: string[]): Promise<string[]> {
+    const normalized = [...new Set(countryCodes.map((code) => code.trim().toUpperCase()))];
+    const unsupported = normalized.filter((code) => !SUPPORTED_HOLIDAY_COUNTRIES.includes(code));
+    if (unsupported.length > 0) {
+      throw new BadRequestError(
+        `Unsupported holiday calendars: ${unsupported.join(', ')}. Supported: ${SUPPORTED_HOLIDAY_COUNTRIES.join(', ')}`
+      );
+    }
+
+    await holidayCalendarRepository.replaceForTenant(tenantId, normalized);
+
+    logger.info('[BlackoutService] Holiday calendars updated', {
+      tenantId,
+      countryCodes: normalized,
+    });
+
+    return normalized.sort();
+  }
+
+  /**
+   * Every blacked-out date from today through the given number of days, for previewing
+   * what scheduling will skip. Dates covered by several entries are listed once per entry.
+   */
+  async listUpcomingDates(tenantId: string, days: number): Promise<BlackoutDate[]> {
+    const span = Math.min(Math.max(days, 1), MAX_UPCOMING_DAYS);
+    const from = toLocalDateString(new Date(), 'UTC');
+    const to = addDays(from, span - 1);
+
+    const [countryCodes, periods] = await Promise.all([
+      this.getHolidayCalendars(tenantId),
+      blackoutPeriodRepository.findUpcomingForTenant(tenantId, from),
+    ]);
+
+    const dates: BlackoutDate[] = [];
+
+    for (const countryCode of countryCodes) {
+      for (const year of yearsBetween(from, to)) {
+        for (const holiday of getHolidays(countryCode, year)) {
+          if (holiday.date >= from && holiday.date <= to) {
+            dates.push({ date: holiday.date, name: holiday.name, source: 'holiday', countryCode });
+          }
+        }
+      }
+    }
+
+    for (const period of periods) {
+      for (
+        let date = period.startDate < from ? from : period.startDate;
+        date <= period.endDate && date <= to;
+        date = addDays(date, 1)
+      ) {
+        dates.push({
+          date,
+          name: period.name,
+          source: period.kind as BlackoutKind,
+          periodId: period.id,
+        });
+      }
+    }
+
+    return dates.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Loads the tenant's calendars and upcoming periods once and returns a synchronous check
+   * for use with the schedule utilities. Holiday dates are generated lazily per year.
+   */
+  async getBlackoutCheck(tenantId: string): Promise<BlackoutDateCheck> {
+    // A day of slack so periods ending "today" in timezones behind UTC still apply
+    const from = addDays(toLocalDateString(new Date(), 'UTC'), -1);
+
+    const [countryCodes, periods] = await Promise.all([
+      this.getHolidayCalendars(tenantId),
+      blackoutPeriodRepository.findUpcomingForTenant(tenantId, from),
+    ]);
+
+    const holidayDatesByYear = new Map<number, Set<string>>();
+    const holidayDates = (year: number): Set<string> => {
+      let dates = holidayDatesByYear.get(year);
+      if (!dates) {
+        // Observed days can cross into the neighbouring year (US New Year's on a Saturday)
+        dates = new Set(
+          [year - 1, year, year + 1].flatMap((y) =>
+            countryCodes.flatMap((code) => getHolidays(code, y).map((holiday) => holiday.date))
+          )
+        );
+        holidayDatesByYear.set(year, dates);
+      }
+      return dates;
+    };
+
+    return (localDate: string) => {
+      if (periods.some((period) => localDate >= period.startDate && localDate <= period.endDate)) {
+        return true;
+      }
+      if (countryCodes.length === 0) return false;
+
+      return holidayDates(Number(localDate.slice(0, 4))).has(localDate);
+    };
+  }
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+function yearsBetween(from: string, to: string): number[] {
+  const years: number[] = [];
+  for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+    years.push(year);
+  }
+  return years;
+}
+
+export const blackoutService = new BlackoutService();
@@ -0,0 +1,328 @@
+/**
+ * National public holidays, computed from rules so the dataset works for any year without
+ * an external API. Only nationwide holidays are listed; regional ones (US state holidays,
+ * German Länder, Australian states) are left to tenant blackout periods.
+ */
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  countryCode: string;
+}
+
+type DateRule = (year: number) => Date;
+
+interface HolidayRule {
+  name: string;
+  date: DateRule;
+}
+
+/**
+ * How a holiday falling on a weekend is observed:
+ * - nearest_weekday: Saturday moves to Friday, Sunday to Monday (US federal)
+ * - next_weekday: moves to the next weekday that isn't already a holiday (UK, Canada...)
+ * - none: not moved
+ */
+type Observance = 'nearest_weekday' | 'next_weekday' | 'none';
+
+interface HolidayCalendarDefinition {
+  name: string;
+  observance: Observance;
+  holidays: HolidayRule[];
+}
+
+const utcDate = (year: number, month: number, day: number): Date =>
+  new Date(Date.UTC(year, month - 1, day));
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+
+const fixed =
+  (month: number, day: number): DateRule =>
+  (year) =>
+    utcDate(year, month, day);
+
+/** The nth weekday (0 = Sunday) of a month */
+const nthWeekday =
+  (month: number, weekday: number, n: number): DateRule =>
+  (year) => {
+    const first = utcDate(year, month, 1);
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return addDays(first, offset + (n - 1) * 7);
+  };
+
+/** The last given weekday of a month */
+const lastWeekday =
+  (month: number, weekday: number): DateRule =>
+  (year) => {
+    const last = utcDate(year, month + 1, 0);
+    const offset = (last.getUTCDay() - weekday + 7) % 7;
+    return addDays(last, -offset);
+  };
+
+/** The given weekday on or before a date, e.g. Victoria Day (Monday on or before 24 May) */
+const weekdayOnOrBefore =
+  (month: number, day: number, weekday: number): DateRule =>
+  (year) => {
+    const date = utcDate(year, month, day);
+    return addDays(date, -((date.getUTCDay() - weekday + 7) % 7));
+  };
+
+/** Gregorian Easter Sunday (anonymous Gregorian algorithm) */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+}
+
+const easter =
+  (offsetDays: number): DateRule =>
+  (year) =>
+    addDays(easterSunday(year), offsetDays);
+
+const HOLIDAY_CALENDARS: Record<string, HolidayCalendarDefinition> = {
+  US: {
+    name: 'United States',
+    observance: 'nearest_weekday',
+    holidays: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Martin Luther King Jr. Day', date: nthWeekday(1, 1, 3) },
+      { name: "Presidents' Day", date: nthWeekday(2, 1, 3) },
+      { name: 'Memorial Day', date: lastWeekday(5, 1) },
+      { name: 'Juneteenth', date: fixed(6, 19) },
+      { name: 'Independence Day', date: fixed(7, 4) },
+      { name: 'Labor Day', date: nthWeekday(9, 1, 1) },
+      { name: 'Columbus Day', date: nthWeekday(10, 1, 2) },
+      { name: 'Veterans Day', date: fixed(11, 11) },
+      { name: 'Thanksgiving Day', date: nthWeekday(11, 4, 4) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+    ],
+  },
+  CA: {
+    name: 'Canada',
+    observance: 'next_weekday',
+    holidays: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Good Friday', date: easter(-2) },
+      { name: 'Victoria Day', date: weekdayOnOrBefore(5, 24, 1) },
+      { name: 'Canada Day', date: fixed(7, 1) },
+      { name: 'Labour Day', date: nthWeekday(9, 1, 1) },
+      { name: 'National Day for Truth and Reconciliation', date: fixed(9, 30) },
+      { name: 'Thanksgiving', date: nthWeekday(10, 1, 2) },
+      { name: 'Remembrance Day', date: fixed(11, 11) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: 'Boxing Day', date: fixed(12, 26) },
+    ],
+  },
+  GB: {
+    name: 'United Kingdom',
+    observance: 'next_weekday',
+    holidays: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Good Friday', date: easter(-2) },
+      { name: 'Easter Monday', date: easter(1) },
+      { name: 'Early May Bank Holiday', date: nthWeekday(5, 1, 1) },
+      { name: 'Spring Bank Holiday', date: lastWeekday(5, 1) },
+      { name: 'Summer Bank Holiday', date: lastWeekday(8, 1) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: 'Boxing Day', date: fixed(12, 26) },
+    ],
+  },
+  IE: {
+    name: 'Ireland',
+    observance: 'next_weekday',
+    holidays: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      {
+        // First Monday in February, or 1 February when it falls on a Friday
+        name: "St Brigid's Day",
+        date: (year) =>
+          utcDate(year, 2, 1).getUTCDay() === 5 ? utcDate(year, 2, 1) : nthWeekday(2, 1, 1)(year),
+      },
+      { name: "St Patrick's Day", date: fixed(3, 17) },
+      { name: 'Easter Monday', date: easter(1) },
+      { name: 'May Bank Holiday', date: nthWeekday(5, 1, 1) },
+      { name: 'June Bank Holiday', date: nthWeekday(6, 1, 1) },
+      { name: 'August Bank Holiday', date: nthWeekday(8, 1, 1) },
+      { name: 'October Bank Holiday', date: lastWeekday(10, 1) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: "St Stephen's Day", date: fixed(12, 26) },
+    ],
+  },
+  AU: {
+    name: 'Australia',
+    observance: 'next_weekday',
+    holidays: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Australia Day', date: fixed(1, 26) },
+      { name: 'Good Friday', date: easter(-2) },
+      { name: 'Easter Monday', date: easter(1) },
+      { name: 'Anzac Day', date: fixed(4, 25) },
+      { name: "King's Birthday", date: nthWeekday(6, 1, 2) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: 'Boxing Day', date: fixed(12, 26) },
+    ],
+  },
+  NZ: {
+    name: 'New Zealand',
+    observance: 'next_weekday',
+    holidays: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: "Day after New Year's Day", date: fixed(1, 2) },
+      { name: 'Waitangi Day', date: fixed(2, 6) },
+      { name: 'Good Friday', date: easter(-2) },
+      { name: 'Easter Monday', date: easter(1) },
+      { name: 'Anzac Day', date: fixed(4, 25) },
+      { name: "King's Birthday", date: nthWeekday(6, 1, 1) },
+      { name: 'Labour Day', date: nthWeekday(10, 1, 4) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: 'Boxing Day', date: fixed(12, 26) },
+    ],
+  },
+  DE: {
+    name: 'Germany',
+    observance: 'none',
+    holidays: [
+      { name: 'Neujahr', date: fixed(1, 1) },
+      { name: 'Karfreitag', date: easter(-2) },
+      { name: 'Ostermontag', date: easter(1) },
+      { name: 'Tag der Arbeit', date: fixed(5, 1) },
+      { name: 'Christi Himmelfahrt', date: easter(39) },
+      { name: 'Pfingstmontag', date: easter(50) },
+      { name: 'Tag der Deutschen Einheit', date: fixed(10, 3) },
+      { name: '1. Weihnachtstag', date: fixed(12, 25) },
+      { name: '2. Weihnachtstag', date: fixed(12, 26) },
+    ],
+  },
+  FR: {
+    name: 'France',
+    observance: 'none',
+    holidays: [
+      { name: "Jour de l'an", date: fixed(1, 1) },
+      { name: 'Lundi de Pâques', date: easter(1) },
+      { name: 'Fête du Travail', date: fixed(5, 1) },
+      { name: 'Victoire 1945', date: fixed(5, 8) },
+      { name: 'Ascension', date: easter(39) },
+      { name: 'Lundi de Pentecôte', date: easter(50) },
+      { name: 'Fête nationale', date: fixed(7, 14) },
+      { name: 'Assomption', date: fixed(8, 15) },
+      { name: 'Toussaint', date: fixed(11, 1) },
+      { name: 'Armistice 1918', date: fixed(11, 11) },
+      { name: 'Noël', date: fixed(12, 25) },
+    ],
+  },
+  ES: {
+    name: 'Spain',
+    observance: 'none',
+    holidays: [
+      { name: 'Año Nuevo', date: fixed(1, 1) },
+      { name: 'Epifanía del Señor', date: fixed(1, 6) },
+      { name: 'Viernes Santo', date: easter(-2) },
+      { name: 'Fiesta del Trabajo', date: fixed(5, 1) },
+      { name: 'Asunción de la Virgen', date: fixed(8, 15) },
+      { name: 'Fiesta Nacional de España', date: fixed(10, 12) },
+      { name: 'Todos los Santos', date: fixed(11, 1) },
+      { name: 'Día de la Constitución', date: fixed(12, 6) },
+      { name: 'Inmaculada Concepción', date: fixed(12, 8) },
+      { name: 'Navidad', date: fixed(12, 25) },
+    ],
+  },
+  NL: {
+    name: 'Netherlands',
+    observance: 'none',
+    holidays: [
+      { name: 'Nieuwjaarsdag', date: fixed(1, 1) },
+      { name: 'Tweede Paasdag', date: easter(1) },
+      {
+        // Moves to the Saturday before when 27 April is a Sunday
+        name: 'Koningsdag',
+        date: (year) =>
+          utcDate(year, 4, 27).getUTCDay() === 0 ? utcDate(year, 4, 26) : utcDate(year, 4, 27),
+      },
+      { name: 'Bevrijdingsdag', date: fixed(5, 5) },
+      { name: 'Hemelvaartsdag', date: easter(39) },
+      { name: 'Tweede Pinksterdag', date: easter(50) },
+      { name: 'Eerste Kerstdag', date: fixed(12, 25) },
+      { name: 'Tweede Kerstdag', date: fixed(12, 26) },
+    ],
+  },
+};
+
+export const SUPPORTED_HOLIDAY_COUNTRIES = Object.keys(HOLIDAY_CALENDARS);
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const isWeekend = (date: Date): boolean => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+const holidayCache = new Map<string, Holiday[]>();
+
+/**
+ * Lists a country's holidays in a year, sorted by date. Weekend holidays also get their
+ * observed weekday as a separate "(observed)" entry.
+ */
+export function getHolidays(countryCode: string, year: number): Holiday[] {
+  const cacheKey = `${countryCode}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  const calendar = HOLIDAY_CALENDARS[countryCode];
+  if (!calendar) return [];
+
+  const actual = calendar.holidays
+    .map((rule) => ({ name: rule.name, date: rule.date(year) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const taken = new Set(actual.map((holiday) => toDateString(holiday.date)));
+  const holidays: Holiday[] = actual.map((holiday) => ({
+    date: toDateString(holiday.date),
+    name: holiday.name,
+    countryCode,
+  }));
+
+  for (const holiday of actual) {
+    if (!isWeekend(holiday.date) || calendar.observance === 'none') continue;
+
+    let observed: Date;
+    if (calendar.observance === 'nearest_weekday') {
+      observed = addDays(holiday.date, holiday.date.getUTCDay() === 6 ? -1 : 1);
+    } else {
+      observed = addDays(holiday.date, 1);
+      while (isWeekend(observed) || taken.has(toDateString(observed))) {
+        observed = addDays(observed, 1);
+      }
+    }
+
+    taken.add(toDateString(observed));
+    holidays.push({
+      date: toDateString(observed),
+      name: `${holiday.name} (observed)`,
+      countryCode,
+    });
+  }
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date));
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+/**
+ * Display names for the supported holiday calendars
+ */
+export function listHolidayCalendars(): Array<{ countryCode: string; name: string }> {
+  return Object.entries(HOLIDAY_CALENDARS).map(([countryCode, calendar]) => ({
+    countryCode,
+    name: calendar.name,
+  }));
+}
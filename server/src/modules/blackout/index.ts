@@ -0,0 +1,4 @@
+export { BlackoutService, blackoutService, BLACKOUT_KINDS } from './blackout.service';
+export { getHolidays, listHolidayCalendars, SUPPORTED_HOLIDAY_COUNTRIES } from './holidayCalendars';
+export type { BlackoutDate, BlackoutKind, BlackoutPeriodInput } from './blackout.service';
+export type { Holiday } from './holidayCalendars';
@@ -0,0 +1,114 @@
+import { messageEventRepository, outboundMessageRepository } from '@/repositories';
+import { BotDetectionService } from '../botDetection.service';
+
+jest.mock('@/repositories', () => ({
+  messageEventRepository: {
+    findByMessageIdForTenant: jest.fn(),
+    markMachineForTenant: jest.fn(),
+  },
+  outboundMessageRepository: { findByIdForTenant: jest.fn() },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const HUMAN_UA =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15';
+
+describe('BotDetectionService', () => {
+  const service = new BotDetectionService();
+  const deliveredAt = new Date('2026-01-05T15:00:00Z');
+  const minutesAfterDelivery = (minutes: number) =>
+    new Date(deliveredAt.getTime() + minutes * 60 * 1000);
+
+  const baseInput = {
+    tenantId: 'tenant-1',
+    outboundMessageId: 'msg-1',
+    userAgent: HUMAN_UA,
+    ipAddress: '73.12.44.9',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (outboundMessageRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      id: 'msg-1',
+      sentAt: deliveredAt,
+    });
+    (messageEventRepository.findByMessageIdForTenant as jest.Mock).mockResolvedValue([
+      { id: 'delivered-1', type: 'delivered', eventAt: deliveredAt, data: {}, isMachine: false },
+    ]);
+  });
+
+  it('passes a human click that arrives well after delivery', async () => {
+    const result = await service.assessEvent({
+      ...baseInput,
+      type: 'click',
+      eventAt: minutesAfterDelivery(42),
+      url: 'https://acme.com/pricing',
+    });
+
+    expect(result).toEqual({ isMachine: false, score: 0, reasons: [] });
+    expect(messageEventRepository.markMachineForTenant).not.toHaveBeenCalled();
+  });
+
+  it('tags clicks from a known link scanner user agent', async () => {
+    const result = await service.assessEvent({
+      ...baseInput,
+      type: 'click',
+      eventAt: minutesAfterDelivery(42),
+      userAgent: 'Mozilla/5.0 (compatible; Proofpoint URL Defense)',
+      url: 'https://acme.com',
+    });
+
+    expect(result.isMachine).toBe(true);
+    expect(result.reasons).toContain('scanner_user_agent');
+  });
+
+  it('tags opens that arrive within seconds of delivery', async () => {
+    const result = await service.assessEvent({
+      ...baseInput,
+      type: 'open',
+      eventAt: new Date(deliveredAt.getTime() + 2000),
+    });
+
+    expect(result.isMachine).toBe(true);
+    expect(result.reasons).toEqual(['instant_after_delivery']);
+  });
+
+  it('tags a click burst across several links and marks the earlier clicks', async () => {
+    const eventAt = minutesAfterDelivery(10);
+    (messageEventRepository.findByMessageIdForTenant as jest.Mock).mockResolvedValue([
+      { id: 'delivered-1', type: 'delivered', eventAt: deliveredAt, data: {}, isMachine: false },
+      {
+        id: 'click-1',
+        type: 'click',
+        eventAt: new Date(eventAt.getTime() - 2000),
+        data: { url: 'https://acme.com/a' },
+        isMachine: false,
+      },
+      {
+        id: 'click-2',
+        type: 'click',
+        eventAt: new Date(eventAt.getTime() - 1000),
+        data: { url: 'https://acme.com/b' },
+        isMachine: false,
+      },
+    ]);
+
+    const result = await service.assessEvent({
+      ...baseInput,
+      type: 'click',
+      eventAt,
+      url: 'https://acme.com/c',
+    });
+
+    expect(result.isMachine).toBe(true);
+    expect(result.reasons).toEqual(['click_burst']);
+    expect(messageEventRepository.markMachineForTenant).toHaveBeenCalledWith(
+      'tenant-1',
+      ['click-1', 'click-2'],
+      ['click_burst']
+    );
+  });
+});
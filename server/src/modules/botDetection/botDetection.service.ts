@@ -0,0 +1,170 @@
+import { logger } from '@/libs/logger';
+import { messageEventRepository, outboundMessageRepository } from '@/repositories';
+import { BOT_DETECTION_CONFIG } from '@/config/botDetection.config';
+import { detectScannerUserAgent } from '@/utils/userAgent';
+import { isIpInRanges } from '@/utils/network';
+import type { MessageEvent } from '@/db/schema';
+
+export type EngagementEventType = 'open' | 'click';
+
+export type MachineSignal =
+  | 'provider_machine_open'
+  | 'scanner_user_agent'
+  | 'scanner_ip'
+  | 'click_burst'
+  | 'instant_after_delivery'
+  | 'fast_after_delivery'
+  | 'missing_user_agent';
+
+export interface EngagementEventInput {
+  tenantId: string;
+  type: EngagementEventType;
+  eventAt: Date;
+  outboundMessageId?: string | null;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  url?: string | null;
+  // Provider already classified the open as machine-generated (SendGrid sg_machine_open)
+  providerMachineOpen?: boolean;
+}
+
+export interface MachineAssessment {
+  isMachine: boolean;
+  score: number;
+  reasons: MachineSignal[];
+}
+
+// Any single conclusive signal tags the event; weaker ones only count in combination
+export const MACHINE_SIGNAL_WEIGHTS: Record<MachineSignal, number> = {
+  provider_machine_open: 1,
+  scanner_user_agent: 1,
+  scanner_ip: 1,
+  click_burst: 1,
+  instant_after_delivery: 1,
+  fast_after_delivery: 0.5,
+  missing_user_agent: 0.5,
+};
+
+const NOT_MACHINE: MachineAssessment = { isMachine: false, score: 0, reasons: [] };
+
+/**
+ * Scores opens and clicks for signs they came from a mail security gateway or link
+ * scanner (Proofpoint, Mimecast, Safe Links, image prefetch) rather than the contact.
+ * Signals are the user agent and source IP, how soon after delivery the event arrived,
+ * and whether several links in the same message were clicked at once. Machine events
+ * are still stored, but tagged so transitions and dashboards can ignore them.
+ */
+export class BotDetectionService {
+  async assessEvent(input: EngagementEventInput): Promise<MachineAssessment> {
+    if (!BOT_DETECTION_CONFIG.ENABLED) return NOT_MACHINE;
+
+    const reasons = new Set<MachineSignal>();
+
+    if (input.providerMachineOpen) reasons.add('provider_machine_open');
+
+    const scanner = detectScannerUserAgent(input.userAgent);
+    if (scanner) reasons.add('scanner_user_agent');
+    if (!input.userAgent?.trim()) reasons.add('missing_user_agent');
+
+    if (isIpInRanges(input.ipAddress, BOT_DETECTION_CONFIG.SCANNER_IP_RANGES)) {
+      reasons.add('scanner_ip');
+    }
+
+    if (input.outboundMessageId) {
+      for (const signal of await this.getMessageSignals(input)) reasons.add(signal);
+    }
+
+    const score = [...reasons].reduce((sum, reason) => sum + MACHINE_SIGNAL_WEIGHTS[reason], 0);
+    const assessment = {
+      isMachine: score >= BOT_DETECTION_CONFIG.MACHINE_SCORE_THRESHOLD,
+      score,
+      reasons: [...reasons],
+    };
+
+    if (assessment.isMachine) {
+      logger.info('[BotDetectionService] Machine-generated event detected', {
+        tenantId: input.tenantId,
+        outboundMessageId: input.outboundMessageId,
+        type: input.type,
+        score,
+        reasons: assessment.reasons,
+        scanner,
+      });
+    }
+
+    return assessment;
+  }
+
+  /**
+   * Timing and click-burst signals, which need the message's delivery time and the
+   * events already recorded for it. Earlier clicks that turn out to be part of a burst
+   * are tagged as machine-generated too.
+   */
+  private async getMessageSignals(input: EngagementEventInput): Promise<MachineSignal[]> {
+    const { tenantId, outboundMessageId, eventAt } = input;
+    const signals: MachineSignal[] = [];
+
+    try {
+      const [outboundMessage, events] = await Promise.all([
+        outboundMessageRepository.findByIdForTenant(outboundMessageId!, tenantId),
+        messageEventRepository.findByMessageIdForTenant(tenantId, outboundMessageId!),
+      ]);
+
+      const deliveredAt =
+        events.find((event) => event.type === 'delivered')?.eventAt ?? outboundMessage?.sentAt;
+
+      if (deliveredAt) {
+        const elapsedSeconds = (eventAt.getTime() - deliveredAt.getTime()) / 1000;
+        if (elapsedSeconds < BOT_DETECTION_CONFIG.INSTANT_AFTER_DELIVERY_SECONDS) {
+          signals.push('instant_after_delivery');
+        } else if (elapsedSeconds < BOT_DETECTION_CONFIG.FAST_AFTER_DELIVERY_SECONDS) {
+          signals.push('fast_after_delivery');
+        }
+      }
+
+      if (input.type === 'click') {
+        const burst = this.findClickBurst(events, input);
+        if (burst) {
+          signals.push('click_burst');
+          await messageEventRepository.markMachineForTenant(
+            tenantId,
+            burst.filter((event) => !event.isMachine).map((event) => event.id),
+            ['click_burst']
+          );
+        }
+      }
+    } catch (error) {
+      logger.error('[BotDetectionService] Failed to load message history for scoring', {
+        tenantId,
+        outboundMessageId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return signals;
+  }
+
+  // Clicks on the same message close to this one; a burst when they span enough links
+  private findClickBurst(
+    events: MessageEvent[],
+    input: EngagementEventInput
+  ): MessageEvent[] | null {
+    const windowMs = BOT_DETECTION_CONFIG.CLICK_BURST_WINDOW_SECONDS * 1000;
+    const nearbyClicks = events.filter(
+      (event) =>
+        event.type === 'click' &&
+        Math.abs(event.eventAt.getTime() - input.eventAt.getTime()) <= windowMs
+    );
+
+    const urls = new Set(
+      nearbyClicks
+        .map((event) => (event.data as { url?: string } | null)?.url)
+        .concat(input.url ?? undefined)
+        .filter(Boolean)
+    );
+
+    return urls.size >= BOT_DETECTION_CONFIG.CLICK_BURST_MIN_LINKS ? nearbyClicks : null;
+  }
+}
+
+export const botDetectionService = new BotDetectionService();
@@ -0,0 +1,11 @@
+export {
+  BotDetectionService,
+  botDetectionService,
+  MACHINE_SIGNAL_WEIGHTS,
+} from './botDetection.service';
+export type {
+  EngagementEventInput,
+  EngagementEventType,
+  MachineAssessment,
+  MachineSignal,
+} from './botDetection.service';
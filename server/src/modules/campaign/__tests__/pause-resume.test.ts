@@ -0,0 +1,229 @@
+import {
+  campaignTransitionRepository,
+  contactCampaignRepository,
+  scheduledActionRepository,
+} from '@/repositories';
+import { getQueue } from '@/libs/bullmq';
+import { sendTimeService } from '@/modules/sendTime';
+import { CampaignPlanExecutionService } from '../campaignPlanExecution.service';
+
+jest.mock('@/repositories', () => ({
+  campaignTransitionRepository: { createForTenant: jest.fn(), listByCampaignForTenant: jest.fn() },
+  contactCampaignRepository: { updateByIdForTenant: jest.fn() },
+  scheduledActionRepository: {
+    findPausedByCampaignForTenant: jest.fn(),
+    pauseByCampaignForTenant: jest.fn(),
+    updateByIdForTenant: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/libs/bullmq', () => {
+  const queue = { add: jest.fn() };
+  return { getQueue: jest.fn(() => queue) };
+});
+
+jest.mock('@/modules/sendTime', () => ({
+  sendTimeService: {
+    scheduleSend: jest.fn(async ({ scheduledAt }: { scheduledAt: Date }) => ({ scheduledAt })),
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+const mockQueue = (getQueue as jest.Mock)() as { add: jest.Mock };
+
+describe('CampaignPlanExecutionService - pause until resumed', () => {
+  const service = new CampaignPlanExecutionService();
+  const tenantId = 'tenant-123';
+  const now = new Date('2026-03-10T12:00:00Z');
+
+  const pausedJob = (name: string) => ({
+    name,
+    data: { campaignId: 'campaign-123' },
+    opts: { attempts: 3 },
+  });
+
+  const campaign = (pausedAt: Date | null) =>
+    ({
+      id: 'campaign-123',
+      contactId: 'contact-123',
+      status: 'paused',
+      currentNodeId: 'email_1',
+      pausedAt,
+      planJson: { timezone: 'UTC', nodes: [] },
+    }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    (campaignTransitionRepository.createForTenant as jest.Mock).mockResolvedValue({
+      id: 'transition-1',
+    });
+    (scheduledActionRepository.pauseByCampaignForTenant as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('marks the campaign paused and parks its jobs', async () => {
+    await service.pauseUntilResumed({
+      tenantId,
+      campaignId: 'campaign-123',
+      currentNodeId: 'email_1',
+      reason: 'Prospect called',
+      createdBy: 'user-1',
+    });
+
+    expect(contactCampaignRepository.updateByIdForTenant).toHaveBeenCalledWith(
+      'campaign-123',
+      tenantId,
+      expect.objectContaining({ status: 'paused', pausedAt: now })
+    );
+    expect(scheduledActionRepository.pauseByCampaignForTenant).toHaveBeenCalledWith(
+      tenantId,
+      'campaign-123'
+    );
+    expect(campaignTransitionRepository.createForTenant).toHaveBeenCalledWith(
+      tenantId,
+      expect.objectContaining({ fromStatus: 'active', toStatus: 'paused', createdBy: 'user-1' })
+    );
+  });
+
+  it('pushes each parked job back by the length of the pause', async () => {
+    // Paused 2 days ago with a timeout due 1 day after the pause
+    const pausedAt = new Date(now.getTime() - 48 * HOUR);
+    (scheduledActionRepository.findPausedByCampaignForTenant as jest.Mock).mockResolvedValue([
+      {
+        id: 'action-1',
+        actionType: 'campaign_execution.timeout',
+        scheduledAt: new Date(pausedAt.getTime() + 24 * HOUR),
+        bullmqJobId: 'timeout-job',
+        payload: { nodeId: 'email_1', pausedJob: pausedJob('campaign_execution.timeout') },
+      },
+    ]);
+
+    const result = await service.resumePausedCampaign({
+      tenantId,
+      campaign: campaign(pausedAt),
+      reason: 'Call went well',
+      createdBy: 'user-1',
+    });
+
+    expect(result).toMatchObject({ pausedForMs: 48 * HOUR, rescheduledActions: 1 });
+    expect(getQueue).toHaveBeenCalled();
+    expect(mockQueue.add).toHaveBeenCalledWith(
+      'campaign_execution.timeout',
+      { campaignId: 'campaign-123' },
+      { attempts: 3, jobId: 'timeout-job', delay: 24 * HOUR }
+    );
+    expect(scheduledActionRepository.updateByIdForTenant).toHaveBeenCalledWith(
+      'action-1',
+      tenantId,
+      expect.objectContaining({
+        status: 'pending',
+        scheduledAt: new Date(now.getTime() + 24 * HOUR),
+        payload: { nodeId: 'email_1' },
+      })
+    );
+    expect(contactCampaignRepository.updateByIdForTenant).toHaveBeenCalledWith(
+      'campaign-123',
+      tenantId,
+      expect.objectContaining({ status: 'active', pausedAt: null })
+    );
+  });
+
+  it('runs overdue jobs straight away and fits sends into the send window', async () => {
+    const pausedAt = new Date(now.getTime() - HOUR);
+    (scheduledActionRepository.findPausedByCampaignForTenant as jest.Mock).mockResolvedValue([
+      {
+        id: 'action-2',
+        actionType: 'send',
+        scheduledAt: new Date(pausedAt.getTime() - 2 * HOUR),
+        bullmqJobId: 'send-job',
+        payload: { nodeId: 'sms_1', channel: 'sms', pausedJob: pausedJob('send') },
+      },
+    ]);
+
+    await service.resumePausedCampaign({ tenantId, campaign: campaign(pausedAt), reason: 'x' });
+
+    expect(sendTimeService.scheduleSend).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'sms', scheduledAt: now })
+    );
+    expect(mockQueue.add).toHaveBeenCalledWith(
+      'send',
+      expect.anything(),
+      expect.objectContaining({ jobId: 'send-job', delay: 0 })
+    );
+  });
+});
+
+describe('CampaignPlanExecutionService - timing after a pause', () => {
+  const service = new CampaignPlanExecutionService();
+  const tenantId = 'tenant-123';
+  const now = new Date('2026-03-10T12:00:00Z');
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    // Entered email_1 50h ago, then spent 48 of those hours paused
+    (campaignTransitionRepository.listByCampaignForTenant as jest.Mock).mockResolvedValue([
+      {
+        fromStatus: null,
+        toStatus: 'active',
+        reason: 'Event: delivered - transition from intro to email_1',
+        occurredAt: hoursAgo(50),
+      },
+      {
+        fromStatus: 'active',
+        toStatus: 'paused',
+        reason: 'Paused: Prospect called - at email_1',
+        occurredAt: hoursAgo(49),
+      },
+      {
+        fromStatus: 'paused',
+        toStatus: 'active',
+        reason: 'Resumed: Follow up - after 2d paused at email_1',
+        occurredAt: hoursAgo(1),
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('leaves the paused time out of the node start', async () => {
+    const startedAt = await service.getCurrentNodeStartTime(tenantId, 'campaign-123', 'email_1');
+
+    expect(startedAt).toEqual(hoursAgo(2));
+  });
+
+  it('still accepts an event within the window after a long pause', async () => {
+    const isValid = await (service as any).isTransitionValid(
+      { on: 'opened', to: 'email_2', within: 'PT24H' },
+      tenantId,
+      'campaign-123',
+      'email_1',
+      now
+    );
+
+    expect(isValid).toBe(true);
+  });
+
+  it('does not count the pause toward an after delay', async () => {
+    const isValid = await (service as any).isTransitionValid(
+      { on: 'no_reply', to: 'email_2', after: 'PT24H' },
+      tenantId,
+      'campaign-123',
+      'email_1',
+      now
+    );
+
+    expect(isValid).toBe(false);
+  });
+});
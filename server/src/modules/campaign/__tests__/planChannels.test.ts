@@ -0,0 +1,58 @@
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import { getPlanEntryChannel, validatePlanChannels } from '../planChannels';
+
+const mixedPlan = (): CampaignPlanOutput => ({
+  version: '1.0',
+  timezone: 'America/Chicago',
+  defaults: { timers: {} },
+  startNodeId: 'wait_start',
+  nodes: [
+    {
+      id: 'wait_start',
+      channel: 'email',
+      action: 'wait',
+      transitions: [{ on: 'no_reply', to: 'sms_intro', after: 'PT1H' }],
+    },
+    {
+      id: 'sms_intro',
+      channel: 'sms',
+      action: 'send',
+      body: 'Hi Jane, quick question about your depositions',
+      schedule: { delay: 'PT0S' },
+      transitions: [
+        { on: 'replied', to: 'stop', within: 'P3D' },
+        { on: 'no_reply', to: 'email_followup', after: 'P3D' },
+      ],
+    },
+    {
+      id: 'email_followup',
+      channel: 'email',
+      action: 'send',
+      subject: 'Following up',
+      body: 'Hi Jane',
+      schedule: { delay: 'PT0S' },
+      transitions: [{ on: 'no_open', to: 'stop', after: 'PT72H' }],
+    },
+    { id: 'stop', channel: 'email', action: 'stop', transitions: [] },
+  ],
+});
+
+describe('planChannels', () => {
+  it('uses the channel of the first send node reached from the start node', () => {
+    expect(getPlanEntryChannel(mixedPlan())).toBe('sms');
+  });
+
+  it('accepts transitions each node channel can produce', () => {
+    expect(validatePlanChannels(mixedPlan())).toEqual({ isValid: true, issues: [] });
+  });
+
+  it('rejects open and click transitions on sms nodes', () => {
+    const plan = mixedPlan();
+    plan.nodes[1]!.transitions.push({ on: 'no_open', to: 'stop', after: 'PT24H' });
+
+    const result = validatePlanChannels(plan);
+
+    expect(result.isValid).toBe(false);
+    expect(result.issues).toEqual([expect.stringContaining('"sms_intro" (sms)')]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import {
+  getAbTestKey,
+  pickVariant,
+  resolveSendContent,
+  validatePlanVariants,
+  type SendPlanNode,
+} from '../planVariants';
+
+const sendNode = (overrides: Partial<SendPlanNode> = {}): SendPlanNode => ({
+  id: 'cl9node0000001',
+  stepKey: 'email_intro',
+  channel: 'email',
+  action: 'send',
+  subject: 'Quick question',
+  body: 'Hi Jane',
+  schedule: { delay: 'PT0S' },
+  transitions: [],
+  variants: [
+    { id: 'a', weight: 1 },
+    { id: 'b', subject: 'Depositions next week?', weight: 1 },
+  ],
+  ...overrides,
+});
+
+describe('planVariants', () => {
+  it('assigns a contact the same variant every time', () => {
+    const node = sendNode();
+    const first = resolveSendContent(node, 'contact-1');
+
+    for (let i = 0; i < 5; i++) {
+      expect(resolveSendContent(node, 'contact-1').variantId).toBe(first.variantId);
+    }
+  });
+
+  it('splits contacts roughly by weight', () => {
+    const variants = [
+      { id: 'a', weight: 3 },
+      { id: 'b', weight: 1 },
+    ];
+    const counts = { a: 0, b: 0 };
+    for (let i = 0; i < 2000; i++) {
+      const variant = pickVariant(variants, `contact-${i}`, 'email_intro');
+      counts[variant!.id as 'a' | 'b']++;
+    }
+
+    expect(counts.a / 2000).toBeGreaterThan(0.7);
+    expect(counts.a / 2000).toBeLessThan(0.8);
+  });
+
+  it('applies the variant copy and falls back to the node for missing fields', () => {
+    const node = sendNode({
+      variants: [{ id: 'b', subject: 'Depositions next week?', weight: 1 }],
+    });
+    const resolved = resolveSendContent(node, 'contact-1');
+
+    expect(resolved.variantId).toBe('b');
+    expect(resolved.node.subject).toBe('Depositions next week?');
+    expect(resolved.node.body).toBe('Hi Jane');
+  });
+
+  it('sends the promoted winner to everyone', () => {
+    const node = sendNode();
+    for (let i = 0; i < 20; i++) {
+      expect(resolveSendContent(node, `contact-${i}`, 'b').variantId).toBe('b');
+    }
+  });
+
+  it('leaves nodes without variants untouched', () => {
+    const node = sendNode({ variants: undefined });
+    expect(resolveSendContent(node, 'contact-1')).toEqual({ node, variantId: null });
+  });
+
+  it('keeps the same step of unrelated plans in separate tests', () => {
+    const copied = sendNode({ id: 'cl9node0000002' });
+    const unrelated = sendNode({
+      variants: [
+        { id: 'a', subject: 'Intro', weight: 1 },
+        { id: 'b', subject: 'Hello', weight: 1 },
+      ],
+    });
+
+    expect(getAbTestKey(copied)).toBe(getAbTestKey(sendNode()));
+    expect(getAbTestKey(copied)).toMatch(/^email_intro:[0-9a-f]{8}$/);
+    expect(getAbTestKey(unrelated)).not.toBe(getAbTestKey(sendNode()));
+  });
+
+  it('pools sends by an explicit test id', () => {
+    const abTest = { testId: 'q3-subject-lines', metric: 'replied' as const };
+    const first = sendNode({ abTest });
+    const second = sendNode({ abTest, variants: [{ id: 'a', body: 'Hi there', weight: 2 }] });
+
+    expect(getAbTestKey(first)).toBe('q3-subject-lines');
+    expect(getAbTestKey(second)).toBe('q3-subject-lines');
+  });
+
+  it('flags duplicate ids and variants with no usable copy', () => {
+    const plan = {
+      version: '1.0',
+      timezone: 'America/Chicago',
+      defaults: { timers: {} },
+      startNodeId: 'email_intro',
+      nodes: [
+        sendNode({
+          id: 'email_intro',
+          subject: undefined,
+          variants: [
+            { id: 'a', subject: 'One', weight: 1 },
+            { id: 'a', weight: 1 },
+          ],
+        }),
+      ],
+    } as CampaignPlanOutput;
+
+    const result = validatePlanVariants(plan);
+
+    expect(result.isValid).toBe(false);
+    expect(result.issues).toEqual([
+      'Node "email_intro" has more than one variant "a"',
+      'Variant "a" of node "email_intro" has no subject',
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  campaignTransitionRepository,
+  contactCampaignRepository,
+  scheduledActionRepository,
+} from '@/repositories';
+import { CampaignPlanExecutionService } from '../campaignPlanExecution.service';
+import type { CampaignPlanOutput } from '../../ai/schemas/contactStrategy/contactCampaignStrategySchema';
+
+jest.mock('@/repositories', () => ({
+  campaignTransitionRepository: {
+    listByCampaignForTenant: jest.fn(),
+    createForTenant: jest.fn(),
+  },
+  contactCampaignRepository: {
+    findByIdForTenant: jest.fn(),
+    updateByIdForTenant: jest.fn(),
+  },
+  scheduledActionRepository: {
+    createForTenant: jest.fn(),
+    findPendingByCampaignAndType: jest.fn(),
+    cancelByCampaignForTenant: jest.fn(),
+  },
+  campaignTaskRepository: {
+    cancelOpenForCampaignForTenant: jest.fn(),
+  },
+  outboundMessageRepository: {
+    cancelPendingReviewForCampaignForTenant: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/bullmq', () => ({
+  getQueue: jest.fn(() => ({
+    add: jest.fn(),
+    getJob: jest.fn(),
+  })),
+}));
+
+describe('CampaignPlanExecutionService - processReply', () => {
+  let service: CampaignPlanExecutionService;
+  const tenantId = 'tenant-123';
+  const campaignId = 'campaign-123';
+
+  const createPlan = (
+    transitions: CampaignPlanOutput['nodes'][number]['transitions']
+  ): CampaignPlanOutput => ({
+    version: '1.0',
+    timezone: 'UTC',
+    defaults: { timers: { no_open_after: 'PT72H', no_click_after: 'PT24H' } },
+    startNodeId: 'email_1',
+    nodes: [
+      {
+        id: 'email_1',
+        channel: 'email',
+        action: 'send',
+        subject: 'Hello',
+        body: 'Intro',
+        schedule: { delay: 'PT0S' },
+        transitions,
+      },
+      { id: 'email_2', channel: 'email', action: 'send', schedule: {}, transitions: [] },
+      { id: 'stop', channel: 'email', action: 'stop', transitions: [] },
+    ],
+  });
+
+  const replyParams = (plan: CampaignPlanOutput) => ({
+    tenantId,
+    campaignId,
+    contactId: 'contact-123',
+    leadId: 'lead-123',
+    currentNodeId: 'email_1',
+    plan,
+  });
+
+  beforeEach(() => {
+    service = new CampaignPlanExecutionService();
+    jest.clearAllMocks();
+
+    (campaignTransitionRepository.listByCampaignForTenant as jest.Mock).mockResolvedValue([]);
+    (campaignTransitionRepository.createForTenant as jest.Mock).mockResolvedValue({
+      id: 'transition-1',
+    });
+    (contactCampaignRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      id: campaignId,
+      startedAt: new Date(Date.now() - 60 * 60 * 1000),
+    });
+    (scheduledActionRepository.findPendingByCampaignAndType as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('follows a replied transition when the current node defines one', async () => {
+    const plan = createPlan([
+      { on: 'replied', to: 'stop', within: 'P30D' },
+      { on: 'no_click', to: 'email_2', after: 'PT24H' },
+    ]);
+
+    const result = await service.processReply(replyParams(plan));
+
+    expect(result).toMatchObject({ success: true, toNodeId: 'stop', eventType: 'replied' });
+    expect(contactCampaignRepository.updateByIdForTenant).toHaveBeenCalledWith(
+      campaignId,
+      tenantId,
+      expect.objectContaining({ currentNodeId: 'stop' })
+    );
+    expect(scheduledActionRepository.cancelByCampaignForTenant).not.toHaveBeenCalled();
+  });
+
+  it('stops the sequence when the node has no replied transition', async () => {
+    const plan = createPlan([{ on: 'no_click', to: 'email_2', after: 'PT24H' }]);
+
+    const result = await service.processReply(replyParams(plan));
+
+    expect(result).toMatchObject({ success: true, reason: 'stopped_on_reply' });
+    expect(scheduledActionRepository.cancelByCampaignForTenant).toHaveBeenCalledWith(
+      tenantId,
+      campaignId
+    );
+    expect(contactCampaignRepository.updateByIdForTenant).toHaveBeenCalledWith(
+      campaignId,
+      tenantId,
+      expect.objectContaining({ status: 'stopped' })
+    );
+    expect(campaignTransitionRepository.createForTenant).toHaveBeenCalledWith(
+      tenantId,
+      expect.objectContaining({ fromStatus: 'active', toStatus: 'stopped' })
+    );
+  });
+});
@@ -7,6 +7,8 @@ import {
   isValidIsoDuration,
   isValidTimeFormat,
   isValidTimezone,
+  nextTimeInSendWindows,
+  skipBlackoutDates,
 } from '../scheduleUtils';
 
 // Mock the logger to avoid console output during tests
@@ -642,4 +644,68 @@ describe('Schedule Utils', () => {
       expect(result).toBeInstanceOf(Date);
     });
   });
+
+  describe('nextTimeInSendWindows', () => {
+    const windows = [{ days: [2, 3, 4], start: '08:00', end: '10:00' }];
+
+    it('keeps a time that is already inside a window', () => {
+      // Tuesday 09:15 in Chicago
+      const scheduledAt = new Date('2026-03-03T15:15:00.000Z');
+
+      expect(nextTimeInSendWindows(scheduledAt, 'America/Chicago', windows)).toEqual(scheduledAt);
+    });
+
+    it('moves a time to the next window start in the contact timezone', () => {
+      // Friday 14:00 in Chicago -> Tuesday 08:00 Chicago
+      const scheduledAt = new Date('2026-03-06T20:00:00.000Z');
+
+      expect(nextTimeInSendWindows(scheduledAt, 'America/Chicago', windows)).toEqual(
+        new Date('2026-03-10T13:00:00.000Z')
+      );
+    });
+
+    it('uses a later window on the same day', () => {
+      // Wednesday 06:30 in Berlin -> Wednesday 08:00 Berlin
+      const scheduledAt = new Date('2026-01-07T05:30:00.000Z');
+
+      expect(nextTimeInSendWindows(scheduledAt, 'Europe/Berlin', windows)).toEqual(
+        new Date('2026-01-07T07:00:00.000Z')
+      );
+    });
+  });
+
+  describe('blackout dates', () => {
+    const isBlackoutDate = (date: string) => date === '2026-12-24' || date === '2026-12-25';
+
+    it('moves a send to local midnight after consecutive blackout dates', () => {
+      // Thursday 10:00 in New York on Christmas Eve
+      const scheduledAt = new Date('2026-12-24T15:00:00.000Z');
+
+      expect(skipBlackoutDates(scheduledAt, 'America/New_York', isBlackoutDate)).toEqual(
+        new Date('2026-12-26T05:00:00.000Z')
+      );
+    });
+
+    it('checks the date in the contact timezone', () => {
+      // Still 23 December in Los Angeles
+      const scheduledAt = new Date('2026-12-24T02:00:00.000Z');
+
+      expect(skipBlackoutDates(scheduledAt, 'America/Los_Angeles', isBlackoutDate)).toEqual(
+        scheduledAt
+      );
+    });
+
+    it('applies quiet hours after skipping blackout dates', () => {
+      const result = calculateScheduleTime(
+        'P1D',
+        'America/New_York',
+        { start: '18:00', end: '08:00' },
+        new Date('2026-12-23T15:00:00.000Z'),
+        isBlackoutDate
+      );
+
+      // 26 December 08:00 in New York
+      expect(result).toEqual(new Date('2026-12-26T13:00:00.000Z'));
+    });
+  });
 });
@@ -303,6 +303,28 @@ describe('CampaignPlanExecutionService - Timing Validation', () => {
 
       expect(isValid).toBe(true);
     });
+
+    it('should let a rep finish a task before the default after delay', async () => {
+      const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
+      jest.spyOn(service as any, 'getCurrentNodeStartTime').mockResolvedValue(fiveMinutesAgo);
+
+      // Task transitions without `within` get the schema's default after: PT24H
+      const transition = {
+        on: 'task_done',
+        to: 'node-2',
+        after: 'PT24H',
+      };
+
+      const isValid = await (service as any).isTransitionValid(
+        transition,
+        mockTenantId,
+        mockCampaignId,
+        'call-1',
+        new Date()
+      );
+
+      expect(isValid).toBe(true);
+    });
   });
 
   describe('processTransition - Integration Tests', () => {
@@ -3,12 +3,27 @@ import {
   scheduledActionRepository,
   contactCampaignRepository,
   campaignTransitionRepository,
+  campaignTaskRepository,
+  leadRepository,
+  outboundMessageRepository,
 } from '@/repositories';
 import { CampaignExecutionPublisher } from '@/modules/messages';
+import { sendTimeService } from '@/modules/sendTime';
+import { blackoutService } from '@/modules/blackout';
 import type { ScheduledAction } from '@/db/schema';
+import type { PausedJob } from '@/repositories';
 import { getQueue } from '@/libs/bullmq';
 import type {
+  ManualPauseParams,
+  ManualResumeParams,
+  ManualResumeResult,
+  PauseCampaignParams,
+  PauseCampaignResult,
+  ProcessReplyParams,
   ProcessTransitionParams,
+  ResumeCampaignParams,
+  RetrySendAfterBounceParams,
+  StopCampaignParams,
   TransitionResult,
   NextActionResult,
 } from '@/types/campaign-transition.types';
@@ -17,11 +32,44 @@ import type {
   TimeoutTransitionResult,
 } from '@/types/timeout-transition.types';
 import { JOB_NAMES, QUEUE_NAMES } from '@/constants/queues';
+import { CAMPAIGN_EVENT_TYPES, isTaskOutcomeEvent } from '@/constants/campaign-events';
 import type {
   CampaignPlanOutput,
   CampaignPlanNode,
 } from '../ai/schemas/contactStrategy/contactCampaignStrategySchema';
-import { calculateScheduleTime, parseIsoDuration, applyQuietHours } from './scheduleUtils';
+import { calculateScheduleTime, parseIsoDuration, type BlackoutDateCheck } from './scheduleUtils';
+
+const formatPauseLength = (ms: number): string => {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+};
+
+/**
+ * Time the campaign spent paused after `since`, from each pause transition to the resume
+ * that followed it. A pause still in progress isn't counted.
+ */
+const sumPausedTime = (
+  transitions: Array<{ fromStatus: string | null; toStatus: string; occurredAt: Date }>,
+  since: Date
+): number => {
+  let pausedAt: number | null = null;
+  let total = 0;
+  for (const transition of [...transitions].sort(
+    (a, b) => a.occurredAt.getTime() - b.occurredAt.getTime()
+  )) {
+    const at = transition.occurredAt.getTime();
+    if (at < since.getTime()) continue;
+    if (transition.toStatus === 'paused' && pausedAt === null) {
+      pausedAt = at;
+    } else if (transition.fromStatus === 'paused' && pausedAt !== null) {
+      total += at - pausedAt;
+      pausedAt = null;
+    }
+  }
+  return total;
+};
 
 export interface CampaignExecutionContext {
   tenantId: string;
@@ -47,11 +95,13 @@ export class CampaignPlanExecutionService {
   /**
    * Handles campaign execution when a contact is manually reviewed.
    * Checks for existing campaigns and initializes execution if appropriate.
+   * Other callers restarting a draft campaign pass their own `triggeredBy`.
    */
   async handleManuallyReviewedExecution(
     tenantId: string,
     contactId: string,
-    leadId: string
+    leadId: string,
+    triggeredBy = 'manual_review'
   ): Promise<void> {
     try {
       logger.info('Processing manually reviewed contact for campaign execution', {
@@ -60,11 +110,10 @@ export class CampaignPlanExecutionService {
         leadId,
       });
 
-      // Check if there's an existing campaign for this contact (default to email channel)
-      const existingCampaign = await contactCampaignRepository.findByContactAndChannelForTenant(
+      // Check if there's an existing campaign for this contact
+      const existingCampaign = await contactCampaignRepository.findByContactForTenant(
         tenantId,
-        contactId,
-        'email'
+        contactId
       );
 
       if (!existingCampaign || !existingCampaign.planJson) {
@@ -99,7 +148,7 @@ export class CampaignPlanExecutionService {
       const campaignPlan = existingCampaign.planJson as CampaignPlanOutput;
 
       // Initialize campaign execution using the service
-      const scheduledActionId = await this.initializeCampaignExecution({
+      const scheduledAction = await this.initializeCampaignExecution({
         tenantId,
         campaignId: existingCampaign.id,
         contactId,
@@ -111,18 +160,23 @@ export class CampaignPlanExecutionService {
         (node: any) => node.id === campaignPlan.startNodeId
       );
       if (startNode && startNode.action === 'send') {
-        // Publish queue message for the specific start node execution
-        const job = await CampaignExecutionPublisher.publish({
-          tenantId,
-          campaignId: existingCampaign.id,
-          contactId,
-          leadId,
-          nodeId: startNode.id,
-          actionType: 'send',
-          metadata: {
-            triggeredBy: 'manual_review',
+        const scheduledActionId = scheduledAction?.id;
+
+        // Publish queue message for the specific start node, delayed to its send time
+        const job = await CampaignExecutionPublisher.publish(
+          {
+            tenantId,
+            campaignId: existingCampaign.id,
+            contactId,
+            leadId,
+            nodeId: startNode.id,
+            actionType: 'send',
+            metadata: {
+              triggeredBy,
+            },
           },
-        });
+          { delay: Math.max(0, (scheduledAction?.scheduledAt.getTime() ?? 0) - Date.now()) }
+        );
 
         // Update the corresponding scheduled action with the job ID
         if (scheduledActionId) {
@@ -155,6 +209,7 @@ export class CampaignPlanExecutionService {
           nodeId: startNode.id,
           jobId: job.id,
           scheduledActionId,
+          scheduledAt: scheduledAction?.scheduledAt,
         });
       }
 
@@ -179,10 +234,12 @@ export class CampaignPlanExecutionService {
   /**
    * Initializes a campaign for execution by creating the first scheduled action
    * and updating campaign status to active.
-   * @returns The ID of the created scheduled action, or null if no action was scheduled
+   * @returns The created scheduled action, or null if no action was scheduled
    */
-  async initializeCampaignExecution(context: CampaignExecutionContext): Promise<string | null> {
-    const { tenantId, campaignId, plan } = context;
+  async initializeCampaignExecution(
+    context: CampaignExecutionContext
+  ): Promise<ScheduledAction | null> {
+    const { tenantId, campaignId, contactId, plan } = context;
 
     try {
       logger.info('Initializing campaign execution', {
@@ -197,18 +254,20 @@ export class CampaignPlanExecutionService {
         throw new Error(`Start node ${plan.startNodeId} not found in campaign plan`);
       }
 
-      let scheduledActionId: string | null = null;
+      let scheduledAction: ScheduledAction | null = null;
 
       // Only initialize if the start node is a send action
       if (startNode.action === 'send') {
-        const scheduledAt = calculateScheduleTime(
-          startNode.schedule?.delay || 'PT0S',
-          plan.timezone,
-          plan.quietHours
-        );
+        const { scheduledAt, timezone, source } = await sendTimeService.scheduleSend({
+          tenantId,
+          contactId,
+          channel: startNode.channel,
+          scheduledAt: new Date(Date.now() + parseIsoDuration(startNode.schedule?.delay || 'PT0S')),
+          plan,
+        });
 
         // Create initial scheduled action
-        const scheduledAction = await this.scheduleAction({
+        scheduledAction = await this.scheduleAction({
           tenantId,
           campaignId,
           nodeId: startNode.id,
@@ -221,8 +280,6 @@ export class CampaignPlanExecutionService {
           },
         });
 
-        scheduledActionId = scheduledAction.id;
-
         // Update campaign status to active
         await contactCampaignRepository.updateByIdForTenant(campaignId, tenantId, {
           status: 'active',
@@ -237,7 +294,9 @@ export class CampaignPlanExecutionService {
           campaignId,
           startNodeId: startNode.id,
           scheduledAt,
-          scheduledActionId,
+          timezone,
+          timezoneSource: source,
+          scheduledActionId: scheduledAction.id,
         });
       } else if (startNode.action === 'wait') {
         // For wait nodes, just update status and schedule timeouts
@@ -253,6 +312,30 @@ export class CampaignPlanExecutionService {
           campaignId,
           startNodeId: startNode.id,
         });
+      } else if (startNode.action === 'task') {
+        const campaign = await contactCampaignRepository.findByIdForTenant(campaignId, tenantId);
+        if (!campaign) {
+          throw new Error(`Campaign not found: ${campaignId}`);
+        }
+
+        await contactCampaignRepository.updateByIdForTenant(campaignId, tenantId, {
+          status: 'active',
+          startedAt: new Date(),
+        });
+
+        await this.scheduleTaskAction(
+          tenantId,
+          campaignId,
+          campaign.leadId,
+          campaign.contactId,
+          startNode
+        );
+
+        logger.info('Campaign initialized with task node', {
+          tenantId,
+          campaignId,
+          startNodeId: startNode.id,
+        });
       } else {
         logger.warn('Campaign start node is not actionable', {
           tenantId,
@@ -262,7 +345,7 @@ export class CampaignPlanExecutionService {
         });
       }
 
-      return scheduledActionId;
+      return scheduledAction;
     } catch (error) {
       logger.error('Failed to initialize campaign execution', {
         tenantId,
@@ -317,7 +400,8 @@ export class CampaignPlanExecutionService {
    * Processes an event-driven transition in the campaign plan
    */
   async processTransition(params: ProcessTransitionParams): Promise<TransitionResult> {
-    const { tenantId, campaignId, contactId, leadId, eventType, currentNodeId, plan } = params;
+    const { tenantId, campaignId, contactId, leadId, eventType, currentNodeId, plan, channel } =
+      params;
 
     logger.info('Processing campaign transition', {
       tenantId,
@@ -326,6 +410,7 @@ export class CampaignPlanExecutionService {
       leadId,
       eventType,
       currentNodeId,
+      channel,
     });
 
     // Find current node in plan
@@ -334,6 +419,21 @@ export class CampaignPlanExecutionService {
       throw new Error(`Current node not found in plan: ${currentNodeId}`);
     }
 
+    // In a mixed-channel plan, e.g. a late email "delivered" must not advance an sms node
+    if (channel && channel !== currentNode.channel) {
+      logger.debug('Ignoring event from a different channel than the current node', {
+        currentNodeId,
+        eventType,
+        eventChannel: channel,
+        nodeChannel: currentNode.channel,
+      });
+      return {
+        success: false,
+        reason: 'channel_mismatch',
+        availableTransitions: currentNode.transitions?.length || 0,
+      };
+    }
+
     // Find matching transitions by event type first
     const candidateTransitions = currentNode.transitions?.filter((t) => t.on === eventType) || [];
 
@@ -390,6 +490,15 @@ export class CampaignPlanExecutionService {
     // Cancel any remaining timeout jobs for the current node since we're transitioning away
     await this.cancelNodeTimeoutJobs(tenantId, campaignId, currentNodeId);
 
+    // Leaving a task node on anything but its outcome (e.g. a reply) makes the task moot
+    if (currentNode.action === 'task') {
+      await campaignTaskRepository.cancelOpenForCampaignForTenant(
+        tenantId,
+        campaignId,
+        currentNodeId
+      );
+    }
+
     // Update campaign state
     await contactCampaignRepository.updateByIdForTenant(campaignId, tenantId, {
       currentNodeId: transition.to,
@@ -466,6 +575,356 @@ export class CampaignPlanExecutionService {
     return result;
   }
 
+  /**
+   * Handles a prospect reply. Follows a `replied` transition when the current node
+   * defines a valid one; otherwise stops the sequence so no further bumps go out.
+   */
+  async processReply(params: ProcessReplyParams): Promise<TransitionResult> {
+    const { tenantId, campaignId, currentNodeId } = params;
+
+    const transitionResult = await this.processTransition({
+      ...params,
+      eventType: CAMPAIGN_EVENT_TYPES.REPLIED,
+    });
+
+    if (transitionResult.success) {
+      return transitionResult;
+    }
+
+    const transitionId = await this.stopCampaign({
+      tenantId,
+      campaignId,
+      currentNodeId,
+      reason: `Event: ${CAMPAIGN_EVENT_TYPES.REPLIED}`,
+    });
+
+    logger.info('[CampaignPlanExecutionService] Campaign stopped on reply', {
+      tenantId,
+      campaignId,
+      currentNodeId,
+      transitionReason: transitionResult.reason,
+    });
+
+    return {
+      success: true,
+      fromNodeId: currentNodeId,
+      eventType: CAMPAIGN_EVENT_TYPES.REPLIED,
+      transitionId,
+      reason: 'stopped_on_reply',
+      nextAction: { scheduled: false, actionType: 'stop', reason: 'campaign_stopped' },
+    };
+  }
+
+  /**
+   * Stops an active campaign where it is and cancels everything it still had scheduled.
+   * Returns the id of the recorded transition.
+   */
+  async stopCampaign(params: StopCampaignParams): Promise<string> {
+    const {
+      tenantId,
+      campaignId,
+      currentNodeId,
+      reason,
+      fromStatus = 'active',
+      createdBy,
+    } = params;
+
+    await scheduledActionRepository.cancelByCampaignForTenant(tenantId, campaignId);
+    await campaignTaskRepository.cancelOpenForCampaignForTenant(tenantId, campaignId);
+    await outboundMessageRepository.cancelPendingReviewForCampaignForTenant(tenantId, campaignId);
+
+    await contactCampaignRepository.updateByIdForTenant(campaignId, tenantId, {
+      status: 'stopped',
+      pausedAt: null,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const transitionRecord = await campaignTransitionRepository.createForTenant(tenantId, {
+      campaignId,
+      fromStatus,
+      toStatus: 'stopped',
+      reason: `${reason} - sequence stopped at ${currentNodeId}`,
+      createdBy,
+      occurredAt: new Date(),
+    });
+
+    return transitionRecord.id;
+  }
+
+  /**
+   * Pauses an active campaign and schedules it to pick back up at `resumeAt`.
+   * The resume job is tracked as a scheduled action so stopping the campaign cancels it.
+   */
+  async pauseCampaign(params: PauseCampaignParams): Promise<PauseCampaignResult> {
+    const { tenantId, campaignId, currentNodeId, reason, resumeAt } = params;
+
+    await scheduledActionRepository.cancelByCampaignForTenant(tenantId, campaignId);
+
+    await contactCampaignRepository.updateByIdForTenant(campaignId, tenantId, {
+      status: 'paused',
+      updatedAt: new Date(),
+    });
+
+    const transitionRecord = await campaignTransitionRepository.createForTenant(tenantId, {
+      campaignId,
+      fromStatus: 'active',
+      toStatus: 'paused',
+      reason: `Paused: ${reason} - at ${currentNodeId} until ${resumeAt.toISOString()}`,
+      occurredAt: new Date(),
+    });
+
+    const resumeJobId = `${JOB_NAMES.campaign_execution.resume}_${campaignId}_${resumeAt.getTime()}`;
+
+    await scheduledActionRepository.createForTenant(tenantId, {
+      campaignId,
+      actionType: JOB_NAMES.campaign_execution.resume,
+      scheduledAt: resumeAt,
+      status: 'pending',
+      payload: { nodeId: currentNodeId, reason },
+      bullmqJobId: resumeJobId,
+    });
+
+    await CampaignExecutionPublisher.publishResume(
+      { tenantId, campaignId, reason },
+      resumeAt,
+      resumeJobId
+    );
+
+    logger.info('[CampaignPlanExecutionService] Campaign paused', {
+      tenantId,
+      campaignId,
+      currentNodeId,
+      reason,
+      resumeAt: resumeAt.toISOString(),
+    });
+
+    return { transitionId: transitionRecord.id, resumeAt, resumeJobId };
+  }
+
+  /**
+   * Pauses an active campaign until someone resumes it. Jobs that haven't run yet are parked
+   * rather than canceled, so `resumePausedCampaign` can put them back.
+   */
+  async pauseUntilResumed(params: ManualPauseParams): Promise<string> {
+    const { tenantId, campaignId, currentNodeId, reason, createdBy } = params;
+    const pausedAt = new Date();
+
+    // Status first, so a job that starts meanwhile sees the pause
+    await contactCampaignRepository.updateByIdForTenant(campaignId, tenantId, {
+      status: 'paused',
+      pausedAt,
+      updatedAt: pausedAt,
+    });
+
+    const pausedActions = await scheduledActionRepository.pauseByCampaignForTenant(
+      tenantId,
+      campaignId
+    );
+
+    const transitionRecord = await campaignTransitionRepository.createForTenant(tenantId, {
+      campaignId,
+      fromStatus: 'active',
+      toStatus: 'paused',
+      reason: `Paused: ${reason} - at ${currentNodeId}`,
+      createdBy,
+      occurredAt: pausedAt,
+    });
+
+    logger.info('[CampaignPlanExecutionService] Campaign paused until resumed', {
+      tenantId,
+      campaignId,
+      currentNodeId,
+      reason,
+      pausedActions: pausedActions.length,
+    });
+
+    return transitionRecord.id;
+  }
+
+  /**
+   * Resumes a campaign paused by `pauseUntilResumed`. Each parked job is re-added with its
+   * time pushed back by the length of the pause, so a timeout with a day left still has a
+   * day left; sends then move to the contact's next send window. The node's `within` /
+   * `after` windows skip the pause too (see getCurrentNodeStartTime).
+   */
+  async resumePausedCampaign(params: ManualResumeParams): Promise<ManualResumeResult> {
+    const { tenantId, campaign, reason, createdBy } = params;
+    const resumedAt = new Date();
+    const pausedForMs = campaign.pausedAt ? resumedAt.getTime() - campaign.pausedAt.getTime() : 0;
+    const plan = campaign.planJson as CampaignPlanOutput;
+
+    await contactCampaignRepository.updateByIdForTenant(campaign.id, tenantId, {
+      status: 'active',
+      pausedAt: null,
+      updatedAt: resumedAt,
+    });
+
+    const pausedActions = await scheduledActionRepository.findPausedByCampaignForTenant(
+      tenantId,
+      campaign.id
+    );
+    const executionQueue = getQueue(QUEUE_NAMES.campaign_execution);
+    let rescheduledActions = 0;
+
+    for (const action of pausedActions) {
+      const { pausedJob, ...payload } = (action.payload ?? {}) as Record<string, unknown> & {
+        pausedJob?: PausedJob;
+      };
+      if (!pausedJob || !action.bullmqJobId) {
+        await scheduledActionRepository.updateByIdForTenant(action.id, tenantId, {
+          status: 'canceled',
+          updatedAt: new Date(),
+        });
+        continue;
+      }
+
+      let scheduledAt = new Date(
+        Math.max(resumedAt.getTime(), action.scheduledAt.getTime() + pausedForMs)
+      );
+      if (action.actionType === 'send') {
+        ({ scheduledAt } = await sendTimeService.scheduleSend({
+          tenantId,
+          contactId: campaign.contactId,
+          channel: payload.channel === 'sms' ? 'sms' : 'email',
+          scheduledAt,
+          plan,
+        }));
+      }
+
+      await executionQueue.add(pausedJob.name, pausedJob.data, {
+        ...pausedJob.opts,
+        jobId: action.bullmqJobId,
+        delay: Math.max(0, scheduledAt.getTime() - Date.now()),
+      });
+      await scheduledActionRepository.updateByIdForTenant(action.id, tenantId, {
+        status: 'pending',
+        scheduledAt,
+        payload,
+        updatedAt: new Date(),
+      });
+      rescheduledActions++;
+    }
+
+    const transitionRecord = await campaignTransitionRepository.createForTenant(tenantId, {
+      campaignId: campaign.id,
+      fromStatus: 'paused',
+      toStatus: 'active',
+      reason: `Resumed: ${reason} - after ${formatPauseLength(pausedForMs)} paused at ${campaign.currentNodeId ?? 'start'}`,
+      createdBy,
+      occurredAt: resumedAt,
+    });
+
+    logger.info('[CampaignPlanExecutionService] Paused campaign resumed', {
+      tenantId,
+      campaignId: campaign.id,
+      pausedForMs,
+      rescheduledActions,
+    });
+
+    return { transitionId: transitionRecord.id, pausedForMs, rescheduledActions };
+  }
+
+  /**
+   * Runs the pending resume of a campaign paused until a set time (e.g. out of office) now
+   * instead of waiting for it
+   */
+  async resumeScheduledPauseNow(tenantId: string, campaignId: string, reason: string) {
+    await scheduledActionRepository.cancelByCampaignForTenant(tenantId, campaignId);
+
+    const resumeAt = new Date();
+    const resumeJobId = `${JOB_NAMES.campaign_execution.resume}_${campaignId}_${resumeAt.getTime()}`;
+    await scheduledActionRepository.createForTenant(tenantId, {
+      campaignId,
+      actionType: JOB_NAMES.campaign_execution.resume,
+      scheduledAt: resumeAt,
+      status: 'pending',
+      payload: { reason },
+      bullmqJobId: resumeJobId,
+    });
+    await CampaignExecutionPublisher.publishResume(
+      { tenantId, campaignId, reason },
+      resumeAt,
+      resumeJobId
+    );
+  }
+
+  /**
+   * Reactivates a paused campaign at its current node. The transition reason re-enters the
+   * node so timing constraints are measured from the resume, not the original entry.
+   */
+  async resumeCampaign(params: ResumeCampaignParams): Promise<NextActionResult> {
+    const { tenantId, campaignId, contactId, leadId, currentNodeId, plan, reason } = params;
+
+    await contactCampaignRepository.updateByIdForTenant(campaignId, tenantId, {
+      status: 'active',
+      updatedAt: new Date(),
+    });
+
+    await campaignTransitionRepository.createForTenant(tenantId, {
+      campaignId,
+      fromStatus: 'paused',
+      toStatus: 'active',
+      reason: `Resumed: ${reason} - back to ${currentNodeId}`,
+      occurredAt: new Date(),
+    });
+
+    logger.info('[CampaignPlanExecutionService] Campaign resumed', {
+      tenantId,
+      campaignId,
+      currentNodeId,
+      reason,
+      rescheduleNode: params.rescheduleNode,
+    });
+
+    if (!params.rescheduleNode) {
+      return { scheduled: false, reason: 'resumed', nodeId: currentNodeId };
+    }
+
+    return await this.scheduleNextAction(
+      tenantId,
+      campaignId,
+      contactId,
+      leadId,
+      currentNodeId,
+      plan
+    );
+  }
+
+  /**
+   * Re-sends the current node to the contact's fallback address after the primary
+   * hard-bounced. The transition reason re-enters the node so its timers restart.
+   */
+  async retrySendAfterBounce(params: RetrySendAfterBounceParams): Promise<NextActionResult> {
+    const { tenantId, campaignId, contactId, leadId, currentNodeId, plan } = params;
+
+    await this.cancelNodeTimeoutJobs(tenantId, campaignId, currentNodeId);
+
+    await campaignTransitionRepository.createForTenant(tenantId, {
+      campaignId,
+      fromStatus: 'active',
+      toStatus: 'active',
+      reason: `Address fallback: hard bounce - back to ${currentNodeId}`,
+      occurredAt: new Date(),
+    });
+
+    logger.info('[CampaignPlanExecutionService] Retrying send at fallback address', {
+      tenantId,
+      campaignId,
+      currentNodeId,
+      fallbackAddress: params.fallbackAddress,
+    });
+
+    return await this.scheduleNextAction(
+      tenantId,
+      campaignId,
+      contactId,
+      leadId,
+      currentNodeId,
+      plan
+    );
+  }
+
   /**
    * Schedules the next action based on the target node
    */
@@ -529,6 +988,8 @@ export class CampaignPlanExecutionService {
         node,
         plan
       );
+    } else if (node.action === 'task') {
+      return await this.scheduleTaskAction(tenantId, campaignId, leadId, contactId, node);
     } else if (node.action === 'stop') {
       // Mark campaign as completed
       await contactCampaignRepository.updateByIdForTenant(campaignId, tenantId, {
@@ -589,19 +1050,32 @@ export class CampaignPlanExecutionService {
         originalScheduledAt: scheduledAt.toISOString(),
       });
 
-      // Apply quiet hours if configured
-      const adjustedTime = this.applyQuietHours(scheduledAt, plan.timezone, plan.quietHours);
+      // Move into quiet-hours-free send windows in the contact's timezone
+      const {
+        scheduledAt: adjustedTime,
+        timezone,
+        source,
+      } = await sendTimeService.scheduleSend({
+        tenantId,
+        contactId,
+        channel: node.channel,
+        scheduledAt,
+        plan,
+      });
 
-      logger.info('[CampaignPlanExecutionService] Applied quiet hours adjustment', {
+      logger.info('[CampaignPlanExecutionService] Applied send time adjustment', {
         tenantId,
         campaignId,
         nodeId,
         originalTime: scheduledAt.toISOString(),
         adjustedTime: adjustedTime.toISOString(),
-        timezone: plan.timezone,
+        timezone,
+        timezoneSource: source,
         hasQuietHours: !!plan.quietHours,
       });
 
+      const jobId = `send:${campaignId}:${nodeId}:${Date.now()}`;
+
       // Create scheduled action
       const scheduledAction = await scheduledActionRepository.createForTenant(tenantId, {
         campaignId,
@@ -614,6 +1088,7 @@ export class CampaignPlanExecutionService {
           body: node.body,
           channel: node.channel,
         },
+        bullmqJobId: jobId,
       });
 
       logger.info('[CampaignPlanExecutionService] Created scheduled action record', {
@@ -626,7 +1101,6 @@ export class CampaignPlanExecutionService {
 
       // Enqueue execution job
       const executionQueue = getQueue(QUEUE_NAMES.campaign_execution);
-      const jobId = `send:${campaignId}:${nodeId}:${Date.now()}`;
       const jobDelay = Math.max(0, adjustedTime.getTime() - Date.now());
 
       logger.info('[CampaignPlanExecutionService] Preparing to enqueue execution job', {
@@ -716,6 +1190,53 @@ export class CampaignPlanExecutionService {
     };
   }
 
+  /**
+   * Creates the rep task for a task node, assigned to the lead owner. The campaign then
+   * waits on the node until the task outcome (or a reply) triggers a transition.
+   */
+  private async scheduleTaskAction(
+    tenantId: string,
+    campaignId: string,
+    leadId: string,
+    contactId: string,
+    node: CampaignPlanNode
+  ): Promise<NextActionResult> {
+    if (node.action !== 'task') {
+      throw new Error(`Expected task node, got ${node.action}`);
+    }
+
+    const lead = await leadRepository.findByIdForTenant(leadId, tenantId);
+    const dueAt = new Date(Date.now() + this.calculateDelay(node.dueIn || 'P1D'));
+
+    const { task, created } = await campaignTaskRepository.createIfMissingForTenant(tenantId, {
+      campaignId,
+      leadId,
+      contactId,
+      nodeId: node.id,
+      assigneeId: lead.ownerId,
+      type: node.taskType,
+      title: node.title,
+      instructions: node.instructions ?? null,
+      dueAt,
+    });
+
+    logger.info('[CampaignPlanExecutionService] Task node entered', {
+      tenantId,
+      campaignId,
+      nodeId: node.id,
+      taskId: task.id,
+      assigneeId: task.assigneeId,
+      created,
+    });
+
+    return {
+      scheduled: true,
+      actionType: 'task',
+      scheduledAt: task.dueAt,
+      nodeId: node.id,
+    };
+  }
+
   /**
    * Schedules timeout actions for a node based on its transitions
    */
@@ -727,11 +1248,19 @@ export class CampaignPlanExecutionService {
   ): Promise<void> {
     if (!node.transitions) return;
 
+    const isBlackoutDate = await this.loadBlackoutCheck(tenantId);
+
     for (const transition of node.transitions) {
       // Schedule synthetic timeout events (no_open, no_click, etc.)
       if (transition.on.startsWith('no_')) {
         const delay = 'after' in transition ? transition.after : transition.within;
-        const scheduledAt = calculateScheduleTime(delay, plan.timezone, plan.quietHours);
+        const scheduledAt = calculateScheduleTime(
+          delay,
+          plan.timezone,
+          plan.quietHours,
+          undefined,
+          isBlackoutDate
+        );
 
         await this.scheduleAction({
           tenantId,
@@ -749,7 +1278,24 @@ export class CampaignPlanExecutionService {
   }
 
   /**
-   * Gets the start time of the current node by finding the most recent transition to it
+   * Blackout dates for timeout scheduling; timeouts still go ahead if they can't be loaded
+   */
+  private async loadBlackoutCheck(tenantId: string): Promise<BlackoutDateCheck | undefined> {
+    try {
+      return await blackoutService.getBlackoutCheck(tenantId);
+    } catch (error) {
+      logger.warn('[CampaignPlanExecutionService] Could not load blackout dates', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the start time of the current node by finding the most recent transition to it.
+   * Time spent paused since then is added on, so `within` / `after` windows only count
+   * the time the campaign was running.
    */
   async getCurrentNodeStartTime(
     tenantId: string,
@@ -780,6 +1326,7 @@ export class CampaignPlanExecutionService {
       });
 
       if (nodeEntryTransition) {
+        const pausedForMs = sumPausedTime(sortedTransitions, nodeEntryTransition.occurredAt);
         logger.debug('Found node entry transition', {
           tenantId,
           campaignId,
@@ -787,8 +1334,9 @@ export class CampaignPlanExecutionService {
           transitionId: nodeEntryTransition.id,
           reason: nodeEntryTransition.reason,
           occurredAt: nodeEntryTransition.occurredAt.toISOString(),
+          pausedForMs,
         });
-        return nodeEntryTransition.occurredAt;
+        return new Date(nodeEntryTransition.occurredAt.getTime() + pausedForMs);
       }
 
       // If no transition found, this might be the start node
@@ -796,13 +1344,15 @@ export class CampaignPlanExecutionService {
       const campaign = await contactCampaignRepository.findByIdForTenant(campaignId, tenantId);
 
       if (campaign?.startedAt) {
+        const pausedForMs = sumPausedTime(sortedTransitions, campaign.startedAt);
         logger.debug('Using campaign start time as fallback for node start time', {
           tenantId,
           campaignId,
           nodeId,
           campaignStartedAt: campaign.startedAt.toISOString(),
+          pausedForMs,
         });
-        return campaign.startedAt;
+        return new Date(campaign.startedAt.getTime() + pausedForMs);
       }
 
       logger.warn(
@@ -875,8 +1425,10 @@ export class CampaignPlanExecutionService {
         });
       }
 
-      // Check 'after' constraint - event must happen after specified delay
-      if (transition.after) {
+      // Check 'after' constraint - event must happen after specified delay. Task outcomes
+      // are exempt: the schema defaults `after` to PT24H, which would reject a task the
+      // rep finishes early.
+      if (transition.after && !isTaskOutcomeEvent(transition.on)) {
         const afterMs = this.calculateDelay(transition.after);
         if (timeSinceNodeStart < afterMs) {
           logger.debug('Transition rejected: before after constraint', {
@@ -916,22 +1468,6 @@ export class CampaignPlanExecutionService {
     return parseIsoDuration(duration);
   }
 
-  /**
-   * Applies quiet hours to a scheduled time
-   */
-  private applyQuietHours(
-    scheduledAt: Date,
-    timezone?: string,
-    quietHours?: { start: string; end: string }
-  ): Date {
-    if (!quietHours || !timezone) {
-      return scheduledAt;
-    }
-
-    // Use the existing utility function
-    return applyQuietHours(scheduledAt, timezone, quietHours);
-  }
-
   /**
    * Cancels timeout jobs for a specific node when transitioning away from it
    */
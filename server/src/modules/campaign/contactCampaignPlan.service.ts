@@ -2,7 +2,11 @@ import { createHash } from 'crypto';
 import { contactCampaignRepository, campaignPlanVersionRepository } from '@/repositories';
 import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
 import { logger } from '@/libs/logger';
+import { BadRequestError } from '@/exceptions/error';
+import { templateService } from '@/modules/templates';
 import { normalizeCampaignPlanIds, isPlanNormalized } from './planIdNormalizer';
+import { getPlanEntryChannel, validatePlanChannels } from './planChannels';
+import { validatePlanVariants } from './planVariants';
 
 export type PersistPlanArgs = {
   tenantId: string;
@@ -10,7 +14,6 @@ export type PersistPlanArgs = {
   contactId: string;
   userId?: string;
   plan: CampaignPlanOutput;
-  channel?: 'email';
 };
 
 export type PersistPlanResult = {
@@ -23,12 +26,33 @@ export type PersistPlanResult = {
 
 /**
  * Service responsible for persisting Contact Campaign Plans.
- * - Creates/updates `contact_campaigns`
+ * - Creates/updates the contact's single `contact_campaigns` row (plans may mix channels)
  * - Appends `campaign_plan_versions` immutably
  */
 export class ContactCampaignPlanService {
   async persistPlan(args: PersistPlanArgs): Promise<PersistPlanResult> {
-    const { tenantId, leadId, contactId, channel = 'email' } = args;
+    const { tenantId, leadId, contactId } = args;
+
+    const channelValidation = validatePlanChannels(args.plan);
+    if (!channelValidation.isValid) {
+      throw new BadRequestError(
+        `Campaign plan has transitions its channels cannot trigger: ${channelValidation.issues.join('; ')}`
+      );
+    }
+
+    const variantValidation = validatePlanVariants(args.plan);
+    if (!variantValidation.isValid) {
+      throw new BadRequestError(
+        `Campaign plan has invalid A/B variants: ${variantValidation.issues.join('; ')}`
+      );
+    }
+
+    const templateIssues = await templateService.findPlanIssues(args.tenantId, args.plan);
+    if (templateIssues.length > 0) {
+      throw new BadRequestError(
+        `Campaign plan has invalid variables: ${templateIssues.join('; ')}`
+      );
+    }
 
     // Normalize plan IDs to CUIDs before processing
     let normalizedPlan = args.plan;
@@ -50,12 +74,12 @@ export class ContactCampaignPlanService {
 
     const baseVersion = normalizedPlan.version || '1.0';
     const planHash = this.computePlanHash(normalizedPlan);
+    const channel = getPlanEntryChannel(normalizedPlan);
 
-    // Upsert campaign by (tenant, contact, channel)
-    const existingCampaign = await contactCampaignRepository.findByContactAndChannelForTenant(
+    // Upsert campaign by (tenant, contact)
+    const existingCampaign = await contactCampaignRepository.findByContactForTenant(
       tenantId,
-      contactId,
-      channel
+      contactId
     );
 
     let isNewCampaign = false;
@@ -76,6 +100,7 @@ export class ContactCampaignPlanService {
     } else if (campaign.planHash !== planHash) {
       // Update to the new plan
       campaign = await contactCampaignRepository.updateByIdForTenant(campaign.id, tenantId, {
+        channel,
         currentNodeId: normalizedPlan.startNodeId,
         planJson: normalizedPlan,
         planVersion: baseVersion,
@@ -0,0 +1,85 @@
+import { CAMPAIGN_EVENT_TYPES } from '@/constants/campaign-events';
+import type {
+  CampaignPlanNode,
+  CampaignPlanOutput,
+} from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+
+export type PlanChannel = CampaignPlanNode['channel'];
+export type SendChannel = Extract<CampaignPlanNode, { action: 'send' }>['channel'];
+
+/**
+ * Transition events each channel can produce. SMS has no open or click tracking, so a
+ * node on that channel can only move on delivery, a reply, or the lack of one. Manual
+ * task nodes move on the rep's outcome or a reply that arrives while the task is open.
+ */
+export const CHANNEL_EVENT_TYPES: Record<PlanChannel, readonly string[]> = {
+  email: [
+    CAMPAIGN_EVENT_TYPES.DELIVERED,
+    CAMPAIGN_EVENT_TYPES.OPENED,
+    CAMPAIGN_EVENT_TYPES.CLICKED,
+    CAMPAIGN_EVENT_TYPES.REPLIED,
+    CAMPAIGN_EVENT_TYPES.NO_OPEN,
+    CAMPAIGN_EVENT_TYPES.NO_CLICK,
+    CAMPAIGN_EVENT_TYPES.NO_REPLY,
+  ],
+  sms: [
+    CAMPAIGN_EVENT_TYPES.DELIVERED,
+    CAMPAIGN_EVENT_TYPES.REPLIED,
+    CAMPAIGN_EVENT_TYPES.NO_REPLY,
+  ],
+  manual: [
+    CAMPAIGN_EVENT_TYPES.TASK_DONE,
+    CAMPAIGN_EVENT_TYPES.TASK_SKIPPED,
+    CAMPAIGN_EVENT_TYPES.TASK_FAILED,
+    CAMPAIGN_EVENT_TYPES.REPLIED,
+  ],
+};
+
+/**
+ * Returns the channel of the first send node reached from the start node. This is the
+ * channel recorded on the campaign row; later nodes may use other channels. Plans with
+ * no reachable send node (e.g. task-only cadences) are recorded as email.
+ */
+export function getPlanEntryChannel(plan: CampaignPlanOutput): SendChannel {
+  const nodesById = new Map(plan.nodes.map((node) => [node.id, node]));
+  const visited = new Set<string>();
+  const queue = [plan.startNodeId];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (visited.has(nodeId)) continue;
+    visited.add(nodeId);
+
+    const node = nodesById.get(nodeId);
+    if (!node) continue;
+    if (node.action === 'send') return node.channel;
+
+    queue.push(...node.transitions.map((t) => t.to));
+  }
+
+  return 'email';
+}
+
+/**
+ * Checks that every transition listens for an event its node's channel can produce.
+ * A wait node's channel says which channel's events it is waiting on.
+ */
+export function validatePlanChannels(plan: CampaignPlanOutput): {
+  isValid: boolean;
+  issues: string[];
+} {
+  const issues: string[] = [];
+
+  plan.nodes.forEach((node) => {
+    const supported = CHANNEL_EVENT_TYPES[node.channel];
+    node.transitions?.forEach((transition) => {
+      if (!supported.includes(transition.on)) {
+        issues.push(
+          `Node "${node.id}" (${node.channel}) has a "${transition.on}" transition, which ${node.channel} does not produce`
+        );
+      }
+    });
+  });
+
+  return { isValid: issues.length === 0, issues };
+}
@@ -48,8 +48,9 @@ export function normalizeCampaignPlanIds(plan: CampaignPlanOutput): CampaignPlan
       // Transform all nodes
       nodes: plan.nodes.map((node) => ({
         ...node,
-        // Update node's own ID
+        // Update node's own ID, keeping the original as the step shared across contacts
         id: idMapping[node.id] || node.id,
+        stepKey: node.stepKey ?? node.id,
         // Update transition references
         transitions:
           node.transitions?.map((transition) => ({
@@ -0,0 +1,144 @@
+import type {
+  CampaignPlanNode,
+  CampaignPlanOutput,
+  SendVariant,
+} from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+
+export type SendPlanNode = Extract<CampaignPlanNode, { action: 'send' }>;
+
+export interface ResolvedSendContent {
+  node: SendPlanNode; // Node with the variant's subject/body applied
+  variantId: string | null;
+}
+
+/**
+ * Step a node belongs to across every contact's copy of the plan. Node ids are
+ * normalized per contact, so reporting and A/B tests group on this instead.
+ */
+export function getStepKey(node: Pick<CampaignPlanNode, 'id' | 'stepKey'>): string {
+  return node.stepKey ?? node.id;
+}
+
+/**
+ * FNV-1a as an unsigned 32-bit integer. Stable across processes so a retried job picks
+ * the same variant.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashToUnitInterval(value: string): number {
+  return fnv1a(value) / 0x100000000;
+}
+
+/**
+ * Experiment a send node's variants belong to; variant counts and the promoted winner
+ * are shared by every send with the same key. Step keys like "email_1" recur across
+ * unrelated plans, so without an explicit `abTest.testId` the key also carries a
+ * fingerprint of the variants, pooling only contacts whose plans came from the same copy.
+ */
+export function getAbTestKey(node: SendPlanNode): string {
+  if (node.abTest?.testId) return node.abTest.testId;
+
+  const fingerprint = fnv1a(
+    JSON.stringify(
+      (node.variants ?? []).map((variant) => [
+        variant.id,
+        variant.subject ?? node.subject ?? '',
+        variant.body ?? node.body ?? '',
+        variant.weight,
+      ])
+    )
+  );
+  return `${getStepKey(node)}:${fingerprint.toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Picks a contact's variant by weight. The same contact always lands on the same
+ * variant of a step, even if the campaign is regenerated or the job retried.
+ */
+export function pickVariant(
+  variants: SendVariant[],
+  contactId: string,
+  stepKey: string
+): SendVariant | undefined {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight <= 0) return variants[0];
+
+  let remaining = hashToUnitInterval(`${contactId}:${stepKey}`) * totalWeight;
+  for (const variant of variants) {
+    remaining -= variant.weight;
+    if (remaining < 0) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Applies the contact's variant to a send node. A promoted winner overrides the
+ * weighted pick; nodes without variants send their own subject and body.
+ */
+export function resolveSendContent(
+  node: SendPlanNode,
+  contactId: string,
+  winnerVariantId?: string | null
+): ResolvedSendContent {
+  const variants = node.variants ?? [];
+  if (variants.length === 0) {
+    return { node, variantId: null };
+  }
+
+  const variant =
+    variants.find((candidate) => candidate.id === winnerVariantId) ??
+    pickVariant(variants, contactId, getStepKey(node));
+  if (!variant) {
+    return { node, variantId: null };
+  }
+
+  return {
+    node: {
+      ...node,
+      subject: variant.subject ?? node.subject,
+      body: variant.body ?? node.body,
+    },
+    variantId: variant.id,
+  };
+}
+
+/**
+ * Checks that variant ids are unique within a node and that every variant ends up with
+ * the content its channel needs once the node's own subject/body fill the gaps.
+ */
+export function validatePlanVariants(plan: CampaignPlanOutput): {
+  isValid: boolean;
+  issues: string[];
+} {
+  const issues: string[] = [];
+
+  plan.nodes.forEach((node) => {
+    if (node.action !== 'send' || !node.variants?.length) return;
+
+    const seen = new Set<string>();
+    node.variants.forEach((variant) => {
+      if (seen.has(variant.id)) {
+        issues.push(`Node "${node.id}" has more than one variant "${variant.id}"`);
+      }
+      seen.add(variant.id);
+
+      const body = variant.body ?? node.body;
+      const subject = variant.subject ?? node.subject;
+      if (!body?.trim()) {
+        issues.push(`Variant "${variant.id}" of node "${node.id}" has no body`);
+      }
+      if (node.channel === 'email' && !subject?.trim()) {
+        issues.push(`Variant "${variant.id}" of node "${node.id}" has no subject`);
+      }
+    });
+  });
+
+  return { isValid: issues.length === 0, issues };
+}
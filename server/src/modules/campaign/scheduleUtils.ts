@@ -36,25 +36,21 @@ export function parseIsoDuration(duration: string): number {
 }
 
 /**
- * Calculates the next valid send time considering timezone and quiet hours
+ * Calculates the next valid send time considering timezone, quiet hours and blackout dates
  */
 export function calculateScheduleTime(
   delay: string,
   timezone: string,
   quietHours?: { start: string; end: string },
-  baseTime?: Date
+  baseTime?: Date,
+  isBlackoutDate?: BlackoutDateCheck
 ): Date {
   try {
     const base = baseTime || new Date();
     const delayMs = parseIsoDuration(delay);
-    let scheduledAt = new Date(base.getTime() + delayMs);
+    const scheduledAt = new Date(base.getTime() + delayMs);
 
-    // Apply quiet hours if specified
-    if (quietHours) {
-      scheduledAt = applyQuietHours(scheduledAt, timezone, quietHours);
-    }
-
-    return scheduledAt;
+    return applySendConstraints(scheduledAt, timezone, { quietHours, isBlackoutDate });
   } catch (error) {
     logger.warn('Failed to parse schedule delay, using immediate execution', {
       delay,
@@ -79,7 +75,8 @@ function getTimeInTimezone(utcDate: Date, timezone: string): { hour: number; min
     });
 
     const parts = formatter.formatToParts(utcDate);
-    const hour = parseInt(parts.find((part) => part.type === 'hour')?.value || '0', 10);
+    // Some runtimes report midnight as 24
+    const hour = parseInt(parts.find((part) => part.type === 'hour')?.value || '0', 10) % 24;
     const minute = parseInt(parts.find((part) => part.type === 'minute')?.value || '0', 10);
 
     return { hour, minute };
@@ -114,7 +111,12 @@ function createDateInTimezone(
     // Calculate the difference between what we want and what we got
     const wantedMinutes = hour * 60 + minute;
     const actualMinutes = targetHour * 60 + targetMinute;
-    const offsetMinutes = wantedMinutes - actualMinutes;
+    let offsetMinutes = wantedMinutes - actualMinutes;
+
+    // The two times can fall on different days (00:00 wanted vs 19:00 the day before in
+    // New York), so bring the difference back into the -14h..+12h range of real offsets
+    if (offsetMinutes > 12 * 60) offsetMinutes -= 24 * 60;
+    if (offsetMinutes < -14 * 60) offsetMinutes += 24 * 60;
 
     // Adjust the UTC time by the offset
     return new Date(tempDate.getTime() + offsetMinutes * 60 * 1000);
@@ -316,6 +318,232 @@ function isInQuietHoursUTC(time: Date, quietHours: { start: string; end: string
   }
 }
 
+/**
+ * A recurring window in the recipient's local time when campaign emails may go out
+ */
+export interface SendWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:MM
+  end: string; // HH:MM, exclusive
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Gets the calendar date, weekday (0 = Sunday) and time of day in a timezone
+ */
+export function getLocalDateParts(
+  utcDate: Date,
+  timezone: string
+): { year: number; month: number; day: number; weekday: number; hour: number; minute: number } {
+  try {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      hour12: false,
+    });
+
+    const parts = formatter.formatToParts(utcDate);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find((part) => part.type === type)?.value || '0';
+
+    return {
+      year: parseInt(get('year'), 10),
+      month: parseInt(get('month'), 10),
+      day: parseInt(get('day'), 10),
+      weekday: WEEKDAYS.indexOf(get('weekday')),
+      hour: parseInt(get('hour'), 10) % 24, // Some runtimes report midnight as 24
+      minute: parseInt(get('minute'), 10),
+    };
+  } catch (error) {
+    logger.warn('Failed to get local date parts, using UTC', {
+      timezone,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return {
+      year: utcDate.getUTCFullYear(),
+      month: utcDate.getUTCMonth() + 1,
+      day: utcDate.getUTCDate(),
+      weekday: utcDate.getUTCDay(),
+      hour: utcDate.getUTCHours(),
+      minute: utcDate.getUTCMinutes(),
+    };
+  }
+}
+
+/**
+ * Moves a send time forward to the start of the next send window in the given timezone.
+ * Times already inside a window are kept, as is the original time when no window opens
+ * within the next week.
+ */
+export function nextTimeInSendWindows(
+  scheduledAt: Date,
+  timezone: string,
+  windows: SendWindow[]
+): Date {
+  try {
+    if (windows.length === 0) return scheduledAt;
+
+    const local = getLocalDateParts(scheduledAt, timezone);
+    const currentTime = local.hour * 60 + local.minute;
+
+    for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+      const date = new Date(Date.UTC(local.year, local.month - 1, local.day + dayOffset));
+      const weekday = date.getUTCDay();
+      let earliestStart: number | null = null;
+
+      for (const window of windows) {
+        if (!window.days.includes(weekday)) continue;
+
+        const windowStart = toMinutes(window.start);
+        const windowEnd = toMinutes(window.end);
+
+        if (dayOffset === 0) {
+          if (currentTime >= windowStart && currentTime < windowEnd) {
+            return scheduledAt; // Already inside a window
+          }
+          if (currentTime >= windowStart) continue; // Window has passed for today
+        }
+
+        if (earliestStart === null || windowStart < earliestStart) {
+          earliestStart = windowStart;
+        }
+      }
+
+      if (earliestStart !== null) {
+        return createDateInTimezone(
+          date.getUTCFullYear(),
+          date.getUTCMonth() + 1,
+          date.getUTCDate(),
+          Math.floor(earliestStart / 60),
+          earliestStart % 60,
+          timezone
+        );
+      }
+    }
+
+    return scheduledAt;
+  } catch (error) {
+    logger.warn('Failed to apply send windows, using original time', {
+      timezone,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return scheduledAt;
+  }
+}
+
+/**
+ * Returns true when nothing should be sent on a local calendar date (YYYY-MM-DD)
+ */
+export type BlackoutDateCheck = (localDate: string) => boolean;
+
+const MAX_BLACKOUT_DAYS = 366;
+
+/**
+ * Formats the calendar date of a UTC instant in a timezone as YYYY-MM-DD
+ */
+export function toLocalDateString(utcDate: Date, timezone: string): string {
+  const { year, month, day } = getLocalDateParts(utcDate, timezone);
+  return formatDateString(year, month, day);
+}
+
+/**
+ * Moves a time past blacked-out dates to local midnight of the next open day. Gives up and
+ * keeps the original time if a year of consecutive blackout dates is configured.
+ */
+export function skipBlackoutDates(
+  scheduledAt: Date,
+  timezone: string,
+  isBlackoutDate: BlackoutDateCheck
+): Date {
+  try {
+    const { year, month, day } = getLocalDateParts(scheduledAt, timezone);
+    if (!isBlackoutDate(formatDateString(year, month, day))) return scheduledAt;
+
+    for (let dayOffset = 1; dayOffset <= MAX_BLACKOUT_DAYS; dayOffset++) {
+      const date = new Date(Date.UTC(year, month - 1, day + dayOffset));
+      const localDate = formatDateString(
+        date.getUTCFullYear(),
+        date.getUTCMonth() + 1,
+        date.getUTCDate()
+      );
+
+      if (!isBlackoutDate(localDate)) {
+        return createDateInTimezone(
+          date.getUTCFullYear(),
+          date.getUTCMonth() + 1,
+          date.getUTCDate(),
+          0,
+          0,
+          timezone
+        );
+      }
+    }
+
+    logger.warn('No open day found after blackout dates, using original time', { timezone });
+    return scheduledAt;
+  } catch (error) {
+    logger.warn('Failed to apply blackout dates, using original time', {
+      timezone,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return scheduledAt;
+  }
+}
+
+export interface SendConstraints {
+  quietHours?: { start: string; end: string };
+  windows?: SendWindow[];
+  isBlackoutDate?: BlackoutDateCheck;
+}
+
+const MAX_CONSTRAINT_PASSES = 10;
+
+/**
+ * Applies blackout dates, quiet hours and send windows until none of them moves the time.
+ * Each step can push a send onto a day another step rejects (quiet hours ending on a
+ * holiday, a send window opening during a shutdown), so one pass is not enough.
+ */
+export function applySendConstraints(
+  scheduledAt: Date,
+  timezone: string,
+  constraints: SendConstraints
+): Date {
+  let adjusted = scheduledAt;
+
+  for (let pass = 0; pass < MAX_CONSTRAINT_PASSES; pass++) {
+    const before = adjusted.getTime();
+
+    if (constraints.isBlackoutDate) {
+      adjusted = skipBlackoutDates(adjusted, timezone, constraints.isBlackoutDate);
+    }
+    if (constraints.quietHours) {
+      adjusted = applyQuietHours(adjusted, timezone, constraints.quietHours);
+    }
+    if (constraints.windows) {
+      adjusted = nextTimeInSendWindows(adjusted, timezone, constraints.windows);
+    }
+
+    if (adjusted.getTime() === before) break;
+  }
+
+  return adjusted;
+}
+
+function formatDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return (hour ?? 0) * 60 + (minute ?? 0);
+}
+
 /**
  * Validates ISO 8601 duration format
  */
@@ -0,0 +1,114 @@
+import { contactCampaignRepository } from '@/repositories';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { RoleService } from '@/modules/role.service';
+import { CampaignControlService } from '../campaignControl.service';
+
+jest.mock('@/repositories', () => ({
+  campaignTransitionRepository: { listByLeadForTenant: jest.fn() },
+  contactCampaignRepository: {
+    findByIdForTenant: jest.fn(),
+    findByStatusForTenant: jest.fn(),
+    listByLeadWithContactForTenant: jest.fn(),
+  },
+}));
+jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
+  campaignPlanExecutionService: {
+    pauseUntilResumed: jest.fn(),
+    resumePausedCampaign: jest.fn(),
+    resumeScheduledPauseNow: jest.fn(),
+    stopCampaign: jest.fn(),
+  },
+}));
+jest.mock('@/modules/role.service', () => ({
+  RoleService: { userIsAdmin: jest.fn() },
+}));
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockedCampaigns = contactCampaignRepository as jest.Mocked<typeof contactCampaignRepository>;
+const mockedExecution = campaignPlanExecutionService as jest.Mocked<
+  typeof campaignPlanExecutionService
+>;
+
+const campaign = (id: string, status: string, pausedAt: Date | null = null) =>
+  ({ id, status, pausedAt, currentNodeId: 'email_1' }) as any;
+
+describe('CampaignControlService', () => {
+  const service = new CampaignControlService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('pauses every active campaign of a lead', async () => {
+    mockedCampaigns.findByStatusForTenant.mockResolvedValue([
+      campaign('c1', 'active'),
+      campaign('c2', 'active'),
+    ]);
+
+    const result = await service.pause('tenant-1', 'user-1', { scope: 'lead', id: 'lead-1' });
+
+    expect(mockedCampaigns.findByStatusForTenant).toHaveBeenCalledWith('tenant-1', ['active'], {
+      leadId: 'lead-1',
+    });
+    expect(result.updated).toEqual(['c1', 'c2']);
+    expect(mockedExecution.pauseUntilResumed).toHaveBeenCalledWith(
+      expect.objectContaining({ campaignId: 'c1', createdBy: 'user-1' })
+    );
+  });
+
+  it('skips a single campaign that is not in a matching status', async () => {
+    mockedCampaigns.findByIdForTenant.mockResolvedValue(campaign('c1', 'completed'));
+
+    const result = await service.pause('tenant-1', 'user-1', { scope: 'campaign', id: 'c1' });
+
+    expect(result).toEqual({ updated: [], skipped: [{ id: 'c1', reason: 'status_completed' }] });
+    expect(mockedExecution.pauseUntilResumed).not.toHaveBeenCalled();
+  });
+
+  it('resumes manual pauses in place and brings timed pauses forward', async () => {
+    mockedCampaigns.findByStatusForTenant.mockResolvedValue([
+      campaign('manual', 'paused', new Date()),
+      campaign('timed', 'paused'),
+    ]);
+
+    await service.resume('tenant-1', 'user-1', { scope: 'owner' });
+
+    expect(mockedCampaigns.findByStatusForTenant).toHaveBeenCalledWith('tenant-1', ['paused'], {
+      ownerId: 'user-1',
+    });
+    expect(mockedExecution.resumePausedCampaign).toHaveBeenCalledWith(
+      expect.objectContaining({ campaign: expect.objectContaining({ id: 'manual' }) })
+    );
+    expect(mockedExecution.resumeScheduledPauseNow).toHaveBeenCalledWith(
+      'tenant-1',
+      'timed',
+      'requested by user'
+    );
+  });
+
+  it('requires an admin to change the whole tenant', async () => {
+    (RoleService.userIsAdmin as jest.Mock).mockResolvedValue(false);
+
+    await expect(service.stop('tenant-1', 'user-1', { scope: 'tenant' })).rejects.toThrow(
+      'Admin access required'
+    );
+    expect(mockedCampaigns.findByStatusForTenant).not.toHaveBeenCalled();
+  });
+
+  it('records the status a campaign is stopped from', async () => {
+    mockedCampaigns.findByIdForTenant.mockResolvedValue(campaign('c1', 'paused', new Date()));
+
+    await service.stop('tenant-1', 'user-1', { scope: 'campaign', id: 'c1' }, 'Closed the deal');
+
+    expect(mockedExecution.stopCampaign).toHaveBeenCalledWith(
+      expect.objectContaining({
+        campaignId: 'c1',
+        fromStatus: 'paused',
+        reason: 'Stopped: Closed the deal',
+        createdBy: 'user-1',
+      })
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { logger } from '@/libs/logger';
+import { BadRequestError, ForbiddenError, NotFoundError } from '@/exceptions/error';
+import {
+  campaignTransitionRepository,
+  contactCampaignRepository,
+  type CampaignTransitionWithContext,
+  type ContactCampaignWithContact,
+} from '@/repositories';
+import type { ContactCampaign } from '@/db/schema';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { RoleService } from '@/modules/role.service';
+
+export const CAMPAIGN_CONTROL_SCOPES = ['campaign', 'lead', 'owner', 'tenant'] as const;
+export type CampaignControlScope = (typeof CAMPAIGN_CONTROL_SCOPES)[number];
+export type CampaignControlAction = 'pause' | 'resume' | 'stop';
+
+export interface CampaignControlTarget {
+  scope: CampaignControlScope;
+  id?: string; // Campaign, lead or owner id; owner defaults to the caller, tenant takes none
+}
+
+export interface CampaignControlResult {
+  updated: string[]; // Campaign ids
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+// Statuses each action applies to; other campaigns in scope are skipped
+const ACTION_STATUSES: Record<CampaignControlAction, ContactCampaign['status'][]> = {
+  pause: ['active'],
+  resume: ['paused'],
+  stop: ['active', 'paused'],
+};
+
+const DEFAULT_REASON = 'requested by user';
+
+/**
+ * Rep-facing pause, resume and stop for one campaign or every campaign of a lead, an
+ * owner or the whole tenant. Each change is recorded as a campaign transition with the
+ * user who made it.
+ */
+export class CampaignControlService {
+  pause(
+    tenantId: string,
+    userId: string,
+    target: CampaignControlTarget,
+    reason?: string
+  ): Promise<CampaignControlResult> {
+    return this.apply('pause', tenantId, userId, target, reason);
+  }
+
+  resume(
+    tenantId: string,
+    userId: string,
+    target: CampaignControlTarget,
+    reason?: string
+  ): Promise<CampaignControlResult> {
+    return this.apply('resume', tenantId, userId, target, reason);
+  }
+
+  stop(
+    tenantId: string,
+    userId: string,
+    target: CampaignControlTarget,
+    reason?: string
+  ): Promise<CampaignControlResult> {
+    return this.apply('stop', tenantId, userId, target, reason);
+  }
+
+  listForLead(tenantId: string, leadId: string): Promise<ContactCampaignWithContact[]> {
+    return contactCampaignRepository.listByLeadWithContactForTenant(tenantId, leadId);
+  }
+
+  listTransitionsForLead(
+    tenantId: string,
+    leadId: string
+  ): Promise<CampaignTransitionWithContext[]> {
+    return campaignTransitionRepository.listByLeadForTenant(tenantId, leadId);
+  }
+
+  private async apply(
+    action: CampaignControlAction,
+    tenantId: string,
+    userId: string,
+    target: CampaignControlTarget,
+    reason = DEFAULT_REASON
+  ): Promise<CampaignControlResult> {
+    const campaigns = await this.findTargets(action, tenantId, userId, target);
+    const result: CampaignControlResult = { updated: [], skipped: [] };
+
+    for (const campaign of campaigns) {
+      if (!ACTION_STATUSES[action].includes(campaign.status)) {
+        result.skipped.push({ id: campaign.id, reason: `status_${campaign.status}` });
+        continue;
+      }
+
+      try {
+        await this.applyTo(action, tenantId, userId, campaign, reason.trim() || DEFAULT_REASON);
+        result.updated.push(campaign.id);
+      } catch (error) {
+        logger.error('[CampaignControlService] Failed to update campaign', {
+          tenantId,
+          campaignId: campaign.id,
+          action,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        result.skipped.push({ id: campaign.id, reason: 'failed' });
+      }
+    }
+
+    logger.info('[CampaignControlService] Campaigns updated', {
+      tenantId,
+      userId,
+      action,
+      scope: target.scope,
+      targetId: target.id,
+      updated: result.updated.length,
+      skipped: result.skipped.length,
+    });
+    return result;
+  }
+
+  private async applyTo(
+    action: CampaignControlAction,
+    tenantId: string,
+    userId: string,
+    campaign: ContactCampaign,
+    reason: string
+  ): Promise<void> {
+    const currentNodeId = campaign.currentNodeId ?? 'start';
+
+    if (action === 'pause') {
+      await campaignPlanExecutionService.pauseUntilResumed({
+        tenantId,
+        campaignId: campaign.id,
+        currentNodeId,
+        reason,
+        createdBy: userId,
+      });
+    } else if (action === 'resume') {
+      // Without pausedAt the campaign was paused until a set time; bring that resume forward
+      if (campaign.pausedAt) {
+        await campaignPlanExecutionService.resumePausedCampaign({
+          tenantId,
+          campaign,
+          reason,
+          createdBy: userId,
+        });
+      } else {
+        await campaignPlanExecutionService.resumeScheduledPauseNow(tenantId, campaign.id, reason);
+      }
+    } else {
+      await campaignPlanExecutionService.stopCampaign({
+        tenantId,
+        campaignId: campaign.id,
+        currentNodeId,
+        reason: `Stopped: ${reason}`,
+        fromStatus: campaign.status === 'paused' ? 'paused' : 'active',
+        createdBy: userId,
+      });
+    }
+  }
+
+  private async findTargets(
+    action: CampaignControlAction,
+    tenantId: string,
+    userId: string,
+    target: CampaignControlTarget
+  ): Promise<ContactCampaign[]> {
+    const statuses = ACTION_STATUSES[action];
+
+    switch (target.scope) {
+      case 'campaign': {
+        if (!target.id) throw new BadRequestError('Campaign id is required');
+        const campaign = await contactCampaignRepository.findByIdForTenant(target.id, tenantId);
+        if (!campaign) throw new NotFoundError(`Campaign not found: ${target.id}`);
+        return [campaign];
+      }
+      case 'lead':
+        if (!target.id) throw new BadRequestError('Lead id is required');
+        return await contactCampaignRepository.findByStatusForTenant(tenantId, statuses, {
+          leadId: target.id,
+        });
+      case 'owner':
+        return await contactCampaignRepository.findByStatusForTenant(tenantId, statuses, {
+          ownerId: target.id ?? userId,
+        });
+      case 'tenant':
+        if (!(await RoleService.userIsAdmin(userId, tenantId))) {
+          throw new ForbiddenError('Admin access required to change every campaign');
+        }
+        return await contactCampaignRepository.findByStatusForTenant(tenantId, statuses);
+      default:
+        throw new BadRequestError(`Unknown scope: ${String(target.scope)}`);
+    }
+  }
+}
+
+export const campaignControlService = new CampaignControlService();
@@ -0,0 +1,11 @@
+export {
+  CampaignControlService,
+  campaignControlService,
+  CAMPAIGN_CONTROL_SCOPES,
+} from './campaignControl.service';
+export type {
+  CampaignControlAction,
+  CampaignControlResult,
+  CampaignControlScope,
+  CampaignControlTarget,
+} from './campaignControl.service';
@@ -0,0 +1,124 @@
+import { campaignTaskRepository, contactCampaignRepository } from '@/repositories';
+import { ConflictError } from '@/exceptions/error';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { CampaignTaskService } from '../campaignTask.service';
+
+jest.mock('@/repositories', () => ({
+  campaignTaskRepository: {
+    findByIdForTenant: jest.fn(),
+    updateByIdForTenant: jest.fn(),
+    closeIfOpenForTenant: jest.fn(),
+    searchForTenant: jest.fn(),
+  },
+  contactCampaignRepository: { findByIdForTenant: jest.fn() },
+}));
+
+jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
+  campaignPlanExecutionService: { processTransition: jest.fn() },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('CampaignTaskService', () => {
+  const service = new CampaignTaskService();
+  const tenantId = 'tenant-1';
+  const task = {
+    id: 'task-1',
+    campaignId: 'campaign-1',
+    nodeId: 'call_1',
+    status: 'open',
+  };
+  const campaign = {
+    id: 'campaign-1',
+    contactId: 'contact-1',
+    leadId: 'lead-1',
+    status: 'active',
+    currentNodeId: 'call_1',
+    planJson: { nodes: [], startNodeId: 'call_1' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (campaignTaskRepository.findByIdForTenant as jest.Mock).mockResolvedValue(task);
+    (campaignTaskRepository.closeIfOpenForTenant as jest.Mock).mockImplementation(
+      async (_id, _tenantId, data) => ({ ...task, ...data })
+    );
+    (contactCampaignRepository.findByIdForTenant as jest.Mock).mockResolvedValue(campaign);
+    (campaignPlanExecutionService.processTransition as jest.Mock).mockResolvedValue({
+      success: true,
+      toNodeId: 'email_2',
+    });
+  });
+
+  it('turns the outcome into a transition event for the task node', async () => {
+    const result = await service.completeTask(tenantId, 'user-1', 'task-1', {
+      outcome: 'skipped',
+      note: ' No answer ',
+    });
+
+    expect(result.task).toMatchObject({
+      status: 'skipped',
+      outcomeNote: 'No answer',
+      completedBy: 'user-1',
+    });
+    expect(campaignPlanExecutionService.processTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        campaignId: 'campaign-1',
+        currentNodeId: 'call_1',
+        eventType: 'task_skipped',
+        channel: 'manual',
+      })
+    );
+  });
+
+  it('only records the outcome once the campaign has moved past the task', async () => {
+    (contactCampaignRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      ...campaign,
+      currentNodeId: 'email_2',
+    });
+
+    const result = await service.completeTask(tenantId, 'user-1', 'task-1', { outcome: 'done' });
+
+    expect(result.transition).toBeUndefined();
+    expect(campaignPlanExecutionService.processTransition).not.toHaveBeenCalled();
+  });
+
+  it('rejects tasks that already have an outcome', async () => {
+    (campaignTaskRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      ...task,
+      status: 'done',
+    });
+
+    await expect(
+      service.completeTask(tenantId, 'user-1', 'task-1', { outcome: 'done' })
+    ).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('reopens the task when the plan has no transition for the outcome', async () => {
+    (campaignPlanExecutionService.processTransition as jest.Mock).mockResolvedValue({
+      success: false,
+      reason: 'no_matching_transition',
+      availableTransitions: 1,
+    });
+
+    await expect(
+      service.completeTask(tenantId, 'user-1', 'task-1', { outcome: 'failed' })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(campaignTaskRepository.updateByIdForTenant).toHaveBeenCalledWith(
+      'task-1',
+      tenantId,
+      expect.objectContaining({ status: 'open', completedAt: null, completedBy: null })
+    );
+  });
+
+  it('completes a task only once when submitted twice', async () => {
+    (campaignTaskRepository.closeIfOpenForTenant as jest.Mock).mockResolvedValue(undefined);
+
+    await expect(
+      service.completeTask(tenantId, 'user-1', 'task-1', { outcome: 'done' })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(campaignPlanExecutionService.processTransition).not.toHaveBeenCalled();
+  });
+});
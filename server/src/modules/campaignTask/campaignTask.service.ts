@@ -0,0 +1,161 @@
+import { logger } from '@/libs/logger';
+import { ConflictError, NotFoundError } from '@/exceptions/error';
+import { CAMPAIGN_EVENT_TYPES } from '@/constants/campaign-events';
+import {
+  campaignTaskRepository,
+  contactCampaignRepository,
+  type CampaignTaskWithContext,
+} from '@/repositories';
+import type { CampaignTask } from '@/db/schema';
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import type { TransitionResult } from '@/types/campaign-transition.types';
+
+export type CampaignTaskOutcome = 'done' | 'skipped' | 'failed';
+
+export interface CampaignTaskListFilters {
+  scope?: 'mine' | 'all';
+  status?: CampaignTask['status'];
+  dueBefore?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface CompleteCampaignTaskInput {
+  outcome: CampaignTaskOutcome;
+  note?: string;
+}
+
+export interface CompleteCampaignTaskResult {
+  task: CampaignTask;
+  transition?: TransitionResult;
+}
+
+const OUTCOME_EVENTS: Record<CampaignTaskOutcome, string> = {
+  done: CAMPAIGN_EVENT_TYPES.TASK_DONE,
+  skipped: CAMPAIGN_EVENT_TYPES.TASK_SKIPPED,
+  failed: CAMPAIGN_EVENT_TYPES.TASK_FAILED,
+};
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Rep task queue for manual campaign steps. Task nodes create a task for the lead owner;
+ * recording its outcome fires the matching task_done / task_skipped / task_failed
+ * transition when the campaign is still waiting on that node.
+ */
+export class CampaignTaskService {
+  async listTasks(
+    tenantId: string,
+    userId: string,
+    filters: CampaignTaskListFilters = {}
+  ): Promise<{ tasks: CampaignTaskWithContext[]; total: number }> {
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+    const page = Math.max(1, filters.page ?? 1);
+
+    return await campaignTaskRepository.searchForTenant(tenantId, {
+      assigneeId: filters.scope === 'all' ? undefined : userId,
+      status: filters.status ?? 'open',
+      dueBefore: filters.dueBefore ? new Date(filters.dueBefore) : undefined,
+      limit,
+      offset: (page - 1) * limit,
+    });
+  }
+
+  /**
+   * Records a task's outcome and, when the campaign is still waiting on the task, fires
+   * its transition. If the plan has no transition the outcome can take, the task is
+   * reopened and the request rejected, so the campaign isn't left stuck on a closed task.
+   */
+  async completeTask(
+    tenantId: string,
+    userId: string,
+    taskId: string,
+    input: CompleteCampaignTaskInput
+  ): Promise<CompleteCampaignTaskResult> {
+    const task = await campaignTaskRepository.findByIdForTenant(taskId, tenantId);
+    if (!task) {
+      throw new NotFoundError(`Task not found: ${taskId}`);
+    }
+    if (task.status !== 'open') {
+      throw new ConflictError(`Task is already ${task.status}`);
+    }
+
+    // Conditional on the task still being open, so a double submit can't complete it twice
+    const updated = await campaignTaskRepository.closeIfOpenForTenant(taskId, tenantId, {
+      status: input.outcome,
+      outcomeNote: input.note?.trim() || null,
+      completedAt: new Date(),
+      completedBy: userId,
+    });
+    if (!updated) {
+      throw new ConflictError('Task already has an outcome');
+    }
+
+    const campaign = await contactCampaignRepository.findByIdForTenant(task.campaignId, tenantId);
+    if (!campaign || campaign.status !== 'active' || campaign.currentNodeId !== task.nodeId) {
+      logger.info('[CampaignTaskService] Campaign no longer waiting on task, no transition', {
+        tenantId,
+        taskId,
+        campaignId: task.campaignId,
+        campaignStatus: campaign?.status,
+        currentNodeId: campaign?.currentNodeId,
+      });
+      return { task: updated };
+    }
+
+    let transition: TransitionResult;
+    try {
+      transition = await campaignPlanExecutionService.processTransition({
+        tenantId,
+        campaignId: campaign.id,
+        contactId: campaign.contactId,
+        leadId: campaign.leadId,
+        eventType: OUTCOME_EVENTS[input.outcome],
+        currentNodeId: task.nodeId,
+        plan: campaign.planJson as CampaignPlanOutput,
+        channel: 'manual',
+      });
+    } catch (error) {
+      await this.reopenTask(tenantId, taskId);
+      throw error;
+    }
+
+    if (!transition.success) {
+      await this.reopenTask(tenantId, taskId);
+      logger.warn('[CampaignTaskService] Task outcome rejected by the campaign plan', {
+        tenantId,
+        taskId,
+        campaignId: campaign.id,
+        nodeId: task.nodeId,
+        outcome: input.outcome,
+        reason: transition.reason,
+      });
+      throw new ConflictError(
+        `The campaign plan cannot move on from this task as ${input.outcome} (${transition.reason})`
+      );
+    }
+
+    logger.info('[CampaignTaskService] Task completed', {
+      tenantId,
+      taskId,
+      campaignId: task.campaignId,
+      nodeId: task.nodeId,
+      outcome: input.outcome,
+      userId,
+    });
+
+    return { task: updated, transition };
+  }
+
+  private async reopenTask(tenantId: string, taskId: string): Promise<void> {
+    await campaignTaskRepository.updateByIdForTenant(taskId, tenantId, {
+      status: 'open',
+      outcomeNote: null,
+      completedAt: null,
+      completedBy: null,
+      updatedAt: new Date(),
+    });
+  }
+}
+
+export const campaignTaskService = new CampaignTaskService();
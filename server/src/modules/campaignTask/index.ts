@@ -0,0 +1,7 @@
+export { CampaignTaskService, campaignTaskService } from './campaignTask.service';
+export type {
+  CampaignTaskListFilters,
+  CampaignTaskOutcome,
+  CompleteCampaignTaskInput,
+  CompleteCampaignTaskResult,
+} from './campaignTask.service';
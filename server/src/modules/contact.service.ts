@@ -4,7 +4,9 @@ import { formatPhoneForStorage } from '@/libs/phoneFormatter';
 import { leadPointOfContactRepository, leadRepository } from '@/repositories';
 import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
 import { unsubscribeService } from '@/modules/unsubscribe';
+import { contactChannelService } from '@/modules/contactChannel';
 import { emailListVerifyClient } from '@/libs/email/emailListVerify.client';
+import { isValidTimezone } from '@/modules/campaign/scheduleUtils';
 import { CampaignCreationPublisher } from './messages';
 
 /**
@@ -46,7 +48,10 @@ export const updateContact = async (
   leadId: string,
   contactId: string,
   contactData: Partial<
-    Pick<LeadPointOfContact, 'name' | 'email' | 'phone' | 'title' | 'emailVerificationResult'>
+    Pick<
+      LeadPointOfContact,
+      'name' | 'email' | 'phone' | 'title' | 'location' | 'timezone' | 'emailVerificationResult'
+    >
   >
 ): Promise<LeadPointOfContact> => {
   try {
@@ -70,6 +75,10 @@ export const updateContact = async (
       throw new Error('Invalid email format');
     }
 
+    if (contactData.timezone && !isValidTimezone(contactData.timezone)) {
+      throw new Error('Invalid timezone');
+    }
+
     // Format phone number if provided
     const formattedContactData = { ...contactData };
     if (contactData.phone !== undefined) {
@@ -95,6 +104,10 @@ export const updateContact = async (
       throw new Error('Failed to update contact');
     }
 
+    if (contactData.email !== undefined || contactData.phone !== undefined) {
+      await syncContactChannels(tenantId, updatedContact);
+    }
+
     if (wasEmailAdded) {
       // Trigger campaign creation for this contact
       await CampaignCreationPublisher.publish({
@@ -159,6 +172,8 @@ export const createContact = async (
       throw new Error('Failed to create contact');
     }
 
+    await syncContactChannels(tenantId, createdContact);
+
     logger.info(`Created contact ${createdContact.name} for lead ${leadId}`);
     return createdContact;
   } catch (error) {
@@ -336,3 +351,19 @@ export const unsubscribeContact = async (
     throw error;
   }
 };
+
+/**
+ * Keeps the contact's channel list in step with its email and phone. Failures are logged
+ * rather than failing the contact change itself.
+ */
+const syncContactChannels = async (tenantId: string, contact: LeadPointOfContact) => {
+  try {
+    await contactChannelService.syncFromContact(tenantId, contact);
+  } catch (error) {
+    logger.error('Error syncing contact channels:', {
+      tenantId,
+      contactId: contact.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
@@ -0,0 +1,134 @@
+import { contactChannelRepository, leadPointOfContactRepository } from '@/repositories';
+import { emailListVerifyClient } from '@/libs/email/emailListVerify.client';
+import { ContactChannelService } from '../contactChannel.service';
+
+jest.mock('@/repositories', () => ({
+  contactChannelRepository: {
+    findByContactForTenant: jest.fn(),
+    insertMissingForTenant: jest.fn(),
+    setPrimaryForTenant: jest.fn(),
+    updateByIdForTenant: jest.fn(),
+  },
+  leadPointOfContactRepository: {
+    findByIdForTenant: jest.fn(),
+    updateByIdForTenant: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/email/emailListVerify.client', () => ({
+  emailListVerifyClient: {
+    verifyEmailDetailedBatch: jest.fn(),
+    mapResultToEmailVerificationResult: jest.fn((result: string) => result),
+  },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const channel = (overrides: Record<string, unknown>) =>
+  ({
+    id: 'ch-1',
+    tenantId: 'tenant-1',
+    contactId: 'contact-1',
+    type: 'email',
+    value: 'jane@acme.com',
+    isPrimary: false,
+    isVerified: true,
+    verificationStatus: 'valid',
+    ...overrides,
+  }) as any;
+
+describe('ContactChannelService', () => {
+  const service = new ContactChannelService();
+  const tenantId = 'tenant-1';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (contactChannelRepository.setPrimaryForTenant as jest.Mock).mockImplementation(
+      async (_tenantId, c) => ({ ...c, isPrimary: true })
+    );
+  });
+
+  describe('fallbackAfterHardBounce', () => {
+    it('marks the primary as bounced and promotes the next verified address', async () => {
+      const primary = channel({ id: 'ch-1', value: 'jane@acme.com', isPrimary: true });
+      const unverified = channel({
+        id: 'ch-2',
+        value: 'info@acme.com',
+        isVerified: false,
+        verificationStatus: 'unknown',
+      });
+      const verified = channel({ id: 'ch-3', value: 'sales@acme.com' });
+      (contactChannelRepository.findByContactForTenant as jest.Mock).mockResolvedValue([
+        primary,
+        unverified,
+        verified,
+      ]);
+
+      const result = await service.fallbackAfterHardBounce(tenantId, 'contact-1', 'Jane@Acme.com');
+
+      expect(contactChannelRepository.updateByIdForTenant).toHaveBeenCalledWith(
+        'ch-1',
+        tenantId,
+        expect.objectContaining({ verificationStatus: 'bounced', isPrimary: false })
+      );
+      expect(result?.id).toBe('ch-3');
+      expect(leadPointOfContactRepository.updateByIdForTenant).toHaveBeenCalledWith(
+        'contact-1',
+        tenantId,
+        expect.objectContaining({ email: 'sales@acme.com', emailVerificationResult: 'valid' })
+      );
+    });
+
+    it('returns null when no verified address is left', async () => {
+      (contactChannelRepository.findByContactForTenant as jest.Mock).mockResolvedValue([
+        channel({ id: 'ch-1', isPrimary: true }),
+        channel({ id: 'ch-2', value: 'info@acme.com', isVerified: false }),
+      ]);
+
+      const result = await service.fallbackAfterHardBounce(tenantId, 'contact-1', 'jane@acme.com');
+
+      expect(result).toBeNull();
+      expect(contactChannelRepository.setPrimaryForTenant).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncFromContact', () => {
+    it('adds extra addresses as secondary channels and keeps the contact email primary', async () => {
+      const existingPrimary = channel({ id: 'ch-1', value: 'jane@acme.com', isPrimary: true });
+      (contactChannelRepository.findByContactForTenant as jest.Mock).mockResolvedValue([
+        existingPrimary,
+      ]);
+      (contactChannelRepository.insertMissingForTenant as jest.Mock).mockImplementation(
+        async (_tenantId, rows) =>
+          rows.map((row: object, i: number) => ({ id: `new-${i}`, ...row }))
+      );
+      (emailListVerifyClient.verifyEmailDetailedBatch as jest.Mock).mockResolvedValue({
+        'sales@acme.com': 'ok_for_all',
+      });
+
+      await service.syncFromContact(
+        tenantId,
+        {
+          id: 'contact-1',
+          email: 'jane@acme.com',
+          phone: null,
+          emailVerificationResult: 'valid',
+        } as any,
+        { emails: ['Sales@Acme.com', 'jane@acme.com', null] }
+      );
+
+      expect(contactChannelRepository.insertMissingForTenant).toHaveBeenCalledWith(tenantId, [
+        expect.objectContaining({
+          contactId: 'contact-1',
+          type: 'email',
+          value: 'sales@acme.com',
+          verificationStatus: 'ok_for_all',
+          isVerified: true,
+        }),
+      ]);
+      expect(contactChannelRepository.setPrimaryForTenant).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,403 @@
+import { logger } from '@/libs/logger';
+import { BadRequestError, NotFoundError } from '@/exceptions/error';
+import { contactChannelRepository, leadPointOfContactRepository } from '@/repositories';
+import type { ContactChannel, LeadPointOfContact, NewContactChannel } from '@/db/schema';
+import { emailListVerifyClient } from '@/libs/email/emailListVerify.client';
+import { formatPhoneForStorage } from '@/libs/phoneFormatter';
+
+export type ContactChannelType = ContactChannel['type'];
+
+export interface AddContactChannelInput {
+  type: ContactChannelType;
+  value: string;
+  isPrimary?: boolean;
+}
+
+export interface ContactAddresses {
+  emails?: (string | null | undefined)[];
+  phones?: (string | null | undefined)[];
+}
+
+type EmailVerificationResult = LeadPointOfContact['emailVerificationResult'];
+type ChannelVerification = Pick<
+  NewContactChannel,
+  'verificationStatus' | 'isVerified' | 'verifiedAt'
+>;
+
+export const BOUNCED_STATUS = 'bounced';
+const VERIFIED_EMAIL_STATUSES: string[] = ['valid', 'ok_for_all'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Manages the email addresses and phone numbers a contact can be reached on. One channel
+ * per type is primary, and the contact's own `email` / `phone` columns always mirror the
+ * primary so everything that reads a single address keeps working. Emails are verified
+ * with EmailListVerify; `valid` and `ok_for_all` count as verified.
+ */
+export class ContactChannelService {
+  async listForContact(tenantId: string, contactId: string): Promise<ContactChannel[]> {
+    await leadPointOfContactRepository.findByIdForTenant(contactId, tenantId);
+    return await contactChannelRepository.findByContactForTenant(tenantId, contactId);
+  }
+
+  async addChannel(
+    tenantId: string,
+    contactId: string,
+    input: AddContactChannelInput
+  ): Promise<ContactChannel> {
+    await leadPointOfContactRepository.findByIdForTenant(contactId, tenantId);
+
+    const value = normalizeChannelValue(input.type, input.value);
+    if (!value) {
+      throw new BadRequestError(
+        input.type === 'email'
+          ? `Invalid email address: ${input.value}`
+          : `Invalid phone number: ${input.value}`
+      );
+    }
+
+    const channels = await contactChannelRepository.findByContactForTenant(
+      tenantId,
+      contactId,
+      input.type
+    );
+
+    let channel = channels.find((c) => c.value === value);
+    if (!channel) {
+      const verification = input.type === 'email' ? await this.verifyEmail(value) : {};
+      [channel] = await contactChannelRepository.insertMissingForTenant(tenantId, [
+        { contactId, type: input.type, value, ...verification },
+      ]);
+      channel = channel ?? (await this.getChannel(tenantId, contactId, value, input.type));
+    }
+
+    const hasPrimary = channels.some((c) => c.isPrimary);
+    if (input.isPrimary || !hasPrimary) {
+      channel = await this.promote(tenantId, channel);
+    }
+
+    logger.info('[ContactChannelService] Channel added', {
+      tenantId,
+      contactId,
+      channelId: channel.id,
+      type: channel.type,
+      isPrimary: channel.isPrimary,
+      verificationStatus: channel.verificationStatus,
+    });
+
+    return channel;
+  }
+
+  async setPrimary(
+    tenantId: string,
+    contactId: string,
+    channelId: string
+  ): Promise<ContactChannel> {
+    const channel = await this.findChannel(tenantId, contactId, channelId);
+
+    if (channel.verificationStatus === BOUNCED_STATUS) {
+      throw new BadRequestError('A hard-bounced address cannot be made primary');
+    }
+
+    return await this.promote(tenantId, channel);
+  }
+
+  async removeChannel(tenantId: string, contactId: string, channelId: string): Promise<void> {
+    const channel = await this.findChannel(tenantId, contactId, channelId);
+    await contactChannelRepository.deleteByIdForTenant(channel.id, tenantId);
+
+    if (!channel.isPrimary) return;
+
+    const remaining = await contactChannelRepository.findByContactForTenant(
+      tenantId,
+      contactId,
+      channel.type
+    );
+    const next = pickFallback(remaining);
+
+    if (next) {
+      await this.promote(tenantId, next);
+    } else {
+      await leadPointOfContactRepository.updateByIdForTenant(
+        contactId,
+        tenantId,
+        channel.type === 'email'
+          ? { email: null, emailVerificationResult: 'unknown' }
+          : { phone: null }
+      );
+    }
+  }
+
+  async verifyChannel(
+    tenantId: string,
+    contactId: string,
+    channelId: string
+  ): Promise<ContactChannel> {
+    const channel = await this.findChannel(tenantId, contactId, channelId);
+    if (channel.type !== 'email') {
+      throw new BadRequestError('Only email addresses can be verified');
+    }
+
+    const verification = await this.verifyEmail(channel.value);
+    const updated = (await contactChannelRepository.updateByIdForTenant(channel.id, tenantId, {
+      ...verification,
+      updatedAt: new Date(),
+    }))!;
+
+    if (updated.isPrimary) {
+      await this.syncContactMirror(tenantId, updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Records every address known for a contact. The contact's current email / phone stay
+   * primary; other values are added as secondary channels, with new emails verified.
+   */
+  async syncFromContact(
+    tenantId: string,
+    contact: LeadPointOfContact,
+    addresses: ContactAddresses = {}
+  ): Promise<ContactChannel[]> {
+    const existing = await contactChannelRepository.findByContactForTenant(tenantId, contact.id);
+    const known = new Set(existing.map((c) => `${c.type}:${c.value}`));
+
+    const emails = uniqueValues('email', [contact.email, ...(addresses.emails ?? [])]);
+    const phones = uniqueValues('sms', [contact.phone, ...(addresses.phones ?? [])]);
+    const primaryEmail = normalizeChannelValue('email', contact.email);
+    const primaryPhone = normalizeChannelValue('sms', contact.phone);
+
+    const newEmails = emails.filter((email) => !known.has(`email:${email}`));
+    const needsVerification = newEmails.filter(
+      (email) => email !== primaryEmail || !isKnownResult(contact.emailVerificationResult)
+    );
+    const verifications = await this.verifyEmails(needsVerification);
+
+    const toInsert: Omit<NewContactChannel, 'tenantId'>[] = [
+      ...newEmails.map((value) => ({
+        contactId: contact.id,
+        type: 'email' as const,
+        value,
+        ...(verifications[value] ?? toVerification(contact.emailVerificationResult)),
+      })),
+      ...phones
+        .filter((phone) => !known.has(`sms:${phone}`))
+        .map((value) => ({ contactId: contact.id, type: 'sms' as const, value })),
+    ];
+
+    const inserted = await contactChannelRepository.insertMissingForTenant(tenantId, toInsert);
+    const channels = [...existing, ...inserted];
+
+    for (const [type, primaryValue] of [
+      ['email', primaryEmail],
+      ['sms', primaryPhone],
+    ] as const) {
+      const ofType = channels.filter((c) => c.type === type);
+      const current = ofType.find((c) => c.isPrimary);
+      const target = primaryValue ? ofType.find((c) => c.value === primaryValue) : undefined;
+
+      if (target && target.id !== current?.id) {
+        await contactChannelRepository.setPrimaryForTenant(tenantId, target);
+      } else if (!target && !current) {
+        const fallback = pickFallback(ofType);
+        if (fallback) await this.promote(tenantId, fallback);
+      }
+    }
+
+    if (inserted.length > 0) {
+      logger.info('[ContactChannelService] Synced contact channels', {
+        tenantId,
+        contactId: contact.id,
+        added: inserted.length,
+      });
+    }
+
+    return await contactChannelRepository.findByContactForTenant(tenantId, contact.id);
+  }
+
+  /**
+   * Marks a hard-bounced email as undeliverable. When it was the contact's primary email,
+   * the next verified address is promoted and returned; null when there is nothing to
+   * fall back to.
+   */
+  async fallbackAfterHardBounce(
+    tenantId: string,
+    contactId: string,
+    bouncedAddress: string
+  ): Promise<ContactChannel | null> {
+    const value = normalizeChannelValue('email', bouncedAddress);
+    if (!value) return null;
+
+    const channels = await contactChannelRepository.findByContactForTenant(
+      tenantId,
+      contactId,
+      'email'
+    );
+    const bounced = channels.find((c) => c.value === value);
+    if (!bounced) return null;
+
+    await contactChannelRepository.updateByIdForTenant(bounced.id, tenantId, {
+      verificationStatus: BOUNCED_STATUS,
+      isVerified: false,
+      isPrimary: false,
+      verifiedAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    if (!bounced.isPrimary) return null;
+
+    const next = pickFallback(channels.filter((c) => c.id !== bounced.id && c.isVerified));
+    if (!next) {
+      logger.info('[ContactChannelService] No verified fallback address after hard bounce', {
+        tenantId,
+        contactId,
+        bouncedChannelId: bounced.id,
+      });
+      return null;
+    }
+
+    const promoted = await this.promote(tenantId, next);
+
+    logger.info('[ContactChannelService] Fell back to next verified address', {
+      tenantId,
+      contactId,
+      bouncedChannelId: bounced.id,
+      fallbackChannelId: promoted.id,
+    });
+
+    return promoted;
+  }
+
+  private async promote(tenantId: string, channel: ContactChannel): Promise<ContactChannel> {
+    const primary = channel.isPrimary
+      ? channel
+      : await contactChannelRepository.setPrimaryForTenant(tenantId, channel);
+    await this.syncContactMirror(tenantId, primary);
+    return primary;
+  }
+
+  private async syncContactMirror(tenantId: string, channel: ContactChannel): Promise<void> {
+    await leadPointOfContactRepository.updateByIdForTenant(
+      channel.contactId,
+      tenantId,
+      channel.type === 'email'
+        ? {
+            email: channel.value,
+            emailVerificationResult: toEmailVerificationResult(channel.verificationStatus),
+            updatedAt: new Date(),
+          }
+        : { phone: channel.value, updatedAt: new Date() }
+    );
+  }
+
+  private async findChannel(
+    tenantId: string,
+    contactId: string,
+    channelId: string
+  ): Promise<ContactChannel> {
+    const channel = await contactChannelRepository.findByIdForTenant(channelId, tenantId);
+    if (!channel || channel.contactId !== contactId) {
+      throw new NotFoundError(`Contact channel not found: ${channelId}`);
+    }
+    return channel;
+  }
+
+  private async getChannel(
+    tenantId: string,
+    contactId: string,
+    value: string,
+    type: ContactChannelType
+  ): Promise<ContactChannel> {
+    const channels = await contactChannelRepository.findByContactForTenant(
+      tenantId,
+      contactId,
+      type
+    );
+    const channel = channels.find((c) => c.value === value);
+    if (!channel) {
+      throw new NotFoundError(`Contact channel not found: ${value}`);
+    }
+    return channel;
+  }
+
+  private async verifyEmail(email: string): Promise<ChannelVerification> {
+    return (await this.verifyEmails([email]))[email] ?? toVerification('unknown');
+  }
+
+  private async verifyEmails(emails: string[]): Promise<Record<string, ChannelVerification>> {
+    if (emails.length === 0) return {};
+
+    const results = await emailListVerifyClient.verifyEmailDetailedBatch(emails);
+    return Object.fromEntries(
+      emails.map((email) => {
+        const result = results[email];
+        return [
+          email,
+          toVerification(
+            result ? emailListVerifyClient.mapResultToEmailVerificationResult(result) : 'unknown'
+          ),
+        ];
+      })
+    );
+  }
+}
+
+/**
+ * Lowercases emails and formats phones as E.164. Returns null for values that are not a
+ * valid address for the channel.
+ */
+export const normalizeChannelValue = (
+  type: ContactChannelType,
+  value: string | null | undefined
+): string | null => {
+  if (!value || !value.trim()) return null;
+
+  if (type === 'sms') {
+    return formatPhoneForStorage(value);
+  }
+
+  const email = value.trim().toLowerCase();
+  return EMAIL_PATTERN.test(email) ? email : null;
+};
+
+/**
+ * Best candidate to become primary: verified before unverified, never a bounced address.
+ * Relies on the repository ordering (primary, verified, oldest first).
+ */
+const pickFallback = (channels: ContactChannel[]): ContactChannel | undefined =>
+  channels
+    .filter((c) => c.verificationStatus !== BOUNCED_STATUS)
+    .sort((a, b) => Number(b.isVerified) - Number(a.isVerified))[0];
+
+const uniqueValues = (
+  type: ContactChannelType,
+  values: (string | null | undefined)[]
+): string[] => [
+  ...new Set(values.map((v) => normalizeChannelValue(type, v)).filter((v): v is string => !!v)),
+];
+
+const isKnownResult = (result: EmailVerificationResult | null | undefined): boolean =>
+  !!result && result !== 'unknown';
+
+const toVerification = (status: string | null | undefined): ChannelVerification => ({
+  verificationStatus: status ?? 'unknown',
+  isVerified: VERIFIED_EMAIL_STATUSES.includes(status ?? ''),
+  verifiedAt: status && status !== 'unknown' ? new Date() : null,
+});
+
+const toEmailVerificationResult = (status: string | null): EmailVerificationResult => {
+  switch (status) {
+    case 'valid':
+    case 'ok_for_all':
+    case 'inferred':
+    case 'invalid':
+      return status;
+    case BOUNCED_STATUS:
+      return 'invalid';
+    default:
+      return 'unknown';
+  }
+};
+
+export const contactChannelService = new ContactChannelService();
@@ -0,0 +1,11 @@
+export {
+  ContactChannelService,
+  contactChannelService,
+  normalizeChannelValue,
+  BOUNCED_STATUS,
+} from './contactChannel.service';
+export type {
+  AddContactChannelInput,
+  ContactAddresses,
+  ContactChannelType,
+} from './contactChannel.service';
@@ -252,7 +252,13 @@ export class DashboardService {
       .select({ count: count() })
       .from(messageEvents)
       .innerJoin(outboundMessages, eq(messageEvents.messageId, outboundMessages.id))
-      .where(and(eq(messageEvents.tenantId, tenantId), eq(messageEvents.type, 'click')));
+      .where(
+        and(
+          eq(messageEvents.tenantId, tenantId),
+          eq(messageEvents.type, 'click'),
+          eq(messageEvents.isMachine, false)
+        )
+      );
 
     // Calculate click rate
     const totalSent = totalSentResult[0]?.count || 0;
@@ -308,7 +314,9 @@ export class DashboardService {
     const totalClicksResult = await db
       .select({ count: count() })
       .from(calendarLinkClicks)
-      .where(eq(calendarLinkClicks.tenantId, tenantId));
+      .where(
+        and(eq(calendarLinkClicks.tenantId, tenantId), eq(calendarLinkClicks.isMachine, false))
+      );
 
     // Get calendar clicks this week
     const thisWeekClicksResult = await db
@@ -317,6 +325,7 @@ export class DashboardService {
       .where(
         and(
           eq(calendarLinkClicks.tenantId, tenantId),
+          eq(calendarLinkClicks.isMachine, false),
           gte(calendarLinkClicks.clickedAt, oneWeekAgo)
         )
       );
@@ -328,6 +337,7 @@ export class DashboardService {
       .where(
         and(
           eq(calendarLinkClicks.tenantId, tenantId),
+          eq(calendarLinkClicks.isMachine, false),
           gte(calendarLinkClicks.clickedAt, oneMonthAgo)
         )
       );
@@ -408,7 +418,9 @@ export class DashboardService {
       .from(calendarLinkClicks)
       .innerJoin(leads, eq(calendarLinkClicks.leadId, leads.id))
       .innerJoin(leadPointOfContacts, eq(calendarLinkClicks.contactId, leadPointOfContacts.id))
-      .where(eq(calendarLinkClicks.tenantId, tenantId))
+      .where(
+        and(eq(calendarLinkClicks.tenantId, tenantId), eq(calendarLinkClicks.isMachine, false))
+      )
       .orderBy(desc(calendarLinkClicks.clickedAt))
       .limit(2);
 
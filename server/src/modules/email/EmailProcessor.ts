@@ -2,6 +2,7 @@ import { createId } from '@paralleldrive/cuid2';
 import { logger } from '@/libs/logger';
 import { calendarUrlWrapper } from '@/libs/calendar/calendarUrlWrapper';
 import { bookingTokenService } from '@/modules/scheduling/BookingTokenService';
+import { meetingTypeService } from '@/modules/scheduling/MeetingTypeService';
 import {
   formatEmailBodyForHtml,
   formatEmailBodyForText,
@@ -10,6 +11,9 @@ import {
 import { outboundMessageRepository } from '@/repositories';
 import type { EmailSendBase } from '@/libs/email/email.types';
 import { emailOrchestrator } from '@/libs/email/email.orchestrator';
+import { buildMessageIdHeader } from '@/libs/email/messageHeaders';
+import { emailTrackingLinks } from '@/libs/email/emailTracking';
+import { EMAIL_TRACKING_CONFIG } from '@/config/emailTracking.config';
 
 export interface CampaignEmailData {
   // Core email data
@@ -17,6 +21,9 @@ export interface CampaignEmailData {
   campaignId: string;
   contactId: string;
   nodeId: string;
+  stepKey?: string; // Plan step shared across contacts; defaults to the node id
+  variantId?: string | null; // A/B variant the subject and body came from
+  abTestKey?: string | null; // A/B test the variant counts toward
 
   // Email content
   subject: string;
@@ -29,6 +36,7 @@ export interface CampaignEmailData {
     calendarLink: string;
     calendarTieIn: string;
     leadId: string;
+    meetingTypeSlug?: string; // Link to one of the sender's meeting types
   };
 
   // Processing options
@@ -38,6 +46,9 @@ export interface CampaignEmailData {
 
   // Optional dedupe key (will be generated if not provided)
   dedupeKey?: string;
+
+  // Existing message record to send, e.g. one approved in review
+  outboundMessageId?: string;
 }
 
 export interface EmailProcessorResult {
@@ -102,7 +113,8 @@ export class EmailProcessor {
       const dedupeKey = data.dedupeKey || `${tenantId}:${campaignId}:${contactId}:${nodeId}:email`;
 
       // Create outbound message ID (used for tracking even if not recording)
-      const outboundMessageId = createId();
+      const outboundMessageId = data.outboundMessageId ?? createId();
+      const messageIdHeader = buildMessageIdHeader(outboundMessageId);
 
       // Prepare email body and calendar information
       let emailBody = body;
@@ -114,11 +126,31 @@ export class EmailProcessor {
 
           if (!skipMessageRecord) {
             try {
+              const meetingType = calendarInfo.meetingTypeSlug
+                ? await meetingTypeService.findActiveBySlug(
+                    tenantId,
+                    userId,
+                    calendarInfo.meetingTypeSlug
+                  )
+                : undefined;
+              if (calendarInfo.meetingTypeSlug && !meetingType) {
+                logger.warn(
+                  '[EmailProcessor] Meeting type not found, linking default booking page',
+                  {
+                    tenantId,
+                    campaignId,
+                    nodeId,
+                    meetingTypeSlug: calendarInfo.meetingTypeSlug,
+                  }
+                );
+              }
+
               const { rawToken } = await bookingTokenService.issue({
                 tenantId,
                 leadId: calendarInfo.leadId,
                 contactId,
                 userId,
+                meetingTypeId: meetingType?.id,
                 campaignId,
                 nodeId,
                 outboundMessageId,
@@ -187,13 +219,31 @@ export class EmailProcessor {
       }
 
       // Create outbound message record if not skipping
-      if (!skipMessageRecord) {
+      if (!skipMessageRecord && data.outboundMessageId) {
+        await outboundMessageRepository.updateByIdForTenant(outboundMessageId, tenantId, {
+          messageIdHeader,
+          content: {
+            subject,
+            body,
+            to: recipientEmail,
+            toName: recipientName,
+          },
+          state: 'queued',
+          scheduledAt: new Date(),
+          updatedAt: new Date(),
+        });
+      } else if (!skipMessageRecord) {
         await outboundMessageRepository.createForTenant(tenantId, {
           id: outboundMessageId,
           campaignId,
           contactId,
           channel: 'email',
+          nodeId,
+          stepKey: data.stepKey ?? nodeId,
+          variantId: data.variantId ?? null,
+          abTestKey: data.abTestKey ?? null,
           dedupeKey,
+          messageIdHeader,
           content: {
             subject,
             body,
@@ -208,9 +258,14 @@ export class EmailProcessor {
       }
 
       // Prepare SendGrid payload with both HTML and plain text versions
-      const htmlBody = formatEmailBodyForHtml(emailBody);
+      let htmlBody = formatEmailBodyForHtml(emailBody);
       const textBody = formatEmailBodyForText(emailBody);
 
+      // Connected mailboxes report no opens or clicks, so track them with our own links
+      if (!skipMessageRecord && EMAIL_TRACKING_CONFIG.ENABLED) {
+        htmlBody = emailTrackingLinks.instrumentHtml(htmlBody, { tenantId, outboundMessageId });
+      }
+
       const sendPayload: Partial<EmailSendBase> = {
         tenantId,
         campaignId,
@@ -221,6 +276,7 @@ export class EmailProcessor {
         subject,
         html: htmlBody,
         text: textBody,
+        headers: { 'Message-ID': messageIdHeader },
         categories: [...categories, `tenant:${tenantId}`],
       };
 
@@ -243,6 +299,7 @@ export class EmailProcessor {
         await outboundMessageRepository.updateByIdForTenant(outboundMessageId, tenantId, {
           state: 'sent',
           providerMessageId: providerIds.providerMessageId,
+          providerThreadId: providerIds.providerThreadId,
           sentAt: new Date(),
           updatedAt: new Date(),
         });
@@ -0,0 +1,203 @@
+import {
+  contactCampaignRepository,
+  inboundMessageRepository,
+  leadPointOfContactRepository,
+  messageEventRepository,
+} from '@/repositories';
+import { replyClassificationAgent } from '@/modules/ai/langchain';
+import { unsubscribeService } from '@/modules/unsubscribe';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { REPLY_INGESTION_CONFIG } from '@/config/replyIngestion.config';
+import {
+  ReplyClassificationService,
+  resolveOutOfOfficeResumeAt,
+} from '../replyClassification.service';
+
+jest.mock('@/repositories', () => ({
+  contactCampaignRepository: { findByIdForTenant: jest.fn() },
+  inboundMessageRepository: { findByIdForTenant: jest.fn(), updateByIdForTenant: jest.fn() },
+  leadPointOfContactRepository: {
+    findByLeadId: jest.fn(),
+    findByIdForTenant: jest.fn(),
+    createForLeadAndTenant: jest.fn(),
+  },
+  messageEventRepository: { createForTenant: jest.fn() },
+}));
+
+jest.mock('@/modules/ai/langchain', () => ({
+  replyClassificationAgent: { execute: jest.fn() },
+}));
+
+jest.mock('@/modules/unsubscribe', () => ({
+  unsubscribeService: { unsubscribeByChannel: jest.fn() },
+}));
+
+jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
+  campaignPlanExecutionService: { pauseCampaign: jest.fn(), processReply: jest.fn() },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('resolveOutOfOfficeResumeAt', () => {
+  const now = new Date('2026-03-02T12:00:00.000Z');
+
+  it('uses the extracted return date', () => {
+    expect(resolveOutOfOfficeResumeAt('2026-03-09', now)).toEqual(new Date('2026-03-09'));
+  });
+
+  it('falls back to the default pause for missing, invalid or past dates', () => {
+    const expected = new Date(
+      now.getTime() + REPLY_INGESTION_CONFIG.OUT_OF_OFFICE_DEFAULT_PAUSE_MS
+    );
+    expect(resolveOutOfOfficeResumeAt(null, now)).toEqual(expected);
+    expect(resolveOutOfOfficeResumeAt('next week', now)).toEqual(expected);
+    expect(resolveOutOfOfficeResumeAt('2026-02-01', now)).toEqual(expected);
+  });
+
+  it('caps the pause at the configured maximum', () => {
+    expect(resolveOutOfOfficeResumeAt('2027-03-02', now)).toEqual(
+      new Date(now.getTime() + REPLY_INGESTION_CONFIG.OUT_OF_OFFICE_MAX_PAUSE_MS)
+    );
+  });
+});
+
+describe('ReplyClassificationService', () => {
+  const service = new ReplyClassificationService();
+  const tenantId = 'tenant-1';
+
+  const inboundMessage = {
+    id: 'inbound-1',
+    tenantId,
+    campaignId: 'campaign-1',
+    contactId: 'contact-1',
+    outboundMessageId: 'outbound-1',
+    fromAddress: 'jane@acme.com',
+    subject: 'Re: Hello',
+    bodyText: 'Reply body',
+    bodyHtml: null,
+    receivedAt: new Date(),
+    classifiedAt: null,
+  };
+
+  const campaign = {
+    id: 'campaign-1',
+    leadId: 'lead-1',
+    contactId: 'contact-1',
+    status: 'active',
+    currentNodeId: 'email_1',
+    planJson: { nodes: [] },
+  };
+
+  const classifyAs = (output: Record<string, unknown>) =>
+    (replyClassificationAgent.execute as jest.Mock).mockResolvedValue({
+      confidence: 0.9,
+      summary: 'summary',
+      returnDate: null,
+      referral: null,
+      ...output,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (inboundMessageRepository.findByIdForTenant as jest.Mock).mockResolvedValue(inboundMessage);
+    (contactCampaignRepository.findByIdForTenant as jest.Mock).mockResolvedValue(campaign);
+    (campaignPlanExecutionService.processReply as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  it('pauses the campaign on out-of-office without counting it as a reply', async () => {
+    classifyAs({ intent: 'out_of_office', returnDate: '2099-01-01' });
+
+    const result = await service.classifyInboundMessage(tenantId, inboundMessage.id);
+
+    expect(result.actions).toEqual(['campaign_paused']);
+    expect(campaignPlanExecutionService.pauseCampaign).toHaveBeenCalledWith(
+      expect.objectContaining({ campaignId: 'campaign-1', currentNodeId: 'email_1' })
+    );
+    expect(campaignPlanExecutionService.processReply).not.toHaveBeenCalled();
+    expect(messageEventRepository.createForTenant).not.toHaveBeenCalled();
+    expect(inboundMessageRepository.updateByIdForTenant).toHaveBeenCalledWith(
+      inboundMessage.id,
+      tenantId,
+      expect.objectContaining({ classification: 'out_of_office' })
+    );
+  });
+
+  it('creates a contact for a wrong-person referral and processes the reply', async () => {
+    classifyAs({
+      intent: 'wrong_person',
+      referral: { name: 'Sam Lee', email: 'Sam@Acme.com', title: 'VP Sales' },
+    });
+    (leadPointOfContactRepository.findByLeadId as jest.Mock).mockResolvedValue([
+      { id: 'contact-1', name: 'Jane', email: 'jane@acme.com' },
+    ]);
+    (leadPointOfContactRepository.createForLeadAndTenant as jest.Mock).mockResolvedValue({
+      id: 'contact-2',
+    });
+
+    const result = await service.classifyInboundMessage(tenantId, inboundMessage.id);
+
+    expect(result.actions).toEqual(['referral_created', 'reply_processed']);
+    expect(leadPointOfContactRepository.createForLeadAndTenant).toHaveBeenCalledWith(
+      'lead-1',
+      tenantId,
+      { name: 'Sam Lee', email: 'sam@acme.com', title: 'VP Sales' }
+    );
+    expect(campaignPlanExecutionService.processReply).toHaveBeenCalled();
+  });
+
+  it('unsubscribes both the sender and the contact address on opt-out', async () => {
+    classifyAs({ intent: 'unsubscribe' });
+    (leadPointOfContactRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      id: 'contact-1',
+      email: 'jane.doe@acme.com',
+    });
+
+    await service.classifyInboundMessage(tenantId, inboundMessage.id);
+
+    expect(unsubscribeService.unsubscribeByChannel).toHaveBeenCalledWith(
+      tenantId,
+      'email',
+      'jane@acme.com',
+      'reply',
+      { campaignId: 'campaign-1', contactId: 'contact-1' }
+    );
+    expect(unsubscribeService.unsubscribeByChannel).toHaveBeenCalledWith(
+      tenantId,
+      'email',
+      'jane.doe@acme.com',
+      'reply',
+      { campaignId: 'campaign-1', contactId: 'contact-1' }
+    );
+    expect(campaignPlanExecutionService.processReply).toHaveBeenCalled();
+  });
+
+  it('treats the reply as a plain reply when classification fails', async () => {
+    (replyClassificationAgent.execute as jest.Mock).mockRejectedValue(new Error('LLM down'));
+
+    const result = await service.classifyInboundMessage(tenantId, inboundMessage.id);
+
+    expect(result).toMatchObject({ intent: null, actions: ['reply_processed'] });
+    expect(messageEventRepository.createForTenant).toHaveBeenCalledWith(
+      tenantId,
+      expect.objectContaining({ messageId: 'outbound-1', type: 'reply' })
+    );
+    expect(campaignPlanExecutionService.processReply).toHaveBeenCalled();
+  });
+
+  it('skips replies that were already classified', async () => {
+    (inboundMessageRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      ...inboundMessage,
+      classification: 'interested',
+      classifiedAt: new Date(Date.now() - DAY_MS),
+    });
+
+    const result = await service.classifyInboundMessage(tenantId, inboundMessage.id);
+
+    expect(result).toMatchObject({ skipped: true, intent: 'interested' });
+    expect(replyClassificationAgent.execute).not.toHaveBeenCalled();
+  });
+});
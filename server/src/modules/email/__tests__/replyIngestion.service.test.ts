@@ -0,0 +1,216 @@
+import {
+  inboundMessageRepository,
+  mailAccountRepository,
+  outboundMessageRepository,
+} from '@/repositories';
+import { emailOrchestrator } from '@/libs/email/email.orchestrator';
+import type { InboundEmail } from '@/libs/email/email.types';
+import { REPLY_INGESTION_CONFIG } from '@/config/replyIngestion.config';
+import { ReplyIngestionPublisher } from '@/modules/messages/replyIngestion.publisher.service';
+import { ReplyIngestionService } from '../replyIngestion.service';
+
+jest.mock('@/repositories', () => ({
+  inboundMessageRepository: {
+    findByProviderMessageIdForTenant: jest.fn(),
+    createForTenant: jest.fn(),
+  },
+  mailAccountRepository: {
+    findById: jest.fn(),
+    findConnectedForInboxSync: jest.fn(),
+    updateInboxSyncCursor: jest.fn(),
+  },
+  outboundMessageRepository: {
+    findByMessageIdHeadersForTenant: jest.fn(),
+    findLatestByProviderThreadIdForTenant: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/email/email.orchestrator', () => ({
+  emailOrchestrator: { getInboxReader: jest.fn() },
+}));
+
+jest.mock('@/modules/messages/replyIngestion.publisher.service', () => ({
+  ReplyIngestionPublisher: { publishAccountPoll: jest.fn(), publishClassification: jest.fn() },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('ReplyIngestionService', () => {
+  const service = new ReplyIngestionService();
+  const tenantId = 'tenant-1';
+  const lastInboxSyncAt = new Date('2026-03-02T12:00:00.000Z');
+  const mailAccount = {
+    id: 'mail-account-1',
+    tenantId,
+    provider: 'google',
+    primaryEmail: 'Rep@Dripiq.ai',
+    reauthRequired: false,
+    disconnectedAt: null,
+    lastInboxSyncAt,
+  };
+  const outboundMessage = {
+    id: 'outbound-1',
+    campaignId: 'campaign-1',
+    contactId: 'contact-1',
+    messageIdHeader: '<outbound-1@dripiq.ai>',
+  };
+  const listInboundEmails = jest.fn();
+
+  const reply = (overrides: Partial<InboundEmail> = {}): InboundEmail => ({
+    providerMessageId: 'provider-1',
+    providerThreadId: 'thread-1',
+    from: 'jane@acme.com',
+    subject: 'Re: Quick question',
+    text: 'Sounds good',
+    receivedAt: new Date('2026-03-02T12:30:00.000Z'),
+    headers: {},
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mailAccountRepository.findById as jest.Mock).mockResolvedValue(mailAccount);
+    (emailOrchestrator.getInboxReader as jest.Mock).mockResolvedValue({ listInboundEmails });
+    (inboundMessageRepository.findByProviderMessageIdForTenant as jest.Mock).mockResolvedValue(
+      undefined
+    );
+    (inboundMessageRepository.createForTenant as jest.Mock).mockImplementation(
+      async (_tenantId, data) => ({ id: 'inbound-1', ...data })
+    );
+    (outboundMessageRepository.findByMessageIdHeadersForTenant as jest.Mock).mockResolvedValue([]);
+    (
+      outboundMessageRepository.findLatestByProviderThreadIdForTenant as jest.Mock
+    ).mockResolvedValue(undefined);
+  });
+
+  it('matches a reply through In-Reply-To and hands it to classification', async () => {
+    listInboundEmails.mockResolvedValue([
+      reply({ inReplyTo: '<outbound-1@dripiq.ai>', references: '<older@dripiq.ai>' }),
+    ]);
+    (outboundMessageRepository.findByMessageIdHeadersForTenant as jest.Mock).mockResolvedValue([
+      outboundMessage,
+    ]);
+
+    const result = await service.ingestMailAccount(mailAccount.id);
+
+    expect(result).toMatchObject({ fetched: 1, stored: 1, duplicates: 0, unmatched: 0 });
+    expect(outboundMessageRepository.findByMessageIdHeadersForTenant).toHaveBeenCalledWith(
+      tenantId,
+      ['<outbound-1@dripiq.ai>', '<older@dripiq.ai>']
+    );
+    expect(inboundMessageRepository.createForTenant).toHaveBeenCalledWith(
+      tenantId,
+      expect.objectContaining({
+        campaignId: 'campaign-1',
+        contactId: 'contact-1',
+        outboundMessageId: 'outbound-1',
+        mailAccountId: mailAccount.id,
+        channel: 'email',
+        providerMessageId: 'provider-1',
+      })
+    );
+    // Classification fires the campaign's reply transition once the intent is known
+    expect(ReplyIngestionPublisher.publishClassification).toHaveBeenCalledWith({
+      inboundMessageId: 'inbound-1',
+      tenantId,
+    });
+  });
+
+  it('prefers the closest ancestor when several sent messages are referenced', async () => {
+    listInboundEmails.mockResolvedValue([
+      reply({
+        inReplyTo: '<outbound-2@dripiq.ai>',
+        references: '<outbound-1@dripiq.ai> <outbound-2@dripiq.ai>',
+      }),
+    ]);
+    (outboundMessageRepository.findByMessageIdHeadersForTenant as jest.Mock).mockResolvedValue([
+      outboundMessage,
+      { ...outboundMessage, id: 'outbound-2', messageIdHeader: '<outbound-2@dripiq.ai>' },
+    ]);
+
+    await service.ingestMailAccount(mailAccount.id);
+
+    expect(inboundMessageRepository.createForTenant).toHaveBeenCalledWith(
+      tenantId,
+      expect.objectContaining({ outboundMessageId: 'outbound-2' })
+    );
+  });
+
+  it('falls back to the provider thread when no headers match', async () => {
+    listInboundEmails.mockResolvedValue([reply({ inReplyTo: '<elsewhere@acme.com>' })]);
+    (
+      outboundMessageRepository.findLatestByProviderThreadIdForTenant as jest.Mock
+    ).mockResolvedValue(outboundMessage);
+
+    const result = await service.ingestMailAccount(mailAccount.id);
+
+    expect(result.stored).toBe(1);
+    expect(outboundMessageRepository.findLatestByProviderThreadIdForTenant).toHaveBeenCalledWith(
+      tenantId,
+      'thread-1'
+    );
+  });
+
+  it('ignores inbox mail that is not a reply to a campaign email', async () => {
+    listInboundEmails.mockResolvedValue([
+      reply({ providerThreadId: undefined }),
+      reply({ providerMessageId: 'provider-2', from: 'rep@dripiq.ai' }),
+    ]);
+
+    const result = await service.ingestMailAccount(mailAccount.id);
+
+    expect(result).toMatchObject({ fetched: 2, stored: 0, unmatched: 2 });
+    expect(inboundMessageRepository.createForTenant).not.toHaveBeenCalled();
+    expect(ReplyIngestionPublisher.publishClassification).not.toHaveBeenCalled();
+  });
+
+  it('skips replies that were already stored', async () => {
+    listInboundEmails.mockResolvedValue([reply({ inReplyTo: '<outbound-1@dripiq.ai>' })]);
+    (inboundMessageRepository.findByProviderMessageIdForTenant as jest.Mock).mockResolvedValue({
+      id: 'inbound-1',
+    });
+
+    const result = await service.ingestMailAccount(mailAccount.id);
+
+    expect(result).toMatchObject({ stored: 0, duplicates: 1 });
+    expect(outboundMessageRepository.findByMessageIdHeadersForTenant).not.toHaveBeenCalled();
+    expect(ReplyIngestionPublisher.publishClassification).not.toHaveBeenCalled();
+  });
+
+  it('only advances the cursor to the last message seen when the page was full', async () => {
+    const emails = Array.from({ length: REPLY_INGESTION_CONFIG.MAX_MESSAGES_PER_POLL }, (_, i) =>
+      reply({
+        providerMessageId: `provider-${i}`,
+        providerThreadId: undefined,
+        receivedAt: new Date(lastInboxSyncAt.getTime() + (i + 1) * 60 * 1000),
+      })
+    );
+    listInboundEmails.mockResolvedValue(emails);
+
+    await service.ingestMailAccount(mailAccount.id);
+
+    expect(listInboundEmails).toHaveBeenCalledWith(
+      lastInboxSyncAt,
+      REPLY_INGESTION_CONFIG.MAX_MESSAGES_PER_POLL
+    );
+    expect(mailAccountRepository.updateInboxSyncCursor).toHaveBeenCalledWith(
+      mailAccount.id,
+      emails[emails.length - 1]?.receivedAt
+    );
+  });
+
+  it('skips mailboxes that need to be reconnected', async () => {
+    (mailAccountRepository.findById as jest.Mock).mockResolvedValue({
+      ...mailAccount,
+      reauthRequired: true,
+    });
+
+    const result = await service.ingestMailAccount(mailAccount.id);
+
+    expect(result).toMatchObject({ skipped: true, skipReason: 'mail_account_not_connected' });
+    expect(emailOrchestrator.getInboxReader).not.toHaveBeenCalled();
+    expect(mailAccountRepository.updateInboxSyncCursor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,370 @@
+import { logger } from '@/libs/logger';
+import { formatPhoneForStorage } from '@/libs/phoneFormatter';
+import { NotFoundError } from '@/exceptions/error';
+import { REPLY_INGESTION_CONFIG } from '@/config/replyIngestion.config';
+import { INBOUND_EVENT_TYPES } from '@/constants/campaign-events';
+import {
+  contactCampaignRepository,
+  inboundMessageRepository,
+  leadPointOfContactRepository,
+  messageEventRepository,
+} from '@/repositories';
+import type { ContactCampaign, InboundMessage, LeadPointOfContact } from '@/db/schema';
+import { replyClassificationAgent } from '@/modules/ai/langchain';
+import { unsubscribeService } from '@/modules/unsubscribe';
+import { pipelineService } from '@/modules/pipeline';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import type {
+  ReplyClassificationOutput,
+  ReplyIntent,
+  ReplyReferral,
+} from '@/modules/ai/schemas/replyClassification/replyClassificationSchema';
+
+export type ReplyAction =
+  | 'campaign_paused'
+  | 'reply_processed'
+  | 'referral_created'
+  | 'unsubscribed'
+  | 'none';
+
+export interface ReplyClassificationResult {
+  inboundMessageId: string;
+  intent: ReplyIntent | null;
+  actions: ReplyAction[];
+  skipped?: boolean;
+  skipReason?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Works out when an out-of-office campaign should pick back up. Uses the extracted
+ * return date when it is usable, otherwise the configured default pause, and never
+ * pauses longer than the configured maximum.
+ */
+export const resolveOutOfOfficeResumeAt = (
+  returnDate: string | null | undefined,
+  now: Date = new Date()
+): Date => {
+  const defaultResumeAt = new Date(
+    now.getTime() + REPLY_INGESTION_CONFIG.OUT_OF_OFFICE_DEFAULT_PAUSE_MS
+  );
+  const latestResumeAt = new Date(
+    now.getTime() + REPLY_INGESTION_CONFIG.OUT_OF_OFFICE_MAX_PAUSE_MS
+  );
+
+  if (!returnDate) return defaultResumeAt;
+
+  const parsed = new Date(returnDate);
+  if (isNaN(parsed.getTime()) || parsed.getTime() <= now.getTime()) {
+    return defaultResumeAt;
+  }
+
+  return parsed.getTime() > latestResumeAt.getTime() ? latestResumeAt : parsed;
+};
+
+/**
+ * Classifies stored campaign replies and applies the matching action:
+ * - out_of_office pauses the campaign until the prospect is back
+ * - wrong_person adds the referred colleague as a new lead contact
+ * - unsubscribe records a contact_unsubscribes row for the sender
+ * Every intent except out_of_office counts as a real reply, which records a `reply`
+ * message event and drives the campaign's `replied` transition.
+ */
+export class ReplyClassificationService {
+  async classifyInboundMessage(
+    tenantId: string,
+    inboundMessageId: string
+  ): Promise<ReplyClassificationResult> {
+    const inboundMessage = await inboundMessageRepository.findByIdForTenant(
+      inboundMessageId,
+      tenantId
+    );
+    if (!inboundMessage) {
+      throw new NotFoundError(`Inbound message not found: ${inboundMessageId}`);
+    }
+
+    if (inboundMessage.classifiedAt) {
+      return {
+        inboundMessageId,
+        intent: (inboundMessage.classification as ReplyIntent | null) ?? null,
+        actions: [],
+        skipped: true,
+        skipReason: 'already_classified',
+      };
+    }
+
+    const campaign = inboundMessage.campaignId
+      ? await contactCampaignRepository.findByIdForTenant(inboundMessage.campaignId, tenantId)
+      : undefined;
+
+    const classification = await this.classify(inboundMessage, campaign);
+    const intent = classification?.intent ?? null;
+    const actions: ReplyAction[] = [];
+
+    if (intent === 'out_of_office') {
+      if (await this.pauseForOutOfOffice(inboundMessage, campaign, classification)) {
+        actions.push('campaign_paused');
+      }
+    } else {
+      if (intent === 'wrong_person' && classification?.referral) {
+        if (await this.createReferralContact(inboundMessage, campaign, classification.referral)) {
+          actions.push('referral_created');
+        }
+      }
+
+      if (intent === 'unsubscribe') {
+        await this.unsubscribeSender(inboundMessage);
+        actions.push('unsubscribed');
+      }
+
+      await this.recordReply(inboundMessage, campaign);
+      actions.push('reply_processed');
+    }
+
+    await inboundMessageRepository.updateByIdForTenant(inboundMessage.id, tenantId, {
+      classification: intent,
+      classificationData: classification,
+      classifiedAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    logger.info('[ReplyClassificationService] Reply classified', {
+      tenantId,
+      inboundMessageId,
+      campaignId: inboundMessage.campaignId,
+      intent,
+      confidence: classification?.confidence,
+      actions,
+    });
+
+    return { inboundMessageId, intent, actions: actions.length ? actions : ['none'] };
+  }
+
+  private async classify(
+    inboundMessage: InboundMessage,
+    campaign: ContactCampaign | undefined
+  ): Promise<ReplyClassificationOutput | null> {
+    if (!REPLY_INGESTION_CONFIG.CLASSIFICATION_ENABLED) {
+      return null;
+    }
+
+    const body = inboundMessage.bodyText?.trim() || stripHtml(inboundMessage.bodyHtml);
+    if (!body) {
+      return null;
+    }
+
+    try {
+      return await replyClassificationAgent.execute(
+        inboundMessage.tenantId,
+        {
+          fromAddress: inboundMessage.fromAddress,
+          subject: inboundMessage.subject,
+          body,
+          receivedAt: inboundMessage.receivedAt,
+        },
+        {
+          inboundMessageId: inboundMessage.id,
+          campaignId: inboundMessage.campaignId,
+          contactId: inboundMessage.contactId,
+          leadId: campaign?.leadId,
+        }
+      );
+    } catch (error) {
+      // An unclassified reply is still a reply; fall back to the default handling
+      logger.warn('[ReplyClassificationService] Classification failed, treating as plain reply', {
+        tenantId: inboundMessage.tenantId,
+        inboundMessageId: inboundMessage.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  private async pauseForOutOfOffice(
+    inboundMessage: InboundMessage,
+    campaign: ContactCampaign | undefined,
+    classification: ReplyClassificationOutput | null
+  ): Promise<boolean> {
+    if (!campaign || campaign.status !== 'active' || !campaign.currentNodeId) {
+      return false;
+    }
+
+    const resumeAt = resolveOutOfOfficeResumeAt(classification?.returnDate);
+
+    await campaignPlanExecutionService.pauseCampaign({
+      tenantId: inboundMessage.tenantId,
+      campaignId: campaign.id,
+      currentNodeId: campaign.currentNodeId,
+      reason: 'out_of_office',
+      resumeAt,
+    });
+
+    return true;
+  }
+
+  private async createReferralContact(
+    inboundMessage: InboundMessage,
+    campaign: ContactCampaign | undefined,
+    referral: ReplyReferral
+  ): Promise<LeadPointOfContact | undefined> {
+    const { tenantId } = inboundMessage;
+    const email = referral.email?.trim().toLowerCase() || null;
+
+    if (!campaign || (!email && !referral.name?.trim())) {
+      return undefined;
+    }
+
+    if (email && !EMAIL_PATTERN.test(email)) {
+      logger.warn('[ReplyClassificationService] Ignoring referral with invalid email', {
+        tenantId,
+        inboundMessageId: inboundMessage.id,
+        email,
+      });
+      return undefined;
+    }
+
+    const existingContacts = await leadPointOfContactRepository.findByLeadId(campaign.leadId);
+    const duplicate = existingContacts.find((contact) =>
+      email
+        ? contact.email?.toLowerCase() === email
+        : contact.name.toLowerCase() === referral.name?.trim().toLowerCase()
+    );
+    if (duplicate) {
+      logger.info('[ReplyClassificationService] Referral already a contact on lead', {
+        tenantId,
+        leadId: campaign.leadId,
+        contactId: duplicate.id,
+      });
+      return undefined;
+    }
+
+    const contact = await leadPointOfContactRepository.createForLeadAndTenant(
+      campaign.leadId,
+      tenantId,
+      {
+        name: referral.name?.trim() || email!,
+        email,
+        title: referral.title?.trim() || null,
+      }
+    );
+
+    logger.info('[ReplyClassificationService] Created referral contact', {
+      tenantId,
+      leadId: campaign.leadId,
+      contactId: contact.id,
+      referredBy: inboundMessage.contactId,
+      inboundMessageId: inboundMessage.id,
+    });
+
+    return contact;
+  }
+
+  private async unsubscribeSender(inboundMessage: InboundMessage): Promise<void> {
+    const { tenantId, campaignId, contactId } = inboundMessage;
+    const channel = inboundMessage.channel === 'sms' ? 'sms' : 'email';
+    const addresses = new Set<string>();
+
+    if (inboundMessage.fromAddress) {
+      addresses.add(
+        channel === 'sms' ? inboundMessage.fromAddress : inboundMessage.fromAddress.toLowerCase()
+      );
+    }
+
+    // The reply may come from an alias; opt out the address we actually send to as well
+    if (contactId) {
+      try {
+        const contact = await leadPointOfContactRepository.findByIdForTenant(contactId, tenantId);
+        if (channel === 'sms') {
+          const phone = formatPhoneForStorage(contact.phone);
+          if (phone) addresses.add(phone);
+        } else if (contact.email) {
+          addresses.add(contact.email.toLowerCase());
+        }
+      } catch (error) {
+        logger.warn('[ReplyClassificationService] Contact not found for unsubscribe', {
+          tenantId,
+          contactId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    for (const address of addresses) {
+      await unsubscribeService.unsubscribeByChannel(tenantId, channel, address, 'reply', {
+        campaignId: campaignId ?? undefined,
+        contactId: contactId ?? undefined,
+      });
+    }
+  }
+
+  private async recordReply(
+    inboundMessage: InboundMessage,
+    campaign: ContactCampaign | undefined
+  ): Promise<void> {
+    const { tenantId } = inboundMessage;
+
+    // Lets no_reply timeouts see that a real reply happened
+    if (inboundMessage.outboundMessageId) {
+      await messageEventRepository.createForTenant(tenantId, {
+        messageId: inboundMessage.outboundMessageId,
+        type: INBOUND_EVENT_TYPES.REPLY,
+        eventAt: inboundMessage.receivedAt,
+        data: { inboundMessageId: inboundMessage.id },
+      });
+    }
+
+    if (campaign) {
+      await pipelineService.advanceOnEvent(tenantId, campaign.leadId, 'reply_received');
+    }
+
+    if (!campaign || campaign.status !== 'active' || !campaign.currentNodeId) {
+      logger.debug('[ReplyClassificationService] Campaign not active, skipping reply transition', {
+        tenantId,
+        campaignId: inboundMessage.campaignId,
+        status: campaign?.status,
+      });
+      return;
+    }
+
+    try {
+      const result = await campaignPlanExecutionService.processReply({
+        tenantId,
+        campaignId: campaign.id,
+        contactId: campaign.contactId,
+        leadId: campaign.leadId,
+        currentNodeId: campaign.currentNodeId,
+        plan: campaign.planJson as CampaignPlanOutput,
+      });
+
+      logger.info('[ReplyClassificationService] Reply transition processed', {
+        tenantId,
+        campaignId: campaign.id,
+        fromNodeId: result.fromNodeId,
+        toNodeId: result.toNodeId,
+        reason: result.reason,
+      });
+    } catch (error) {
+      // The reply and its classification still stand; don't fail the job over the transition
+      logger.error('[ReplyClassificationService] Failed to process reply transition', {
+        tenantId,
+        campaignId: campaign.id,
+        inboundMessageId: inboundMessage.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+const stripHtml = (html: string | null): string =>
+  html
+    ? html
+        .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+    : '';
+
+export const replyClassificationService = new ReplyClassificationService();
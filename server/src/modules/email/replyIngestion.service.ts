@@ -0,0 +1,196 @@
+import { logger } from '@/libs/logger';
+import { emailOrchestrator } from '@/libs/email/email.orchestrator';
+import { parseReferencedMessageIds } from '@/libs/email/messageHeaders';
+import type { InboundEmail } from '@/libs/email/email.types';
+import { REPLY_INGESTION_CONFIG } from '@/config/replyIngestion.config';
+import {
+  inboundMessageRepository,
+  mailAccountRepository,
+  outboundMessageRepository,
+} from '@/repositories';
+import type { MailAccount, OutboundMessage } from '@/db/schema';
+import { ReplyIngestionPublisher } from '@/modules/messages/replyIngestion.publisher.service';
+
+export interface ReplyIngestionResult {
+  mailAccountId: string;
+  fetched: number;
+  stored: number;
+  duplicates: number;
+  unmatched: number;
+  skipped?: boolean;
+  skipReason?: string;
+}
+
+/**
+ * Polls connected Gmail/Outlook inboxes and stores replies to campaign emails as
+ * inbound_messages. Replies are correlated to outbound_messages through the
+ * Message-ID we stamp on every send (In-Reply-To / References), falling back to
+ * the provider thread id. Inbox mail that doesn't belong to a campaign is ignored.
+ * Each stored reply is handed to ReplyClassificationService, which applies the
+ * campaign action for its intent.
+ */
+export class ReplyIngestionService {
+  /**
+   * Fans out one poll job per connected mailbox
+   */
+  async enqueueAllMailAccounts(): Promise<number> {
+    const mailAccounts = await mailAccountRepository.findConnectedForInboxSync();
+
+    for (const mailAccount of mailAccounts) {
+      await ReplyIngestionPublisher.publishAccountPoll({
+        mailAccountId: mailAccount.id,
+        tenantId: mailAccount.tenantId,
+      });
+    }
+
+    logger.info('[ReplyIngestionService] Enqueued mailbox polls', {
+      mailAccounts: mailAccounts.length,
+    });
+
+    return mailAccounts.length;
+  }
+
+  async ingestMailAccount(mailAccountId: string): Promise<ReplyIngestionResult> {
+    const result: ReplyIngestionResult = {
+      mailAccountId,
+      fetched: 0,
+      stored: 0,
+      duplicates: 0,
+      unmatched: 0,
+    };
+
+    const mailAccount = await mailAccountRepository.findById(mailAccountId);
+    if (mailAccount.reauthRequired || mailAccount.disconnectedAt) {
+      return { ...result, skipped: true, skipReason: 'mail_account_not_connected' };
+    }
+
+    const pollStartedAt = new Date();
+    const since =
+      mailAccount.lastInboxSyncAt ??
+      new Date(pollStartedAt.getTime() - REPLY_INGESTION_CONFIG.INITIAL_LOOKBACK_MS);
+
+    const inboxReader = await emailOrchestrator.getInboxReader(mailAccount);
+    const emails = await inboxReader.listInboundEmails(
+      since,
+      REPLY_INGESTION_CONFIG.MAX_MESSAGES_PER_POLL
+    );
+    result.fetched = emails.length;
+
+    for (const email of emails) {
+      const outcome = await this.ingestEmail(mailAccount, email);
+      result[outcome]++;
+    }
+
+    // When the page was full there may be more waiting, so only advance to what we've seen
+    const lastEmail = emails[emails.length - 1];
+    const nextCursor =
+      emails.length >= REPLY_INGESTION_CONFIG.MAX_MESSAGES_PER_POLL && lastEmail
+        ? lastEmail.receivedAt
+        : pollStartedAt;
+    await mailAccountRepository.updateInboxSyncCursor(mailAccount.id, nextCursor);
+
+    logger.info('[ReplyIngestionService] Mailbox poll completed', {
+      ...result,
+      tenantId: mailAccount.tenantId,
+      provider: mailAccount.provider,
+      since: since.toISOString(),
+      nextCursor: nextCursor.toISOString(),
+    });
+
+    return result;
+  }
+
+  private async ingestEmail(
+    mailAccount: MailAccount,
+    email: InboundEmail
+  ): Promise<'stored' | 'duplicates' | 'unmatched'> {
+    const { tenantId } = mailAccount;
+
+    // Our own messages show up in the inbox on some providers (e.g. self-sends)
+    if (email.from === mailAccount.primaryEmail.toLowerCase()) {
+      return 'unmatched';
+    }
+
+    const existing = await inboundMessageRepository.findByProviderMessageIdForTenant(
+      tenantId,
+      'email',
+      email.providerMessageId
+    );
+    if (existing) {
+      return 'duplicates';
+    }
+
+    const outboundMessage = await this.findRepliedOutboundMessage(tenantId, email);
+    if (!outboundMessage) {
+      return 'unmatched';
+    }
+
+    const inboundMessage = await inboundMessageRepository.createForTenant(tenantId, {
+      campaignId: outboundMessage.campaignId,
+      contactId: outboundMessage.contactId,
+      outboundMessageId: outboundMessage.id,
+      mailAccountId: mailAccount.id,
+      channel: 'email',
+      providerMessageId: email.providerMessageId,
+      providerThreadId: email.providerThreadId,
+      fromAddress: email.from,
+      receivedAt: email.receivedAt,
+      subject: email.subject,
+      bodyText: email.text,
+      bodyHtml: email.html,
+      raw: {
+        messageIdHeader: email.messageIdHeader,
+        inReplyTo: email.inReplyTo,
+        references: email.references,
+        headers: email.headers,
+      },
+    });
+
+    logger.info('[ReplyIngestionService] Stored campaign reply', {
+      tenantId,
+      inboundMessageId: inboundMessage.id,
+      outboundMessageId: outboundMessage.id,
+      campaignId: outboundMessage.campaignId,
+      contactId: outboundMessage.contactId,
+    });
+
+    // Classification decides whether this counts as a reply (out-of-office doesn't)
+    await ReplyIngestionPublisher.publishClassification({
+      inboundMessageId: inboundMessage.id,
+      tenantId,
+    });
+
+    return 'stored';
+  }
+
+  private async findRepliedOutboundMessage(
+    tenantId: string,
+    email: InboundEmail
+  ): Promise<OutboundMessage | undefined> {
+    const referencedIds = parseReferencedMessageIds(email.inReplyTo, email.references);
+
+    if (referencedIds.length > 0) {
+      const candidates = await outboundMessageRepository.findByMessageIdHeadersForTenant(
+        tenantId,
+        referencedIds
+      );
+
+      // Prefer the closest ancestor in the reply chain
+      for (const referencedId of referencedIds) {
+        const match = candidates.find((candidate) => candidate.messageIdHeader === referencedId);
+        if (match) return match;
+      }
+    }
+
+    if (email.providerThreadId) {
+      return await outboundMessageRepository.findLatestByProviderThreadIdForTenant(
+        tenantId,
+        email.providerThreadId
+      );
+    }
+
+    return undefined;
+  }
+}
+
+export const replyIngestionService = new ReplyIngestionService();
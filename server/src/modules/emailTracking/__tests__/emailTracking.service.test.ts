@@ -0,0 +1,122 @@
+import {
+  contactCampaignRepository,
+  messageEventRepository,
+  outboundMessageRepository,
+} from '@/repositories';
+import { botDetectionService } from '@/modules/botDetection';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { emailTrackingLinks } from '@/libs/email/emailTracking';
+import { EmailTrackingService } from '../emailTracking.service';
+
+jest.mock('@/repositories', () => ({
+  contactCampaignRepository: { findByIdForTenant: jest.fn() },
+  messageEventRepository: { createForTenant: jest.fn() },
+  outboundMessageRepository: { findByIdForTenant: jest.fn() },
+}));
+
+jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
+  campaignPlanExecutionService: { processTransition: jest.fn() },
+}));
+
+jest.mock('@/modules/botDetection', () => ({
+  botDetectionService: { assessEvent: jest.fn() },
+}));
+
+jest.mock('@/libs/email/emailTracking', () => ({
+  emailTrackingLinks: { verify: jest.fn() },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('EmailTrackingService', () => {
+  const service = new EmailTrackingService();
+  const request = { tenantId: 'tenant-1', outboundMessageId: 'msg-1', signature: 'sig' };
+  const campaign = {
+    id: 'campaign-1',
+    contactId: 'contact-1',
+    leadId: 'lead-1',
+    status: 'active',
+    currentNodeId: 'email_1',
+    planJson: { nodes: [] },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (emailTrackingLinks.verify as jest.Mock).mockReturnValue(true);
+    (outboundMessageRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      id: 'msg-1',
+      campaignId: 'campaign-1',
+    });
+    (messageEventRepository.createForTenant as jest.Mock).mockResolvedValue({ id: 'event-1' });
+    (contactCampaignRepository.findByIdForTenant as jest.Mock).mockResolvedValue(campaign);
+    (botDetectionService.assessEvent as jest.Mock).mockResolvedValue({
+      isMachine: false,
+      score: 0,
+      reasons: [],
+    });
+  });
+
+  it('records a click and transitions the campaign on clicked', async () => {
+    const valid = await service.recordClick({ ...request, url: 'https://acme.com' });
+
+    expect(valid).toBe(true);
+    expect(messageEventRepository.createForTenant).toHaveBeenCalledWith(
+      'tenant-1',
+      expect.objectContaining({
+        messageId: 'msg-1',
+        type: 'click',
+        data: expect.objectContaining({ url: 'https://acme.com', provider: 'first_party' }),
+      })
+    );
+    expect(campaignPlanExecutionService.processTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        campaignId: 'campaign-1',
+        eventType: 'clicked',
+        currentNodeId: 'email_1',
+        channel: 'email',
+      })
+    );
+  });
+
+  it('does not record or redirect when the signature is invalid', async () => {
+    (emailTrackingLinks.verify as jest.Mock).mockReturnValue(false);
+
+    const valid = await service.recordClick({ ...request, url: 'https://evil.example' });
+
+    expect(valid).toBe(false);
+    expect(messageEventRepository.createForTenant).not.toHaveBeenCalled();
+  });
+
+  it('records an open without transitioning an inactive campaign', async () => {
+    (contactCampaignRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      ...campaign,
+      status: 'stopped',
+    });
+
+    await expect(service.recordOpen(request)).resolves.toBe(true);
+
+    expect(messageEventRepository.createForTenant).toHaveBeenCalledWith(
+      'tenant-1',
+      expect.objectContaining({ type: 'open' })
+    );
+    expect(campaignPlanExecutionService.processTransition).not.toHaveBeenCalled();
+  });
+
+  it('stores a scanner click as machine-generated without transitioning', async () => {
+    (botDetectionService.assessEvent as jest.Mock).mockResolvedValue({
+      isMachine: true,
+      score: 1,
+      reasons: ['scanner_user_agent'],
+    });
+
+    await service.recordClick({ ...request, url: 'https://acme.com', userAgent: 'Proofpoint' });
+
+    expect(messageEventRepository.createForTenant).toHaveBeenCalledWith(
+      'tenant-1',
+      expect.objectContaining({ isMachine: true, machineReasons: ['scanner_user_agent'] })
+    );
+    expect(campaignPlanExecutionService.processTransition).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+import { logger } from '@/libs/logger';
+import {
+  contactCampaignRepository,
+  messageEventRepository,
+  outboundMessageRepository,
+} from '@/repositories';
+import { emailTrackingLinks, type EmailTrackingKind } from '@/libs/email/emailTracking';
+import { botDetectionService } from '@/modules/botDetection';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { normalizeEventTypeForCampaign } from '@/constants/campaign-events';
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+
+export interface TrackingRequest {
+  tenantId: string;
+  outboundMessageId: string;
+  signature?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Records opens and clicks from the pixel and redirect links added to campaign emails sent
+ * through Gmail/Outlook, where no provider webhook reports them. Each hit is stored as a
+ * message_events row (`open` / `click`, the same types SendGrid events normalize to) and
+ * fed to the campaign's current node as an `opened` / `clicked` transition, unless bot
+ * detection tags it as a scanner or prefetch hit.
+ */
+export class EmailTrackingService {
+  /**
+   * Records an open. Returns false when the pixel URL signature is invalid.
+   */
+  async recordOpen(request: TrackingRequest): Promise<boolean> {
+    const { tenantId, outboundMessageId, signature } = request;
+
+    if (!emailTrackingLinks.verify('open', tenantId, outboundMessageId, signature)) {
+      logger.warn('[EmailTrackingService] Invalid open pixel signature', {
+        tenantId,
+        outboundMessageId,
+      });
+      return false;
+    }
+
+    await this.recordEvent('open', request);
+    return true;
+  }
+
+  /**
+   * Records a click. Returns false when the signature does not cover this URL, in which
+   * case the caller must not redirect to it.
+   */
+  async recordClick(request: TrackingRequest & { url: string }): Promise<boolean> {
+    const { tenantId, outboundMessageId, signature, url } = request;
+
+    if (!emailTrackingLinks.verify('click', tenantId, outboundMessageId, signature, url)) {
+      logger.warn('[EmailTrackingService] Invalid click link signature', {
+        tenantId,
+        outboundMessageId,
+      });
+      return false;
+    }
+
+    await this.recordEvent('click', request, { url });
+    return true;
+  }
+
+  // Tracking failures are logged, never surfaced: the pixel and redirect must always work
+  private async recordEvent(
+    type: EmailTrackingKind,
+    request: TrackingRequest,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    const { tenantId, outboundMessageId, userAgent, ipAddress } = request;
+
+    try {
+      const outboundMessage = await outboundMessageRepository.findByIdForTenant(
+        outboundMessageId,
+        tenantId
+      );
+      if (!outboundMessage) {
+        logger.debug('[EmailTrackingService] No outbound message for tracking hit', {
+          tenantId,
+          outboundMessageId,
+          type,
+        });
+        return;
+      }
+
+      const eventAt = new Date();
+      const assessment = await botDetectionService.assessEvent({
+        tenantId,
+        type,
+        eventAt,
+        outboundMessageId: outboundMessage.id,
+        userAgent,
+        ipAddress,
+        url: typeof extra.url === 'string' ? extra.url : undefined,
+      });
+
+      const messageEvent = await messageEventRepository.createForTenant(tenantId, {
+        messageId: outboundMessage.id,
+        type,
+        eventAt,
+        isMachine: assessment.isMachine,
+        machineReasons: assessment.isMachine ? assessment.reasons : null,
+        data: {
+          ...extra,
+          provider: 'first_party',
+          normalizedType: type,
+          userAgent,
+          ipAddress,
+        },
+      });
+
+      logger.info('[EmailTrackingService] Tracking event recorded', {
+        tenantId,
+        outboundMessageId,
+        messageEventId: messageEvent.id,
+        type,
+        isMachine: assessment.isMachine,
+      });
+
+      if (assessment.isMachine) return;
+
+      const campaign = await contactCampaignRepository.findByIdForTenant(
+        outboundMessage.campaignId,
+        tenantId
+      );
+      if (!campaign || campaign.status !== 'active' || !campaign.currentNodeId) {
+        return;
+      }
+
+      await campaignPlanExecutionService.processTransition({
+        tenantId,
+        campaignId: campaign.id,
+        contactId: campaign.contactId,
+        leadId: campaign.leadId,
+        eventType: normalizeEventTypeForCampaign(type),
+        currentNodeId: campaign.currentNodeId,
+        plan: campaign.planJson as CampaignPlanOutput,
+        channel: 'email',
+      });
+    } catch (error) {
+      logger.error('[EmailTrackingService] Failed to record tracking event', {
+        tenantId,
+        outboundMessageId,
+        type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+export const emailTrackingService = new EmailTrackingService();
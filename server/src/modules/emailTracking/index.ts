@@ -0,0 +1,2 @@
+export { EmailTrackingService, emailTrackingService } from './emailTracking.service';
+export type { TrackingRequest } from './emailTracking.service';
@@ -15,10 +15,24 @@ export type CampaignExecutionJobPayload = {
   };
 };
 
+export type CampaignResumeJobPayload = {
+  tenantId: string;
+  campaignId: string;
+  reason: string;
+};
+
+export type MeetingReminderJobPayload = {
+  tenantId: string;
+  meetingId: string;
+  scheduledActionId: string;
+  startTime: string; // Meeting start the reminder was scheduled for
+  offsetMinutes: number;
+};
+
 export class CampaignExecutionPublisher {
   private static queue = getQueue(QUEUE_NAMES.campaign_execution);
 
-  static async publish(payload: CampaignExecutionJobPayload) {
+  static async publish(payload: CampaignExecutionJobPayload, options: { delay?: number } = {}) {
     try {
       logger.info('Publishing campaign execution job', {
         tenantId: payload.tenantId,
@@ -26,9 +40,11 @@ export class CampaignExecutionPublisher {
         contactId: payload.contactId,
         nodeId: payload.nodeId,
         actionType: payload.actionType,
+        delay: options.delay,
       });
 
       const job = await this.queue.add(JOB_NAMES.campaign_execution.initialize, payload, {
+        delay: options.delay,
         attempts: 3,
         backoff: { type: 'exponential', delay: 2000 },
         removeOnComplete: 10,
@@ -93,4 +109,70 @@ export class CampaignExecutionPublisher {
       throw error;
     }
   }
+
+  static async publishResume(payload: CampaignResumeJobPayload, resumeAt: Date, jobId: string) {
+    try {
+      const delay = Math.max(0, resumeAt.getTime() - Date.now());
+
+      const job = await this.queue.add(JOB_NAMES.campaign_execution.resume, payload, {
+        jobId,
+        delay,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 2000 },
+        removeOnComplete: 10,
+        removeOnFail: 5,
+      });
+
+      logger.info('Campaign resume job published successfully', {
+        tenantId: payload.tenantId,
+        campaignId: payload.campaignId,
+        resumeAt: resumeAt.toISOString(),
+        jobId: job.id,
+      });
+
+      return job;
+    } catch (error) {
+      logger.error('Failed to publish campaign resume job', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: payload.tenantId,
+        campaignId: payload.campaignId,
+      });
+      throw error;
+    }
+  }
+
+  static async publishMeetingReminder(
+    payload: MeetingReminderJobPayload,
+    sendAt: Date,
+    jobId: string
+  ) {
+    try {
+      const delay = Math.max(0, sendAt.getTime() - Date.now());
+
+      const job = await this.queue.add(JOB_NAMES.campaign_execution.meeting_reminder, payload, {
+        jobId,
+        delay,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 2000 },
+        removeOnComplete: 10,
+        removeOnFail: 5,
+      });
+
+      logger.info('Meeting reminder job published successfully', {
+        tenantId: payload.tenantId,
+        meetingId: payload.meetingId,
+        sendAt: sendAt.toISOString(),
+        jobId: job.id,
+      });
+
+      return job;
+    } catch (error) {
+      logger.error('Failed to publish meeting reminder job', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: payload.tenantId,
+        meetingId: payload.meetingId,
+      });
+      throw error;
+    }
+  }
 }
@@ -2,11 +2,19 @@
 export { LeadAnalysisPublisher } from './leadAnalysis.publisher.service';
 export { CampaignCreationPublisher } from './campaignCreation.publisher.service';
 export { CampaignExecutionPublisher } from './campaignExecution.publisher.service';
+export { ReplyIngestionPublisher } from './replyIngestion.publisher.service';
 
 // Types
 export type { LeadAnalysisJobPayload } from './leadAnalysis.publisher.service';
 export type { CampaignCreationJobPayload } from './campaignCreation.publisher.service';
-export type { CampaignExecutionJobPayload } from './campaignExecution.publisher.service';
+export type {
+  CampaignExecutionJobPayload,
+  CampaignResumeJobPayload,
+} from './campaignExecution.publisher.service';
+export type {
+  ReplyIngestionJobPayload,
+  ReplyClassificationJobPayload,
+} from './replyIngestion.publisher.service';
 
 // Worker result types (workers are now in @/workers/)
 export type { LeadAnalysisJobResult } from '@/workers/lead-analysis/lead-analysis.worker';
@@ -0,0 +1,92 @@
+import { getQueue } from '@/libs/bullmq';
+import { QUEUE_NAMES, JOB_NAMES } from '@/constants/queues';
+import { REPLY_INGESTION_CONFIG } from '@/config/replyIngestion.config';
+import { logger } from '@/libs/logger';
+
+export type ReplyIngestionJobPayload = {
+  mailAccountId: string;
+  tenantId: string;
+};
+
+export type ReplyClassificationJobPayload = {
+  inboundMessageId: string;
+  tenantId: string;
+};
+
+const POLL_SCHEDULER_ID = 'reply_ingestion.poll_all.scheduler';
+
+export class ReplyIngestionPublisher {
+  private static queue = getQueue(QUEUE_NAMES.reply_ingestion);
+
+  /**
+   * Registers (or updates) the repeatable job that fans out a poll per mailbox.
+   * Safe to call on every worker start.
+   */
+  static async schedulePolling() {
+    try {
+      if (!REPLY_INGESTION_CONFIG.ENABLED) {
+        await this.queue.removeJobScheduler(POLL_SCHEDULER_ID);
+        logger.info('Reply ingestion polling is disabled, scheduler removed');
+        return;
+      }
+
+      await this.queue.upsertJobScheduler(
+        POLL_SCHEDULER_ID,
+        { every: REPLY_INGESTION_CONFIG.POLL_INTERVAL_MS },
+        {
+          name: JOB_NAMES.reply_ingestion.poll_all,
+          data: {},
+          opts: { removeOnComplete: 10, removeOnFail: 10 },
+        }
+      );
+
+      logger.info('Reply ingestion polling scheduled', {
+        everyMs: REPLY_INGESTION_CONFIG.POLL_INTERVAL_MS,
+      });
+    } catch (error) {
+      logger.error('Failed to schedule reply ingestion polling', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  static async publishAccountPoll(payload: ReplyIngestionJobPayload) {
+    try {
+      // Deterministic job id per mailbox so overlapping fan-outs don't double-poll
+      return await this.queue.add(JOB_NAMES.reply_ingestion.poll_account, payload, {
+        jobId: `reply_ingestion-${payload.mailAccountId}`,
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: true,
+      });
+    } catch (error) {
+      logger.error('Failed to publish reply ingestion job', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        mailAccountId: payload.mailAccountId,
+        tenantId: payload.tenantId,
+      });
+      throw error;
+    }
+  }
+
+  static async publishClassification(payload: ReplyClassificationJobPayload) {
+    try {
+      return await this.queue.add(JOB_NAMES.reply_ingestion.classify, payload, {
+        jobId: `reply_classification-${payload.inboundMessageId}`,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: 10,
+        removeOnFail: 5,
+      });
+    } catch (error) {
+      logger.error('Failed to publish reply classification job', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        inboundMessageId: payload.inboundMessageId,
+        tenantId: payload.tenantId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  leadRepository,
+  leadStageHistoryRepository,
+  pipelineStageRepository,
+  pipelineStageTransactionRepository,
+} from '@/repositories';
+import { BadRequestError, NotFoundError } from '@/exceptions/error';
+import { PipelineService } from '../pipeline.service';
+
+jest.mock('@/repositories', () => ({
+  leadRepository: {
+    findByIdForTenant: jest.fn(),
+    findForPipelineForTenant: jest.fn(),
+    updateByIdForTenant: jest.fn(),
+  },
+  leadStageHistoryRepository: {
+    createForTenant: jest.fn(),
+    findByLeadForTenant: jest.fn(),
+  },
+  pipelineStageRepository: {
+    findOrderedForTenant: jest.fn(),
+  },
+  pipelineStageTransactionRepository: {
+    replaceStages: jest.fn(),
+    seedStagesIfEmpty: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const stages = [
+  { id: 'prospecting', name: 'Prospecting', position: 0, kind: 'open', autoAdvanceOn: [] },
+  {
+    id: 'contacted',
+    name: 'Contacted',
+    position: 1,
+    kind: 'open',
+    autoAdvanceOn: ['message_sent', 'reply_received'],
+  },
+  {
+    id: 'meeting',
+    name: 'Meeting Booked',
+    position: 2,
+    kind: 'open',
+    autoAdvanceOn: ['meeting_booked'],
+  },
+  { id: 'won', name: 'Won', position: 3, kind: 'won', autoAdvanceOn: [] },
+];
+
+describe('PipelineService', () => {
+  const service = new PipelineService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (pipelineStageRepository.findOrderedForTenant as jest.Mock).mockResolvedValue(stages);
+  });
+
+  it('seeds the default stages for a tenant without a pipeline', async () => {
+    (pipelineStageRepository.findOrderedForTenant as jest.Mock).mockResolvedValueOnce([]);
+    (pipelineStageTransactionRepository.seedStagesIfEmpty as jest.Mock).mockResolvedValue(stages);
+
+    await service.listStages('tenant-1');
+
+    const seeded = (pipelineStageTransactionRepository.seedStagesIfEmpty as jest.Mock).mock
+      .calls[0][1];
+    expect(seeded.map((stage: { name: string }) => stage.name)).toEqual([
+      'Prospecting',
+      'Contacted',
+      'Meeting Booked',
+      'Proposal',
+      'Won',
+      'Lost',
+    ]);
+  });
+
+  it('advances a lead to the stage configured for an event and records history', async () => {
+    (leadRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      id: 'lead-1',
+      pipelineStageId: 'contacted',
+    });
+
+    const stage = await service.advanceOnEvent('tenant-1', 'lead-1', 'meeting_booked');
+
+    expect(stage?.id).toBe('meeting');
+    expect(leadRepository.updateByIdForTenant).toHaveBeenCalledWith(
+      'lead-1',
+      'tenant-1',
+      expect.objectContaining({ pipelineStageId: 'meeting' })
+    );
+    expect(leadStageHistoryRepository.createForTenant).toHaveBeenCalledWith(
+      'tenant-1',
+      expect.objectContaining({
+        fromStageName: 'Contacted',
+        toStageName: 'Meeting Booked',
+        source: 'meeting_booked',
+      })
+    );
+  });
+
+  it('never moves a lead backwards or out of a closed stage', async () => {
+    (leadRepository.findByIdForTenant as jest.Mock).mockResolvedValueOnce({
+      id: 'lead-1',
+      pipelineStageId: 'meeting',
+    });
+    expect(await service.advanceOnEvent('tenant-1', 'lead-1', 'reply_received')).toBeNull();
+
+    (leadRepository.findByIdForTenant as jest.Mock).mockResolvedValueOnce({
+      id: 'lead-1',
+      pipelineStageId: 'won',
+    });
+    expect(await service.advanceOnEvent('tenant-1', 'lead-1', 'meeting_booked')).toBeNull();
+
+    expect(leadRepository.updateByIdForTenant).not.toHaveBeenCalled();
+  });
+
+  it('puts leads without a stage in the first open stage and totals deal values', async () => {
+    (leadRepository.findForPipelineForTenant as jest.Mock).mockResolvedValue([
+      { id: 'lead-1', pipelineStageId: null, dealValue: 1000 },
+      { id: 'lead-2', pipelineStageId: 'prospecting', dealValue: 250.5 },
+      { id: 'lead-3', pipelineStageId: 'won', dealValue: null },
+    ]);
+
+    const board = await service.getBoard('tenant-1');
+
+    expect(board[0]?.leads.map((lead) => lead.id)).toEqual(['lead-1', 'lead-2']);
+    expect(board[0]?.totalValue).toBe(1250.5);
+    expect(board[3]?.leads.map((lead) => lead.id)).toEqual(['lead-3']);
+  });
+
+  it('rejects events that advance leads to more than one stage', async () => {
+    await expect(
+      service.replaceStages('tenant-1', [
+        { name: 'New', kind: 'open', autoAdvanceOn: ['message_sent'] },
+        { name: 'Engaged', kind: 'open', autoAdvanceOn: ['message_sent'] },
+      ])
+    ).rejects.toThrow(BadRequestError);
+    expect(pipelineStageTransactionRepository.replaceStages).not.toHaveBeenCalled();
+  });
+
+  it('replaces the stages in one call, in order, keeping existing ids', async () => {
+    (pipelineStageTransactionRepository.replaceStages as jest.Mock).mockResolvedValue({
+      stages: stages.slice(0, 2),
+      removedCount: 2,
+    });
+
+    const result = await service.replaceStages('tenant-1', [
+      { id: 'prospecting', name: ' Prospecting ', kind: 'open' },
+      { name: 'Qualified', kind: 'open', autoAdvanceOn: ['reply_received'] },
+    ]);
+
+    expect(pipelineStageTransactionRepository.replaceStages).toHaveBeenCalledWith('tenant-1', [
+      expect.objectContaining({ id: 'prospecting', name: 'Prospecting', autoAdvanceOn: [] }),
+      expect.objectContaining({ id: undefined, name: 'Qualified' }),
+    ]);
+    expect(result.map((stage) => stage.id)).toEqual(['prospecting', 'contacted']);
+  });
+
+  it('rejects stage ids that are not in the pipeline', async () => {
+    await expect(
+      service.replaceStages('tenant-1', [{ id: 'missing', name: 'Open', kind: 'open' }])
+    ).rejects.toThrow(NotFoundError);
+    expect(pipelineStageTransactionRepository.replaceStages).not.toHaveBeenCalled();
+  });
+});
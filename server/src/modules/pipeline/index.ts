@@ -0,0 +1,16 @@
+export {
+  PipelineService,
+  pipelineService,
+  DEFAULT_PIPELINE_STAGES,
+  PIPELINE_EVENTS,
+  PIPELINE_STAGE_KINDS,
+} from './pipeline.service';
+export type {
+  LeadDealInput,
+  PipelineBoardColumn,
+  PipelineEvent,
+  PipelineStageInput,
+  PipelineStageKind,
+  PipelineStageView,
+  StageChangeSource,
+} from './pipeline.service';
@@ -0,0 +1,307 @@
+import { logger } from '@/libs/logger';
+import { BadRequestError, NotFoundError } from '@/exceptions/error';
+import {
+  leadRepository,
+  leadStageHistoryRepository,
+  pipelineStageRepository,
+  pipelineStageTransactionRepository,
+  type PipelineLead,
+} from '@/repositories';
+import type { Lead, LeadStageHistory, PipelineStage } from '@/db/schema';
+
+export const PIPELINE_STAGE_KINDS = ['open', 'won', 'lost'] as const;
+export type PipelineStageKind = (typeof PIPELINE_STAGE_KINDS)[number];
+
+export const PIPELINE_EVENTS = ['message_sent', 'reply_received', 'meeting_booked'] as const;
+export type PipelineEvent = (typeof PIPELINE_EVENTS)[number];
+
+export type StageChangeSource = 'manual' | PipelineEvent;
+
+export interface PipelineStageInput {
+  id?: string; // Existing stage to keep; omit to add a new one
+  name: string;
+  kind: PipelineStageKind;
+  autoAdvanceOn?: PipelineEvent[];
+}
+
+export interface PipelineStageView {
+  id: string;
+  name: string;
+  position: number;
+  kind: PipelineStageKind;
+  autoAdvanceOn: PipelineEvent[];
+}
+
+export interface PipelineBoardColumn {
+  stage: PipelineStageView;
+  leads: PipelineLead[];
+  totalValue: number;
+}
+
+export interface LeadDealInput {
+  stageId?: string;
+  dealValue?: number | null;
+  expectedCloseDate?: string | null;
+}
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStageInput[] = [
+  { name: 'Prospecting', kind: 'open' },
+  { name: 'Contacted', kind: 'open', autoAdvanceOn: ['message_sent', 'reply_received'] },
+  { name: 'Meeting Booked', kind: 'open', autoAdvanceOn: ['meeting_booked'] },
+  { name: 'Proposal', kind: 'open' },
+  { name: 'Won', kind: 'won' },
+  { name: 'Lost', kind: 'lost' },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Per-tenant sales pipeline, separate from the lead processing statuses. Leads without a
+ * stage sit in the first open stage. Stage changes are recorded in lead_stage_history,
+ * whether a rep moved the lead or an event advanced it. Events only ever move a lead
+ * forward, and never out of a won or lost stage.
+ */
+export class PipelineService {
+  async listStages(tenantId: string): Promise<PipelineStageView[]> {
+    const stages = await this.ensureStages(tenantId);
+    return stages.map(toStageView);
+  }
+
+  /**
+   * Replaces the pipeline with the given stages, in order, in one transaction. Stages left
+   * out are deleted and their leads fall back to the first open stage.
+   */
+  async replaceStages(
+    tenantId: string,
+    inputs: PipelineStageInput[]
+  ): Promise<PipelineStageView[]> {
+    this.validateStages(inputs);
+
+    const existing = await pipelineStageRepository.findOrderedForTenant(tenantId);
+    const existingIds = new Set(existing.map((stage) => stage.id));
+    const unknown = inputs.find((input) => input.id && !existingIds.has(input.id));
+    if (unknown) {
+      throw new NotFoundError(`Pipeline stage not found: ${unknown.id}`);
+    }
+
+    const { stages, removedCount } = await pipelineStageTransactionRepository.replaceStages(
+      tenantId,
+      inputs.map((input) => ({
+        id: input.id,
+        name: input.name.trim(),
+        kind: input.kind,
+        autoAdvanceOn: input.autoAdvanceOn ?? [],
+        updatedAt: new Date(),
+      }))
+    );
+
+    logger.info('[PipelineService] Pipeline stages replaced', {
+      tenantId,
+      stageCount: inputs.length,
+      removedCount,
+    });
+
+    return stages.map(toStageView);
+  }
+
+  async getBoard(tenantId: string, ownerId?: string): Promise<PipelineBoardColumn[]> {
+    const stages = (await this.ensureStages(tenantId)).map(toStageView);
+    const leads = await leadRepository.findForPipelineForTenant(tenantId, ownerId);
+    const defaultStageId = stages.find((stage) => stage.kind === 'open')?.id ?? stages[0]?.id;
+
+    const columns = new Map<string, PipelineBoardColumn>(
+      stages.map((stage) => [stage.id, { stage, leads: [], totalValue: 0 }])
+    );
+
+    for (const lead of leads) {
+      const column =
+        columns.get(lead.pipelineStageId ?? '') ?? columns.get(defaultStageId ?? '') ?? null;
+      if (!column) continue;
+
+      column.leads.push(lead);
+      column.totalValue += lead.dealValue ?? 0;
+    }
+
+    return [...columns.values()];
+  }
+
+  async updateLeadDeal(
+    tenantId: string,
+    leadId: string,
+    input: LeadDealInput,
+    userId?: string
+  ): Promise<Lead> {
+    if (input.dealValue !== undefined && input.dealValue !== null && input.dealValue < 0) {
+      throw new BadRequestError('Deal value cannot be negative');
+    }
+    if (input.expectedCloseDate && !DATE_PATTERN.test(input.expectedCloseDate)) {
+      throw new BadRequestError('Expected close date must be YYYY-MM-DD');
+    }
+
+    const lead = await leadRepository.findByIdForTenant(leadId, tenantId);
+
+    if (input.dealValue !== undefined || input.expectedCloseDate !== undefined) {
+      await leadRepository.updateByIdForTenant(leadId, tenantId, {
+        ...(input.dealValue !== undefined && { dealValue: input.dealValue }),
+        ...(input.expectedCloseDate !== undefined && {
+          expectedCloseDate: input.expectedCloseDate,
+        }),
+        updatedAt: new Date(),
+      });
+    }
+
+    if (input.stageId && input.stageId !== lead.pipelineStageId) {
+      const stages = await this.ensureStages(tenantId);
+      const stage = stages.find((candidate) => candidate.id === input.stageId);
+      if (!stage) {
+        throw new NotFoundError(`Pipeline stage not found: ${input.stageId}`);
+      }
+
+      await this.moveLead(tenantId, lead, stages, stage, 'manual', userId);
+    }
+
+    return await leadRepository.findByIdForTenant(leadId, tenantId);
+  }
+
+  async getStageHistory(tenantId: string, leadId: string): Promise<LeadStageHistory[]> {
+    await leadRepository.findByIdForTenant(leadId, tenantId);
+    return await leadStageHistoryRepository.findByLeadForTenant(leadId, tenantId);
+  }
+
+  /**
+   * Moves a lead forward to the stage configured for an event, if any. Called from
+   * sends, replies and bookings, so it logs failures instead of throwing.
+   */
+  async advanceOnEvent(
+    tenantId: string,
+    leadId: string,
+    event: PipelineEvent
+  ): Promise<PipelineStage | null> {
+    try {
+      const stages = await this.ensureStages(tenantId);
+      const target = stages.find((stage) =>
+        (stage.autoAdvanceOn as PipelineEvent[]).includes(event)
+      );
+      if (!target) return null;
+
+      const lead = await leadRepository.findByIdForTenant(leadId, tenantId);
+      const current = stages.find((stage) => stage.id === lead.pipelineStageId);
+
+      if (current && current.kind !== 'open') return null;
+      if (current && current.position >= target.position) return null;
+
+      await this.moveLead(tenantId, lead, stages, target, event);
+      return target;
+    } catch (error) {
+      logger.warn('[PipelineService] Failed to advance lead stage', {
+        tenantId,
+        leadId,
+        event,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  private async moveLead(
+    tenantId: string,
+    lead: { id: string; pipelineStageId: string | null },
+    stages: PipelineStage[],
+    target: PipelineStage,
+    source: StageChangeSource,
+    userId?: string
+  ): Promise<void> {
+    const from = stages.find((stage) => stage.id === lead.pipelineStageId);
+    const now = new Date();
+
+    await leadRepository.updateByIdForTenant(lead.id, tenantId, {
+      pipelineStageId: target.id,
+      stageChangedAt: now,
+      updatedAt: now,
+    });
+
+    await leadStageHistoryRepository.createForTenant(tenantId, {
+      leadId: lead.id,
+      fromStageId: from?.id ?? null,
+      toStageId: target.id,
+      fromStageName: from?.name ?? null,
+      toStageName: target.name,
+      source,
+      changedBy: userId ?? null,
+      createdAt: now,
+    });
+
+    logger.info('[PipelineService] Lead stage changed', {
+      tenantId,
+      leadId: lead.id,
+      from: from?.name ?? null,
+      to: target.name,
+      source,
+    });
+  }
+
+  /**
+   * Seeds the default pipeline the first time a tenant's stages are needed
+   */
+  private async ensureStages(tenantId: string): Promise<PipelineStage[]> {
+    const stages = await pipelineStageRepository.findOrderedForTenant(tenantId);
+    if (stages.length > 0) return stages;
+
+    // Seeded under a per-tenant lock so concurrent first requests don't both insert
+    return await pipelineStageTransactionRepository.seedStagesIfEmpty(
+      tenantId,
+      DEFAULT_PIPELINE_STAGES.map((stage, position) => ({
+        name: stage.name,
+        position,
+        kind: stage.kind,
+        autoAdvanceOn: stage.autoAdvanceOn ?? [],
+      }))
+    );
+  }
+
+  private validateStages(inputs: PipelineStageInput[]): void {
+    if (!inputs.some((input) => input.kind === 'open')) {
+      throw new BadRequestError('The pipeline needs at least one open stage');
+    }
+
+    const names = new Set<string>();
+    const events = new Set<PipelineEvent>();
+
+    for (const input of inputs) {
+      const name = input.name.trim();
+      if (!name) {
+        throw new BadRequestError('Stage names are required');
+      }
+      if (names.has(name.toLowerCase())) {
+        throw new BadRequestError(`Duplicate stage name: ${name}`);
+      }
+      names.add(name.toLowerCase());
+
+      if (!PIPELINE_STAGE_KINDS.includes(input.kind)) {
+        throw new BadRequestError(`Stage kind must be one of: ${PIPELINE_STAGE_KINDS.join(', ')}`);
+      }
+
+      for (const event of input.autoAdvanceOn ?? []) {
+        if (!PIPELINE_EVENTS.includes(event)) {
+          throw new BadRequestError(`Unknown pipeline event: ${event}`);
+        }
+        if (events.has(event)) {
+          throw new BadRequestError(`Event ${event} can only advance leads to one stage`);
+        }
+        events.add(event);
+      }
+    }
+  }
+}
+
+function toStageView(stage: PipelineStage): PipelineStageView {
+  return {
+    id: stage.id,
+    name: stage.name,
+    position: stage.position,
+    kind: stage.kind as PipelineStageKind,
+    autoAdvanceOn: (stage.autoAdvanceOn as PipelineEvent[]) ?? [],
+  };
+}
+
+export const pipelineService = new PipelineService();
@@ -1,7 +1,11 @@
-import { ServiceUnavailableError } from '@/exceptions/error';
+import { NotFoundError, ServiceUnavailableError } from '@/exceptions/error';
+import { logger } from '@/libs/logger';
+import { schedulingPoolMemberRepository, schedulingPoolRepository } from '@/repositories';
+import { MeetingType, UserScheduleSetting } from '@/db/schema';
 import { calendarConnectionService } from './calendar/CalendarConnectionService';
 import { calendarProviderFactory } from './calendar/CalendarProviderFactory';
 import { bookingTokenService } from './BookingTokenService';
+import { meetingTypeService } from './MeetingTypeService';
 import {
   SchedulingSettingsService,
   WorkingHours,
@@ -18,6 +22,8 @@ export interface AvailabilityRequest {
   userId: string;
   startDate: string;
   endDate: string;
+  meetingType?: MeetingType | null; // Replaces the rep's meeting length and buffers
+  ignoreEventId?: string; // Calendar event of a meeting being moved, so it can't block itself
   now?: Date;
 }
 
@@ -27,6 +33,27 @@ export interface AvailabilityResponse {
   timezone: string;
 }
 
+export interface PoolAvailabilityRequest {
+  tenantId: string;
+  poolId: string;
+  startDate: string;
+  endDate: string;
+  timezone: string; // Reported back for display; each member's own hours still apply
+  userIds?: string[]; // Only these members, e.g. the attendees of a meeting being moved
+  ignoreEventId?: string;
+  now?: Date;
+}
+
+export interface PoolAvailabilityResponse extends AvailabilityResponse {
+  hostsBySlot: Record<string, string[]>; // Slot -> members free for the whole meeting
+}
+
+interface MemberAvailability {
+  settings: UserScheduleSetting;
+  availableIntervals: TimeInterval[];
+  busyBlocks: TimeInterval[];
+}
+
 const DAY_KEYS: Array<keyof WorkingHours> = [
   'sunday',
   'monday',
@@ -47,36 +74,162 @@ export class AvailabilityService {
     now = new Date()
   ): Promise<AvailabilityResponse> {
     const context = await bookingTokenService.resolve(rawToken);
+    if (context.token.poolId) {
+      const settings = await this.settingsService.getForUser(
+        context.token.tenantId,
+        context.token.userId
+      );
+      const { hostsBySlot: _hostsBySlot, ...availability } = await this.getPoolAvailability({
+        tenantId: context.token.tenantId,
+        poolId: context.token.poolId,
+        startDate,
+        endDate,
+        timezone: settings.timezone,
+        now,
+      });
+      return availability;
+    }
+
     return await this.getAvailability({
       tenantId: context.token.tenantId,
       userId: context.token.userId,
       startDate,
       endDate,
+      meetingType: context.meetingType,
       now,
     });
   }
 
   async getAvailability(request: AvailabilityRequest): Promise<AvailabilityResponse> {
-    const settings = await this.settingsService.getForUser(request.tenantId, request.userId);
-    const connection = await calendarConnectionService.getActiveConnection(
+    const { settings, availableIntervals, busyBlocks } = await this.getMemberAvailability(request);
+    const slots = this.slotsFromIntervals(availableIntervals, settings.meetingDurationMinutes);
+
+    return {
+      availableSlots: slots.map((slot) => slot.toISOString()),
+      busyBlocks: busyBlocks.map((block) => ({
+        start: block.start.toISOString(),
+        end: block.end.toISOString(),
+      })),
+      timezone: settings.timezone,
+    };
+  }
+
+  /**
+   * Slots a scheduling pool can take, at the pool's meeting length. Round-robin pools offer
+   * any slot at least one member is free for; collective pools only slots where every
+   * member is free. Members without a connected calendar drop out of round-robin pools but
+   * make a collective pool unbookable.
+   */
+  async getPoolAvailability(request: PoolAvailabilityRequest): Promise<PoolAvailabilityResponse> {
+    const pool = await schedulingPoolRepository.findByIdForTenant(request.poolId, request.tenantId);
+    if (!pool) {
+      throw new NotFoundError('Scheduling pool not found');
+    }
+    const memberIds =
+      request.userIds ??
+      (await schedulingPoolMemberRepository.listByPoolsForTenant(request.tenantId, [pool.id])).map(
+        (member) => member.userId
+      );
+
+    const available: Array<{ userId: string; intervals: TimeInterval[] }> = [];
+    for (const userId of memberIds) {
+      try {
+        const { availableIntervals } = await this.getMemberAvailability({
+          tenantId: request.tenantId,
+          userId,
+          startDate: request.startDate,
+          endDate: request.endDate,
+          ignoreEventId: request.ignoreEventId,
+          now: request.now,
+        });
+        available.push({ userId, intervals: availableIntervals });
+      } catch (error) {
+        if (pool.mode === 'collective') throw error;
+        logger.warn('[AvailabilityService] Pool member skipped', {
+          tenantId: request.tenantId,
+          poolId: pool.id,
+          userId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    if (available.length === 0) {
+      throw new ServiceUnavailableError('No scheduling calendar connected');
+    }
+
+    const hostsBySlot: Record<string, string[]> = {};
+    if (pool.mode === 'collective') {
+      const [first, ...rest] = available;
+      const shared = rest.reduce(
+        (intervals, member) => this.intersectIntervals(intervals, member.intervals),
+        first?.intervals ?? []
+      );
+      for (const slot of this.slotsFromIntervals(shared, pool.meetingDurationMinutes)) {
+        hostsBySlot[slot.toISOString()] = available.map((member) => member.userId);
+      }
+    } else {
+      for (const member of available) {
+        for (const slot of this.slotsFromIntervals(member.intervals, pool.meetingDurationMinutes)) {
+          const key = slot.toISOString();
+          hostsBySlot[key] = [...(hostsBySlot[key] ?? []), member.userId];
+        }
+      }
+    }
+
+    return {
+      availableSlots: Object.keys(hostsBySlot).sort(),
+      busyBlocks: [], // Individual calendars stay private on pooled pages
+      timezone: request.timezone,
+      hostsBySlot,
+    };
+  }
+
+  private async getMemberAvailability(request: AvailabilityRequest): Promise<MemberAvailability> {
+    const settings = meetingTypeService.applyToSettings(
+      await this.settingsService.getForUser(request.tenantId, request.userId),
+      request.meetingType
+    );
+    const connections = await calendarConnectionService.listForUser(
       request.tenantId,
       request.userId
     );
-    if (!connection) {
+    if (connections.length === 0) {
       throw new ServiceUnavailableError('No scheduling calendar connected');
     }
 
     const rangeStart = this.zonedTimeToUtc(request.startDate, '00:00', settings.timezone);
     const rangeEnd = this.zonedTimeToUtc(request.endDate, '23:59', settings.timezone);
-    const events = await calendarProviderFactory.create(connection).listEvents({
-      calendarId: connection.providerCalendarId,
-      timeMin: rangeStart,
-      timeMax: rangeEnd,
-    });
+    // Busy time on any calendar checked for conflicts blocks the slot, across providers.
+    // A calendar that can't be read is not skipped, since its meetings would show as free.
+    const events = (
+      await Promise.all(
+        connections
+          .filter((connection) => connection.checkForConflicts)
+          .map(async (connection) => {
+            try {
+              return await calendarProviderFactory.create(connection).listEvents({
+                calendarId: connection.providerCalendarId,
+                timeMin: rangeStart,
+                timeMax: rangeEnd,
+              });
+            } catch (error) {
+              logger.warn('[AvailabilityService] Calendar events unavailable', {
+                tenantId: request.tenantId,
+                userId: request.userId,
+                connectionId: connection.id,
+                error: error instanceof Error ? error.message : 'Unknown error',
+              });
+              const name = connection.displayName || connection.primaryEmail || connection.provider;
+              throw new ServiceUnavailableError(`Calendar "${name}" needs reconnecting`);
+            }
+          })
+      )
+    ).flat();
 
     const blockers = this.mergeIntervals(
       events
         .filter((event) => (settings.respectFreeBusy ? event.isBusy : true))
+        .filter((event) => !request.ignoreEventId || event.id !== request.ignoreEventId)
         .map((event) => ({
           start: this.addMinutes(event.start, -settings.bufferBeforeMinutes),
           end: this.addMinutes(event.end, settings.bufferAfterMinutes),
@@ -103,16 +256,7 @@ export class AvailabilityService {
     );
     const busyBlocks = this.busyBlocksFromWorkingIntervals(workingIntervals, blockers);
 
-    const slots = this.slotsFromIntervals(availableIntervals, settings.meetingDurationMinutes);
-
-    return {
-      availableSlots: slots.map((slot) => slot.toISOString()),
-      busyBlocks: busyBlocks.map((block) => ({
-        start: block.start.toISOString(),
-        end: block.end.toISOString(),
-      })),
-      timezone: settings.timezone,
-    };
+    return { settings, availableIntervals, busyBlocks };
   }
 
   isSlotAvailable(slotStart: Date, availableSlots: string[]): boolean {
@@ -155,6 +299,16 @@ export class AvailabilityService {
     return merged;
   }
 
+  intersectIntervals(a: TimeInterval[], b: TimeInterval[]): TimeInterval[] {
+    return a.flatMap((left) =>
+      b.flatMap((right) => {
+        const start = new Date(Math.max(left.start.getTime(), right.start.getTime()));
+        const end = new Date(Math.min(left.end.getTime(), right.end.getTime()));
+        return start < end ? [{ start, end }] : [];
+      })
+    );
+  }
+
   subtractIntervals(interval: TimeInterval, blockers: TimeInterval[]): TimeInterval[] {
     let remaining = [interval];
 
@@ -3,16 +3,21 @@ import { FRONTEND_ORIGIN } from '@/config';
 import {
   leadPointOfContactRepository,
   leadRepository,
+  meetingTypeRepository,
   scheduleBookingTokenRepository,
+  schedulingPoolRepository,
+  userScheduleSettingsRepository,
 } from '@/repositories';
 import { BadRequestError, NotFoundError } from '@/exceptions/error';
-import { ScheduleBookingToken } from '@/db/schema';
+import { MeetingType, ScheduleBookingToken } from '@/db/schema';
 
 export interface IssueBookingTokenInput {
   tenantId: string;
   leadId: string;
   contactId: string;
   userId: string;
+  poolId?: string | null; // Defaults to the user's booking pool, if they have one
+  meetingTypeId?: string | null; // One of the user's meeting types; books the user, not a pool
   campaignId?: string;
   nodeId?: string;
   outboundMessageId?: string;
@@ -34,6 +39,13 @@ export interface BookingTokenContext {
     phone: string | null;
     company: string | null;
   };
+  pool?: {
+    id: string;
+    name: string;
+    mode: string;
+    meetingDurationMinutes: number;
+  };
+  meetingType?: MeetingType;
 }
 
 const DEFAULT_TOKEN_TTL_DAYS = 90;
@@ -59,6 +71,24 @@ export class BookingTokenService {
       throw new NotFoundError('Contact not found');
     }
 
+    if (input.meetingTypeId) {
+      const meetingType = await meetingTypeRepository.findByIdForTenant(
+        input.meetingTypeId,
+        input.tenantId
+      );
+      if (!meetingType || meetingType.userId !== input.userId || !meetingType.isActive) {
+        throw new NotFoundError('Meeting type not found');
+      }
+    }
+
+    // Meeting types are the rep's own events, so they never go to a pool
+    const poolId = input.meetingTypeId
+      ? null
+      : input.poolId === undefined
+        ? (await userScheduleSettingsRepository.findByUserForTenant(input.tenantId, input.userId))
+            ?.bookingPoolId
+        : input.poolId;
+
     const rawToken = this.generateRawToken();
     const tokenHash = this.hashToken(rawToken);
     const expiresAt =
@@ -66,6 +96,8 @@ export class BookingTokenService {
 
     const record = await scheduleBookingTokenRepository.createForTenant(input.tenantId, {
       userId: input.userId,
+      poolId: poolId ?? null,
+      meetingTypeId: input.meetingTypeId ?? null,
       leadId: input.leadId,
       contactId: input.contactId,
       tokenHash,
@@ -102,6 +134,13 @@ export class BookingTokenService {
       throw new NotFoundError('Contact not found');
     }
 
+    const pool = token.poolId
+      ? await schedulingPoolRepository.findByIdForTenant(token.poolId, token.tenantId)
+      : undefined;
+    const meetingType = token.meetingTypeId
+      ? await meetingTypeRepository.findByIdForTenant(token.meetingTypeId, token.tenantId)
+      : undefined;
+
     return {
       token,
       lead: {
@@ -116,9 +155,24 @@ export class BookingTokenService {
         phone: contact.phone,
         company: contact.company,
       },
+      pool: pool && {
+        id: pool.id,
+        name: pool.name,
+        mode: pool.mode,
+        meetingDurationMinutes: pool.meetingDurationMinutes,
+      },
+      meetingType,
     };
   }
 
+  /**
+   * Owner slot holds are keyed by. Team links hold slots for the whole pool, so two links
+   * to the same team can't hold one slot at once.
+   */
+  holdOwnerId(token: ScheduleBookingToken): string {
+    return token.poolId ?? token.userId;
+  }
+
   buildBookingUrl(rawToken: string): string {
     const origin = (FRONTEND_ORIGIN || process.env.API_URL || '').replace(/\/$/, '');
     if (!origin) {
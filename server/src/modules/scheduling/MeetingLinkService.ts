@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { FRONTEND_ORIGIN } from '@/config';
+import { NotFoundError } from '@/exceptions/error';
+
+export type MeetingLinkAction = 'reschedule' | 'cancel';
+
+export interface MeetingLinkTarget {
+  tenantId: string;
+  meetingId: string;
+}
+
+/**
+ * Signed links that let a prospect move or cancel a booked meeting without logging in.
+ * The token carries the tenant and meeting ids plus an HMAC over both, so it cannot be
+ * pointed at another meeting.
+ */
+export class MeetingLinkService {
+  private readonly secret: string;
+
+  constructor(secret: string | undefined) {
+    // An empty key would let anyone forge manage links, so refuse to start without one
+    if (!secret) {
+      throw new Error('SCHEDULING_LINK_SECRET or ENCRYPTION_KEY is required to sign meeting links');
+    }
+    this.secret = secret;
+  }
+
+  buildUrl(target: MeetingLinkTarget, action: MeetingLinkAction): string {
+    const origin = (FRONTEND_ORIGIN || process.env.API_URL || '').replace(/\/$/, '');
+    if (!origin) {
+      throw new Error('FRONTEND_ORIGIN or API_URL is required to build meeting links');
+    }
+
+    const token = encodeURIComponent(this.createToken(target));
+    return `${origin}/schedule/manage/${token}?action=${action}`;
+  }
+
+  createToken(target: MeetingLinkTarget): string {
+    return [target.tenantId, target.meetingId, this.sign(target)].join('.');
+  }
+
+  /**
+   * Reads a token back into its meeting. Any tampered or malformed token is reported as
+   * not found, like an unknown booking link.
+   */
+  verify(token: string): MeetingLinkTarget {
+    const [tenantId, meetingId, signature, ...rest] = token.split('.');
+    if (!tenantId || !meetingId || !signature || rest.length > 0) {
+      throw new NotFoundError('Meeting link not found');
+    }
+
+    const expected = Buffer.from(this.sign({ tenantId, meetingId }));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new NotFoundError('Meeting link not found');
+    }
+
+    return { tenantId, meetingId };
+  }
+
+  private sign(target: MeetingLinkTarget): string {
+    return createHmac('sha256', this.secret)
+      .update(['meeting', target.tenantId, target.meetingId].join('\n'))
+      .digest('base64url');
+  }
+}
+
+export const meetingLinkService = new MeetingLinkService(
+  process.env.SCHEDULING_LINK_SECRET || process.env.ENCRYPTION_KEY
+);
@@ -0,0 +1,170 @@
+import { createId } from '@paralleldrive/cuid2';
+import {
+  meetingTypeRepository,
+  scheduledActionRepository,
+  scheduledMeetingRepository,
+} from '@/repositories';
+import { ScheduledMeeting } from '@/db/schema';
+import { JOB_NAMES } from '@/constants/queues';
+import { logger } from '@/libs/logger';
+import { emailOrchestrator } from '@/libs/email/email.orchestrator';
+import {
+  CampaignExecutionPublisher,
+  type MeetingReminderJobPayload,
+} from '@/modules/messages/campaignExecution.publisher.service';
+import { meetingLinkService } from './MeetingLinkService';
+import { schedulingSettingsService } from './SchedulingSettingsService';
+
+export const REMINDER_OFFSETS_MINUTES = [24 * 60, 60];
+
+// Reminders due sooner than this after booking are skipped; the confirmation covers them
+const MIN_LEAD_MINUTES = 15;
+
+export type MeetingReminderResult =
+  | { sent: true }
+  | { sent: false; reason: 'meeting_not_found' | 'meeting_not_confirmed' | 'meeting_moved' };
+
+/**
+ * Emails the prospect before a booked meeting, 24 hours and 1 hour ahead. Each reminder
+ * is a scheduled action with a delayed job on the campaign execution queue; rescheduling
+ * or canceling the meeting replaces or drops them.
+ */
+export class MeetingReminderService {
+  async scheduleReminders(meeting: ScheduledMeeting, now = new Date()): Promise<void> {
+    try {
+      const settings = await schedulingSettingsService.getForUser(meeting.tenantId, meeting.userId);
+      if (!settings.remindersEnabled) return;
+
+      for (const offsetMinutes of REMINDER_OFFSETS_MINUTES) {
+        const sendAt = new Date(meeting.startTime.getTime() - offsetMinutes * 60 * 1000);
+        if (sendAt.getTime() - now.getTime() < MIN_LEAD_MINUTES * 60 * 1000) continue;
+
+        const jobId = `${JOB_NAMES.campaign_execution.meeting_reminder}_${meeting.id}_${sendAt.getTime()}`;
+        const action = await scheduledActionRepository.createForTenant(meeting.tenantId, {
+          campaignId: null, // Not part of the sequence, which stops once the meeting is booked
+          actionType: JOB_NAMES.campaign_execution.meeting_reminder,
+          scheduledAt: sendAt,
+          status: 'pending',
+          payload: { meetingId: meeting.id, offsetMinutes },
+          bullmqJobId: jobId,
+        });
+
+        await CampaignExecutionPublisher.publishMeetingReminder(
+          {
+            tenantId: meeting.tenantId,
+            meetingId: meeting.id,
+            scheduledActionId: action.id,
+            startTime: meeting.startTime.toISOString(),
+            offsetMinutes,
+          },
+          sendAt,
+          jobId
+        );
+      }
+    } catch (error) {
+      logger.error('[MeetingReminderService] Failed to schedule meeting reminders', {
+        tenantId: meeting.tenantId,
+        meetingId: meeting.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async cancelReminders(meeting: ScheduledMeeting): Promise<void> {
+    try {
+      await scheduledActionRepository.cancelPendingByMeetingForTenant(
+        meeting.tenantId,
+        JOB_NAMES.campaign_execution.meeting_reminder,
+        meeting.id
+      );
+    } catch (error) {
+      logger.error('[MeetingReminderService] Failed to cancel meeting reminders', {
+        tenantId: meeting.tenantId,
+        meetingId: meeting.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async sendReminder(payload: MeetingReminderJobPayload): Promise<MeetingReminderResult> {
+    const { tenantId, meetingId, scheduledActionId } = payload;
+    const meeting = await scheduledMeetingRepository.findByIdForTenant(meetingId, tenantId);
+
+    const skipReason = !meeting
+      ? 'meeting_not_found'
+      : meeting.status !== 'confirmed'
+        ? 'meeting_not_confirmed'
+        : meeting.startTime.toISOString() !== payload.startTime
+          ? 'meeting_moved' // Its reminders were rescheduled along with it
+          : null;
+    if (skipReason || !meeting) {
+      await scheduledActionRepository.updateByIdForTenant(scheduledActionId, tenantId, {
+        status: 'canceled',
+        updatedAt: new Date(),
+      });
+      return { sent: false, reason: skipReason ?? 'meeting_not_found' };
+    }
+
+    const contact = meeting.contactDetails as { name?: string; email?: string };
+    if (contact.email) {
+      await this.sendReminderEmail(meeting, contact.email, contact.name ?? '', payload);
+    }
+
+    await scheduledActionRepository.updateByIdForTenant(scheduledActionId, tenantId, {
+      status: 'completed',
+      updatedAt: new Date(),
+    });
+    return { sent: true };
+  }
+
+  private async sendReminderEmail(
+    meeting: ScheduledMeeting,
+    contactEmail: string,
+    contactName: string,
+    payload: MeetingReminderJobPayload
+  ): Promise<void> {
+    const settings = await schedulingSettingsService.getForUser(meeting.tenantId, meeting.userId);
+    const meetingType = meeting.meetingTypeId
+      ? await meetingTypeRepository.findByIdForTenant(meeting.meetingTypeId, meeting.tenantId)
+      : undefined;
+    const meetingName = meetingType?.name ?? 'sales demo';
+
+    const when = new Intl.DateTimeFormat('en-US', {
+      timeZone: settings.timezone,
+      dateStyle: 'full',
+      timeStyle: 'short',
+    }).format(meeting.startTime);
+    const summary =
+      payload.offsetMinutes >= 24 * 60
+        ? `This is a reminder that your ${meetingName} is tomorrow, ${when}.`
+        : `Your ${meetingName} starts in about an hour, at ${when}.`;
+
+    const calendarEventLink = (meeting.metadata as { calendarEventLink?: string })
+      .calendarEventLink;
+    const link = calendarEventLink
+      ? `<p><a href="${calendarEventLink}">Open calendar event</a></p>`
+      : '';
+    const target = { tenantId: meeting.tenantId, meetingId: meeting.id };
+    const rescheduleUrl = meetingLinkService.buildUrl(target, 'reschedule');
+    const cancelUrl = meetingLinkService.buildUrl(target, 'cancel');
+    const nodeId = `smart-scheduling-reminder-${payload.offsetMinutes}`;
+
+    await emailOrchestrator.sendEmail(meeting.userId, {
+      tenantId: meeting.tenantId,
+      campaignId: meeting.campaignId ?? meeting.id,
+      nodeId,
+      outboundMessageId: createId(),
+      dedupeKey: `${meeting.tenantId}:${contactEmail}:${payload.startTime}:${nodeId}`,
+      to: contactEmail,
+      subject:
+        payload.offsetMinutes >= 24 * 60
+          ? `Reminder: your ${meetingName} is tomorrow`
+          : `Starting soon: your ${meetingName}`,
+      html: `<p>Hi ${contactName},</p><p>${summary}</p>${link}<p>Can't make it? <a href="${rescheduleUrl}">Reschedule</a> or <a href="${cancelUrl}">cancel</a>.</p>`,
+      text: `Hi ${contactName},\n\n${summary}\n${calendarEventLink ?? ''}\n\nReschedule: ${rescheduleUrl}\nCancel: ${cancelUrl}`,
+      categories: ['smart-scheduling', `tenant:${meeting.tenantId}`],
+    });
+  }
+}
+
+export const meetingReminderService = new MeetingReminderService();
@@ -0,0 +1,213 @@
+import { meetingTypeRepository } from '@/repositories';
+import { BadRequestError, ConflictError, NotFoundError } from '@/exceptions/error';
+import { MeetingType, UserScheduleSetting } from '@/db/schema';
+import { logger } from '@/libs/logger';
+
+export const MEETING_LOCATION_TYPES = ['video', 'phone', 'in_person', 'custom'] as const;
+export type MeetingLocationType = (typeof MEETING_LOCATION_TYPES)[number];
+
+export interface MeetingTypeQuestion {
+  id: string;
+  label: string;
+  type: 'text' | 'long_text';
+  required: boolean;
+}
+
+export interface MeetingTypeInput {
+  name: string;
+  slug: string;
+  description?: string | null;
+  durationMinutes: number;
+  bufferBeforeMinutes?: number | null;
+  bufferAfterMinutes?: number | null;
+  locationType: MeetingLocationType;
+  location?: string | null;
+  questions?: MeetingTypeQuestion[];
+  isActive?: boolean;
+}
+
+export interface IntakeAnswer {
+  questionId: string;
+  question: string;
+  answer: string;
+}
+
+export const MEETING_TYPE_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const MAX_QUESTIONS = 10;
+const MAX_ANSWER_LENGTH = 2000;
+
+/**
+ * Bookable events a rep offers, e.g. a 15-minute intro or a 45-minute demo. A booking
+ * link issued for a type books that event's length, buffers and location on the rep's
+ * calendar and asks the type's intake questions.
+ */
+export class MeetingTypeService {
+  listForUser(tenantId: string, userId: string): Promise<MeetingType[]> {
+    return meetingTypeRepository.listByUserForTenant(tenantId, userId);
+  }
+
+  async getForUser(tenantId: string, userId: string, meetingTypeId: string): Promise<MeetingType> {
+    const meetingType = await meetingTypeRepository.findByIdForTenant(meetingTypeId, tenantId);
+    if (!meetingType || meetingType.userId !== userId) {
+      throw new NotFoundError(`Meeting type not found: ${meetingTypeId}`);
+    }
+    return meetingType;
+  }
+
+  /**
+   * Active type of the user with this slug, as campaign send nodes refer to them
+   */
+  async findActiveBySlug(
+    tenantId: string,
+    userId: string,
+    slug: string
+  ): Promise<MeetingType | undefined> {
+    const meetingType = await meetingTypeRepository.findBySlugForUser(tenantId, userId, slug);
+    return meetingType?.isActive ? meetingType : undefined;
+  }
+
+  async createForUser(
+    tenantId: string,
+    userId: string,
+    input: MeetingTypeInput
+  ): Promise<MeetingType> {
+    const values = await this.validate(tenantId, userId, input);
+    const meetingType = await meetingTypeRepository.createForTenant(tenantId, {
+      ...values,
+      userId,
+    });
+    logger.info('[MeetingTypeService] Meeting type created', {
+      tenantId,
+      userId,
+      meetingTypeId: meetingType.id,
+    });
+    return meetingType;
+  }
+
+  async updateForUser(
+    tenantId: string,
+    userId: string,
+    meetingTypeId: string,
+    input: MeetingTypeInput
+  ): Promise<MeetingType> {
+    await this.getForUser(tenantId, userId, meetingTypeId);
+    const values = await this.validate(tenantId, userId, input, meetingTypeId);
+
+    const meetingType = await meetingTypeRepository.updateByIdForTenant(meetingTypeId, tenantId, {
+      ...values,
+      updatedAt: new Date(),
+    });
+    return meetingType as MeetingType;
+  }
+
+  async deleteForUser(tenantId: string, userId: string, meetingTypeId: string): Promise<void> {
+    await this.getForUser(tenantId, userId, meetingTypeId);
+    await meetingTypeRepository.deleteByIdForTenant(meetingTypeId, tenantId);
+  }
+
+  /**
+   * The rep's scheduling settings with the type's length and buffers in place, for
+   * availability and booking
+   */
+  applyToSettings(
+    settings: UserScheduleSetting,
+    meetingType?: MeetingType | null
+  ): UserScheduleSetting {
+    if (!meetingType) return settings;
+    return {
+      ...settings,
+      meetingDurationMinutes: meetingType.durationMinutes,
+      bufferBeforeMinutes: meetingType.bufferBeforeMinutes ?? settings.bufferBeforeMinutes,
+      bufferAfterMinutes: meetingType.bufferAfterMinutes ?? settings.bufferAfterMinutes,
+    };
+  }
+
+  /**
+   * Checks a prospect's answers against the type's questions and pairs each with its
+   * question text, so the stored booking still reads correctly if the type changes later
+   */
+  collectAnswers(
+    meetingType: MeetingType | null | undefined,
+    answers: Record<string, string> = {}
+  ): IntakeAnswer[] {
+    const questions = (meetingType?.questions ?? []) as MeetingTypeQuestion[];
+
+    return questions.flatMap((question) => {
+      const answer = answers[question.id]?.trim() ?? '';
+      if (!answer) {
+        if (question.required) {
+          throw new BadRequestError(`Please answer "${question.label}"`);
+        }
+        return [];
+      }
+      return [
+        {
+          questionId: question.id,
+          question: question.label,
+          answer: answer.slice(0, MAX_ANSWER_LENGTH),
+        },
+      ];
+    });
+  }
+
+  private async validate(
+    tenantId: string,
+    userId: string,
+    input: MeetingTypeInput,
+    meetingTypeId?: string
+  ) {
+    const name = input.name.trim();
+    if (!name) {
+      throw new BadRequestError('Meeting type name is required');
+    }
+    if (!MEETING_TYPE_SLUG_PATTERN.test(input.slug)) {
+      throw new BadRequestError(
+        'Meeting type slugs may only use lowercase letters, numbers and single hyphens'
+      );
+    }
+    if (!MEETING_LOCATION_TYPES.includes(input.locationType)) {
+      throw new BadRequestError(`Unknown location type: ${input.locationType}`);
+    }
+    if (input.locationType !== 'video' && !input.location?.trim()) {
+      // Video meetings fall back to the calendar's own conferencing
+      throw new BadRequestError('Location details are required for this location type');
+    }
+
+    const questions = input.questions ?? [];
+    if (questions.length > MAX_QUESTIONS) {
+      throw new BadRequestError(`Meeting types can ask at most ${MAX_QUESTIONS} questions`);
+    }
+    if (new Set(questions.map((question) => question.id)).size !== questions.length) {
+      throw new BadRequestError('Question ids must be unique');
+    }
+    if (questions.some((question) => !question.id.trim() || !question.label.trim())) {
+      throw new BadRequestError('Every question needs an id and a label');
+    }
+
+    const existing = await meetingTypeRepository.findBySlugForUser(tenantId, userId, input.slug);
+    if (existing && existing.id !== meetingTypeId) {
+      throw new ConflictError(`You already have a meeting type with slug "${input.slug}"`);
+    }
+
+    return {
+      name,
+      slug: input.slug,
+      description: input.description?.trim() || null,
+      durationMinutes: input.durationMinutes,
+      bufferBeforeMinutes: input.bufferBeforeMinutes ?? null,
+      bufferAfterMinutes: input.bufferAfterMinutes ?? null,
+      locationType: input.locationType,
+      location: input.location?.trim() || null,
+      questions: questions.map((question) => ({
+        id: question.id.trim(),
+        label: question.label.trim(),
+        type: question.type === 'long_text' ? 'long_text' : 'text',
+        required: !!question.required,
+      })),
+      isActive: input.isActive ?? true,
+    };
+  }
+}
+
+export const meetingTypeService = new MeetingTypeService();
@@ -0,0 +1,131 @@
+import { contactCampaignRepository, meetingTypeRepository } from '@/repositories';
+import { ScheduledMeeting } from '@/db/schema';
+import { logger } from '@/libs/logger';
+import { CAMPAIGN_EVENT_TYPES } from '@/constants/campaign-events';
+import {
+  campaignPlanOutputSchema,
+  type CampaignPlanOutput,
+} from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { contactCampaignPlanService } from '@/modules/campaign/contactCampaignPlan.service';
+import { NoShowFollowUpSettings, schedulingSettingsService } from './SchedulingSettingsService';
+
+// How long the last email waits for a reply before the sequence ends
+const FINAL_REPLY_WINDOW = 'P5D';
+
+export type NoShowFollowUpResult =
+  | { started: true; campaignId: string }
+  | { started: false; reason: 'disabled' | 'no_contact' | 'campaign_running' };
+
+/**
+ * Re-engages prospects who missed their meeting. The rep's follow-up emails become the
+ * contact's campaign plan, each send carrying a fresh booking link; a reply ends it.
+ */
+export class NoShowFollowUpService {
+  async start(meeting: ScheduledMeeting, userId: string): Promise<NoShowFollowUpResult> {
+    const settings = await schedulingSettingsService.getForUser(meeting.tenantId, meeting.userId);
+    const followUp = schedulingSettingsService.getNoShowFollowUp(settings);
+    if (!followUp.enabled || followUp.steps.length === 0) {
+      return { started: false, reason: 'disabled' };
+    }
+    if (!meeting.contactId || !meeting.leadId) {
+      return { started: false, reason: 'no_contact' };
+    }
+
+    const existing = await contactCampaignRepository.findByContactForTenant(
+      meeting.tenantId,
+      meeting.contactId
+    );
+    if (existing && ['active', 'paused'].includes(existing.status)) {
+      // Someone already restarted outreach for this contact
+      return { started: false, reason: 'campaign_running' };
+    }
+
+    const meetingType = meeting.meetingTypeId
+      ? await meetingTypeRepository.findByIdForTenant(meeting.meetingTypeId, meeting.tenantId)
+      : undefined;
+    const plan = this.buildPlan(
+      followUp,
+      settings.timezone,
+      meetingType?.isActive ? meetingType.slug : undefined
+    );
+
+    const { campaignId } = await contactCampaignPlanService.persistPlan({
+      tenantId: meeting.tenantId,
+      leadId: meeting.leadId,
+      contactId: meeting.contactId,
+      userId,
+      plan,
+    });
+
+    // The contact keeps a single campaign row; send it back through a fresh start
+    const campaign = await contactCampaignRepository.findByIdForTenant(
+      campaignId,
+      meeting.tenantId
+    );
+    await contactCampaignRepository.updateByIdForTenant(campaignId, meeting.tenantId, {
+      status: 'draft',
+      currentNodeId: (campaign?.planJson as CampaignPlanOutput | undefined)?.startNodeId,
+      completedAt: null,
+      updatedAt: new Date(),
+    });
+    await campaignPlanExecutionService.handleManuallyReviewedExecution(
+      meeting.tenantId,
+      meeting.contactId,
+      meeting.leadId,
+      'no_show_follow_up'
+    );
+
+    logger.info('[NoShowFollowUpService] No-show follow-up started', {
+      tenantId: meeting.tenantId,
+      meetingId: meeting.id,
+      campaignId,
+      steps: followUp.steps.length,
+    });
+    return { started: true, campaignId };
+  }
+
+  /**
+   * One email per step; each waits its delay for a reply before the next goes out
+   */
+  buildPlan(
+    followUp: NoShowFollowUpSettings,
+    timezone: string,
+    meetingTypeSlug?: string
+  ): CampaignPlanOutput {
+    const steps = followUp.steps;
+    const nodeId = (index: number) => `no_show_email_${index + 1}`;
+
+    const nodes = steps.map((step, index) => {
+      const next = steps[index + 1];
+      return {
+        id: nodeId(index),
+        channel: 'email' as const,
+        action: 'send' as const,
+        subject: step.subject,
+        body: step.body,
+        ...(meetingTypeSlug ? { meetingType: meetingTypeSlug } : {}),
+        bookingLink: true,
+        schedule: { delay: index === 0 ? `PT${step.delayHours}H` : 'PT0S' },
+        transitions: [
+          next
+            ? {
+                on: CAMPAIGN_EVENT_TYPES.NO_REPLY,
+                to: nodeId(index + 1),
+                after: `PT${next.delayHours}H`,
+              }
+            : { on: CAMPAIGN_EVENT_TYPES.NO_REPLY, to: 'stop', after: FINAL_REPLY_WINDOW },
+        ],
+      };
+    });
+
+    return campaignPlanOutputSchema.parse({
+      version: '1.0',
+      timezone,
+      startNodeId: nodeId(0),
+      nodes: [...nodes, { id: 'stop', channel: 'email', action: 'stop' }],
+    });
+  }
+}
+
+export const noShowFollowUpService = new NoShowFollowUpService();
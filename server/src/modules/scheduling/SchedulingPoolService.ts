@@ -0,0 +1,200 @@
+import {
+  schedulingPoolMemberRepository,
+  schedulingPoolRepository,
+  scheduledMeetingRepository,
+  userTenantRepository,
+  type SchedulingPoolMemberWithUser,
+} from '@/repositories';
+import { BadRequestError, ConflictError, NotFoundError } from '@/exceptions/error';
+import { SchedulingPool } from '@/db/schema';
+import { logger } from '@/libs/logger';
+
+export const SCHEDULING_POOL_MODES = ['round_robin', 'collective'] as const;
+export type SchedulingPoolMode = (typeof SCHEDULING_POOL_MODES)[number];
+
+export const POOL_ASSIGNMENT_STRATEGIES = [
+  'round_robin',
+  'least_recently_booked',
+  'owner_first',
+] as const;
+export type PoolAssignmentStrategy = (typeof POOL_ASSIGNMENT_STRATEGIES)[number];
+
+export interface SchedulingPoolInput {
+  name: string;
+  mode: SchedulingPoolMode;
+  assignmentStrategy: PoolAssignmentStrategy;
+  meetingDurationMinutes: number;
+  memberIds: string[]; // In rotation order
+}
+
+export interface SchedulingPoolWithMembers extends SchedulingPool {
+  members: SchedulingPoolMemberWithUser[];
+}
+
+/**
+ * Team scheduling pools. A booking link issued for a pool offers the team's combined
+ * availability; round-robin pools then pick one host per meeting, collective pools
+ * invite every member.
+ */
+export class SchedulingPoolService {
+  async listPools(tenantId: string): Promise<SchedulingPoolWithMembers[]> {
+    const pools = await schedulingPoolRepository.listForTenant(tenantId);
+    const members = await schedulingPoolMemberRepository.listByPoolsForTenant(
+      tenantId,
+      pools.map((pool) => pool.id)
+    );
+    return pools.map((pool) => ({
+      ...pool,
+      members: members.filter((member) => member.poolId === pool.id),
+    }));
+  }
+
+  async getPool(tenantId: string, poolId: string): Promise<SchedulingPoolWithMembers> {
+    const pool = await schedulingPoolRepository.findByIdForTenant(poolId, tenantId);
+    if (!pool) {
+      throw new NotFoundError(`Scheduling pool not found: ${poolId}`);
+    }
+    const members = await schedulingPoolMemberRepository.listByPoolsForTenant(tenantId, [poolId]);
+    return { ...pool, members };
+  }
+
+  async createPool(
+    tenantId: string,
+    input: SchedulingPoolInput
+  ): Promise<SchedulingPoolWithMembers> {
+    await this.validate(tenantId, input);
+
+    const pool = await schedulingPoolRepository.createForTenant(tenantId, {
+      name: input.name.trim(),
+      mode: input.mode,
+      assignmentStrategy: input.assignmentStrategy,
+      meetingDurationMinutes: input.meetingDurationMinutes,
+    });
+    await schedulingPoolMemberRepository.replaceForPool(tenantId, pool.id, input.memberIds);
+    logger.info('[SchedulingPoolService] Pool created', { tenantId, poolId: pool.id });
+    return await this.getPool(tenantId, pool.id);
+  }
+
+  async updatePool(
+    tenantId: string,
+    poolId: string,
+    input: SchedulingPoolInput
+  ): Promise<SchedulingPoolWithMembers> {
+    await this.getPool(tenantId, poolId);
+    await this.validate(tenantId, input, poolId);
+
+    await schedulingPoolRepository.updateByIdForTenant(poolId, tenantId, {
+      name: input.name.trim(),
+      mode: input.mode,
+      assignmentStrategy: input.assignmentStrategy,
+      meetingDurationMinutes: input.meetingDurationMinutes,
+      updatedAt: new Date(),
+    });
+    await schedulingPoolMemberRepository.replaceForPool(tenantId, poolId, input.memberIds);
+    return await this.getPool(tenantId, poolId);
+  }
+
+  async deletePool(tenantId: string, poolId: string): Promise<void> {
+    const deleted = await schedulingPoolRepository.deleteByIdForTenant(poolId, tenantId);
+    if (!deleted) {
+      throw new NotFoundError(`Scheduling pool not found: ${poolId}`);
+    }
+  }
+
+  /**
+   * Picks the host of a round-robin booking from the members free for the slot.
+   * `owner_first` gives the lead owner the meeting when they are free and otherwise
+   * falls back to the rotation.
+   */
+  async chooseHost(
+    pool: SchedulingPoolWithMembers,
+    candidateIds: string[],
+    leadOwnerId?: string | null
+  ): Promise<string> {
+    const ordered = pool.members
+      .map((member) => member.userId)
+      .filter((userId) => candidateIds.includes(userId));
+    if (ordered.length === 0) {
+      throw new ConflictError('Selected slot is no longer available');
+    }
+
+    if (pool.assignmentStrategy === 'owner_first' && leadOwnerId && ordered.includes(leadOwnerId)) {
+      return leadOwnerId;
+    }
+
+    if (pool.assignmentStrategy === 'least_recently_booked') {
+      const lastBooked = await scheduledMeetingRepository.findLastBookedAtByUsers(
+        pool.tenantId,
+        pool.id,
+        ordered
+      );
+      // Never-booked members go first; ties keep the rotation order
+      return ordered.reduce((best, userId) =>
+        (lastBooked.get(userId)?.getTime() ?? 0) < (lastBooked.get(best)?.getTime() ?? 0)
+          ? userId
+          : best
+      );
+    }
+
+    return this.nextInRotation(pool, ordered);
+  }
+
+  async recordAssignment(tenantId: string, poolId: string, userId: string): Promise<void> {
+    await schedulingPoolRepository.updateByIdForTenant(poolId, tenantId, {
+      lastAssignedUserId: userId,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * First free member after the last one assigned, wrapping around the member list
+   */
+  private nextInRotation(pool: SchedulingPoolWithMembers, freeIds: string[]): string {
+    const memberIds = pool.members.map((member) => member.userId);
+    const lastIndex = pool.lastAssignedUserId ? memberIds.indexOf(pool.lastAssignedUserId) : -1;
+    const rotation = [...memberIds.slice(lastIndex + 1), ...memberIds.slice(0, lastIndex + 1)];
+    return rotation.find((userId) => freeIds.includes(userId)) ?? (freeIds[0] as string);
+  }
+
+  private async validate(
+    tenantId: string,
+    input: SchedulingPoolInput,
+    poolId?: string
+  ): Promise<void> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new BadRequestError('Pool name is required');
+    }
+    if (!SCHEDULING_POOL_MODES.includes(input.mode)) {
+      throw new BadRequestError(`Unknown pool mode: ${input.mode}`);
+    }
+    if (!POOL_ASSIGNMENT_STRATEGIES.includes(input.assignmentStrategy)) {
+      throw new BadRequestError(`Unknown assignment strategy: ${input.assignmentStrategy}`);
+    }
+    if (new Set(input.memberIds).size !== input.memberIds.length) {
+      throw new BadRequestError('Pool members must be unique');
+    }
+    if (input.memberIds.length < (input.mode === 'collective' ? 2 : 1)) {
+      throw new BadRequestError(
+        input.mode === 'collective'
+          ? 'Collective pools need at least two members'
+          : 'Pools need at least one member'
+      );
+    }
+
+    const tenantUserIds = new Set(
+      (await userTenantRepository.findUsersWithDetailsForTenant(tenantId)).map((u) => u.userId)
+    );
+    const unknown = input.memberIds.filter((userId) => !tenantUserIds.has(userId));
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Users are not part of this organization: ${unknown.join(', ')}`);
+    }
+
+    const existing = await schedulingPoolRepository.findByNameForTenant(tenantId, name);
+    if (existing && existing.id !== poolId) {
+      throw new ConflictError(`A pool named "${name}" already exists`);
+    }
+  }
+}
+
+export const schedulingPoolService = new SchedulingPoolService();
@@ -1,19 +1,33 @@
 import { createId } from '@paralleldrive/cuid2';
 import {
+  calendarConnectionRepository,
   contactCampaignRepository,
+  meetingTypeRepository,
   scheduleBookingTokenRepository,
   scheduledActionRepository,
+  scheduledMeetingHistoryRepository,
   scheduledMeetingRepository,
 } from '@/repositories';
-import { ConflictError, ServiceUnavailableError } from '@/exceptions/error';
-import { ScheduledMeeting } from '@/db/schema';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from '@/exceptions/error';
+import { CalendarConnection, MeetingType, ScheduledMeeting } from '@/db/schema';
 import { logger } from '@/libs/logger';
 import { emailOrchestrator } from '@/libs/email/email.orchestrator';
+import { pipelineService } from '@/modules/pipeline';
 import { calendarConnectionService } from './calendar/CalendarConnectionService';
 import { calendarProviderFactory } from './calendar/CalendarProviderFactory';
-import { availabilityService } from './AvailabilityService';
-import { bookingTokenService } from './BookingTokenService';
+import { availabilityService, AvailabilityResponse } from './AvailabilityService';
+import { bookingTokenService, BookingTokenContext } from './BookingTokenService';
 import { lockService } from './LockService';
+import { meetingLinkService } from './MeetingLinkService';
+import { meetingReminderService } from './MeetingReminderService';
+import { IntakeAnswer, meetingTypeService } from './MeetingTypeService';
+import { noShowFollowUpService } from './NoShowFollowUpService';
+import { schedulingPoolService } from './SchedulingPoolService';
 import { schedulingSettingsService } from './SchedulingSettingsService';
 
 export interface ConfirmBookingInput {
@@ -24,6 +38,7 @@ export interface ConfirmBookingInput {
     name: string;
     email: string;
     phone?: string;
+    answers?: Record<string, string>; // Intake answers by question id
   };
 }
 
@@ -32,34 +47,47 @@ export interface ConfirmBookingResult {
   calendarEventLink?: string;
 }
 
+export interface ManagedMeetingContext {
+  meeting: ScheduledMeeting;
+  timezone: string;
+}
+
+export type MeetingOutcome = 'held' | 'no_show';
+
+export interface MeetingOutcomeResult {
+  meeting: ScheduledMeeting;
+  followUpStarted: boolean;
+}
+
+type MeetingHistoryEvent = 'booked' | 'rescheduled' | 'canceled' | MeetingOutcome;
+
+interface HostAssignment {
+  hostId: string;
+  guests: Array<{ userId: string; email: string; name?: string }>; // Other pool members invited
+  durationMinutes: number;
+}
+
 export class SchedulingService {
   async confirmBooking(input: ConfirmBookingInput): Promise<ConfirmBookingResult> {
     const context = await bookingTokenService.resolve(input.token);
     const slotStart = new Date(input.slot);
-    const settings = await schedulingSettingsService.getForUser(
-      context.token.tenantId,
-      context.token.userId
-    );
-    const slotEnd = availabilityService.addMinutes(slotStart, settings.meetingDurationMinutes);
+    const holdOwnerId = bookingTokenService.holdOwnerId(context.token);
 
-    await lockService.validate(input.holdId, context.token.userId, input.slot);
+    await lockService.validate(input.holdId, holdOwnerId, input.slot);
 
     try {
-      const localDate = this.formatDateInTimezone(slotStart, settings.timezone);
-      const availability = await availabilityService.getAvailability({
-        tenantId: context.token.tenantId,
-        userId: context.token.userId,
-        startDate: localDate,
-        endDate: localDate,
-      });
-
-      if (!availabilityService.isSlotAvailable(slotStart, availability.availableSlots)) {
-        throw new ConflictError('Selected slot is no longer available');
-      }
+      const { answers: rawAnswers, ...contactDetails } = input.contactDetails;
+      const answers = meetingTypeService.collectAnswers(context.meetingType, rawAnswers);
+      const assignment = await this.assignHosts(context, slotStart);
+      const settings = await schedulingSettingsService.getForUser(
+        context.token.tenantId,
+        assignment.hostId
+      );
+      const slotEnd = availabilityService.addMinutes(slotStart, assignment.durationMinutes);
 
-      const connection = await calendarConnectionService.getActiveConnection(
+      const connection = await calendarConnectionService.getBookingConnection(
         context.token.tenantId,
-        context.token.userId
+        assignment.hostId
       );
       if (!connection) {
         throw new ServiceUnavailableError('No scheduling calendar connected');
@@ -71,18 +99,24 @@ export class SchedulingService {
         start: slotStart,
         end: slotEnd,
         timezone: settings.timezone,
-        title: `Sales Demo - ${context.contact.company || context.lead.name || context.contact.name}`,
-        description: `Booked from DripIQ Smart Scheduling for ${context.contact.name}.`,
+        title: `${context.meetingType?.name ?? 'Sales Demo'} - ${context.contact.company || context.lead.name || context.contact.name}`,
+        description: this.buildEventDescription(context, answers),
+        location: context.meetingType?.location ?? undefined,
+        addConferencing:
+          context.meetingType?.locationType === 'video' && !context.meetingType.location,
         attendees: [
           {
             email: input.contactDetails.email,
             name: input.contactDetails.name,
           },
+          ...assignment.guests,
         ],
       });
 
       const meeting = await scheduledMeetingRepository.createConfirmed(context.token.tenantId, {
-        userId: context.token.userId,
+        userId: assignment.hostId,
+        poolId: context.token.poolId,
+        meetingTypeId: context.meetingType?.id ?? null,
         leadId: context.token.leadId,
         contactId: context.token.contactId,
         bookingTokenId: context.token.id,
@@ -92,20 +126,32 @@ export class SchedulingService {
         endTime: slotEnd,
         calendarEventId: event.id || createId(),
         provider: connection.provider,
-        contactDetails: input.contactDetails,
+        contactDetails: answers.length > 0 ? { ...contactDetails, answers } : contactDetails,
         metadata: {
           calendarEventLink: event.htmlLink,
           nodeId: context.token.nodeId,
           outboundMessageId: context.token.outboundMessageId,
+          ...(assignment.guests.length > 0
+            ? { attendeeUserIds: assignment.guests.map((guest) => guest.userId) }
+            : {}),
         },
         createdAt: new Date(),
         updatedAt: new Date(),
       });
 
       await scheduleBookingTokenRepository.markUsed(context.token.id, context.token.tenantId);
+      if (context.pool?.mode === 'round_robin') {
+        await schedulingPoolService.recordAssignment(
+          context.token.tenantId,
+          context.pool.id,
+          assignment.hostId
+        );
+      }
+      await this.recordHistory(meeting, 'booked', null, 'prospect');
       await this.sendConfirmationEmail({
         tenantId: context.token.tenantId,
-        userId: context.token.userId,
+        userId: assignment.hostId,
+        meetingId: meeting.id,
         campaignId: context.token.campaignId ?? meeting.id,
         contactName: input.contactDetails.name,
         contactEmail: input.contactDetails.email,
@@ -114,14 +160,20 @@ export class SchedulingService {
         timezone: settings.timezone,
         calendarEventLink: event.htmlLink,
       });
+      await meetingReminderService.scheduleReminders(meeting);
       await this.stopActiveSequence(context.token.tenantId, context.token.contactId);
+      await pipelineService.advanceOnEvent(
+        context.token.tenantId,
+        context.token.leadId,
+        'meeting_booked'
+      );
 
       return {
         meeting,
         calendarEventLink: event.htmlLink,
       };
     } catch (error) {
-      await lockService.release(context.token.userId, input.slot, input.holdId);
+      await lockService.release(holdOwnerId, input.slot, input.holdId);
       logger.warn('[SchedulingService] Booking confirmation failed', {
         tenantId: context.token.tenantId,
         userId: context.token.userId,
@@ -133,6 +185,399 @@ export class SchedulingService {
     }
   }
 
+  /**
+   * Who hosts a booking in the chosen slot. Personal links book the rep who sent them;
+   * team links take any pool member free for the slot (or, for collective pools, the
+   * first member as host with the rest invited).
+   */
+  private async assignHosts(
+    context: BookingTokenContext,
+    slotStart: Date
+  ): Promise<HostAssignment> {
+    const { tenantId, userId, poolId } = context.token;
+    const settings = await schedulingSettingsService.getForUser(tenantId, userId);
+    const localDate = this.formatDateInTimezone(slotStart, settings.timezone);
+
+    if (!poolId) {
+      const availability = await availabilityService.getAvailability({
+        tenantId,
+        userId,
+        startDate: localDate,
+        endDate: localDate,
+        meetingType: context.meetingType,
+      });
+      if (!availabilityService.isSlotAvailable(slotStart, availability.availableSlots)) {
+        throw new ConflictError('Selected slot is no longer available');
+      }
+      return {
+        hostId: userId,
+        guests: [],
+        durationMinutes: context.meetingType?.durationMinutes ?? settings.meetingDurationMinutes,
+      };
+    }
+
+    const pool = await schedulingPoolService.getPool(tenantId, poolId);
+    // Members may be a day ahead of or behind the sender, so look one day either side
+    const availability = await availabilityService.getPoolAvailability({
+      tenantId,
+      poolId,
+      startDate: this.formatDateInTimezone(
+        availabilityService.addMinutes(slotStart, -24 * 60),
+        settings.timezone
+      ),
+      endDate: this.formatDateInTimezone(
+        availabilityService.addMinutes(slotStart, 24 * 60),
+        settings.timezone
+      ),
+      timezone: settings.timezone,
+    });
+    const candidateIds = availability.hostsBySlot[slotStart.toISOString()] ?? [];
+    if (candidateIds.length === 0) {
+      throw new ConflictError('Selected slot is no longer available');
+    }
+
+    const toGuest = (memberId: string) => {
+      const member = pool.members.find((m) => m.userId === memberId);
+      return {
+        userId: memberId,
+        email: member?.userEmail ?? '',
+        name: member?.userName ?? undefined,
+      };
+    };
+    if (pool.mode === 'collective') {
+      const [hostId, ...guestIds] = candidateIds as [string, ...string[]];
+      return {
+        hostId,
+        guests: guestIds.map(toGuest),
+        durationMinutes: pool.meetingDurationMinutes,
+      };
+    }
+
+    const hostId = await schedulingPoolService.chooseHost(pool, candidateIds, userId);
+    return { hostId, guests: [], durationMinutes: pool.meetingDurationMinutes };
+  }
+
+  private buildEventDescription(context: BookingTokenContext, answers: IntakeAnswer[]): string {
+    const lines = [`Booked from DripIQ Smart Scheduling for ${context.contact.name}.`];
+    if (context.meetingType?.description) {
+      lines.push('', context.meetingType.description);
+    }
+    for (const { question, answer } of answers) {
+      lines.push('', question, answer);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Meeting behind a signed manage link, with the rep's timezone for display
+   */
+  async getManagedMeeting(token: string): Promise<ManagedMeetingContext> {
+    const meeting = await this.findMeetingByLink(token);
+    const settings = await schedulingSettingsService.getForUser(meeting.tenantId, meeting.userId);
+    return { meeting, timezone: settings.timezone };
+  }
+
+  async getRescheduleAvailability(
+    token: string,
+    startDate: string,
+    endDate: string
+  ): Promise<AvailabilityResponse> {
+    const meeting = await this.findChangeableMeeting(token);
+    const settings = await schedulingSettingsService.getForUser(meeting.tenantId, meeting.userId);
+    return await this.getMeetingAvailability(meeting, startDate, endDate, settings.timezone);
+  }
+
+  /**
+   * Moves a booked meeting to another open slot of the same rep (and, for collective pool
+   * meetings, of every invited member), keeping its length. The calendar event is updated
+   * in place, so attendees get an update rather than a new invite.
+   */
+  async rescheduleMeeting(token: string, slot: string): Promise<ManagedMeetingContext> {
+    const meeting = await this.findChangeableMeeting(token);
+    const slotStart = new Date(slot);
+    if (slotStart.getTime() === meeting.startTime.getTime()) {
+      throw new BadRequestError('The meeting is already booked for this time');
+    }
+    const slotEnd = new Date(
+      slotStart.getTime() + (meeting.endTime.getTime() - meeting.startTime.getTime())
+    );
+    const settings = await schedulingSettingsService.getForUser(meeting.tenantId, meeting.userId);
+
+    const hold = await lockService.hold({
+      tenantId: meeting.tenantId,
+      userId: meeting.userId,
+      tokenId: meeting.id,
+      slot,
+    });
+
+    try {
+      // Collective attendees may be a day ahead of or behind the host, so look one day either side
+      const availability = await this.getMeetingAvailability(
+        meeting,
+        this.formatDateInTimezone(
+          availabilityService.addMinutes(slotStart, -24 * 60),
+          settings.timezone
+        ),
+        this.formatDateInTimezone(
+          availabilityService.addMinutes(slotStart, 24 * 60),
+          settings.timezone
+        ),
+        settings.timezone
+      );
+      if (!availabilityService.isSlotAvailable(slotStart, availability.availableSlots)) {
+        throw new ConflictError('Selected slot is no longer available');
+      }
+
+      const connection = await this.getMeetingConnection(meeting);
+      const event = await calendarProviderFactory.create(connection).updateEvent({
+        calendarId: connection.providerCalendarId,
+        eventId: meeting.calendarEventId ?? '',
+        start: slotStart,
+        end: slotEnd,
+        timezone: settings.timezone,
+      });
+
+      const metadata = meeting.metadata as Record<string, unknown>;
+      const updated = (await scheduledMeetingRepository.updateByIdForTenant(
+        meeting.id,
+        meeting.tenantId,
+        {
+          startTime: slotStart,
+          endTime: slotEnd,
+          metadata: {
+            ...metadata,
+            calendarEventLink: event.htmlLink ?? metadata.calendarEventLink,
+          },
+          updatedAt: new Date(),
+        }
+      )) as ScheduledMeeting;
+      await this.recordHistory(updated, 'rescheduled', meeting.status, 'prospect', {
+        previousStartTime: meeting.startTime,
+      });
+      await meetingReminderService.cancelReminders(meeting);
+      await meetingReminderService.scheduleReminders(updated);
+
+      const contact = meeting.contactDetails as { name?: string; email?: string };
+      if (contact.email) {
+        await this.sendConfirmationEmail({
+          tenantId: meeting.tenantId,
+          userId: meeting.userId,
+          meetingId: meeting.id,
+          campaignId: meeting.campaignId ?? meeting.id,
+          contactName: contact.name ?? '',
+          contactEmail: contact.email,
+          start: slotStart,
+          end: slotEnd,
+          timezone: settings.timezone,
+          calendarEventLink: event.htmlLink,
+          rescheduled: true,
+        });
+      }
+
+      logger.info('[SchedulingService] Meeting rescheduled', {
+        tenantId: meeting.tenantId,
+        meetingId: meeting.id,
+        from: meeting.startTime.toISOString(),
+        to: slotStart.toISOString(),
+      });
+      return { meeting: updated, timezone: settings.timezone };
+    } finally {
+      await lockService.release(meeting.userId, slot, hold.holdId);
+    }
+  }
+
+  /**
+   * Cancels a booked meeting for the prospect and removes it from the rep's calendar.
+   * The contact's sequence stays stopped; the rep decides how to follow up.
+   */
+  async cancelMeeting(token: string, reason?: string): Promise<ManagedMeetingContext> {
+    const meeting = await this.findChangeableMeeting(token);
+    const connection = await this.getMeetingConnection(meeting);
+    const settings = await schedulingSettingsService.getForUser(meeting.tenantId, meeting.userId);
+
+    await calendarProviderFactory.create(connection).deleteEvent({
+      calendarId: connection.providerCalendarId,
+      eventId: meeting.calendarEventId ?? '',
+      comment: reason,
+    });
+
+    const canceled = (await scheduledMeetingRepository.cancel(meeting.tenantId, meeting.id, {
+      ...(meeting.metadata as Record<string, unknown>),
+      canceledBy: 'prospect',
+    })) as ScheduledMeeting;
+    await this.recordHistory(canceled, 'canceled', meeting.status, 'prospect', {
+      reason: reason?.trim() || null,
+    });
+    await meetingReminderService.cancelReminders(meeting);
+
+    logger.info('[SchedulingService] Meeting canceled', {
+      tenantId: meeting.tenantId,
+      meetingId: meeting.id,
+    });
+    return { meeting: canceled, timezone: settings.timezone };
+  }
+
+  /**
+   * Host's record of whether a meeting took place. A no-show starts their re-engagement
+   * sequence for the contact, unless they turned it off.
+   */
+  async recordOutcome(
+    tenantId: string,
+    userId: string,
+    meetingId: string,
+    outcome: MeetingOutcome
+  ): Promise<MeetingOutcomeResult> {
+    const meeting = await scheduledMeetingRepository.findByIdForTenant(meetingId, tenantId);
+    if (!meeting || meeting.userId !== userId) {
+      throw new NotFoundError(`Meeting not found: ${meetingId}`);
+    }
+    if (meeting.status !== 'confirmed') {
+      throw new ConflictError(`This meeting is already marked ${meeting.status.replace('_', '-')}`);
+    }
+    if (meeting.startTime.getTime() > Date.now()) {
+      throw new BadRequestError('This meeting has not started yet');
+    }
+
+    const updated = (await scheduledMeetingRepository.updateByIdForTenant(meetingId, tenantId, {
+      status: outcome,
+      updatedAt: new Date(),
+    })) as ScheduledMeeting;
+    await this.recordHistory(updated, outcome, meeting.status, 'user');
+    await meetingReminderService.cancelReminders(meeting);
+
+    let followUpStarted = false;
+    if (outcome === 'no_show') {
+      try {
+        const result = await noShowFollowUpService.start(updated, userId);
+        followUpStarted = result.started;
+      } catch (error) {
+        logger.error('[SchedulingService] Failed to start no-show follow-up', {
+          tenantId,
+          meetingId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    logger.info('[SchedulingService] Meeting outcome recorded', {
+      tenantId,
+      meetingId,
+      outcome,
+      followUpStarted,
+    });
+    return { meeting: updated, followUpStarted };
+  }
+
+  /**
+   * The user's meetings starting within the window, e.g. to mark held or no-show
+   */
+  async listMeetings(
+    tenantId: string,
+    userId: string,
+    start: Date,
+    end: Date
+  ): Promise<ScheduledMeeting[]> {
+    return await scheduledMeetingRepository.findByUserInRange(tenantId, userId, start, end);
+  }
+
+  private async findMeetingByLink(token: string): Promise<ScheduledMeeting> {
+    const { tenantId, meetingId } = meetingLinkService.verify(token);
+    const meeting = await scheduledMeetingRepository.findByIdForTenant(meetingId, tenantId);
+    if (!meeting) {
+      throw new NotFoundError('Meeting link not found');
+    }
+    return meeting;
+  }
+
+  /**
+   * Meeting behind a manage link that can still be moved or canceled
+   */
+  private async findChangeableMeeting(token: string): Promise<ScheduledMeeting> {
+    const meeting = await this.findMeetingByLink(token);
+    if (meeting.status === 'canceled') {
+      throw new ConflictError('This meeting has already been canceled');
+    }
+    if (meeting.startTime.getTime() <= Date.now()) {
+      throw new BadRequestError('This meeting has already started');
+    }
+    return meeting;
+  }
+
+  /**
+   * Open slots a booked meeting can move to. Collective pool meetings need the host and
+   * every invited member free; the meeting's own calendar event never blocks a slot.
+   */
+  private async getMeetingAvailability(
+    meeting: ScheduledMeeting,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<AvailabilityResponse> {
+    const { attendeeUserIds = [] } = meeting.metadata as { attendeeUserIds?: string[] };
+    const ignoreEventId = meeting.calendarEventId ?? undefined;
+
+    if (meeting.poolId && attendeeUserIds.length > 0) {
+      const { hostsBySlot: _hostsBySlot, ...availability } =
+        await availabilityService.getPoolAvailability({
+          tenantId: meeting.tenantId,
+          poolId: meeting.poolId,
+          startDate,
+          endDate,
+          timezone,
+          userIds: [meeting.userId, ...attendeeUserIds],
+          ignoreEventId,
+        });
+      return availability;
+    }
+
+    return await availabilityService.getAvailability({
+      tenantId: meeting.tenantId,
+      userId: meeting.userId,
+      startDate,
+      endDate,
+      meetingType: await this.findMeetingType(meeting),
+      ignoreEventId,
+    });
+  }
+
+  private async findMeetingType(meeting: ScheduledMeeting): Promise<MeetingType | undefined> {
+    return meeting.meetingTypeId
+      ? await meetingTypeRepository.findByIdForTenant(meeting.meetingTypeId, meeting.tenantId)
+      : undefined;
+  }
+
+  private async getMeetingConnection(meeting: ScheduledMeeting): Promise<CalendarConnection> {
+    const connection = meeting.calendarConnectionId
+      ? await calendarConnectionRepository.findByIdForTenant(
+          meeting.calendarConnectionId,
+          meeting.tenantId
+        )
+      : undefined;
+    if (!connection?.isActive) {
+      throw new ServiceUnavailableError('The calendar holding this meeting is no longer connected');
+    }
+    return connection;
+  }
+
+  private async recordHistory(
+    meeting: ScheduledMeeting,
+    event: MeetingHistoryEvent,
+    fromStatus: string | null,
+    actor: 'prospect' | 'user' | 'system',
+    details: { previousStartTime?: Date; reason?: string | null } = {}
+  ): Promise<void> {
+    await scheduledMeetingHistoryRepository.createForTenant(meeting.tenantId, {
+      meetingId: meeting.id,
+      event,
+      fromStatus,
+      toStatus: meeting.status,
+      startTime: meeting.startTime,
+      previousStartTime: details.previousStartTime,
+      actor,
+      reason: details.reason,
+    });
+  }
+
   private formatDateInTimezone(date: Date, timezone: string): string {
     const parts = new Intl.DateTimeFormat('en-CA', {
       timeZone: timezone,
@@ -147,6 +592,7 @@ export class SchedulingService {
   private async sendConfirmationEmail(input: {
     tenantId: string;
     userId: string;
+    meetingId: string;
     campaignId: string;
     contactName: string;
     contactEmail: string;
@@ -154,6 +600,7 @@ export class SchedulingService {
     end: Date;
     timezone: string;
     calendarEventLink?: string;
+    rescheduled?: boolean;
   }): Promise<void> {
     try {
       const when = new Intl.DateTimeFormat('en-US', {
@@ -165,17 +612,27 @@ export class SchedulingService {
       const link = input.calendarEventLink
         ? `<p><a href="${input.calendarEventLink}">Open calendar event</a></p>`
         : '';
+      const target = { tenantId: input.tenantId, meetingId: input.meetingId };
+      const rescheduleUrl = meetingLinkService.buildUrl(target, 'reschedule');
+      const cancelUrl = meetingLinkService.buildUrl(target, 'cancel');
+      const manageLinks = `<p>Need a different time? <a href="${rescheduleUrl}">Reschedule</a> or <a href="${cancelUrl}">cancel</a>.</p>`;
+      const nodeId = input.rescheduled
+        ? 'smart-scheduling-reschedule'
+        : 'smart-scheduling-confirmation';
+      const summary = input.rescheduled
+        ? `Your sales demo has been moved to ${when}.`
+        : `Your sales demo is booked for ${when}.`;
 
       await emailOrchestrator.sendEmail(input.userId, {
         tenantId: input.tenantId,
         campaignId: input.campaignId,
-        nodeId: 'smart-scheduling-confirmation',
+        nodeId,
         outboundMessageId,
-        dedupeKey: `${input.tenantId}:${input.contactEmail}:${input.start.toISOString()}:smart-scheduling-confirmation`,
+        dedupeKey: `${input.tenantId}:${input.contactEmail}:${input.start.toISOString()}:${nodeId}`,
         to: input.contactEmail,
-        subject: 'Your sales demo is booked',
-        html: `<p>Hi ${input.contactName},</p><p>Your sales demo is booked for ${when}.</p>${link}`,
-        text: `Hi ${input.contactName},\n\nYour sales demo is booked for ${when}.\n${input.calendarEventLink ?? ''}`,
+        subject: input.rescheduled ? 'Your sales demo has moved' : 'Your sales demo is booked',
+        html: `<p>Hi ${input.contactName},</p><p>${summary}</p>${link}${manageLinks}`,
+        text: `Hi ${input.contactName},\n\n${summary}\n${input.calendarEventLink ?? ''}\n\nReschedule: ${rescheduleUrl}\nCancel: ${cancelUrl}`,
         categories: ['smart-scheduling', `tenant:${input.tenantId}`],
       });
     } catch (error) {
@@ -190,11 +647,7 @@ export class SchedulingService {
 
   private async stopActiveSequence(tenantId: string, contactId: string): Promise<void> {
     try {
-      const campaign = await contactCampaignRepository.findByContactAndChannelForTenant(
-        tenantId,
-        contactId,
-        'email'
-      );
+      const campaign = await contactCampaignRepository.findByContactForTenant(tenantId, contactId);
       if (!campaign || !['active', 'paused', 'draft'].includes(campaign.status)) {
         return;
       }
@@ -1,5 +1,5 @@
-import { userScheduleSettingsRepository } from '@/repositories';
-import { BadRequestError } from '@/exceptions/error';
+import { schedulingPoolRepository, userScheduleSettingsRepository } from '@/repositories';
+import { BadRequestError, NotFoundError } from '@/exceptions/error';
 import { UserScheduleSetting } from '@/db/schema';
 
 export interface WorkingHourRange {
@@ -9,6 +9,17 @@ export interface WorkingHourRange {
 
 export type WorkingHours = Record<string, WorkingHourRange[]>;
 
+export interface NoShowFollowUpStep {
+  delayHours: number; // After the no-show for the first email, after the previous email otherwise
+  subject: string;
+  body: string;
+}
+
+export interface NoShowFollowUpSettings {
+  enabled: boolean;
+  steps: NoShowFollowUpStep[];
+}
+
 export interface SchedulingSettingsInput {
   timezone?: string;
   workingHours?: WorkingHours;
@@ -18,6 +29,9 @@ export interface SchedulingSettingsInput {
   minNoticeMinutes?: number;
   bookingHorizonDays?: number;
   respectFreeBusy?: boolean;
+  bookingPoolId?: string | null;
+  remindersEnabled?: boolean;
+  noShowFollowUp?: NoShowFollowUpSettings | null;
 }
 
 export const DEFAULT_WORKING_HOURS: WorkingHours = {
@@ -30,6 +44,27 @@ export const DEFAULT_WORKING_HOURS: WorkingHours = {
   sunday: [],
 };
 
+/**
+ * Sent when a rep marks a prospect a no-show and hasn't set up their own sequence
+ */
+export const DEFAULT_NO_SHOW_FOLLOW_UP: NoShowFollowUpSettings = {
+  enabled: true,
+  steps: [
+    {
+      delayHours: 2,
+      subject: 'Sorry we missed you',
+      body: "Hi {{contact.firstName}},\n\nIt looks like we weren't able to connect for our meeting. No worries, schedules get busy. I'd still love to show you what we can do for {{lead.name}}.\n\nBest,\n{{sender.name}}",
+    },
+    {
+      delayHours: 72,
+      subject: 'Still want to find a time?',
+      body: 'Hi {{contact.firstName}},\n\nFollowing up in case my last note got buried. If now is a better time to talk, pick whatever slot suits you.\n\n{{sender.name}}',
+    },
+  ],
+};
+
+const MAX_NO_SHOW_STEPS = 5;
+
 const DAYS = Object.keys(DEFAULT_WORKING_HOURS);
 const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
@@ -47,6 +82,12 @@ export class SchedulingSettingsService {
     input: SchedulingSettingsInput
   ): Promise<UserScheduleSetting> {
     const normalized = this.normalize(input);
+    if (
+      normalized.bookingPoolId &&
+      !(await schedulingPoolRepository.existsForTenant(normalized.bookingPoolId, tenantId))
+    ) {
+      throw new NotFoundError(`Scheduling pool not found: ${normalized.bookingPoolId}`);
+    }
 
     return await userScheduleSettingsRepository.upsertForUser(tenantId, userId, {
       timezone: normalized.timezone,
@@ -57,6 +98,9 @@ export class SchedulingSettingsService {
       minNoticeMinutes: normalized.minNoticeMinutes,
       bookingHorizonDays: normalized.bookingHorizonDays,
       respectFreeBusy: normalized.respectFreeBusy,
+      bookingPoolId: normalized.bookingPoolId,
+      remindersEnabled: normalized.remindersEnabled,
+      noShowFollowUp: normalized.noShowFollowUp,
     });
   }
 
@@ -100,6 +144,51 @@ export class SchedulingSettingsService {
         365
       ),
       respectFreeBusy: input.respectFreeBusy ?? true,
+      bookingPoolId: input.bookingPoolId ?? null,
+      remindersEnabled: input.remindersEnabled ?? true,
+      noShowFollowUp: input.noShowFollowUp
+        ? this.normalizeNoShowFollowUp(input.noShowFollowUp)
+        : null,
+    };
+  }
+
+  /**
+   * The user's no-show sequence, or the default when they haven't set one up
+   */
+  getNoShowFollowUp(settings: UserScheduleSetting): NoShowFollowUpSettings {
+    return (settings.noShowFollowUp as NoShowFollowUpSettings | null) ?? DEFAULT_NO_SHOW_FOLLOW_UP;
+  }
+
+  private normalizeNoShowFollowUp(followUp: NoShowFollowUpSettings): NoShowFollowUpSettings {
+    const steps = followUp.steps ?? [];
+    if (followUp.enabled && steps.length === 0) {
+      throw new BadRequestError('The no-show follow-up needs at least one email');
+    }
+    if (steps.length > MAX_NO_SHOW_STEPS) {
+      throw new BadRequestError(
+        `The no-show follow-up can send at most ${MAX_NO_SHOW_STEPS} emails`
+      );
+    }
+
+    return {
+      enabled: !!followUp.enabled,
+      steps: steps.map((step, index) => {
+        const subject = step.subject?.trim();
+        const body = step.body?.trim();
+        if (!subject || !body) {
+          throw new BadRequestError(`No-show email ${index + 1} needs a subject and a body`);
+        }
+        return {
+          delayHours: this.validatePositiveInteger(
+            step.delayHours,
+            `No-show email ${index + 1} delayHours`,
+            1,
+            30 * 24
+          ),
+          subject,
+          body,
+        };
+      }),
     };
   }
 
@@ -0,0 +1,96 @@
+import { ServiceUnavailableError } from '@/exceptions/error';
+import { AvailabilityService } from '../AvailabilityService';
+import { calendarConnectionService } from '../calendar/CalendarConnectionService';
+import { calendarProviderFactory } from '../calendar/CalendarProviderFactory';
+
+jest.mock('@/repositories', () => ({
+  schedulingPoolMemberRepository: {},
+  schedulingPoolRepository: {},
+}));
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../calendar/CalendarConnectionService', () => ({
+  calendarConnectionService: { listForUser: jest.fn() },
+}));
+jest.mock('../calendar/CalendarProviderFactory', () => ({
+  calendarProviderFactory: { create: jest.fn() },
+}));
+jest.mock('../BookingTokenService', () => ({ bookingTokenService: {} }));
+jest.mock('../MeetingTypeService', () => ({
+  meetingTypeService: { applyToSettings: jest.fn((settings) => settings) },
+}));
+jest.mock('../SchedulingSettingsService', () => ({ schedulingSettingsService: {} }));
+
+describe('AvailabilityService', () => {
+  const settingsService = {
+    getForUser: jest.fn().mockResolvedValue({
+      timezone: 'UTC',
+      workingHours: { monday: [{ start: '09:00', end: '12:00' }] },
+      meetingDurationMinutes: 60,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0,
+      minNoticeMinutes: 0,
+      bookingHorizonDays: 30,
+      respectFreeBusy: true,
+    }),
+  };
+  const service = new AvailabilityService(settingsService as any);
+  const request = {
+    tenantId: 'tenant-1',
+    userId: 'user-1',
+    startDate: '2026-11-02',
+    endDate: '2026-11-02',
+    now: new Date('2026-11-01T00:00:00.000Z'),
+  };
+  const workCalendar = {
+    id: 'connection-1',
+    provider: 'google',
+    providerCalendarId: 'primary',
+    displayName: 'Work',
+    checkForConflicts: true,
+  };
+  const personalCalendar = {
+    id: 'connection-2',
+    provider: 'microsoft',
+    providerCalendarId: 'personal',
+    displayName: 'Personal',
+    checkForConflicts: true,
+  };
+  const listEventsByCalendar: Record<string, jest.Mock> = {};
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    listEventsByCalendar[workCalendar.id] = jest.fn().mockResolvedValue([
+      {
+        id: 'event-1',
+        start: new Date('2026-11-02T09:00:00.000Z'),
+        end: new Date('2026-11-02T10:00:00.000Z'),
+        isBusy: true,
+      },
+    ]);
+    listEventsByCalendar[personalCalendar.id] = jest.fn().mockResolvedValue([]);
+    (calendarConnectionService.listForUser as jest.Mock).mockResolvedValue([
+      workCalendar,
+      personalCalendar,
+    ]);
+    (calendarProviderFactory.create as jest.Mock).mockImplementation((connection) => ({
+      listEvents: listEventsByCalendar[connection.id],
+    }));
+  });
+
+  it('blocks busy time from every calendar checked for conflicts', async () => {
+    const result = await service.getAvailability(request);
+
+    expect(result.availableSlots).toEqual(['2026-11-02T10:00:00.000Z', '2026-11-02T11:00:00.000Z']);
+  });
+
+  it('names the calendar that needs reconnecting rather than treating it as free', async () => {
+    listEventsByCalendar[personalCalendar.id]?.mockRejectedValue(new Error('invalid_grant'));
+
+    const availability = service.getAvailability(request);
+
+    await expect(availability).rejects.toBeInstanceOf(ServiceUnavailableError);
+    await expect(availability).rejects.toThrow('Calendar "Personal" needs reconnecting');
+  });
+});
@@ -0,0 +1,118 @@
+import type { CalendarConnection } from '@/db/schema';
+import { calendarConnectionRepository } from '@/repositories';
+import { CalendarConnectionService } from '../calendar/CalendarConnectionService';
+
+jest.mock('@/repositories', () => ({
+  calendarConnectionRepository: {
+    findByIdForTenant: jest.fn(),
+    setBookingCalendar: jest.fn(),
+    updateByIdForTenant: jest.fn(),
+    upsertCalendarForUser: jest.fn(),
+  },
+  mailAccountRepository: {},
+  oauthTokenRepository: {},
+}));
+
+jest.mock('../calendar/CalendarProviderFactory', () => ({
+  calendarProviderFactory: {
+    create: () => ({
+      listCalendars: async () => [
+        { id: 'primary', name: 'Work', isPrimary: true, canWrite: true },
+        { id: 'holidays', name: 'Holidays', isPrimary: false, canWrite: false },
+      ],
+    }),
+  },
+}));
+
+const buildConnection = (overrides: Partial<CalendarConnection> = {}): CalendarConnection =>
+  ({
+    id: 'connection-1',
+    tenantId: 'tenant-1',
+    userId: 'user-1',
+    mailAccountId: 'account-1',
+    provider: 'google',
+    providerCalendarId: 'primary',
+    primaryEmail: 'rep@example.com',
+    scopes: [],
+    isActive: true,
+    checkForConflicts: true,
+    isBookingCalendar: false,
+    metadata: {},
+    ...overrides,
+  }) as CalendarConnection;
+
+describe('CalendarConnectionService', () => {
+  const service = new CalendarConnectionService();
+  const repository = calendarConnectionRepository as jest.Mocked<
+    typeof calendarConnectionRepository
+  >;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('moves new events to the chosen calendar', async () => {
+    repository.findByIdForTenant.mockResolvedValue(buildConnection());
+    repository.setBookingCalendar.mockResolvedValue(buildConnection({ isBookingCalendar: true }));
+
+    await expect(
+      service.updateCalendar('tenant-1', 'user-1', 'connection-1', { isBookingCalendar: true })
+    ).resolves.toMatchObject({ isBookingCalendar: true });
+    expect(repository.setBookingCalendar).toHaveBeenCalledWith(
+      'tenant-1',
+      'user-1',
+      'connection-1'
+    );
+  });
+
+  it('keeps a calendar receiving events until another one is chosen', async () => {
+    repository.findByIdForTenant.mockResolvedValue(buildConnection({ isBookingCalendar: true }));
+
+    await expect(
+      service.updateCalendar('tenant-1', 'user-1', 'connection-1', { isBookingCalendar: false })
+    ).rejects.toThrow('Choose another calendar to receive new events instead');
+  });
+
+  it('refuses to send new events to a read-only calendar', async () => {
+    repository.findByIdForTenant.mockResolvedValue(
+      buildConnection({ providerCalendarId: 'holidays', metadata: { canWrite: false } })
+    );
+
+    await expect(
+      service.updateCalendar('tenant-1', 'user-1', 'connection-1', { isBookingCalendar: true })
+    ).rejects.toThrow('New events cannot be added to this calendar');
+    expect(repository.setBookingCalendar).not.toHaveBeenCalled();
+  });
+
+  it('attaches another calendar of the same account', async () => {
+    repository.findByIdForTenant.mockResolvedValue(buildConnection());
+    repository.upsertCalendarForUser.mockImplementation(async (_tenantId, _userId, data) =>
+      buildConnection({ ...data, id: 'connection-2' })
+    );
+
+    await service.addCalendar('tenant-1', 'user-1', {
+      connectionId: 'connection-1',
+      providerCalendarId: 'holidays',
+    });
+
+    expect(repository.upsertCalendarForUser).toHaveBeenCalledWith(
+      'tenant-1',
+      'user-1',
+      expect.objectContaining({
+        mailAccountId: 'account-1',
+        providerCalendarId: 'holidays',
+        displayName: 'Holidays',
+        metadata: { canWrite: false },
+      })
+    );
+  });
+
+  it("does not touch another user's calendar", async () => {
+    repository.findByIdForTenant.mockResolvedValue(buildConnection({ userId: 'user-2' }));
+
+    await expect(
+      service.updateCalendar('tenant-1', 'user-1', 'connection-1', { checkForConflicts: false })
+    ).rejects.toThrow('Calendar connection not found: connection-1');
+    expect(repository.updateByIdForTenant).not.toHaveBeenCalled();
+  });
+});
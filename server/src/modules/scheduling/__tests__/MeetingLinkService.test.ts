@@ -0,0 +1,39 @@
+import { MeetingLinkService } from '../MeetingLinkService';
+
+jest.mock('@/config', () => ({ FRONTEND_ORIGIN: 'https://app.example.com/' }));
+
+describe('MeetingLinkService', () => {
+  const service = new MeetingLinkService('test-secret');
+  const target = { tenantId: 'tenant-1', meetingId: 'meeting-1' };
+
+  it('round-trips a token to its meeting', () => {
+    expect(service.verify(service.createToken(target))).toEqual(target);
+  });
+
+  it('builds manage links on the frontend origin', () => {
+    const url = service.buildUrl(target, 'cancel');
+
+    expect(url).toMatch(/^https:\/\/app\.example\.com\/schedule\/manage\/[^/?]+\?action=cancel$/);
+  });
+
+  it('rejects a token pointed at another meeting', () => {
+    const [, , signature] = service.createToken(target).split('.');
+
+    expect(() => service.verify(`tenant-1.meeting-2.${signature}`)).toThrow(
+      'Meeting link not found'
+    );
+  });
+
+  it('rejects tokens signed with another secret or malformed', () => {
+    const foreign = new MeetingLinkService('other-secret').createToken(target);
+
+    expect(() => service.verify(foreign)).toThrow('Meeting link not found');
+    expect(() => service.verify('not-a-token')).toThrow('Meeting link not found');
+  });
+
+  it('refuses to sign links without a secret', () => {
+    expect(() => new MeetingLinkService('')).toThrow(
+      'SCHEDULING_LINK_SECRET or ENCRYPTION_KEY is required'
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import type { MeetingType, UserScheduleSetting } from '@/db/schema';
+import { MeetingTypeService } from '../MeetingTypeService';
+
+jest.mock('@/repositories', () => ({ meetingTypeRepository: {} }));
+
+const meetingType = {
+  id: 'type-1',
+  name: 'Technical deep dive',
+  durationMinutes: 60,
+  bufferBeforeMinutes: 15,
+  bufferAfterMinutes: null,
+  questions: [
+    { id: 'stack', label: 'What is your current stack?', type: 'text', required: true },
+    { id: 'goals', label: 'Anything we should prepare?', type: 'long_text', required: false },
+  ],
+} as unknown as MeetingType;
+
+describe('MeetingTypeService', () => {
+  const service = new MeetingTypeService();
+
+  it("replaces the rep's length and set buffers with the type's", () => {
+    const settings = {
+      meetingDurationMinutes: 30,
+      bufferBeforeMinutes: 5,
+      bufferAfterMinutes: 10,
+    } as UserScheduleSetting;
+
+    expect(service.applyToSettings(settings, meetingType)).toMatchObject({
+      meetingDurationMinutes: 60,
+      bufferBeforeMinutes: 15,
+      bufferAfterMinutes: 10,
+    });
+    expect(service.applyToSettings(settings, undefined)).toBe(settings);
+  });
+
+  it('keeps answered questions with their text and drops blank optional ones', () => {
+    expect(service.collectAnswers(meetingType, { stack: ' Postgres ', goals: '  ' })).toEqual([
+      { questionId: 'stack', question: 'What is your current stack?', answer: 'Postgres' },
+    ]);
+  });
+
+  it('rejects a booking missing a required answer', () => {
+    expect(() => service.collectAnswers(meetingType, { goals: 'Pricing' })).toThrow(
+      'Please answer "What is your current stack?"'
+    );
+  });
+
+  it('ignores answers when the link has no meeting type', () => {
+    expect(service.collectAnswers(undefined, { stack: 'Postgres' })).toEqual([]);
+  });
+});
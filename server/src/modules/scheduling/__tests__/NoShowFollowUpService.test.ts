@@ -0,0 +1,54 @@
+import { NoShowFollowUpService } from '../NoShowFollowUpService';
+import { DEFAULT_NO_SHOW_FOLLOW_UP } from '../SchedulingSettingsService';
+
+jest.mock('@/repositories', () => ({
+  contactCampaignRepository: {},
+  meetingTypeRepository: {},
+  userScheduleSettingsRepository: {},
+}));
+
+jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
+  campaignPlanExecutionService: {},
+}));
+
+jest.mock('@/modules/campaign/contactCampaignPlan.service', () => ({
+  contactCampaignPlanService: {},
+}));
+
+describe('NoShowFollowUpService', () => {
+  const service = new NoShowFollowUpService();
+
+  it('sends each email after its delay unless the prospect replies', () => {
+    const plan = service.buildPlan(DEFAULT_NO_SHOW_FOLLOW_UP, 'America/Chicago', 'intro-call');
+
+    expect(plan.startNodeId).toBe('no_show_email_1');
+    expect(plan.timezone).toBe('America/Chicago');
+    expect(plan.nodes).toEqual([
+      expect.objectContaining({
+        id: 'no_show_email_1',
+        action: 'send',
+        subject: 'Sorry we missed you',
+        meetingType: 'intro-call',
+        bookingLink: true,
+        schedule: { delay: 'PT2H' },
+        transitions: [{ on: 'no_reply', to: 'no_show_email_2', after: 'PT72H' }],
+      }),
+      expect.objectContaining({
+        id: 'no_show_email_2',
+        schedule: { delay: 'PT0S' },
+        transitions: [{ on: 'no_reply', to: 'stop', after: 'P5D' }],
+      }),
+      expect.objectContaining({ id: 'stop', action: 'stop' }),
+    ]);
+  });
+
+  it('links the default booking page when the meeting had no type', () => {
+    const plan = service.buildPlan(
+      { enabled: true, steps: [{ delayHours: 24, subject: 'Missed you', body: 'Hi' }] },
+      'UTC'
+    );
+
+    expect(plan.nodes[0]).toMatchObject({ bookingLink: true, schedule: { delay: 'PT24H' } });
+    expect(plan.nodes[0]).not.toHaveProperty('meetingType');
+  });
+});
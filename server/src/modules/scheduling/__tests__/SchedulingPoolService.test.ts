@@ -0,0 +1,70 @@
+import { scheduledMeetingRepository } from '@/repositories';
+import { SchedulingPoolService, type SchedulingPoolWithMembers } from '../SchedulingPoolService';
+
+jest.mock('@/repositories', () => ({
+  schedulingPoolRepository: {},
+  schedulingPoolMemberRepository: {},
+  userTenantRepository: {},
+  scheduledMeetingRepository: { findLastBookedAtByUsers: jest.fn() },
+}));
+
+const buildPool = (overrides: Partial<SchedulingPoolWithMembers> = {}): SchedulingPoolWithMembers =>
+  ({
+    id: 'pool-1',
+    tenantId: 'tenant-1',
+    name: 'Sales',
+    mode: 'round_robin',
+    assignmentStrategy: 'round_robin',
+    meetingDurationMinutes: 30,
+    lastAssignedUserId: null,
+    members: ['rep-a', 'rep-b', 'rep-c'].map((userId, position) => ({
+      userId,
+      position,
+      userName: userId,
+      userEmail: `${userId}@example.com`,
+    })),
+    ...overrides,
+  }) as SchedulingPoolWithMembers;
+
+describe('SchedulingPoolService.chooseHost', () => {
+  const service = new SchedulingPoolService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rotates to the next free member after the last one assigned', async () => {
+    const pool = buildPool({ lastAssignedUserId: 'rep-b' });
+
+    await expect(service.chooseHost(pool, ['rep-a', 'rep-b', 'rep-c'])).resolves.toBe('rep-c');
+    await expect(service.chooseHost(pool, ['rep-a', 'rep-b'])).resolves.toBe('rep-a');
+  });
+
+  it('gives the lead owner the meeting when they are free', async () => {
+    const pool = buildPool({ assignmentStrategy: 'owner_first', lastAssignedUserId: 'rep-a' });
+
+    await expect(service.chooseHost(pool, ['rep-b', 'rep-c'], 'rep-c')).resolves.toBe('rep-c');
+    await expect(service.chooseHost(pool, ['rep-b', 'rep-c'], 'rep-a')).resolves.toBe('rep-b');
+  });
+
+  it('prefers members never booked, then the longest since their last booking', async () => {
+    const pool = buildPool({ assignmentStrategy: 'least_recently_booked' });
+    (scheduledMeetingRepository.findLastBookedAtByUsers as jest.Mock)
+      .mockResolvedValueOnce(
+        new Map([
+          ['rep-a', new Date('2026-05-02T00:00:00Z')],
+          ['rep-b', new Date('2026-05-01T00:00:00Z')],
+        ])
+      )
+      .mockResolvedValueOnce(new Map([['rep-a', new Date('2026-05-02T00:00:00Z')]]));
+
+    await expect(service.chooseHost(pool, ['rep-a', 'rep-b'])).resolves.toBe('rep-b');
+    await expect(service.chooseHost(pool, ['rep-a', 'rep-b', 'rep-c'])).resolves.toBe('rep-b');
+  });
+
+  it('rejects a slot no member is free for', async () => {
+    await expect(service.chooseHost(buildPool(), ['someone-else'])).rejects.toThrow(
+      'Selected slot is no longer available'
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { scheduledMeetingRepository } from '@/repositories';
+import { availabilityService } from '../AvailabilityService';
+import { SchedulingService } from '../SchedulingService';
+
+jest.mock('@/repositories', () => ({
+  calendarConnectionRepository: {},
+  contactCampaignRepository: {},
+  meetingTypeRepository: { findByIdForTenant: jest.fn() },
+  scheduleBookingTokenRepository: {},
+  scheduledActionRepository: {},
+  scheduledMeetingHistoryRepository: {},
+  scheduledMeetingRepository: { findByIdForTenant: jest.fn() },
+}));
+
+jest.mock('@/libs/email/email.orchestrator', () => ({ emailOrchestrator: {} }));
+jest.mock('@/modules/pipeline', () => ({ pipelineService: {} }));
+jest.mock('../calendar/CalendarConnectionService', () => ({ calendarConnectionService: {} }));
+jest.mock('../calendar/CalendarProviderFactory', () => ({ calendarProviderFactory: {} }));
+jest.mock('../AvailabilityService', () => ({
+  availabilityService: { getAvailability: jest.fn(), getPoolAvailability: jest.fn() },
+}));
+jest.mock('../BookingTokenService', () => ({ bookingTokenService: {} }));
+jest.mock('../LockService', () => ({ lockService: {} }));
+jest.mock('../MeetingLinkService', () => ({
+  meetingLinkService: {
+    verify: jest.fn(() => ({ tenantId: 'tenant-1', meetingId: 'meeting-1' })),
+  },
+}));
+jest.mock('../MeetingReminderService', () => ({ meetingReminderService: {} }));
+jest.mock('../MeetingTypeService', () => ({ meetingTypeService: {} }));
+jest.mock('../NoShowFollowUpService', () => ({ noShowFollowUpService: {} }));
+jest.mock('../SchedulingPoolService', () => ({ schedulingPoolService: {} }));
+jest.mock('../SchedulingSettingsService', () => ({
+  schedulingSettingsService: {
+    getForUser: jest.fn().mockResolvedValue({ timezone: 'America/New_York' }),
+  },
+}));
+
+describe('SchedulingService reschedule availability', () => {
+  const service = new SchedulingService();
+  const meeting = {
+    id: 'meeting-1',
+    tenantId: 'tenant-1',
+    userId: 'host-1',
+    poolId: null,
+    meetingTypeId: null,
+    status: 'confirmed',
+    startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+    endTime: new Date(Date.now() + 48.5 * 60 * 60 * 1000),
+    calendarEventId: 'event-1',
+    metadata: {},
+  };
+  const availability = { availableSlots: [], busyBlocks: [], timezone: 'America/New_York' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (availabilityService.getAvailability as jest.Mock).mockResolvedValue(availability);
+    (availabilityService.getPoolAvailability as jest.Mock).mockResolvedValue({
+      ...availability,
+      hostsBySlot: {},
+    });
+  });
+
+  it("checks the host's calendar without the meeting's own event", async () => {
+    (scheduledMeetingRepository.findByIdForTenant as jest.Mock).mockResolvedValue(meeting);
+
+    await service.getRescheduleAvailability('token', '2026-11-02', '2026-11-06');
+
+    expect(availabilityService.getAvailability).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'host-1', ignoreEventId: 'event-1' })
+    );
+    expect(availabilityService.getPoolAvailability).not.toHaveBeenCalled();
+  });
+
+  it('needs the host and every invited member free for collective pool meetings', async () => {
+    (scheduledMeetingRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      ...meeting,
+      poolId: 'pool-1',
+      metadata: { attendeeUserIds: ['member-2', 'member-3'] },
+    });
+
+    const result = await service.getRescheduleAvailability('token', '2026-11-02', '2026-11-06');
+
+    expect(availabilityService.getPoolAvailability).toHaveBeenCalledWith(
+      expect.objectContaining({
+        poolId: 'pool-1',
+        userIds: ['host-1', 'member-2', 'member-3'],
+        ignoreEventId: 'event-1',
+      })
+    );
+    expect(result).not.toHaveProperty('hostsBySlot');
+  });
+});
@@ -8,6 +8,10 @@ import {
 } from '@/repositories';
 import { CalendarConnection, MailAccount, NewMailAccount } from '@/db/schema';
 import { CreateOauthTokenPayload } from '@/repositories/entities/OauthTokenRepository';
+import { BadRequestError, NotFoundError } from '@/exceptions/error';
+import { logger } from '@/libs/logger';
+import { ProviderCalendar } from './CalendarProvider';
+import { calendarProviderFactory } from './CalendarProviderFactory';
 
 export class CalendarConnectionService {
   async connectMailAccountCalendar(params: {
@@ -23,17 +27,21 @@ export class CalendarConnectionService {
       return undefined;
     }
 
-    return await calendarConnectionRepository.upsertActiveForUser(params.tenantId, params.userId, {
-      mailAccountId: params.mailAccountId,
-      provider: params.provider,
-      providerCalendarId: 'primary',
-      displayName: params.displayName ?? undefined,
-      primaryEmail: params.primaryEmail,
-      scopes: params.scopes ?? [],
-      metadata: {},
-      connectedAt: new Date(),
-      updatedAt: new Date(),
-    });
+    return await calendarConnectionRepository.upsertCalendarForUser(
+      params.tenantId,
+      params.userId,
+      {
+        mailAccountId: params.mailAccountId,
+        provider: params.provider,
+        providerCalendarId: 'primary',
+        displayName: params.displayName ?? undefined,
+        primaryEmail: params.primaryEmail,
+        scopes: params.scopes ?? [],
+        metadata: {},
+        connectedAt: new Date(),
+        updatedAt: new Date(),
+      }
+    );
   }
 
   async setupGoogleConnection(
@@ -65,7 +73,7 @@ export class CalendarConnectionService {
     const mailAccount = await this.findOrCreateMailAccount(tenantId, userId, payload, tokens.scope);
     await this.storeRefreshToken(mailAccount.id, tokens.refresh_token);
 
-    return await calendarConnectionRepository.upsertActiveForUser(tenantId, userId, {
+    return await calendarConnectionRepository.upsertCalendarForUser(tenantId, userId, {
       mailAccountId: mailAccount.id,
       provider: 'google',
       providerCalendarId: 'primary',
@@ -78,11 +86,126 @@ export class CalendarConnectionService {
     });
   }
 
-  async getActiveConnection(
+  /**
+   * The calendar new bookings are written to
+   */
+  async getBookingConnection(
     tenantId: string,
     userId: string
   ): Promise<CalendarConnection | undefined> {
-    return await calendarConnectionRepository.findActiveForUser(tenantId, userId);
+    return await calendarConnectionRepository.findBookingCalendarForUser(tenantId, userId);
+  }
+
+  async listForUser(tenantId: string, userId: string): Promise<CalendarConnection[]> {
+    return await calendarConnectionRepository.listActiveForUser(tenantId, userId);
+  }
+
+  /**
+   * Calendars of the account behind a connection, each with the connection already
+   * attaching it, if any
+   */
+  async listAccountCalendars(
+    tenantId: string,
+    userId: string,
+    connectionId: string
+  ): Promise<Array<ProviderCalendar & { connectionId: string | null }>> {
+    const source = await this.getForUser(tenantId, userId, connectionId);
+    const [calendars, attached] = await Promise.all([
+      calendarProviderFactory.create(source).listCalendars(),
+      this.listForUser(tenantId, userId),
+    ]);
+
+    return calendars.map((calendar) => ({
+      ...calendar,
+      connectionId:
+        attached.find(
+          (connection) =>
+            connection.mailAccountId === source.mailAccountId &&
+            connection.providerCalendarId === calendar.id
+        )?.id ?? null,
+    }));
+  }
+
+  /**
+   * Attaches another calendar of an already connected account, e.g. a shared team calendar
+   */
+  async addCalendar(
+    tenantId: string,
+    userId: string,
+    input: { connectionId: string; providerCalendarId: string }
+  ): Promise<CalendarConnection> {
+    const source = await this.getForUser(tenantId, userId, input.connectionId);
+    const calendars = await calendarProviderFactory.create(source).listCalendars();
+    const calendar = calendars.find((item) => item.id === input.providerCalendarId);
+    if (!calendar) {
+      throw new NotFoundError(`Calendar not found: ${input.providerCalendarId}`);
+    }
+
+    const connection = await calendarConnectionRepository.upsertCalendarForUser(tenantId, userId, {
+      mailAccountId: source.mailAccountId,
+      provider: source.provider,
+      providerCalendarId: calendar.id,
+      displayName: calendar.name,
+      primaryEmail: source.primaryEmail,
+      scopes: source.scopes,
+      metadata: { canWrite: calendar.canWrite },
+      connectedAt: new Date(),
+      updatedAt: new Date(),
+    });
+    logger.info('[CalendarConnectionService] Calendar attached', {
+      tenantId,
+      userId,
+      connectionId: connection.id,
+    });
+    return connection;
+  }
+
+  async updateCalendar(
+    tenantId: string,
+    userId: string,
+    connectionId: string,
+    input: { checkForConflicts?: boolean; isBookingCalendar?: boolean }
+  ): Promise<CalendarConnection> {
+    let connection = await this.getForUser(tenantId, userId, connectionId);
+
+    if (input.isBookingCalendar === false && connection.isBookingCalendar) {
+      throw new BadRequestError('Choose another calendar to receive new events instead');
+    }
+    if (input.isBookingCalendar && !connection.isBookingCalendar) {
+      if ((connection.metadata as { canWrite?: boolean }).canWrite === false) {
+        throw new BadRequestError('New events cannot be added to this calendar');
+      }
+      connection = await calendarConnectionRepository.setBookingCalendar(
+        tenantId,
+        userId,
+        connectionId
+      );
+    }
+
+    if (
+      input.checkForConflicts !== undefined &&
+      input.checkForConflicts !== connection.checkForConflicts
+    ) {
+      connection = (await calendarConnectionRepository.updateByIdForTenant(connectionId, tenantId, {
+        checkForConflicts: input.checkForConflicts,
+        updatedAt: new Date(),
+      })) as CalendarConnection;
+    }
+
+    return connection;
+  }
+
+  /**
+   * Detaches a calendar. The account stays connected, so its other calendars keep working.
+   */
+  async removeCalendar(tenantId: string, userId: string, connectionId: string): Promise<void> {
+    await this.getForUser(tenantId, userId, connectionId);
+    await calendarConnectionRepository.deactivateForUser(tenantId, userId, connectionId);
+    logger.info('[CalendarConnectionService] Calendar detached', {
+      tenantId,
+      userId,
+      connectionId,
+    });
   }
 
   async setupMicrosoftConnection(
@@ -106,7 +229,7 @@ export class CalendarConnectionService {
     );
     await this.storeRefreshToken(mailAccount.id, tokenResponse.refresh_token);
 
-    return await calendarConnectionRepository.upsertActiveForUser(tenantId, userId, {
+    return await calendarConnectionRepository.upsertCalendarForUser(tenantId, userId, {
       mailAccountId: mailAccount.id,
       provider: 'microsoft',
       providerCalendarId: 'primary',
@@ -119,6 +242,18 @@ export class CalendarConnectionService {
     });
   }
 
+  private async getForUser(
+    tenantId: string,
+    userId: string,
+    connectionId: string
+  ): Promise<CalendarConnection> {
+    const connection = await calendarConnectionRepository.findByIdForTenant(connectionId, tenantId);
+    if (!connection?.isActive || connection.userId !== userId) {
+      throw new NotFoundError(`Calendar connection not found: ${connectionId}`);
+    }
+    return connection;
+  }
+
   private async findOrCreateMailAccount(
     tenantId: string,
     userId: string,
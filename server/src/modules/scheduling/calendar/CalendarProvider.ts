@@ -1,4 +1,5 @@
 export interface CalendarEventInterval {
+  id?: string;
   start: Date;
   end: Date;
   isBusy: boolean;
@@ -11,16 +12,44 @@ export interface CreateCalendarEventInput {
   timezone: string;
   title: string;
   description?: string;
+  location?: string;
+  addConferencing?: boolean; // Attach the provider's video meeting (Google Meet, Teams)
   attendees: Array<{ email: string; name?: string }>;
 }
 
+export interface UpdateCalendarEventInput {
+  calendarId: string;
+  eventId: string;
+  start: Date;
+  end: Date;
+  timezone: string;
+}
+
+export interface DeleteCalendarEventInput {
+  calendarId: string;
+  eventId: string;
+  comment?: string; // Sent to attendees with the cancellation where the provider supports it
+}
+
 export interface CreatedCalendarEvent {
   id: string;
   htmlLink?: string;
   icsLink?: string;
 }
 
+export interface ProviderCalendar {
+  id: string; // The account's main calendar is always reported as 'primary'
+  name: string;
+  isPrimary: boolean;
+  canWrite: boolean;
+}
+
 export interface CalendarProvider {
+  /**
+   * Calendars the connected account can read, including ones shared with it
+   */
+  listCalendars(): Promise<ProviderCalendar[]>;
+
   listEvents(input: {
     calendarId: string;
     timeMin: Date;
@@ -28,4 +57,14 @@ export interface CalendarProvider {
   }): Promise<CalendarEventInterval[]>;
 
   createEvent(input: CreateCalendarEventInput): Promise<CreatedCalendarEvent>;
+
+  /**
+   * Moves an event and notifies its attendees
+   */
+  updateEvent(input: UpdateCalendarEventInput): Promise<CreatedCalendarEvent>;
+
+  /**
+   * Removes an event and sends attendees a cancellation
+   */
+  deleteEvent(input: DeleteCalendarEventInput): Promise<void>;
 }
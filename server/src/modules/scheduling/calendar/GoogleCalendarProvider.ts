@@ -1,3 +1,4 @@
+import { createId } from '@paralleldrive/cuid2';
 import { google, calendar_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import { getGoogleOAuth2Client } from '@/libs/thirdPartyAuth/GoogleAuth';
@@ -7,11 +8,28 @@ import {
   CalendarProvider,
   CreateCalendarEventInput,
   CreatedCalendarEvent,
+  DeleteCalendarEventInput,
+  ProviderCalendar,
+  UpdateCalendarEventInput,
 } from './CalendarProvider';
 
 export class GoogleCalendarProvider implements CalendarProvider {
   constructor(private readonly mailAccountId: string) {}
 
+  async listCalendars(): Promise<ProviderCalendar[]> {
+    const calendar = await this.getCalendarClient();
+    const response = await calendar.calendarList.list({ minAccessRole: 'freeBusyReader' });
+
+    return (response.data.items ?? [])
+      .filter((item) => !!item.id)
+      .map((item) => ({
+        id: item.primary ? 'primary' : (item.id as string),
+        name: item.summaryOverride ?? item.summary ?? (item.id as string),
+        isPrimary: !!item.primary,
+        canWrite: item.accessRole === 'owner' || item.accessRole === 'writer',
+      }));
+  }
+
   async listEvents(input: {
     calendarId: string;
     timeMin: Date;
@@ -37,9 +55,19 @@ export class GoogleCalendarProvider implements CalendarProvider {
     const response = await calendar.events.insert({
       calendarId: input.calendarId,
       sendUpdates: 'all',
+      conferenceDataVersion: input.addConferencing ? 1 : undefined,
       requestBody: {
         summary: input.title,
         description: input.description,
+        location: input.location,
+        conferenceData: input.addConferencing
+          ? {
+              createRequest: {
+                requestId: createId(),
+                conferenceSolutionKey: { type: 'hangoutsMeet' },
+              },
+            }
+          : undefined,
         start: {
           dateTime: input.start.toISOString(),
           timeZone: input.timezone,
@@ -62,6 +90,40 @@ export class GoogleCalendarProvider implements CalendarProvider {
     };
   }
 
+  async updateEvent(input: UpdateCalendarEventInput): Promise<CreatedCalendarEvent> {
+    const calendar = await this.getCalendarClient();
+    const response = await calendar.events.patch({
+      calendarId: input.calendarId,
+      eventId: input.eventId,
+      sendUpdates: 'all',
+      requestBody: {
+        start: {
+          dateTime: input.start.toISOString(),
+          timeZone: input.timezone,
+        },
+        end: {
+          dateTime: input.end.toISOString(),
+          timeZone: input.timezone,
+        },
+      },
+    });
+
+    return {
+      id: response.data.id ?? input.eventId,
+      htmlLink: response.data.htmlLink ?? undefined,
+      icsLink: response.data.htmlLink ?? undefined,
+    };
+  }
+
+  async deleteEvent(input: DeleteCalendarEventInput): Promise<void> {
+    const calendar = await this.getCalendarClient();
+    await calendar.events.delete({
+      calendarId: input.calendarId,
+      eventId: input.eventId,
+      sendUpdates: 'all',
+    });
+  }
+
   private async getCalendarClient(): Promise<calendar_v3.Calendar> {
     const oauth2Client = await this.getAuthedClient();
     return google.calendar({ version: 'v3', auth: oauth2Client });
@@ -82,6 +144,7 @@ export class GoogleCalendarProvider implements CalendarProvider {
     if (!startValue || !endValue) return null;
 
     return {
+      id: event.id ?? undefined,
       start: new Date(startValue),
       end: new Date(endValue),
       isBusy: event.transparency !== 'transparent',
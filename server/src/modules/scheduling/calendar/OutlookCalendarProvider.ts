@@ -6,6 +6,9 @@ import {
   CalendarProvider,
   CreateCalendarEventInput,
   CreatedCalendarEvent,
+  DeleteCalendarEventInput,
+  ProviderCalendar,
+  UpdateCalendarEventInput,
 } from './CalendarProvider';
 
 interface OutlookEvent {
@@ -22,9 +25,34 @@ interface OutlookEvent {
   };
 }
 
+interface OutlookCalendar {
+  id: string;
+  name: string;
+  isDefaultCalendar?: boolean;
+  canEdit?: boolean;
+}
+
 export class OutlookCalendarProvider implements CalendarProvider {
   constructor(private readonly mailAccountId: string) {}
 
+  async listCalendars(): Promise<ProviderCalendar[]> {
+    const accessToken = await this.getAccessToken();
+    const response = await axios.get<{ value: OutlookCalendar[] }>(
+      'https://graph.microsoft.com/v1.0/me/calendars',
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        params: { $select: 'id,name,isDefaultCalendar,canEdit' },
+      }
+    );
+
+    return response.data.value.map((calendar) => ({
+      id: calendar.isDefaultCalendar ? 'primary' : calendar.id,
+      name: calendar.name,
+      isPrimary: !!calendar.isDefaultCalendar,
+      canWrite: !!calendar.canEdit,
+    }));
+  }
+
   async listEvents(input: {
     calendarId: string;
     timeMin: Date;
@@ -61,9 +89,13 @@ export class OutlookCalendarProvider implements CalendarProvider {
       {
         subject: input.title,
         body: {
-          contentType: 'HTML',
+          contentType: 'text', // Descriptions are plain text with line breaks
           content: input.description ?? '',
         },
+        ...(input.location ? { location: { displayName: input.location } } : {}),
+        ...(input.addConferencing
+          ? { isOnlineMeeting: true, onlineMeetingProvider: 'teamsForBusiness' }
+          : {}),
         start: {
           dateTime: input.start.toISOString(),
           timeZone: input.timezone,
@@ -92,6 +124,49 @@ export class OutlookCalendarProvider implements CalendarProvider {
     };
   }
 
+  async updateEvent(input: UpdateCalendarEventInput): Promise<CreatedCalendarEvent> {
+    const accessToken = await this.getAccessToken();
+    const response = await axios.patch<OutlookEvent>(
+      `https://graph.microsoft.com/v1.0/${this.eventPath(input.calendarId, input.eventId)}`,
+      {
+        start: {
+          dateTime: input.start.toISOString(),
+          timeZone: input.timezone,
+        },
+        end: {
+          dateTime: input.end.toISOString(),
+          timeZone: input.timezone,
+        },
+      },
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+
+    return {
+      id: response.data.id ?? input.eventId,
+      htmlLink: response.data.webLink,
+      icsLink: response.data.webLink,
+    };
+  }
+
+  async deleteEvent(input: DeleteCalendarEventInput): Promise<void> {
+    const accessToken = await this.getAccessToken();
+    // A plain DELETE removes the event silently; cancel also notifies the attendees
+    await axios.post(
+      `https://graph.microsoft.com/v1.0/${this.eventPath(input.calendarId, input.eventId)}/cancel`,
+      { comment: input.comment ?? '' },
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+  }
+
+  private eventPath(calendarId: string, eventId: string): string {
+    const id = encodeURIComponent(eventId);
+    return calendarId === 'primary' ? `me/events/${id}` : `me/calendars/${calendarId}/events/${id}`;
+  }
+
   private async getAccessToken(): Promise<string> {
     const refreshToken = await oauthTokenRepository.getRefreshTokenByMailAccountId(
       this.mailAccountId
@@ -104,6 +179,7 @@ export class OutlookCalendarProvider implements CalendarProvider {
     if (!event.start?.dateTime || !event.end?.dateTime) return null;
 
     return {
+      id: event.id,
       start: new Date(event.start.dateTime),
       end: new Date(event.end.dateTime),
       isBusy: event.showAs !== 'free',
@@ -0,0 +1,96 @@
+import { createRedisConnection } from '@/libs/bullmq';
+import { sendRateLimitRepository } from '@/repositories';
+import { BadRequestError } from '@/exceptions/error';
+import { SendRateLimitService } from '../sendRateLimit.service';
+
+jest.mock('@/libs/bullmq', () => ({
+  createRedisConnection: jest.fn(),
+}));
+
+jest.mock('@/repositories', () => ({
+  mailAccountRepository: { findAllForTenant: jest.fn() },
+  sendRateLimitRepository: {
+    findByChannelForTenant: jest.fn(),
+    upsertForTenant: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('SendRateLimitService', () => {
+  const service = new SendRateLimitService();
+  const redis = { eval: jest.fn(), zcount: jest.fn() };
+  const params = {
+    tenantId: 'tenant-1',
+    channel: 'email' as const,
+    identityId: 'mail-account-1',
+    reservationId: 'reservation-1',
+  };
+
+  const tenantLimit = {
+    id: 'limit-1',
+    tenantId: 'tenant-1',
+    channel: 'email',
+    scope: 'tenant',
+    windowSeconds: 3600,
+    maxSends: 100,
+  };
+  const identityLimit = { ...tenantLimit, id: 'limit-2', scope: 'identity', maxSends: 20 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (createRedisConnection as jest.Mock).mockReturnValue(redis);
+  });
+
+  it('allows sends without touching redis when no limits are configured', async () => {
+    (sendRateLimitRepository.findByChannelForTenant as jest.Mock).mockResolvedValue([]);
+
+    await expect(service.reserveSend(params)).resolves.toEqual({ allowed: true });
+    expect(redis.eval).not.toHaveBeenCalled();
+  });
+
+  it('reserves against the tenant and per-identity windows together', async () => {
+    (sendRateLimitRepository.findByChannelForTenant as jest.Mock).mockResolvedValue([
+      tenantLimit,
+      identityLimit,
+    ]);
+    redis.eval.mockResolvedValue(0);
+
+    await expect(service.reserveSend(params)).resolves.toEqual({ allowed: true });
+
+    const [, keyCount, ...args] = redis.eval.mock.calls[0];
+    expect(keyCount).toBe(2);
+    expect(args.slice(0, 2)).toEqual([
+      'send_rate:tenant-1:email:tenant',
+      'send_rate:tenant-1:email:identity:mail-account-1',
+    ]);
+    expect(args.slice(3)).toEqual(['reservation-1', 3600000, 100, 3600000, 20]);
+  });
+
+  it('returns the time the window reopens when over the limit', async () => {
+    const retryAt = Date.now() + 60_000;
+    (sendRateLimitRepository.findByChannelForTenant as jest.Mock).mockResolvedValue([
+      identityLimit,
+    ]);
+    redis.eval.mockResolvedValue(retryAt);
+
+    await expect(service.reserveSend(params)).resolves.toMatchObject({
+      allowed: false,
+      retryAt: new Date(retryAt),
+    });
+  });
+
+  it('rejects invalid limit configuration', async () => {
+    await expect(
+      service.upsertLimit('tenant-1', {
+        channel: 'email',
+        scope: 'identity',
+        windowSeconds: 0,
+        maxSends: 10,
+      })
+    ).rejects.toBeInstanceOf(BadRequestError);
+    expect(sendRateLimitRepository.upsertForTenant).not.toHaveBeenCalled();
+  });
+});
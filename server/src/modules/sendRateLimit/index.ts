@@ -0,0 +1,11 @@
+export {
+  SendRateLimitService,
+  sendRateLimitService,
+  SEND_RATE_LIMIT_SCOPES,
+} from './sendRateLimit.service';
+export type {
+  SendRateLimitInput,
+  SendRateLimitScope,
+  SendRateLimitUsage,
+  ReserveSendResult,
+} from './sendRateLimit.service';
@@ -0,0 +1,211 @@
+import { createRedisConnection } from '@/libs/bullmq';
+import { logger } from '@/libs/logger';
+import { BadRequestError, NotFoundError } from '@/exceptions/error';
+import { mailAccountRepository, sendRateLimitRepository } from '@/repositories';
+import type { SendRateLimit } from '@/db/schema';
+
+export const SEND_RATE_LIMIT_SCOPES = ['tenant', 'identity'] as const;
+export type SendRateLimitScope = (typeof SEND_RATE_LIMIT_SCOPES)[number];
+export type SendChannel = SendRateLimit['channel'];
+
+export interface SendRateLimitInput {
+  channel: SendChannel;
+  scope: SendRateLimitScope;
+  windowSeconds: number;
+  maxSends: number;
+}
+
+export interface ReserveSendParams {
+  tenantId: string;
+  channel: SendChannel;
+  identityId: string; // Mail account (or sender number) the send goes out through
+  reservationId: string;
+}
+
+export type ReserveSendResult =
+  | { allowed: true }
+  | { allowed: false; retryAt: Date; limits: SendRateLimit[] };
+
+export interface SendRateLimitUsage {
+  limitId: string;
+  channel: SendChannel;
+  scope: SendRateLimitScope;
+  windowSeconds: number;
+  maxSends: number;
+  identityId: string | null;
+  identityLabel: string | null;
+  used: number;
+  remaining: number;
+}
+
+const MAX_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Sliding-window check-and-reserve across every applicable limit in one round trip, so
+ * concurrent workers can't both take the last slot. Nothing is reserved unless every
+ * window has room. Returns 0 when reserved, otherwise the epoch ms the tightest window
+ * frees up.
+ *
+ * KEYS: one sorted set per limit
+ * ARGV: now, reservationId, then windowMs/maxSends pairs in KEYS order
+ */
+const RESERVE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local member = ARGV[2]
+local retryAt = 0
+for i, key in ipairs(KEYS) do
+  local windowMs = tonumber(ARGV[1 + i * 2])
+  local maxSends = tonumber(ARGV[2 + i * 2])
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now - windowMs)
+  local used = redis.call('ZCARD', key)
+  if used >= maxSends then
+    local blocking = redis.call('ZRANGE', key, used - maxSends, used - maxSends, 'WITHSCORES')
+    local frees = tonumber(blocking[2]) + windowMs
+    if frees > retryAt then retryAt = frees end
+  end
+end
+if retryAt > 0 then return retryAt end
+for i, key in ipairs(KEYS) do
+  redis.call('ZADD', key, now, member)
+  redis.call('PEXPIRE', key, tonumber(ARGV[1 + i * 2]))
+end
+return 0
+`;
+
+/**
+ * Enforces send_rate_limits. A `tenant` limit caps all sends for the tenant on a channel;
+ * an `identity` limit applies the same cap to each sender identity (mail account)
+ * separately. Sends are tracked in Redis sorted sets keyed per limit.
+ */
+export class SendRateLimitService {
+  async reserveSend(params: ReserveSendParams): Promise<ReserveSendResult> {
+    const { tenantId, channel, identityId, reservationId } = params;
+
+    const limits = await sendRateLimitRepository.findByChannelForTenant(tenantId, channel);
+    if (limits.length === 0) {
+      return { allowed: true };
+    }
+
+    const keys = limits.map((limit) => this.key(limit, identityId));
+    const windowArgs = limits.flatMap((limit) => [limit.windowSeconds * 1000, limit.maxSends]);
+
+    const redis = createRedisConnection();
+    const retryAt = Number(
+      await redis.eval(
+        RESERVE_SCRIPT,
+        keys.length,
+        ...keys,
+        Date.now(),
+        reservationId,
+        ...windowArgs
+      )
+    );
+
+    if (retryAt === 0) {
+      return { allowed: true };
+    }
+
+    logger.info('[SendRateLimitService] Send rate limited', {
+      tenantId,
+      channel,
+      identityId,
+      retryAt: new Date(retryAt).toISOString(),
+    });
+
+    return { allowed: false, retryAt: new Date(retryAt), limits };
+  }
+
+  async listLimits(tenantId: string): Promise<SendRateLimit[]> {
+    return await sendRateLimitRepository.findAllForTenant(tenantId);
+  }
+
+  async upsertLimit(tenantId: string, input: SendRateLimitInput): Promise<SendRateLimit> {
+    if (!SEND_RATE_LIMIT_SCOPES.includes(input.scope)) {
+      throw new BadRequestError(`scope must be one of ${SEND_RATE_LIMIT_SCOPES.join(', ')}`);
+    }
+    if (
+      !Number.isInteger(input.windowSeconds) ||
+      input.windowSeconds < 1 ||
+      input.windowSeconds > MAX_WINDOW_SECONDS
+    ) {
+      throw new BadRequestError(`windowSeconds must be between 1 and ${MAX_WINDOW_SECONDS}`);
+    }
+    if (!Number.isInteger(input.maxSends) || input.maxSends < 1) {
+      throw new BadRequestError('maxSends must be a positive integer');
+    }
+
+    const limit = await sendRateLimitRepository.upsertForTenant(tenantId, input);
+
+    logger.info('[SendRateLimitService] Send rate limit saved', {
+      tenantId,
+      limitId: limit.id,
+      channel: limit.channel,
+      scope: limit.scope,
+      windowSeconds: limit.windowSeconds,
+      maxSends: limit.maxSends,
+    });
+
+    return limit;
+  }
+
+  async deleteLimit(tenantId: string, limitId: string): Promise<void> {
+    const deleted = await sendRateLimitRepository.deleteByIdForTenant(limitId, tenantId);
+    if (!deleted) {
+      throw new NotFoundError(`Send rate limit not found: ${limitId}`);
+    }
+  }
+
+  /**
+   * Current usage of every configured limit. Identity limits report one row per mail account.
+   */
+  async getUsage(tenantId: string): Promise<SendRateLimitUsage[]> {
+    const limits = await sendRateLimitRepository.findAllForTenant(tenantId);
+    if (limits.length === 0) return [];
+
+    const hasIdentityLimit = limits.some((limit) => limit.scope === 'identity');
+    const mailAccounts = hasIdentityLimit
+      ? (await mailAccountRepository.findAllForTenant(tenantId)).filter(
+          (account) => !account.disconnectedAt
+        )
+      : [];
+
+    const redis = createRedisConnection();
+    const now = Date.now();
+    const usage: SendRateLimitUsage[] = [];
+
+    for (const limit of limits) {
+      const identities =
+        limit.scope === 'identity'
+          ? mailAccounts.map((account) => ({ id: account.id, label: account.primaryEmail }))
+          : [{ id: null, label: null }];
+
+      for (const identity of identities) {
+        const used = await redis.zcount(
+          this.key(limit, identity.id),
+          now - limit.windowSeconds * 1000,
+          '+inf'
+        );
+        usage.push({
+          limitId: limit.id,
+          channel: limit.channel,
+          scope: limit.scope as SendRateLimitScope,
+          windowSeconds: limit.windowSeconds,
+          maxSends: limit.maxSends,
+          identityId: identity.id,
+          identityLabel: identity.label,
+          used,
+          remaining: Math.max(0, limit.maxSends - used),
+        });
+      }
+    }
+
+    return usage;
+  }
+
+  private key(limit: SendRateLimit, identityId: string | null): string {
+    const base = `send_rate:${limit.tenantId}:${limit.channel}`;
+    return limit.scope === 'identity' ? `${base}:identity:${identityId}` : `${base}:tenant`;
+  }
+}
+
+export const sendRateLimitService = new SendRateLimitService();
@@ -0,0 +1,170 @@
+import {
+  contactCampaignRepository,
+  outboundMessageRepository,
+  tenantRepository,
+} from '@/repositories';
+import { ConflictError } from '@/exceptions/error';
+import { CampaignExecutionPublisher } from '@/modules/messages';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { SendReviewService } from '../sendReview.service';
+
+jest.mock('@/repositories', () => ({
+  contactCampaignRepository: { findByIdForTenant: jest.fn() },
+  leadPointOfContactRepository: { findByIdForTenant: jest.fn() },
+  outboundMessageRepository: {
+    createForTenant: jest.fn(),
+    findByIdsForTenant: jest.fn(),
+    updateByIdForTenant: jest.fn(),
+    updateIfPendingReviewForTenant: jest.fn(),
+  },
+  scheduledActionRepository: {
+    createForTenant: jest.fn().mockResolvedValue({ id: 'action-1' }),
+    updateByIdForTenant: jest.fn(),
+  },
+  tenantRepository: { findById: jest.fn(), updateById: jest.fn() },
+}));
+jest.mock('@/modules/messages', () => ({
+  CampaignExecutionPublisher: { publish: jest.fn().mockResolvedValue({ id: 'job-1' }) },
+}));
+jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
+  campaignPlanExecutionService: { stopCampaign: jest.fn() },
+}));
+jest.mock('@/modules/sendTime', () => ({
+  sendTimeService: {
+    scheduleSend: jest.fn(async ({ scheduledAt }: { scheduledAt: Date }) => ({ scheduledAt })),
+  },
+}));
+jest.mock('@/modules/templates', () => ({ templateService: { renderMessage: jest.fn() } }));
+jest.mock('@/libs/calendar/calendarUrlWrapper', () => ({ calendarUrlWrapper: {} }));
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockedTenants = tenantRepository as jest.Mocked<typeof tenantRepository>;
+const mockedMessages = outboundMessageRepository as jest.Mocked<typeof outboundMessageRepository>;
+const mockedCampaigns = contactCampaignRepository as jest.Mocked<typeof contactCampaignRepository>;
+
+const heldMessage = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: 'msg-1',
+    campaignId: 'campaign-1',
+    contactId: 'contact-1',
+    channel: 'email',
+    nodeId: 'email_intro',
+    state: 'pending_review',
+    content: { subject: 'Hi', body: 'Hello' },
+    ...overrides,
+  }) as any;
+
+const campaign = (status: string) =>
+  ({
+    id: 'campaign-1',
+    contactId: 'contact-1',
+    leadId: 'lead-1',
+    status,
+    currentNodeId: 'email_intro',
+    planJson: { startNodeId: 'email_intro', nodes: [] },
+  }) as any;
+
+describe('SendReviewService', () => {
+  const service = new SendReviewService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('requiresReview', () => {
+    const plan = { startNodeId: 'email_intro' } as any;
+
+    it.each([
+      ['off', 'email_intro', false],
+      ['all', 'email_followup', true],
+      ['first_step', 'email_intro', true],
+      ['first_step', 'email_followup', false],
+    ])('policy %s holds %s: %s', async (policy, nodeId, expected) => {
+      mockedTenants.findById.mockResolvedValue({ sendReviewPolicy: policy } as any);
+
+      await expect(service.requiresReview('tenant-1', nodeId, plan)).resolves.toBe(expected);
+    });
+  });
+
+  describe('approve', () => {
+    it('marks the message approved and queues its send', async () => {
+      mockedMessages.findByIdsForTenant.mockResolvedValue([heldMessage()]);
+      mockedCampaigns.findByIdForTenant.mockResolvedValue(campaign('active'));
+      mockedMessages.updateIfPendingReviewForTenant.mockResolvedValue(
+        heldMessage({ state: 'approved' })
+      );
+
+      const result = await service.approve('tenant-1', 'user-1', ['msg-1']);
+
+      expect(result).toEqual({ updated: ['msg-1'], skipped: [] });
+      expect(mockedMessages.updateIfPendingReviewForTenant).toHaveBeenCalledWith(
+        'msg-1',
+        'tenant-1',
+        expect.objectContaining({ state: 'approved', reviewedBy: 'user-1' })
+      );
+      expect(CampaignExecutionPublisher.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ nodeId: 'email_intro', actionType: 'send' }),
+        { delay: 0 }
+      );
+    });
+
+    it('does not queue the send again when a concurrent approval got there first', async () => {
+      // Both approvals read the message while it was still held
+      mockedMessages.findByIdsForTenant.mockResolvedValue([heldMessage()]);
+      mockedCampaigns.findByIdForTenant.mockResolvedValue(campaign('active'));
+      mockedMessages.updateIfPendingReviewForTenant
+        .mockResolvedValueOnce(heldMessage({ state: 'approved' }))
+        .mockResolvedValueOnce(undefined);
+
+      await service.approve('tenant-1', 'user-1', ['msg-1']);
+      await expect(service.approve('tenant-1', 'user-2', ['msg-1'])).rejects.toBeInstanceOf(
+        ConflictError
+      );
+
+      expect(CampaignExecutionPublisher.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves messages of paused campaigns pending', async () => {
+      mockedMessages.findByIdsForTenant.mockResolvedValue([heldMessage()]);
+      mockedCampaigns.findByIdForTenant.mockResolvedValue(campaign('paused'));
+
+      const result = await service.approve('tenant-1', 'user-1', ['msg-1']);
+
+      expect(result.skipped).toEqual([{ id: 'msg-1', reason: 'campaign_paused' }]);
+      expect(mockedMessages.updateIfPendingReviewForTenant).not.toHaveBeenCalled();
+      expect(CampaignExecutionPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('skips messages that are no longer waiting', async () => {
+      mockedMessages.findByIdsForTenant.mockResolvedValue([heldMessage({ state: 'sent' })]);
+
+      const result = await service.approve('tenant-1', 'user-1', ['msg-1', 'missing']);
+
+      expect(result.skipped).toEqual([
+        { id: 'msg-1', reason: 'not_pending' },
+        { id: 'missing', reason: 'not_pending' },
+      ]);
+    });
+  });
+
+  describe('reject', () => {
+    it('rejects the message and stops the sequence', async () => {
+      mockedMessages.findByIdsForTenant.mockResolvedValue([heldMessage()]);
+      mockedCampaigns.findByIdForTenant.mockResolvedValue(campaign('active'));
+
+      const result = await service.reject('tenant-1', 'user-1', ['msg-1'], 'Wrong tone');
+
+      expect(result.updated).toEqual(['msg-1']);
+      expect(mockedMessages.updateByIdForTenant).toHaveBeenCalledWith(
+        'msg-1',
+        'tenant-1',
+        expect.objectContaining({ state: 'rejected', lastError: 'Wrong tone' })
+      );
+      expect(campaignPlanExecutionService.stopCampaign).toHaveBeenCalledWith(
+        expect.objectContaining({ campaignId: 'campaign-1', currentNodeId: 'email_intro' })
+      );
+    });
+  });
+});
@@ -0,0 +1,2 @@
+export { SendReviewService, sendReviewService, SEND_REVIEW_POLICIES } from './sendReview.service';
+export type { ReviewActionResult, SendReviewPolicy } from './sendReview.service';
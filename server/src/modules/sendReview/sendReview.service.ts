@@ -0,0 +1,299 @@
+import { logger } from '@/libs/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '@/exceptions/error';
+import {
+  contactCampaignRepository,
+  leadPointOfContactRepository,
+  outboundMessageRepository,
+  scheduledActionRepository,
+  tenantRepository,
+  type OutboundMessageForReview,
+} from '@/repositories';
+import type { NewOutboundMessage, OutboundMessage } from '@/db/schema';
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import { CampaignExecutionPublisher } from '@/modules/messages';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { sendTimeService } from '@/modules/sendTime';
+import { templateService, type MessageContent } from '@/modules/templates';
+import { calendarUrlWrapper } from '@/libs/calendar/calendarUrlWrapper';
+
+export const SEND_REVIEW_POLICIES = ['off', 'all', 'first_step'] as const;
+export type SendReviewPolicy = (typeof SEND_REVIEW_POLICIES)[number];
+
+export interface ReviewActionResult {
+  updated: string[]; // Message ids approved or rejected
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+type HeldMessageValues = Omit<NewOutboundMessage, 'tenantId' | 'state'>;
+
+const isSendReviewPolicy = (value: string): value is SendReviewPolicy =>
+  (SEND_REVIEW_POLICIES as readonly string[]).includes(value);
+
+/**
+ * Optional human approval of campaign sends. Under a review policy the execution worker
+ * stores the rendered message as `pending_review` instead of sending it; the contact's
+ * sequence waits there (no timeouts, no transitions) until a rep approves it, which
+ * re-queues the send, or rejects it, which stops the sequence.
+ */
+export class SendReviewService {
+  async getPolicy(tenantId: string): Promise<SendReviewPolicy> {
+    const tenant = await tenantRepository.findById(tenantId);
+    return isSendReviewPolicy(tenant.sendReviewPolicy) ? tenant.sendReviewPolicy : 'off';
+  }
+
+  async setPolicy(tenantId: string, policy: SendReviewPolicy): Promise<SendReviewPolicy> {
+    if (!isSendReviewPolicy(policy)) {
+      throw new BadRequestError(`Unknown review policy: ${policy}`);
+    }
+    await tenantRepository.updateById(tenantId, {
+      sendReviewPolicy: policy,
+      updatedAt: new Date(),
+    });
+    logger.info('[SendReviewService] Review policy updated', { tenantId, policy });
+    return policy;
+  }
+
+  /**
+   * Whether a send of this node must wait for approval. `first_step` only holds the
+   * plan's start node; without a plan the node can't be placed, so it isn't held.
+   */
+  async requiresReview(
+    tenantId: string,
+    nodeId: string,
+    plan?: CampaignPlanOutput
+  ): Promise<boolean> {
+    const policy = await this.getPolicy(tenantId);
+    if (policy === 'all') return true;
+    return policy === 'first_step' && plan?.startNodeId === nodeId;
+  }
+
+  async holdForReview(tenantId: string, values: HeldMessageValues): Promise<OutboundMessage> {
+    const message = await outboundMessageRepository.createForTenant(tenantId, {
+      ...values,
+      state: 'pending_review',
+    });
+    logger.info('[SendReviewService] Message held for review', {
+      tenantId,
+      campaignId: message.campaignId,
+      nodeId: message.nodeId,
+      outboundMessageId: message.id,
+    });
+    return message;
+  }
+
+  listPending(tenantId: string, ownerId?: string): Promise<OutboundMessageForReview[]> {
+    return outboundMessageRepository.findPendingReviewForTenant(tenantId, { ownerId });
+  }
+
+  /**
+   * Subject and body a reviewed message should go out with
+   */
+  getReviewedContent(message: OutboundMessage): MessageContent {
+    const content = (message.content ?? {}) as { subject?: string; body?: string };
+    return { subject: content.subject, body: content.body ?? '' };
+  }
+
+  /**
+   * Replaces a held message's copy. Edits may use template variables; they are filled in
+   * now, so the reviewer sees exactly what will be sent.
+   */
+  async updateContent(
+    tenantId: string,
+    messageId: string,
+    input: MessageContent
+  ): Promise<OutboundMessage> {
+    const message = await this.findPending(tenantId, messageId);
+    if (!input.body.trim()) {
+      throw new BadRequestError('Message body is required');
+    }
+    if (message.channel === 'email' && !input.subject?.trim()) {
+      throw new BadRequestError('Email subject is required');
+    }
+
+    const contact = await leadPointOfContactRepository.findByIdForTenant(
+      message.contactId,
+      tenantId
+    );
+    const rendered = await templateService.renderMessage(
+      tenantId,
+      contact,
+      message.channel === 'email' ? input : { body: input.body },
+      {
+        trackCalendarLink: () =>
+          calendarUrlWrapper.generateTrackedCalendarUrl({
+            tenantId,
+            leadId: contact.leadId,
+            contactId: contact.id,
+            campaignId: message.campaignId,
+            nodeId: message.nodeId ?? '',
+          }),
+      }
+    );
+
+    const updated = await outboundMessageRepository.updateByIdForTenant(messageId, tenantId, {
+      content: {
+        ...(message.content as Record<string, unknown>),
+        ...(rendered.subject !== undefined ? { subject: rendered.subject } : {}),
+        body: rendered.body,
+      },
+      updatedAt: new Date(),
+    });
+    return updated as OutboundMessage;
+  }
+
+  /**
+   * Approves held messages and queues each send for the contact's next send window.
+   * Messages of paused campaigns stay pending; those of finished campaigns are canceled.
+   * A message reviewed by someone else since it was read is a ConflictError.
+   */
+  async approve(
+    tenantId: string,
+    userId: string,
+    messageIds: string[]
+  ): Promise<ReviewActionResult> {
+    const result: ReviewActionResult = { updated: [], skipped: [] };
+    const messages = await outboundMessageRepository.findByIdsForTenant(messageIds, tenantId);
+
+    for (const id of messageIds) {
+      const message = messages.find((m) => m.id === id);
+      if (!message || message.state !== 'pending_review' || !message.nodeId) {
+        result.skipped.push({ id, reason: 'not_pending' });
+        continue;
+      }
+
+      const campaign = await contactCampaignRepository.findByIdForTenant(
+        message.campaignId,
+        tenantId
+      );
+      if (campaign?.status === 'paused') {
+        result.skipped.push({ id, reason: 'campaign_paused' });
+        continue;
+      }
+      if (!campaign || campaign.status !== 'active' || !campaign.planJson) {
+        await outboundMessageRepository.updateByIdForTenant(id, tenantId, {
+          state: 'canceled',
+          updatedAt: new Date(),
+        });
+        result.skipped.push({ id, reason: 'campaign_inactive' });
+        continue;
+      }
+
+      // Conditional on the message still being held, so a second approval never re-queues it
+      const approved = await outboundMessageRepository.updateIfPendingReviewForTenant(
+        id,
+        tenantId,
+        { state: 'approved', reviewedBy: userId, reviewedAt: new Date() }
+      );
+      if (!approved) {
+        throw new ConflictError(`Message ${id} was already reviewed`);
+      }
+
+      const { scheduledAt } = await sendTimeService.scheduleSend({
+        tenantId,
+        contactId: campaign.contactId,
+        channel: message.channel,
+        scheduledAt: new Date(),
+        plan: campaign.planJson as CampaignPlanOutput,
+      });
+      // Tracked like any other send, so pausing the campaign parks it
+      const scheduledAction = await scheduledActionRepository.createForTenant(tenantId, {
+        campaignId: campaign.id,
+        actionType: 'send',
+        scheduledAt,
+        status: 'pending',
+        payload: { nodeId: message.nodeId, channel: message.channel, outboundMessageId: id },
+      });
+      const job = await CampaignExecutionPublisher.publish(
+        {
+          tenantId,
+          campaignId: campaign.id,
+          contactId: campaign.contactId,
+          leadId: campaign.leadId,
+          nodeId: message.nodeId,
+          actionType: 'send',
+          metadata: { triggeredBy: 'review_approved', outboundMessageId: id },
+        },
+        { delay: Math.max(0, scheduledAt.getTime() - Date.now()) }
+      );
+      await scheduledActionRepository.updateByIdForTenant(scheduledAction.id, tenantId, {
+        bullmqJobId: job.id,
+      });
+
+      result.updated.push(id);
+    }
+
+    logger.info('[SendReviewService] Messages approved', {
+      tenantId,
+      userId,
+      approved: result.updated.length,
+      skipped: result.skipped.length,
+    });
+    return result;
+  }
+
+  /**
+   * Rejects held messages. Later steps depend on the rejected send, so each contact's
+   * sequence is stopped where it is.
+   */
+  async reject(
+    tenantId: string,
+    userId: string,
+    messageIds: string[],
+    reason?: string
+  ): Promise<ReviewActionResult> {
+    const result: ReviewActionResult = { updated: [], skipped: [] };
+    const messages = await outboundMessageRepository.findByIdsForTenant(messageIds, tenantId);
+
+    for (const id of messageIds) {
+      const message = messages.find((m) => m.id === id);
+      if (!message || message.state !== 'pending_review') {
+        result.skipped.push({ id, reason: 'not_pending' });
+        continue;
+      }
+
+      await outboundMessageRepository.updateByIdForTenant(id, tenantId, {
+        state: 'rejected',
+        lastError: reason?.trim() || 'Rejected in review',
+        reviewedBy: userId,
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const campaign = await contactCampaignRepository.findByIdForTenant(
+        message.campaignId,
+        tenantId
+      );
+      if (campaign && (campaign.status === 'active' || campaign.status === 'paused')) {
+        await campaignPlanExecutionService.stopCampaign({
+          tenantId,
+          campaignId: campaign.id,
+          currentNodeId: message.nodeId ?? campaign.currentNodeId ?? 'unknown',
+          reason: 'Message rejected in review',
+        });
+      }
+
+      result.updated.push(id);
+    }
+
+    logger.info('[SendReviewService] Messages rejected', {
+      tenantId,
+      userId,
+      rejected: result.updated.length,
+      skipped: result.skipped.length,
+    });
+    return result;
+  }
+
+  private async findPending(tenantId: string, messageId: string): Promise<OutboundMessage> {
+    const message = await outboundMessageRepository.findByIdForTenant(messageId, tenantId);
+    if (!message) {
+      throw new NotFoundError(`Message not found: ${messageId}`);
+    }
+    if (message.state !== 'pending_review') {
+      throw new BadRequestError('Only messages waiting for review can be edited');
+    }
+    return message;
+  }
+}
+
+export const sendReviewService = new SendReviewService();
@@ -0,0 +1,67 @@
+import {
+  leadPointOfContactRepository,
+  leadRepository,
+  messageEventRepository,
+  sendTimeSettingRepository,
+} from '@/repositories';
+import { SendTimeService } from '../sendTime.service';
+
+jest.mock('@/repositories', () => ({
+  leadPointOfContactRepository: { findByIdForTenant: jest.fn() },
+  leadRepository: { findByIdForTenant: jest.fn() },
+  messageEventRepository: { findEngagementWithContactsForTenant: jest.fn() },
+  sendTimeSettingRepository: { findByTenantId: jest.fn(), upsertForTenant: jest.fn() },
+}));
+
+jest.mock('@/modules/blackout/blackout.service', () => ({
+  blackoutService: { getBlackoutCheck: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('SendTimeService.scheduleSend', () => {
+  const service = new SendTimeService();
+  const tenantId = 'tenant-1';
+  // Monday 11:00 in New York
+  const mondayMorning = new Date('2026-10-19T15:00:00Z');
+  const params = {
+    tenantId,
+    contactId: 'contact-1',
+    channel: 'email' as const,
+    scheduledAt: mondayMorning,
+    plan: { timezone: 'UTC' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (leadPointOfContactRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      leadId: 'lead-1',
+      timezone: 'America/New_York',
+    });
+    (leadRepository.findByIdForTenant as jest.Mock).mockResolvedValue({ address: null });
+    (messageEventRepository.findEngagementWithContactsForTenant as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('only follows the contact timezone for tenants without windows', async () => {
+    (sendTimeSettingRepository.findByTenantId as jest.Mock).mockResolvedValue(undefined);
+
+    const result = await service.scheduleSend(params);
+
+    expect(result).toMatchObject({ scheduledAt: mondayMorning, timezone: 'America/New_York' });
+  });
+
+  it('moves emails into the windows a tenant configured', async () => {
+    (sendTimeSettingRepository.findByTenantId as jest.Mock).mockResolvedValue({
+      enabled: true,
+      windows: [{ days: [2], start: '08:00', end: '10:00' }],
+      learnFromEngagement: false,
+    });
+
+    const result = await service.scheduleSend(params);
+
+    // Tuesday 08:00 in New York
+    expect(result.scheduledAt).toEqual(new Date('2026-10-20T12:00:00Z'));
+  });
+});
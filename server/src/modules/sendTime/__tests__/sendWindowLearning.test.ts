@@ -0,0 +1,33 @@
+import { learnSendWindows, type EngagementSample } from '../sendWindowLearning';
+
+const repeat = (sample: EngagementSample, count: number): EngagementSample[] =>
+  Array.from({ length: count }, () => sample);
+
+describe('learnSendWindows', () => {
+  const options = { slotCount: 3, earliestHour: 7, latestHour: 18 };
+
+  it('picks the busiest slots and merges matching hours across days', () => {
+    const samples = [
+      ...repeat({ weekday: 2, hour: 9 }, 20),
+      ...repeat({ weekday: 4, hour: 9 }, 18),
+      ...repeat({ weekday: 3, hour: 14 }, 12),
+      ...repeat({ weekday: 1, hour: 16 }, 2),
+    ];
+
+    expect(learnSendWindows(samples, options)).toEqual([
+      { days: [2, 4], start: '08:00', end: '10:00' },
+      { days: [3], start: '13:00', end: '15:00' },
+    ]);
+  });
+
+  it('ignores engagement outside the working day', () => {
+    const samples = [
+      ...repeat({ weekday: 6, hour: 2 }, 30),
+      ...repeat({ weekday: 1, hour: 10 }, 5),
+    ];
+
+    expect(learnSendWindows(samples, { ...options, slotCount: 1 })).toEqual([
+      { days: [1], start: '09:00', end: '11:00' },
+    ]);
+  });
+});
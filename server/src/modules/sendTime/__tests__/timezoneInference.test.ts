@@ -0,0 +1,59 @@
+import {
+  inferContactTimezone,
+  inferTimezoneFromEmail,
+  inferTimezoneFromLocation,
+} from '../timezoneInference';
+
+describe('timezoneInference', () => {
+  describe('inferTimezoneFromLocation', () => {
+    it('reads US state and Canadian province codes from addresses', () => {
+      expect(inferTimezoneFromLocation('123 Main St, Portland, OR 97205')).toBe(
+        'America/Los_Angeles'
+      );
+      expect(inferTimezoneFromLocation('London, ON')).toBe('America/Toronto');
+    });
+
+    it('matches cities, region names and countries', () => {
+      expect(inferTimezoneFromLocation('Austin')).toBe('America/Chicago');
+      expect(inferTimezoneFromLocation('Charleston, West Virginia')).toBe('America/New_York');
+      expect(inferTimezoneFromLocation('Hamburg, Germany')).toBe('Europe/Berlin');
+    });
+
+    it('returns null for unrecognized locations', () => {
+      expect(inferTimezoneFromLocation('Remote')).toBeNull();
+      expect(inferTimezoneFromLocation('')).toBeNull();
+    });
+  });
+
+  describe('inferTimezoneFromEmail', () => {
+    it('uses country-code TLDs only', () => {
+      expect(inferTimezoneFromEmail('jane@acme.co.uk')).toBe('Europe/London');
+      expect(inferTimezoneFromEmail('jane@acme.com')).toBeNull();
+    });
+  });
+
+  describe('inferContactTimezone', () => {
+    it('prefers an explicit timezone on the contact', () => {
+      expect(
+        inferContactTimezone({
+          timezone: 'Asia/Tokyo',
+          location: 'Austin, TX',
+          email: 'jane@acme.de',
+        })
+      ).toEqual({ timezone: 'Asia/Tokyo', source: 'contact' });
+    });
+
+    it('falls back from location to lead address to email domain', () => {
+      expect(
+        inferContactTimezone({ location: 'Remote', leadAddress: '1 Pike St, Seattle, WA' })
+      ).toEqual({ timezone: 'America/Los_Angeles', source: 'lead_address' });
+
+      expect(inferContactTimezone({ timezone: 'Not/AZone', email: 'jane@acme.de' })).toEqual({
+        timezone: 'Europe/Berlin',
+        source: 'email_domain',
+      });
+
+      expect(inferContactTimezone({ email: 'jane@acme.com' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,16 @@
+export { SendTimeService, sendTimeService } from './sendTime.service';
+export {
+  inferContactTimezone,
+  inferTimezoneFromEmail,
+  inferTimezoneFromLocation,
+} from './timezoneInference';
+export { learnSendWindows } from './sendWindowLearning';
+export type {
+  ResolvedTimezone,
+  ScheduleSendParams,
+  ScheduledSendTime,
+  SendTimeSettingsInput,
+  SendTimeSettingsView,
+} from './sendTime.service';
+export type { InferredTimezone, TimezoneSource } from './timezoneInference';
+export type { EngagementSample } from './sendWindowLearning';
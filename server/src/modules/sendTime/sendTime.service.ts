@@ -0,0 +1,285 @@
+import { logger } from '@/libs/logger';
+import { BadRequestError } from '@/exceptions/error';
+import {
+  leadPointOfContactRepository,
+  leadRepository,
+  messageEventRepository,
+  sendTimeSettingRepository,
+} from '@/repositories';
+import { SEND_TIME_CONFIG } from '@/config/sendTime.config';
+import {
+  applySendConstraints,
+  getLocalDateParts,
+  isValidTimeFormat,
+  type BlackoutDateCheck,
+  type SendWindow,
+} from '@/modules/campaign/scheduleUtils';
+import { blackoutService } from '@/modules/blackout/blackout.service';
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import { inferContactTimezone, type TimezoneSource } from './timezoneInference';
+import { learnSendWindows, type EngagementSample } from './sendWindowLearning';
+
+export interface ResolvedTimezone {
+  timezone: string;
+  source: TimezoneSource | 'plan'; // 'plan' = nothing known about the contact
+}
+
+export interface ScheduleSendParams {
+  tenantId: string;
+  contactId: string;
+  channel: 'email' | 'sms';
+  scheduledAt: Date;
+  plan: Pick<CampaignPlanOutput, 'timezone' | 'quietHours'>;
+}
+
+export interface ScheduledSendTime extends ResolvedTimezone {
+  scheduledAt: Date;
+}
+
+export interface SendTimeSettingsView {
+  enabled: boolean;
+  windows: SendWindow[];
+  usingDefaultWindows: boolean;
+  learnFromEngagement: boolean;
+  learnedWindows: SendWindow[] | null;
+  learnedSampleSize: number;
+  learnedAt: Date | null;
+  activeWindows: SendWindow[];
+}
+
+export interface SendTimeSettingsInput {
+  enabled?: boolean;
+  windows?: SendWindow[] | null; // null resets to the built-in defaults
+  learnFromEngagement?: boolean;
+}
+
+/**
+ * Schedules campaign sends in the contact's own timezone. The timezone comes from the
+ * contact (explicit, or inferred from their location, the lead's address or their email
+ * domain), falling back to the plan timezone. Blackout dates and quiet hours are applied in
+ * that timezone, and emails are then moved into the tenant's best send windows: learned
+ * from past opens, clicks and replies once there is enough history, otherwise the
+ * configured windows. With neither, sends only follow the contact's timezone.
+ */
+export class SendTimeService {
+  private refreshes = new Map<string, Promise<SendWindow[] | null>>();
+
+  async scheduleSend(params: ScheduleSendParams): Promise<ScheduledSendTime> {
+    const { tenantId, contactId, channel, plan } = params;
+    const isBlackoutDate = await this.loadBlackoutCheck(tenantId);
+
+    if (!SEND_TIME_CONFIG.ENABLED) {
+      return {
+        scheduledAt: applySendConstraints(params.scheduledAt, plan.timezone, {
+          quietHours: plan.quietHours,
+          isBlackoutDate,
+        }),
+        timezone: plan.timezone,
+        source: 'plan',
+      };
+    }
+
+    const resolved = await this.resolveContactTimezone(tenantId, contactId, plan.timezone);
+
+    // Windows are about when people read email; texts only respect quiet hours
+    const windows = channel === 'email' ? await this.getActiveWindows(tenantId) : null;
+
+    const scheduledAt = applySendConstraints(params.scheduledAt, resolved.timezone, {
+      quietHours: plan.quietHours,
+      windows: windows ?? undefined,
+      isBlackoutDate,
+    });
+
+    return { scheduledAt, ...resolved };
+  }
+
+  async resolveContactTimezone(
+    tenantId: string,
+    contactId: string,
+    fallbackTimezone: string
+  ): Promise<ResolvedTimezone> {
+    try {
+      const contact = await leadPointOfContactRepository.findByIdForTenant(contactId, tenantId);
+      const lead = await leadRepository.findByIdForTenant(contact.leadId, tenantId);
+
+      const inferred = inferContactTimezone({
+        timezone: contact.timezone,
+        location: contact.location,
+        leadAddress: lead.address,
+        email: contact.email,
+      });
+
+      return inferred ?? { timezone: fallbackTimezone, source: 'plan' };
+    } catch (error) {
+      logger.warn('[SendTimeService] Could not resolve contact timezone, using plan timezone', {
+        tenantId,
+        contactId,
+        fallbackTimezone,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { timezone: fallbackTimezone, source: 'plan' };
+    }
+  }
+
+  async getSettings(tenantId: string): Promise<SendTimeSettingsView> {
+    const settings = await sendTimeSettingRepository.findByTenantId(tenantId);
+    const windows = (settings?.windows as SendWindow[] | null) ?? null;
+    const learnedWindows = (settings?.learnedWindows as SendWindow[] | null) ?? null;
+
+    return {
+      enabled: settings?.enabled ?? true,
+      windows: windows ?? [],
+      usingDefaultWindows: !windows,
+      learnFromEngagement: settings?.learnFromEngagement ?? true,
+      learnedWindows,
+      learnedSampleSize: settings?.learnedSampleSize ?? 0,
+      learnedAt: settings?.learnedAt ?? null,
+      activeWindows: (await this.getActiveWindows(tenantId)) ?? [],
+    };
+  }
+
+  async updateSettings(
+    tenantId: string,
+    input: SendTimeSettingsInput
+  ): Promise<SendTimeSettingsView> {
+    if (input.windows) {
+      this.validateWindows(input.windows);
+    }
+
+    await sendTimeSettingRepository.upsertForTenant(tenantId, {
+      ...(input.enabled !== undefined && { enabled: input.enabled }),
+      ...(input.windows !== undefined && { windows: input.windows }),
+      ...(input.learnFromEngagement !== undefined && {
+        learnFromEngagement: input.learnFromEngagement,
+      }),
+    });
+
+    logger.info('[SendTimeService] Send time settings saved', { tenantId, ...input });
+
+    return await this.getSettings(tenantId);
+  }
+
+  /**
+   * Rebuilds the tenant's learned windows from recent human engagement. Events are placed
+   * in the contact's local time; events whose contact timezone can't be inferred are
+   * skipped. Stores null when there are too few events to learn from.
+   */
+  async refreshLearnedWindows(tenantId: string): Promise<SendWindow[] | null> {
+    const since = new Date(
+      Date.now() - SEND_TIME_CONFIG.LEARNING_LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+    );
+    const events = await messageEventRepository.findEngagementWithContactsForTenant(
+      tenantId,
+      since,
+      SEND_TIME_CONFIG.LEARNING_MAX_EVENTS
+    );
+
+    const samples: EngagementSample[] = events.flatMap((event) => {
+      const inferred = inferContactTimezone({
+        timezone: event.contactTimezone,
+        location: event.contactLocation,
+        leadAddress: event.leadAddress,
+        email: event.contactEmail,
+      });
+      if (!inferred) return [];
+
+      const { weekday, hour } = getLocalDateParts(event.eventAt, inferred.timezone);
+      return [{ weekday, hour }];
+    });
+
+    const learnedWindows =
+      samples.length >= SEND_TIME_CONFIG.LEARNING_MIN_EVENTS
+        ? learnSendWindows(samples, {
+            slotCount: SEND_TIME_CONFIG.LEARNED_SLOT_COUNT,
+            earliestHour: SEND_TIME_CONFIG.LEARNED_EARLIEST_HOUR,
+            latestHour: SEND_TIME_CONFIG.LEARNED_LATEST_HOUR,
+          })
+        : null;
+
+    await sendTimeSettingRepository.upsertForTenant(tenantId, {
+      learnedWindows,
+      learnedSampleSize: samples.length,
+      learnedAt: new Date(),
+    });
+
+    logger.info('[SendTimeService] Learned send windows refreshed', {
+      tenantId,
+      eventCount: events.length,
+      sampleSize: samples.length,
+      learnedWindows,
+    });
+
+    return learnedWindows;
+  }
+
+  /**
+   * Windows sends are moved into, or null when there are none: the tenant turned them off,
+   * or has neither configured nor learned any yet, so sends only follow the contact's
+   * timezone. Learned windows are refreshed here when stale, at most once at a time per
+   * tenant.
+   */
+  private async getActiveWindows(tenantId: string): Promise<SendWindow[] | null> {
+    const settings = await sendTimeSettingRepository.findByTenantId(tenantId);
+    if (settings && !settings.enabled) return null;
+
+    const configured = (settings?.windows as SendWindow[] | null) ?? null;
+    if (settings && !settings.learnFromEngagement) return configured;
+
+    let learned = (settings?.learnedWindows as SendWindow[] | null) ?? null;
+    const refreshAfter = SEND_TIME_CONFIG.LEARNING_REFRESH_HOURS * 60 * 60 * 1000;
+    if (!settings?.learnedAt || Date.now() - settings.learnedAt.getTime() > refreshAfter) {
+      learned = await this.refreshOnce(tenantId);
+    }
+
+    return learned && learned.length > 0 ? learned : configured;
+  }
+
+  private async loadBlackoutCheck(tenantId: string): Promise<BlackoutDateCheck | undefined> {
+    try {
+      return await blackoutService.getBlackoutCheck(tenantId);
+    } catch (error) {
+      logger.warn('[SendTimeService] Could not load blackout dates, scheduling without them', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  private async refreshOnce(tenantId: string): Promise<SendWindow[] | null> {
+    const pending = this.refreshes.get(tenantId);
+    if (pending) return await pending;
+
+    const refresh = this.refreshLearnedWindows(tenantId)
+      .catch((error) => {
+        logger.error('[SendTimeService] Failed to refresh learned send windows', {
+          tenantId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return null;
+      })
+      .finally(() => this.refreshes.delete(tenantId));
+
+    this.refreshes.set(tenantId, refresh);
+    return await refresh;
+  }
+
+  private validateWindows(windows: SendWindow[]): void {
+    for (const window of windows) {
+      if (
+        window.days.length === 0 ||
+        window.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+      ) {
+        throw new BadRequestError('Window days must be weekdays from 0 (Sunday) to 6 (Saturday)');
+      }
+      if (!isValidTimeFormat(window.start) || !isValidTimeFormat(window.end)) {
+        throw new BadRequestError('Window start and end must be HH:MM');
+      }
+      if (window.start >= window.end) {
+        throw new BadRequestError(`Window ${window.start}-${window.end} must end after it starts`);
+      }
+    }
+  }
+}
+
+export const sendTimeService = new SendTimeService();
@@ -0,0 +1,69 @@
+import type { SendWindow } from '@/modules/campaign/scheduleUtils';
+
+export interface EngagementSample {
+  weekday: number; // 0 = Sunday ... 6 = Saturday, in the contact's timezone
+  hour: number; // 0-23, in the contact's timezone
+}
+
+export interface LearnSendWindowsOptions {
+  slotCount: number;
+  earliestHour: number;
+  latestHour: number;
+}
+
+const SLOT_HOURS = 2;
+
+/**
+ * Turns historical engagement into send windows. Events are bucketed by local weekday
+ * and hour, every two-hour slot in the working day is scored by the events it holds, and
+ * the best non-overlapping slots are kept. Slots with the same hours on different days
+ * are merged into one window.
+ */
+export function learnSendWindows(
+  samples: EngagementSample[],
+  options: LearnSendWindowsOptions
+): SendWindow[] {
+  const histogram = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  for (const { weekday, hour } of samples) {
+    const day = histogram[weekday];
+    if (day && hour >= 0 && hour < 24) day[hour] = (day[hour] ?? 0) + 1;
+  }
+
+  const slots: Array<{ weekday: number; hour: number; score: number }> = [];
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let hour = options.earliestHour; hour <= options.latestHour; hour++) {
+      let score = 0;
+      for (let offset = 0; offset < SLOT_HOURS; offset++) {
+        score += histogram[weekday]![hour + offset] ?? 0;
+      }
+      if (score > 0) slots.push({ weekday, hour, score });
+    }
+  }
+
+  // Highest score first; earlier slots win ties so results are stable
+  slots.sort((a, b) => b.score - a.score || a.weekday - b.weekday || a.hour - b.hour);
+
+  const picked: typeof slots = [];
+  for (const slot of slots) {
+    if (picked.length >= options.slotCount) break;
+    const overlaps = picked.some(
+      (other) => other.weekday === slot.weekday && Math.abs(other.hour - slot.hour) < SLOT_HOURS
+    );
+    if (!overlaps) picked.push(slot);
+  }
+
+  const byHour = new Map<number, number[]>();
+  for (const slot of picked) {
+    byHour.set(slot.hour, [...(byHour.get(slot.hour) ?? []), slot.weekday]);
+  }
+
+  return [...byHour.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([hour, days]) => ({
+      days: days.sort((a, b) => a - b),
+      start: formatHour(hour),
+      end: formatHour(hour + SLOT_HOURS),
+    }));
+}
+
+const formatHour = (hour: number): string => `${String(hour).padStart(2, '0')}:00`;
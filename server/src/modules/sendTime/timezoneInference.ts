@@ -0,0 +1,255 @@
+import { isValidTimezone } from '@/modules/campaign/scheduleUtils';
+
+export type TimezoneSource = 'contact' | 'contact_location' | 'lead_address' | 'email_domain';
+
+export interface TimezoneInferenceInput {
+  timezone?: string | null; // Explicit timezone set on the contact
+  location?: string | null; // Contact location (webData or the lead's website)
+  leadAddress?: string | null;
+  email?: string | null;
+}
+
+export interface InferredTimezone {
+  timezone: string;
+  source: TimezoneSource;
+}
+
+// Dominant timezone per US state; split states use the zone most of the population is in
+const US_STATES: Record<string, { name: string; timezone: string }> = {
+  AL: { name: 'alabama', timezone: 'America/Chicago' },
+  AK: { name: 'alaska', timezone: 'America/Anchorage' },
+  AZ: { name: 'arizona', timezone: 'America/Phoenix' },
+  AR: { name: 'arkansas', timezone: 'America/Chicago' },
+  CA: { name: 'california', timezone: 'America/Los_Angeles' },
+  CO: { name: 'colorado', timezone: 'America/Denver' },
+  CT: { name: 'connecticut', timezone: 'America/New_York' },
+  DE: { name: 'delaware', timezone: 'America/New_York' },
+  DC: { name: 'district of columbia', timezone: 'America/New_York' },
+  FL: { name: 'florida', timezone: 'America/New_York' },
+  GA: { name: 'georgia', timezone: 'America/New_York' },
+  HI: { name: 'hawaii', timezone: 'Pacific/Honolulu' },
+  ID: { name: 'idaho', timezone: 'America/Boise' },
+  IL: { name: 'illinois', timezone: 'America/Chicago' },
+  IN: { name: 'indiana', timezone: 'America/Indiana/Indianapolis' },
+  IA: { name: 'iowa', timezone: 'America/Chicago' },
+  KS: { name: 'kansas', timezone: 'America/Chicago' },
+  KY: { name: 'kentucky', timezone: 'America/New_York' },
+  LA: { name: 'louisiana', timezone: 'America/Chicago' },
+  ME: { name: 'maine', timezone: 'America/New_York' },
+  MD: { name: 'maryland', timezone: 'America/New_York' },
+  MA: { name: 'massachusetts', timezone: 'America/New_York' },
+  MI: { name: 'michigan', timezone: 'America/Detroit' },
+  MN: { name: 'minnesota', timezone: 'America/Chicago' },
+  MS: { name: 'mississippi', timezone: 'America/Chicago' },
+  MO: { name: 'missouri', timezone: 'America/Chicago' },
+  MT: { name: 'montana', timezone: 'America/Denver' },
+  NE: { name: 'nebraska', timezone: 'America/Chicago' },
+  NV: { name: 'nevada', timezone: 'America/Los_Angeles' },
+  NH: { name: 'new hampshire', timezone: 'America/New_York' },
+  NJ: { name: 'new jersey', timezone: 'America/New_York' },
+  NM: { name: 'new mexico', timezone: 'America/Denver' },
+  NY: { name: 'new york', timezone: 'America/New_York' },
+  NC: { name: 'north carolina', timezone: 'America/New_York' },
+  ND: { name: 'north dakota', timezone: 'America/Chicago' },
+  OH: { name: 'ohio', timezone: 'America/New_York' },
+  OK: { name: 'oklahoma', timezone: 'America/Chicago' },
+  OR: { name: 'oregon', timezone: 'America/Los_Angeles' },
+  PA: { name: 'pennsylvania', timezone: 'America/New_York' },
+  RI: { name: 'rhode island', timezone: 'America/New_York' },
+  SC: { name: 'south carolina', timezone: 'America/New_York' },
+  SD: { name: 'south dakota', timezone: 'America/Chicago' },
+  TN: { name: 'tennessee', timezone: 'America/Chicago' },
+  TX: { name: 'texas', timezone: 'America/Chicago' },
+  UT: { name: 'utah', timezone: 'America/Denver' },
+  VT: { name: 'vermont', timezone: 'America/New_York' },
+  VA: { name: 'virginia', timezone: 'America/New_York' },
+  WA: { name: 'washington', timezone: 'America/Los_Angeles' },
+  WV: { name: 'west virginia', timezone: 'America/New_York' },
+  WI: { name: 'wisconsin', timezone: 'America/Chicago' },
+  WY: { name: 'wyoming', timezone: 'America/Denver' },
+};
+
+const CANADIAN_PROVINCES: Record<string, { name: string; timezone: string }> = {
+  AB: { name: 'alberta', timezone: 'America/Edmonton' },
+  BC: { name: 'british columbia', timezone: 'America/Vancouver' },
+  MB: { name: 'manitoba', timezone: 'America/Winnipeg' },
+  NB: { name: 'new brunswick', timezone: 'America/Moncton' },
+  NL: { name: 'newfoundland', timezone: 'America/St_Johns' },
+  NS: { name: 'nova scotia', timezone: 'America/Halifax' },
+  ON: { name: 'ontario', timezone: 'America/Toronto' },
+  PE: { name: 'prince edward island', timezone: 'America/Halifax' },
+  QC: { name: 'quebec', timezone: 'America/Toronto' },
+  SK: { name: 'saskatchewan', timezone: 'America/Regina' },
+};
+
+// Checked after state/province codes, so "Paris, TX" and "London, ON" stay in North America
+const CITIES: Record<string, string> = {
+  'new york': 'America/New_York',
+  'san francisco': 'America/Los_Angeles',
+  'los angeles': 'America/Los_Angeles',
+  'san diego': 'America/Los_Angeles',
+  'san jose': 'America/Los_Angeles',
+  seattle: 'America/Los_Angeles',
+  chicago: 'America/Chicago',
+  austin: 'America/Chicago',
+  dallas: 'America/Chicago',
+  houston: 'America/Chicago',
+  denver: 'America/Denver',
+  boston: 'America/New_York',
+  atlanta: 'America/New_York',
+  miami: 'America/New_York',
+  toronto: 'America/Toronto',
+  montreal: 'America/Toronto',
+  vancouver: 'America/Vancouver',
+  calgary: 'America/Edmonton',
+  london: 'Europe/London',
+  dublin: 'Europe/Dublin',
+  paris: 'Europe/Paris',
+  berlin: 'Europe/Berlin',
+  munich: 'Europe/Berlin',
+  amsterdam: 'Europe/Amsterdam',
+  madrid: 'Europe/Madrid',
+  stockholm: 'Europe/Stockholm',
+  sydney: 'Australia/Sydney',
+  melbourne: 'Australia/Melbourne',
+  brisbane: 'Australia/Brisbane',
+  perth: 'Australia/Perth',
+  singapore: 'Asia/Singapore',
+  tokyo: 'Asia/Tokyo',
+  bangalore: 'Asia/Kolkata',
+  bengaluru: 'Asia/Kolkata',
+  'tel aviv': 'Asia/Jerusalem',
+  dubai: 'Asia/Dubai',
+};
+
+// Countries that span several timezones (United States, Canada, Brazil...) are left out
+const COUNTRIES: Record<string, string> = {
+  'united kingdom': 'Europe/London',
+  england: 'Europe/London',
+  scotland: 'Europe/London',
+  wales: 'Europe/London',
+  ireland: 'Europe/Dublin',
+  germany: 'Europe/Berlin',
+  france: 'Europe/Paris',
+  spain: 'Europe/Madrid',
+  italy: 'Europe/Rome',
+  netherlands: 'Europe/Amsterdam',
+  belgium: 'Europe/Brussels',
+  switzerland: 'Europe/Zurich',
+  austria: 'Europe/Vienna',
+  sweden: 'Europe/Stockholm',
+  norway: 'Europe/Oslo',
+  denmark: 'Europe/Copenhagen',
+  finland: 'Europe/Helsinki',
+  poland: 'Europe/Warsaw',
+  portugal: 'Europe/Lisbon',
+  india: 'Asia/Kolkata',
+  israel: 'Asia/Jerusalem',
+  japan: 'Asia/Tokyo',
+  singapore: 'Asia/Singapore',
+  'new zealand': 'Pacific/Auckland',
+  'south africa': 'Africa/Johannesburg',
+  'united arab emirates': 'Asia/Dubai',
+};
+
+// Country-code TLDs; generic TLDs (.com, .io) say nothing about where someone is
+const COUNTRY_TLDS: Record<string, string> = {
+  uk: 'Europe/London',
+  ie: 'Europe/Dublin',
+  de: 'Europe/Berlin',
+  fr: 'Europe/Paris',
+  es: 'Europe/Madrid',
+  it: 'Europe/Rome',
+  nl: 'Europe/Amsterdam',
+  be: 'Europe/Brussels',
+  ch: 'Europe/Zurich',
+  at: 'Europe/Vienna',
+  se: 'Europe/Stockholm',
+  no: 'Europe/Oslo',
+  dk: 'Europe/Copenhagen',
+  fi: 'Europe/Helsinki',
+  pl: 'Europe/Warsaw',
+  pt: 'Europe/Lisbon',
+  in: 'Asia/Kolkata',
+  il: 'Asia/Jerusalem',
+  jp: 'Asia/Tokyo',
+  sg: 'Asia/Singapore',
+  hk: 'Asia/Hong_Kong',
+  au: 'Australia/Sydney',
+  nz: 'Pacific/Auckland',
+  za: 'Africa/Johannesburg',
+  ae: 'Asia/Dubai',
+  mx: 'America/Mexico_City',
+};
+
+const containsWord = (text: string, word: string): boolean =>
+  new RegExp(`\\b${word}\\b`).test(text);
+
+/**
+ * Infers an IANA timezone from free-text location or address, e.g. "Austin, TX",
+ * "123 Main St, Portland, OR 97205" or "Berlin, Germany". Returns null when nothing
+ * recognizable is found.
+ */
+export function inferTimezoneFromLocation(location: string | null | undefined): string | null {
+  if (!location?.trim()) return null;
+
+  const lower = location.toLowerCase();
+
+  // Two-letter codes only count in upper case after a comma ("Portland, OR 97205"),
+  // so words like "in" or "or" in an address don't match
+  const codes = [...location.matchAll(/,\s*([A-Z]{2})\b/g)].map((match) => match[1]!);
+  for (const code of codes) {
+    const region = US_STATES[code] ?? CANADIAN_PROVINCES[code];
+    if (region) return region.timezone;
+  }
+
+  for (const [city, timezone] of Object.entries(CITIES)) {
+    if (containsWord(lower, city)) return timezone;
+  }
+
+  // Longest names first so "west virginia" wins over "virginia"
+  const regions = [...Object.values(US_STATES), ...Object.values(CANADIAN_PROVINCES)].sort(
+    (a, b) => b.name.length - a.name.length
+  );
+  for (const region of regions) {
+    if (containsWord(lower, region.name)) return region.timezone;
+  }
+
+  for (const [country, timezone] of Object.entries(COUNTRIES)) {
+    if (containsWord(lower, country)) return timezone;
+  }
+
+  return null;
+}
+
+/**
+ * Infers a timezone from the country-code TLD of an email address (jane@acme.co.uk)
+ */
+export function inferTimezoneFromEmail(email: string | null | undefined): string | null {
+  const domain = email?.split('@')[1]?.trim().toLowerCase();
+  if (!domain) return null;
+
+  const tld = domain.split('.').pop();
+  return (tld && COUNTRY_TLDS[tld]) || null;
+}
+
+/**
+ * Picks the best available timezone for a contact: an explicit timezone, then the
+ * contact's location, the lead's address and finally the email domain's country.
+ */
+export function inferContactTimezone(input: TimezoneInferenceInput): InferredTimezone | null {
+  if (input.timezone && isValidTimezone(input.timezone)) {
+    return { timezone: input.timezone, source: 'contact' };
+  }
+
+  const fromLocation = inferTimezoneFromLocation(input.location);
+  if (fromLocation) return { timezone: fromLocation, source: 'contact_location' };
+
+  const fromAddress = inferTimezoneFromLocation(input.leadAddress);
+  if (fromAddress) return { timezone: fromAddress, source: 'lead_address' };
+
+  const fromEmail = inferTimezoneFromEmail(input.email);
+  if (fromEmail) return { timezone: fromEmail, source: 'email_domain' };
+
+  return null;
+}
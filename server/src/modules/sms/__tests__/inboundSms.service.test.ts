@@ -0,0 +1,144 @@
+import {
+  contactCampaignRepository,
+  inboundMessageRepository,
+  outboundMessageRepository,
+} from '@/repositories';
+import { unsubscribeService } from '@/modules/unsubscribe';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { ReplyIngestionPublisher } from '@/modules/messages/replyIngestion.publisher.service';
+import { InboundSmsService, parseSmsKeyword } from '../inboundSms.service';
+
+jest.mock('@/repositories', () => ({
+  contactCampaignRepository: { findByIdForTenant: jest.fn() },
+  inboundMessageRepository: {
+    findByProviderMessageIdForTenant: jest.fn(),
+    createForTenant: jest.fn(),
+  },
+  outboundMessageRepository: { findLatestSentSmsPerTenantToNumber: jest.fn() },
+}));
+
+jest.mock('@/modules/unsubscribe', () => ({
+  unsubscribeService: { unsubscribeByChannel: jest.fn(), resubscribeByChannel: jest.fn() },
+}));
+
+jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
+  campaignPlanExecutionService: { stopCampaign: jest.fn() },
+}));
+
+jest.mock('@/modules/messages/replyIngestion.publisher.service', () => ({
+  ReplyIngestionPublisher: { publishClassification: jest.fn() },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('parseSmsKeyword', () => {
+  it('matches whole-message keywords regardless of case and punctuation', () => {
+    expect(parseSmsKeyword(' stop ')).toBe('stop');
+    expect(parseSmsKeyword('Unsubscribe!')).toBe('stop');
+    expect(parseSmsKeyword('START')).toBe('start');
+    expect(parseSmsKeyword('please stop texting me')).toBeNull();
+  });
+});
+
+describe('InboundSmsService', () => {
+  const service = new InboundSmsService();
+  const outboundMessage = {
+    id: 'out-1',
+    tenantId: 'tenant-1',
+    campaignId: 'campaign-1',
+    contactId: 'contact-1',
+  };
+  const sms = (body: string) => ({
+    providerMessageId: 'SM1',
+    from: '+1 (415) 555-2671',
+    to: '+15550000000',
+    body,
+    receivedAt: new Date(),
+    raw: {},
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (outboundMessageRepository.findLatestSentSmsPerTenantToNumber as jest.Mock).mockResolvedValue([
+      outboundMessage,
+    ]);
+    (inboundMessageRepository.findByProviderMessageIdForTenant as jest.Mock).mockResolvedValue(
+      undefined
+    );
+    (inboundMessageRepository.createForTenant as jest.Mock).mockResolvedValue({ id: 'in-1' });
+    (contactCampaignRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      id: 'campaign-1',
+      status: 'active',
+      currentNodeId: 'sms_1',
+    });
+  });
+
+  it('opts the number out and stops the campaign on STOP', async () => {
+    const result = await service.handleInboundSms(sms('STOP'));
+
+    expect(result.outcome).toBe('opted_out');
+    expect(unsubscribeService.unsubscribeByChannel).toHaveBeenCalledWith(
+      'tenant-1',
+      'sms',
+      '+14155552671',
+      'sms_stop',
+      { campaignId: 'campaign-1', contactId: 'contact-1' }
+    );
+    expect(campaignPlanExecutionService.stopCampaign).toHaveBeenCalledWith(
+      expect.objectContaining({ campaignId: 'campaign-1', currentNodeId: 'sms_1' })
+    );
+    expect(ReplyIngestionPublisher.publishClassification).not.toHaveBeenCalled();
+  });
+
+  it('opts the number out with every tenant that has texted it', async () => {
+    (outboundMessageRepository.findLatestSentSmsPerTenantToNumber as jest.Mock).mockResolvedValue([
+      outboundMessage,
+      { id: 'out-2', tenantId: 'tenant-2', campaignId: 'campaign-2', contactId: 'contact-2' },
+    ]);
+
+    const result = await service.handleInboundSms(sms('STOP'));
+
+    expect(result).toMatchObject({ outcome: 'opted_out', tenantId: 'tenant-1' });
+    expect(unsubscribeService.unsubscribeByChannel).toHaveBeenCalledWith(
+      'tenant-2',
+      'sms',
+      '+14155552671',
+      'sms_stop',
+      { campaignId: 'campaign-2', contactId: 'contact-2' }
+    );
+    expect(contactCampaignRepository.findByIdForTenant).toHaveBeenCalledWith(
+      'campaign-2',
+      'tenant-2'
+    );
+    // The text itself is stored once, with the most recent conversation
+    expect(inboundMessageRepository.createForTenant).toHaveBeenCalledTimes(1);
+    expect(inboundMessageRepository.createForTenant).toHaveBeenCalledWith(
+      'tenant-1',
+      expect.objectContaining({ outboundMessageId: 'out-1' })
+    );
+  });
+
+  it('sends other texts to reply classification', async () => {
+    const result = await service.handleInboundSms(sms('Sure, call me tomorrow'));
+
+    expect(result.outcome).toBe('stored');
+    expect(ReplyIngestionPublisher.publishClassification).toHaveBeenCalledWith({
+      inboundMessageId: 'in-1',
+      tenantId: 'tenant-1',
+    });
+    expect(unsubscribeService.unsubscribeByChannel).not.toHaveBeenCalled();
+  });
+
+  it('ignores texts from numbers we never messaged', async () => {
+    (outboundMessageRepository.findLatestSentSmsPerTenantToNumber as jest.Mock).mockResolvedValue(
+      []
+    );
+
+    const result = await service.handleInboundSms(sms('STOP'));
+
+    expect(result).toEqual({ outcome: 'unmatched' });
+    expect(inboundMessageRepository.createForTenant).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  contactCampaignRepository,
+  messageEventRepository,
+  outboundMessageRepository,
+} from '@/repositories';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { SmsStatusService } from '../smsStatus.service';
+
+jest.mock('@/config', () => ({ API_URL: 'https://api.example.com' }));
+
+jest.mock('@/repositories', () => ({
+  contactCampaignRepository: { findByIdForTenant: jest.fn() },
+  messageEventRepository: { findByMessageAndType: jest.fn(), createForTenant: jest.fn() },
+  outboundMessageRepository: { findByIdForTenant: jest.fn() },
+}));
+
+jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
+  campaignPlanExecutionService: { processTransition: jest.fn() },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('SmsStatusService', () => {
+  const service = new SmsStatusService();
+  const message = {
+    id: 'out-1',
+    tenantId: 'tenant-1',
+    campaignId: 'campaign-1',
+    channel: 'sms',
+    providerMessageId: 'SM1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (outboundMessageRepository.findByIdForTenant as jest.Mock).mockResolvedValue(message);
+    (messageEventRepository.findByMessageAndType as jest.Mock).mockResolvedValue(null);
+    (contactCampaignRepository.findByIdForTenant as jest.Mock).mockResolvedValue({
+      id: 'campaign-1',
+      contactId: 'contact-1',
+      leadId: 'lead-1',
+      status: 'active',
+      currentNodeId: 'sms_1',
+      planJson: { nodes: [] },
+    });
+  });
+
+  it('records a delivery and fires the sms node transition', async () => {
+    const result = await service.handleStatus('tenant-1', 'out-1', {
+      providerMessageId: 'SM1',
+      status: 'delivered',
+    });
+
+    expect(result.outcome).toBe('delivered');
+    expect(messageEventRepository.createForTenant).toHaveBeenCalledWith(
+      'tenant-1',
+      expect.objectContaining({ messageId: 'out-1', type: 'delivered' })
+    );
+    expect(campaignPlanExecutionService.processTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        campaignId: 'campaign-1',
+        currentNodeId: 'sms_1',
+        eventType: 'delivered',
+        channel: 'sms',
+      })
+    );
+  });
+
+  it('counts a retried delivery callback once', async () => {
+    (messageEventRepository.findByMessageAndType as jest.Mock).mockResolvedValue({ id: 'ev-1' });
+
+    const result = await service.handleStatus('tenant-1', 'out-1', {
+      providerMessageId: 'SM1',
+      status: 'delivered',
+    });
+
+    expect(result.outcome).toBe('duplicate');
+    expect(campaignPlanExecutionService.processTransition).not.toHaveBeenCalled();
+  });
+
+  it('ignores callbacks for another provider message', async () => {
+    const result = await service.handleStatus('tenant-1', 'out-1', {
+      providerMessageId: 'SM2',
+      status: 'delivered',
+    });
+
+    expect(result.outcome).toBe('unmatched');
+    expect(messageEventRepository.createForTenant).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { logger } from '@/libs/logger';
+import { formatPhoneForStorage } from '@/libs/phoneFormatter';
+import type { InboundSms } from '@/libs/sms/sms.types';
+import {
+  contactCampaignRepository,
+  inboundMessageRepository,
+  outboundMessageRepository,
+} from '@/repositories';
+import type { OutboundMessage } from '@/db/schema';
+import { unsubscribeService } from '@/modules/unsubscribe';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { ReplyIngestionPublisher } from '@/modules/messages/replyIngestion.publisher.service';
+
+// Carrier-standard opt-out / opt-in keywords; the whole message must be the keyword
+export const SMS_STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+export const SMS_START_KEYWORDS = ['START', 'UNSTOP'];
+
+export type SmsKeyword = 'stop' | 'start';
+
+export interface InboundSmsResult {
+  outcome: 'stored' | 'opted_out' | 'opted_in' | 'duplicate' | 'unmatched';
+  inboundMessageId?: string;
+  tenantId?: string;
+}
+
+/**
+ * Handles texts sent back to our SMS number. The sender is matched to the last campaign
+ * SMS sent to their number, and the text is stored as an inbound_messages row.
+ * STOP keywords opt the number out of SMS and stop the campaign in every tenant that has
+ * texted it; START opts it back in. Anything else is a reply and goes through reply
+ * classification like an email reply.
+ */
+export class InboundSmsService {
+  async handleInboundSms(sms: InboundSms): Promise<InboundSmsResult> {
+    const phone = formatPhoneForStorage(sms.from) ?? sms.from;
+
+    const latestPerTenant =
+      await outboundMessageRepository.findLatestSentSmsPerTenantToNumber(phone);
+    const outboundMessage = latestPerTenant[0];
+    if (!outboundMessage) {
+      logger.info('[InboundSmsService] No campaign SMS found for sender, ignoring', {
+        providerMessageId: sms.providerMessageId,
+      });
+      return { outcome: 'unmatched' };
+    }
+
+    const { tenantId } = outboundMessage;
+
+    const existing = await inboundMessageRepository.findByProviderMessageIdForTenant(
+      tenantId,
+      'sms',
+      sms.providerMessageId
+    );
+    if (existing) {
+      return { outcome: 'duplicate', inboundMessageId: existing.id, tenantId };
+    }
+
+    const keyword = parseSmsKeyword(sms.body);
+
+    const inboundMessage = await inboundMessageRepository.createForTenant(tenantId, {
+      campaignId: outboundMessage.campaignId,
+      contactId: outboundMessage.contactId,
+      outboundMessageId: outboundMessage.id,
+      channel: 'sms',
+      providerMessageId: sms.providerMessageId,
+      fromAddress: phone,
+      receivedAt: sms.receivedAt,
+      bodyText: sms.body,
+      raw: sms.raw,
+      // Keywords are handled here and never reach the classifier
+      ...(keyword === 'stop' && { classification: 'unsubscribe', classifiedAt: new Date() }),
+    });
+
+    logger.info('[InboundSmsService] Stored inbound SMS', {
+      tenantId,
+      inboundMessageId: inboundMessage.id,
+      outboundMessageId: outboundMessage.id,
+      campaignId: outboundMessage.campaignId,
+      keyword,
+    });
+
+    // The carrier blocks the number for our sender as a whole, so keywords apply to every tenant
+    if (keyword === 'stop') {
+      for (const message of latestPerTenant) {
+        await this.optOut(phone, message);
+      }
+      return { outcome: 'opted_out', inboundMessageId: inboundMessage.id, tenantId };
+    }
+
+    if (keyword === 'start') {
+      for (const message of latestPerTenant) {
+        await unsubscribeService.resubscribeByChannel(message.tenantId, 'sms', phone);
+      }
+      return { outcome: 'opted_in', inboundMessageId: inboundMessage.id, tenantId };
+    }
+
+    await ReplyIngestionPublisher.publishClassification({
+      inboundMessageId: inboundMessage.id,
+      tenantId,
+    });
+
+    return { outcome: 'stored', inboundMessageId: inboundMessage.id, tenantId };
+  }
+
+  private async optOut(phone: string, outboundMessage: OutboundMessage): Promise<void> {
+    const { tenantId, campaignId, contactId } = outboundMessage;
+
+    await unsubscribeService.unsubscribeByChannel(tenantId, 'sms', phone, 'sms_stop', {
+      campaignId,
+      contactId,
+    });
+
+    const campaign = await contactCampaignRepository.findByIdForTenant(campaignId, tenantId);
+    if (!campaign || campaign.status !== 'active' || !campaign.currentNodeId) {
+      return;
+    }
+
+    await campaignPlanExecutionService.stopCampaign({
+      tenantId,
+      campaignId,
+      currentNodeId: campaign.currentNodeId,
+      reason: 'SMS opt-out (STOP)',
+    });
+
+    logger.info('[InboundSmsService] Campaign stopped on SMS opt-out', {
+      tenantId,
+      campaignId,
+      currentNodeId: campaign.currentNodeId,
+    });
+  }
+}
+
+/**
+ * Returns the opt-out / opt-in keyword a text consists of, ignoring case, surrounding
+ * whitespace and trailing punctuation
+ */
+export const parseSmsKeyword = (body: string | null | undefined): SmsKeyword | null => {
+  const word = (body ?? '')
+    .trim()
+    .toUpperCase()
+    .replace(/[.!]+$/, '');
+  if (SMS_STOP_KEYWORDS.includes(word)) return 'stop';
+  if (SMS_START_KEYWORDS.includes(word)) return 'start';
+  return null;
+};
+
+export const inboundSmsService = new InboundSmsService();
@@ -0,0 +1,15 @@
+export {
+  InboundSmsService,
+  inboundSmsService,
+  parseSmsKeyword,
+  SMS_STOP_KEYWORDS,
+  SMS_START_KEYWORDS,
+} from './inboundSms.service';
+export type { InboundSmsResult, SmsKeyword } from './inboundSms.service';
+export {
+  SmsStatusService,
+  smsStatusService,
+  buildSmsStatusCallbackUrl,
+  SMS_STATUS_WEBHOOK_PATH,
+} from './smsStatus.service';
+export type { SmsStatusResult } from './smsStatus.service';
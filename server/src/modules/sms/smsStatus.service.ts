@@ -0,0 +1,103 @@
+import { logger } from '@/libs/logger';
+import { API_URL } from '@/config';
+import type { SmsStatusUpdate } from '@/libs/sms/sms.types';
+import {
+  contactCampaignRepository,
+  messageEventRepository,
+  outboundMessageRepository,
+} from '@/repositories';
+import { CAMPAIGN_EVENT_TYPES, SENDGRID_EVENT_TYPES } from '@/constants/campaign-events';
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+
+export const SMS_STATUS_WEBHOOK_PATH = '/webhooks/sms/status';
+
+export interface SmsStatusResult {
+  outcome: 'delivered' | 'duplicate' | 'ignored' | 'unmatched';
+}
+
+/**
+ * Status callback URL for one sent text. It names the tenant and message, so the
+ * callback never has to look a message up across tenants.
+ */
+export const buildSmsStatusCallbackUrl = (tenantId: string, outboundMessageId: string): string =>
+  `${API_URL}/api${SMS_STATUS_WEBHOOK_PATH}/${encodeURIComponent(tenantId)}/${encodeURIComponent(outboundMessageId)}`;
+
+/**
+ * Handles delivery status callbacks for campaign texts. A `delivered` status is stored
+ * as a message event, like SendGrid's, and fires the sms node's `delivered` transition.
+ */
+export class SmsStatusService {
+  async handleStatus(
+    tenantId: string,
+    outboundMessageId: string,
+    update: SmsStatusUpdate
+  ): Promise<SmsStatusResult> {
+    const message = await outboundMessageRepository.findByIdForTenant(outboundMessageId, tenantId);
+    if (
+      !message ||
+      message.channel !== 'sms' ||
+      message.providerMessageId !== update.providerMessageId
+    ) {
+      logger.info('[SmsStatusService] No matching SMS for status callback, ignoring', {
+        tenantId,
+        outboundMessageId,
+        providerMessageId: update.providerMessageId,
+      });
+      return { outcome: 'unmatched' };
+    }
+
+    if (update.status !== 'delivered') {
+      logger.debug('[SmsStatusService] SMS status recorded by provider only', {
+        tenantId,
+        outboundMessageId,
+        status: update.status,
+      });
+      return { outcome: 'ignored' };
+    }
+
+    // Providers retry callbacks; only the first delivery counts
+    if (
+      await messageEventRepository.findByMessageAndType(message.id, SENDGRID_EVENT_TYPES.DELIVERED)
+    ) {
+      return { outcome: 'duplicate' };
+    }
+
+    await messageEventRepository.createForTenant(tenantId, {
+      messageId: message.id,
+      type: SENDGRID_EVENT_TYPES.DELIVERED,
+      eventAt: new Date(),
+      data: {
+        provider: 'twilio',
+        status: update.status,
+        providerMessageId: update.providerMessageId,
+      },
+    });
+
+    const campaign = await contactCampaignRepository.findByIdForTenant(
+      message.campaignId,
+      tenantId
+    );
+    if (campaign?.status === 'active' && campaign.currentNodeId) {
+      await campaignPlanExecutionService.processTransition({
+        tenantId,
+        campaignId: campaign.id,
+        contactId: campaign.contactId,
+        leadId: campaign.leadId,
+        eventType: CAMPAIGN_EVENT_TYPES.DELIVERED,
+        currentNodeId: campaign.currentNodeId,
+        plan: campaign.planJson as CampaignPlanOutput,
+        channel: 'sms',
+      });
+    }
+
+    logger.info('[SmsStatusService] SMS delivered', {
+      tenantId,
+      outboundMessageId,
+      campaignId: message.campaignId,
+    });
+    return { outcome: 'delivered' };
+  }
+}
+
+export const smsStatusService = new SmsStatusService();
@@ -0,0 +1,112 @@
+import { communicationSuppressionRepository } from '@/repositories';
+import { BadRequestError } from '@/exceptions/error';
+import { SuppressionService, normalizeAddress } from '../suppression.service';
+
+jest.mock('@/repositories', () => ({
+  communicationSuppressionRepository: {
+    findActiveByAddressesForTenant: jest.fn(),
+    searchForTenant: jest.fn(),
+    upsertManyForTenant: jest.fn(),
+  },
+}));
+
+jest.mock('@/libs/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('normalizeAddress', () => {
+  it('normalizes email addresses and bare domains', () => {
+    expect(normalizeAddress('email', ' Jane@Acme.COM ')).toBe('jane@acme.com');
+    expect(normalizeAddress('email', '@Competitor.io')).toBe('competitor.io');
+    expect(normalizeAddress('email', 'not an address')).toBeNull();
+  });
+
+  it('normalizes phone numbers for sms', () => {
+    expect(normalizeAddress('sms', '+1 (555) 123-4567')).toBe('+15551234567');
+    expect(normalizeAddress('sms', 'call me')).toBeNull();
+  });
+});
+
+describe('SuppressionService', () => {
+  const service = new SuppressionService();
+  const tenantId = 'tenant-1';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (communicationSuppressionRepository.upsertManyForTenant as jest.Mock).mockImplementation(
+      async (_tenantId, rows) => rows.map((row: object, i: number) => ({ id: `s-${i}`, ...row }))
+    );
+  });
+
+  it('checks the address and every parent domain', async () => {
+    const domainEntry = { id: 's-1', address: 'acme.com', reason: 'competitor' };
+    (
+      communicationSuppressionRepository.findActiveByAddressesForTenant as jest.Mock
+    ).mockResolvedValue([domainEntry]);
+
+    const result = await service.findActiveSuppression(tenantId, 'email', 'Jane@EU.Acme.com');
+
+    expect(result).toBe(domainEntry);
+    expect(communicationSuppressionRepository.findActiveByAddressesForTenant).toHaveBeenCalledWith(
+      tenantId,
+      'email',
+      ['jane@eu.acme.com', 'eu.acme.com', 'acme.com']
+    );
+  });
+
+  it('keeps an existing suppression when the provider reports the address again', async () => {
+    const existing = { id: 's-1', address: 'jane@acme.com', reason: 'legal' };
+    (
+      communicationSuppressionRepository.findActiveByAddressesForTenant as jest.Mock
+    ).mockResolvedValue([existing]);
+
+    const result = await service.suppressFromProvider(
+      tenantId,
+      'email',
+      'jane@acme.com',
+      'hard_bounce'
+    );
+
+    expect(result).toBe(existing);
+    expect(communicationSuppressionRepository.upsertManyForTenant).not.toHaveBeenCalled();
+  });
+
+  it('imports a CSV with a header, applying defaults and reporting invalid rows', async () => {
+    const csv = [
+      'address,reason,expires_at',
+      'competitor.io,competitor,',
+      '"jane@customer.com",,2027-01-01T00:00:00.000Z',
+      'not-an-address,,',
+      'jane@customer.com,customer,',
+    ].join('\r\n');
+
+    const result = await service.importCsv(tenantId, csv, { reason: 'legal' });
+
+    expect(result.imported).toBe(2);
+    expect(result.invalid).toEqual([
+      { line: 4, value: 'not-an-address', error: expect.any(String) },
+    ]);
+    expect(communicationSuppressionRepository.upsertManyForTenant).toHaveBeenCalledWith(tenantId, [
+      { channel: 'email', address: 'competitor.io', reason: 'competitor', expiresAt: null },
+      { channel: 'email', address: 'jane@customer.com', reason: 'customer', expiresAt: null },
+    ]);
+  });
+
+  it('treats a headerless CSV as a list of addresses', async () => {
+    const result = await service.importCsv(tenantId, 'a@x.com\nb@y.com\n', {
+      reason: 'customer',
+    });
+
+    expect(result).toEqual({ imported: 2, invalid: [] });
+  });
+
+  it('rejects unknown reasons', async () => {
+    await expect(
+      service.addSuppression(tenantId, {
+        channel: 'email',
+        address: 'jane@acme.com',
+        reason: 'because' as any,
+      })
+    ).rejects.toBeInstanceOf(BadRequestError);
+  });
+});
@@ -0,0 +1,14 @@
+export {
+  SuppressionService,
+  suppressionService,
+  normalizeAddress,
+  SUPPRESSION_REASONS,
+} from './suppression.service';
+export type {
+  SuppressionReason,
+  SuppressionChannel,
+  SuppressionInput,
+  SuppressionListFilters,
+  SuppressionImportOptions,
+  SuppressionImportResult,
+} from './suppression.service';
@@ -0,0 +1,341 @@
+import { logger } from '@/libs/logger';
+import { BadRequestError, NotFoundError } from '@/exceptions/error';
+import { communicationSuppressionRepository } from '@/repositories';
+import type { CommunicationSuppression } from '@/db/schema';
+import { parseCsv, toCsv } from '@/utils/csv';
+
+export const SUPPRESSION_REASONS = [
+  'manual',
+  'competitor',
+  'customer',
+  'legal',
+  'hard_bounce',
+  'spam_report',
+] as const;
+export type SuppressionReason = (typeof SUPPRESSION_REASONS)[number];
+export type SuppressionChannel = CommunicationSuppression['channel'];
+
+export interface SuppressionInput {
+  channel: SuppressionChannel;
+  address: string;
+  reason?: SuppressionReason;
+  expiresAt?: string | Date | null;
+}
+
+export interface SuppressionListFilters {
+  channel?: SuppressionChannel;
+  reason?: SuppressionReason;
+  search?: string;
+  includeExpired?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface SuppressionImportOptions {
+  channel?: SuppressionChannel;
+  reason?: SuppressionReason;
+  expiresAt?: string | null;
+}
+
+export interface SuppressionImportResult {
+  imported: number;
+  invalid: { line: number; value: string; error: string }[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+const PHONE_PATTERN = /^\+?\d{7,15}$/;
+const IMPORT_BATCH_SIZE = 500;
+const DEFAULT_PAGE_SIZE = 50;
+const CSV_COLUMNS = ['address', 'channel', 'reason', 'expires_at', 'suppressed_at'];
+
+/**
+ * Tenant suppression list backed by communication_suppressions. An email entry is either a
+ * full address or a bare domain (`acme.com`), which blocks every address at that domain and
+ * its subdomains. Entries with an expiresAt stop applying once it passes. Unlike
+ * contact_unsubscribes, which records the recipient's own opt-out, suppressions are
+ * tenant-managed (competitors, customers, legal lists) or added from provider bounces.
+ */
+export class SuppressionService {
+  /**
+   * Returns the active suppression that blocks the address, if any
+   */
+  async findActiveSuppression(
+    tenantId: string,
+    channel: SuppressionChannel,
+    address: string
+  ): Promise<CommunicationSuppression | undefined> {
+    const normalized = normalizeAddress(channel, address);
+    if (!normalized) return undefined;
+
+    const candidates = channel === 'email' ? emailLookupKeys(normalized) : [normalized];
+    const matches = await communicationSuppressionRepository.findActiveByAddressesForTenant(
+      tenantId,
+      channel,
+      candidates
+    );
+
+    // Prefer the exact address over a domain entry when both exist
+    return matches.find((m) => m.address === normalized) ?? matches[0];
+  }
+
+  async listSuppressions(
+    tenantId: string,
+    filters: SuppressionListFilters = {}
+  ): Promise<{ suppressions: CommunicationSuppression[]; total: number }> {
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+    const page = Math.max(1, filters.page ?? 1);
+
+    return await communicationSuppressionRepository.searchForTenant(tenantId, {
+      channel: filters.channel,
+      reason: filters.reason,
+      search: filters.search,
+      includeExpired: filters.includeExpired,
+      limit,
+      offset: (page - 1) * limit,
+    });
+  }
+
+  async addSuppression(
+    tenantId: string,
+    input: SuppressionInput
+  ): Promise<CommunicationSuppression> {
+    const row = this.toRow(input);
+    const [suppression] = await communicationSuppressionRepository.upsertManyForTenant(tenantId, [
+      row,
+    ]);
+
+    logger.info('[SuppressionService] Suppression added', {
+      tenantId,
+      suppressionId: suppression!.id,
+      channel: row.channel,
+      address: row.address,
+      reason: row.reason,
+      expiresAt: row.expiresAt,
+    });
+
+    return suppression!;
+  }
+
+  async updateSuppression(
+    tenantId: string,
+    suppressionId: string,
+    input: Pick<SuppressionInput, 'reason' | 'expiresAt'>
+  ): Promise<CommunicationSuppression> {
+    const data: Partial<CommunicationSuppression> = { updatedAt: new Date() };
+    if (input.reason !== undefined) data.reason = validateReason(input.reason);
+    if (input.expiresAt !== undefined) data.expiresAt = parseExpiresAt(input.expiresAt);
+
+    const updated = await communicationSuppressionRepository.updateByIdForTenant(
+      suppressionId,
+      tenantId,
+      data
+    );
+    if (!updated) {
+      throw new NotFoundError(`Suppression not found: ${suppressionId}`);
+    }
+
+    return updated;
+  }
+
+  async removeSuppression(tenantId: string, suppressionId: string): Promise<void> {
+    const deleted = await communicationSuppressionRepository.deleteByIdForTenant(
+      suppressionId,
+      tenantId
+    );
+    if (!deleted) {
+      throw new NotFoundError(`Suppression not found: ${suppressionId}`);
+    }
+
+    logger.info('[SuppressionService] Suppression removed', {
+      tenantId,
+      suppressionId,
+      channel: deleted.channel,
+      address: deleted.address,
+    });
+  }
+
+  /**
+   * Auto-suppresses an address reported by the email provider (hard bounce, spam report).
+   * An address that is already actively suppressed keeps its existing entry.
+   */
+  async suppressFromProvider(
+    tenantId: string,
+    channel: SuppressionChannel,
+    address: string,
+    reason: Extract<SuppressionReason, 'hard_bounce' | 'spam_report'>
+  ): Promise<CommunicationSuppression | undefined> {
+    const normalized = normalizeAddress(channel, address);
+    if (!normalized) return undefined;
+
+    const existing = await communicationSuppressionRepository.findActiveByAddressesForTenant(
+      tenantId,
+      channel,
+      [normalized]
+    );
+    if (existing.length > 0) return existing[0];
+
+    return await this.addSuppression(tenantId, { channel, address: normalized, reason });
+  }
+
+  /**
+   * Imports a CSV list. With a header row the `address`, `channel`, `reason` and
+   * `expires_at` columns are read by name; without one the first column is the address.
+   * Options fill in any column the file leaves out.
+   */
+  async importCsv(
+    tenantId: string,
+    csv: string,
+    options: SuppressionImportOptions = {}
+  ): Promise<SuppressionImportResult> {
+    const rows = parseCsv(csv);
+    if (rows.length === 0) {
+      throw new BadRequestError('CSV file is empty');
+    }
+
+    const header = rows[0]!.map((h) => h.trim().toLowerCase());
+    const hasHeader = header.includes('address');
+    const column = (name: string) =>
+      hasHeader ? header.indexOf(name) : name === 'address' ? 0 : -1;
+    const columns = {
+      address: column('address'),
+      channel: column('channel'),
+      reason: column('reason'),
+      expiresAt: column('expires_at'),
+    };
+
+    const valid = new Map<string, ReturnType<SuppressionService['toRow']>>();
+    const invalid: SuppressionImportResult['invalid'] = [];
+
+    rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+      const line = index + (hasHeader ? 2 : 1);
+      const value = (columns.address >= 0 ? row[columns.address] : '')?.trim() ?? '';
+      const cell = (i: number) => (i >= 0 ? row[i]?.trim() || undefined : undefined);
+
+      try {
+        const parsed = this.toRow({
+          channel: (cell(columns.channel) as SuppressionChannel) ?? options.channel ?? 'email',
+          address: value,
+          reason: (cell(columns.reason) as SuppressionReason) ?? options.reason,
+          expiresAt: cell(columns.expiresAt) ?? options.expiresAt,
+        });
+        valid.set(`${parsed.channel}:${parsed.address}`, parsed);
+      } catch (error) {
+        invalid.push({
+          line,
+          value,
+          error: error instanceof Error ? error.message : 'Invalid row',
+        });
+      }
+    });
+
+    const entries = [...valid.values()];
+    for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+      await communicationSuppressionRepository.upsertManyForTenant(
+        tenantId,
+        entries.slice(i, i + IMPORT_BATCH_SIZE)
+      );
+    }
+
+    logger.info('[SuppressionService] Suppression list imported', {
+      tenantId,
+      imported: entries.length,
+      invalid: invalid.length,
+    });
+
+    return { imported: entries.length, invalid };
+  }
+
+  async exportCsv(
+    tenantId: string,
+    filters: Pick<SuppressionListFilters, 'channel' | 'reason' | 'includeExpired'> = {}
+  ): Promise<string> {
+    const { suppressions } = await communicationSuppressionRepository.searchForTenant(
+      tenantId,
+      filters
+    );
+
+    return toCsv([
+      CSV_COLUMNS,
+      ...suppressions.map((s) => [
+        s.address,
+        s.channel,
+        s.reason,
+        s.expiresAt?.toISOString(),
+        s.suppressedAt.toISOString(),
+      ]),
+    ]);
+  }
+
+  private toRow(input: SuppressionInput) {
+    if (input.channel !== 'email' && input.channel !== 'sms') {
+      throw new BadRequestError(`Unsupported channel: ${input.channel}`);
+    }
+
+    const address = normalizeAddress(input.channel, input.address);
+    if (!address) {
+      throw new BadRequestError(
+        input.channel === 'email'
+          ? `Not a valid email address or domain: ${input.address}`
+          : `Not a valid phone number: ${input.address}`
+      );
+    }
+
+    return {
+      channel: input.channel,
+      address,
+      reason: validateReason(input.reason ?? 'manual'),
+      expiresAt: parseExpiresAt(input.expiresAt),
+    };
+  }
+}
+
+/**
+ * Normalizes an email address, email domain or phone number for storage and lookup.
+ * Returns null when the value is not valid for the channel.
+ */
+export const normalizeAddress = (channel: SuppressionChannel, value: string): string | null => {
+  const trimmed = value?.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  if (channel === 'sms') {
+    const phone = trimmed.replace(/[\s().-]/g, '');
+    return PHONE_PATTERN.test(phone) ? phone : null;
+  }
+
+  if (trimmed.includes('@') && !trimmed.startsWith('@')) {
+    return EMAIL_PATTERN.test(trimmed) ? trimmed : null;
+  }
+
+  const domain = trimmed.replace(/^@/, '');
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+};
+
+/**
+ * The address itself plus its domain and every parent domain, so `acme.com` also covers
+ * `jane@eu.acme.com`
+ */
+const emailLookupKeys = (address: string): string[] => {
+  const domain = address.includes('@') ? address.split('@')[1]! : address;
+  const labels = domain.split('.');
+  const domains = labels.slice(0, -1).map((_, i) => labels.slice(i).join('.'));
+  return address.includes('@') ? [address, ...domains] : domains;
+};
+
+const validateReason = (reason: string): SuppressionReason => {
+  if (!SUPPRESSION_REASONS.includes(reason as SuppressionReason)) {
+    throw new BadRequestError(`reason must be one of ${SUPPRESSION_REASONS.join(', ')}`);
+  }
+  return reason as SuppressionReason;
+};
+
+const parseExpiresAt = (value: string | Date | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError(`Invalid expiresAt: ${value}`);
+  }
+  return date;
+};
+
+export const suppressionService = new SuppressionService();
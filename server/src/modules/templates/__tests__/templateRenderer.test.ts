@@ -0,0 +1,80 @@
+import {
+  TemplateRenderError,
+  extractTemplateVariables,
+  findUnknownVariables,
+  renderTemplate,
+  type TemplateRenderContext,
+} from '../templateRenderer';
+
+const context = (overrides: Partial<TemplateRenderContext> = {}): TemplateRenderContext => ({
+  values: {
+    'contact.firstName': 'Jane',
+    'lead.name': 'Acme Legal',
+    'sender.name': 'Sam Rivera',
+    'sender.calendarLink': 'https://cal.example.com/sam',
+  },
+  snippets: {
+    signature: 'Best,\n{{sender.name}}',
+  },
+  ...overrides,
+});
+
+describe('templateRenderer', () => {
+  it('fills variables, allowing spaces inside the braces', () => {
+    expect(renderTemplate('Hi {{contact.firstName}}, how is {{ lead.name }}?', context())).toBe(
+      'Hi Jane, how is Acme Legal?'
+    );
+  });
+
+  it('expands snippets before filling the variables inside them', () => {
+    expect(
+      renderTemplate('Book here: {{sender.calendarLink}}\n\n{{snippet.signature}}', context())
+    ).toBe('Book here: https://cal.example.com/sam\n\nBest,\nSam Rivera');
+  });
+
+  it('throws on unknown variables and snippets', () => {
+    expect(() => renderTemplate('Hi {{contact.nickname}} {{snippet.cta}}', context())).toThrow(
+      TemplateRenderError
+    );
+
+    try {
+      renderTemplate('Hi {{contact.nickname}} {{snippet.cta}}', context());
+    } catch (error) {
+      expect((error as TemplateRenderError).unresolved).toEqual([
+        '{{snippet.cta}}',
+        '{{contact.nickname}}',
+      ]);
+    }
+  });
+
+  it('throws when a known variable has no value for the contact', () => {
+    expect(() =>
+      renderTemplate(
+        'See you, {{contact.firstName}}',
+        context({ values: { 'contact.firstName': ' ' } })
+      )
+    ).toThrow('Message has unresolved placeholders: {{contact.firstName}}');
+  });
+
+  it('refuses to send single-brace placeholders left in the copy', () => {
+    expect(() => renderTemplate('{subject}\n\nHi Jane', context())).toThrow(
+      'Message has unresolved placeholders: {subject}'
+    );
+  });
+
+  it('leaves text without placeholders alone', () => {
+    expect(renderTemplate('Price: $10 {per seat}', context())).toBe('Price: $10 {per seat}');
+  });
+
+  it('lists variables once each and flags unknown ones', () => {
+    const text = '{{lead.name}} {{lead.name}} {{snippet.signature}} {{snippet.cta}} {{foo}}';
+
+    expect(extractTemplateVariables(text)).toEqual([
+      'lead.name',
+      'snippet.signature',
+      'snippet.cta',
+      'foo',
+    ]);
+    expect(findUnknownVariables(text, ['signature'])).toEqual(['snippet.cta', 'foo']);
+  });
+});
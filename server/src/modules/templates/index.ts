@@ -0,0 +1,16 @@
+export { TemplateService, templateService } from './template.service';
+export {
+  SNIPPET_KEY_PATTERN,
+  TEMPLATE_VARIABLES,
+  TemplateRenderError,
+  extractTemplateVariables,
+  findUnknownVariables,
+  renderTemplate,
+} from './templateRenderer';
+export type {
+  EmailSnippetInput,
+  EmailTemplateInput,
+  MessageContent,
+  RenderOptions,
+} from './template.service';
+export type { TemplateRenderContext, TemplateVariable } from './templateRenderer';
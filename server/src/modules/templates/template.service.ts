@@ -0,0 +1,352 @@
+import { logger } from '@/libs/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '@/exceptions/error';
+import {
+  emailSnippetRepository,
+  emailTemplateRepository,
+  leadPointOfContactRepository,
+  leadProductRepository,
+  leadRepository,
+  tenantRepository,
+  userRepository,
+} from '@/repositories';
+import type { EmailSnippet, EmailTemplate, LeadPointOfContact } from '@/db/schema';
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import {
+  SNIPPET_KEY_PATTERN,
+  SNIPPET_PREFIX,
+  TEMPLATE_VARIABLES,
+  extractTemplateVariables,
+  findUnknownVariables,
+  hasTemplateVariables,
+  renderTemplate,
+  type TemplateRenderContext,
+} from './templateRenderer';
+
+export interface EmailTemplateInput {
+  name: string;
+  description?: string | null;
+  subject?: string | null;
+  body: string;
+  useAsExample?: boolean;
+}
+
+export interface EmailSnippetInput {
+  key: string;
+  name: string;
+  body: string;
+}
+
+export interface MessageContent {
+  subject?: string;
+  body: string;
+}
+
+export interface RenderOptions {
+  trackCalendarLink?: () => string; // Click-tracked URL, used when the sender has a booking link
+}
+
+const MAX_AI_EXAMPLES = 3;
+
+/**
+ * Tenant-wide library of email templates and snippets. Copy keeps its {{variables}}
+ * until send time, when `renderMessage` fills them in for the contact.
+ */
+export class TemplateService {
+  listTemplates(tenantId: string): Promise<EmailTemplate[]> {
+    return emailTemplateRepository.listForTenant(tenantId);
+  }
+
+  async createTemplate(
+    tenantId: string,
+    userId: string,
+    input: EmailTemplateInput
+  ): Promise<EmailTemplate> {
+    await this.validateTemplate(tenantId, input);
+
+    const template = await emailTemplateRepository.createForTenant(tenantId, {
+      ...this.toTemplateValues(input),
+      createdBy: userId,
+    });
+    logger.info('[TemplateService] Template created', { tenantId, templateId: template.id });
+    return template;
+  }
+
+  async updateTemplate(
+    tenantId: string,
+    templateId: string,
+    input: EmailTemplateInput
+  ): Promise<EmailTemplate> {
+    await this.validateTemplate(tenantId, input, templateId);
+
+    const template = await emailTemplateRepository.updateByIdForTenant(templateId, tenantId, {
+      ...this.toTemplateValues(input),
+      updatedAt: new Date(),
+    });
+    if (!template) {
+      throw new NotFoundError(`Template not found: ${templateId}`);
+    }
+    return template;
+  }
+
+  async deleteTemplate(tenantId: string, templateId: string): Promise<void> {
+    const deleted = await emailTemplateRepository.deleteByIdForTenant(templateId, tenantId);
+    if (!deleted) {
+      throw new NotFoundError(`Template not found: ${templateId}`);
+    }
+  }
+
+  listSnippets(tenantId: string): Promise<EmailSnippet[]> {
+    return emailSnippetRepository.listForTenant(tenantId);
+  }
+
+  async createSnippet(tenantId: string, input: EmailSnippetInput): Promise<EmailSnippet> {
+    await this.validateSnippet(tenantId, input);
+
+    const snippet = await emailSnippetRepository.createForTenant(tenantId, {
+      key: input.key,
+      name: input.name.trim(),
+      body: input.body,
+    });
+    logger.info('[TemplateService] Snippet created', { tenantId, key: snippet.key });
+    return snippet;
+  }
+
+  async updateSnippet(
+    tenantId: string,
+    snippetId: string,
+    input: EmailSnippetInput
+  ): Promise<EmailSnippet> {
+    const existing = await emailSnippetRepository.findByIdForTenant(snippetId, tenantId);
+    if (!existing) {
+      throw new NotFoundError(`Snippet not found: ${snippetId}`);
+    }
+    if (existing.key !== input.key) {
+      // Plans and templates refer to snippets by key, so renaming would break them
+      throw new BadRequestError('Snippet keys cannot be changed');
+    }
+    await this.validateSnippet(tenantId, input, snippetId);
+
+    const snippet = await emailSnippetRepository.updateByIdForTenant(snippetId, tenantId, {
+      name: input.name.trim(),
+      body: input.body,
+      updatedAt: new Date(),
+    });
+    return snippet as EmailSnippet;
+  }
+
+  async deleteSnippet(tenantId: string, snippetId: string): Promise<void> {
+    const deleted = await emailSnippetRepository.deleteByIdForTenant(snippetId, tenantId);
+    if (!deleted) {
+      throw new NotFoundError(`Snippet not found: ${snippetId}`);
+    }
+  }
+
+  getVariables(): Array<{ name: string; description: string }> {
+    return Object.entries(TEMPLATE_VARIABLES).map(([name, description]) => ({
+      name,
+      description,
+    }));
+  }
+
+  /**
+   * Fills a message's variables and snippets for one contact. Throws TemplateRenderError
+   * on anything unresolved, including stray "{placeholder}" text, so it is never sent.
+   */
+  async renderMessage(
+    tenantId: string,
+    contact: LeadPointOfContact,
+    content: MessageContent,
+    options: RenderOptions = {}
+  ): Promise<MessageContent> {
+    const needsContext =
+      hasTemplateVariables(content.body) || hasTemplateVariables(content.subject ?? '');
+    const context = needsContext
+      ? await this.buildRenderContext(tenantId, contact, options)
+      : { values: {}, snippets: {} };
+
+    return {
+      subject: content.subject === undefined ? undefined : renderTemplate(content.subject, context),
+      body: renderTemplate(content.body, context),
+    };
+  }
+
+  /**
+   * Renders copy for a contact without sending it, so the editor can show the result
+   */
+  async previewMessage(
+    tenantId: string,
+    contactId: string,
+    content: MessageContent
+  ): Promise<MessageContent> {
+    const contact = await leadPointOfContactRepository.findByIdForTenant(contactId, tenantId);
+    return await this.renderMessage(tenantId, contact, content);
+  }
+
+  /**
+   * Unknown variables in a plan's send nodes, as readable issues
+   */
+  async findPlanIssues(tenantId: string, plan: CampaignPlanOutput): Promise<string[]> {
+    const texts = plan.nodes.flatMap((node) =>
+      node.action === 'send'
+        ? [
+            { nodeId: node.id, text: node.subject ?? '' },
+            { nodeId: node.id, text: node.body ?? '' },
+            ...(node.variants ?? []).flatMap((variant) => [
+              { nodeId: node.id, text: variant.subject ?? '' },
+              { nodeId: node.id, text: variant.body ?? '' },
+            ]),
+          ]
+        : []
+    );
+    if (!texts.some(({ text }) => hasTemplateVariables(text))) return [];
+
+    const usesSnippets = texts.some(({ text }) =>
+      extractTemplateVariables(text).some((name) => name.startsWith(SNIPPET_PREFIX))
+    );
+    const snippetKeys = usesSnippets
+      ? (await emailSnippetRepository.listForTenant(tenantId)).map((snippet) => snippet.key)
+      : [];
+
+    const unknownByNode = new Map<string, Set<string>>();
+    for (const { nodeId, text } of texts) {
+      for (const name of findUnknownVariables(text, snippetKeys)) {
+        unknownByNode.set(nodeId, (unknownByNode.get(nodeId) ?? new Set()).add(name));
+      }
+    }
+
+    return [...unknownByNode.entries()].map(
+      ([nodeId, names]) =>
+        `Node "${nodeId}" uses unknown variables: ${[...names].map((n) => `{{${n}}}`).join(', ')}`
+    );
+  }
+
+  /**
+   * Templates the tenant flagged as examples, formatted as few-shot guidance for the AI
+   */
+  async getAiExampleInstructions(tenantId: string): Promise<string | undefined> {
+    const examples = await emailTemplateRepository.findExamplesForTenant(tenantId, MAX_AI_EXAMPLES);
+    if (examples.length === 0) return undefined;
+
+    const variables = Object.keys(TEMPLATE_VARIABLES)
+      .map((name) => `{{${name}}}`)
+      .join(', ');
+    const formatted = examples
+      .map(
+        (example, index) =>
+          `Example ${index + 1} (${example.name}):\nSubject: ${example.subject ?? ''}\nBody:\n${example.body}`
+      )
+      .join('\n\n');
+
+    return [
+      'The company wrote these example emails. Match their tone, structure and length, but write new copy for this contact rather than copying them.',
+      `Text in {{double braces}} is filled in at send time. You may use only these variables: ${variables}. Never leave other placeholders such as [Name] or {subject}.`,
+      formatted,
+    ].join('\n\n');
+  }
+
+  private async buildRenderContext(
+    tenantId: string,
+    contact: LeadPointOfContact,
+    options: RenderOptions
+  ): Promise<TemplateRenderContext> {
+    const lead = await leadRepository.findByIdForTenant(contact.leadId, tenantId);
+    const [owner, products, tenant, snippets] = await Promise.all([
+      lead.ownerId ? userRepository.findById(lead.ownerId) : Promise.resolve(undefined),
+      leadProductRepository.findByLeadId(lead.id, tenantId),
+      tenantRepository.findById(tenantId),
+      emailSnippetRepository.listForTenant(tenantId),
+    ]);
+
+    const [firstName, ...rest] = contact.name.trim().split(/\s+/);
+    const product = products[0];
+
+    return {
+      values: {
+        'contact.firstName': firstName,
+        'contact.lastName': rest.join(' '),
+        'contact.name': contact.name,
+        'contact.title': contact.title,
+        'contact.email': contact.email,
+        'lead.name': lead.name,
+        'lead.url': lead.url,
+        'product.title': product?.title,
+        'product.description': product?.description,
+        'sender.name': owner?.name,
+        'sender.email': owner?.email,
+        'sender.calendarLink': owner?.calendarLink
+          ? (options.trackCalendarLink?.() ?? owner.calendarLink)
+          : undefined,
+        'company.name': tenant.organizationName || tenant.name,
+      },
+      snippets: Object.fromEntries(snippets.map((snippet) => [snippet.key, snippet.body])),
+    };
+  }
+
+  private async validateTemplate(
+    tenantId: string,
+    input: EmailTemplateInput,
+    templateId?: string
+  ): Promise<void> {
+    if (!input.name.trim()) {
+      throw new BadRequestError('Template name is required');
+    }
+    if (!input.body.trim()) {
+      throw new BadRequestError('Template body is required');
+    }
+
+    const [templates, snippets] = await Promise.all([
+      emailTemplateRepository.listForTenant(tenantId),
+      emailSnippetRepository.listForTenant(tenantId),
+    ]);
+    const name = input.name.trim().toLowerCase();
+    if (templates.some((t) => t.id !== templateId && t.name.toLowerCase() === name)) {
+      throw new ConflictError(`A template named "${input.name.trim()}" already exists`);
+    }
+
+    const unknown = findUnknownVariables(
+      `${input.subject ?? ''}\n${input.body}`,
+      snippets.map((snippet) => snippet.key)
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Unknown variables: ${unknown.map((n) => `{{${n}}}`).join(', ')}`);
+    }
+  }
+
+  private async validateSnippet(
+    tenantId: string,
+    input: EmailSnippetInput,
+    snippetId?: string
+  ): Promise<void> {
+    if (!SNIPPET_KEY_PATTERN.test(input.key)) {
+      throw new BadRequestError(
+        'Snippet keys must start with a letter and use only lowercase letters, numbers and underscores'
+      );
+    }
+    if (!input.name.trim() || !input.body.trim()) {
+      throw new BadRequestError('Snippet name and body are required');
+    }
+
+    const snippets = await emailSnippetRepository.listForTenant(tenantId);
+    if (snippets.some((s) => s.id !== snippetId && s.key === input.key)) {
+      throw new ConflictError(`A snippet with key "${input.key}" already exists`);
+    }
+
+    // Snippets are expanded once, so they can use variables but not other snippets
+    const unknown = findUnknownVariables(input.body, []);
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Unknown variables: ${unknown.map((n) => `{{${n}}}`).join(', ')}`);
+    }
+  }
+
+  private toTemplateValues(input: EmailTemplateInput) {
+    return {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      subject: input.subject?.trim() || null,
+      body: input.body,
+      useAsExample: input.useAsExample ?? false,
+    };
+  }
+}
+
+export const templateService = new TemplateService();
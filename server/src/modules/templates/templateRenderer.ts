@@ -0,0 +1,109 @@
+import { BadRequestError } from '@/exceptions/error';
+
+/**
+ * Variables a template may use, with what they resolve to. Anything else in
+ * {{double braces}} is rejected, except {{snippet.<key>}} for the tenant's snippets.
+ */
+export const TEMPLATE_VARIABLES = {
+  'contact.firstName': "Contact's first name",
+  'contact.lastName': "Contact's last name",
+  'contact.name': "Contact's full name",
+  'contact.title': "Contact's job title",
+  'contact.email': "Contact's email address",
+  'lead.name': 'Company the contact works for',
+  'lead.url': "Company's website",
+  'product.title': 'Product pitched to the lead',
+  'product.description': 'Description of that product',
+  'sender.name': 'Lead owner sending the campaign',
+  'sender.email': "Sender's email address",
+  'sender.calendarLink': "Sender's booking link",
+  'company.name': 'Your organization name',
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+export const SNIPPET_PREFIX = 'snippet.';
+
+export const SNIPPET_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export interface TemplateRenderContext {
+  values: Partial<Record<TemplateVariable, string | null>>;
+  snippets: Record<string, string>; // key -> body
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+// Leftovers such as "{subject}" or "{personalized_body}" from unfilled AI or example copy
+const STRAY_PLACEHOLDER_PATTERN = /(?<!\{)\{[a-zA-Z_][\w.]*\}(?!\})/g;
+
+export class TemplateRenderError extends BadRequestError {
+  readonly unresolved: string[];
+
+  constructor(unresolved: string[]) {
+    super(`Message has unresolved placeholders: ${unresolved.join(', ')}`);
+    this.unresolved = unresolved;
+  }
+}
+
+const isTemplateVariable = (name: string): name is TemplateVariable =>
+  Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name);
+
+/**
+ * Every {{variable}} name used in the text, in order of first use
+ */
+export function extractTemplateVariables(text: string): string[] {
+  const names = [...text.matchAll(VARIABLE_PATTERN)].map((match) => match[1] as string);
+  return [...new Set(names)];
+}
+
+/**
+ * Variables that are neither built in nor one of the given snippet keys
+ */
+export function findUnknownVariables(text: string, snippetKeys: string[]): string[] {
+  return extractTemplateVariables(text).filter((name) =>
+    name.startsWith(SNIPPET_PREFIX)
+      ? !snippetKeys.includes(name.slice(SNIPPET_PREFIX.length))
+      : !isTemplateVariable(name)
+  );
+}
+
+/**
+ * Fills in snippets, then variables (so snippets may use variables too). Throws a
+ * TemplateRenderError naming every placeholder it could not fill, rather than let a
+ * message go out with "{{lead.name}}" or "{subject}" in it.
+ */
+export function renderTemplate(text: string, context: TemplateRenderContext): string {
+  const unresolved = new Set<string>();
+
+  const withSnippets = text.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if (!name.startsWith(SNIPPET_PREFIX)) return match;
+    const snippet = context.snippets[name.slice(SNIPPET_PREFIX.length)];
+    if (snippet === undefined) {
+      unresolved.add(`{{${name}}}`);
+      return match;
+    }
+    return snippet;
+  });
+
+  const rendered = withSnippets.replace(VARIABLE_PATTERN, (match, name: string) => {
+    const value = isTemplateVariable(name) ? context.values[name]?.trim() : undefined;
+    if (!value) {
+      unresolved.add(`{{${name}}}`);
+      return match;
+    }
+    return value;
+  });
+
+  for (const match of rendered.matchAll(STRAY_PLACEHOLDER_PATTERN)) {
+    unresolved.add(match[0]);
+  }
+
+  if (unresolved.size > 0) {
+    throw new TemplateRenderError([...unresolved]);
+  }
+  return rendered;
+}
+
+export function hasTemplateVariables(text: string): boolean {
+  return extractTemplateVariables(text).length > 0;
+}
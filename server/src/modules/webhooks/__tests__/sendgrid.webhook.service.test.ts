@@ -6,6 +6,9 @@ import {
   contactCampaignRepository,
 } from '@/repositories';
 import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { suppressionService } from '@/modules/suppression';
+import { contactChannelService } from '@/modules/contactChannel';
+import { botDetectionService } from '@/modules/botDetection';
 import { SendGridWebhookService } from '../sendgrid.webhook.service';
 import { SendGridWebhookError, SendGridEvent } from '../sendgrid.webhook.types';
 
@@ -25,6 +28,7 @@ jest.mock('@/repositories', () => ({
   outboundMessageRepository: {
     findByIdForTenant: jest.fn(),
     findByIdsForTenant: jest.fn(),
+    releaseDedupeKeyForTenant: jest.fn(),
   },
   contactCampaignRepository: {
     findByIdForTenant: jest.fn(),
@@ -44,6 +48,25 @@ jest.mock('@/libs/logger', () => ({
 jest.mock('@/modules/campaign/campaignPlanExecution.service', () => ({
   campaignPlanExecutionService: {
     processTransition: jest.fn(),
+    retrySendAfterBounce: jest.fn(),
+  },
+}));
+
+jest.mock('@/modules/suppression', () => ({
+  suppressionService: {
+    suppressFromProvider: jest.fn(),
+  },
+}));
+
+jest.mock('@/modules/botDetection', () => ({
+  botDetectionService: {
+    assessEvent: jest.fn(),
+  },
+}));
+
+jest.mock('@/modules/contactChannel', () => ({
+  contactChannelService: {
+    fallbackAfterHardBounce: jest.fn(),
   },
 }));
 
@@ -91,6 +114,12 @@ describe('SendGridWebhookService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
+    (botDetectionService.assessEvent as jest.Mock).mockResolvedValue({
+      isMachine: false,
+      score: 0,
+      reasons: [],
+    });
+
     // Create mock validator
     mockValidator = {
       verifyWebhookRequest: jest.fn(),
@@ -134,6 +163,8 @@ describe('SendGridWebhookService', () => {
         type: 'delivered',
         eventAt: new Date(),
         sgEventId: 'sg-event-123',
+        isMachine: false,
+        machineReasons: null,
         data: mockSendGridEvent,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -278,6 +309,8 @@ describe('SendGridWebhookService', () => {
           type: 'delivered',
           eventAt: new Date(),
           sgEventId: 'sg-event-123',
+          isMachine: false,
+          machineReasons: null,
           data: mockSendGridEvent,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -289,6 +322,8 @@ describe('SendGridWebhookService', () => {
           type: 'open',
           eventAt: new Date(),
           sgEventId: 'sg-event-456',
+          isMachine: false,
+          machineReasons: null,
           data: event2,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -374,6 +409,8 @@ describe('SendGridWebhookService', () => {
         type: 'delivered',
         eventAt: new Date(),
         sgEventId: 'sg-event-123',
+        isMachine: false,
+        machineReasons: null,
         data: { sg_event_id: 'sg-event-123' },
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -429,6 +466,8 @@ describe('SendGridWebhookService', () => {
           type: 'delivered',
           eventAt: new Date(),
           sgEventId: 'sg-event-123',
+          isMachine: false,
+          machineReasons: null,
           data: mockSendGridEvent,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -491,6 +530,8 @@ describe('SendGridWebhookService', () => {
         type: 'delivered',
         eventAt: new Date(),
         sgEventId: 'valid-event',
+        isMachine: false,
+        machineReasons: null,
         data: validEvent,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -582,6 +623,8 @@ describe('SendGridWebhookService', () => {
         type: 'open',
         eventAt: new Date(),
         sgEventId: 'event-123',
+        isMachine: false,
+        machineReasons: null,
         data: {},
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -650,6 +693,8 @@ describe('SendGridWebhookService', () => {
         type: 'open',
         eventAt: new Date(),
         sgEventId: 'event-123',
+        isMachine: false,
+        machineReasons: null,
         data: {},
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -683,6 +728,60 @@ describe('SendGridWebhookService', () => {
       expect(mockWebhookDeliveryRepo.createForTenant).toHaveBeenCalled();
       expect(mockMessageEventRepo.createForTenant).toHaveBeenCalled();
     });
+
+    it('should suppress recipients of hard bounces and spam reports', async () => {
+      const events = [
+        {
+          ...mockSendGridEvent,
+          event: 'bounce',
+          type: 'hard',
+          email: 'hard@example.com',
+          sg_event_id: 'sg-bounce-hard',
+        },
+        {
+          ...mockSendGridEvent,
+          event: 'bounce',
+          type: 'soft',
+          email: 'soft@example.com',
+          sg_event_id: 'sg-bounce-soft',
+        },
+        {
+          ...mockSendGridEvent,
+          event: 'spam_report',
+          email: 'spam@example.com',
+          sg_event_id: 'sg-spam',
+        },
+      ];
+      const payload = JSON.stringify(events);
+
+      mockValidator.verifyWebhookRequest.mockReturnValue({
+        signature: 'valid-signature',
+        timestamp: '1234567890',
+        payload,
+        isValid: true,
+      });
+      mockWebhookDeliveryRepo.createForTenant.mockResolvedValue({
+        id: 'webhook-delivery-123',
+      } as any);
+      mockMessageEventRepo.findBySgEventIdForTenant.mockResolvedValue(undefined);
+      mockMessageEventRepo.createForTenant.mockResolvedValue({ id: 'message-event-123' } as any);
+
+      await service.processWebhook(mockHeaders, payload);
+
+      expect(suppressionService.suppressFromProvider).toHaveBeenCalledTimes(2);
+      expect(suppressionService.suppressFromProvider).toHaveBeenCalledWith(
+        'tenant-123',
+        'email',
+        'hard@example.com',
+        'hard_bounce'
+      );
+      expect(suppressionService.suppressFromProvider).toHaveBeenCalledWith(
+        'tenant-123',
+        'email',
+        'spam@example.com',
+        'spam_report'
+      );
+    });
   });
 
   describe('event validation', () => {
@@ -772,6 +871,8 @@ describe('SendGridWebhookService', () => {
         type: 'delivered',
         eventAt: expect.any(Date),
         sgEventId: 'delivered-event-123',
+        isMachine: false,
+        machineReasons: null,
         data: expect.any(Object),
         createdAt: expect.any(Date),
         updatedAt: expect.any(Date),
@@ -823,6 +924,8 @@ describe('SendGridWebhookService', () => {
         type: 'delivered',
         eventAt: new Date(),
         sgEventId: 'sg-event-123',
+        isMachine: false,
+        machineReasons: null,
         data: mockSendGridEvent,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -879,6 +982,8 @@ describe('SendGridWebhookService', () => {
           type: 'delivered',
           eventAt: new Date(),
           sgEventId: 'sg-event-123',
+          isMachine: false,
+          machineReasons: null,
           data: mockSendGridEvent,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -890,6 +995,8 @@ describe('SendGridWebhookService', () => {
           type: 'open',
           eventAt: new Date(),
           sgEventId: 'sg-event-456',
+          isMachine: false,
+          machineReasons: null,
           data: event2,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -939,6 +1046,8 @@ describe('SendGridWebhookService', () => {
         type: 'delivered',
         eventAt: new Date(),
         sgEventId: 'sg-event-123',
+        isMachine: false,
+        machineReasons: null,
         data: mockSendGridEvent,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -1022,9 +1131,79 @@ describe('SendGridWebhookService', () => {
         eventType: 'delivered',
         currentNodeId: 'node-123',
         plan: { nodes: [], startNodeId: 'node-123' },
+        channel: 'email',
       });
     });
 
+    it('should retry the current step at a fallback address after a hard bounce', async () => {
+      const bounceEvent: SendGridEvent = {
+        ...mockSendGridEvent,
+        event: 'bounce',
+        type: 'hard',
+        node_id: 'node-123',
+        sg_event_id: 'sg-bounce-123',
+      } as SendGridEvent;
+
+      mockValidator.verifyWebhookRequest.mockReturnValue({
+        signature: 'valid-signature',
+        timestamp: '1234567890',
+        payload: JSON.stringify([bounceEvent]),
+        isValid: true,
+      });
+
+      const mockCampaign = {
+        id: 'campaign-123',
+        tenantId: 'tenant-123',
+        leadId: 'lead-123',
+        contactId: 'contact-123',
+        status: 'active' as const,
+        currentNodeId: 'node-123',
+        planJson: { nodes: [], startNodeId: 'node-123' },
+      } as any;
+
+      mockWebhookDeliveryRepo.createForTenant.mockResolvedValue({ id: 'webhook-123' } as any);
+      mockMessageEventRepo.createForTenant.mockResolvedValue({ id: 'message-event-123' } as any);
+      mockMessageEventRepo.findBySgEventIdForTenant.mockResolvedValue(undefined);
+      mockMessageEventRepo.findByIdsForTenant.mockResolvedValue([
+        {
+          id: 'message-event-123',
+          messageId: 'outbound-message-123',
+          type: 'bounce',
+          data: bounceEvent,
+        } as any,
+      ]);
+      mockOutboundMessageRepo.findByIdsForTenant.mockResolvedValue([
+        { id: 'outbound-message-123', campaignId: 'campaign-123' } as any,
+      ]);
+      mockContactCampaignRepo.findByIdsForTenant.mockResolvedValue([mockCampaign]);
+      (contactChannelService.fallbackAfterHardBounce as jest.Mock).mockResolvedValue({
+        id: 'channel-2',
+        value: 'jane@example.com',
+      });
+
+      const result = await service.processWebhook(mockHeaders, JSON.stringify([bounceEvent]));
+
+      expect(result.success).toBe(true);
+      expect(contactChannelService.fallbackAfterHardBounce).toHaveBeenCalledWith(
+        'tenant-123',
+        'contact-123',
+        'test@example.com'
+      );
+      expect(mockOutboundMessageRepo.releaseDedupeKeyForTenant).toHaveBeenCalledWith(
+        'outbound-message-123',
+        'tenant-123',
+        expect.stringContaining('Hard bounce')
+      );
+      expect(mockCampaignPlanExecutionService.retrySendAfterBounce).toHaveBeenCalledWith(
+        expect.objectContaining({
+          campaignId: 'campaign-123',
+          currentNodeId: 'node-123',
+          fallbackAddress: 'jane@example.com',
+        })
+      );
+      expect(mockCampaignPlanExecutionService.processTransition).not.toHaveBeenCalled();
+    });
+
     it('should skip campaign transition for inactive campaigns', async () => {
       // Setup mocks for inactive campaign scenario
       mockValidator.verifyWebhookRequest.mockReturnValue({
@@ -1051,6 +1230,8 @@ describe('SendGridWebhookService', () => {
         type: 'delivered',
         eventAt: new Date(),
         sgEventId: 'sg-event-123',
+        isMachine: false,
+        machineReasons: null,
         data: mockSendGridEvent,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -1146,6 +1327,8 @@ describe('SendGridWebhookService', () => {
         tenantId: 'tenant-123',
         eventAt: new Date(),
         sgEventId: 'sg-event-123',
+        isMachine: false,
+        machineReasons: null,
       };
       mockMessageEventRepo.createForTenant.mockResolvedValue(mockMessageEvent as any);
       mockMessageEventRepo.findByIdsForTenant.mockResolvedValue([mockMessageEvent as any]);
@@ -1216,6 +1399,7 @@ describe('SendGridWebhookService', () => {
         eventType: 'opened', // Should be normalized from 'open' to 'opened' using constants
         currentNodeId: 'node-123',
         plan: { nodes: [], startNodeId: 'node-123' },
+        channel: 'email',
       });
     });
 
@@ -1245,6 +1429,8 @@ describe('SendGridWebhookService', () => {
         type: 'delivered',
         eventAt: new Date(),
         sgEventId: 'sg-event-123',
+        isMachine: false,
+        machineReasons: null,
         data: mockSendGridEvent,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -8,6 +8,9 @@ import {
 import { SendGridWebhookValidator } from '@/libs/email/sendgrid.webhook.validator';
 import { NewWebhookDelivery, NewMessageEvent } from '@/db/schema';
 import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import { suppressionService } from '@/modules/suppression';
+import { contactChannelService } from '@/modules/contactChannel';
+import { botDetectionService } from '@/modules/botDetection';
 import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
 import type { MessageEvent, OutboundMessage, ContactCampaign } from '@/db/schema';
 import {
@@ -677,14 +680,22 @@ export class SendGridWebhookService {
       }
     }
 
+    // Hard bounces and spam complaints go on the tenant suppression list
+    if ((event.event === 'bounce' && event.type !== 'soft') || event.event === 'spam_report') {
+      await this.suppressRecipient(tenantId, event);
+    }
+
     // Handle unsubscribe events
     if (event.event === 'unsubscribe' || event.event === 'group_unsubscribe') {
       // TODO: Implement unsubscribe handling
       // await this.handleUnsubscribeEvent(event, tenantId);
     }
 
-    // Create normalized message event
-    const messageEvent = this.normalizeEvent(event, processedAtTimestamp);
+    // Create normalized message event, tagging opens/clicks from scanners and gateways
+    const messageEvent = {
+      ...this.normalizeEvent(event, processedAtTimestamp),
+      ...(await this.assessMachineEvent(tenantId, event)),
+    };
 
     logger.debug('Creating message event', {
       tenantId,
@@ -722,6 +733,68 @@ export class SendGridWebhookService {
     }
   }
 
+  /**
+   * Score an open or click for signs it came from a link scanner or mail gateway
+   * @param tenantId - Tenant ID
+   * @param event - SendGrid event
+   * @returns Machine tagging fields for the message event, empty for other event types
+   */
+  private async assessMachineEvent(
+    tenantId: string,
+    event: SendGridEvent
+  ): Promise<Pick<NewMessageEvent, 'isMachine' | 'machineReasons'>> {
+    if (event.event !== 'open' && event.event !== 'click') return {};
+
+    const assessment = await botDetectionService.assessEvent({
+      tenantId,
+      type: event.event,
+      eventAt: new Date(event.timestamp * 1000),
+      outboundMessageId: event.outbound_message_id,
+      userAgent: event.useragent,
+      ipAddress: event.ip,
+      url: event.event === 'click' ? event.url : undefined,
+      providerMachineOpen: event.event === 'open' && event.sg_machine_open === true,
+    });
+
+    return assessment.isMachine
+      ? { isMachine: true, machineReasons: assessment.reasons }
+      : { isMachine: false };
+  }
+
+  /**
+   * Add the recipient of a hard bounce or spam report to the suppression list
+   * @param tenantId - Tenant ID
+   * @param event - SendGrid bounce or spam report event
+   */
+  private async suppressRecipient(tenantId: string, event: SendGridEvent): Promise<void> {
+    const reason = event.event === 'spam_report' ? 'spam_report' : 'hard_bounce';
+
+    try {
+      const suppression = await suppressionService.suppressFromProvider(
+        tenantId,
+        'email',
+        event.email,
+        reason
+      );
+
+      logger.info('Suppressed recipient from SendGrid event', {
+        tenantId,
+        eventType: event.event,
+        eventId: event.sg_event_id,
+        suppressionId: suppression?.id,
+        reason,
+      });
+    } catch (error) {
+      // Still record the message event; the next bounce/report will retry the suppression
+      logger.error('Failed to suppress recipient from SendGrid event', {
+        tenantId,
+        eventType: event.event,
+        eventId: event.sg_event_id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
   /**
    * Check for duplicate events
    * @param tenantId - Tenant ID
@@ -849,10 +922,10 @@ export class SendGridWebhookService {
     const messageEventIds = successfulEvents
       .map((e) => e.messageId)
       .filter((id): id is string => !!id);
-    const messageEvents = await messageEventRepository.findByIdsForTenant(
-      messageEventIds,
-      tenantId
-    );
+    // Machine-generated opens/clicks are kept for auditing but never move a campaign
+    const messageEvents = (
+      await messageEventRepository.findByIdsForTenant(messageEventIds, tenantId)
+    ).filter((e) => !e.isMachine);
 
     if (messageEvents.length === 0) {
       logger.debug('No message events found for transition processing', {
@@ -968,6 +1041,12 @@ export class SendGridWebhookService {
       return false;
     }
 
+    // A hard bounce re-sends the current step to the contact's next verified address
+    // instead of following the plan's bounce transition
+    if (await this.retryAtFallbackAddress(tenantId, messageEvent, outboundMessage, campaign)) {
+      return true;
+    }
+
     // Normalize event type for campaign transitions
     // SendGrid webhooks and campaign plans use slightly different event type names
     const normalizedEventType = normalizeEventTypeForCampaign(messageEvent.type);
@@ -989,6 +1068,7 @@ export class SendGridWebhookService {
       eventType: normalizedEventType,
       currentNodeId: campaign.currentNodeId,
       plan: campaign.planJson as CampaignPlanOutput,
+      channel: 'email',
     });
 
     logger.info('Campaign transition processed successfully', {
@@ -1002,6 +1082,62 @@ export class SendGridWebhookService {
     return true;
   }
 
+  /**
+   * Fall back to the contact's next verified email after a hard bounce of the primary
+   * @param tenantId - Tenant ID
+   * @param messageEvent - Bounce message event
+   * @param outboundMessage - Message that bounced
+   * @param campaign - Active campaign the message belongs to
+   * @returns Boolean indicating if the send was retried at a fallback address
+   */
+  private async retryAtFallbackAddress(
+    tenantId: string,
+    messageEvent: MessageEvent,
+    outboundMessage: OutboundMessage,
+    campaign: ContactCampaign
+  ): Promise<boolean> {
+    const data = (messageEvent.data ?? {}) as { type?: string; email?: string; node_id?: string };
+    if (messageEvent.type !== 'bounce' || data.type === 'soft' || !data.email) {
+      return false;
+    }
+
+    const fallback = await contactChannelService.fallbackAfterHardBounce(
+      tenantId,
+      campaign.contactId,
+      data.email
+    );
+
+    // Only the current step is re-sent; a bounce of an earlier step just records the address
+    if (!fallback || !campaign.currentNodeId || data.node_id !== campaign.currentNodeId) {
+      return false;
+    }
+
+    await outboundMessageRepository.releaseDedupeKeyForTenant(
+      outboundMessage.id,
+      tenantId,
+      `Hard bounce at ${data.email}; retried at ${fallback.value}`
+    );
+
+    await campaignPlanExecutionService.retrySendAfterBounce({
+      tenantId,
+      campaignId: campaign.id,
+      contactId: campaign.contactId,
+      leadId: campaign.leadId,
+      currentNodeId: campaign.currentNodeId,
+      plan: campaign.planJson as CampaignPlanOutput,
+      fallbackAddress: fallback.value,
+    });
+
+    logger.info('Retrying campaign send at fallback address after hard bounce', {
+      tenantId,
+      campaignId: campaign.id,
+      outboundMessageId: outboundMessage.id,
+      currentNodeId: campaign.currentNodeId,
+    });
+
+    return true;
+  }
+
   /**
    * Create service instance from environment configuration
    * @returns Configured service instance
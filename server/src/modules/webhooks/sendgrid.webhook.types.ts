@@ -85,6 +85,7 @@ export interface SendGridOpenEvent extends SendGridEventBase {
   event: typeof SENDGRID_CONSTANTS.OPEN;
   useragent: string;
   ip: string;
+  sg_machine_open?: boolean; // Set for Apple Mail Privacy Protection prefetches
 }
 
 // Click Event
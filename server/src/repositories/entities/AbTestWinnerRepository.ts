@@ -0,0 +1,168 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { abTestWinners, AbTestWinner, NewAbTestWinner } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+/**
+ * <summary>AbTestWinnerRepository stores the promoted variant of each A/B test.</summary>
+ * <summary>One row per tenant and test key; every later send in that test uses the winner.</summary>
+ */
+export class AbTestWinnerRepository extends TenantAwareRepository<
+  typeof abTestWinners,
+  AbTestWinner,
+  NewAbTestWinner
+> {
+  constructor() {
+    super(abTestWinners);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewAbTestWinner, 'tenantId'>
+  ): Promise<AbTestWinner> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...(data as Omit<NewAbTestWinner, 'tenantId'>), tenantId } as NewAbTestWinner)
+      .returning();
+    return result as AbTestWinner;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewAbTestWinner, 'tenantId'>[]
+  ): Promise<AbTestWinner[]> {
+    const values: NewAbTestWinner[] = data.map(
+      (d) => ({ ...(d as Omit<NewAbTestWinner, 'tenantId'>), tenantId }) as NewAbTestWinner
+    );
+    return (await this.db.insert(this.table).values(values).returning()) as AbTestWinner[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<AbTestWinner | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<AbTestWinner[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as AbTestWinner[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<AbTestWinner[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as AbTestWinner[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewAbTestWinner, 'tenantId'>>
+  ): Promise<AbTestWinner | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as Partial<Omit<NewAbTestWinner, 'tenantId'>> as Partial<NewAbTestWinner>)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as AbTestWinner | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<AbTestWinner | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as AbTestWinner | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<AbTestWinner[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as AbTestWinner[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<AbTestWinner[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as AbTestWinner[];
+  }
+
+  // Domain helpers
+  /**
+   * Promoted winner of a test, if it has been decided
+   */
+  async findByTestForTenant(tenantId: string, testKey: string): Promise<AbTestWinner | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.testKey, testKey)))
+      .limit(1);
+    return results[0];
+  }
+
+  /**
+   * Records (or replaces) the winner of a test
+   */
+  async upsertForTenant(
+    tenantId: string,
+    data: Omit<NewAbTestWinner, 'tenantId' | 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<AbTestWinner> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...data, tenantId } as NewAbTestWinner)
+      .onConflictDoUpdate({
+        target: [this.table.tenantId, this.table.testKey],
+        set: {
+          variantId: data.variantId,
+          metric: data.metric,
+          promotedBy: data.promotedBy ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result as AbTestWinner;
+  }
+
+  /**
+   * Clears a test's winner so contacts go back to the weighted split
+   */
+  async deleteByTestForTenant(
+    tenantId: string,
+    testKey: string
+  ): Promise<AbTestWinner | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.testKey, testKey)))
+      .returning();
+    return result as AbTestWinner | undefined;
+  }
+}
@@ -0,0 +1,131 @@
+import { and, asc, eq, gte, inArray } from 'drizzle-orm';
+import { blackoutPeriods, BlackoutPeriod, NewBlackoutPeriod } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+/**
+ * <summary>BlackoutPeriodRepository stores tenant shutdowns and ad-hoc send pauses.</summary>
+ * <summary>Each period is an inclusive range of calendar dates in the contact's local time.</summary>
+ * <summary>Campaign scheduling pushes actions past any period that is still ahead.</summary>
+ */
+export class BlackoutPeriodRepository extends TenantAwareRepository<
+  typeof blackoutPeriods,
+  BlackoutPeriod,
+  NewBlackoutPeriod
+> {
+  constructor() {
+    super(blackoutPeriods);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewBlackoutPeriod, 'tenantId'>
+  ): Promise<BlackoutPeriod> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...(data as Omit<NewBlackoutPeriod, 'tenantId'>), tenantId } as NewBlackoutPeriod)
+      .returning();
+    return result as BlackoutPeriod;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewBlackoutPeriod, 'tenantId'>[]
+  ): Promise<BlackoutPeriod[]> {
+    const values: NewBlackoutPeriod[] = data.map(
+      (d) => ({ ...(d as Omit<NewBlackoutPeriod, 'tenantId'>), tenantId }) as NewBlackoutPeriod
+    );
+    return (await this.db.insert(this.table).values(values).returning()) as BlackoutPeriod[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<BlackoutPeriod | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<BlackoutPeriod[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as BlackoutPeriod[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<BlackoutPeriod[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as BlackoutPeriod[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewBlackoutPeriod, 'tenantId'>>
+  ): Promise<BlackoutPeriod | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as Partial<Omit<NewBlackoutPeriod, 'tenantId'>> as Partial<NewBlackoutPeriod>)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as BlackoutPeriod | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<BlackoutPeriod | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as BlackoutPeriod | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<BlackoutPeriod[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as BlackoutPeriod[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<BlackoutPeriod[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as BlackoutPeriod[];
+  }
+
+  // Domain helpers
+  /**
+   * Periods that end on or after the given date (YYYY-MM-DD), earliest first
+   */
+  async findUpcomingForTenant(tenantId: string, fromDate: string): Promise<BlackoutPeriod[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), gte(this.table.endDate, fromDate)))
+      .orderBy(asc(this.table.startDate))) as BlackoutPeriod[];
+  }
+}
@@ -1,4 +1,4 @@
-import { and, eq } from 'drizzle-orm';
+import { and, asc, desc, eq } from 'drizzle-orm';
 import { calendarConnections, CalendarConnection, NewCalendarConnection } from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
@@ -11,7 +11,21 @@ export class CalendarConnectionRepository extends TenantAwareRepository<
     super(calendarConnections);
   }
 
-  async findActiveForUser(
+  async listActiveForUser(tenantId: string, userId: string): Promise<CalendarConnection[]> {
+    return await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.userId, userId),
+          eq(this.table.isActive, true)
+        )
+      )
+      .orderBy(desc(this.table.isBookingCalendar), asc(this.table.connectedAt));
+  }
+
+  async findBookingCalendarForUser(
     tenantId: string,
     userId: string
   ): Promise<CalendarConnection | undefined> {
@@ -22,7 +36,8 @@ export class CalendarConnectionRepository extends TenantAwareRepository<
         and(
           eq(this.table.tenantId, tenantId),
           eq(this.table.userId, userId),
-          eq(this.table.isActive, true)
+          eq(this.table.isActive, true),
+          eq(this.table.isBookingCalendar, true)
         )
       )
       .limit(1);
@@ -30,34 +45,105 @@ export class CalendarConnectionRepository extends TenantAwareRepository<
     return result;
   }
 
-  async upsertActiveForUser(
+  /**
+   * Attaches a calendar, or refreshes it when the same calendar of the account is already
+   * attached. The user's first calendar becomes the one new events go to.
+   */
+  async upsertCalendarForUser(
     tenantId: string,
     userId: string,
     data: Omit<NewCalendarConnection, 'tenantId' | 'userId'>
   ): Promise<CalendarConnection> {
-    await this.db
-      .update(this.table)
-      .set({ isActive: false, disconnectedAt: new Date(), updatedAt: new Date() })
-      .where(
-        and(
-          eq(this.table.tenantId, tenantId),
-          eq(this.table.userId, userId),
-          eq(this.table.isActive, true)
-        )
+    return await this.db.transaction(async (tx) => {
+      const active = await tx
+        .select()
+        .from(this.table)
+        .where(
+          and(
+            eq(this.table.tenantId, tenantId),
+            eq(this.table.userId, userId),
+            eq(this.table.isActive, true)
+          )
+        );
+
+      const existing = active.find(
+        (connection) =>
+          connection.mailAccountId === data.mailAccountId &&
+          connection.providerCalendarId === (data.providerCalendarId ?? 'primary')
       );
+      if (existing) {
+        const [result] = await tx
+          .update(this.table)
+          .set({ ...data, reauthRequired: false, updatedAt: new Date() })
+          .where(eq(this.table.id, existing.id))
+          .returning();
+        return result as CalendarConnection;
+      }
 
-    const [result] = await this.db
-      .insert(this.table)
-      .values({
-        ...data,
-        tenantId,
-        userId,
-        isActive: true,
+      const [result] = await tx
+        .insert(this.table)
+        .values({
+          ...data,
+          tenantId,
+          userId,
+          isActive: true,
+          isBookingCalendar: !active.some((connection) => connection.isBookingCalendar),
+          updatedAt: new Date(),
+        })
+        .returning();
+
+      return result as CalendarConnection;
+    });
+  }
+
+  async setBookingCalendar(
+    tenantId: string,
+    userId: string,
+    id: string
+  ): Promise<CalendarConnection> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .update(this.table)
+        .set({ isBookingCalendar: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(this.table.tenantId, tenantId),
+            eq(this.table.userId, userId),
+            eq(this.table.isBookingCalendar, true)
+          )
+        );
+
+      const [result] = await tx
+        .update(this.table)
+        .set({ isBookingCalendar: true, updatedAt: new Date() })
+        .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+        .returning();
+
+      return result as CalendarConnection;
+    });
+  }
+
+  /**
+   * Detaches a calendar. When it received new events, the user's longest-attached remaining
+   * calendar takes over.
+   */
+  async deactivateForUser(tenantId: string, userId: string, id: string): Promise<void> {
+    const [connection] = await this.db
+      .update(this.table)
+      .set({
+        isActive: false,
+        isBookingCalendar: false,
+        disconnectedAt: new Date(),
         updatedAt: new Date(),
       })
+      .where(
+        and(eq(this.table.id, id), eq(this.table.tenantId, tenantId), eq(this.table.userId, userId))
+      )
       .returning();
 
-    return result as CalendarConnection;
+    if (connection) {
+      await this.promoteBookingCalendar(tenantId, userId);
+    }
   }
 
   async markReauthRequired(
@@ -75,15 +161,34 @@ export class CalendarConnectionRepository extends TenantAwareRepository<
   }
 
   async disconnectByMailAccountId(mailAccountId: string): Promise<CalendarConnection[]> {
-    return await this.db
+    const disconnected = await this.db
       .update(this.table)
       .set({
         isActive: false,
+        isBookingCalendar: false,
         disconnectedAt: new Date(),
         reauthRequired: true,
         updatedAt: new Date(),
       })
       .where(eq(this.table.mailAccountId, mailAccountId))
       .returning();
+
+    const [first] = disconnected;
+    if (first) {
+      await this.promoteBookingCalendar(first.tenantId, first.userId);
+    }
+
+    return disconnected;
+  }
+
+  private async promoteBookingCalendar(tenantId: string, userId: string): Promise<void> {
+    // Listed booking calendar first, then by when they were attached
+    const [next] = await this.listActiveForUser(tenantId, userId);
+    if (!next || next.isBookingCalendar) return;
+
+    await this.db
+      .update(this.table)
+      .set({ isBookingCalendar: true, updatedAt: new Date() })
+      .where(eq(this.table.id, next.id));
   }
 }
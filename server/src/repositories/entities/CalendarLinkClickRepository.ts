@@ -12,6 +12,8 @@ export interface CreateCalendarLinkClickData {
   ipAddress?: string;
   userAgent?: string;
   referrer?: string;
+  isMachine?: boolean;
+  machineReasons?: string[] | null;
 }
 
 export class CalendarLinkClickRepository extends TenantAwareRepository<
@@ -66,6 +68,7 @@ export class CalendarLinkClickRepository extends TenantAwareRepository<
       eq(this.table.tenantId, tenantId),
       eq(this.table.contactId, contactId),
       eq(this.table.leadId, leadId),
+      eq(this.table.isMachine, false),
       gte(this.table.clickedAt, windowStart),
       lte(this.table.clickedAt, windowEnd)
     );
@@ -0,0 +1,280 @@
+import { and, asc, eq, inArray, lte, sql, type SQL } from 'drizzle-orm';
+import {
+  campaignTasks,
+  CampaignTask,
+  leadPointOfContacts,
+  leads,
+  NewCampaignTask,
+} from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+export type CampaignTaskWithContext = CampaignTask & {
+  contactName: string;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  contactTitle: string | null;
+  leadName: string;
+};
+
+/**
+ * <summary>CampaignTaskRepository stores manual campaign steps assigned to reps.</summary>
+ * <summary>Backs the rep task queue and records each task's outcome.</summary>
+ * <summary>One task per campaign node; outcomes drive the campaign's next transition.</summary>
+ */
+export class CampaignTaskRepository extends TenantAwareRepository<
+  typeof campaignTasks,
+  CampaignTask,
+  NewCampaignTask
+> {
+  constructor() {
+    super(campaignTasks);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewCampaignTask, 'tenantId'>
+  ): Promise<CampaignTask> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...(data as any), tenantId })
+      .returning();
+    return result as CampaignTask;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewCampaignTask, 'tenantId'>[]
+  ): Promise<CampaignTask[]> {
+    const values = data.map((d) => ({ ...(d as any), tenantId }));
+    return (await this.db.insert(this.table).values(values).returning()) as CampaignTask[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<CampaignTask | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<CampaignTask[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as CampaignTask[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<CampaignTask[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as CampaignTask[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewCampaignTask, 'tenantId'>>
+  ): Promise<CampaignTask | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as any)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as CampaignTask | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<CampaignTask | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as CampaignTask | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<CampaignTask[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as CampaignTask[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<CampaignTask[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as CampaignTask[];
+  }
+
+  // Domain helpers
+  async findOpenByCampaignNodeForTenant(
+    tenantId: string,
+    campaignId: string,
+    nodeId: string
+  ): Promise<CampaignTask | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.campaignId, campaignId),
+          eq(this.table.nodeId, nodeId),
+          eq(this.table.status, 'open')
+        )
+      )
+      .limit(1);
+    return results[0];
+  }
+
+  /**
+   * Creates the node's task, or returns its open task when the node already has one.
+   * Closed tasks don't count, so a campaign that enters the node again gets a new task.
+   */
+  async createIfMissingForTenant(
+    tenantId: string,
+    data: Omit<NewCampaignTask, 'tenantId'>
+  ): Promise<{ task: CampaignTask; created: boolean }> {
+    const [created] = await this.db
+      .insert(this.table)
+      .values({ ...(data as any), tenantId })
+      .onConflictDoNothing({
+        target: [this.table.tenantId, this.table.campaignId, this.table.nodeId],
+        where: sql`${this.table.status} = 'open'`,
+      })
+      .returning();
+    if (created) return { task: created as CampaignTask, created: true };
+
+    const existing = await this.findOpenByCampaignNodeForTenant(
+      tenantId,
+      data.campaignId,
+      data.nodeId
+    );
+    return { task: existing!, created: false };
+  }
+
+  /**
+   * Records a task's outcome only while it is still open, so a double submit can't
+   * close it twice. Returns undefined when the task was already closed.
+   */
+  async closeIfOpenForTenant(
+    id: string,
+    tenantId: string,
+    data: Pick<NewCampaignTask, 'status' | 'outcomeNote' | 'completedAt' | 'completedBy'>
+  ): Promise<CampaignTask | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set({ ...data, updatedAt: new Date() })
+      .where(
+        and(eq(this.table.id, id), eq(this.table.tenantId, tenantId), eq(this.table.status, 'open'))
+      )
+      .returning();
+    return result as CampaignTask | undefined;
+  }
+
+  /**
+   * Cancels open tasks of a campaign, optionally only the one for a node
+   */
+  async cancelOpenForCampaignForTenant(
+    tenantId: string,
+    campaignId: string,
+    nodeId?: string
+  ): Promise<CampaignTask[]> {
+    const conditions: SQL[] = [
+      eq(this.table.tenantId, tenantId),
+      eq(this.table.campaignId, campaignId),
+      eq(this.table.status, 'open'),
+    ];
+    if (nodeId) conditions.push(eq(this.table.nodeId, nodeId));
+
+    return (await this.db
+      .update(this.table)
+      .set({ status: 'canceled', updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning()) as CampaignTask[];
+  }
+
+  async searchForTenant(
+    tenantId: string,
+    filters: {
+      assigneeId?: string;
+      status?: CampaignTask['status'];
+      dueBefore?: Date;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ tasks: CampaignTaskWithContext[]; total: number }> {
+    const conditions: SQL[] = [eq(this.table.tenantId, tenantId)];
+
+    if (filters.assigneeId) {
+      conditions.push(eq(this.table.assigneeId, filters.assigneeId));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(this.table.status, filters.status));
+    }
+
+    if (filters.dueBefore) {
+      conditions.push(lte(this.table.dueAt, filters.dueBefore));
+    }
+
+    let query = this.db
+      .select({
+        task: this.table,
+        contactName: leadPointOfContacts.name,
+        contactEmail: leadPointOfContacts.email,
+        contactPhone: leadPointOfContacts.phone,
+        contactTitle: leadPointOfContacts.title,
+        leadName: leads.name,
+      })
+      .from(this.table)
+      .innerJoin(leadPointOfContacts, eq(leadPointOfContacts.id, this.table.contactId))
+      .innerJoin(leads, eq(leads.id, this.table.leadId))
+      .where(and(...conditions))
+      .orderBy(asc(this.table.dueAt))
+      .$dynamic();
+
+    if (filters.limit) {
+      query = query.limit(filters.limit);
+    }
+
+    if (filters.offset) {
+      query = query.offset(filters.offset);
+    }
+
+    const rows = await query;
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(this.table)
+      .where(and(...conditions));
+
+    return {
+      tasks: rows.map(({ task, ...context }) => ({ ...(task as CampaignTask), ...context })),
+      total: countResult?.count ?? 0,
+    };
+  }
+}
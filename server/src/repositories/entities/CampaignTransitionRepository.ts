@@ -1,7 +1,20 @@
 import { and, eq, desc, inArray } from 'drizzle-orm';
-import { campaignTransitions, CampaignTransition, NewCampaignTransition } from '@/db/schema';
+import {
+  campaignTransitions,
+  CampaignTransition,
+  NewCampaignTransition,
+  contactCampaigns,
+  leadPointOfContacts,
+  users,
+} from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
+export type CampaignTransitionWithContext = CampaignTransition & {
+  contactId: string;
+  contactName: string;
+  createdByName: string | null;
+};
+
 /**
  * <summary>CampaignTransitionRepository records state changes for campaigns.</summary>
  * <summary>Provides a full audit trail of why/when transitions occurred and by whom.</summary>
@@ -134,4 +147,33 @@ export class CampaignTransitionRepository extends TenantAwareRepository<
       .where(and(eq(this.table.tenantId, tenantId), eq(this.table.campaignId, campaignId)))
       .orderBy(desc(this.table.occurredAt))) as CampaignTransition[];
   }
+
+  /**
+   * Status changes across a lead's campaigns, newest first, with the contact and who made them
+   */
+  async listByLeadForTenant(
+    tenantId: string,
+    leadId: string,
+    limit = 200
+  ): Promise<CampaignTransitionWithContext[]> {
+    const rows = await this.db
+      .select({
+        transition: this.table,
+        contactId: contactCampaigns.contactId,
+        contactName: leadPointOfContacts.name,
+        createdByName: users.name,
+      })
+      .from(this.table)
+      .innerJoin(contactCampaigns, eq(contactCampaigns.id, this.table.campaignId))
+      .innerJoin(leadPointOfContacts, eq(leadPointOfContacts.id, contactCampaigns.contactId))
+      .leftJoin(users, eq(users.id, this.table.createdBy))
+      .where(and(eq(this.table.tenantId, tenantId), eq(contactCampaigns.leadId, leadId)))
+      .orderBy(desc(this.table.occurredAt))
+      .limit(limit);
+
+    return rows.map(({ transition, ...context }) => ({
+      ...(transition as CampaignTransition),
+      ...context,
+    }));
+  }
 }
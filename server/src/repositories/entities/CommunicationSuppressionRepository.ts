@@ -1,4 +1,4 @@
-import { and, eq, inArray } from 'drizzle-orm';
+import { and, desc, eq, gt, ilike, inArray, isNull, or, sql, type SQL } from 'drizzle-orm';
 import {
   communicationSuppressions,
   CommunicationSuppression,
@@ -127,4 +127,107 @@ export class CommunicationSuppressionRepository extends TenantAwareRepository<
       .where(eq(this.table.tenantId, tenantId))
       .returning()) as CommunicationSuppression[];
   }
+
+  // Domain helpers
+  async findActiveByAddressesForTenant(
+    tenantId: string,
+    channel: CommunicationSuppression['channel'],
+    addresses: string[],
+    now: Date = new Date()
+  ): Promise<CommunicationSuppression[]> {
+    if (addresses.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.channel, channel),
+          inArray(this.table.address, addresses),
+          this.activeCondition(now)
+        )
+      )) as CommunicationSuppression[];
+  }
+
+  async searchForTenant(
+    tenantId: string,
+    filters: {
+      channel?: CommunicationSuppression['channel'];
+      reason?: string;
+      search?: string;
+      includeExpired?: boolean;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ suppressions: CommunicationSuppression[]; total: number }> {
+    const conditions: SQL[] = [eq(this.table.tenantId, tenantId)];
+
+    if (filters.channel) {
+      conditions.push(eq(this.table.channel, filters.channel));
+    }
+
+    if (filters.reason) {
+      conditions.push(eq(this.table.reason, filters.reason));
+    }
+
+    if (filters.search && filters.search.trim()) {
+      conditions.push(ilike(this.table.address, `%${filters.search.trim()}%`));
+    }
+
+    if (!filters.includeExpired) {
+      conditions.push(this.activeCondition(new Date()));
+    }
+
+    let query = this.db
+      .select()
+      .from(this.table)
+      .where(and(...conditions))
+      .orderBy(desc(this.table.suppressedAt))
+      .$dynamic();
+
+    if (filters.limit) {
+      query = query.limit(filters.limit);
+    }
+
+    if (filters.offset) {
+      query = query.offset(filters.offset);
+    }
+
+    const suppressions = (await query) as CommunicationSuppression[];
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(this.table)
+      .where(and(...conditions));
+
+    return { suppressions, total: countResult?.count ?? 0 };
+  }
+
+  /**
+   * Inserts suppressions, replacing reason and expiry on addresses already on the list
+   */
+  async upsertManyForTenant(
+    tenantId: string,
+    data: Pick<NewCommunicationSuppression, 'channel' | 'address' | 'reason' | 'expiresAt'>[]
+  ): Promise<CommunicationSuppression[]> {
+    if (data.length === 0) return [];
+    const now = new Date();
+    return (await this.db
+      .insert(this.table)
+      .values(data.map((d) => ({ ...d, tenantId, suppressedAt: now, updatedAt: now })))
+      .onConflictDoUpdate({
+        target: [this.table.tenantId, this.table.channel, this.table.address],
+        set: {
+          reason: sql`excluded.reason`,
+          expiresAt: sql`excluded.expires_at`,
+          suppressedAt: now,
+          updatedAt: now,
+        },
+      })
+      .returning()) as CommunicationSuppression[];
+  }
+
+  private activeCondition(now: Date): SQL {
+    return or(isNull(this.table.expiresAt), gt(this.table.expiresAt, now))!;
+  }
 }
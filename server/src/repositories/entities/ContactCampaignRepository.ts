@@ -1,7 +1,18 @@
-import { and, eq, inArray } from 'drizzle-orm';
-import { contactCampaigns, ContactCampaign, NewContactCampaign, channelEnum } from '@/db/schema';
+import { and, asc, eq, inArray, type SQL } from 'drizzle-orm';
+import {
+  contactCampaigns,
+  ContactCampaign,
+  NewContactCampaign,
+  leadPointOfContacts,
+  leads,
+} from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
+export type ContactCampaignWithContact = ContactCampaign & {
+  contactName: string;
+  contactEmail: string | null;
+};
+
 /**
  * <summary>ContactCampaignRepository orchestrates per-contact campaign instances and their lifecycle.</summary>
  * <summary>Supports idempotent lookup by contact+channel and status-based listings for execution control.</summary>
@@ -118,22 +129,69 @@ export class ContactCampaignRepository extends TenantAwareRepository<
   }
 
   // Domain-specific methods
-  async findByContactAndChannelForTenant(
+  /**
+   * A contact has at most one campaign; its plan may mix channels
+   */
+  async findByContactForTenant(
     tenantId: string,
-    contactId: string,
-    channel: (typeof channelEnum)['enumValues'][number]
+    contactId: string
   ): Promise<ContactCampaign | undefined> {
     const results = await this.db
       .select()
       .from(this.table)
-      .where(
-        and(
-          eq(this.table.tenantId, tenantId),
-          eq(this.table.contactId, contactId),
-          eq(this.table.channel, channel)
-        )
-      )
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.contactId, contactId)))
       .limit(1);
     return results[0];
   }
+
+  /**
+   * Campaigns in the given statuses, optionally narrowed to one lead or one lead owner
+   */
+  async findByStatusForTenant(
+    tenantId: string,
+    statuses: ContactCampaign['status'][],
+    filters: { leadId?: string; ownerId?: string } = {}
+  ): Promise<ContactCampaign[]> {
+    const conditions: SQL[] = [
+      eq(this.table.tenantId, tenantId),
+      inArray(this.table.status, statuses),
+    ];
+    if (filters.leadId) {
+      conditions.push(eq(this.table.leadId, filters.leadId));
+    }
+    if (filters.ownerId) {
+      conditions.push(eq(leads.ownerId, filters.ownerId));
+    }
+
+    const rows = await this.db
+      .select({ campaign: this.table })
+      .from(this.table)
+      .innerJoin(leads, eq(leads.id, this.table.leadId))
+      .where(and(...conditions));
+    return rows.map(({ campaign }) => campaign as ContactCampaign);
+  }
+
+  /**
+   * A lead's campaigns with the contact each one runs for
+   */
+  async listByLeadWithContactForTenant(
+    tenantId: string,
+    leadId: string
+  ): Promise<ContactCampaignWithContact[]> {
+    const rows = await this.db
+      .select({
+        campaign: this.table,
+        contactName: leadPointOfContacts.name,
+        contactEmail: leadPointOfContacts.email,
+      })
+      .from(this.table)
+      .innerJoin(leadPointOfContacts, eq(leadPointOfContacts.id, this.table.contactId))
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.leadId, leadId)))
+      .orderBy(asc(leadPointOfContacts.name));
+
+    return rows.map(({ campaign, ...contact }) => ({
+      ...(campaign as ContactCampaign),
+      ...contact,
+    }));
+  }
 }
@@ -1,4 +1,4 @@
-import { and, eq, inArray } from 'drizzle-orm';
+import { and, asc, desc, eq, inArray, ne } from 'drizzle-orm';
 import { contactChannels, ContactChannel, NewContactChannel } from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
@@ -114,4 +114,68 @@ export class ContactChannelRepository extends TenantAwareRepository<
       .where(eq(this.table.tenantId, tenantId))
       .returning()) as ContactChannel[];
   }
+
+  // Domain helpers
+  async findByContactForTenant(
+    tenantId: string,
+    contactId: string,
+    type?: ContactChannel['type']
+  ): Promise<ContactChannel[]> {
+    const conditions = [eq(this.table.tenantId, tenantId), eq(this.table.contactId, contactId)];
+    if (type) conditions.push(eq(this.table.type, type));
+
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(and(...conditions))
+      .orderBy(
+        asc(this.table.type),
+        desc(this.table.isPrimary),
+        desc(this.table.isVerified),
+        asc(this.table.createdAt)
+      )) as ContactChannel[];
+  }
+
+  /**
+   * Inserts the channel values a contact doesn't have yet and leaves existing ones untouched
+   */
+  async insertMissingForTenant(
+    tenantId: string,
+    data: Omit<NewContactChannel, 'tenantId'>[]
+  ): Promise<ContactChannel[]> {
+    if (data.length === 0) return [];
+    return (await this.db
+      .insert(this.table)
+      .values(data.map((d) => ({ ...d, tenantId })))
+      .onConflictDoNothing({
+        target: [this.table.tenantId, this.table.contactId, this.table.type, this.table.value],
+      })
+      .returning()) as ContactChannel[];
+  }
+
+  /**
+   * Makes the given channel the only primary of its type for the contact
+   */
+  async setPrimaryForTenant(tenantId: string, channel: ContactChannel): Promise<ContactChannel> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .update(this.table)
+        .set({ isPrimary: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(this.table.tenantId, tenantId),
+            eq(this.table.contactId, channel.contactId),
+            eq(this.table.type, channel.type),
+            ne(this.table.id, channel.id)
+          )
+        );
+
+      const [result] = await tx
+        .update(this.table)
+        .set({ isPrimary: true, updatedAt: new Date() })
+        .where(and(eq(this.table.id, channel.id), eq(this.table.tenantId, tenantId)))
+        .returning();
+      return result as ContactChannel;
+    });
+  }
 }
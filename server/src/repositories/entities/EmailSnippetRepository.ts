@@ -0,0 +1,130 @@
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { emailSnippets, EmailSnippet, NewEmailSnippet } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+/**
+ * <summary>EmailSnippetRepository stores reusable blocks (signatures, case studies, CTAs).</summary>
+ * <summary>Snippets are referenced from templates and plan nodes as {{snippet.key}}.</summary>
+ */
+export class EmailSnippetRepository extends TenantAwareRepository<
+  typeof emailSnippets,
+  EmailSnippet,
+  NewEmailSnippet
+> {
+  constructor() {
+    super(emailSnippets);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewEmailSnippet, 'tenantId'>
+  ): Promise<EmailSnippet> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...(data as Omit<NewEmailSnippet, 'tenantId'>), tenantId } as NewEmailSnippet)
+      .returning();
+    return result as EmailSnippet;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewEmailSnippet, 'tenantId'>[]
+  ): Promise<EmailSnippet[]> {
+    const values: NewEmailSnippet[] = data.map(
+      (d) => ({ ...(d as Omit<NewEmailSnippet, 'tenantId'>), tenantId }) as NewEmailSnippet
+    );
+    return (await this.db.insert(this.table).values(values).returning()) as EmailSnippet[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<EmailSnippet | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<EmailSnippet[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as EmailSnippet[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<EmailSnippet[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as EmailSnippet[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewEmailSnippet, 'tenantId'>>
+  ): Promise<EmailSnippet | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as Partial<Omit<NewEmailSnippet, 'tenantId'>> as Partial<NewEmailSnippet>)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as EmailSnippet | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<EmailSnippet | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as EmailSnippet | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<EmailSnippet[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as EmailSnippet[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<EmailSnippet[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as EmailSnippet[];
+  }
+
+  // Domain helpers
+  /**
+   * Snippets in key order
+   */
+  async listForTenant(tenantId: string): Promise<EmailSnippet[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .orderBy(asc(this.table.key))) as EmailSnippet[];
+  }
+}
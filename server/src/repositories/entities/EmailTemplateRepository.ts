@@ -0,0 +1,142 @@
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { emailTemplates, EmailTemplate, NewEmailTemplate } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+/**
+ * <summary>EmailTemplateRepository stores each tenant's library of reusable email templates.</summary>
+ * <summary>Templates keep their {{variables}} unrendered; they are filled in per contact.</summary>
+ */
+export class EmailTemplateRepository extends TenantAwareRepository<
+  typeof emailTemplates,
+  EmailTemplate,
+  NewEmailTemplate
+> {
+  constructor() {
+    super(emailTemplates);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewEmailTemplate, 'tenantId'>
+  ): Promise<EmailTemplate> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...(data as Omit<NewEmailTemplate, 'tenantId'>), tenantId } as NewEmailTemplate)
+      .returning();
+    return result as EmailTemplate;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewEmailTemplate, 'tenantId'>[]
+  ): Promise<EmailTemplate[]> {
+    const values: NewEmailTemplate[] = data.map(
+      (d) => ({ ...(d as Omit<NewEmailTemplate, 'tenantId'>), tenantId }) as NewEmailTemplate
+    );
+    return (await this.db.insert(this.table).values(values).returning()) as EmailTemplate[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<EmailTemplate | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<EmailTemplate[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as EmailTemplate[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<EmailTemplate[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as EmailTemplate[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewEmailTemplate, 'tenantId'>>
+  ): Promise<EmailTemplate | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as Partial<Omit<NewEmailTemplate, 'tenantId'>> as Partial<NewEmailTemplate>)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as EmailTemplate | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<EmailTemplate | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as EmailTemplate | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<EmailTemplate[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as EmailTemplate[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<EmailTemplate[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as EmailTemplate[];
+  }
+
+  // Domain helpers
+  /**
+   * Templates in name order, for the library and the plan editor
+   */
+  async listForTenant(tenantId: string): Promise<EmailTemplate[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .orderBy(asc(this.table.name))) as EmailTemplate[];
+  }
+
+  /**
+   * Templates flagged as few-shot examples for AI-written campaigns
+   */
+  async findExamplesForTenant(tenantId: string, limit: number): Promise<EmailTemplate[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.useAsExample, true)))
+      .orderBy(asc(this.table.name))
+      .limit(limit)) as EmailTemplate[];
+  }
+}
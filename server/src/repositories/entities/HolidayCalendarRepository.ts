@@ -0,0 +1,134 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { holidayCalendars, HolidayCalendar, NewHolidayCalendar } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+/**
+ * <summary>HolidayCalendarRepository records which national holiday calendars a tenant observes.</summary>
+ * <summary>Holiday dates themselves ship with the server; only the country codes live here.</summary>
+ */
+export class HolidayCalendarRepository extends TenantAwareRepository<
+  typeof holidayCalendars,
+  HolidayCalendar,
+  NewHolidayCalendar
+> {
+  constructor() {
+    super(holidayCalendars);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewHolidayCalendar, 'tenantId'>
+  ): Promise<HolidayCalendar> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...(data as Omit<NewHolidayCalendar, 'tenantId'>), tenantId } as NewHolidayCalendar)
+      .returning();
+    return result as HolidayCalendar;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewHolidayCalendar, 'tenantId'>[]
+  ): Promise<HolidayCalendar[]> {
+    const values: NewHolidayCalendar[] = data.map(
+      (d) => ({ ...(d as Omit<NewHolidayCalendar, 'tenantId'>), tenantId }) as NewHolidayCalendar
+    );
+    return (await this.db.insert(this.table).values(values).returning()) as HolidayCalendar[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<HolidayCalendar | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<HolidayCalendar[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as HolidayCalendar[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<HolidayCalendar[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as HolidayCalendar[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewHolidayCalendar, 'tenantId'>>
+  ): Promise<HolidayCalendar | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as Partial<Omit<NewHolidayCalendar, 'tenantId'>> as Partial<NewHolidayCalendar>)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as HolidayCalendar | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<HolidayCalendar | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as HolidayCalendar | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<HolidayCalendar[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as HolidayCalendar[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<HolidayCalendar[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as HolidayCalendar[];
+  }
+
+  // Domain helpers
+  /**
+   * Replaces the tenant's observed calendars with the given country codes
+   */
+  async replaceForTenant(tenantId: string, countryCodes: string[]): Promise<HolidayCalendar[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(this.table).where(eq(this.table.tenantId, tenantId));
+      if (countryCodes.length === 0) return [];
+
+      return (await tx
+        .insert(this.table)
+        .values(countryCodes.map((countryCode) => ({ tenantId, countryCode })))
+        .returning()) as HolidayCalendar[];
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { and, eq, inArray } from 'drizzle-orm';
+import { and, desc, eq, inArray } from 'drizzle-orm';
 import { inboundMessages, InboundMessage, NewInboundMessage } from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
@@ -116,4 +116,32 @@ export class InboundMessageRepository extends TenantAwareRepository<
       .where(eq(this.table.tenantId, tenantId))
       .returning()) as InboundMessage[];
   }
+
+  // Domain helpers
+  async findByProviderMessageIdForTenant(
+    tenantId: string,
+    channel: InboundMessage['channel'],
+    providerMessageId: string
+  ): Promise<InboundMessage | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.channel, channel),
+          eq(this.table.providerMessageId, providerMessageId)
+        )
+      )
+      .limit(1);
+    return results[0];
+  }
+
+  async findByCampaignForTenant(tenantId: string, campaignId: string): Promise<InboundMessage[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.campaignId, campaignId)))
+      .orderBy(desc(this.table.receivedAt))) as InboundMessage[];
+  }
 }
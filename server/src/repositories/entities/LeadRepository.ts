@@ -11,6 +11,19 @@ export interface LeadWithOwner extends Lead {
   } | null;
 }
 
+export interface PipelineLead {
+  id: string;
+  name: string;
+  url: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  pipelineStageId: string | null;
+  dealValue: number | null;
+  expectedCloseDate: string | null;
+  stageChangedAt: Date | null;
+  createdAt: Date;
+}
+
 export interface LeadSearchOptions {
   searchQuery?: string;
   ownerId?: string;
@@ -115,6 +128,10 @@ export class LeadRepository extends TenantAwareRepository<typeof leads, Lead, Ne
         brandColors: this.table.brandColors,
         primaryContactId: this.table.primaryContactId,
         ownerId: this.table.ownerId,
+        pipelineStageId: this.table.pipelineStageId,
+        dealValue: this.table.dealValue,
+        expectedCloseDate: this.table.expectedCloseDate,
+        stageChangedAt: this.table.stageChangedAt,
         tenantId: this.table.tenantId,
         siteEmbeddingDomainId: this.table.siteEmbeddingDomainId,
         createdAt: this.table.createdAt,
@@ -213,6 +230,33 @@ export class LeadRepository extends TenantAwareRepository<typeof leads, Lead, Ne
     return await this.updateByIdForTenant(id, tenantId, { ownerId });
   }
 
+  /**
+   * Leads with just the fields the pipeline board shows, optionally for one owner
+   */
+  async findForPipelineForTenant(tenantId: string, ownerId?: string): Promise<PipelineLead[]> {
+    return await this.db
+      .select({
+        id: this.table.id,
+        name: this.table.name,
+        url: this.table.url,
+        ownerId: this.table.ownerId,
+        ownerName: users.name,
+        pipelineStageId: this.table.pipelineStageId,
+        dealValue: this.table.dealValue,
+        expectedCloseDate: this.table.expectedCloseDate,
+        stageChangedAt: this.table.stageChangedAt,
+        createdAt: this.table.createdAt,
+      })
+      .from(this.table)
+      .leftJoin(users, eq(this.table.ownerId, users.id))
+      .where(
+        ownerId
+          ? and(eq(this.table.tenantId, tenantId), eq(this.table.ownerId, ownerId))
+          : eq(this.table.tenantId, tenantId)
+      )
+      .orderBy(desc(this.table.updatedAt));
+  }
+
   /**
    * Set primary contact for lead
    */
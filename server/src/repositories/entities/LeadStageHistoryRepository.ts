@@ -0,0 +1,133 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { leadStageHistory, LeadStageHistory, NewLeadStageHistory } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+/**
+ * <summary>LeadStageHistoryRepository records every pipeline stage change on a lead.</summary>
+ * <summary>Rows note whether a rep moved the lead or an event (reply, booking) advanced it.</summary>
+ */
+export class LeadStageHistoryRepository extends TenantAwareRepository<
+  typeof leadStageHistory,
+  LeadStageHistory,
+  NewLeadStageHistory
+> {
+  constructor() {
+    super(leadStageHistory);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewLeadStageHistory, 'tenantId'>
+  ): Promise<LeadStageHistory> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({
+        ...(data as Omit<NewLeadStageHistory, 'tenantId'>),
+        tenantId,
+      } as NewLeadStageHistory)
+      .returning();
+    return result as LeadStageHistory;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewLeadStageHistory, 'tenantId'>[]
+  ): Promise<LeadStageHistory[]> {
+    const values: NewLeadStageHistory[] = data.map(
+      (d) => ({ ...(d as Omit<NewLeadStageHistory, 'tenantId'>), tenantId }) as NewLeadStageHistory
+    );
+    return (await this.db.insert(this.table).values(values).returning()) as LeadStageHistory[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<LeadStageHistory | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<LeadStageHistory[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as LeadStageHistory[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<LeadStageHistory[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as LeadStageHistory[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewLeadStageHistory, 'tenantId'>>
+  ): Promise<LeadStageHistory | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as Partial<Omit<NewLeadStageHistory, 'tenantId'>> as Partial<NewLeadStageHistory>)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as LeadStageHistory | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<LeadStageHistory | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as LeadStageHistory | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<LeadStageHistory[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as LeadStageHistory[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<LeadStageHistory[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as LeadStageHistory[];
+  }
+
+  // Domain helpers
+  /**
+   * Stage changes for a lead, newest first
+   */
+  async findByLeadForTenant(leadId: string, tenantId: string): Promise<LeadStageHistory[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.leadId, leadId), eq(this.table.tenantId, tenantId)))
+      .orderBy(desc(this.table.createdAt))) as LeadStageHistory[];
+  }
+}
@@ -1,4 +1,4 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 import { mailAccounts, MailAccount, NewMailAccount } from '@/db/schema';
 import { NotFoundError } from '@/exceptions/error';
 import { logger } from '@/libs/logger';
@@ -81,6 +81,23 @@ export class MailAccountRepository extends TenantAwareRepository<
     return result;
   }
 
+  /**
+   * Connected accounts whose inboxes should be polled for campaign replies
+   */
+  async findConnectedForInboxSync(): Promise<MailAccount[]> {
+    return await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.reauthRequired, false), isNull(this.table.disconnectedAt)));
+  }
+
+  async updateInboxSyncCursor(id: string, lastInboxSyncAt: Date): Promise<void> {
+    await this.db
+      .update(this.table)
+      .set({ lastInboxSyncAt, updatedAt: new Date() })
+      .where(eq(this.table.id, id));
+  }
+
   async reconnectProvider(
     userId: string,
     providerId: string,
@@ -0,0 +1,41 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { meetingTypes, MeetingType, NewMeetingType } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+export class MeetingTypeRepository extends TenantAwareRepository<
+  typeof meetingTypes,
+  MeetingType,
+  NewMeetingType
+> {
+  constructor() {
+    super(meetingTypes);
+  }
+
+  async listByUserForTenant(tenantId: string, userId: string): Promise<MeetingType[]> {
+    return await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.userId, userId)))
+      .orderBy(asc(this.table.durationMinutes), asc(this.table.name));
+  }
+
+  async findBySlugForUser(
+    tenantId: string,
+    userId: string,
+    slug: string
+  ): Promise<MeetingType | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.userId, userId),
+          eq(this.table.slug, slug)
+        )
+      )
+      .limit(1);
+
+    return result;
+  }
+}
@@ -1,5 +1,12 @@
-import { and, eq, inArray } from 'drizzle-orm';
-import { messageEvents, MessageEvent, NewMessageEvent } from '@/db/schema';
+import { and, asc, desc, eq, gte, inArray } from 'drizzle-orm';
+import {
+  leadPointOfContacts,
+  leads,
+  messageEvents,
+  outboundMessages,
+  MessageEvent,
+  NewMessageEvent,
+} from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
 /**
@@ -136,7 +143,8 @@ export class MessageEventRepository extends TenantAwareRepository<
   }
 
   /**
-   * Find message event by message ID and event type for timeout processing
+   * Find message event by message ID and event type for timeout processing.
+   * Machine-generated events (link scanners, image prefetch) are ignored.
    * @param messageId - Message ID
    * @param eventType - Event type (e.g., 'open', 'click')
    * @returns MessageEvent if found, null otherwise
@@ -145,9 +153,88 @@ export class MessageEventRepository extends TenantAwareRepository<
     const result = await this.db
       .select()
       .from(this.table)
-      .where(and(eq(this.table.messageId, messageId), eq(this.table.type, eventType)))
+      .where(
+        and(
+          eq(this.table.messageId, messageId),
+          eq(this.table.type, eventType),
+          eq(this.table.isMachine, false)
+        )
+      )
       .limit(1);
 
     return result[0] || null;
   }
+
+  /**
+   * Find all events recorded for a message, oldest first
+   * @param tenantId - Tenant ID
+   * @param messageId - Outbound message ID
+   * @returns Message events for the message
+   */
+  async findByMessageIdForTenant(tenantId: string, messageId: string): Promise<MessageEvent[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.messageId, messageId)))
+      .orderBy(asc(this.table.eventAt))) as MessageEvent[];
+  }
+
+  /**
+   * Flag events as machine-generated after the fact (e.g. earlier clicks in a scanner burst)
+   * @param tenantId - Tenant ID
+   * @param ids - Message event IDs
+   * @param reasons - Detection reasons to record
+   */
+  async markMachineForTenant(tenantId: string, ids: string[], reasons: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db
+      .update(this.table)
+      .set({ isMachine: true, machineReasons: reasons, updatedAt: new Date() })
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)));
+  }
+
+  /**
+   * Find recent human engagement (opens, clicks, replies) with the recipient's location
+   * details, newest first. Machine-generated events are excluded.
+   * @param tenantId - Tenant ID
+   * @param since - Earliest event time to include
+   * @param limit - Maximum number of events
+   * @returns Event times with the contact's timezone, location and email and the lead's address
+   */
+  async findEngagementWithContactsForTenant(
+    tenantId: string,
+    since: Date,
+    limit: number
+  ): Promise<
+    Array<{
+      eventAt: Date;
+      contactTimezone: string | null;
+      contactLocation: string | null;
+      contactEmail: string | null;
+      leadAddress: string | null;
+    }>
+  > {
+    return await this.db
+      .select({
+        eventAt: this.table.eventAt,
+        contactTimezone: leadPointOfContacts.timezone,
+        contactLocation: leadPointOfContacts.location,
+        contactEmail: leadPointOfContacts.email,
+        leadAddress: leads.address,
+      })
+      .from(this.table)
+      .innerJoin(outboundMessages, eq(this.table.messageId, outboundMessages.id))
+      .innerJoin(leadPointOfContacts, eq(outboundMessages.contactId, leadPointOfContacts.id))
+      .innerJoin(leads, eq(leadPointOfContacts.leadId, leads.id))
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          inArray(this.table.type, ['open', 'click', 'reply']),
+          eq(this.table.isMachine, false),
+          gte(this.table.eventAt, since)
+        )
+      )
+      .orderBy(desc(this.table.eventAt))
+      .limit(limit);
+  }
 }
@@ -1,7 +1,22 @@
-import { and, eq, inArray } from 'drizzle-orm';
-import { outboundMessages, OutboundMessage, NewOutboundMessage } from '@/db/schema';
+import { and, asc, desc, eq, inArray, sql, type SQL } from 'drizzle-orm';
+import {
+  leadPointOfContacts,
+  leads,
+  outboundMessages,
+  OutboundMessage,
+  NewOutboundMessage,
+} from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
+export type OutboundMessageForReview = OutboundMessage & {
+  contactName: string;
+  contactEmail: string | null;
+  contactTitle: string | null;
+  leadId: string;
+  leadName: string;
+  ownerId: string | null;
+};
+
 /**
  * <summary>OutboundMessageRepository is the outbox for all scheduled and sent messages.</summary>
  * <summary>Supports idempotency via dedupe keys and lookup by campaign/state.</summary>
@@ -129,4 +144,158 @@ export class OutboundMessageRepository extends TenantAwareRepository<
       .limit(1);
     return results[0];
   }
+
+  async findByMessageIdHeadersForTenant(
+    tenantId: string,
+    messageIdHeaders: string[]
+  ): Promise<OutboundMessage[]> {
+    if (messageIdHeaders.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          inArray(this.table.messageIdHeader, messageIdHeaders)
+        )
+      )) as OutboundMessage[];
+  }
+
+  async findLatestByProviderThreadIdForTenant(
+    tenantId: string,
+    providerThreadId: string
+  ): Promise<OutboundMessage | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(eq(this.table.tenantId, tenantId), eq(this.table.providerThreadId, providerThreadId))
+      )
+      .orderBy(desc(this.table.createdAt))
+      .limit(1);
+    return results[0];
+  }
+
+  /**
+   * Latest SMS each tenant sent to a phone number, most recent first. Inbound texts only
+   * carry the sender's number and every tenant shares the sending number, so this is how
+   * a reply finds its campaign: the most recent conversation gets the reply, while an
+   * opt-out applies to every tenant that has texted the number.
+   */
+  async findLatestSentSmsPerTenantToNumber(phone: string): Promise<OutboundMessage[]> {
+    const results = (await this.db
+      .selectDistinctOn([this.table.tenantId])
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.channel, 'sms'),
+          eq(this.table.state, 'sent'),
+          sql`${this.table.content}->>'to' = ${phone}`
+        )
+      )
+      .orderBy(this.table.tenantId, desc(this.table.sentAt))) as OutboundMessage[];
+
+    return results.sort((a, b) => (b.sentAt?.getTime() ?? 0) - (a.sentAt?.getTime() ?? 0));
+  }
+
+  /**
+   * Marks a sent message as failed and moves it off its dedupe key so the same campaign
+   * step can be sent again (e.g. to a fallback address after a hard bounce)
+   */
+  async releaseDedupeKeyForTenant(
+    id: string,
+    tenantId: string,
+    lastError: string
+  ): Promise<OutboundMessage | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set({
+        state: 'failed',
+        lastError,
+        errorAt: new Date(),
+        dedupeKey: sql`${this.table.dedupeKey} || ':released:' || ${this.table.id}`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as OutboundMessage | undefined;
+  }
+
+  /**
+   * Messages held for approval, oldest first, with the contact and lead they go to
+   */
+  async findPendingReviewForTenant(
+    tenantId: string,
+    filters: { ownerId?: string; limit?: number } = {}
+  ): Promise<OutboundMessageForReview[]> {
+    const conditions: SQL[] = [
+      eq(this.table.tenantId, tenantId),
+      eq(this.table.state, 'pending_review'),
+    ];
+    if (filters.ownerId) {
+      conditions.push(eq(leads.ownerId, filters.ownerId));
+    }
+
+    const rows = await this.db
+      .select({
+        message: this.table,
+        contactName: leadPointOfContacts.name,
+        contactEmail: leadPointOfContacts.email,
+        contactTitle: leadPointOfContacts.title,
+        leadId: leads.id,
+        leadName: leads.name,
+        ownerId: leads.ownerId,
+      })
+      .from(this.table)
+      .innerJoin(leadPointOfContacts, eq(leadPointOfContacts.id, this.table.contactId))
+      .innerJoin(leads, eq(leads.id, leadPointOfContacts.leadId))
+      .where(and(...conditions))
+      .orderBy(asc(this.table.createdAt))
+      .limit(filters.limit ?? 200);
+
+    return rows.map(({ message, ...context }) => ({ ...(message as OutboundMessage), ...context }));
+  }
+
+  /**
+   * Moves a held message out of review only if it is still `pending_review`, so two reviewers
+   * acting at once cannot both release it; undefined when it was already reviewed
+   */
+  async updateIfPendingReviewForTenant(
+    id: string,
+    tenantId: string,
+    data: Pick<NewOutboundMessage, 'state' | 'reviewedBy' | 'reviewedAt'>
+  ): Promise<OutboundMessage | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set({ ...data, updatedAt: new Date() })
+      .where(
+        and(
+          eq(this.table.id, id),
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.state, 'pending_review')
+        )
+      )
+      .returning();
+    return result as OutboundMessage | undefined;
+  }
+
+  /**
+   * Cancels a campaign's messages still waiting for review, e.g. when it is stopped
+   */
+  async cancelPendingReviewForCampaignForTenant(
+    tenantId: string,
+    campaignId: string
+  ): Promise<OutboundMessage[]> {
+    return (await this.db
+      .update(this.table)
+      .set({ state: 'canceled', updatedAt: new Date() })
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.campaignId, campaignId),
+          inArray(this.table.state, ['pending_review', 'approved'])
+        )
+      )
+      .returning()) as OutboundMessage[];
+  }
 }
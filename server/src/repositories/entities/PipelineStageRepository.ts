@@ -0,0 +1,130 @@
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { pipelineStages, PipelineStage, NewPipelineStage } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+/**
+ * <summary>PipelineStageRepository stores each tenant's ordered sales pipeline stages.</summary>
+ * <summary>Stages are open, won or lost, and may list events that move leads into them.</summary>
+ */
+export class PipelineStageRepository extends TenantAwareRepository<
+  typeof pipelineStages,
+  PipelineStage,
+  NewPipelineStage
+> {
+  constructor() {
+    super(pipelineStages);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewPipelineStage, 'tenantId'>
+  ): Promise<PipelineStage> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...(data as Omit<NewPipelineStage, 'tenantId'>), tenantId } as NewPipelineStage)
+      .returning();
+    return result as PipelineStage;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewPipelineStage, 'tenantId'>[]
+  ): Promise<PipelineStage[]> {
+    const values: NewPipelineStage[] = data.map(
+      (d) => ({ ...(d as Omit<NewPipelineStage, 'tenantId'>), tenantId }) as NewPipelineStage
+    );
+    return (await this.db.insert(this.table).values(values).returning()) as PipelineStage[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<PipelineStage | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<PipelineStage[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as PipelineStage[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<PipelineStage[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as PipelineStage[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewPipelineStage, 'tenantId'>>
+  ): Promise<PipelineStage | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as Partial<Omit<NewPipelineStage, 'tenantId'>> as Partial<NewPipelineStage>)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as PipelineStage | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<PipelineStage | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as PipelineStage | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<PipelineStage[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as PipelineStage[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<PipelineStage[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as PipelineStage[];
+  }
+
+  // Domain helpers
+  /**
+   * Stages in pipeline order
+   */
+  async findOrderedForTenant(tenantId: string): Promise<PipelineStage[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .orderBy(asc(this.table.position))) as PipelineStage[];
+  }
+}
@@ -1,4 +1,5 @@
-import { and, eq, lte, inArray } from 'drizzle-orm';
+import { and, eq, lte, inArray, sql } from 'drizzle-orm';
+import type { JobsOptions, JobState } from 'bullmq';
 import {
   scheduledActions,
   ScheduledAction,
@@ -9,6 +10,20 @@ import { getQueue } from '@/libs/bullmq';
 import { logger } from '@/libs/logger';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
+type ScheduledActionStatus = (typeof scheduledActionStatusEnum)['enumValues'][number];
+
+// Job kept in a paused action's payload so resume can re-add it
+export interface PausedJob {
+  name: string;
+  data: unknown;
+  opts: Pick<JobsOptions, 'attempts' | 'backoff' | 'removeOnComplete' | 'removeOnFail'>;
+}
+
+// Jobs that haven't started yet; anything else has already run or is running
+const WAITING_JOB_STATES: Array<JobState | 'unknown'> = ['delayed', 'waiting', 'prioritized'];
+
+const OPEN_STATUSES: ScheduledActionStatus[] = ['pending', 'paused'];
+
 /**
  * <summary>ScheduledActionRepository manages the SQL-driven job queue for campaign steps.</summary>
  * <summary>Provides access to pending/due actions that drive execution timing and retries.</summary>
@@ -153,7 +168,7 @@ export class ScheduledActionRepository extends TenantAwareRepository<
     tenantId: string,
     campaignId: string
   ): Promise<ScheduledAction[]> {
-    // First, find all pending actions for this campaign to get their job IDs
+    // First, find all pending and paused actions for this campaign to get their job IDs
     const pendingActions = await this.db
       .select()
       .from(this.table)
@@ -161,10 +176,7 @@ export class ScheduledActionRepository extends TenantAwareRepository<
         and(
           eq(this.table.tenantId, tenantId),
           eq(this.table.campaignId, campaignId),
-          eq(
-            this.table.status,
-            'pending' as (typeof scheduledActionStatusEnum)['enumValues'][number]
-          )
+          inArray(this.table.status, OPEN_STATUSES)
         )
       );
 
@@ -207,10 +219,7 @@ export class ScheduledActionRepository extends TenantAwareRepository<
         and(
           eq(this.table.tenantId, tenantId),
           eq(this.table.campaignId, campaignId),
-          eq(
-            this.table.status,
-            'pending' as (typeof scheduledActionStatusEnum)['enumValues'][number]
-          )
+          inArray(this.table.status, OPEN_STATUSES)
         )
       )
       .returning();
@@ -224,6 +233,132 @@ export class ScheduledActionRepository extends TenantAwareRepository<
     return canceledActions;
   }
 
+  /**
+   * Cancels a meeting's pending actions of one type, such as its reminders, and removes
+   * their BullMQ jobs. These actions belong to no campaign, so campaign cancels skip them.
+   */
+  async cancelPendingByMeetingForTenant(
+    tenantId: string,
+    actionType: string,
+    meetingId: string
+  ): Promise<ScheduledAction[]> {
+    const conditions = and(
+      eq(this.table.tenantId, tenantId),
+      eq(this.table.actionType, actionType),
+      eq(this.table.status, 'pending' as ScheduledActionStatus),
+      sql`${this.table.payload}->>'meetingId' = ${meetingId}`
+    );
+    const pendingActions = await this.db.select().from(this.table).where(conditions);
+
+    const campaignExecutionQueue = getQueue('campaign_execution');
+    for (const action of pendingActions) {
+      if (!action.bullmqJobId) continue;
+      try {
+        const job = await campaignExecutionQueue.getJob(action.bullmqJobId);
+        await job?.remove();
+      } catch (error) {
+        logger.warn('[ScheduledActionRepository] Failed to cancel BullMQ job', {
+          tenantId,
+          meetingId,
+          actionId: action.id,
+          jobId: action.bullmqJobId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return await this.db
+      .update(this.table)
+      .set({ status: 'canceled' as ScheduledActionStatus, updatedAt: new Date() })
+      .where(conditions)
+      .returning();
+  }
+
+  /**
+   * Takes a campaign's not-yet-started BullMQ jobs off the queue and marks their actions
+   * paused, keeping each job in the payload so it can be re-added on resume. Actions whose
+   * job already ran, or is running, are left as they are.
+   */
+  async pauseByCampaignForTenant(tenantId: string, campaignId: string): Promise<ScheduledAction[]> {
+    const pendingActions = await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.campaignId, campaignId),
+          eq(this.table.status, 'pending' as ScheduledActionStatus)
+        )
+      );
+
+    const campaignExecutionQueue = getQueue('campaign_execution');
+    const pausedActions: ScheduledAction[] = [];
+    for (const action of pendingActions) {
+      if (!action.bullmqJobId) continue;
+
+      try {
+        const job = await campaignExecutionQueue.getJob(action.bullmqJobId);
+        if (!job || !WAITING_JOB_STATES.includes(await job.getState())) continue;
+
+        await job.remove();
+        const pausedJob: PausedJob = {
+          name: job.name,
+          data: job.data,
+          opts: {
+            attempts: job.opts.attempts,
+            backoff: job.opts.backoff,
+            removeOnComplete: job.opts.removeOnComplete,
+            removeOnFail: job.opts.removeOnFail,
+          },
+        };
+
+        const [paused] = await this.db
+          .update(this.table)
+          .set({
+            status: 'paused' as ScheduledActionStatus,
+            payload: { ...(action.payload as Record<string, unknown>), pausedJob },
+            updatedAt: new Date(),
+          })
+          .where(and(eq(this.table.tenantId, tenantId), eq(this.table.id, action.id)))
+          .returning();
+        if (paused) pausedActions.push(paused);
+      } catch (error) {
+        logger.warn('[ScheduledActionRepository] Failed to pause BullMQ job', {
+          tenantId,
+          campaignId,
+          actionId: action.id,
+          jobId: action.bullmqJobId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    logger.info('[ScheduledActionRepository] Paused campaign actions', {
+      tenantId,
+      campaignId,
+      pausedCount: pausedActions.length,
+    });
+
+    return pausedActions;
+  }
+
+  async findPausedByCampaignForTenant(
+    tenantId: string,
+    campaignId: string
+  ): Promise<ScheduledAction[]> {
+    return await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.campaignId, campaignId),
+          eq(this.table.status, 'paused' as ScheduledActionStatus)
+        )
+      )
+      .orderBy(this.table.scheduledAt);
+  }
+
   // Recovery methods for startup recovery
   async findOrphaned(): Promise<ScheduledAction[]> {
     const cutoffTime = new Date(Date.now() - 5 * 60 * 1000); // 5 minutes ago
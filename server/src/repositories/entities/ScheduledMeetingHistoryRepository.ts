@@ -0,0 +1,28 @@
+import { and, desc, eq } from 'drizzle-orm';
+import {
+  scheduledMeetingHistory,
+  ScheduledMeetingHistory,
+  NewScheduledMeetingHistory,
+} from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+export class ScheduledMeetingHistoryRepository extends TenantAwareRepository<
+  typeof scheduledMeetingHistory,
+  ScheduledMeetingHistory,
+  NewScheduledMeetingHistory
+> {
+  constructor() {
+    super(scheduledMeetingHistory);
+  }
+
+  async listByMeetingForTenant(
+    tenantId: string,
+    meetingId: string
+  ): Promise<ScheduledMeetingHistory[]> {
+    return await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.meetingId, meetingId)))
+      .orderBy(desc(this.table.occurredAt));
+  }
+}
@@ -1,4 +1,4 @@
-import { and, eq, gte, lt } from 'drizzle-orm';
+import { and, eq, gte, inArray, lt, max } from 'drizzle-orm';
 import { scheduledMeetings, ScheduledMeeting, NewScheduledMeeting } from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
@@ -56,7 +56,7 @@ export class ScheduledMeetingRepository extends TenantAwareRepository<
       .update(this.table)
       .set({
         status: 'canceled',
-        metadata: metadata ?? {},
+        ...(metadata ? { metadata } : {}),
         updatedAt: new Date(),
       })
       .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
@@ -64,4 +64,33 @@ export class ScheduledMeetingRepository extends TenantAwareRepository<
 
     return result;
   }
+
+  /**
+   * When each user was last booked through the pool, for least-recently-booked assignment
+   */
+  async findLastBookedAtByUsers(
+    tenantId: string,
+    poolId: string,
+    userIds: string[]
+  ): Promise<Map<string, Date>> {
+    if (userIds.length === 0) return new Map();
+
+    const rows = await this.db
+      .select({ userId: this.table.userId, lastBookedAt: max(this.table.createdAt) })
+      .from(this.table)
+      .where(
+        and(
+          eq(this.table.tenantId, tenantId),
+          eq(this.table.poolId, poolId),
+          inArray(this.table.userId, userIds)
+        )
+      )
+      .groupBy(this.table.userId);
+
+    return new Map(
+      rows
+        .filter((row): row is { userId: string; lastBookedAt: Date } => !!row.lastBookedAt)
+        .map((row) => [row.userId, row.lastBookedAt])
+    );
+  }
 }
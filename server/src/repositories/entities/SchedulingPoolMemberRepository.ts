@@ -0,0 +1,63 @@
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import {
+  schedulingPoolMembers,
+  SchedulingPoolMember,
+  NewSchedulingPoolMember,
+  users,
+} from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+export type SchedulingPoolMemberWithUser = SchedulingPoolMember & {
+  userName: string | null;
+  userEmail: string;
+};
+
+export class SchedulingPoolMemberRepository extends TenantAwareRepository<
+  typeof schedulingPoolMembers,
+  SchedulingPoolMember,
+  NewSchedulingPoolMember
+> {
+  constructor() {
+    super(schedulingPoolMembers);
+  }
+
+  /**
+   * Members of the given pools in rotation order, with their names for display
+   */
+  async listByPoolsForTenant(
+    tenantId: string,
+    poolIds: string[]
+  ): Promise<SchedulingPoolMemberWithUser[]> {
+    if (poolIds.length === 0) return [];
+
+    const rows = await this.db
+      .select({ member: this.table, userName: users.name, userEmail: users.email })
+      .from(this.table)
+      .innerJoin(users, eq(users.id, this.table.userId))
+      .where(and(eq(this.table.tenantId, tenantId), inArray(this.table.poolId, poolIds)))
+      .orderBy(asc(this.table.position));
+
+    return rows.map(({ member, ...user }) => ({ ...(member as SchedulingPoolMember), ...user }));
+  }
+
+  /**
+   * Replaces a pool's members; the order of userIds becomes the rotation order
+   */
+  async replaceForPool(
+    tenantId: string,
+    poolId: string,
+    userIds: string[]
+  ): Promise<SchedulingPoolMember[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .delete(this.table)
+        .where(and(eq(this.table.tenantId, tenantId), eq(this.table.poolId, poolId)));
+      if (userIds.length === 0) return [];
+
+      return await tx
+        .insert(this.table)
+        .values(userIds.map((userId, position) => ({ tenantId, poolId, userId, position })))
+        .returning();
+    });
+  }
+}
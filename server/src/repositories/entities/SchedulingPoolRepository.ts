@@ -0,0 +1,31 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { schedulingPools, SchedulingPool, NewSchedulingPool } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+export class SchedulingPoolRepository extends TenantAwareRepository<
+  typeof schedulingPools,
+  SchedulingPool,
+  NewSchedulingPool
+> {
+  constructor() {
+    super(schedulingPools);
+  }
+
+  async listForTenant(tenantId: string): Promise<SchedulingPool[]> {
+    return await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .orderBy(asc(this.table.name));
+  }
+
+  async findByNameForTenant(tenantId: string, name: string): Promise<SchedulingPool | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.name, name)))
+      .limit(1);
+
+    return result;
+  }
+}
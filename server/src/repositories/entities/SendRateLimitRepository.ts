@@ -1,4 +1,4 @@
-import { and, eq, inArray } from 'drizzle-orm';
+import { and, asc, eq, inArray } from 'drizzle-orm';
 import { sendRateLimits, SendRateLimit, NewSendRateLimit } from '@/db/schema';
 import { TenantAwareRepository } from '../base/TenantAwareRepository';
 
@@ -116,4 +116,35 @@ export class SendRateLimitRepository extends TenantAwareRepository<
       .where(eq(this.table.tenantId, tenantId))
       .returning()) as SendRateLimit[];
   }
+
+  // Domain helpers
+  async findByChannelForTenant(
+    tenantId: string,
+    channel: SendRateLimit['channel']
+  ): Promise<SendRateLimit[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.tenantId, tenantId), eq(this.table.channel, channel)))
+      .orderBy(asc(this.table.scope))) as SendRateLimit[];
+  }
+
+  async upsertForTenant(
+    tenantId: string,
+    data: Pick<NewSendRateLimit, 'channel' | 'scope' | 'windowSeconds' | 'maxSends'>
+  ): Promise<SendRateLimit> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...data, tenantId, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [this.table.tenantId, this.table.channel, this.table.scope],
+        set: {
+          windowSeconds: data.windowSeconds,
+          maxSends: data.maxSends,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result as SendRateLimit;
+  }
 }
@@ -0,0 +1,144 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { sendTimeSettings, SendTimeSetting, NewSendTimeSetting } from '@/db/schema';
+import { TenantAwareRepository } from '../base/TenantAwareRepository';
+
+/**
+ * <summary>SendTimeSettingRepository stores each tenant's best send windows.</summary>
+ * <summary>Holds both the configured windows and the ones learned from engagement.</summary>
+ * <summary>Read when campaign sends are scheduled into the contact's local time.</summary>
+ */
+export class SendTimeSettingRepository extends TenantAwareRepository<
+  typeof sendTimeSettings,
+  SendTimeSetting,
+  NewSendTimeSetting
+> {
+  constructor() {
+    super(sendTimeSettings);
+  }
+
+  // Tenant-aware CRUD
+  async createForTenant(
+    tenantId: string,
+    data: Omit<NewSendTimeSetting, 'tenantId'>
+  ): Promise<SendTimeSetting> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...(data as Omit<NewSendTimeSetting, 'tenantId'>), tenantId } as NewSendTimeSetting)
+      .returning();
+    return result as SendTimeSetting;
+  }
+
+  async createManyForTenant(
+    tenantId: string,
+    data: Omit<NewSendTimeSetting, 'tenantId'>[]
+  ): Promise<SendTimeSetting[]> {
+    const values: NewSendTimeSetting[] = data.map(
+      (d) => ({ ...(d as Omit<NewSendTimeSetting, 'tenantId'>), tenantId }) as NewSendTimeSetting
+    );
+    return (await this.db.insert(this.table).values(values).returning()) as SendTimeSetting[];
+  }
+
+  async findByIdForTenant(id: string, tenantId: string): Promise<SendTimeSetting | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return results[0];
+  }
+
+  async findByIdsForTenant(ids: string[], tenantId: string): Promise<SendTimeSetting[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId))
+      )) as SendTimeSetting[];
+  }
+
+  async findAllForTenant(tenantId: string): Promise<SendTimeSetting[]> {
+    return (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))) as SendTimeSetting[];
+  }
+
+  async updateByIdForTenant(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<NewSendTimeSetting, 'tenantId'>>
+  ): Promise<SendTimeSetting | undefined> {
+    const [result] = await this.db
+      .update(this.table)
+      .set(data as Partial<Omit<NewSendTimeSetting, 'tenantId'>> as Partial<NewSendTimeSetting>)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as SendTimeSetting | undefined;
+  }
+
+  async deleteByIdForTenant(id: string, tenantId: string): Promise<SendTimeSetting | undefined> {
+    const [result] = await this.db
+      .delete(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .returning();
+    return result as SendTimeSetting | undefined;
+  }
+
+  async deleteByIdsForTenant(ids: string[], tenantId: string): Promise<SendTimeSetting[]> {
+    if (ids.length === 0) return [];
+    return (await this.db
+      .delete(this.table)
+      .where(and(inArray(this.table.id, ids), eq(this.table.tenantId, tenantId)))
+      .returning()) as SendTimeSetting[];
+  }
+
+  async existsForTenant(id: string, tenantId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(and(eq(this.table.id, id), eq(this.table.tenantId, tenantId)))
+      .limit(1);
+    return !!result[0];
+  }
+
+  async countForTenant(tenantId: string): Promise<number> {
+    const result = await this.db
+      .select({ id: this.table.id })
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId));
+    return result.length;
+  }
+
+  async deleteAllForTenant(tenantId: string): Promise<SendTimeSetting[]> {
+    return (await this.db
+      .delete(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .returning()) as SendTimeSetting[];
+  }
+
+  // Domain helpers
+  async findByTenantId(tenantId: string): Promise<SendTimeSetting | undefined> {
+    const results = await this.db
+      .select()
+      .from(this.table)
+      .where(eq(this.table.tenantId, tenantId))
+      .limit(1);
+    return results[0];
+  }
+
+  async upsertForTenant(
+    tenantId: string,
+    data: Partial<Omit<NewSendTimeSetting, 'id' | 'tenantId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<SendTimeSetting> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ ...data, tenantId, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [this.table.tenantId],
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return result as SendTimeSetting;
+  }
+}
@@ -0,0 +1,73 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { CampaignTaskRepository } from '../CampaignTaskRepository';
+
+const mockInsertResult = jest.fn();
+const mockSelectResult = jest.fn();
+const mockOnConflictDoNothing = jest.fn();
+const mockSelectWhere = jest.fn();
+
+jest.mock('@/db', () => ({
+  db: {
+    insert: () => ({
+      values: () => ({
+        onConflictDoNothing: (config: unknown) => {
+          mockOnConflictDoNothing(config);
+          return { returning: () => mockInsertResult() };
+        },
+      }),
+    }),
+    select: () => ({
+      from: () => ({
+        where: (condition: unknown) => {
+          mockSelectWhere(condition);
+          return { limit: () => mockSelectResult() };
+        },
+      }),
+    }),
+  },
+}));
+
+const toSql = (value: SQL) => new PgDialect().sqlToQuery(value);
+
+describe('CampaignTaskRepository.createIfMissingForTenant', () => {
+  const repository = new CampaignTaskRepository();
+  const tenantId = 'tenant-1';
+  const data = {
+    campaignId: 'campaign-1',
+    leadId: 'lead-1',
+    contactId: 'contact-1',
+    nodeId: 'call_1',
+    type: 'call',
+    title: 'Call the prospect',
+    dueAt: new Date('2026-10-20T12:00:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('only treats an open task for the node as a duplicate', async () => {
+    mockInsertResult.mockResolvedValue([{ id: 'task-2', ...data, status: 'open' }]);
+
+    const result = await repository.createIfMissingForTenant(tenantId, data);
+
+    // A plan that loops back to the node finds its earlier task closed and gets a new one
+    expect(result).toEqual({ task: expect.objectContaining({ id: 'task-2' }), created: true });
+    const { where } = mockOnConflictDoNothing.mock.calls[0][0] as { where: SQL };
+    const { sql, params } = toSql(where);
+    expect(sql).toContain('"status" = \'open\'');
+    expect(params).toEqual([]);
+  });
+
+  it("returns the node's open task when the campaign enters the node twice", async () => {
+    mockInsertResult.mockResolvedValue([]);
+    mockSelectResult.mockResolvedValue([{ id: 'task-1', ...data, status: 'open' }]);
+
+    const result = await repository.createIfMissingForTenant(tenantId, data);
+
+    expect(result).toEqual({ task: expect.objectContaining({ id: 'task-1' }), created: false });
+    const { params } = toSql(mockSelectWhere.mock.calls[0][0] as SQL);
+    expect(params).toEqual([tenantId, 'campaign-1', 'call_1', 'open']);
+  });
+});
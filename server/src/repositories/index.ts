@@ -22,13 +22,23 @@ import { WebhookDeliveryRepository } from './entities/WebhookDeliveryRepository'
 import { InboundMessageRepository } from './entities/InboundMessageRepository';
 import { CommunicationSuppressionRepository } from './entities/CommunicationSuppressionRepository';
 import { SendRateLimitRepository } from './entities/SendRateLimitRepository';
+import { SendTimeSettingRepository } from './entities/SendTimeSettingRepository';
+import { BlackoutPeriodRepository } from './entities/BlackoutPeriodRepository';
+import { HolidayCalendarRepository } from './entities/HolidayCalendarRepository';
+import { PipelineStageRepository } from './entities/PipelineStageRepository';
+import { LeadStageHistoryRepository } from './entities/LeadStageHistoryRepository';
+import { AbTestWinnerRepository } from './entities/AbTestWinnerRepository';
+import { EmailTemplateRepository } from './entities/EmailTemplateRepository';
+import { EmailSnippetRepository } from './entities/EmailSnippetRepository';
 import { EmailValidationResultRepository } from './entities/EmailValidationResultRepository';
 import { ContactChannelRepository } from './entities/ContactChannelRepository';
 import { CampaignTransitionRepository } from './entities/CampaignTransitionRepository';
+import { CampaignTaskRepository } from './entities/CampaignTaskRepository';
 import { ContactUnsubscribeRepository } from './entities/ContactUnsubscribeRepository';
 import { LeadTransactionRepository } from './transactions/LeadTransactionRepository';
 import { UserInvitationTransactionRepository } from './transactions/UserInvitationTransactionRepository';
 import { TenantSetupTransactionRepository } from './transactions/TenantSetupTransactionRepository';
+import { PipelineStageTransactionRepository } from './transactions/PipelineStageTransactionRepository';
 import { CalendarLinkClickRepository } from './entities/CalendarLinkClickRepository';
 import { MailAccountRepository } from './entities/MailAccountRepository';
 import { OauthTokenRepository } from './entities/OauthTokenRepository';
@@ -37,6 +47,10 @@ import { UserScheduleSettingsRepository } from './entities/UserScheduleSettingsR
 import { ScheduleBookingTokenRepository } from './entities/ScheduleBookingTokenRepository';
 import { CalendarConnectionRepository } from './entities/CalendarConnectionRepository';
 import { ScheduledMeetingRepository } from './entities/ScheduledMeetingRepository';
+import { ScheduledMeetingHistoryRepository } from './entities/ScheduledMeetingHistoryRepository';
+import { SchedulingPoolRepository } from './entities/SchedulingPoolRepository';
+import { SchedulingPoolMemberRepository } from './entities/SchedulingPoolMemberRepository';
+import { MeetingTypeRepository } from './entities/MeetingTypeRepository';
 import { TenantZoominfoCredentialsRepository } from './entities/TenantZoominfoCredentialsRepository';
 
 // Base repositories
@@ -67,9 +81,18 @@ export { WebhookDeliveryRepository } from './entities/WebhookDeliveryRepository'
 export { InboundMessageRepository } from './entities/InboundMessageRepository';
 export { CommunicationSuppressionRepository } from './entities/CommunicationSuppressionRepository';
 export { SendRateLimitRepository } from './entities/SendRateLimitRepository';
+export { SendTimeSettingRepository } from './entities/SendTimeSettingRepository';
+export { BlackoutPeriodRepository } from './entities/BlackoutPeriodRepository';
+export { HolidayCalendarRepository } from './entities/HolidayCalendarRepository';
+export { PipelineStageRepository } from './entities/PipelineStageRepository';
+export { LeadStageHistoryRepository } from './entities/LeadStageHistoryRepository';
+export { AbTestWinnerRepository } from './entities/AbTestWinnerRepository';
+export { EmailTemplateRepository } from './entities/EmailTemplateRepository';
+export { EmailSnippetRepository } from './entities/EmailSnippetRepository';
 export { EmailValidationResultRepository } from './entities/EmailValidationResultRepository';
 export { ContactChannelRepository } from './entities/ContactChannelRepository';
 export { CampaignTransitionRepository } from './entities/CampaignTransitionRepository';
+export { CampaignTaskRepository } from './entities/CampaignTaskRepository';
 export { ContactUnsubscribeRepository } from './entities/ContactUnsubscribeRepository';
 export { CalendarLinkClickRepository } from './entities/CalendarLinkClickRepository';
 export { MailAccountRepository } from './entities/MailAccountRepository';
@@ -79,6 +102,10 @@ export { UserScheduleSettingsRepository } from './entities/UserScheduleSettingsR
 export { ScheduleBookingTokenRepository } from './entities/ScheduleBookingTokenRepository';
 export { CalendarConnectionRepository } from './entities/CalendarConnectionRepository';
 export { ScheduledMeetingRepository } from './entities/ScheduledMeetingRepository';
+export { ScheduledMeetingHistoryRepository } from './entities/ScheduledMeetingHistoryRepository';
+export { SchedulingPoolRepository } from './entities/SchedulingPoolRepository';
+export { SchedulingPoolMemberRepository } from './entities/SchedulingPoolMemberRepository';
+export { MeetingTypeRepository } from './entities/MeetingTypeRepository';
 export { TenantZoominfoCredentialsRepository } from './entities/TenantZoominfoCredentialsRepository';
 
 // Transaction repositories
@@ -86,9 +113,10 @@ export { LeadTransactionRepository } from './transactions/LeadTransactionReposit
 export { UserInvitationTransactionRepository } from './transactions/UserInvitationTransactionRepository';
 export { TenantSetupTransactionRepository } from './transactions/TenantSetupTransactionRepository';
 export { SiteEmbeddingTransactionRepository } from './transactions/SiteEmbeddingTransactionRepository';
+export { PipelineStageTransactionRepository } from './transactions/PipelineStageTransactionRepository';
 
 // Export types from entity repositories
-export type { LeadWithOwner, LeadSearchOptions } from './entities/LeadRepository';
+export type { LeadWithOwner, LeadSearchOptions, PipelineLead } from './entities/LeadRepository';
 export type { UserTenantWithDetails } from './entities/UserTenantRepository';
 export type { RoleWithPermissions, PermissionWithRoles } from './entities/RolePermissionRepository';
 export type { LeadProductWithDetails } from './entities/LeadProductRepository';
@@ -98,6 +126,12 @@ export type {
 } from './entities/SiteEmbeddingRepository';
 export type { MailAccountWithDetails } from './entities/MailAccountRepository';
 export type { OauthTokenWithDetails } from './entities/OauthTokenRepository';
+export type { CampaignTaskWithContext } from './entities/CampaignTaskRepository';
+export type { OutboundMessageForReview } from './entities/OutboundMessageRepository';
+export type { PausedJob } from './entities/ScheduledActionRepository';
+export type { ContactCampaignWithContact } from './entities/ContactCampaignRepository';
+export type { CampaignTransitionWithContext } from './entities/CampaignTransitionRepository';
+export type { SchedulingPoolMemberWithUser } from './entities/SchedulingPoolMemberRepository';
 
 // Export types from transaction repositories
 export type {
@@ -121,6 +155,11 @@ export type {
   CompleteSetupResult,
 } from './transactions/TenantSetupTransactionRepository';
 
+export type {
+  PipelineStageData,
+  ReplaceStagesResult,
+} from './transactions/PipelineStageTransactionRepository';
+
 // Repository instances - Singleton pattern for easy access
 const userRepository = new UserRepository();
 const tenantRepository = new TenantRepository();
@@ -145,9 +184,18 @@ const webhookDeliveryRepository = new WebhookDeliveryRepository();
 const inboundMessageRepository = new InboundMessageRepository();
 const communicationSuppressionRepository = new CommunicationSuppressionRepository();
 const sendRateLimitRepository = new SendRateLimitRepository();
+const sendTimeSettingRepository = new SendTimeSettingRepository();
+const blackoutPeriodRepository = new BlackoutPeriodRepository();
+const holidayCalendarRepository = new HolidayCalendarRepository();
+const pipelineStageRepository = new PipelineStageRepository();
+const leadStageHistoryRepository = new LeadStageHistoryRepository();
+const abTestWinnerRepository = new AbTestWinnerRepository();
+const emailTemplateRepository = new EmailTemplateRepository();
+const emailSnippetRepository = new EmailSnippetRepository();
 const emailValidationResultRepository = new EmailValidationResultRepository();
 const contactChannelRepository = new ContactChannelRepository();
 const campaignTransitionRepository = new CampaignTransitionRepository();
+const campaignTaskRepository = new CampaignTaskRepository();
 const contactUnsubscribeRepository = new ContactUnsubscribeRepository();
 const calendarLinkClickRepository = new CalendarLinkClickRepository();
 const mailAccountRepository = new MailAccountRepository();
@@ -157,12 +205,17 @@ const userScheduleSettingsRepository = new UserScheduleSettingsRepository();
 const scheduleBookingTokenRepository = new ScheduleBookingTokenRepository();
 const calendarConnectionRepository = new CalendarConnectionRepository();
 const scheduledMeetingRepository = new ScheduledMeetingRepository();
+const scheduledMeetingHistoryRepository = new ScheduledMeetingHistoryRepository();
+const schedulingPoolRepository = new SchedulingPoolRepository();
+const schedulingPoolMemberRepository = new SchedulingPoolMemberRepository();
+const meetingTypeRepository = new MeetingTypeRepository();
 const tenantZoominfoCredentialsRepository = new TenantZoominfoCredentialsRepository();
 
 // Transaction repository instances
 const leadTransactionRepository = new LeadTransactionRepository();
 const userInvitationTransactionRepository = new UserInvitationTransactionRepository();
 const tenantSetupTransactionRepository = new TenantSetupTransactionRepository();
+const pipelineStageTransactionRepository = new PipelineStageTransactionRepository();
 
 // Export repository instances
 export const repositories = {
@@ -190,9 +243,18 @@ export const repositories = {
   inboundMessage: inboundMessageRepository,
   communicationSuppression: communicationSuppressionRepository,
   sendRateLimit: sendRateLimitRepository,
+  sendTimeSetting: sendTimeSettingRepository,
+  blackoutPeriod: blackoutPeriodRepository,
+  holidayCalendar: holidayCalendarRepository,
+  pipelineStage: pipelineStageRepository,
+  leadStageHistory: leadStageHistoryRepository,
+  abTestWinner: abTestWinnerRepository,
+  emailTemplate: emailTemplateRepository,
+  emailSnippet: emailSnippetRepository,
   emailValidationResult: emailValidationResultRepository,
   contactChannel: contactChannelRepository,
   campaignTransition: campaignTransitionRepository,
+  campaignTask: campaignTaskRepository,
   contactUnsubscribe: contactUnsubscribeRepository,
   calendarLinkClick: calendarLinkClickRepository,
   mailAccount: mailAccountRepository,
@@ -202,12 +264,17 @@ export const repositories = {
   scheduleBookingToken: scheduleBookingTokenRepository,
   calendarConnection: calendarConnectionRepository,
   scheduledMeeting: scheduledMeetingRepository,
+  scheduledMeetingHistory: scheduledMeetingHistoryRepository,
+  schedulingPool: schedulingPoolRepository,
+  schedulingPoolMember: schedulingPoolMemberRepository,
+  meetingType: meetingTypeRepository,
   tenantZoominfoCredentials: tenantZoominfoCredentialsRepository,
 
   // Transaction repositories
   leadTransaction: leadTransactionRepository,
   userInvitationTransaction: userInvitationTransactionRepository,
   tenantSetupTransaction: tenantSetupTransactionRepository,
+  pipelineStageTransaction: pipelineStageTransactionRepository,
 };
 
 // Export individual repository instances for direct import
@@ -235,9 +302,18 @@ export {
   inboundMessageRepository,
   communicationSuppressionRepository,
   sendRateLimitRepository,
+  sendTimeSettingRepository,
+  blackoutPeriodRepository,
+  holidayCalendarRepository,
+  pipelineStageRepository,
+  leadStageHistoryRepository,
+  abTestWinnerRepository,
+  emailTemplateRepository,
+  emailSnippetRepository,
   emailValidationResultRepository,
   contactChannelRepository,
   campaignTransitionRepository,
+  campaignTaskRepository,
   contactUnsubscribeRepository,
   calendarLinkClickRepository,
   mailAccountRepository,
@@ -247,10 +323,15 @@ export {
   scheduleBookingTokenRepository,
   calendarConnectionRepository,
   scheduledMeetingRepository,
+  scheduledMeetingHistoryRepository,
+  schedulingPoolRepository,
+  schedulingPoolMemberRepository,
+  meetingTypeRepository,
   tenantZoominfoCredentialsRepository,
   leadTransactionRepository,
   userInvitationTransactionRepository,
   tenantSetupTransactionRepository,
+  pipelineStageTransactionRepository,
 };
 
 // Default export
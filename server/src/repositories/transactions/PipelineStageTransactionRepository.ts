@@ -0,0 +1,89 @@
+import { and, asc, eq, notInArray, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { pipelineStages, NewPipelineStage, PipelineStage } from '@/db/schema';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface PipelineStageData extends Omit<NewPipelineStage, 'id' | 'tenantId' | 'position'> {
+  id?: string; // Existing stage to update; omit to insert a new one
+}
+
+export interface ReplaceStagesResult {
+  stages: PipelineStage[];
+  removedCount: number;
+}
+
+export class PipelineStageTransactionRepository {
+  /**
+   * Seed a tenant's stages unless it already has some. Concurrent first requests wait on
+   * the tenant's pipeline lock, so only one of them inserts.
+   */
+  async seedStagesIfEmpty(
+    tenantId: string,
+    stages: Omit<NewPipelineStage, 'tenantId'>[]
+  ): Promise<PipelineStage[]> {
+    return await db.transaction(async (tx) => {
+      await this.lockPipeline(tx, tenantId);
+
+      const existing = await this.findOrdered(tx, tenantId);
+      if (existing.length > 0) return existing;
+
+      await tx.insert(pipelineStages).values(stages.map((stage) => ({ ...stage, tenantId })));
+      return await this.findOrdered(tx, tenantId);
+    });
+  }
+
+  /**
+   * Replace a tenant's stages with the given list, in order, in a single transaction.
+   * Stages missing from the list are deleted; positions follow the list order.
+   */
+  async replaceStages(tenantId: string, stages: PipelineStageData[]): Promise<ReplaceStagesResult> {
+    return await db.transaction(async (tx) => {
+      await this.lockPipeline(tx, tenantId);
+
+      const keptIds = stages.map((stage) => stage.id).filter((id): id is string => !!id);
+      const removed = await tx
+        .delete(pipelineStages)
+        .where(
+          and(
+            eq(pipelineStages.tenantId, tenantId),
+            keptIds.length > 0 ? notInArray(pipelineStages.id, keptIds) : undefined
+          )
+        )
+        .returning({ id: pipelineStages.id });
+
+      for (const [position, { id, ...data }] of stages.entries()) {
+        if (!id) {
+          await tx.insert(pipelineStages).values({ ...data, position, tenantId });
+          continue;
+        }
+
+        const [updated] = await tx
+          .update(pipelineStages)
+          .set({ ...data, position })
+          .where(and(eq(pipelineStages.id, id), eq(pipelineStages.tenantId, tenantId)))
+          .returning({ id: pipelineStages.id });
+        if (!updated) {
+          throw new Error(`Pipeline stage not found: ${id}`);
+        }
+      }
+
+      return { stages: await this.findOrdered(tx, tenantId), removedCount: removed.length };
+    });
+  }
+
+  /**
+   * Serialize pipeline writes per tenant until the transaction ends
+   */
+  private async lockPipeline(tx: Transaction, tenantId: string): Promise<void> {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`pipeline_stages:${tenantId}`}))`);
+  }
+
+  private async findOrdered(tx: Transaction, tenantId: string): Promise<PipelineStage[]> {
+    return await tx
+      .select()
+      .from(pipelineStages)
+      .where(eq(pipelineStages.tenantId, tenantId))
+      .orderBy(asc(pipelineStages.position));
+  }
+}
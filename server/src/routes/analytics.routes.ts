@@ -0,0 +1,197 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import {
+  campaignAnalyticsService,
+  resolveDateRange,
+  type AnalyticsDimension,
+  type AnalyticsFilters,
+} from '@/modules/analytics';
+import { abTestService } from '@/modules/abTest';
+import type { AbTestMetric } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import {
+  AbTestParamsSchema,
+  AbTestQuerySchema,
+  AbTestResponseSchema,
+  AbTestWinnerBodySchema,
+  AbTestWinnerResponseSchema,
+  AnalyticsBreakdownResponseSchema,
+  AnalyticsQuerySchema,
+  AnalyticsSummaryResponseSchema,
+} from './apiSchema/analytics';
+
+const basePath = '/analytics';
+
+type AnalyticsQuery = {
+  from?: string;
+  to?: string;
+  channel?: 'email' | 'sms';
+  campaignId?: string;
+};
+
+const RANGE_DESCRIPTION =
+  'Messages count when sent in the range; calendar clicks and meetings count when they happened. Defaults to the last 30 days.';
+
+const AB_TEST_DESCRIPTION =
+  'Covers messages sent in the range, with meetings counted toward the variant whose calendar link was booked. Each variant is tested against the leader with a two-proportion z-test.';
+
+const BREAKDOWNS: Array<{ url: string; dimension: AnalyticsDimension; summary: string }> = [
+  { url: 'campaigns', dimension: 'campaign', summary: 'Funnel metrics per campaign' },
+  { url: 'steps', dimension: 'node', summary: 'Funnel metrics per campaign plan step' },
+  { url: 'products', dimension: 'product', summary: 'Funnel metrics per product' },
+  { url: 'senders', dimension: 'sender', summary: 'Funnel metrics per sender' },
+  {
+    url: 'plan-types',
+    dimension: 'plan_type',
+    summary: 'Static campaign template compared with custom plans',
+  },
+];
+
+function toFilters(query: AnalyticsQuery): { filters: AnalyticsFilters; from: Date; to: Date } {
+  const { from, to } = resolveDateRange(query.from, query.to);
+  return {
+    filters: { from, to, channel: query.channel, campaignId: query.campaignId },
+    from,
+    to,
+  };
+}
+
+export default async function AnalyticsRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/summary`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Analytics'],
+      summary: 'Campaign funnel totals and daily activity',
+      description: RANGE_DESCRIPTION,
+      querystring: AnalyticsQuerySchema,
+      response: {
+        200: AnalyticsSummaryResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: AnalyticsQuery }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const { filters, from, to } = toFilters(request.query);
+      const summary = await campaignAnalyticsService.getSummary(tenantId, filters);
+      return reply.send({ range: { from, to }, ...summary });
+    },
+  });
+
+  for (const breakdown of BREAKDOWNS) {
+    fastify.route({
+      method: HttpMethods.GET,
+      url: `${basePath}/${breakdown.url}`,
+      preHandler: [fastify.authPrehandler],
+      schema: {
+        tags: ['Analytics'],
+        summary: breakdown.summary,
+        description: RANGE_DESCRIPTION,
+        querystring: AnalyticsQuerySchema,
+        response: {
+          200: AnalyticsBreakdownResponseSchema,
+        },
+      },
+      handler: async (
+        request: FastifyRequest<{ Querystring: AnalyticsQuery }>,
+        reply: FastifyReply
+      ) => {
+        const { tenantId } = request as AuthenticatedRequest;
+        const { filters, from, to } = toFilters(request.query);
+        const rows = await campaignAnalyticsService.getBreakdown(
+          tenantId,
+          breakdown.dimension,
+          filters
+        );
+        return reply.send({ range: { from, to }, rows });
+      },
+    });
+  }
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/ab-tests`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Analytics'],
+      summary: 'Per-variant results of A/B tested campaign steps',
+      description: AB_TEST_DESCRIPTION,
+      querystring: AbTestQuerySchema,
+      response: {
+        200: AbTestResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: AnalyticsQuery & { metric?: AbTestMetric } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const { filters, from, to } = toFilters(request.query);
+      const tests = await abTestService.getTests(
+        tenantId,
+        filters,
+        request.query.metric ?? 'replied'
+      );
+      return reply.send({ range: { from, to }, tests });
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/ab-tests/:testKey/winner`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Analytics'],
+      summary: 'Promote a variant so every later send in the test uses it',
+      params: AbTestParamsSchema,
+      body: AbTestWinnerBodySchema,
+      response: {
+        200: AbTestWinnerResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{
+        Params: { testKey: string };
+        Body: { variantId: string; metric?: AbTestMetric };
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const winner = await abTestService.promoteWinner(
+        tenantId,
+        request.params.testKey,
+        request.body.variantId,
+        request.body.metric ?? 'replied',
+        user.id
+      );
+      return reply.send({
+        variantId: winner.variantId,
+        metric: winner.metric,
+        promotedBy: winner.promotedBy,
+        promotedAt: winner.updatedAt,
+      });
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/ab-tests/:testKey/winner`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Analytics'],
+      summary: 'Clear a promoted winner and go back to the weighted split',
+      params: AbTestParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { testKey: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      await abTestService.clearWinner(tenantId, request.params.testKey);
+      return reply.status(204).send();
+    },
+  });
+}
@@ -0,0 +1,122 @@
+import { Type } from '@sinclair/typebox';
+
+export const AnalyticsQuerySchema = Type.Object({
+  from: Type.Optional(
+    Type.String({ format: 'date-time', description: 'Start of the range (inclusive)' })
+  ),
+  to: Type.Optional(
+    Type.String({ format: 'date-time', description: 'End of the range (exclusive)' })
+  ),
+  channel: Type.Optional(Type.Union([Type.Literal('email'), Type.Literal('sms')])),
+  campaignId: Type.Optional(Type.String({ description: 'Only report on one campaign' })),
+});
+
+const FunnelMetricsProperties = {
+  sent: Type.Number(),
+  delivered: Type.Number(),
+  opened: Type.Number(),
+  clicked: Type.Number(),
+  replied: Type.Number(),
+  bounced: Type.Number(),
+  calendarClicks: Type.Number(),
+  meetings: Type.Number(),
+  deliveryRate: Type.Number({ description: 'Percentage of sent (0-100)' }),
+  openRate: Type.Number({ description: 'Percentage of sent (0-100)' }),
+  clickRate: Type.Number({ description: 'Percentage of sent (0-100)' }),
+  replyRate: Type.Number({ description: 'Percentage of sent (0-100)' }),
+  meetingRate: Type.Number({ description: 'Meetings booked per 100 sent' }),
+};
+
+export const AnalyticsSummaryResponseSchema = Type.Object({
+  range: Type.Object({
+    from: Type.String({ format: 'date-time' }),
+    to: Type.String({ format: 'date-time' }),
+  }),
+  totals: Type.Object(FunnelMetricsProperties),
+  daily: Type.Array(
+    Type.Object({
+      date: Type.String({ description: 'YYYY-MM-DD (UTC)' }),
+      sent: Type.Number(),
+      opened: Type.Number(),
+      clicked: Type.Number(),
+      replied: Type.Number(),
+    })
+  ),
+});
+
+export const AnalyticsBreakdownResponseSchema = Type.Object({
+  range: Type.Object({
+    from: Type.String({ format: 'date-time' }),
+    to: Type.String({ format: 'date-time' }),
+  }),
+  rows: Type.Array(
+    Type.Object({
+      key: Type.String(),
+      label: Type.String(),
+      ...FunnelMetricsProperties,
+    })
+  ),
+});
+
+const AbTestMetricSchema = Type.Union(
+  [
+    Type.Literal('opened'),
+    Type.Literal('clicked'),
+    Type.Literal('replied'),
+    Type.Literal('meeting'),
+  ],
+  { description: 'Rate variants are compared on' }
+);
+
+export const AbTestQuerySchema = Type.Object({
+  ...AnalyticsQuerySchema.properties,
+  metric: Type.Optional(AbTestMetricSchema),
+});
+
+export const AbTestParamsSchema = Type.Object({
+  testKey: Type.String({ description: 'A/B test the variants belong to' }),
+});
+
+export const AbTestWinnerBodySchema = Type.Object({
+  variantId: Type.String({ minLength: 1 }),
+  metric: Type.Optional(AbTestMetricSchema),
+});
+
+export const AbTestWinnerResponseSchema = Type.Object({
+  variantId: Type.String(),
+  metric: Type.String(),
+  promotedBy: Type.Union([Type.String(), Type.Null()], { description: 'Null when auto-promoted' }),
+  promotedAt: Type.String({ format: 'date-time' }),
+});
+
+export const AbTestResponseSchema = Type.Object({
+  range: Type.Object({
+    from: Type.String({ format: 'date-time' }),
+    to: Type.String({ format: 'date-time' }),
+  }),
+  tests: Type.Array(
+    Type.Object({
+      testKey: Type.String({ description: 'Identifies the test in the winner endpoints' }),
+      stepKey: Type.String({ description: 'Campaign plan step the test runs on' }),
+      metric: AbTestMetricSchema,
+      totalSent: Type.Number(),
+      leaderVariantId: Type.Union([Type.String(), Type.Null()]),
+      significant: Type.Boolean({
+        description: 'Leader beats every other variant at the 95% confidence level',
+      }),
+      winner: Type.Union([AbTestWinnerResponseSchema, Type.Null()]),
+      variants: Type.Array(
+        Type.Object({
+          variantId: Type.String(),
+          ...FunnelMetricsProperties,
+          metricRate: Type.Number({ description: 'Percentage of sent converting on the metric' }),
+          pValue: Type.Union([Type.Number(), Type.Null()], {
+            description: 'Two-proportion z-test against the leader; null for the leader',
+          }),
+          significant: Type.Boolean(),
+          isLeader: Type.Boolean(),
+        })
+      ),
+    })
+  ),
+});
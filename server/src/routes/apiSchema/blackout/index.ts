@@ -0,0 +1,53 @@
+import { Type } from '@sinclair/typebox';
+
+const DateSchema = Type.String({ pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'YYYY-MM-DD' });
+const KindSchema = Type.Union([Type.Literal('shutdown'), Type.Literal('pause')]);
+
+export const HolidayCalendarsRequestSchema = Type.Object({
+  countryCodes: Type.Array(Type.String({ minLength: 2, maxLength: 2 }), {
+    description: 'Countries whose national holidays block sends',
+  }),
+});
+
+export const HolidayCalendarsResponseSchema = Type.Object({
+  selected: Type.Array(Type.String()),
+  available: Type.Array(Type.Object({ countryCode: Type.String(), name: Type.String() })),
+});
+
+export const BlackoutPeriodRequestSchema = Type.Object({
+  name: Type.String({ minLength: 1 }),
+  kind: KindSchema,
+  startDate: DateSchema,
+  endDate: Type.Optional(DateSchema),
+});
+
+export const BlackoutPeriodResponseSchema = Type.Object({
+  id: Type.String(),
+  tenantId: Type.String(),
+  name: Type.String(),
+  kind: KindSchema,
+  startDate: DateSchema,
+  endDate: DateSchema,
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export const BlackoutPeriodListResponseSchema = Type.Array(BlackoutPeriodResponseSchema);
+
+export const BlackoutPeriodParamsSchema = Type.Object({
+  periodId: Type.String(),
+});
+
+export const UpcomingBlackoutQuerySchema = Type.Object({
+  days: Type.Optional(Type.Integer({ minimum: 1, maximum: 366, default: 90 })),
+});
+
+export const UpcomingBlackoutResponseSchema = Type.Array(
+  Type.Object({
+    date: DateSchema,
+    name: Type.String(),
+    source: Type.Union([Type.Literal('holiday'), KindSchema]),
+    countryCode: Type.Optional(Type.String()),
+    periodId: Type.Optional(Type.String()),
+  })
+);
@@ -0,0 +1,61 @@
+import { Type } from '@sinclair/typebox';
+
+const NullableString = Type.Union([Type.String(), Type.Null()]);
+const NullableDate = Type.Union([Type.String({ format: 'date-time' }), Type.Null()]);
+
+export const LeadCampaignQuerySchema = Type.Object({
+  leadId: Type.String(),
+});
+
+export const LeadCampaignResponseSchema = Type.Object({
+  id: Type.String(),
+  contactId: Type.String(),
+  contactName: Type.String(),
+  contactEmail: NullableString,
+  status: Type.String(),
+  currentNodeId: NullableString,
+  startedAt: NullableDate,
+  pausedAt: NullableDate,
+  completedAt: NullableDate,
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export const LeadCampaignListResponseSchema = Type.Array(LeadCampaignResponseSchema);
+
+export const CampaignTransitionResponseSchema = Type.Object({
+  id: Type.String(),
+  campaignId: Type.String(),
+  contactId: Type.String(),
+  contactName: Type.String(),
+  fromStatus: NullableString,
+  toStatus: Type.String(),
+  reason: NullableString,
+  createdBy: NullableString,
+  createdByName: NullableString,
+  occurredAt: Type.String({ format: 'date-time' }),
+});
+
+export const CampaignTransitionListResponseSchema = Type.Array(CampaignTransitionResponseSchema);
+
+export const CampaignControlRequestSchema = Type.Object({
+  scope: Type.Union(
+    [Type.Literal('campaign'), Type.Literal('lead'), Type.Literal('owner'), Type.Literal('tenant')],
+    { description: 'tenant changes every campaign and requires an admin' }
+  ),
+  id: Type.Optional(
+    Type.String({
+      description: 'Campaign or lead id; for owner, the user (defaults to you); unused for tenant',
+    })
+  ),
+  reason: Type.Optional(Type.String({ maxLength: 500 })),
+});
+
+export const CampaignControlResponseSchema = Type.Object({
+  updated: Type.Array(Type.String()),
+  skipped: Type.Array(
+    Type.Object({
+      id: Type.String(),
+      reason: Type.String({ description: 'status_<status> when not applicable, or failed' }),
+    })
+  ),
+});
@@ -0,0 +1,81 @@
+import { Type } from '@sinclair/typebox';
+
+const StatusSchema = Type.Union([
+  Type.Literal('open'),
+  Type.Literal('done'),
+  Type.Literal('skipped'),
+  Type.Literal('failed'),
+  Type.Literal('canceled'),
+]);
+const OutcomeSchema = Type.Union([
+  Type.Literal('done'),
+  Type.Literal('skipped'),
+  Type.Literal('failed'),
+]);
+const NullableString = Type.Union([Type.String(), Type.Null()]);
+const NullableDateTime = Type.Union([Type.String({ format: 'date-time' }), Type.Null()]);
+
+export const CampaignTaskSchema = Type.Object({
+  id: Type.String(),
+  tenantId: Type.String(),
+  campaignId: Type.String(),
+  leadId: Type.String(),
+  contactId: Type.String(),
+  nodeId: Type.String(),
+  assigneeId: NullableString,
+  type: Type.String({ description: 'call | linkedin | other' }),
+  title: Type.String(),
+  instructions: NullableString,
+  status: StatusSchema,
+  dueAt: Type.String({ format: 'date-time' }),
+  outcomeNote: NullableString,
+  completedAt: NullableDateTime,
+  completedBy: NullableString,
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export const CampaignTaskWithContextSchema = Type.Intersect([
+  CampaignTaskSchema,
+  Type.Object({
+    contactName: Type.String(),
+    contactEmail: NullableString,
+    contactPhone: NullableString,
+    contactTitle: NullableString,
+    leadName: Type.String(),
+  }),
+]);
+
+export const CampaignTaskListQuerySchema = Type.Object({
+  scope: Type.Optional(
+    Type.Union([Type.Literal('mine'), Type.Literal('all')], {
+      description: 'mine (default) lists tasks assigned to the current user',
+    })
+  ),
+  status: Type.Optional(StatusSchema),
+  dueBefore: Type.Optional(Type.String({ format: 'date-time' })),
+  page: Type.Optional(Type.Integer({ minimum: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200 })),
+});
+
+export const CampaignTaskListResponseSchema = Type.Object({
+  tasks: Type.Array(CampaignTaskWithContextSchema),
+  total: Type.Integer(),
+});
+
+export const CampaignTaskParamsSchema = Type.Object({
+  taskId: Type.String(),
+});
+
+export const CampaignTaskCompleteSchema = Type.Object({
+  outcome: OutcomeSchema,
+  note: Type.Optional(Type.String({ maxLength: 2000 })),
+});
+
+export const CampaignTaskCompleteResponseSchema = Type.Object({
+  task: CampaignTaskSchema,
+  transitioned: Type.Boolean({
+    description: 'Whether the outcome moved the campaign to its next node',
+  }),
+  toNodeId: Type.Optional(Type.String()),
+});
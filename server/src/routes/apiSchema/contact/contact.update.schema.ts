@@ -17,6 +17,15 @@ export const UpdateContactRequestSchema = Type.Object({
   title: Type.Optional(
     Type.Union([Type.String({ description: 'Contact job title' }), Type.Null()])
   ),
+  location: Type.Optional(
+    Type.Union([Type.String({ description: 'Contact location, e.g. "Austin, TX"' }), Type.Null()])
+  ),
+  timezone: Type.Optional(
+    Type.Union([
+      Type.String({ description: 'IANA timezone used to schedule sends, e.g. America/Chicago' }),
+      Type.Null(),
+    ])
+  ),
 });
 
 // Response schema for contact update
@@ -0,0 +1,40 @@
+import { Type } from '@sinclair/typebox';
+
+const ChannelTypeSchema = Type.Union([Type.Literal('email'), Type.Literal('sms')]);
+
+export const ContactChannelSchema = Type.Object({
+  id: Type.String(),
+  tenantId: Type.String(),
+  contactId: Type.String(),
+  type: ChannelTypeSchema,
+  value: Type.String(),
+  isPrimary: Type.Boolean(),
+  isVerified: Type.Boolean(),
+  verificationStatus: Type.Union([Type.String(), Type.Null()], {
+    description: 'EmailListVerify result, or bounced after a hard bounce',
+  }),
+  verifiedAt: Type.Union([Type.String({ format: 'date-time' }), Type.Null()]),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export const ContactChannelListResponseSchema = Type.Array(ContactChannelSchema);
+
+export const ContactChannelsParamsSchema = Type.Object({
+  leadId: Type.String({ description: 'Lead ID' }),
+  contactId: Type.String({ description: 'Contact ID' }),
+});
+
+export const ContactChannelParamsSchema = Type.Object({
+  leadId: Type.String({ description: 'Lead ID' }),
+  contactId: Type.String({ description: 'Contact ID' }),
+  channelId: Type.String({ description: 'Contact channel ID' }),
+});
+
+export const ContactChannelCreateSchema = Type.Object({
+  type: ChannelTypeSchema,
+  value: Type.String({ minLength: 1, description: 'Email address or phone number' }),
+  isPrimary: Type.Optional(
+    Type.Boolean({ description: 'Make this the address campaigns send to' })
+  ),
+});
@@ -0,0 +1,15 @@
+import { Type } from '@sinclair/typebox';
+
+export const EmailTrackingParamsSchema = Type.Object({
+  tenantId: Type.String(),
+  outboundMessageId: Type.String(),
+});
+
+export const EmailTrackingOpenQuerySchema = Type.Object({
+  sig: Type.Optional(Type.String()),
+});
+
+export const EmailTrackingClickQuerySchema = Type.Object({
+  u: Type.String({ description: 'Original link URL' }),
+  sig: Type.Optional(Type.String()),
+});
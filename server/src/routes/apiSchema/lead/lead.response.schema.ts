@@ -37,6 +37,18 @@ export const LeadResponseSchema = Type.Object({
   brandColors: Type.Optional(Type.Array(Type.String(), { description: 'Lead brand colors' })),
   primaryContactId: Type.Optional(Type.String({ description: 'Primary contact ID' })),
   ownerId: Type.Optional(Type.String({ description: 'Lead owner ID' })),
+  pipelineStageId: Type.Optional(
+    Type.Union([Type.String(), Type.Null()], { description: 'Sales pipeline stage ID' })
+  ),
+  dealValue: Type.Optional(Type.Union([Type.Number(), Type.Null()], { description: 'Deal value' })),
+  expectedCloseDate: Type.Optional(
+    Type.Union([Type.String(), Type.Null()], { description: 'Expected close date (YYYY-MM-DD)' })
+  ),
+  stageChangedAt: Type.Optional(
+    Type.Union([Type.String({ format: 'date-time' }), Type.Null()], {
+      description: 'When the lead last changed pipeline stage',
+    })
+  ),
   createdAt: Type.String({ format: 'date-time', description: 'Created timestamp' }),
   updatedAt: Type.String({ format: 'date-time', description: 'Updated timestamp' }),
   pointOfContacts: Type.Optional(
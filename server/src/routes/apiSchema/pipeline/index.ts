@@ -0,0 +1,97 @@
+import { Type } from '@sinclair/typebox';
+
+const StageKindSchema = Type.Union([
+  Type.Literal('open'),
+  Type.Literal('won'),
+  Type.Literal('lost'),
+]);
+const PipelineEventSchema = Type.Union([
+  Type.Literal('message_sent'),
+  Type.Literal('reply_received'),
+  Type.Literal('meeting_booked'),
+]);
+
+export const PipelineStageResponseSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  position: Type.Number(),
+  kind: StageKindSchema,
+  autoAdvanceOn: Type.Array(PipelineEventSchema),
+});
+
+export const PipelineStageListResponseSchema = Type.Array(PipelineStageResponseSchema);
+
+export const ReplacePipelineStagesRequestSchema = Type.Object({
+  stages: Type.Array(
+    Type.Object({
+      id: Type.Optional(Type.String({ description: 'Existing stage to keep; omit to add one' })),
+      name: Type.String({ minLength: 1, maxLength: 100 }),
+      kind: StageKindSchema,
+      autoAdvanceOn: Type.Optional(
+        Type.Array(PipelineEventSchema, { description: 'Events that move leads into this stage' })
+      ),
+    }),
+    { minItems: 1, maxItems: 20 }
+  ),
+});
+
+export const PipelineBoardQuerySchema = Type.Object({
+  ownerId: Type.Optional(Type.String({ description: 'Only show leads owned by this user' })),
+});
+
+const PipelineLeadSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  url: Type.String(),
+  ownerId: Type.Union([Type.String(), Type.Null()]),
+  ownerName: Type.Union([Type.String(), Type.Null()]),
+  pipelineStageId: Type.Union([Type.String(), Type.Null()]),
+  dealValue: Type.Union([Type.Number(), Type.Null()]),
+  expectedCloseDate: Type.Union([Type.String(), Type.Null()]),
+  stageChangedAt: Type.Union([Type.String({ format: 'date-time' }), Type.Null()]),
+  createdAt: Type.String({ format: 'date-time' }),
+});
+
+export const PipelineBoardResponseSchema = Type.Array(
+  Type.Object({
+    stage: PipelineStageResponseSchema,
+    leads: Type.Array(PipelineLeadSchema),
+    totalValue: Type.Number(),
+  })
+);
+
+export const PipelineLeadParamsSchema = Type.Object({
+  leadId: Type.String(),
+});
+
+export const UpdateLeadDealRequestSchema = Type.Object({
+  stageId: Type.Optional(Type.String()),
+  dealValue: Type.Optional(Type.Union([Type.Number({ minimum: 0 }), Type.Null()])),
+  expectedCloseDate: Type.Optional(
+    Type.Union([
+      Type.String({ pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'YYYY-MM-DD' }),
+      Type.Null(),
+    ])
+  ),
+});
+
+export const UpdateLeadDealResponseSchema = Type.Object({
+  id: Type.String(),
+  pipelineStageId: Type.Union([Type.String(), Type.Null()]),
+  dealValue: Type.Union([Type.Number(), Type.Null()]),
+  expectedCloseDate: Type.Union([Type.String(), Type.Null()]),
+  stageChangedAt: Type.Union([Type.String({ format: 'date-time' }), Type.Null()]),
+});
+
+export const LeadStageHistoryResponseSchema = Type.Array(
+  Type.Object({
+    id: Type.String(),
+    fromStageId: Type.Union([Type.String(), Type.Null()]),
+    toStageId: Type.Union([Type.String(), Type.Null()]),
+    fromStageName: Type.Union([Type.String(), Type.Null()]),
+    toStageName: Type.String(),
+    source: Type.String(),
+    changedBy: Type.Union([Type.String(), Type.Null()]),
+    createdAt: Type.String({ format: 'date-time' }),
+  })
+);
@@ -15,6 +15,22 @@ export const WorkingHoursSchema = Type.Object({
   sunday: Type.Array(WorkingHourRangeSchema),
 });
 
+export const NoShowFollowUpSchema = Type.Object({
+  enabled: Type.Boolean(),
+  steps: Type.Array(
+    Type.Object({
+      delayHours: Type.Integer({
+        minimum: 1,
+        maximum: 720,
+        description: 'Hours after the missed meeting, or after the previous email',
+      }),
+      subject: Type.String({ minLength: 1 }),
+      body: Type.String({ minLength: 1 }),
+    }),
+    { maxItems: 5 }
+  ),
+});
+
 export const SchedulingSettingsRequestSchema = Type.Object({
   timezone: Type.Optional(Type.String()),
   workingHours: Type.Optional(WorkingHoursSchema),
@@ -24,6 +40,9 @@ export const SchedulingSettingsRequestSchema = Type.Object({
   minNoticeMinutes: Type.Optional(Type.Integer({ minimum: 0, maximum: 43200 })),
   bookingHorizonDays: Type.Optional(Type.Integer({ minimum: 1, maximum: 365 })),
   respectFreeBusy: Type.Optional(Type.Boolean()),
+  bookingPoolId: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+  remindersEnabled: Type.Optional(Type.Boolean()),
+  noShowFollowUp: Type.Optional(Type.Union([NoShowFollowUpSchema, Type.Null()])),
 });
 
 export const SchedulingSettingsResponseSchema = Type.Object({
@@ -38,6 +57,9 @@ export const SchedulingSettingsResponseSchema = Type.Object({
   minNoticeMinutes: Type.Integer(),
   bookingHorizonDays: Type.Integer(),
   respectFreeBusy: Type.Boolean(),
+  bookingPoolId: Type.Union([Type.String(), Type.Null()]),
+  remindersEnabled: Type.Boolean(),
+  noShowFollowUp: NoShowFollowUpSchema,
 });
 
 export const BookingTokenParamsSchema = Type.Object({
@@ -48,6 +70,23 @@ export const PublicBookingContextResponseSchema = Type.Object({
   tokenId: Type.String(),
   timezone: Type.String(),
   meetingDurationMinutes: Type.Integer(),
+  teamName: Type.Optional(Type.String()), // Set when the link books a team pool
+  meetingType: Type.Optional(
+    Type.Object({
+      name: Type.String(),
+      description: Type.Optional(Type.String()),
+      locationType: Type.String(),
+      location: Type.Optional(Type.String()),
+      questions: Type.Array(
+        Type.Object({
+          id: Type.String(),
+          label: Type.String(),
+          type: Type.String(),
+          required: Type.Boolean(),
+        })
+      ),
+    })
+  ),
   lead: Type.Object({
     id: Type.String(),
     name: Type.String(),
@@ -97,6 +136,7 @@ export const ScheduleConfirmRequestSchema = Type.Object({
     name: Type.String({ minLength: 1 }),
     email: Type.String({ format: 'email' }),
     phone: Type.Optional(Type.String()),
+    answers: Type.Optional(Type.Record(Type.String(), Type.String({ maxLength: 2000 }))),
   }),
 });
 
@@ -104,3 +144,175 @@ export const ScheduleConfirmResponseSchema = Type.Object({
   meetingId: Type.String(),
   calendarEventLink: Type.Optional(Type.String()),
 });
+
+export const MeetingLinkParamsSchema = Type.Object({
+  token: Type.String(),
+});
+
+export const ManagedMeetingResponseSchema = Type.Object({
+  meetingId: Type.String(),
+  status: Type.String(),
+  startTime: Type.String(),
+  endTime: Type.String(),
+  timezone: Type.String(),
+  contactName: Type.Optional(Type.String()),
+});
+
+export const BookedMeetingParamsSchema = Type.Object({
+  meetingId: Type.String(),
+});
+
+export const BookedMeetingResponseSchema = Type.Object({
+  id: Type.String(),
+  status: Type.String(),
+  startTime: Type.String(),
+  endTime: Type.String(),
+  leadId: Type.Union([Type.String(), Type.Null()]),
+  contactId: Type.Union([Type.String(), Type.Null()]),
+  contactName: Type.Optional(Type.String()),
+  contactEmail: Type.Optional(Type.String()),
+});
+
+export const BookedMeetingListResponseSchema = Type.Array(BookedMeetingResponseSchema);
+
+export const MeetingOutcomeRequestSchema = Type.Object({
+  outcome: Type.Union([Type.Literal('held'), Type.Literal('no_show')]),
+});
+
+export const MeetingOutcomeResponseSchema = Type.Object({
+  meeting: BookedMeetingResponseSchema,
+  followUpStarted: Type.Boolean(),
+});
+
+export const MeetingAvailabilityQuerySchema = Type.Object({
+  startDate: Type.String({ pattern: '^\\d{4}-\\d{2}-\\d{2}$' }),
+  endDate: Type.String({ pattern: '^\\d{4}-\\d{2}-\\d{2}$' }),
+});
+
+export const MeetingRescheduleRequestSchema = Type.Object({
+  slot: Type.String({ format: 'date-time' }),
+});
+
+export const MeetingCancelRequestSchema = Type.Object({
+  reason: Type.Optional(Type.String({ maxLength: 500 })),
+});
+
+export const SchedulingPoolParamsSchema = Type.Object({
+  poolId: Type.String(),
+});
+
+export const SchedulingPoolRequestSchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 200 }),
+  mode: Type.Union([Type.Literal('round_robin'), Type.Literal('collective')]),
+  assignmentStrategy: Type.Union([
+    Type.Literal('round_robin'),
+    Type.Literal('least_recently_booked'),
+    Type.Literal('owner_first'),
+  ]),
+  meetingDurationMinutes: Type.Integer({ minimum: 5, maximum: 240 }),
+  memberIds: Type.Array(Type.String(), { minItems: 1 }),
+});
+
+export const SchedulingPoolResponseSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  mode: Type.String(),
+  assignmentStrategy: Type.String(),
+  meetingDurationMinutes: Type.Integer(),
+  members: Type.Array(
+    Type.Object({
+      userId: Type.String(),
+      userName: Type.Union([Type.String(), Type.Null()]),
+      userEmail: Type.String(),
+      position: Type.Integer(),
+    })
+  ),
+});
+
+export const SchedulingPoolListResponseSchema = Type.Array(SchedulingPoolResponseSchema);
+
+const MeetingTypeQuestionSchema = Type.Object({
+  id: Type.String({ minLength: 1, maxLength: 50 }),
+  label: Type.String({ minLength: 1, maxLength: 300 }),
+  type: Type.Union([Type.Literal('text'), Type.Literal('long_text')]),
+  required: Type.Boolean(),
+});
+
+export const MeetingTypeParamsSchema = Type.Object({
+  meetingTypeId: Type.String(),
+});
+
+export const MeetingTypeRequestSchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 200 }),
+  slug: Type.String({ minLength: 1, maxLength: 80 }),
+  description: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+  durationMinutes: Type.Integer({ minimum: 5, maximum: 240 }),
+  bufferBeforeMinutes: Type.Optional(
+    Type.Union([Type.Integer({ minimum: 0, maximum: 240 }), Type.Null()])
+  ),
+  bufferAfterMinutes: Type.Optional(
+    Type.Union([Type.Integer({ minimum: 0, maximum: 240 }), Type.Null()])
+  ),
+  locationType: Type.Union([
+    Type.Literal('video'),
+    Type.Literal('phone'),
+    Type.Literal('in_person'),
+    Type.Literal('custom'),
+  ]),
+  location: Type.Optional(Type.Union([Type.String({ maxLength: 500 }), Type.Null()])),
+  questions: Type.Optional(Type.Array(MeetingTypeQuestionSchema, { maxItems: 10 })),
+  isActive: Type.Optional(Type.Boolean()),
+});
+
+export const MeetingTypeResponseSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  slug: Type.String(),
+  description: Type.Union([Type.String(), Type.Null()]),
+  durationMinutes: Type.Integer(),
+  bufferBeforeMinutes: Type.Union([Type.Integer(), Type.Null()]),
+  bufferAfterMinutes: Type.Union([Type.Integer(), Type.Null()]),
+  locationType: Type.String(),
+  location: Type.Union([Type.String(), Type.Null()]),
+  questions: Type.Array(MeetingTypeQuestionSchema),
+  isActive: Type.Boolean(),
+});
+
+export const MeetingTypeListResponseSchema = Type.Array(MeetingTypeResponseSchema);
+
+export const CalendarConnectionParamsSchema = Type.Object({
+  connectionId: Type.String(),
+});
+
+export const CalendarConnectionResponseSchema = Type.Object({
+  id: Type.String(),
+  provider: Type.String(),
+  providerCalendarId: Type.String(),
+  displayName: Type.Union([Type.String(), Type.Null()]),
+  primaryEmail: Type.Union([Type.String(), Type.Null()]),
+  checkForConflicts: Type.Boolean(),
+  isBookingCalendar: Type.Boolean(),
+  reauthRequired: Type.Boolean(),
+});
+
+export const CalendarConnectionListResponseSchema = Type.Array(CalendarConnectionResponseSchema);
+
+export const CalendarConnectionCreateRequestSchema = Type.Object({
+  connectionId: Type.String({ description: 'A connected calendar of the same account' }),
+  providerCalendarId: Type.String({ minLength: 1 }),
+});
+
+export const CalendarConnectionUpdateRequestSchema = Type.Object({
+  checkForConflicts: Type.Optional(Type.Boolean()),
+  isBookingCalendar: Type.Optional(Type.Boolean()),
+});
+
+export const AccountCalendarListResponseSchema = Type.Array(
+  Type.Object({
+    id: Type.String(),
+    name: Type.String(),
+    isPrimary: Type.Boolean(),
+    canWrite: Type.Boolean(),
+    connectionId: Type.Union([Type.String(), Type.Null()]),
+  })
+);
@@ -0,0 +1,42 @@
+import { Type } from '@sinclair/typebox';
+
+const ChannelSchema = Type.Union([Type.Literal('email'), Type.Literal('sms')]);
+const ScopeSchema = Type.Union([Type.Literal('tenant'), Type.Literal('identity')]);
+
+export const SendRateLimitRequestSchema = Type.Object({
+  channel: ChannelSchema,
+  scope: ScopeSchema,
+  windowSeconds: Type.Integer({ minimum: 1, maximum: 604800 }),
+  maxSends: Type.Integer({ minimum: 1 }),
+});
+
+export const SendRateLimitResponseSchema = Type.Object({
+  id: Type.String(),
+  tenantId: Type.String(),
+  channel: ChannelSchema,
+  scope: Type.String(),
+  windowSeconds: Type.Integer(),
+  maxSends: Type.Integer(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export const SendRateLimitListResponseSchema = Type.Array(SendRateLimitResponseSchema);
+
+export const SendRateLimitParamsSchema = Type.Object({
+  limitId: Type.String(),
+});
+
+export const SendRateLimitUsageResponseSchema = Type.Array(
+  Type.Object({
+    limitId: Type.String(),
+    channel: ChannelSchema,
+    scope: ScopeSchema,
+    windowSeconds: Type.Integer(),
+    maxSends: Type.Integer(),
+    identityId: Type.Union([Type.String(), Type.Null()]),
+    identityLabel: Type.Union([Type.String(), Type.Null()]),
+    used: Type.Integer(),
+    remaining: Type.Integer(),
+  })
+);
@@ -0,0 +1,83 @@
+import { Type } from '@sinclair/typebox';
+
+const NullableString = Type.Union([Type.String(), Type.Null()]);
+
+export const SendReviewPolicySchema = Type.Union(
+  [Type.Literal('off'), Type.Literal('all'), Type.Literal('first_step')],
+  {
+    description:
+      'off sends without review, all holds every campaign message, first_step holds only the first message of each sequence',
+  }
+);
+
+export const SendReviewPolicyRequestSchema = Type.Object({
+  policy: SendReviewPolicySchema,
+});
+
+export const SendReviewPolicyResponseSchema = Type.Object({
+  policy: SendReviewPolicySchema,
+});
+
+export const ReviewMessageQuerySchema = Type.Object({
+  ownerId: Type.Optional(Type.String({ description: 'Only messages to leads owned by this user' })),
+});
+
+const reviewMessageProperties = {
+  id: Type.String(),
+  campaignId: Type.String(),
+  contactId: Type.String(),
+  channel: Type.String(),
+  nodeId: NullableString,
+  variantId: NullableString,
+  state: Type.String(),
+  content: Type.Object({
+    subject: Type.Optional(Type.String()),
+    body: Type.Optional(Type.String()),
+    to: Type.Optional(Type.String()),
+    toName: Type.Optional(Type.String()),
+  }),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+};
+
+export const ReviewMessageResponseSchema = Type.Object(reviewMessageProperties);
+
+export const ReviewInboxMessageSchema = Type.Object({
+  ...reviewMessageProperties,
+  contactName: Type.String(),
+  contactEmail: NullableString,
+  contactTitle: NullableString,
+  leadId: Type.String(),
+  leadName: Type.String(),
+  ownerId: NullableString,
+});
+
+export const ReviewMessageListResponseSchema = Type.Array(ReviewInboxMessageSchema);
+
+export const ReviewMessageParamsSchema = Type.Object({
+  messageId: Type.String(),
+});
+
+export const ReviewMessageUpdateRequestSchema = Type.Object({
+  subject: Type.Optional(Type.String({ description: 'Required for email' })),
+  body: Type.String({ minLength: 1 }),
+});
+
+export const ReviewApproveRequestSchema = Type.Object({
+  messageIds: Type.Array(Type.String(), { minItems: 1, maxItems: 200 }),
+});
+
+export const ReviewRejectRequestSchema = Type.Object({
+  messageIds: Type.Array(Type.String(), { minItems: 1, maxItems: 200 }),
+  reason: Type.Optional(Type.String({ maxLength: 500 })),
+});
+
+export const ReviewActionResponseSchema = Type.Object({
+  updated: Type.Array(Type.String()),
+  skipped: Type.Array(
+    Type.Object({
+      id: Type.String(),
+      reason: Type.String({ description: 'not_pending, campaign_paused or campaign_inactive' }),
+    })
+  ),
+});
@@ -0,0 +1,35 @@
+import { Type } from '@sinclair/typebox';
+
+const SendWindowSchema = Type.Object({
+  days: Type.Array(Type.Integer({ minimum: 0, maximum: 6 }), {
+    minItems: 1,
+    description: 'Weekdays in the contact timezone, 0 = Sunday',
+  }),
+  start: Type.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d$', description: 'HH:MM' }),
+  end: Type.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d$', description: 'HH:MM' }),
+});
+
+export const SendTimeSettingsRequestSchema = Type.Object({
+  enabled: Type.Optional(Type.Boolean()),
+  windows: Type.Optional(
+    Type.Union([Type.Array(SendWindowSchema), Type.Null()], {
+      description:
+        'Preferred send windows; null clears them so sends only follow the contact timezone',
+    })
+  ),
+  learnFromEngagement: Type.Optional(Type.Boolean()),
+});
+
+export const SendTimeSettingsResponseSchema = Type.Object({
+  enabled: Type.Boolean(),
+  windows: Type.Array(SendWindowSchema),
+  usingDefaultWindows: Type.Boolean(),
+  learnFromEngagement: Type.Boolean(),
+  learnedWindows: Type.Union([Type.Array(SendWindowSchema), Type.Null()]),
+  learnedSampleSize: Type.Integer(),
+  learnedAt: Type.Union([Type.String({ format: 'date-time' }), Type.Null()]),
+  activeWindows: Type.Array(SendWindowSchema, {
+    description:
+      'Windows emails are currently scheduled into; empty when sends only follow the contact timezone',
+  }),
+});
@@ -30,6 +30,12 @@ export const PointOfContactResponseSchema = Type.Object({
   title: Type.Optional(Type.String({ description: 'Contact job title' })),
   company: Type.Optional(Type.String({ description: 'Contact company' })),
   sourceUrl: Type.Optional(Type.String({ description: 'URL where contact information was found' })),
+  location: Type.Optional(
+    Type.Union([Type.String({ description: 'Contact location' }), Type.Null()])
+  ),
+  timezone: Type.Optional(
+    Type.Union([Type.String({ description: 'Contact timezone' }), Type.Null()])
+  ),
   manuallyReviewed: Type.Boolean({ description: 'Whether the contact has been manually reviewed' }),
   createdAt: Type.String({ format: 'date-time', description: 'Created timestamp' }),
   updatedAt: Type.String({ format: 'date-time', description: 'Updated timestamp' }),
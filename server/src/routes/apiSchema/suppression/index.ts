@@ -0,0 +1,81 @@
+import { Type } from '@sinclair/typebox';
+
+const ChannelSchema = Type.Union([Type.Literal('email'), Type.Literal('sms')]);
+const ReasonSchema = Type.Union([
+  Type.Literal('manual'),
+  Type.Literal('competitor'),
+  Type.Literal('customer'),
+  Type.Literal('legal'),
+  Type.Literal('hard_bounce'),
+  Type.Literal('spam_report'),
+]);
+const NullableDateTime = Type.Union([Type.String({ format: 'date-time' }), Type.Null()]);
+
+export const SuppressionSchema = Type.Object({
+  id: Type.String(),
+  tenantId: Type.String(),
+  channel: ChannelSchema,
+  address: Type.String(),
+  reason: Type.Union([Type.String(), Type.Null()]),
+  suppressedAt: Type.String({ format: 'date-time' }),
+  expiresAt: NullableDateTime,
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export const SuppressionListQuerySchema = Type.Object({
+  channel: Type.Optional(ChannelSchema),
+  reason: Type.Optional(ReasonSchema),
+  search: Type.Optional(Type.String()),
+  includeExpired: Type.Optional(Type.Boolean()),
+  page: Type.Optional(Type.Integer({ minimum: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 500 })),
+});
+
+export const SuppressionListResponseSchema = Type.Object({
+  suppressions: Type.Array(SuppressionSchema),
+  total: Type.Integer(),
+});
+
+export const SuppressionCreateSchema = Type.Object({
+  channel: ChannelSchema,
+  address: Type.String({
+    minLength: 1,
+    description: 'Email address, email domain or phone number',
+  }),
+  reason: Type.Optional(ReasonSchema),
+  expiresAt: Type.Optional(NullableDateTime),
+});
+
+export const SuppressionUpdateSchema = Type.Object({
+  reason: Type.Optional(ReasonSchema),
+  expiresAt: Type.Optional(NullableDateTime),
+});
+
+export const SuppressionParamsSchema = Type.Object({
+  suppressionId: Type.String(),
+});
+
+export const SuppressionImportSchema = Type.Object({
+  csv: Type.String({ minLength: 1, description: 'CSV file contents' }),
+  channel: Type.Optional(ChannelSchema),
+  reason: Type.Optional(ReasonSchema),
+  expiresAt: Type.Optional(NullableDateTime),
+});
+
+export const SuppressionImportResponseSchema = Type.Object({
+  imported: Type.Integer(),
+  invalid: Type.Array(
+    Type.Object({
+      line: Type.Integer(),
+      value: Type.String(),
+      error: Type.String(),
+    })
+  ),
+});
+
+export const SuppressionExportQuerySchema = Type.Object({
+  channel: Type.Optional(ChannelSchema),
+  reason: Type.Optional(ReasonSchema),
+  includeExpired: Type.Optional(Type.Boolean()),
+});
@@ -0,0 +1,74 @@
+import { Type } from '@sinclair/typebox';
+
+const NullableString = Type.Union([Type.String(), Type.Null()]);
+
+export const EmailTemplateRequestSchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  description: Type.Optional(NullableString),
+  subject: Type.Optional(NullableString),
+  body: Type.String({ minLength: 1 }),
+  useAsExample: Type.Optional(
+    Type.Boolean({ description: 'Show this template to the AI as an example of the house style' })
+  ),
+});
+
+export const EmailTemplateResponseSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  description: NullableString,
+  subject: NullableString,
+  body: Type.String(),
+  useAsExample: Type.Boolean(),
+  createdBy: NullableString,
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export const EmailTemplateListResponseSchema = Type.Array(EmailTemplateResponseSchema);
+
+export const EmailTemplateParamsSchema = Type.Object({
+  templateId: Type.String(),
+});
+
+export const EmailSnippetRequestSchema = Type.Object({
+  key: Type.String({
+    minLength: 1,
+    maxLength: 50,
+    description: 'Used as {{snippet.<key>}}; cannot be changed later',
+  }),
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  body: Type.String({ minLength: 1 }),
+});
+
+export const EmailSnippetResponseSchema = Type.Object({
+  id: Type.String(),
+  key: Type.String(),
+  name: Type.String(),
+  body: Type.String(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export const EmailSnippetListResponseSchema = Type.Array(EmailSnippetResponseSchema);
+
+export const EmailSnippetParamsSchema = Type.Object({
+  snippetId: Type.String(),
+});
+
+export const TemplateVariableListResponseSchema = Type.Array(
+  Type.Object({
+    name: Type.String(),
+    description: Type.String(),
+  })
+);
+
+export const TemplatePreviewRequestSchema = Type.Object({
+  contactId: Type.String(),
+  subject: Type.Optional(Type.String()),
+  body: Type.String(),
+});
+
+export const TemplatePreviewResponseSchema = Type.Object({
+  subject: Type.Optional(Type.String()),
+  body: Type.String(),
+});
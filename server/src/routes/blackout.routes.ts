@@ -0,0 +1,148 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import {
+  blackoutService,
+  listHolidayCalendars,
+  type BlackoutPeriodInput,
+} from '@/modules/blackout';
+import {
+  BlackoutPeriodListResponseSchema,
+  BlackoutPeriodParamsSchema,
+  BlackoutPeriodRequestSchema,
+  BlackoutPeriodResponseSchema,
+  HolidayCalendarsRequestSchema,
+  HolidayCalendarsResponseSchema,
+  UpcomingBlackoutQuerySchema,
+  UpcomingBlackoutResponseSchema,
+} from './apiSchema/blackout';
+
+const basePath = '/blackouts';
+
+export default async function BlackoutRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/holiday-calendars`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Blackouts'],
+      summary: 'Holiday calendars observed by the tenant',
+      response: {
+        200: HolidayCalendarsResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const selected = await blackoutService.getHolidayCalendars(tenantId);
+      return reply.send({ selected, available: listHolidayCalendars() });
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/holiday-calendars`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Blackouts'],
+      summary: 'Set the holiday calendars observed by the tenant',
+      body: HolidayCalendarsRequestSchema,
+      response: {
+        200: HolidayCalendarsResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: { countryCodes: string[] } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const selected = await blackoutService.setHolidayCalendars(
+        tenantId,
+        request.body.countryCodes
+      );
+      return reply.send({ selected, available: listHolidayCalendars() });
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/periods`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Blackouts'],
+      summary: 'List company shutdowns and send pauses',
+      response: {
+        200: BlackoutPeriodListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const periods = await blackoutService.listPeriods(tenantId);
+      return reply.send(periods);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/periods`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Blackouts'],
+      summary: 'Add a company shutdown or send pause',
+      description:
+        'Dates are inclusive and apply in each contact’s local time. Omit endDate to pause sends for a single day.',
+      body: BlackoutPeriodRequestSchema,
+      response: {
+        201: BlackoutPeriodResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: BlackoutPeriodInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const period = await blackoutService.createPeriod(tenantId, request.body);
+      return reply.status(201).send(period);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/periods/:periodId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Blackouts'],
+      summary: 'Delete a company shutdown or send pause',
+      params: BlackoutPeriodParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { periodId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      await blackoutService.deletePeriod(tenantId, request.params.periodId);
+      return reply.status(204).send();
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/upcoming`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Blackouts'],
+      summary: 'Upcoming dates campaign sends will skip',
+      querystring: UpcomingBlackoutQuerySchema,
+      response: {
+        200: UpcomingBlackoutResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: { days?: number } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const dates = await blackoutService.listUpcomingDates(tenantId, request.query.days ?? 90);
+      return reply.send(dates);
+    },
+  });
+}
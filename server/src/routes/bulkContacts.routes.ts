@@ -136,7 +136,6 @@ export default async function bulkContactsRoutes(fastify: FastifyInstance) {
               leadId: lead.id,
               contactId: contact.id,
               plan: campaignPlan,
-              channel: 'email',
             });
 
             createdCampaigns.push({
@@ -6,6 +6,7 @@ import {
   leadRepository,
   leadPointOfContactRepository,
 } from '@/repositories';
+import { botDetectionService } from '@/modules/botDetection';
 
 interface CalendarTrackParams {
   tenantId: string;
@@ -86,6 +87,17 @@ export default async function calendarRoutes(fastify: FastifyInstance) {
         return reply.status(400).send({ error: 'Calendar link not configured' });
       }
 
+      // Scanners follow calendar links too; their clicks are kept but not counted
+      const assessment = await botDetectionService.assessEvent({
+        tenantId,
+        type: 'click',
+        eventAt: new Date(),
+        outboundMessageId: messageId,
+        userAgent,
+        ipAddress,
+        url: user.calendarLink,
+      });
+
       // Log the click
       await calendarLinkClickRepository.createForTenant(tenantId, {
         leadId,
@@ -97,6 +109,8 @@ export default async function calendarRoutes(fastify: FastifyInstance) {
         ipAddress,
         userAgent,
         referrer,
+        isMachine: assessment.isMachine,
+        machineReasons: assessment.isMachine ? assessment.reasons : null,
       });
 
       logger.info('[CalendarRoutes] Calendar click logged successfully', {
@@ -105,6 +119,7 @@ export default async function calendarRoutes(fastify: FastifyInstance) {
         contactId,
         userId,
         calendarLink: user.calendarLink,
+        isMachine: assessment.isMachine,
       });
 
       // Redirect to the actual calendar link
@@ -0,0 +1,77 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import {
+  campaignTaskService,
+  type CampaignTaskListFilters,
+  type CompleteCampaignTaskInput,
+} from '@/modules/campaignTask';
+import {
+  CampaignTaskCompleteResponseSchema,
+  CampaignTaskCompleteSchema,
+  CampaignTaskListQuerySchema,
+  CampaignTaskListResponseSchema,
+  CampaignTaskParamsSchema,
+} from './apiSchema/campaignTask';
+
+const basePath = '/tasks';
+
+export default async function CampaignTaskRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: basePath,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Tasks'],
+      summary: 'List manual campaign tasks',
+      description: 'Defaults to open tasks assigned to the current user, soonest due first.',
+      querystring: CampaignTaskListQuerySchema,
+      response: {
+        200: CampaignTaskListResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: CampaignTaskListFilters }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const result = await campaignTaskService.listTasks(tenantId, user.id, request.query);
+      return reply.send(result);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/:taskId/complete`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Tasks'],
+      summary: 'Record the outcome of a task',
+      description:
+        'Marks the task done, skipped or failed. If the campaign is still on the task node, ' +
+        'the outcome triggers its task_done / task_skipped / task_failed transition.',
+      params: CampaignTaskParamsSchema,
+      body: CampaignTaskCompleteSchema,
+      response: {
+        200: CampaignTaskCompleteResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { taskId: string }; Body: CompleteCampaignTaskInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const { task, transition } = await campaignTaskService.completeTask(
+        tenantId,
+        user.id,
+        request.params.taskId,
+        request.body
+      );
+      return reply.send({
+        task,
+        transitioned: !!transition?.success,
+        toNodeId: transition?.toNodeId,
+      });
+    },
+  });
+}
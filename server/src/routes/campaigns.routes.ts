@@ -0,0 +1,138 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import { campaignControlService, type CampaignControlTarget } from '@/modules/campaignControl';
+import {
+  CampaignControlRequestSchema,
+  CampaignControlResponseSchema,
+  CampaignTransitionListResponseSchema,
+  LeadCampaignListResponseSchema,
+  LeadCampaignQuerySchema,
+} from './apiSchema/campaign';
+
+const basePath = '/campaigns';
+
+type CampaignControlBody = CampaignControlTarget & { reason?: string };
+
+export default async function CampaignRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: basePath,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Campaigns'],
+      summary: 'List a lead’s contact campaigns',
+      querystring: LeadCampaignQuerySchema,
+      response: {
+        200: LeadCampaignListResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: { leadId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const campaigns = await campaignControlService.listForLead(tenantId, request.query.leadId);
+      return reply.send(campaigns);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/transitions`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Campaigns'],
+      summary: 'Status history of a lead’s campaigns',
+      querystring: LeadCampaignQuerySchema,
+      response: {
+        200: CampaignTransitionListResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: { leadId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const transitions = await campaignControlService.listTransitionsForLead(
+        tenantId,
+        request.query.leadId
+      );
+      return reply.send(transitions);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/pause`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Campaigns'],
+      summary: 'Pause campaigns',
+      description:
+        'Pauses active campaigns until they are resumed. Nothing is sent and no timeouts fire while paused.',
+      body: CampaignControlRequestSchema,
+      response: {
+        200: CampaignControlResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: CampaignControlBody }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const { reason, ...target } = request.body;
+      const result = await campaignControlService.pause(tenantId, user.id, target, reason);
+      return reply.send(result);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/resume`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Campaigns'],
+      summary: 'Resume paused campaigns',
+      description:
+        'Puts back pending sends and timeouts, each pushed back by the time the campaign spent paused.',
+      body: CampaignControlRequestSchema,
+      response: {
+        200: CampaignControlResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: CampaignControlBody }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const { reason, ...target } = request.body;
+      const result = await campaignControlService.resume(tenantId, user.id, target, reason);
+      return reply.send(result);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/stop`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Campaigns'],
+      summary: 'Stop campaigns',
+      description: 'Stops active or paused campaigns for good and cancels everything scheduled.',
+      body: CampaignControlRequestSchema,
+      response: {
+        200: CampaignControlResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: CampaignControlBody }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const { reason, ...target } = request.body;
+      const result = await campaignControlService.stop(tenantId, user.id, target, reason);
+      return reply.send(result);
+    },
+  });
+}
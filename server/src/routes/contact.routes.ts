@@ -208,7 +208,11 @@ export default async function contactRoutes(fastify: FastifyInstance) {
           return;
         }
 
-        if (error.message?.includes('required') || error.message?.includes('Invalid email')) {
+        if (
+          error.message?.includes('required') ||
+          error.message?.includes('Invalid email') ||
+          error.message?.includes('Invalid timezone')
+        ) {
           reply.status(400).send({
             message: 'Validation error',
             error: error.message,
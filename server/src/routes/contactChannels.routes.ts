@@ -0,0 +1,128 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import { contactChannelService, type AddContactChannelInput } from '@/modules/contactChannel';
+import {
+  ContactChannelCreateSchema,
+  ContactChannelListResponseSchema,
+  ContactChannelParamsSchema,
+  ContactChannelSchema,
+  ContactChannelsParamsSchema,
+} from './apiSchema/contactChannel';
+
+const basePath = '/leads/:leadId/contacts/:contactId/channels';
+
+type ChannelsParams = { leadId: string; contactId: string };
+type ChannelParams = ChannelsParams & { channelId: string };
+
+export default async function ContactChannelRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: basePath,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Contacts'],
+      summary: "List a contact's email addresses and phone numbers",
+      params: ContactChannelsParamsSchema,
+      response: {
+        200: ContactChannelListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest<{ Params: ChannelsParams }>, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const channels = await contactChannelService.listForContact(
+        tenantId,
+        request.params.contactId
+      );
+      return reply.send(channels);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: basePath,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Contacts'],
+      summary: 'Add an email address or phone number to a contact',
+      description:
+        'Emails are verified on add. The first address of a type, or one added with ' +
+        'isPrimary, becomes the primary that campaigns send to.',
+      params: ContactChannelsParamsSchema,
+      body: ContactChannelCreateSchema,
+      response: {
+        201: ContactChannelSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: ChannelsParams; Body: AddContactChannelInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const channel = await contactChannelService.addChannel(
+        tenantId,
+        request.params.contactId,
+        request.body
+      );
+      return reply.status(201).send(channel);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/:channelId/primary`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Contacts'],
+      summary: 'Make an address the primary for its channel',
+      params: ContactChannelParamsSchema,
+      response: {
+        200: ContactChannelSchema,
+      },
+    },
+    handler: async (request: FastifyRequest<{ Params: ChannelParams }>, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const { contactId, channelId } = request.params;
+      const channel = await contactChannelService.setPrimary(tenantId, contactId, channelId);
+      return reply.send(channel);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/:channelId/verify`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Contacts'],
+      summary: 'Re-verify an email address',
+      params: ContactChannelParamsSchema,
+      response: {
+        200: ContactChannelSchema,
+      },
+    },
+    handler: async (request: FastifyRequest<{ Params: ChannelParams }>, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const { contactId, channelId } = request.params;
+      const channel = await contactChannelService.verifyChannel(tenantId, contactId, channelId);
+      return reply.send(channel);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/:channelId`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Contacts'],
+      summary: 'Remove an address from a contact',
+      description: 'Removing the primary promotes the next verified address.',
+      params: ContactChannelParamsSchema,
+    },
+    handler: async (request: FastifyRequest<{ Params: ChannelParams }>, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const { contactId, channelId } = request.params;
+      await contactChannelService.removeChannel(tenantId, contactId, channelId);
+      return reply.status(204).send();
+    },
+  });
+}
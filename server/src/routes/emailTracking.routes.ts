@@ -0,0 +1,79 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { emailTrackingService } from '@/modules/emailTracking';
+import {
+  EmailTrackingClickQuerySchema,
+  EmailTrackingOpenQuerySchema,
+  EmailTrackingParamsSchema,
+} from './apiSchema/emailTracking';
+
+const basePath = '/track';
+
+// 1x1 transparent GIF
+const TRACKING_PIXEL = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64'
+);
+
+type TrackingParams = { tenantId: string; outboundMessageId: string };
+
+export default async function EmailTrackingRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/open/:tenantId/:outboundMessageId`,
+    schema: {
+      tags: ['Email Tracking'],
+      summary: 'Open tracking pixel',
+      description: 'Records an email open and returns a 1x1 transparent GIF.',
+      params: EmailTrackingParamsSchema,
+      querystring: EmailTrackingOpenQuerySchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: TrackingParams; Querystring: { sig?: string } }>,
+      reply: FastifyReply
+    ) => {
+      await emailTrackingService.recordOpen({
+        ...request.params,
+        signature: request.query.sig,
+        userAgent: request.headers['user-agent'],
+        ipAddress: request.ip,
+      });
+
+      // Always serve the pixel so a bad signature doesn't show a broken image
+      return reply
+        .header('Content-Type', 'image/gif')
+        .header('Cache-Control', 'no-store, no-cache, must-revalidate, max-age=0')
+        .send(TRACKING_PIXEL);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/click/:tenantId/:outboundMessageId`,
+    schema: {
+      tags: ['Email Tracking'],
+      summary: 'Click tracking redirect',
+      description: 'Records a link click and redirects to the original URL.',
+      params: EmailTrackingParamsSchema,
+      querystring: EmailTrackingClickQuerySchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: TrackingParams; Querystring: { u: string; sig?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const valid = await emailTrackingService.recordClick({
+        ...request.params,
+        url: request.query.u,
+        signature: request.query.sig,
+        userAgent: request.headers['user-agent'],
+        ipAddress: request.ip,
+      });
+
+      if (!valid) {
+        return reply.status(404).send({ error: 'Link not found' });
+      }
+
+      return reply.header('Cache-Control', 'no-store').redirect(request.query.u, 302);
+    },
+  });
+}
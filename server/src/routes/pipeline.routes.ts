@@ -0,0 +1,132 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import { pipelineService, type LeadDealInput, type PipelineStageInput } from '@/modules/pipeline';
+import {
+  LeadStageHistoryResponseSchema,
+  PipelineBoardQuerySchema,
+  PipelineBoardResponseSchema,
+  PipelineLeadParamsSchema,
+  PipelineStageListResponseSchema,
+  ReplacePipelineStagesRequestSchema,
+  UpdateLeadDealRequestSchema,
+  UpdateLeadDealResponseSchema,
+} from './apiSchema/pipeline';
+
+const basePath = '/pipeline';
+
+export default async function PipelineRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/stages`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Pipeline'],
+      summary: 'List the tenant’s sales pipeline stages in order',
+      response: {
+        200: PipelineStageListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const stages = await pipelineService.listStages(tenantId);
+      return reply.send(stages);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/stages`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Pipeline'],
+      summary: 'Replace the tenant’s sales pipeline stages',
+      description:
+        'Stages are saved in the order given. Stages left out are deleted and their leads move back to the first open stage.',
+      body: ReplacePipelineStagesRequestSchema,
+      response: {
+        200: PipelineStageListResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: { stages: PipelineStageInput[] } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const stages = await pipelineService.replaceStages(tenantId, request.body.stages);
+      return reply.send(stages);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/board`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Pipeline'],
+      summary: 'Leads grouped by pipeline stage',
+      querystring: PipelineBoardQuerySchema,
+      response: {
+        200: PipelineBoardResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: { ownerId?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const board = await pipelineService.getBoard(tenantId, request.query.ownerId);
+      return reply.send(board);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/leads/:leadId`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Pipeline'],
+      summary: 'Move a lead between stages or update its deal',
+      params: PipelineLeadParamsSchema,
+      body: UpdateLeadDealRequestSchema,
+      response: {
+        200: UpdateLeadDealResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { leadId: string }; Body: LeadDealInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const lead = await pipelineService.updateLeadDeal(
+        tenantId,
+        request.params.leadId,
+        request.body,
+        user.id
+      );
+      return reply.send(lead);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/leads/:leadId/history`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Pipeline'],
+      summary: 'Stage changes for a lead, newest first',
+      params: PipelineLeadParamsSchema,
+      response: {
+        200: LeadStageHistoryResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { leadId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const history = await pipelineService.getStageHistory(tenantId, request.params.leadId);
+      return reply.send(history);
+    },
+  });
+}
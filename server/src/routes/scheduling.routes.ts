@@ -6,22 +6,113 @@ import { schedulingSettingsService } from '@/modules/scheduling/SchedulingSettin
 import { bookingTokenService } from '@/modules/scheduling/BookingTokenService';
 import { availabilityService } from '@/modules/scheduling/AvailabilityService';
 import { lockService } from '@/modules/scheduling/LockService';
-import { schedulingService } from '@/modules/scheduling/SchedulingService';
+import { schedulingService, type MeetingOutcome } from '@/modules/scheduling/SchedulingService';
 import {
+  meetingTypeService,
+  type MeetingTypeInput,
+  type MeetingTypeQuestion,
+} from '@/modules/scheduling/MeetingTypeService';
+import {
+  schedulingPoolService,
+  type SchedulingPoolInput,
+  type SchedulingPoolWithMembers,
+} from '@/modules/scheduling/SchedulingPoolService';
+import { calendarConnectionService } from '@/modules/scheduling/calendar/CalendarConnectionService';
+import { CalendarConnection, ScheduledMeeting, UserScheduleSetting } from '@/db/schema';
+import {
+  AccountCalendarListResponseSchema,
   AvailabilityQuerySchema,
   AvailabilityResponseSchema,
+  BookedMeetingListResponseSchema,
+  BookedMeetingParamsSchema,
   BookingTokenParamsSchema,
+  CalendarConnectionCreateRequestSchema,
+  CalendarConnectionListResponseSchema,
+  CalendarConnectionParamsSchema,
+  CalendarConnectionResponseSchema,
+  CalendarConnectionUpdateRequestSchema,
+  ManagedMeetingResponseSchema,
+  MeetingTypeListResponseSchema,
+  MeetingTypeParamsSchema,
+  MeetingTypeRequestSchema,
+  MeetingTypeResponseSchema,
+  MeetingAvailabilityQuerySchema,
+  MeetingCancelRequestSchema,
+  MeetingLinkParamsSchema,
+  MeetingOutcomeRequestSchema,
+  MeetingOutcomeResponseSchema,
+  MeetingRescheduleRequestSchema,
   PublicBookingContextResponseSchema,
   ScheduleConfirmRequestSchema,
   ScheduleConfirmResponseSchema,
   ScheduleHoldRequestSchema,
   ScheduleHoldResponseSchema,
+  SchedulingPoolListResponseSchema,
+  SchedulingPoolParamsSchema,
+  SchedulingPoolRequestSchema,
+  SchedulingPoolResponseSchema,
   SchedulingSettingsRequestSchema,
   SchedulingSettingsResponseSchema,
 } from './apiSchema/scheduling';
 
 const basePath = '/schedule';
 
+// How far back and ahead the booked meetings list reaches
+const BOOKED_MEETINGS_WINDOW_DAYS = 30;
+
+const toSettingsResponse = (settings: UserScheduleSetting) => ({
+  ...settings,
+  noShowFollowUp: schedulingSettingsService.getNoShowFollowUp(settings),
+});
+
+const toManagedMeetingResponse = (meeting: ScheduledMeeting, timezone: string) => ({
+  meetingId: meeting.id,
+  status: meeting.status,
+  startTime: meeting.startTime.toISOString(),
+  endTime: meeting.endTime.toISOString(),
+  timezone,
+  contactName: (meeting.contactDetails as { name?: string }).name,
+});
+
+const toBookedMeetingResponse = (meeting: ScheduledMeeting) => {
+  const contact = meeting.contactDetails as { name?: string; email?: string };
+  return {
+    id: meeting.id,
+    status: meeting.status,
+    startTime: meeting.startTime.toISOString(),
+    endTime: meeting.endTime.toISOString(),
+    leadId: meeting.leadId,
+    contactId: meeting.contactId,
+    contactName: contact.name,
+    contactEmail: contact.email,
+  };
+};
+
+const toPoolResponse = (pool: SchedulingPoolWithMembers) => ({
+  id: pool.id,
+  name: pool.name,
+  mode: pool.mode,
+  assignmentStrategy: pool.assignmentStrategy,
+  meetingDurationMinutes: pool.meetingDurationMinutes,
+  members: pool.members.map((member) => ({
+    userId: member.userId,
+    userName: member.userName,
+    userEmail: member.userEmail,
+    position: member.position,
+  })),
+});
+
+const toCalendarResponse = (connection: CalendarConnection) => ({
+  id: connection.id,
+  provider: connection.provider,
+  providerCalendarId: connection.providerCalendarId,
+  displayName: connection.displayName,
+  primaryEmail: connection.primaryEmail,
+  checkForConflicts: connection.checkForConflicts,
+  isBookingCalendar: connection.isBookingCalendar,
+  reauthRequired: connection.reauthRequired,
+});
+
 export default async function SchedulingRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
   fastify.route({
     method: HttpMethods.GET,
@@ -37,7 +128,7 @@ export default async function SchedulingRoutes(fastify: FastifyInstance, _opts:
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       const { tenantId, user } = request as AuthenticatedRequest;
       const settings = await schedulingSettingsService.getForUser(tenantId, user.id);
-      return reply.send(settings);
+      return reply.send(toSettingsResponse(settings));
     },
   });
 
@@ -65,7 +156,370 @@ export default async function SchedulingRoutes(fastify: FastifyInstance, _opts:
         user.id,
         request.body
       );
-      return reply.send(settings);
+      return reply.send(toSettingsResponse(settings));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/booked-meetings`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'List the current user’s recent and upcoming booked meetings',
+      response: {
+        200: BookedMeetingListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const windowMs = BOOKED_MEETINGS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+      const meetings = await schedulingService.listMeetings(
+        tenantId,
+        user.id,
+        new Date(Date.now() - windowMs),
+        new Date(Date.now() + windowMs)
+      );
+      return reply.send(meetings.map(toBookedMeetingResponse));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/booked-meetings/:meetingId/outcome`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Mark a meeting held or no-show',
+      description:
+        'Only the host can mark a meeting once it has started. A no-show starts their re-engagement sequence for the contact when it is enabled.',
+      params: BookedMeetingParamsSchema,
+      body: MeetingOutcomeRequestSchema,
+      response: {
+        200: MeetingOutcomeResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{
+        Params: { meetingId: string };
+        Body: { outcome: MeetingOutcome };
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const result = await schedulingService.recordOutcome(
+        tenantId,
+        user.id,
+        request.params.meetingId,
+        request.body.outcome
+      );
+      return reply.send({
+        meeting: toBookedMeetingResponse(result.meeting),
+        followUpStarted: result.followUpStarted,
+      });
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/meeting-types`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'List the current user’s meeting types',
+      response: {
+        200: MeetingTypeListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const meetingTypes = await meetingTypeService.listForUser(tenantId, user.id);
+      return reply.send(meetingTypes);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/meeting-types`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Add a meeting type',
+      description:
+        'Campaign send nodes link to a meeting type by its slug through their `meetingType` field.',
+      body: MeetingTypeRequestSchema,
+      response: {
+        201: MeetingTypeResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest<{ Body: MeetingTypeInput }>, reply: FastifyReply) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const meetingType = await meetingTypeService.createForUser(tenantId, user.id, request.body);
+      return reply.status(201).send(meetingType);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/meeting-types/:meetingTypeId`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Update a meeting type',
+      params: MeetingTypeParamsSchema,
+      body: MeetingTypeRequestSchema,
+      response: {
+        200: MeetingTypeResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { meetingTypeId: string }; Body: MeetingTypeInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const meetingType = await meetingTypeService.updateForUser(
+        tenantId,
+        user.id,
+        request.params.meetingTypeId,
+        request.body
+      );
+      return reply.send(meetingType);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/meeting-types/:meetingTypeId`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Delete a meeting type',
+      description: 'Links already sent for the type book the default meeting instead.',
+      params: MeetingTypeParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { meetingTypeId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      await meetingTypeService.deleteForUser(tenantId, user.id, request.params.meetingTypeId);
+      return reply.status(204).send();
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/calendars`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'List the current user’s attached calendars',
+      description:
+        'Busy time on every calendar with `checkForConflicts` blocks booking slots. New meetings are added to the one `isBookingCalendar` calendar.',
+      response: {
+        200: CalendarConnectionListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const connections = await calendarConnectionService.listForUser(tenantId, user.id);
+      return reply.send(connections.map(toCalendarResponse));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/calendars/:connectionId/account-calendars`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'List the calendars of the account behind an attached calendar',
+      params: CalendarConnectionParamsSchema,
+      response: {
+        200: AccountCalendarListResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { connectionId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const calendars = await calendarConnectionService.listAccountCalendars(
+        tenantId,
+        user.id,
+        request.params.connectionId
+      );
+      return reply.send(calendars);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/calendars`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Attach another calendar of a connected account',
+      body: CalendarConnectionCreateRequestSchema,
+      response: {
+        201: CalendarConnectionResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: { connectionId: string; providerCalendarId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const connection = await calendarConnectionService.addCalendar(
+        tenantId,
+        user.id,
+        request.body
+      );
+      return reply.status(201).send(toCalendarResponse(connection));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/calendars/:connectionId`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Choose how an attached calendar is used',
+      params: CalendarConnectionParamsSchema,
+      body: CalendarConnectionUpdateRequestSchema,
+      response: {
+        200: CalendarConnectionResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{
+        Params: { connectionId: string };
+        Body: { checkForConflicts?: boolean; isBookingCalendar?: boolean };
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const connection = await calendarConnectionService.updateCalendar(
+        tenantId,
+        user.id,
+        request.params.connectionId,
+        request.body
+      );
+      return reply.send(toCalendarResponse(connection));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/calendars/:connectionId`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Detach a calendar',
+      description:
+        'When the calendar received new meetings, the longest-attached remaining calendar takes over.',
+      params: CalendarConnectionParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { connectionId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      await calendarConnectionService.removeCalendar(
+        tenantId,
+        user.id,
+        request.params.connectionId
+      );
+      return reply.status(204).send();
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/pools`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'List team scheduling pools',
+      response: {
+        200: SchedulingPoolListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const pools = await schedulingPoolService.listPools(tenantId);
+      return reply.send(pools.map(toPoolResponse));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/pools`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Add a team scheduling pool',
+      description:
+        'Round-robin pools offer any member’s free time and assign one host per meeting; collective pools only offer times when every member is free.',
+      body: SchedulingPoolRequestSchema,
+      response: {
+        201: SchedulingPoolResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: SchedulingPoolInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const pool = await schedulingPoolService.createPool(tenantId, request.body);
+      return reply.status(201).send(toPoolResponse(pool));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/pools/:poolId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Update a team scheduling pool',
+      params: SchedulingPoolParamsSchema,
+      body: SchedulingPoolRequestSchema,
+      response: {
+        200: SchedulingPoolResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { poolId: string }; Body: SchedulingPoolInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const pool = await schedulingPoolService.updatePool(
+        tenantId,
+        request.params.poolId,
+        request.body
+      );
+      return reply.send(toPoolResponse(pool));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/pools/:poolId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Delete a team scheduling pool',
+      params: SchedulingPoolParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { poolId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      await schedulingPoolService.deletePool(tenantId, request.params.poolId);
+      return reply.status(204).send();
     },
   });
 
@@ -104,7 +558,18 @@ export default async function SchedulingRoutes(fastify: FastifyInstance, _opts:
       return reply.send({
         tokenId: context.token.id,
         timezone: settings.timezone,
-        meetingDurationMinutes: settings.meetingDurationMinutes,
+        meetingDurationMinutes:
+          context.meetingType?.durationMinutes ??
+          context.pool?.meetingDurationMinutes ??
+          settings.meetingDurationMinutes,
+        teamName: context.pool?.name,
+        meetingType: context.meetingType && {
+          name: context.meetingType.name,
+          description: context.meetingType.description ?? undefined,
+          locationType: context.meetingType.locationType,
+          location: context.meetingType.location ?? undefined,
+          questions: context.meetingType.questions as MeetingTypeQuestion[],
+        },
         lead: context.lead,
         contact: {
           id: context.contact.id,
@@ -179,7 +644,7 @@ export default async function SchedulingRoutes(fastify: FastifyInstance, _opts:
       const context = await bookingTokenService.resolve(request.body.token);
       const hold = await lockService.hold({
         tenantId: context.token.tenantId,
-        userId: context.token.userId,
+        userId: bookingTokenService.holdOwnerId(context.token),
         tokenId: context.token.id,
         slot: request.body.slot,
       });
@@ -219,7 +684,12 @@ export default async function SchedulingRoutes(fastify: FastifyInstance, _opts:
           token: string;
           holdId: string;
           slot: string;
-          contactDetails: { name: string; email: string; phone?: string };
+          contactDetails: {
+            name: string;
+            email: string;
+            phone?: string;
+            answers?: Record<string, string>;
+          };
         };
       }>,
       reply: FastifyReply
@@ -237,4 +707,125 @@ export default async function SchedulingRoutes(fastify: FastifyInstance, _opts:
       });
     },
   });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/meetings/:token`,
+    config: {
+      rateLimit: {
+        max: 60,
+        timeWindow: '1 minute',
+      },
+    },
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Resolve a signed meeting link',
+      description: 'Used by the reschedule and cancel links in the booking confirmation email',
+      params: MeetingLinkParamsSchema,
+      response: {
+        200: ManagedMeetingResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { token: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { meeting, timezone } = await schedulingService.getManagedMeeting(request.params.token);
+      return reply.send(toManagedMeetingResponse(meeting, timezone));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/meetings/:token/availability`,
+    config: {
+      rateLimit: {
+        max: 60,
+        timeWindow: '1 minute',
+      },
+    },
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Get availability for rescheduling a meeting',
+      params: MeetingLinkParamsSchema,
+      querystring: MeetingAvailabilityQuerySchema,
+      response: {
+        200: AvailabilityResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{
+        Params: { token: string };
+        Querystring: { startDate: string; endDate: string };
+      }>,
+      reply: FastifyReply
+    ) => {
+      const availability = await schedulingService.getRescheduleAvailability(
+        request.params.token,
+        request.query.startDate,
+        request.query.endDate
+      );
+      return reply.send(availability);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/meetings/:token/reschedule`,
+    config: {
+      rateLimit: {
+        max: 20,
+        timeWindow: '1 minute',
+      },
+    },
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Move a booked meeting to another slot',
+      params: MeetingLinkParamsSchema,
+      body: MeetingRescheduleRequestSchema,
+      response: {
+        200: ManagedMeetingResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { token: string }; Body: { slot: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { meeting, timezone } = await schedulingService.rescheduleMeeting(
+        request.params.token,
+        request.body.slot
+      );
+      return reply.send(toManagedMeetingResponse(meeting, timezone));
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/meetings/:token/cancel`,
+    config: {
+      rateLimit: {
+        max: 20,
+        timeWindow: '1 minute',
+      },
+    },
+    schema: {
+      tags: ['Scheduling'],
+      summary: 'Cancel a booked meeting',
+      params: MeetingLinkParamsSchema,
+      body: MeetingCancelRequestSchema,
+      response: {
+        200: ManagedMeetingResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { token: string }; Body: { reason?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { meeting, timezone } = await schedulingService.cancelMeeting(
+        request.params.token,
+        request.body.reason
+      );
+      return reply.send(toManagedMeetingResponse(meeting, timezone));
+    },
+  });
 }
@@ -0,0 +1,90 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import { sendRateLimitService, type SendRateLimitInput } from '@/modules/sendRateLimit';
+import {
+  SendRateLimitListResponseSchema,
+  SendRateLimitParamsSchema,
+  SendRateLimitRequestSchema,
+  SendRateLimitResponseSchema,
+  SendRateLimitUsageResponseSchema,
+} from './apiSchema/sendRateLimit';
+
+const basePath = '/send-rate-limits';
+
+export default async function SendRateLimitRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: basePath,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Send Rate Limits'],
+      summary: 'List send rate limits for the tenant',
+      response: {
+        200: SendRateLimitListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const limits = await sendRateLimitService.listLimits(tenantId);
+      return reply.send(limits);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: basePath,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Send Rate Limits'],
+      summary: 'Create or update the send rate limit for a channel and scope',
+      body: SendRateLimitRequestSchema,
+      response: {
+        200: SendRateLimitResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest<{ Body: SendRateLimitInput }>, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const limit = await sendRateLimitService.upsertLimit(tenantId, request.body);
+      return reply.send(limit);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/:limitId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Send Rate Limits'],
+      summary: 'Delete a send rate limit',
+      params: SendRateLimitParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { limitId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      await sendRateLimitService.deleteLimit(tenantId, request.params.limitId);
+      return reply.status(204).send();
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/usage`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Send Rate Limits'],
+      summary: 'Current usage of each send rate limit',
+      description: 'Identity-scoped limits report one row per connected mail account.',
+      response: {
+        200: SendRateLimitUsageResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const usage = await sendRateLimitService.getUsage(tenantId);
+      return reply.send(usage);
+    },
+  });
+}
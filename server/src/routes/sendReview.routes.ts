@@ -0,0 +1,165 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import { sendReviewService, type SendReviewPolicy } from '@/modules/sendReview';
+import type { MessageContent } from '@/modules/templates';
+import {
+  ReviewActionResponseSchema,
+  ReviewApproveRequestSchema,
+  ReviewMessageListResponseSchema,
+  ReviewMessageParamsSchema,
+  ReviewMessageQuerySchema,
+  ReviewMessageResponseSchema,
+  ReviewMessageUpdateRequestSchema,
+  ReviewRejectRequestSchema,
+  SendReviewPolicyRequestSchema,
+  SendReviewPolicyResponseSchema,
+} from './apiSchema/sendReview';
+
+const basePath = '/send-review';
+
+export default async function SendReviewRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/policy`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Send Review'],
+      summary: 'Get the tenant’s pre-send review policy',
+      response: {
+        200: SendReviewPolicyResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const policy = await sendReviewService.getPolicy(tenantId);
+      return reply.send({ policy });
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/policy`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Send Review'],
+      summary: 'Set the tenant’s pre-send review policy',
+      description:
+        'Applies to sends from now on. Turning review off does not release messages already waiting; approve or reject them.',
+      body: SendReviewPolicyRequestSchema,
+      response: {
+        200: SendReviewPolicyResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: { policy: SendReviewPolicy } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const policy = await sendReviewService.setPolicy(tenantId, request.body.policy);
+      return reply.send({ policy });
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/messages`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Send Review'],
+      summary: 'List messages waiting for review',
+      querystring: ReviewMessageQuerySchema,
+      response: {
+        200: ReviewMessageListResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: { ownerId?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const messages = await sendReviewService.listPending(tenantId, request.query.ownerId);
+      return reply.send(messages);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/messages/:messageId`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Send Review'],
+      summary: 'Edit a message waiting for review',
+      description: 'Template variables and snippets are filled in on save.',
+      params: ReviewMessageParamsSchema,
+      body: ReviewMessageUpdateRequestSchema,
+      response: {
+        200: ReviewMessageResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { messageId: string }; Body: MessageContent }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const message = await sendReviewService.updateContent(
+        tenantId,
+        request.params.messageId,
+        request.body
+      );
+      return reply.send(message);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/messages/approve`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Send Review'],
+      summary: 'Approve messages for sending',
+      description:
+        'Each approved message is sent in the contact’s next send window, then its sequence continues.',
+      body: ReviewApproveRequestSchema,
+      response: {
+        200: ReviewActionResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: { messageIds: string[] } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const result = await sendReviewService.approve(tenantId, user.id, request.body.messageIds);
+      return reply.send(result);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/messages/reject`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Send Review'],
+      summary: 'Reject messages',
+      description: 'Rejected messages are never sent and each contact’s sequence is stopped.',
+      body: ReviewRejectRequestSchema,
+      response: {
+        200: ReviewActionResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: { messageIds: string[]; reason?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const result = await sendReviewService.reject(
+        tenantId,
+        user.id,
+        request.body.messageIds,
+        request.body.reason
+      );
+      return reply.send(result);
+    },
+  });
+}
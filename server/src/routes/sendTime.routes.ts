@@ -0,0 +1,54 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import { sendTimeService, type SendTimeSettingsInput } from '@/modules/sendTime';
+import {
+  SendTimeSettingsRequestSchema,
+  SendTimeSettingsResponseSchema,
+} from './apiSchema/sendTime';
+
+const basePath = '/send-time-settings';
+
+export default async function SendTimeRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: basePath,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Send Time'],
+      summary: 'Get send-time optimization settings for the tenant',
+      response: {
+        200: SendTimeSettingsResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const settings = await sendTimeService.getSettings(tenantId);
+      return reply.send(settings);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: basePath,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Send Time'],
+      summary: 'Update send-time optimization settings',
+      description:
+        'Windows are in each contact’s local time. Learned windows replace them once enough engagement has been recorded, unless learning is turned off.',
+      body: SendTimeSettingsRequestSchema,
+      response: {
+        200: SendTimeSettingsResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: SendTimeSettingsInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const settings = await sendTimeService.updateSettings(tenantId, request.body);
+      return reply.send(settings);
+    },
+  });
+}
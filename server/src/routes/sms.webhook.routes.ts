@@ -0,0 +1,153 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { logger } from '@/libs/logger';
+import { API_URL } from '@/config';
+import { SMS_CONFIG } from '@/config/sms.config';
+import { TwilioSmsClient } from '@/libs/sms/strategies/twilio.sms.client';
+import { buildSmsStatusCallbackUrl, inboundSmsService, smsStatusService } from '@/modules/sms';
+
+const basePath = '/webhooks/sms';
+
+// Empty TwiML: acknowledge without sending an automatic reply
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response/>';
+
+/**
+ * Checks the provider's request signature against the URL the callback was sent to
+ */
+const hasValidSignature = (
+  request: FastifyRequest,
+  url: string,
+  params: Record<string, string>
+): boolean => {
+  const signature = request.headers['x-twilio-signature'];
+  return TwilioSmsClient.validateSignature(
+    SMS_CONFIG.TWILIO_AUTH_TOKEN,
+    url,
+    params,
+    typeof signature === 'string' ? signature : undefined
+  );
+};
+
+export default async function SmsWebhookRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  // Only a provider that signs its webhooks can post here; without one the endpoints
+  // would let anyone opt numbers out or fire delivered transitions
+  if (SMS_CONFIG.PROVIDER !== 'twilio') {
+    logger.info('[SmsWebhook] SMS webhooks not registered for provider', {
+      provider: SMS_CONFIG.PROVIDER,
+    });
+    return;
+  }
+
+  // The provider posts form-encoded parameters; keep them as plain strings for signature checks
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    async (_request: FastifyRequest, payload: string) =>
+      Object.fromEntries(new URLSearchParams(payload))
+  );
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/inbound`,
+    schema: {
+      description: 'Inbound SMS webhook. STOP/START keywords update SMS opt-outs.',
+      tags: ['Webhooks', 'SMS'],
+      summary: 'Receive an inbound SMS',
+    },
+    bodyLimit: 1024 * 1024,
+    handler: async (
+      request: FastifyRequest<{ Body: Record<string, string> }>,
+      reply: FastifyReply
+    ) => {
+      const params = request.body ?? {};
+
+      if (!hasValidSignature(request, `${API_URL}/api${basePath}/inbound`, params)) {
+        logger.warn('[SmsWebhook] Invalid inbound SMS signature', {
+          requestId: request.id,
+          ip: request.ip,
+        });
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'Invalid webhook signature',
+        });
+      }
+
+      let sms;
+      try {
+        sms = TwilioSmsClient.parseInbound(params);
+      } catch (error) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: error instanceof Error ? error.message : 'Invalid inbound SMS payload',
+        });
+      }
+
+      const result = await inboundSmsService.handleInboundSms(sms);
+
+      logger.info('[SmsWebhook] Inbound SMS processed', {
+        requestId: request.id,
+        providerMessageId: sms.providerMessageId,
+        ...result,
+      });
+
+      return reply.header('Content-Type', 'text/xml').send(EMPTY_TWIML);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/status/:tenantId/:outboundMessageId`,
+    schema: {
+      description:
+        "SMS status callback, registered per message at send time. Delivered texts fire the node's delivered transition.",
+      tags: ['Webhooks', 'SMS'],
+      summary: 'Receive an SMS delivery status',
+    },
+    bodyLimit: 1024 * 1024,
+    handler: async (
+      request: FastifyRequest<{
+        Params: { tenantId: string; outboundMessageId: string };
+        Body: Record<string, string>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      const params = request.body ?? {};
+      const { tenantId, outboundMessageId } = request.params;
+
+      if (
+        !hasValidSignature(request, buildSmsStatusCallbackUrl(tenantId, outboundMessageId), params)
+      ) {
+        logger.warn('[SmsWebhook] Invalid SMS status signature', {
+          requestId: request.id,
+          ip: request.ip,
+        });
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'Invalid webhook signature',
+        });
+      }
+
+      let update;
+      try {
+        update = TwilioSmsClient.parseStatus(params);
+      } catch (error) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: error instanceof Error ? error.message : 'Invalid SMS status payload',
+        });
+      }
+
+      const result = await smsStatusService.handleStatus(tenantId, outboundMessageId, update);
+
+      logger.info('[SmsWebhook] SMS status processed', {
+        requestId: request.id,
+        tenantId,
+        outboundMessageId,
+        status: update.status,
+        ...result,
+      });
+
+      return reply.status(204).send();
+    },
+  });
+}
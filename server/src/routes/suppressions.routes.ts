@@ -0,0 +1,167 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import {
+  suppressionService,
+  type SuppressionImportOptions,
+  type SuppressionInput,
+  type SuppressionListFilters,
+} from '@/modules/suppression';
+import {
+  SuppressionCreateSchema,
+  SuppressionExportQuerySchema,
+  SuppressionImportResponseSchema,
+  SuppressionImportSchema,
+  SuppressionListQuerySchema,
+  SuppressionListResponseSchema,
+  SuppressionParamsSchema,
+  SuppressionSchema,
+  SuppressionUpdateSchema,
+} from './apiSchema/suppression';
+
+const basePath = '/suppressions';
+
+export default async function SuppressionRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: basePath,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Suppressions'],
+      summary: 'List suppressed addresses and domains',
+      querystring: SuppressionListQuerySchema,
+      response: {
+        200: SuppressionListResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Querystring: SuppressionListFilters }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const result = await suppressionService.listSuppressions(tenantId, request.query);
+      return reply.send(result);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: basePath,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Suppressions'],
+      summary: 'Suppress an address or domain',
+      description: 'Adding an address that is already suppressed replaces its reason and expiry.',
+      body: SuppressionCreateSchema,
+      response: {
+        201: SuppressionSchema,
+      },
+    },
+    handler: async (request: FastifyRequest<{ Body: SuppressionInput }>, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const suppression = await suppressionService.addSuppression(tenantId, request.body);
+      return reply.status(201).send(suppression);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PATCH,
+    url: `${basePath}/:suppressionId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Suppressions'],
+      summary: 'Update the reason or expiry of a suppression',
+      params: SuppressionParamsSchema,
+      body: SuppressionUpdateSchema,
+      response: {
+        200: SuppressionSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{
+        Params: { suppressionId: string };
+        Body: Pick<SuppressionInput, 'reason' | 'expiresAt'>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const suppression = await suppressionService.updateSuppression(
+        tenantId,
+        request.params.suppressionId,
+        request.body
+      );
+      return reply.send(suppression);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/:suppressionId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Suppressions'],
+      summary: 'Remove a suppression',
+      params: SuppressionParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { suppressionId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      await suppressionService.removeSuppression(tenantId, request.params.suppressionId);
+      return reply.status(204).send();
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/import`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    bodyLimit: 10 * 1024 * 1024,
+    schema: {
+      tags: ['Suppressions'],
+      summary: 'Import a suppression list from CSV',
+      description:
+        'Reads address, channel, reason and expires_at columns when the file has a header row, ' +
+        'otherwise the first column as the address. channel, reason and expiresAt in the body ' +
+        'apply to rows that leave them out.',
+      body: SuppressionImportSchema,
+      response: {
+        200: SuppressionImportResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: SuppressionImportOptions & { csv: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const { csv, ...options } = request.body;
+      const result = await suppressionService.importCsv(tenantId, csv, options);
+      return reply.send(result);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/export`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Suppressions'],
+      summary: 'Export the suppression list as CSV',
+      querystring: SuppressionExportQuerySchema,
+    },
+    handler: async (
+      request: FastifyRequest<{
+        Querystring: Pick<SuppressionListFilters, 'channel' | 'reason' | 'includeExpired'>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const csv = await suppressionService.exportCsv(tenantId, request.query);
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', 'attachment; filename="suppressions.csv"')
+        .send(csv);
+    },
+  });
+}
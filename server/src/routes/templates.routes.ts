@@ -0,0 +1,238 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { HttpMethods } from '@/utils/HttpMethods';
+import { AuthenticatedRequest } from '@/plugins/authentication.plugin';
+import {
+  templateService,
+  type EmailSnippetInput,
+  type EmailTemplateInput,
+  type MessageContent,
+} from '@/modules/templates';
+import {
+  EmailSnippetListResponseSchema,
+  EmailSnippetParamsSchema,
+  EmailSnippetRequestSchema,
+  EmailSnippetResponseSchema,
+  EmailTemplateListResponseSchema,
+  EmailTemplateParamsSchema,
+  EmailTemplateRequestSchema,
+  EmailTemplateResponseSchema,
+  TemplatePreviewRequestSchema,
+  TemplatePreviewResponseSchema,
+  TemplateVariableListResponseSchema,
+} from './apiSchema/templates';
+
+const basePath = '/templates';
+
+export default async function TemplateRoutes(fastify: FastifyInstance, _opts: RouteOptions) {
+  fastify.route({
+    method: HttpMethods.GET,
+    url: basePath,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Templates'],
+      summary: 'List the tenant’s email templates',
+      response: {
+        200: EmailTemplateListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const templates = await templateService.listTemplates(tenantId);
+      return reply.send(templates);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: basePath,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Add an email template',
+      description:
+        'Subject and body may use {{variables}} from GET /templates/variables and {{snippet.<key>}}. Unknown variables are rejected.',
+      body: EmailTemplateRequestSchema,
+      response: {
+        201: EmailTemplateResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest<{ Body: EmailTemplateInput }>, reply: FastifyReply) => {
+      const { tenantId, user } = request as AuthenticatedRequest;
+      const template = await templateService.createTemplate(tenantId, user.id, request.body);
+      return reply.status(201).send(template);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/:templateId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Update an email template',
+      params: EmailTemplateParamsSchema,
+      body: EmailTemplateRequestSchema,
+      response: {
+        200: EmailTemplateResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { templateId: string }; Body: EmailTemplateInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const template = await templateService.updateTemplate(
+        tenantId,
+        request.params.templateId,
+        request.body
+      );
+      return reply.send(template);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/:templateId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Delete an email template',
+      description: 'Campaigns that already copied the template keep their copy.',
+      params: EmailTemplateParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { templateId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      await templateService.deleteTemplate(tenantId, request.params.templateId);
+      return reply.status(204).send();
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/snippets`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Templates'],
+      summary: 'List the tenant’s reusable snippets',
+      response: {
+        200: EmailSnippetListResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const snippets = await templateService.listSnippets(tenantId);
+      return reply.send(snippets);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/snippets`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Add a reusable snippet such as a signature or call to action',
+      body: EmailSnippetRequestSchema,
+      response: {
+        201: EmailSnippetResponseSchema,
+      },
+    },
+    handler: async (request: FastifyRequest<{ Body: EmailSnippetInput }>, reply: FastifyReply) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const snippet = await templateService.createSnippet(tenantId, request.body);
+      return reply.status(201).send(snippet);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.PUT,
+    url: `${basePath}/snippets/:snippetId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Update a snippet',
+      description: 'Changes apply to every message sent from now on that uses the snippet.',
+      params: EmailSnippetParamsSchema,
+      body: EmailSnippetRequestSchema,
+      response: {
+        200: EmailSnippetResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { snippetId: string }; Body: EmailSnippetInput }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const snippet = await templateService.updateSnippet(
+        tenantId,
+        request.params.snippetId,
+        request.body
+      );
+      return reply.send(snippet);
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.DELETE,
+    url: `${basePath}/snippets/:snippetId`,
+    preHandler: [fastify.authPrehandler, fastify.requireAdmin()],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Delete a snippet',
+      description:
+        'Scheduled messages that still use the snippet will fail to render and not send.',
+      params: EmailSnippetParamsSchema,
+    },
+    handler: async (
+      request: FastifyRequest<{ Params: { snippetId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      await templateService.deleteSnippet(tenantId, request.params.snippetId);
+      return reply.status(204).send();
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.GET,
+    url: `${basePath}/variables`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Variables templates and campaign messages may use',
+      response: {
+        200: TemplateVariableListResponseSchema,
+      },
+    },
+    handler: async (_request: FastifyRequest, reply: FastifyReply) => {
+      return reply.send(templateService.getVariables());
+    },
+  });
+
+  fastify.route({
+    method: HttpMethods.POST,
+    url: `${basePath}/preview`,
+    preHandler: [fastify.authPrehandler],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Render a subject and body for a contact without sending',
+      description: 'Returns 400 listing every placeholder that could not be filled.',
+      body: TemplatePreviewRequestSchema,
+      response: {
+        200: TemplatePreviewResponseSchema,
+      },
+    },
+    handler: async (
+      request: FastifyRequest<{ Body: MessageContent & { contactId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { tenantId } = request as AuthenticatedRequest;
+      const { contactId, ...content } = request.body;
+      const rendered = await templateService.previewMessage(tenantId, contactId, content);
+      return reply.send(rendered);
+    },
+  });
+}
@@ -1,4 +1,8 @@
-import type { CampaignPlanOutput } from '../modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import type { ContactCampaign } from '../db/schema';
+import type {
+  CampaignPlanNode,
+  CampaignPlanOutput,
+} from '../modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
 
 export interface ProcessTransitionParams {
   tenantId: string;
@@ -8,6 +12,77 @@ export interface ProcessTransitionParams {
   eventType: string;
   currentNodeId: string;
   plan: CampaignPlanOutput;
+  // Channel the event came from; events from another channel don't move the current node
+  channel?: CampaignPlanNode['channel'];
+}
+
+export type ProcessReplyParams = Omit<ProcessTransitionParams, 'eventType' | 'channel'>;
+
+export interface StopCampaignParams {
+  tenantId: string;
+  campaignId: string;
+  currentNodeId: string;
+  reason: string;
+  fromStatus?: 'active' | 'paused'; // Defaults to active
+  createdBy?: string; // User who stopped it by hand
+}
+
+export interface PauseCampaignParams {
+  tenantId: string;
+  campaignId: string;
+  currentNodeId: string;
+  reason: string;
+  resumeAt: Date;
+}
+
+export interface PauseCampaignResult {
+  transitionId: string;
+  resumeAt: Date;
+  resumeJobId: string;
+}
+
+export interface ManualPauseParams {
+  tenantId: string;
+  campaignId: string;
+  currentNodeId: string;
+  reason: string;
+  createdBy?: string;
+}
+
+export interface ManualResumeParams {
+  tenantId: string;
+  campaign: ContactCampaign; // Paused by `pauseUntilResumed`
+  reason: string;
+  createdBy?: string;
+}
+
+export interface ManualResumeResult {
+  transitionId: string;
+  pausedForMs: number;
+  rescheduledActions: number;
+}
+
+export interface ResumeCampaignParams {
+  tenantId: string;
+  campaignId: string;
+  contactId: string;
+  leadId: string;
+  currentNodeId: string;
+  plan: CampaignPlanOutput;
+  reason: string;
+  // Re-run the current node's action; false when its message already went out
+  rescheduleNode: boolean;
+}
+
+export interface RetrySendAfterBounceParams {
+  tenantId: string;
+  campaignId: string;
+  contactId: string;
+  leadId: string;
+  currentNodeId: string;
+  plan: CampaignPlanOutput;
+  // Address the campaign falls back to
+  fallbackAddress: string;
 }
 
 export interface TransitionResult {
@@ -23,7 +98,7 @@ export interface TransitionResult {
 
 export interface NextActionResult {
   scheduled: boolean;
-  actionType?: 'send' | 'wait' | 'stop';
+  actionType?: 'send' | 'wait' | 'stop' | 'task';
   scheduledAt?: Date;
   scheduledActionId?: string;
   nodeId?: string;
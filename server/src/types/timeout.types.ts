@@ -3,13 +3,13 @@ export interface TimeoutJobPayload {
   campaignId: string;
   nodeId: string;
   messageId: string;
-  eventType: 'no_open' | 'no_click';
+  eventType: 'no_open' | 'no_click' | 'no_reply';
 }
 
 export interface TimeoutJobParams {
   campaignId: string;
   nodeId: string;
   messageId: string;
-  eventType: 'no_open' | 'no_click';
+  eventType: 'no_open' | 'no_click' | 'no_reply';
   scheduledAt: Date;
 }
@@ -0,0 +1,71 @@
+/**
+ * Minimal RFC 4180 CSV helpers for admin imports and exports
+ */
+
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields, escaped quotes ("")
+ * and CRLF/LF line endings. Blank lines are dropped.
+ *
+ * @param text - Raw CSV content
+ * @returns Rows of raw field values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Serializes rows to CSV, quoting only the fields that need it.
+ *
+ * @param rows - Rows of field values; null/undefined become empty fields
+ * @returns CSV text terminated by a newline
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  const escape = (value: string | number | null | undefined): string => {
+    if (value === null || value === undefined) return '';
+    const str = String(value);
+    return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+
+  return rows.map((row) => row.map(escape).join(',')).join('\n') + '\n';
+}
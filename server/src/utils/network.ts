@@ -11,3 +11,36 @@ export function getNetworkAddress() {
   }
   return 'localhost';
 }
+
+const ipv4ToInt = (ip: string): number | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+};
+
+/**
+ * Checks whether an IPv4 address falls inside any of the given CIDR ranges
+ * (e.g. `40.107.0.0/16`). IPv4-mapped IPv6 addresses are accepted; other IPv6
+ * addresses never match.
+ */
+export function isIpInRanges(ip: string | null | undefined, cidrs: readonly string[]): boolean {
+  const address = ipv4ToInt((ip ?? '').replace(/^::ffff:/i, ''));
+  if (address === null) return false;
+
+  return cidrs.some((cidr) => {
+    const [range, bitsText] = cidr.split('/');
+    const base = ipv4ToInt(range ?? '');
+    const bits = bitsText === undefined ? 32 : Number(bitsText);
+    if (base === null || !(bits >= 0 && bits <= 32)) return false;
+
+    const size = 2 ** (32 - bits);
+    return Math.floor(address / size) === Math.floor(base / size);
+  });
+}
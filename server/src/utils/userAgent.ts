@@ -39,3 +39,32 @@ export function getUserAgentFromRequest(request: FastifyRequest): UserAgent {
     sessionIpAddress,
   };
 }
+
+// User agents of mail security gateways, link scanners and HTTP libraries. Gmail's image
+// proxy (GoogleImageProxy) is deliberately absent: it only fetches when the recipient opens.
+const SCANNER_USER_AGENTS: { name: string; pattern: RegExp }[] = [
+  { name: 'proofpoint', pattern: /proofpoint/i },
+  { name: 'mimecast', pattern: /mimecast/i },
+  { name: 'barracuda', pattern: /barracuda/i },
+  { name: 'microsoft_safe_links', pattern: /safelinks|microsoft office existence discovery/i },
+  { name: 'cisco_ironport', pattern: /ironport|cisco/i },
+  { name: 'symantec', pattern: /symantec|messagelabs/i },
+  { name: 'trend_micro', pattern: /trendmicro|trend micro/i },
+  { name: 'forcepoint', pattern: /forcepoint|websense/i },
+  { name: 'headless_browser', pattern: /headlesschrome|phantomjs|puppeteer|playwright/i },
+  {
+    name: 'http_library',
+    pattern:
+      /^(python-requests|python-urllib|curl|wget|go-http-client|java\/|okhttp|axios|node-fetch|libwww-perl)/i,
+  },
+  { name: 'crawler', pattern: /\b(bot|crawler|spider|scanner|preview)\b/i },
+];
+
+/**
+ * Returns the name of the scanner or automated client a user agent belongs to, or null
+ * when it looks like a real mail client or browser.
+ */
+export function detectScannerUserAgent(userAgent: string | null | undefined): string | null {
+  if (!userAgent) return null;
+  return SCANNER_USER_AGENTS.find(({ pattern }) => pattern.test(userAgent))?.name ?? null;
+}
@@ -29,6 +29,14 @@ jest.mock('@/modules/email', () => ({
   },
 }));
 
+jest.mock('@/modules/sendReview', () => ({
+  sendReviewService: {
+    requiresReview: jest.fn().mockResolvedValue(false),
+    holdForReview: jest.fn(),
+    getReviewedContent: jest.fn(),
+  },
+}));
+
 jest.mock('@/libs/logger', () => ({
   logger: {
     info: jest.fn(),
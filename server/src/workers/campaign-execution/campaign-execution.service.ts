@@ -1,12 +1,29 @@
-import type { Job } from 'bullmq';
+import { DelayedError, type Job } from 'bullmq';
 import { logger } from '@/libs/logger';
-import { contactCampaignRepository, leadPointOfContactRepository } from '@/repositories';
+import {
+  contactCampaignRepository,
+  leadPointOfContactRepository,
+  scheduledActionRepository,
+  type PausedJob,
+} from '@/repositories';
+import type { ContactCampaign } from '@/db/schema';
 import type { CampaignExecutionJobPayload } from '@/modules/messages/campaignExecution.publisher.service';
 import {
   CampaignPlanNode,
   CampaignPlanOutput,
 } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
-import { EmailExecutionService } from './email-execution.service';
+import { blackoutService } from '@/modules/blackout';
+import { sendTimeService } from '@/modules/sendTime';
+import { pipelineService } from '@/modules/pipeline';
+import { abTestService } from '@/modules/abTest';
+import { getStepKey } from '@/modules/campaign/planVariants';
+import { toLocalDateString } from '@/modules/campaign/scheduleUtils';
+import {
+  EmailExecutionService,
+  HELD_SKIP_REASONS,
+  type EmailExecutionResult,
+} from './email-execution.service';
+import { SmsExecutionService } from './sms-execution.service';
 
 export type CampaignExecutionJobResult = {
   success: boolean;
@@ -17,9 +34,13 @@ export type CampaignExecutionJobResult = {
   error?: string;
 };
 
+// Campaigns that must not act; jobs queued before the pause or stop still arrive
+const INACTIVE_STATUSES = new Set<ContactCampaign['status']>(['paused', 'stopped', 'completed']);
+
 export class CampaignExecutionService {
   async processCampaignExecution(
-    job: Job<CampaignExecutionJobPayload>
+    job: Job<CampaignExecutionJobPayload>,
+    token?: string
   ): Promise<CampaignExecutionJobResult> {
     const { tenantId, campaignId, contactId, leadId, nodeId, actionType, metadata } = job.data;
 
@@ -48,14 +69,30 @@ export class CampaignExecutionService {
         throw new Error(`Campaign plan not found for campaign: ${campaignId}`);
       }
 
+      if (INACTIVE_STATUSES.has(campaign.status)) {
+        await this.skipInactiveCampaign(job, campaign);
+        return { success: true, nodeId, campaignId, contactId, actionType };
+      }
+
       // Find the specific node in the plan
-      const node = campaignPlan.nodes?.find(
+      let node = campaignPlan.nodes?.find(
         (n: CampaignPlanNode) => n.id === nodeId
       ) as CampaignPlanNode;
       if (!node) {
         throw new Error(`Node not found in campaign plan: ${nodeId}`);
       }
 
+      // A/B tested steps send the contact's assigned variant in place of the node's own copy
+      let variantId: string | null = null;
+      let abTestKey: string | null = null;
+      if (node.action === 'send' && node.variants?.length) {
+        ({ node, variantId, abTestKey } = await abTestService.resolveVariant(
+          tenantId,
+          contactId,
+          node
+        ));
+      }
+
       // Fetch contact information if needed
       const contact = await leadPointOfContactRepository.findById(contactId);
       if (!contact) {
@@ -86,6 +123,10 @@ export class CampaignExecutionService {
         contactName: contact.name,
       });
 
+      if (actionType === 'send' && (node.channel === 'email' || node.channel === 'sms')) {
+        await this.deferIfBlackedOut(job, token, campaignPlan, node.channel);
+      }
+
       // Process based on action type with fetched data
       switch (actionType) {
         case 'send':
@@ -103,12 +144,19 @@ export class CampaignExecutionService {
               campaignId,
               contactId,
               nodeId,
+              stepKey: getStepKey(node),
+              variantId,
+              abTestKey,
               node,
               contact,
               campaign,
               planJson: campaignPlan,
             });
 
+            await this.deferIfRateLimited(job, token, emailResult);
+
+            if (this.isHeldForReview(job, emailResult)) break;
+
             if (!emailResult.success) {
               throw new Error(`Email send failed: ${emailResult.error}`);
             }
@@ -118,14 +166,57 @@ export class CampaignExecutionService {
               nodeId,
               outboundMessageId: emailResult.outboundMessageId,
               providerMessageId: emailResult.providerMessageId,
+              variantId,
+            });
+            await pipelineService.advanceOnEvent(tenantId, leadId, 'message_sent');
+            if (node.action === 'send') {
+              await abTestService.maybePromoteWinner(tenantId, node, abTestKey);
+            }
+          } else if (node.channel === 'sms') {
+            logger.info('[CampaignExecutionWorker] Executing SMS send', {
+              jobId: job.id,
+              nodeId,
+              contactName: contact.name,
+            });
+
+            const smsResult = await new SmsExecutionService(tenantId).executeSmsSend({
+              tenantId,
+              campaignId,
+              contactId,
+              nodeId,
+              stepKey: getStepKey(node),
+              variantId,
+              abTestKey,
+              node,
+              contact,
+              campaign,
+              planJson: campaignPlan,
+            });
+
+            await this.deferIfRateLimited(job, token, smsResult);
+
+            if (this.isHeldForReview(job, smsResult)) break;
+
+            if (!smsResult.success) {
+              throw new Error(`SMS send failed: ${smsResult.error}`);
+            }
+
+            logger.info('[CampaignExecutionWorker] SMS sent successfully', {
+              jobId: job.id,
+              nodeId,
+              outboundMessageId: smsResult.outboundMessageId,
+              providerMessageId: smsResult.providerMessageId,
+              variantId,
             });
+            await pipelineService.advanceOnEvent(tenantId, leadId, 'message_sent');
+            if (node.action === 'send') {
+              await abTestService.maybePromoteWinner(tenantId, node, abTestKey);
+            }
           } else {
-            logger.info('[CampaignExecutionWorker] Would send message (non-email channel)', {
+            logger.warn('[CampaignExecutionWorker] Unsupported send channel', {
               jobId: job.id,
               nodeId,
               channel: node.channel,
-              contactEmail: contact.email,
-              contactName: contact.name,
             });
           }
           break;
@@ -173,6 +264,10 @@ export class CampaignExecutionService {
         actionType,
       };
     } catch (error) {
+      if (error instanceof DelayedError) {
+        throw error;
+      }
+
       logger.error('[CampaignExecutionWorker] Node execution failed', {
         jobId: job.id,
         tenantId,
@@ -187,4 +282,126 @@ export class CampaignExecutionService {
       throw error;
     }
   }
+
+  /**
+   * Holds sends that come due on a blackout date added after they were scheduled, moving
+   * the same job to the contact's next open send time
+   */
+  private async deferIfBlackedOut(
+    job: Job<CampaignExecutionJobPayload>,
+    token: string | undefined,
+    plan: CampaignPlanOutput,
+    channel: 'email' | 'sms'
+  ): Promise<void> {
+    if (!token) return;
+
+    const { tenantId, contactId } = job.data;
+    const isBlackoutDate = await blackoutService.getBlackoutCheck(tenantId);
+    const { timezone } = await sendTimeService.resolveContactTimezone(
+      tenantId,
+      contactId,
+      plan.timezone
+    );
+    if (!isBlackoutDate(toLocalDateString(new Date(), timezone))) return;
+
+    const { scheduledAt } = await sendTimeService.scheduleSend({
+      tenantId,
+      contactId,
+      channel,
+      scheduledAt: new Date(),
+      plan,
+    });
+
+    logger.info('[CampaignExecutionWorker] Send deferred by blackout date', {
+      jobId: job.id,
+      nodeId: job.data.nodeId,
+      timezone,
+      deferUntil: scheduledAt.toISOString(),
+    });
+    await job.moveToDelayed(scheduledAt.getTime(), token);
+    throw new DelayedError();
+  }
+
+  /**
+   * Drops a job for a campaign that is no longer running. Under a pause until resumed, the
+   * job is parked instead so resuming runs it; timed pauses re-enter the node themselves.
+   */
+  private async skipInactiveCampaign(
+    job: Job<CampaignExecutionJobPayload>,
+    campaign: ContactCampaign
+  ): Promise<void> {
+    const parked = campaign.status === 'paused' && !!campaign.pausedAt;
+    if (parked) {
+      const pausedJob: PausedJob = {
+        name: job.name,
+        data: job.data,
+        opts: { attempts: job.opts.attempts, backoff: job.opts.backoff },
+      };
+      await scheduledActionRepository.createForTenant(job.data.tenantId, {
+        campaignId: campaign.id,
+        actionType: job.data.actionType,
+        scheduledAt: new Date(),
+        status: 'paused',
+        payload: {
+          nodeId: job.data.nodeId,
+          channel: (campaign.planJson as CampaignPlanOutput).nodes.find(
+            (n) => n.id === job.data.nodeId
+          )?.channel,
+          pausedJob,
+        },
+        bullmqJobId: `${job.data.actionType}:${campaign.id}:${job.data.nodeId}:${Date.now()}`,
+      });
+    }
+
+    logger.info('[CampaignExecutionWorker] Campaign not running, skipping job', {
+      jobId: job.id,
+      campaignId: campaign.id,
+      nodeId: job.data.nodeId,
+      status: campaign.status,
+      parked,
+    });
+  }
+
+  /**
+   * A send waiting for (or stopped in) review ends the job without sending. Timeouts are
+   * only armed after a send, so the contact stays on this node until it is approved.
+   */
+  private isHeldForReview(
+    job: Job<CampaignExecutionJobPayload>,
+    result: EmailExecutionResult
+  ): boolean {
+    if (!result.skipReason || !HELD_SKIP_REASONS.has(result.skipReason)) {
+      return false;
+    }
+
+    logger.info('[CampaignExecutionWorker] Send held for review', {
+      jobId: job.id,
+      nodeId: job.data.nodeId,
+      outboundMessageId: result.outboundMessageId,
+      state: result.skipReason,
+    });
+    return true;
+  }
+
+  /**
+   * Keeps the same job (and its scheduled_action job id) and retries when the rate limit
+   * window opens
+   */
+  private async deferIfRateLimited(
+    job: Job<CampaignExecutionJobPayload>,
+    token: string | undefined,
+    result: EmailExecutionResult
+  ): Promise<void> {
+    if (result.skipReason !== 'rate_limited' || !result.deferUntil || !token) {
+      return;
+    }
+
+    logger.info('[CampaignExecutionWorker] Send deferred by rate limit', {
+      jobId: job.id,
+      nodeId: job.data.nodeId,
+      deferUntil: result.deferUntil.toISOString(),
+    });
+    await job.moveToDelayed(result.deferUntil.getTime(), token);
+    throw new DelayedError();
+  }
 }
@@ -2,19 +2,29 @@ import type { Job } from 'bullmq';
 import { getWorker } from '@/libs/bullmq';
 import { QUEUE_NAMES, JOB_NAMES } from '@/constants/queues';
 import { logger } from '@/libs/logger';
-import type { CampaignExecutionJobPayload } from '@/modules/messages/campaignExecution.publisher.service';
+import type {
+  CampaignExecutionJobPayload,
+  CampaignResumeJobPayload,
+  MeetingReminderJobPayload,
+} from '@/modules/messages/campaignExecution.publisher.service';
 import type { TimeoutJobPayload } from '@/types/timeout.types';
 import {
   CampaignExecutionService,
   type CampaignExecutionJobResult,
 } from './campaign-execution.service';
 import { TimeoutExecutionService, type TimeoutJobResult } from './timeout-execution.service';
+import { ResumeExecutionService, type ResumeJobResult } from './resume-execution.service';
+import {
+  MeetingReminderExecutionService,
+  type MeetingReminderJobResult,
+} from './meeting-reminder-execution.service';
 
 async function processCampaignExecution(
-  job: Job<CampaignExecutionJobPayload>
+  job: Job<CampaignExecutionJobPayload>,
+  token?: string
 ): Promise<CampaignExecutionJobResult> {
   const campaignExecutionService = new CampaignExecutionService();
-  return await campaignExecutionService.processCampaignExecution(job);
+  return await campaignExecutionService.processCampaignExecution(job, token);
 }
 
 async function processTimeout(job: Job<TimeoutJobPayload>): Promise<TimeoutJobResult> {
@@ -22,25 +32,54 @@ async function processTimeout(job: Job<TimeoutJobPayload>): Promise<TimeoutJobRe
   return await timeoutExecutionService.processTimeout(job);
 }
 
+async function processResume(job: Job<CampaignResumeJobPayload>): Promise<ResumeJobResult> {
+  const resumeExecutionService = new ResumeExecutionService();
+  return await resumeExecutionService.processResume(job);
+}
+
+async function processMeetingReminder(
+  job: Job<MeetingReminderJobPayload>
+): Promise<MeetingReminderJobResult> {
+  const meetingReminderExecutionService = new MeetingReminderExecutionService();
+  return await meetingReminderExecutionService.processMeetingReminder(job);
+}
+
 const campaignExecutionWorker = getWorker<
-  CampaignExecutionJobPayload | TimeoutJobPayload,
-  CampaignExecutionJobResult | TimeoutJobResult
+  | CampaignExecutionJobPayload
+  | TimeoutJobPayload
+  | CampaignResumeJobPayload
+  | MeetingReminderJobPayload,
+  CampaignExecutionJobResult | TimeoutJobResult | ResumeJobResult | MeetingReminderJobResult
 >(
   QUEUE_NAMES.campaign_execution,
-  async (job: Job<CampaignExecutionJobPayload | TimeoutJobPayload>) => {
+  async (
+    job: Job<
+      | CampaignExecutionJobPayload
+      | TimeoutJobPayload
+      | CampaignResumeJobPayload
+      | MeetingReminderJobPayload
+    >,
+    token?: string
+  ) => {
     logger.info('[CampaignExecutionWorker] Processing job', {
       jobId: job.id,
       jobName: job.name,
       expectedNames: [
         JOB_NAMES.campaign_execution.initialize,
         JOB_NAMES.campaign_execution.timeout,
+        JOB_NAMES.campaign_execution.resume,
+        JOB_NAMES.campaign_execution.meeting_reminder,
       ],
     });
 
     if (job.name === JOB_NAMES.campaign_execution.initialize) {
-      return processCampaignExecution(job as Job<CampaignExecutionJobPayload>);
+      return processCampaignExecution(job as Job<CampaignExecutionJobPayload>, token);
     } else if (job.name === JOB_NAMES.campaign_execution.timeout) {
       return processTimeout(job as Job<TimeoutJobPayload>);
+    } else if (job.name === JOB_NAMES.campaign_execution.resume) {
+      return processResume(job as Job<CampaignResumeJobPayload>);
+    } else if (job.name === JOB_NAMES.campaign_execution.meeting_reminder) {
+      return processMeetingReminder(job as Job<MeetingReminderJobPayload>);
     } else {
       logger.warn('[CampaignExecutionWorker] Skipping unexpected job name', {
         jobId: job.id,
@@ -48,6 +87,8 @@ const campaignExecutionWorker = getWorker<
         expectedNames: [
           JOB_NAMES.campaign_execution.initialize,
           JOB_NAMES.campaign_execution.timeout,
+          JOB_NAMES.campaign_execution.resume,
+          JOB_NAMES.campaign_execution.meeting_reminder,
         ],
         jobData: JSON.stringify(job.data),
       });
@@ -57,4 +98,9 @@ const campaignExecutionWorker = getWorker<
 );
 
 export default campaignExecutionWorker;
-export type { CampaignExecutionJobResult, TimeoutJobResult };
+export type {
+  CampaignExecutionJobResult,
+  TimeoutJobResult,
+  ResumeJobResult,
+  MeetingReminderJobResult,
+};
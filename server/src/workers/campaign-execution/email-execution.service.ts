@@ -9,19 +9,31 @@ import {
 } from '@/repositories';
 import { SenderIdentityResolverService } from '@/modules/email/senderIdentityResolver.service';
 import { unsubscribeService } from '@/modules/unsubscribe';
+import { sendRateLimitService } from '@/modules/sendRateLimit';
+import { suppressionService } from '@/modules/suppression';
 import { getQueue } from '@/libs/bullmq';
 import { parseIsoDuration } from '@/modules/campaign/scheduleUtils';
 import { db } from '@/db';
 import {
   DEFAULT_NO_OPEN_TIMEOUT,
   DEFAULT_NO_CLICK_TIMEOUT,
+  DEFAULT_NO_REPLY_TIMEOUT,
   TIMEOUT_JOB_OPTIONS,
 } from '@/constants/timeout-jobs';
 import { EmailProcessor, type CampaignEmailData } from '@/modules/email';
-import type { ContactCampaign, MailAccount, LeadPointOfContact } from '@/db/schema';
+import { templateService } from '@/modules/templates';
+import { sendReviewService } from '@/modules/sendReview';
+import { calendarUrlWrapper } from '@/libs/calendar/calendarUrlWrapper';
+import type {
+  ContactCampaign,
+  MailAccount,
+  LeadPointOfContact,
+  OutboundMessage,
+} from '@/db/schema';
 import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
 import type { TimeoutJobParams, TimeoutJobPayload } from '@/types/timeout.types';
 import { JOB_NAMES } from '@/constants/queues';
+import { DEFAULT_CALENDAR_TIE_IN } from '@/constants/user.constants';
 import { CAMPAIGN_EVENT_TYPES, TIMEOUT_EVENT_TYPES } from '@/constants/campaign-events';
 
 // Type for timeout events (imported from constants)
@@ -32,10 +44,15 @@ export interface EmailExecutionParams {
   campaignId: string;
   contactId: string;
   nodeId: string;
+  stepKey?: string; // Plan step shared across contacts; defaults to the node id
+  variantId?: string | null; // A/B variant already applied to `node`
+  abTestKey?: string | null; // A/B test the variant counts toward
   node: {
     subject?: string;
     body?: string;
     channel: string;
+    meetingType?: string; // Slug of the sender's meeting type to link
+    bookingLink?: boolean; // Link even when the sender has no calendar tie-in
     [key: string]: any;
   };
   contact: LeadPointOfContact;
@@ -51,8 +68,37 @@ export interface EmailExecutionResult {
   error?: string;
   skipped?: boolean;
   skipReason?: string;
+  deferUntil?: Date; // Set when the send was rate limited and should be retried later
 }
 
+// Message states that end a send job without sending: awaiting review, rejected or
+// canceled in review. The campaign stays on the node until a reviewer acts.
+export const HELD_SKIP_REASONS: ReadonlySet<string> = new Set([
+  'pending_review',
+  'rejected',
+  'canceled',
+]);
+
+/**
+ * Result for a send whose dedupe key already has a message
+ */
+export const existingMessageResult = (message: OutboundMessage): EmailExecutionResult => ({
+  success: message.state === 'sent',
+  outboundMessageId: message.id,
+  providerMessageId: message.providerMessageId || undefined,
+  error: message.state === 'failed' ? message.lastError || 'Send failed' : undefined,
+  ...(HELD_SKIP_REASONS.has(message.state) ? { skipped: true, skipReason: message.state } : {}),
+});
+
+/**
+ * Idempotency key for a campaign node send: one outbound message per contact, node and channel
+ */
+export const buildCampaignDedupeKey = (
+  params: Pick<EmailExecutionParams, 'tenantId' | 'campaignId' | 'contactId' | 'nodeId'>,
+  channel: 'email' | 'sms'
+): string =>
+  `${params.tenantId}:${params.campaignId}:${params.contactId}:${params.nodeId}:${channel}`;
+
 export class EmailExecutionService {
   private tenantId: string;
 
@@ -102,6 +148,32 @@ export class EmailExecutionService {
         };
       }
 
+      const suppression = await suppressionService.findActiveSuppression(
+        tenantId,
+        'email',
+        contact.email
+      );
+
+      if (suppression) {
+        logger.info('[EmailExecutionService] Skipping email send - address suppressed', {
+          tenantId,
+          campaignId,
+          contactId,
+          nodeId,
+          email: contact.email,
+          suppressionId: suppression.id,
+          suppressedAddress: suppression.address,
+          reason: suppression.reason,
+        });
+
+        return {
+          success: false,
+          error: 'Contact address is on the suppression list',
+          skipped: true,
+          skipReason: 'suppressed',
+        };
+      }
+
       // Fetch and validate mail account
       const mailAccount =
         params.mailAccount || (await this.getMailAccountByLeadId(tenantId, contact.leadId));
@@ -143,30 +215,100 @@ export class EmailExecutionService {
       // Generate dedupe key
       const dedupeKey = this.buildDedupeKey(params);
 
-      // Check if message already exists (idempotency)
+      // Check if message already exists (idempotency). An approved message is the one
+      // held for review, so it is sent now rather than skipped.
       const existingMessage = await outboundMessageRepository.findByDedupeKeyForTenant(
         tenantId,
         dedupeKey
       );
+      const approvedMessage = existingMessage?.state === 'approved' ? existingMessage : undefined;
 
-      if (existingMessage) {
+      if (existingMessage && !approvedMessage) {
         logger.info('[EmailExecutionService] Message already exists, skipping send', {
           tenantId,
           campaignId,
           contactId,
           nodeId,
           existingMessageId: existingMessage.id,
+          state: existingMessage.state,
           dedupeKey,
         });
 
+        return existingMessageResult(existingMessage);
+      }
+
+      // Reviewed copy is final; otherwise fill in template variables and snippets, where
+      // anything left unresolved fails the send
+      const content = approvedMessage
+        ? sendReviewService.getReviewedContent(approvedMessage)
+        : await templateService.renderMessage(
+            tenantId,
+            contact,
+            { subject: node.subject, body: node.body },
+            {
+              trackCalendarLink: () =>
+                calendarUrlWrapper.generateTrackedCalendarUrl({
+                  tenantId,
+                  leadId: contact.leadId,
+                  contactId,
+                  campaignId,
+                  nodeId,
+                }),
+            }
+          );
+
+      if (
+        !approvedMessage &&
+        (await sendReviewService.requiresReview(tenantId, nodeId, params.planJson))
+      ) {
+        const heldMessage = await sendReviewService.holdForReview(tenantId, {
+          campaignId,
+          contactId,
+          channel: 'email',
+          nodeId,
+          stepKey: params.stepKey ?? nodeId,
+          variantId: params.variantId ?? null,
+          abTestKey: params.abTestKey ?? null,
+          dedupeKey,
+          content: {
+            subject: content.subject ?? node.subject,
+            body: content.body,
+            to: contact.email,
+            toName: contact.name,
+          },
+        });
+
+        return {
+          success: false,
+          outboundMessageId: heldMessage.id,
+          skipped: true,
+          skipReason: 'pending_review',
+        };
+      }
+
+      // Hold back sends over the tenant / sender identity limits until the window frees up
+      const rateLimit = await sendRateLimitService.reserveSend({
+        tenantId,
+        channel: 'email',
+        identityId: mailAccount.id,
+        reservationId: `${dedupeKey}:${Date.now()}`,
+      });
+
+      if (!rateLimit.allowed) {
+        logger.info('[EmailExecutionService] Deferring email send - rate limit reached', {
+          tenantId,
+          campaignId,
+          contactId,
+          nodeId,
+          mailAccountId: mailAccount.id,
+          deferUntil: rateLimit.retryAt.toISOString(),
+        });
+
         return {
-          success: existingMessage.state === 'sent',
-          outboundMessageId: existingMessage.id,
-          providerMessageId: existingMessage.providerMessageId || undefined,
-          error:
-            existingMessage.state === 'failed'
-              ? existingMessage.lastError || 'Send failed'
-              : undefined,
+          success: false,
+          skipped: true,
+          skipReason: 'rate_limited',
+          deferUntil: rateLimit.retryAt,
         };
       }
 
@@ -194,6 +336,14 @@ export class EmailExecutionService {
             calendarLink: user.calendarLink,
             calendarTieIn: user.calendarTieIn,
             leadId: lead.id,
+            meetingTypeSlug: node.meetingType,
+          };
+        } else if (node.bookingLink) {
+          calendarInfo = {
+            calendarLink: user?.calendarLink ?? '',
+            calendarTieIn: user?.calendarTieIn || DEFAULT_CALENDAR_TIE_IN,
+            leadId: lead.id,
+            meetingTypeSlug: node.meetingType,
           };
         }
       }
@@ -204,12 +354,16 @@ export class EmailExecutionService {
         campaignId,
         contactId,
         nodeId,
-        subject: node.subject,
-        body: node.body,
+        stepKey: params.stepKey,
+        variantId: params.variantId,
+        abTestKey: params.abTestKey,
+        subject: content.subject ?? node.subject,
+        body: content.body,
         recipientEmail: contact.email,
         recipientName: contact.name,
         calendarInfo,
         dedupeKey,
+        outboundMessageId: approvedMessage?.id,
         categories: ['campaign'],
         skipMessageRecord: false,
         skipTimeoutScheduling: false,
@@ -332,8 +486,41 @@ export class EmailExecutionService {
     }
   }
 
-  private buildDedupeKey(params: EmailExecutionParams) {
-    return `${params.tenantId}:${params.campaignId}:${params.contactId}:${params.nodeId}:email`;
+  /**
+   * Re-arms the timeout jobs for a node whose message already went out, e.g. when a paused
+   * campaign resumes. Returns false when the node has no sent message to time out against.
+   */
+  async rescheduleNodeTimeouts(
+    campaign: ContactCampaign,
+    nodeId: string,
+    plan: CampaignPlanOutput,
+    channel: 'email' | 'sms' = 'email'
+  ): Promise<boolean> {
+    const sentMessage = await outboundMessageRepository.findByDedupeKeyForTenant(
+      this.tenantId,
+      buildCampaignDedupeKey(
+        {
+          tenantId: this.tenantId,
+          campaignId: campaign.id,
+          contactId: campaign.contactId,
+          nodeId,
+        },
+        channel
+      )
+    );
+
+    if (!sentMessage || sentMessage.state !== 'sent') {
+      return false;
+    }
+
+    await this.scheduleTimeoutJobs(campaign.id, nodeId, plan, sentMessage.id);
+    return true;
+  }
+
+  private buildDedupeKey(
+    params: Pick<EmailExecutionParams, 'tenantId' | 'campaignId' | 'contactId' | 'nodeId'>
+  ) {
+    return buildCampaignDedupeKey(params, 'email');
   }
 
   /**
@@ -366,11 +553,17 @@ export class EmailExecutionService {
     return `${baseJobId}_${hash}`;
   }
 
-  private async scheduleTimeoutJobs(
+  /**
+   * Schedules the node's timeout transitions (no_open / no_click / no_reply) against a sent
+   * message. Also used for SMS sends, which pass only no_reply since texts are never
+   * opened or clicked as far as we can tell.
+   */
+  async scheduleTimeoutJobs(
     campaignId: string,
     nodeId: string,
     plan: CampaignPlanOutput,
-    messageId: string
+    messageId: string,
+    eventTypes: readonly TimeoutEventType[] = TIMEOUT_EVENT_TYPES // Timeouts the channel can fire
   ): Promise<void> {
     // Find the current node in the plan
     const currentNode = plan.nodes.find((node) => node.id === nodeId);
@@ -390,10 +583,7 @@ export class EmailExecutionService {
     // Find which timeout event types are actually used in this node's transitions
     const timeoutEventTypesInTransitions = new Set<string>();
     for (const transition of currentNode.transitions) {
-      if (
-        'after' in transition &&
-        TIMEOUT_EVENT_TYPES.includes(transition.on as TimeoutEventType)
-      ) {
+      if ('after' in transition && eventTypes.includes(transition.on as TimeoutEventType)) {
         timeoutEventTypesInTransitions.add(transition.on);
       }
     }
@@ -404,8 +594,8 @@ export class EmailExecutionService {
       if ('after' in transition) {
         // Only schedule timeout jobs for timeout event types
         const eventType = transition.on;
-        if (!TIMEOUT_EVENT_TYPES.includes(eventType as TimeoutEventType)) {
-          continue; // Skip non-timeout event types
+        if (!eventTypes.includes(eventType as TimeoutEventType)) {
+          continue; // Skip non-timeout event types and ones the channel can't fire
         }
 
         if (scheduledTimeouts.has(eventType)) {
@@ -523,6 +713,41 @@ export class EmailExecutionService {
         });
       }
     }
+
+    if (
+      !scheduledTimeouts.has(CAMPAIGN_EVENT_TYPES.NO_REPLY) &&
+      timeoutEventTypesInTransitions.has(CAMPAIGN_EVENT_TYPES.NO_REPLY)
+    ) {
+      const noReplyDelay = defaults?.no_reply_after || DEFAULT_NO_REPLY_TIMEOUT;
+      try {
+        const noReplyDelayMs = parseIsoDuration(noReplyDelay);
+        await this.scheduleTimeoutJob({
+          campaignId,
+          nodeId,
+          messageId,
+          eventType: CAMPAIGN_EVENT_TYPES.NO_REPLY,
+          scheduledAt: new Date(Date.now() + noReplyDelayMs),
+        });
+
+        logger.info('[EmailExecutionService] Scheduled default no_reply timeout', {
+          tenantId: this.tenantId,
+          campaignId,
+          nodeId,
+          messageId,
+          delay: noReplyDelay,
+          scheduledAt: new Date(Date.now() + noReplyDelayMs).toISOString(),
+        });
+      } catch (error) {
+        logger.error('[EmailExecutionService] Failed to parse default no_reply timing', {
+          tenantId: this.tenantId,
+          campaignId,
+          nodeId,
+          messageId,
+          delay: noReplyDelay,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
   }
 
   private async scheduleTimeoutJob(params: TimeoutJobParams): Promise<void> {
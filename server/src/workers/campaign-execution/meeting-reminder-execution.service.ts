@@ -0,0 +1,39 @@
+import type { Job } from 'bullmq';
+import { logger } from '@/libs/logger';
+import { meetingReminderService } from '@/modules/scheduling/MeetingReminderService';
+import type { MeetingReminderJobPayload } from '@/modules/messages/campaignExecution.publisher.service';
+
+export interface MeetingReminderJobResult {
+  success: boolean;
+  skipped?: boolean;
+  reason?: string;
+}
+
+export class MeetingReminderExecutionService {
+  async processMeetingReminder(
+    job: Job<MeetingReminderJobPayload>
+  ): Promise<MeetingReminderJobResult> {
+    const { tenantId, meetingId, offsetMinutes } = job.data;
+
+    logger.info('[CampaignExecutionWorker] Processing meeting reminder job', {
+      jobId: job.id,
+      tenantId,
+      meetingId,
+      offsetMinutes,
+    });
+
+    const result = await meetingReminderService.sendReminder(job.data);
+    if (!result.sent) {
+      // Canceled, marked held or no-show, or moved since the reminder was scheduled
+      logger.info('[CampaignExecutionWorker] Meeting reminder no longer needed, skipping', {
+        jobId: job.id,
+        tenantId,
+        meetingId,
+        reason: result.reason,
+      });
+      return { success: true, skipped: true, reason: result.reason };
+    }
+
+    return { success: true };
+  }
+}
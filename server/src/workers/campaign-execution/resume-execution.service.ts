@@ -0,0 +1,79 @@
+import type { Job } from 'bullmq';
+import { logger } from '@/libs/logger';
+import { contactCampaignRepository } from '@/repositories';
+import { campaignPlanExecutionService } from '@/modules/campaign/campaignPlanExecution.service';
+import type { CampaignResumeJobPayload } from '@/modules/messages/campaignExecution.publisher.service';
+import type { CampaignPlanOutput } from '@/modules/ai/schemas/contactStrategy/contactCampaignStrategySchema';
+import { EmailExecutionService } from './email-execution.service';
+
+export interface ResumeJobResult {
+  success: boolean;
+  skipped?: boolean;
+  reason?: string;
+  nodeId?: string;
+}
+
+export class ResumeExecutionService {
+  async processResume(job: Job<CampaignResumeJobPayload>): Promise<ResumeJobResult> {
+    const { tenantId, campaignId, reason } = job.data;
+
+    logger.info('[CampaignExecutionWorker] Processing resume job', {
+      jobId: job.id,
+      tenantId,
+      campaignId,
+      reason,
+    });
+
+    const campaign = await contactCampaignRepository.findByIdForTenant(campaignId, tenantId);
+
+    // Someone stopped or restarted the campaign while it was paused
+    if (!campaign || campaign.status !== 'paused' || !campaign.currentNodeId) {
+      logger.info('[CampaignExecutionWorker] Campaign no longer paused, skipping resume', {
+        jobId: job.id,
+        tenantId,
+        campaignId,
+        status: campaign?.status,
+      });
+      return { success: true, skipped: true, reason: 'campaign_not_paused' };
+    }
+
+    const plan = campaign.planJson as CampaignPlanOutput;
+    const nodeId = campaign.currentNodeId;
+    const node = plan.nodes.find((n) => n.id === nodeId);
+
+    // A send node whose message already went out only needs its timeouts re-armed;
+    // anything else is re-entered from scratch.
+    let timeoutsRearmed = false;
+    if (node?.action === 'send') {
+      const emailExecutionService = new EmailExecutionService(tenantId);
+      timeoutsRearmed = await emailExecutionService.rescheduleNodeTimeouts(
+        campaign,
+        nodeId,
+        plan,
+        node.channel
+      );
+    }
+
+    const nextAction = await campaignPlanExecutionService.resumeCampaign({
+      tenantId,
+      campaignId,
+      contactId: campaign.contactId,
+      leadId: campaign.leadId,
+      currentNodeId: nodeId,
+      plan,
+      reason,
+      rescheduleNode: !timeoutsRearmed,
+    });
+
+    logger.info('[CampaignExecutionWorker] Campaign resumed', {
+      jobId: job.id,
+      tenantId,
+      campaignId,
+      nodeId,
+      timeoutsRearmed,
+      nextAction,
+    });
+
+    return { success: true, nodeId };
+  }
+}
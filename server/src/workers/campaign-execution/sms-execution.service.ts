@@ -0,0 +1,311 @@
+import { createId } from '@paralleldrive/cuid2';
+import { logger } from '@/libs/logger';
+import { outboundMessageRepository } from '@/repositories';
+import { unsubscribeService } from '@/modules/unsubscribe';
+import { sendRateLimitService } from '@/modules/sendRateLimit';
+import { suppressionService } from '@/modules/suppression';
+import { smsOrchestrator } from '@/libs/sms/sms.orchestrator';
+import { formatPhoneForStorage } from '@/libs/phoneFormatter';
+import { SMS_CONFIG } from '@/config/sms.config';
+import { templateService } from '@/modules/templates';
+import { sendReviewService } from '@/modules/sendReview';
+import { calendarUrlWrapper } from '@/libs/calendar/calendarUrlWrapper';
+import { buildSmsStatusCallbackUrl } from '@/modules/sms';
+import { CAMPAIGN_EVENT_TYPES } from '@/constants/campaign-events';
+import {
+  EmailExecutionService,
+  buildCampaignDedupeKey,
+  existingMessageResult,
+  type EmailExecutionParams,
+  type EmailExecutionResult,
+} from './email-execution.service';
+
+export type SmsExecutionParams = Omit<EmailExecutionParams, 'mailAccount'>;
+export type SmsExecutionResult = EmailExecutionResult;
+
+// Opt-out instructions already written into the message ("Reply STOP ...")
+const OPT_OUT_PATTERN = /\bSTOP\b/;
+
+/**
+ * Sends campaign `sms` nodes to the contact's phone through the configured SMS provider.
+ * Runs the same gates as email (unsubscribes, suppressions, idempotency, rate limits)
+ * against the E.164 number, and records the text as an outbound_messages row.
+ */
+export class SmsExecutionService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  async executeSmsSend(params: SmsExecutionParams): Promise<SmsExecutionResult> {
+    const { tenantId, campaignId, contactId, nodeId, node, contact } = params;
+    const dedupeKey = buildCampaignDedupeKey(params, 'sms');
+
+    try {
+      if (node.channel !== 'sms') {
+        throw new Error(`Invalid channel for SMS execution: ${node.channel}`);
+      }
+
+      if (!node.body?.trim()) {
+        throw new Error('SMS body is required');
+      }
+
+      const phone = formatPhoneForStorage(contact.phone);
+      if (!phone) {
+        throw new Error('Contact phone number is required');
+      }
+
+      const isUnsubscribed = await unsubscribeService.isChannelUnsubscribed(tenantId, 'sms', phone);
+
+      if (isUnsubscribed) {
+        logger.info('[SmsExecutionService] Skipping SMS send - contact unsubscribed', {
+          tenantId,
+          campaignId,
+          contactId,
+          nodeId,
+          phone,
+        });
+
+        return {
+          success: false,
+          error: 'Contact has unsubscribed from SMS',
+          skipped: true,
+          skipReason: 'unsubscribed',
+        };
+      }
+
+      const suppression = await suppressionService.findActiveSuppression(tenantId, 'sms', phone);
+
+      if (suppression) {
+        logger.info('[SmsExecutionService] Skipping SMS send - number suppressed', {
+          tenantId,
+          campaignId,
+          contactId,
+          nodeId,
+          suppressionId: suppression.id,
+          reason: suppression.reason,
+        });
+
+        return {
+          success: false,
+          error: 'Contact number is on the suppression list',
+          skipped: true,
+          skipReason: 'suppressed',
+        };
+      }
+
+      const existingMessage = await outboundMessageRepository.findByDedupeKeyForTenant(
+        tenantId,
+        dedupeKey
+      );
+
+      const approvedMessage = existingMessage?.state === 'approved' ? existingMessage : undefined;
+
+      if (existingMessage && !approvedMessage) {
+        logger.info('[SmsExecutionService] Message already exists, skipping send', {
+          tenantId,
+          campaignId,
+          contactId,
+          nodeId,
+          existingMessageId: existingMessage.id,
+          state: existingMessage.state,
+          dedupeKey,
+        });
+
+        return existingMessageResult(existingMessage);
+      }
+
+      // Reviewed copy is final; otherwise fill in template variables and snippets, where
+      // anything left unresolved fails the send
+      const content = approvedMessage
+        ? sendReviewService.getReviewedContent(approvedMessage)
+        : await templateService.renderMessage(
+            tenantId,
+            contact,
+            { body: node.body },
+            {
+              trackCalendarLink: () =>
+                calendarUrlWrapper.generateTrackedCalendarUrl({
+                  tenantId,
+                  leadId: contact.leadId,
+                  contactId,
+                  campaignId,
+                  nodeId,
+                }),
+            }
+          );
+      const body = withOptOutFooter(content.body.trim());
+
+      if (
+        !approvedMessage &&
+        (await sendReviewService.requiresReview(tenantId, nodeId, params.planJson))
+      ) {
+        const heldMessage = await sendReviewService.holdForReview(tenantId, {
+          campaignId,
+          contactId,
+          channel: 'sms',
+          nodeId,
+          stepKey: params.stepKey ?? nodeId,
+          variantId: params.variantId ?? null,
+          abTestKey: params.abTestKey ?? null,
+          dedupeKey,
+          content: { body, to: phone, toName: contact.name },
+        });
+
+        return {
+          success: false,
+          outboundMessageId: heldMessage.id,
+          skipped: true,
+          skipReason: 'pending_review',
+        };
+      }
+
+      const from = smsOrchestrator.getFromNumber();
+
+      const rateLimit = await sendRateLimitService.reserveSend({
+        tenantId,
+        channel: 'sms',
+        identityId: from,
+        reservationId: `${dedupeKey}:${Date.now()}`,
+      });
+
+      if (!rateLimit.allowed) {
+        logger.info('[SmsExecutionService] Deferring SMS send - rate limit reached', {
+          tenantId,
+          campaignId,
+          contactId,
+          nodeId,
+          deferUntil: rateLimit.retryAt.toISOString(),
+        });
+
+        return {
+          success: false,
+          skipped: true,
+          skipReason: 'rate_limited',
+          deferUntil: rateLimit.retryAt,
+        };
+      }
+
+      const outboundMessageId = approvedMessage?.id ?? createId();
+
+      if (approvedMessage) {
+        await outboundMessageRepository.updateByIdForTenant(outboundMessageId, tenantId, {
+          content: { body, to: phone, from, toName: contact.name },
+          state: 'queued',
+          scheduledAt: new Date(),
+          updatedAt: new Date(),
+        });
+      } else {
+        await outboundMessageRepository.createForTenant(tenantId, {
+          id: outboundMessageId,
+          campaignId,
+          contactId,
+          channel: 'sms',
+          nodeId,
+          stepKey: params.stepKey ?? nodeId,
+          variantId: params.variantId ?? null,
+          abTestKey: params.abTestKey ?? null,
+          dedupeKey,
+          content: { body, to: phone, from, toName: contact.name },
+          state: 'queued',
+          scheduledAt: new Date(),
+        });
+      }
+
+      const providerIds = await smsOrchestrator.sendSms({
+        tenantId,
+        campaignId,
+        nodeId,
+        outboundMessageId,
+        from,
+        to: phone,
+        body,
+        statusCallbackUrl: buildSmsStatusCallbackUrl(tenantId, outboundMessageId),
+      });
+
+      await outboundMessageRepository.updateByIdForTenant(outboundMessageId, tenantId, {
+        state: 'sent',
+        providerMessageId: providerIds.providerMessageId,
+        sentAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      logger.info('[SmsExecutionService] SMS sent successfully', {
+        tenantId,
+        campaignId,
+        contactId,
+        nodeId,
+        outboundMessageId,
+        providerMessageId: providerIds.providerMessageId,
+      });
+
+      if (params.planJson) {
+        try {
+          // Reuse the email timeout scheduling; texts can only time out waiting for a reply
+          await new EmailExecutionService(this.tenantId).scheduleTimeoutJobs(
+            campaignId,
+            nodeId,
+            params.planJson,
+            outboundMessageId,
+            [CAMPAIGN_EVENT_TYPES.NO_REPLY]
+          );
+        } catch (timeoutError) {
+          logger.error('[SmsExecutionService] Failed to schedule timeout jobs', {
+            tenantId,
+            campaignId,
+            nodeId,
+            outboundMessageId,
+            error: timeoutError instanceof Error ? timeoutError.message : 'Unknown error',
+          });
+        }
+      }
+
+      return {
+        success: true,
+        outboundMessageId,
+        providerMessageId: providerIds.providerMessageId,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('[SmsExecutionService] SMS send failed', {
+        tenantId,
+        campaignId,
+        contactId,
+        nodeId,
+        error: errorMessage,
+      });
+
+      try {
+        const existingMessage = await outboundMessageRepository.findByDedupeKeyForTenant(
+          tenantId,
+          dedupeKey
+        );
+
+        if (existingMessage && existingMessage.state === 'queued') {
+          await outboundMessageRepository.updateByIdForTenant(existingMessage.id, tenantId, {
+            state: 'failed',
+            lastError: errorMessage,
+            errorAt: new Date(),
+            updatedAt: new Date(),
+          });
+        }
+      } catch (updateError) {
+        logger.error('[SmsExecutionService] Failed to update outbound message state', {
+          tenantId,
+          campaignId,
+          nodeId,
+          updateError: updateError instanceof Error ? updateError.message : 'Unknown error',
+        });
+      }
+
+      throw error;
+    }
+  }
+}
+
+const withOptOutFooter = (body: string): string =>
+  SMS_CONFIG.OPT_OUT_FOOTER && !OPT_OUT_PATTERN.test(body)
+    ? `${body}\n\n${SMS_CONFIG.OPT_OUT_FOOTER}`
+    : body;
@@ -51,7 +51,7 @@ export class TimeoutExecutionService {
 
     try {
       // Check if real event already happened
-      const realEventType = eventType.replace('no_', ''); // no_open -> open
+      const realEventType = eventType.replace('no_', ''); // no_open -> open, no_reply -> reply
       const realEventExists = await messageEventRepository.findByMessageAndType(
         messageId,
         realEventType
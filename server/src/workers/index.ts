@@ -3,6 +3,7 @@ export { default as leadInitialProcessingWorker } from './lead-initial-processin
 export { default as leadAnalysisWorker } from './lead-analysis/lead-analysis.worker';
 export { default as campaignCreationWorker } from './campaign-creation/campaign-creation.worker';
 export { default as campaignExecutionWorker } from './campaign-execution/campaign-execution.worker';
+export { default as replyIngestionWorker } from './reply-ingestion/reply-ingestion.worker';
 
 // Export worker runner functions
 export { startWorkers, gracefulShutdown } from './worker.run';
@@ -14,4 +15,6 @@ export type { CampaignCreationJobResult } from './campaign-creation/campaign-cre
 export type {
   CampaignExecutionJobResult,
   TimeoutJobResult,
+  ResumeJobResult,
 } from './campaign-execution/campaign-execution.worker';
+export type { ReplyIngestionJobResult } from './reply-ingestion/reply-ingestion.worker';
@@ -139,6 +139,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -154,6 +156,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -272,6 +276,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -287,6 +293,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -302,6 +310,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -375,6 +385,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -390,6 +402,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -405,6 +419,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -467,6 +483,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -524,6 +542,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -582,6 +602,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -861,6 +883,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -876,6 +900,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -891,6 +917,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
@@ -947,6 +975,8 @@ describe('Lead Analysis Worker', () => {
             company: null,
             sourceUrl: null,
             leadId: mockJobPayload.leadId,
+            location: null,
+            timezone: null,
             manuallyReviewed: false,
             strategyStatus: 'none',
             createdAt: new Date(),
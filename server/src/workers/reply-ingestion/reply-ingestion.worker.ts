@@ -0,0 +1,63 @@
+import type { Job } from 'bullmq';
+import { getWorker } from '@/libs/bullmq';
+import { QUEUE_NAMES, JOB_NAMES } from '@/constants/queues';
+import { logger } from '@/libs/logger';
+import type {
+  ReplyClassificationJobPayload,
+  ReplyIngestionJobPayload,
+} from '@/modules/messages/replyIngestion.publisher.service';
+import {
+  replyIngestionService,
+  type ReplyIngestionResult,
+} from '@/modules/email/replyIngestion.service';
+import {
+  replyClassificationService,
+  type ReplyClassificationResult,
+} from '@/modules/email/replyClassification.service';
+
+type ReplyIngestionJobData =
+  | ReplyIngestionJobPayload
+  | ReplyClassificationJobPayload
+  | Record<string, never>;
+
+export type ReplyIngestionJobResult =
+  | { success: true; enqueuedMailAccounts: number }
+  | ({ success: true } & ReplyIngestionResult)
+  | ({ success: true } & ReplyClassificationResult);
+
+const replyIngestionWorker = getWorker<ReplyIngestionJobData, ReplyIngestionJobResult>(
+  QUEUE_NAMES.reply_ingestion,
+  async (job: Job<ReplyIngestionJobData>) => {
+    if (job.name === JOB_NAMES.reply_ingestion.poll_all) {
+      const enqueuedMailAccounts = await replyIngestionService.enqueueAllMailAccounts();
+      return { success: true, enqueuedMailAccounts };
+    }
+
+    if (job.name === JOB_NAMES.reply_ingestion.poll_account) {
+      const { mailAccountId } = job.data as ReplyIngestionJobPayload;
+      const result = await replyIngestionService.ingestMailAccount(mailAccountId);
+      return { success: true, ...result };
+    }
+
+    if (job.name === JOB_NAMES.reply_ingestion.classify) {
+      const { tenantId, inboundMessageId } = job.data as ReplyClassificationJobPayload;
+      const result = await replyClassificationService.classifyInboundMessage(
+        tenantId,
+        inboundMessageId
+      );
+      return { success: true, ...result };
+    }
+
+    logger.warn('[ReplyIngestionWorker] Skipping unexpected job name', {
+      jobId: job.id,
+      jobName: job.name,
+    });
+    throw new Error(`Unexpected job name: ${job.name}`);
+  },
+  {
+    // Provider APIs are rate limited per mailbox; keep the fan-out modest
+    concurrency: 5,
+  }
+);
+
+export default replyIngestionWorker;
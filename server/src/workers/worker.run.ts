@@ -15,11 +15,13 @@ import '../bootstrap';
 import { logger } from '@/libs/logger';
 import { createRedisConnection } from '@/libs/bullmq';
 import { shutdownDatabaseConnections, shutdownRedisConnections } from '@/libs/shutdown';
+import { ReplyIngestionPublisher } from '@/modules/messages/replyIngestion.publisher.service';
 import {
   leadInitialProcessingWorker,
   leadAnalysisWorker,
   campaignCreationWorker,
   campaignExecutionWorker,
+  replyIngestionWorker,
 } from './index';
 
 // Track active workers for graceful shutdown
@@ -29,6 +31,7 @@ const activeWorkers = [
   leadAnalysisWorker,
   campaignCreationWorker,
   campaignExecutionWorker,
+  replyIngestionWorker,
 ];
 
 async function startWorkers() {
@@ -45,6 +48,7 @@ async function startWorkers() {
         'lead-analysis',
         'campaign-creation',
         'campaign-execution (includes timeout processing)',
+        'reply-ingestion',
       ],
       timestamp: new Date().toISOString(),
     });
@@ -56,8 +60,12 @@ async function startWorkers() {
       leadAnalysisWorker: leadAnalysisWorker.isRunning(),
       campaignCreationWorker: campaignCreationWorker.isRunning(),
       campaignExecutionWorker: campaignExecutionWorker.isRunning(),
+      replyIngestionWorker: replyIngestionWorker.isRunning(),
     });
 
+    // Register the repeatable mailbox poll for reply detection
+    await ReplyIngestionPublisher.schedulePolling();
+
     // Keep the process alive
     logger.info('📊 Workers are running. Press Ctrl+C to stop...');
   } catch (error) {
@@ -82,6 +90,7 @@ async function gracefulShutdown(signal: string) {
           'lead-analysis',
           'campaign-creation',
           'campaign-execution',
+          'reply-ingestion',
         ];
         logger.info(`🛑 Closing ${workerNames[index]} worker...`);
         await worker.close();